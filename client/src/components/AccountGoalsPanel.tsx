@@ -0,0 +1,258 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Archive, CheckCircle2, Plus, Target } from "lucide-react";
+import type { AccountGoalProgress, GoalAccount } from "@shared/schema";
+
+const formatMoney = (value: number) =>
+  `$${value.toLocaleString("en-US", { maximumFractionDigits: 0 })}`;
+
+const formatRate = (value: number | null) =>
+  value === null ? "—" : `${value >= 0 ? "+" : ""}${value.toFixed(1)}%/yr`;
+
+const emptyForm = { name: "", startDate: "", startValue: "", targetValue: "", targetDate: "" };
+
+/**
+ * Growth goals for one broker account: progress on net liquidating value, required vs
+ * achieved CAGR and milestones, with create and archive
+ */
+export function AccountGoalsPanel({ account = "tastytrade" }: { account?: GoalAccount }) {
+  const { toast } = useToast();
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const goalsKey = [`/api/goals?account=${account}`];
+
+  const { data: goals, isLoading } = useQuery<AccountGoalProgress[]>({
+    queryKey: goalsKey,
+    refetchInterval: 60000,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: goalsKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/portfolio/ai-analysis"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () =>
+      apiRequest("POST", "/api/goals", {
+        account,
+        name: form.name.trim(),
+        startDate: form.startDate,
+        startValue: Number(form.startValue),
+        targetValue: Number(form.targetValue),
+        targetDate: form.targetDate,
+      }),
+    onSuccess: () => {
+      toast({ title: "Goal created", description: form.name.trim() });
+      setForm(emptyForm);
+      setShowForm(false);
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Could not create goal", description: error.message });
+    },
+  });
+
+  const archiveMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/goals/${id}`),
+    onSuccess: () => {
+      toast({ title: "Goal archived" });
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Could not archive goal", description: error.message });
+    },
+  });
+
+  const canSubmit = form.name.trim() && form.startDate && form.targetDate && form.startValue && form.targetValue;
+
+  return (
+    <div className="space-y-3" data-testid="account-goals">
+      <div className="flex items-center justify-between text-sm">
+        <div className="flex items-center gap-2">
+          <Target className="h-4 w-4 text-purple-500" />
+          <span className="font-medium">Growth Goals</span>
+        </div>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-7 gap-1"
+          onClick={() => setShowForm(!showForm)}
+          data-testid="button-new-goal"
+        >
+          <Plus className="h-3 w-3" />
+          New goal
+        </Button>
+      </div>
+
+      {showForm && (
+        <div className="grid grid-cols-2 gap-2 md:grid-cols-6" data-testid="form-new-goal">
+          <Input
+            placeholder="Name"
+            value={form.name}
+            onChange={e => setForm({ ...form, name: e.target.value })}
+            className="h-8 md:col-span-2"
+            data-testid="input-goal-name"
+          />
+          <Input
+            type="date"
+            value={form.startDate}
+            onChange={e => setForm({ ...form, startDate: e.target.value })}
+            className="h-8"
+            data-testid="input-goal-start-date"
+          />
+          <Input
+            type="number"
+            min={1}
+            placeholder="Start value"
+            value={form.startValue}
+            onChange={e => setForm({ ...form, startValue: e.target.value })}
+            className="h-8"
+            data-testid="input-goal-start-value"
+          />
+          <Input
+            type="number"
+            min={1}
+            placeholder="Target value"
+            value={form.targetValue}
+            onChange={e => setForm({ ...form, targetValue: e.target.value })}
+            className="h-8"
+            data-testid="input-goal-target-value"
+          />
+          <Input
+            type="date"
+            value={form.targetDate}
+            onChange={e => setForm({ ...form, targetDate: e.target.value })}
+            className="h-8"
+            data-testid="input-goal-target-date"
+          />
+          <Button
+            size="sm"
+            className="col-span-2 md:col-span-6"
+            onClick={() => createMutation.mutate()}
+            disabled={!canSubmit || createMutation.isPending}
+            data-testid="button-create-goal"
+          >
+            Create goal
+          </Button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-xs text-muted-foreground">Loading goals…</p>
+      ) : !goals || goals.length === 0 ? (
+        <p className="text-xs text-muted-foreground" data-testid="text-no-goals">
+          No active goals. Set a start value, target and date to track required vs achieved growth.
+        </p>
+      ) : (
+        goals.map(progress => {
+          const { goal } = progress;
+          return (
+            <div key={goal.id} className="space-y-2 rounded-md border p-3" data-testid={`goal-${goal.id}`}>
+              <div className="flex items-center justify-between text-sm">
+                <div>
+                  <span className="font-medium">{goal.name}</span>
+                  <span className="ml-2 text-xs text-muted-foreground">
+                    {formatMoney(goal.startValue)} → {formatMoney(goal.targetValue)} by {goal.targetDate}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span
+                    className={
+                      !progress.dataAvailable
+                        ? "text-muted-foreground"
+                        : progress.onTrack
+                          ? "text-green-500"
+                          : "text-yellow-500"
+                    }
+                    data-testid={`goal-status-${goal.id}`}
+                  >
+                    {!progress.dataAvailable ? "No account data" : progress.onTrack ? "On Track" : "Behind Plan"}
+                  </span>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-6 w-6"
+                    onClick={() => archiveMutation.mutate(goal.id)}
+                    disabled={archiveMutation.isPending}
+                    title="Archive goal"
+                    data-testid={`button-archive-goal-${goal.id}`}
+                  >
+                    <Archive className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+              {!progress.dataAvailable ? (
+                <p className="text-xs text-muted-foreground" data-testid={`goal-no-data-${goal.id}`}>
+                  No account data: the broker returned no balance or history, so progress can't be measured.
+                </p>
+              ) : (
+                <>
+                  <Progress value={progress.progressPercent ?? 0} className="h-2" data-testid={`goal-progress-bar-${goal.id}`} />
+                  <div className="grid grid-cols-2 gap-4 text-xs text-muted-foreground md:grid-cols-4">
+                    <div>
+                      <p>Current</p>
+                      <p className="font-medium text-foreground">{formatMoney(progress.current!)}</p>
+                      <p>plan {formatMoney(progress.plannedValue)}</p>
+                    </div>
+                    <div>
+                      <p>Remaining</p>
+                      <p className="font-medium text-foreground">{formatMoney(progress.remaining!)}</p>
+                      <p>{progress.requiredMultiplier} from here</p>
+                    </div>
+                    <div>
+                      <p>Required CAGR</p>
+                      <p className="font-medium text-foreground" data-testid={`goal-required-cagr-${goal.id}`}>
+                        {formatRate(progress.requiredCAGRFromNow)}
+                      </p>
+                      <p>planned {formatRate(progress.requiredCAGR)}</p>
+                    </div>
+                    <div>
+                      <p>Achieved CAGR</p>
+                      <p
+                        className={`font-medium ${
+                          progress.achievedCAGR === null
+                            ? "text-foreground"
+                            : progress.requiredCAGR !== null && progress.achievedCAGR >= progress.requiredCAGR
+                              ? "text-green-500"
+                              : "text-yellow-500"
+                        }`}
+                        data-testid={`goal-achieved-cagr-${goal.id}`}
+                      >
+                        {formatRate(progress.achievedCAGR)}
+                      </p>
+                      <p>{progress.growthPercent! >= 0 ? "+" : ""}{progress.growthPercent!.toFixed(1)}% total</p>
+                    </div>
+                  </div>
+                </>
+              )}
+              {progress.milestones.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {progress.milestones.map(milestone => (
+                    <Badge
+                      key={milestone.value}
+                      variant={milestone.reachedOn ? "default" : "outline"}
+                      className="gap-1 text-xs"
+                      title={milestone.reachedOn ? `Reached ${milestone.reachedOn}` : `Planned by ${milestone.plannedBy}`}
+                    >
+                      {milestone.reachedOn && <CheckCircle2 className="h-3 w-3" />}
+                      {formatMoney(milestone.value)}
+                      <span className="text-muted-foreground">
+                        {milestone.reachedOn ?? `by ${milestone.plannedBy}`}
+                      </span>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,36 @@
 import { Clock, Circle } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { useCstTime } from "@/hooks/use-cst-time";
+import type { MarketCalendarData } from "@shared/schema";
+
+function formatCst(iso: string, withDay: boolean): string {
+  return new Date(iso).toLocaleString('en-US', {
+    timeZone: 'America/Chicago',
+    ...(withDay ? { weekday: 'short', month: 'short', day: 'numeric' } : {}),
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true
+  });
+}
 
 export function CSTClock() {
   const { formattedTime, isMarketOpen } = useCstTime();
 
+  const { data: calendar } = useQuery<MarketCalendarData>({
+    queryKey: ['/api/market-calendar'],
+    refetchInterval: 60000, // Session boundaries only change at open/close
+  });
+
+  let sessionNote: string | null = null;
+  if (calendar) {
+    if (isMarketOpen && calendar.currentSession) {
+      sessionNote = `Closes ${formatCst(calendar.currentSession.close, false)}${calendar.currentSession.isEarlyClose ? ' (early close)' : ''}`;
+    } else if (calendar.nextSession) {
+      sessionNote = `Opens ${formatCst(calendar.nextSession.open, true)}`;
+    }
+  }
+
   return (
     <Card className="bg-card border-border">
       <CardContent className="p-6">
@@ -18,16 +44,26 @@ export function CSTClock() {
               {formattedTime}
             </p>
             <div className="flex items-center gap-2 mt-1">
-              <Circle 
+              <Circle
                 className={`w-2 h-2 fill-current ${isMarketOpen ? 'text-green-500' : 'text-red-500'}`}
               />
-              <p 
+              <p
                 className={`text-sm font-semibold ${isMarketOpen ? 'text-green-500' : 'text-red-500'}`}
                 data-testid="text-market-status"
               >
                 {isMarketOpen ? 'MARKET LIVE' : 'MARKET CLOSED'}
               </p>
             </div>
+            {calendar?.isHoliday && calendar.holidayName && (
+              <p className="text-xs text-muted-foreground mt-1" data-testid="text-market-holiday">
+                {calendar.holidayName}
+              </p>
+            )}
+            {sessionNote && (
+              <p className="text-xs text-muted-foreground mt-1" data-testid="text-next-session">
+                {sessionNote}
+              </p>
+            )}
           </div>
         </div>
       </CardContent>
@@ -0,0 +1,255 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Bot, OctagonX } from "lucide-react";
+import type { ExitAutomation, ExitAutomationAction, ExitAutomationOverrides, ExitAutomationState, PortfolioPosition } from "@shared/schema";
+
+const STATE_KEY = ["/api/exit-automation"];
+const ACTIONS_KEY = ["/api/exit-automation/actions"];
+
+const LEVEL_FIELDS: { key: keyof ExitAutomationOverrides; label: string }[] = [
+  { key: "stopLoss", label: "Stop %" },
+  { key: "partialProfitLevel", label: "Partial at %" },
+  { key: "partialProfitPercent", label: "Partial size %" },
+  { key: "profitTarget", label: "Target %" },
+];
+
+const ACTION_CLASSES: Record<string, string> = {
+  partial_exit: "text-green-400",
+  full_exit: "text-green-500",
+  stop_loss: "text-red-500",
+  error: "text-red-500",
+  kill_switch_on: "text-red-500",
+  exit_filled: "text-green-500",
+  exit_unfilled: "text-yellow-500",
+};
+
+const invalidate = () => {
+  queryClient.invalidateQueries({ queryKey: STATE_KEY });
+  queryClient.invalidateQueries({ queryKey: ACTIONS_KEY });
+};
+
+/**
+ * Kill switch and action log for automated bracket exits
+ */
+export function ExitAutomationPanel() {
+  const { toast } = useToast();
+
+  const { data: state } = useQuery<ExitAutomationState>({
+    queryKey: STATE_KEY,
+    refetchInterval: 10000,
+  });
+
+  const { data: actions } = useQuery<ExitAutomationAction[]>({
+    queryKey: ACTIONS_KEY,
+    refetchInterval: 10000,
+  });
+
+  const killSwitchMutation = useMutation({
+    mutationFn: async (enabled: boolean) => apiRequest("PUT", "/api/exit-automation/kill-switch", { enabled }),
+    onSuccess: (_data, enabled) => {
+      toast({
+        title: enabled ? "Exit automation halted" : "Exit automation resumed",
+        description: enabled ? "No automated exits will be sent" : "Opted-in positions are being watched again",
+      });
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Kill switch failed", description: error.message });
+    },
+  });
+
+  const active = state?.automations.filter(a => a.status === "active") ?? [];
+  const tickers = new Map(state?.automations.map(a => [a.id, a.ticker]) ?? []);
+
+  return (
+    <Card data-testid="card-exit-automation">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Bot className="h-5 w-5" />
+            Exit Automation
+          </CardTitle>
+          <CardDescription>
+            {active.length} position{active.length === 1 ? "" : "s"} watched
+            {state && ` · defaults: stop -${(state.defaults.stopLoss * 100).toFixed(0)}%, trim ${(state.defaults.partialProfitPercent * 100).toFixed(0)}% at +${(state.defaults.partialProfitLevel * 100).toFixed(0)}%, close at +${(state.defaults.profitTarget * 100).toFixed(0)}%`}
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          {state?.killSwitch && <OctagonX className="h-4 w-4 text-red-500" />}
+          <span className={`text-sm ${state?.killSwitch ? "text-red-500 font-medium" : "text-muted-foreground"}`}>Kill switch</span>
+          <Switch
+            checked={state?.killSwitch ?? false}
+            onCheckedChange={(checked) => killSwitchMutation.mutate(checked)}
+            disabled={!state || killSwitchMutation.isPending}
+            data-testid="switch-exit-kill-switch"
+          />
+        </div>
+      </CardHeader>
+      <CardContent>
+        {actions && actions.length > 0 ? (
+          <div className="space-y-1 text-sm max-h-64 overflow-y-auto">
+            {actions.map(action => (
+              <div key={action.id} className="flex justify-between gap-4 border-b py-1 last:border-0">
+                <span>
+                  {action.automationId && <span className="font-medium mr-2">{tickers.get(action.automationId)}</span>}
+                  {action.mode === "paper" && <Badge variant="outline" className="mr-2 text-xs">paper</Badge>}
+                  <span className={ACTION_CLASSES[action.action] || ""}>{action.message}</span>
+                  {action.actor && <span className="text-muted-foreground"> — {action.actor}</span>}
+                </span>
+                <span className="text-muted-foreground whitespace-nowrap">
+                  {action.createdAt ? new Date(action.createdAt).toLocaleString() : ""}
+                </span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No automated exits yet</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Per-position opt-in, mode and level overrides for automated exits
+ */
+export function PositionExitAutomation({ position }: { position: PortfolioPosition }) {
+  const { toast } = useToast();
+  const { data: state } = useQuery<ExitAutomationState>({ queryKey: STATE_KEY });
+
+  const automation: ExitAutomation | undefined = state?.automations.find(
+    a => a.positionKey === position.id && (a.status === "active" || a.status === "failed")
+  );
+  const isTastytrade = !position.broker || position.broker === "tastytrade";
+
+  const [mode, setMode] = useState<"paper" | "live">("paper");
+  const [levels, setLevels] = useState<Record<string, string>>({});
+
+  const onError = (error: Error) => {
+    toast({ variant: "destructive", title: "Exit automation", description: error.message });
+  };
+
+  // Only fields typed in are sent; blank ones keep the current level (placeholder)
+  const overrides = (): ExitAutomationOverrides =>
+    Object.fromEntries(
+      LEVEL_FIELDS
+        .filter(({ key }) => levels[key]?.trim())
+        .map(({ key }) => [key, Number(levels[key]) / 100])
+    );
+
+  const enableMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", "/api/exit-automation", { positionId: position.id, mode, overrides: overrides() }),
+    onSuccess: () => {
+      toast({ title: "Exit automation on", description: `${position.ticker} exits will be ${mode === "paper" ? "simulated" : "sent to Tastytrade"}` });
+      invalidate();
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("PATCH", `/api/exit-automation/${id}`, overrides()),
+    onSuccess: () => {
+      toast({ title: "Levels saved", description: position.ticker });
+      setLevels({});
+      invalidate();
+    },
+    onError,
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("POST", `/api/exit-automation/${id}/disable`, {}),
+    onSuccess: () => {
+      setLevels({});
+      invalidate();
+    },
+    onError,
+  });
+
+  if (position.positionType !== "options" || position.quantity <= 0) return null;
+
+  const placeholder = (key: keyof ExitAutomationOverrides) => {
+    const value = automation?.[key] ?? state?.defaults[key];
+    return value != null ? (value * 100).toFixed(0) : "";
+  };
+
+  return (
+    <div className="space-y-2 text-sm" data-testid={`exit-automation-${position.id}`}>
+      <div className="flex items-center gap-2">
+        <Bot className="h-4 w-4 text-muted-foreground" />
+        <span className="font-medium">Automated exits</span>
+        {automation ? (
+          <>
+            <Badge variant="outline" className={automation.status === "failed" ? "border-red-500 text-red-500" : "border-green-500 text-green-500"}>
+              {automation.status === "failed"
+                ? "failed"
+                : `${automation.mode} · ${automation.remainingQuantity}/${automation.quantity} left${automation.pendingOrderId ? " · awaiting fill" : ""}`}
+            </Badge>
+            {automation.partialTaken && <Badge variant="outline">partial taken</Badge>}
+            {automation.realizedPnL !== 0 && (
+              <span className={automation.realizedPnL >= 0 ? "text-green-500" : "text-red-500"}>
+                {automation.realizedPnL >= 0 ? "+" : "-"}${Math.abs(automation.realizedPnL).toFixed(2)}
+              </span>
+            )}
+          </>
+        ) : (
+          <span className="text-muted-foreground">off</span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-4 gap-2">
+        {LEVEL_FIELDS.map(({ key, label }) => (
+          <div key={key}>
+            <p className="text-muted-foreground mb-1">{label}</p>
+            <Input
+              type="number"
+              step="1"
+              placeholder={placeholder(key)}
+              value={levels[key] ?? ""}
+              onChange={e => setLevels({ ...levels, [key]: e.target.value })}
+              disabled={automation?.status === "failed"}
+              data-testid={`input-exit-${key}-${position.id}`}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        {automation ? (
+          <>
+            {automation.status === "active" && (
+              <Button size="sm" variant="outline" onClick={() => updateMutation.mutate(automation.id)} disabled={updateMutation.isPending} data-testid={`button-save-exit-levels-${position.id}`}>
+                Save Levels
+              </Button>
+            )}
+            <Button size="sm" variant="outline" onClick={() => disableMutation.mutate(automation.id)} disabled={disableMutation.isPending} data-testid={`button-disable-exit-${position.id}`}>
+              Turn Off
+            </Button>
+          </>
+        ) : (
+          <>
+            <Select value={mode} onValueChange={(value) => setMode(value as "paper" | "live")}>
+              <SelectTrigger className="w-32 h-9" data-testid={`select-exit-mode-${position.id}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="paper">Paper</SelectItem>
+                <SelectItem value="live" disabled={!isTastytrade}>Live</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button size="sm" onClick={() => enableMutation.mutate()} disabled={enableMutation.isPending} data-testid={`button-enable-exit-${position.id}`}>
+              Automate Exits
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,58 @@
+import { useQuery } from "@tanstack/react-query";
+import { Line, LineChart, ReferenceLine, ResponsiveContainer, YAxis } from "recharts";
 import { Card, CardContent } from "@/components/ui/card";
 import { TrendingUp, Activity, Zap, Brain } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { CSTClock } from "@/components/CSTClock";
-import type { MarketOverviewData } from "@shared/schema";
+import type { IndexIntradayHistory, IndexIntradaySeries, MarketOverviewData } from "@shared/schema";
 
 interface MarketOverviewProps {
   data?: MarketOverviewData;
   isLoading: boolean;
 }
 
+// Day's path since the open, with the prior close as a dashed baseline
+function IndexSparkline({ series, testId }: { series?: IndexIntradaySeries; testId: string }) {
+  if (!series || series.points.length < 2) return null;
+
+  const last = series.points[series.points.length - 1].price;
+  const baseline = series.priorClose ?? series.points[0].price;
+
+  return (
+    <div className="h-10 mt-3" data-testid={testId}>
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={series.points} margin={{ top: 2, right: 0, bottom: 2, left: 0 }}>
+          <YAxis hide domain={['auto', 'auto']} />
+          {series.priorClose !== null && (
+            <ReferenceLine
+              y={series.priorClose}
+              stroke="hsl(var(--muted-foreground))"
+              strokeDasharray="2 2"
+              ifOverflow="extendDomain"
+            />
+          )}
+          <Line
+            type="monotone"
+            dataKey="price"
+            dot={false}
+            strokeWidth={1.5}
+            stroke={last >= baseline ? "hsl(var(--primary))" : "hsl(var(--destructive))"}
+            isAnimationActive={false}
+          />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
 export function MarketOverview({ data, isLoading }: MarketOverviewProps) {
+  const { data: intraday } = useQuery<IndexIntradayHistory>({
+    queryKey: ["/api/market-overview/intraday"],
+    refetchInterval: 5 * 60 * 1000,
+  });
+  const seriesFor = (symbol: IndexIntradaySeries['symbol']) => intraday?.series.find(s => s.symbol === symbol);
+
   if (isLoading) {
     return (
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
@@ -55,6 +98,7 @@ export function MarketOverview({ data, isLoading }: MarketOverviewProps) {
             </div>
             <TrendingUp className="w-8 h-8 text-primary" />
           </div>
+          <IndexSparkline series={seriesFor('SPX')} testId="sparkline-sp500" />
         </CardContent>
       </Card>
       
@@ -77,6 +121,7 @@ export function MarketOverview({ data, isLoading }: MarketOverviewProps) {
             </div>
             <Activity className="w-8 h-8 text-primary" />
           </div>
+          <IndexSparkline series={seriesFor('COMP')} testId="sparkline-nasdaq" />
         </CardContent>
       </Card>
       
@@ -99,26 +144,63 @@ export function MarketOverview({ data, isLoading }: MarketOverviewProps) {
             </div>
             <Zap className="w-8 h-8 text-accent" />
           </div>
+          <IndexSparkline series={seriesFor('VIX')} testId="sparkline-vix" />
         </CardContent>
       </Card>
       
-      {/* AI Sentiment */}
-      <Card className="bg-card border-border">
-        <CardContent className="p-6">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-sm text-muted-foreground">AI Sentiment</p>
-              <p className="text-2xl font-bold" data-testid="text-sentiment-score">
-                {data?.sentiment.score ? `${Math.round(data.sentiment.score * 100)}%` : 'N/A'}
-              </p>
-              <p className="text-sm text-primary" data-testid="text-sentiment-label">
-                {data?.sentiment.label ?? 'Unknown'}
-              </p>
-            </div>
-            <Brain className="w-8 h-8 text-primary" />
-          </div>
-        </CardContent>
-      </Card>
+      {/* Market Sentiment (composite of breadth, VIX and put/call volume) */}
+      <TooltipProvider>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Card className="bg-card border-border cursor-help">
+              <CardContent className="p-6">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm text-muted-foreground">Market Sentiment</p>
+                    <p className="text-2xl font-bold" data-testid="text-sentiment-score">
+                      {data?.sentiment.components?.length ? `${Math.round(data.sentiment.score * 100)}%` : 'N/A'}
+                    </p>
+                    <p
+                      className={`text-sm ${(data?.sentiment.score ?? 0.5) >= 0.45 ? 'text-primary' : 'text-destructive'}`}
+                      data-testid="text-sentiment-label"
+                    >
+                      {data?.sentiment.label ?? 'Unknown'}
+                    </p>
+                  </div>
+                  <Brain className="w-8 h-8 text-primary" />
+                </div>
+              </CardContent>
+            </Card>
+          </TooltipTrigger>
+          <TooltipContent className="w-80">
+            {data?.sentiment.components?.length ? (
+              <div className="space-y-1.5" data-testid="sentiment-components">
+                {data.sentiment.components.map(component => (
+                  <div key={component.key} className="flex items-start justify-between gap-3 text-xs">
+                    <div>
+                      <p className="font-medium">{component.label}</p>
+                      <p className="text-muted-foreground">{component.detail}</p>
+                    </div>
+                    <div className="text-right shrink-0">
+                      <p
+                        className={component.score === null ? 'text-muted-foreground' : component.score >= 0.5 ? 'text-green-500' : 'text-red-500'}
+                        data-testid={`text-sentiment-${component.key}`}
+                      >
+                        {component.score === null ? 'n/a' : `${Math.round(component.score * 100)}%`}
+                      </p>
+                      {component.weight > 0 && (
+                        <p className="text-muted-foreground">{Math.round(component.weight * 100)}% wt</p>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-xs">Sentiment inputs unavailable</p>
+            )}
+          </TooltipContent>
+        </Tooltip>
+      </TooltipProvider>
     </div>
   );
 }
@@ -0,0 +1,233 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { AlertTriangle, X } from "lucide-react";
+import type { BrokerOrder, BrokerOrderPreview, BrokerOrderStatus, OptionsTrade } from "@shared/schema";
+
+interface OrderTicketProps {
+  trade: OptionsTrade;
+  defaultLimitPrice: number;
+  onClose: () => void;
+}
+
+const ACTIVE_STATUSES: BrokerOrderStatus[] = ["submitted", "working", "partially_filled"];
+
+const STATUS_BADGE_CLASSES: Record<BrokerOrderStatus, string> = {
+  previewed: "bg-muted text-muted-foreground",
+  submitting: "bg-blue-500/20 text-blue-400 border-blue-500/40",
+  failed: "bg-red-500/20 text-red-400 border-red-500/40",
+  submitted: "bg-blue-500/20 text-blue-400 border-blue-500/40",
+  working: "bg-blue-500/20 text-blue-400 border-blue-500/40",
+  partially_filled: "bg-yellow-500/20 text-yellow-400 border-yellow-500/40",
+  filled: "bg-green-500/20 text-green-400 border-green-500/40",
+  cancelled: "bg-muted text-muted-foreground",
+  rejected: "bg-red-500/20 text-red-400 border-red-500/40",
+  expired: "bg-muted text-muted-foreground",
+};
+
+const formatMoney = (value: number) =>
+  `$${Math.abs(value).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * Tastytrade order ticket for a recommendation: preview (dry run) → confirm & submit →
+ * live status and fills until the order is done.
+ */
+export function OrderTicket({ trade, defaultLimitPrice, onClose }: OrderTicketProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [contracts, setContracts] = useState(String(trade.contracts));
+  const [limitPrice, setLimitPrice] = useState(defaultLimitPrice.toFixed(2));
+  const [preview, setPreview] = useState<BrokerOrderPreview | null>(null);
+  const [orderId, setOrderId] = useState<string | null>(null);
+
+  const { data: order } = useQuery<BrokerOrder>({
+    queryKey: ["/api/orders", orderId],
+    enabled: !!orderId,
+    refetchInterval: (query) => {
+      const status = query.state.data?.status as BrokerOrderStatus | undefined;
+      return !status || ACTIVE_STATUSES.includes(status) ? 2000 : false;
+    },
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/orders/preview", {
+        tradeId: trade.id,
+        contracts: parseInt(contracts),
+        limitPrice: parseFloat(limitPrice),
+      });
+      return res.json() as Promise<BrokerOrderPreview>;
+    },
+    onSuccess: (data) => setPreview(data),
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Preview failed", description: error.message });
+    },
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/orders/${id}/submit`);
+      return res.json() as Promise<BrokerOrder>;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/orders", data.id], data);
+      setOrderId(data.id);
+      toast({ title: "Order submitted", description: `${trade.ticker} order sent to Tastytrade` });
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Order not submitted", description: error.message });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/orders/${id}/cancel`);
+      return res.json() as Promise<BrokerOrder>;
+    },
+    onSuccess: (data) => queryClient.setQueryData(["/api/orders", data.id], data),
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Cancel failed", description: error.message });
+    },
+  });
+
+  const status = order?.status as BrokerOrderStatus | undefined;
+  const isActive = !!status && ACTIVE_STATUSES.includes(status);
+  const filled = order && order.filledQuantity > 0;
+
+  // Refresh the portfolio and recommendation as fills land
+  const filledQuantity = order?.filledQuantity ?? 0;
+  useEffect(() => {
+    if (filledQuantity === 0) return;
+    queryClient.invalidateQueries({ queryKey: ["/api/top-trades"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/portfolio/positions"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/trade-history"] });
+  }, [filledQuantity, queryClient]);
+
+  const expired = preview ? new Date(preview.expiresAt).getTime() < Date.now() : false;
+
+  return (
+    <div className="mt-4 p-4 rounded-lg border border-primary/30 bg-background/50 space-y-3" data-testid={`order-ticket-${trade.ticker}`}>
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">
+          Buy to Open · {trade.ticker} {trade.strikePrice} {trade.optionType?.toUpperCase() ?? "CALL"} {trade.expiry}
+        </span>
+        <Button variant="ghost" size="icon" onClick={onClose} data-testid="button-close-order-ticket">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {!orderId && (
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="text-xs text-muted-foreground uppercase tracking-wide">Contracts</label>
+            <Input
+              type="number"
+              min={1}
+              step={1}
+              value={contracts}
+              onChange={e => { setContracts(e.target.value); setPreview(null); }}
+              data-testid="input-order-contracts"
+            />
+          </div>
+          <div>
+            <label className="text-xs text-muted-foreground uppercase tracking-wide">Limit Price</label>
+            <Input
+              type="number"
+              min={0.01}
+              step={0.01}
+              value={limitPrice}
+              onChange={e => { setLimitPrice(e.target.value); setPreview(null); }}
+              data-testid="input-order-limit"
+            />
+          </div>
+        </div>
+      )}
+
+      {preview && !orderId && (
+        <div className="space-y-2 text-sm" data-testid="order-preview">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div>
+              <p className="text-xs text-muted-foreground">Limit</p>
+              <p className="font-medium">{formatMoney(preview.order.limitPrice)} × {preview.order.quantity}</p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">Est. Cost</p>
+              <p className="font-medium">{formatMoney(preview.estimatedCost)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">Buying Power</p>
+              <p className="font-medium">
+                {preview.order.buyingPowerEffect != null
+                  ? `${preview.order.buyingPowerEffect < 0 ? "−" : "+"}${formatMoney(preview.order.buyingPowerEffect)}`
+                  : "N/A"}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">Fees</p>
+              <p className="font-medium">{preview.order.estimatedFees != null ? formatMoney(preview.order.estimatedFees) : "N/A"}</p>
+            </div>
+          </div>
+          {((preview.order.warnings as string[] | null) || []).map((warning, i) => (
+            <p key={i} className="flex items-center gap-1 text-yellow-400 text-xs">
+              <AlertTriangle className="w-3 h-3" />
+              {warning}
+            </p>
+          ))}
+          {expired && <p className="text-xs text-muted-foreground">Preview expired, preview again to refresh it.</p>}
+        </div>
+      )}
+
+      {order && (
+        <div className="flex items-center justify-between text-sm" data-testid="order-status">
+          <div className="flex items-center gap-2">
+            <Badge variant="outline" className={`capitalize ${status ? STATUS_BADGE_CLASSES[status] : ""}`}>
+              {status?.replace("_", " ")}
+            </Badge>
+            <span className="text-muted-foreground">
+              {filled
+                ? `${order.filledQuantity}/${order.quantity} filled @ ${formatMoney(order.avgFillPrice ?? 0)}`
+                : `${order.quantity} @ ${formatMoney(order.limitPrice)}`}
+            </span>
+          </div>
+          {order.rejectReason && <span className="text-red-400 text-xs">{order.rejectReason}</span>}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        {!orderId && (
+          <>
+            <Button
+              variant="outline"
+              onClick={() => previewMutation.mutate()}
+              disabled={previewMutation.isPending}
+              data-testid="button-preview-order"
+            >
+              {previewMutation.isPending ? "Previewing..." : preview ? "Refresh Preview" : "Preview Order"}
+            </Button>
+            <Button
+              onClick={() => preview && submitMutation.mutate(preview.order.id)}
+              disabled={!preview || expired || submitMutation.isPending}
+              data-testid="button-submit-order"
+            >
+              {submitMutation.isPending ? "Submitting..." : "Confirm & Submit"}
+            </Button>
+          </>
+        )}
+        {orderId && isActive && (
+          <Button
+            variant="destructive"
+            onClick={() => cancelMutation.mutate(orderId)}
+            disabled={cancelMutation.isPending}
+            data-testid="button-cancel-order"
+          >
+            {cancelMutation.isPending ? "Cancelling..." : "Cancel Order"}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { FlaskConical } from "lucide-react";
+import type { PaperAccount, PaperAccountBalance, PaperEquitySnapshot } from "@shared/schema";
+
+const ACCOUNT_KEY = ["/api/paper/account"];
+const EQUITY_KEY = ["/api/paper/equity"];
+
+const equityChartConfig = {
+  equity: { label: "Equity", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const formatMoney = (value: number) =>
+  `$${value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * Paper account summary: closing equity curve, fees paid and reset
+ */
+export function PaperAccountPanel() {
+  const { toast } = useToast();
+  const [startingCash, setStartingCash] = useState("");
+
+  const { data: account } = useQuery<PaperAccount & { balance: PaperAccountBalance }>({
+    queryKey: ACCOUNT_KEY,
+    refetchInterval: 10000,
+  });
+
+  const { data: equity } = useQuery<PaperEquitySnapshot[]>({
+    queryKey: EQUITY_KEY,
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () =>
+      apiRequest("POST", "/api/paper/reset", startingCash.trim() ? { startingCash: Number(startingCash) } : {}),
+    onSuccess: () => {
+      toast({ title: "Paper account reset", description: "Positions cleared and cash restored" });
+      setStartingCash("");
+      queryClient.invalidateQueries({ queryKey: ACCOUNT_KEY });
+      queryClient.invalidateQueries({ queryKey: EQUITY_KEY });
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolio/positions?account=paper"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolio/balance?account=paper"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolio/analysis?account=paper"] });
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Reset failed", description: error.message });
+    },
+  });
+
+  const balance = account?.balance;
+
+  return (
+    <Card data-testid="card-paper-account">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <FlaskConical className="h-5 w-5" />
+            Paper Account
+          </CardTitle>
+          <CardDescription>
+            {balance
+              ? `${balance.returnPercent >= 0 ? "+" : ""}${balance.returnPercent.toFixed(2)}% on ${formatMoney(balance.startingCash)} · fees ${formatMoney(account.feesPaid)}`
+              : "Fills at the live bid/ask"}
+            {account?.resetAt && ` · since ${new Date(account.resetAt).toLocaleDateString()}`}
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            min={1}
+            placeholder={balance ? String(balance.startingCash) : "Starting cash"}
+            value={startingCash}
+            onChange={e => setStartingCash(e.target.value)}
+            className="w-32 h-9"
+            data-testid="input-paper-starting-cash"
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => resetMutation.mutate()}
+            disabled={resetMutation.isPending}
+            data-testid="button-paper-reset"
+          >
+            Reset
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {equity && equity.length > 0 ? (
+          <ChartContainer config={equityChartConfig} className="h-[220px] w-full">
+            <AreaChart data={equity} margin={{ left: 12, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={32} />
+              <YAxis
+                tickLine={false}
+                axisLine={false}
+                width={70}
+                domain={['auto', 'auto']}
+                tickFormatter={(value: number) => `$${Math.round(value).toLocaleString()}`}
+              />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Area
+                dataKey="equity"
+                type="monotone"
+                stroke="var(--color-equity)"
+                fill="var(--color-equity)"
+                fillOpacity={0.15}
+              />
+            </AreaChart>
+          </ChartContainer>
+        ) : (
+          <p className="text-sm text-muted-foreground">Equity is snapshotted after each trading day's close</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,234 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { CheckCircle2, XCircle, RotateCcw, X } from "lucide-react";
+import type { StrategyVersionDiff, StrategyParameterAuditEntry, StrategyVersionPerformance } from "@shared/schema";
+
+interface ParameterVersionReviewProps {
+  versionId: string;
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  rsiOversold: "RSI oversold",
+  rsiOverbought: "RSI overbought",
+  vixMinCall: "VIX min (calls)",
+  vixMinPut: "VIX min (puts)",
+  stopLoss: "Stop loss",
+  profitTarget: "Profit target",
+  partialProfitLevel: "Partial profit level",
+  partialProfitPercent: "Partial profit size",
+  emaLength: "EMA length",
+  atrMultiplier: "ATR multiplier",
+  deltaMin: "Delta min",
+  deltaMax: "Delta max",
+};
+
+// Fractions shown as percentages
+const PERCENT_FIELDS = new Set(["stopLoss", "profitTarget", "partialProfitLevel", "partialProfitPercent"]);
+
+const ACTOR_STORAGE_KEY = "strategy-reviewer";
+
+const formatValue = (field: string, value: number | null) => {
+  if (value === null) return "—";
+  return PERCENT_FIELDS.has(field) ? `${(value * 100).toFixed(0)}%` : `${Number(value.toFixed(2))}`;
+};
+
+const formatChange = (field: string, change: number | null) => {
+  if (change === null || change === 0) return "";
+  const sign = change > 0 ? "+" : "";
+  return PERCENT_FIELDS.has(field) ? `${sign}${(change * 100).toFixed(0)}pp` : `${sign}${Number(change.toFixed(2))}`;
+};
+
+function PerformanceCell({ label, performance }: { label: string; performance: StrategyVersionPerformance | null }) {
+  return (
+    <div className="p-3 border rounded-lg text-sm">
+      <div className="text-muted-foreground mb-1">{label}</div>
+      {performance && performance.closedTrades > 0 ? (
+        <div className="font-medium">
+          {performance.winRate.toFixed(1)}% win · {performance.avgROI.toFixed(1)}% avg ROI · {performance.profitFactor.toFixed(2)}x PF
+          <div className="text-xs text-muted-foreground">{performance.closedTrades} closed trades</div>
+        </div>
+      ) : (
+        <div className="text-muted-foreground">No live trades yet</div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Review panel for one strategy parameter version: diff against the active version,
+ * A/B live performance, approve/reject (proposals) or roll back (retired versions),
+ * and the version's audit trail.
+ */
+export function ParameterVersionReview({ versionId, onClose }: ParameterVersionReviewProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [actor, setActor] = useState(() => localStorage.getItem(ACTOR_STORAGE_KEY) || "");
+  const [reason, setReason] = useState("");
+
+  const { data: diff, isLoading } = useQuery<StrategyVersionDiff>({
+    queryKey: ['/api/strategy/parameters', versionId, 'diff'],
+  });
+
+  const { data: audit } = useQuery<StrategyParameterAuditEntry[]>({
+    queryKey: [`/api/strategy/parameters/audit?parameterId=${versionId}`],
+  });
+
+  const transition = useMutation({
+    mutationFn: async (action: 'approve' | 'reject' | 'rollback') => {
+      localStorage.setItem(ACTOR_STORAGE_KEY, actor);
+      const res = await apiRequest("POST", `/api/strategy/parameters/${versionId}/${action}`, { actor, reason: reason || undefined });
+      return res.json();
+    },
+    onSuccess: (_data, action) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/strategy/parameters/history'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/strategy/parameters', versionId, 'diff'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/strategy/parameters/audit?parameterId=${versionId}`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/strategy/metrics'] });
+      toast({
+        title: action === 'approve' ? "Version approved" : action === 'reject' ? "Version rejected" : "Rolled back",
+        description: action === 'reject' ? `${diff?.proposal.version} will not be applied` : `${diff?.proposal.version} is now the active parameter set`,
+      });
+      setReason("");
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Action failed",
+        description: error.message,
+      });
+    },
+  });
+
+  const status = diff?.proposal.status;
+  const canAct = actor.trim().length > 0 && !transition.isPending;
+
+  return (
+    <Card className="border-primary/40">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            Review {diff?.proposal.version || '...'}
+            {status && <Badge variant="outline" className="capitalize">{status}</Badge>}
+          </CardTitle>
+          <CardDescription>
+            Compared with the active version {diff?.active?.version || '(none)'}
+          </CardDescription>
+        </div>
+        <Button variant="ghost" size="icon" onClick={onClose} data-testid="button-close-review">
+          <X className="w-4 h-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !diff ? (
+          <div className="text-center py-8 text-muted-foreground">Loading...</div>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Parameter</TableHead>
+                  <TableHead className="text-right">Active</TableHead>
+                  <TableHead className="text-right">{diff.proposal.version}</TableHead>
+                  <TableHead className="text-right">Change</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {diff.fields.map(field => (
+                  <TableRow key={field.field} className={field.proposed !== field.active ? 'bg-primary/5' : ''}>
+                    <TableCell>{FIELD_LABELS[field.field] || field.field}</TableCell>
+                    <TableCell className="text-right">{formatValue(field.field, field.active)}</TableCell>
+                    <TableCell className="text-right font-medium">{formatValue(field.field, field.proposed)}</TableCell>
+                    <TableCell className="text-right text-muted-foreground">{formatChange(field.field, field.change)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <PerformanceCell label={`Active (${diff.active?.version || 'none'})`} performance={diff.performance.active} />
+              <PerformanceCell label={diff.proposal.version} performance={diff.performance.proposal} />
+            </div>
+
+            {(status === 'proposed' || status === 'retired') && (
+              <div className="space-y-2">
+                <Input
+                  placeholder="Your name"
+                  value={actor}
+                  onChange={e => setActor(e.target.value)}
+                  data-testid="input-review-actor"
+                />
+                <Textarea
+                  placeholder={status === 'proposed' ? "Reason (required to reject)" : "Reason for rolling back"}
+                  value={reason}
+                  onChange={e => setReason(e.target.value)}
+                  data-testid="input-review-reason"
+                />
+                <div className="flex gap-2">
+                  {status === 'proposed' ? (
+                    <>
+                      <Button
+                        onClick={() => transition.mutate('approve')}
+                        disabled={!canAct}
+                        data-testid="button-approve-version"
+                      >
+                        <CheckCircle2 className="w-4 h-4 mr-1" />
+                        Approve &amp; activate
+                      </Button>
+                      <Button
+                        variant="destructive"
+                        onClick={() => transition.mutate('reject')}
+                        disabled={!canAct || !reason.trim()}
+                        data-testid="button-reject-version"
+                      >
+                        <XCircle className="w-4 h-4 mr-1" />
+                        Reject
+                      </Button>
+                    </>
+                  ) : (
+                    <Button
+                      onClick={() => transition.mutate('rollback')}
+                      disabled={!canAct || !reason.trim()}
+                      data-testid="button-rollback-version"
+                    >
+                      <RotateCcw className="w-4 h-4 mr-1" />
+                      Roll back to {diff.proposal.version}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+
+        {audit && audit.length > 0 && (
+          <div>
+            <div className="text-sm font-medium mb-2">Audit trail</div>
+            <div className="space-y-1 text-sm">
+              {audit.map(entry => (
+                <div key={entry.id} className="flex justify-between gap-4 border-b py-1 last:border-0">
+                  <span>
+                    <span className="font-medium capitalize">{entry.action.replace('_', ' ')}</span>
+                    {' by '}{entry.actor}
+                    {entry.reason && <span className="text-muted-foreground"> — {entry.reason}</span>}
+                  </span>
+                  <span className="text-muted-foreground whitespace-nowrap">
+                    {entry.createdAt ? new Date(entry.createdAt).toLocaleString() : ''}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,8 +3,9 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { Progress } from "@/components/ui/progress";
-import { AlertTriangle, TrendingUp, Activity, Brain, Target, Clock, Sparkles } from "lucide-react";
+import { AlertTriangle, TrendingUp, Activity, Brain, Clock, Sparkles } from "lucide-react";
+import { AccountGoalsPanel } from "@/components/AccountGoalsPanel";
+import type { AccountGoalProgress } from "@shared/schema";
 
 interface AIPortfolioAnalysis {
   timestamp: string;
@@ -18,15 +19,8 @@ interface AIPortfolioAnalysis {
     description: string;
   };
   vixLevel: number;
-  goalProgress: {
-    current: number;
-    target: number;
-    progressPercent: number;
-    growthPercent: number;
-    remaining: number;
-    requiredMultiplier: string;
-    onTrack: boolean;
-  };
+  goalProgress: AccountGoalProgress | null;
+  goals: AccountGoalProgress[];
   recommendations: StrategicRecommendation[];
   actionableInsights: ActionableInsight[];
   positionAnalyses: any[];
@@ -143,33 +137,8 @@ export function PortfolioAIInsights() {
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
-          {/* Goal Progress */}
-          <div className="space-y-2">
-            <div className="flex items-center justify-between text-sm">
-              <div className="flex items-center gap-2">
-                <Target className="h-4 w-4 text-purple-500" />
-                <span className="font-medium">Path to $1M</span>
-              </div>
-              <span className={aiAnalysis.goalProgress.onTrack ? 'text-green-500' : 'text-yellow-500'} data-testid="goal-status">
-                {aiAnalysis.goalProgress.onTrack ? 'On Track' : 'Needs Adjustment'}
-              </span>
-            </div>
-            <Progress value={aiAnalysis.goalProgress.progressPercent} className="h-2" data-testid="goal-progress-bar" />
-            <div className="grid grid-cols-3 gap-4 text-xs text-muted-foreground">
-              <div>
-                <p>Current</p>
-                <p className="font-medium text-foreground" data-testid="current-balance">${aiAnalysis.accountValue.toLocaleString()}</p>
-              </div>
-              <div>
-                <p>Remaining</p>
-                <p className="font-medium text-foreground" data-testid="remaining-to-goal">${aiAnalysis.goalProgress.remaining.toLocaleString()}</p>
-              </div>
-              <div>
-                <p>Required Growth</p>
-                <p className="font-medium text-foreground" data-testid="required-growth">{aiAnalysis.goalProgress.requiredMultiplier}</p>
-              </div>
-            </div>
-          </div>
+          {/* Growth Goals */}
+          <AccountGoalsPanel account="tastytrade" />
 
           <Separator />
 
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { Fragment, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -7,27 +7,63 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Progress } from "@/components/ui/progress";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { TrendingUp, TrendingDown, DollarSign, BarChart3, Clock, Target, Brain, AlertTriangle, CheckCircle, Plus } from "lucide-react";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { TrendingUp, TrendingDown, DollarSign, BarChart3, Clock, Target, Brain, AlertTriangle, CheckCircle, Plus, ChevronDown, ChevronRight } from "lucide-react";
 import type { 
   PortfolioPosition, 
   PositionPerformance, 
   TradeHistory, 
   PerformanceMetrics,
   PositionAnalysis,
-  PortfolioAnalysis 
+  PortfolioAnalysis,
+  MultiLegPosition,
+  MultiLegStrategyType
 } from "@shared/schema";
 import { PositionInputForm } from "./PositionInputForm";
 
+const STRATEGY_LABELS: Record<MultiLegStrategyType, string> = {
+  single: 'Single',
+  vertical: 'Vertical',
+  calendar: 'Calendar',
+  straddle: 'Straddle',
+  strangle: 'Strangle',
+  iron_condor: 'Iron Condor',
+  covered_call: 'Covered Call',
+  custom: 'Custom',
+};
+
+const monthlyChartConfig = {
+  return: { label: "Account", color: "hsl(var(--primary))" },
+  benchmark: { label: "SPY", color: "hsl(var(--muted-foreground))" },
+} satisfies ChartConfig;
+
 export function PortfolioTracker() {
   const [activeTab, setActiveTab] = useState("input");
 
-  const { data: positions, isLoading: positionsLoading } = useQuery<PortfolioPosition[]>({
-    queryKey: ['/api/positions'],
+  const { data: positions } = useQuery<PortfolioPosition[]>({
+    queryKey: ['/api/portfolio/positions'],
     refetchInterval: 30000 // Refresh every 30 seconds
   });
 
+  // Broker legs grouped into one row per strategy
+  const { data: strategies, isLoading: strategiesLoading } = useQuery<MultiLegPosition[]>({
+    queryKey: ['/api/portfolio/strategies'],
+    refetchInterval: 30000
+  });
+
+  const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
+
+  const toggleGroup = (id: string) => {
+    setExpandedGroups(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
   const { data: portfolioAnalysis, isLoading: portfolioAnalysisLoading } = useQuery<PortfolioAnalysis>({
-    queryKey: ['/api/positions/analysis'],
+    queryKey: ['/api/portfolio/analysis'],
     refetchInterval: 30000,
     enabled: positions && positions.length > 0
   });
@@ -332,81 +368,99 @@ export function PortfolioTracker() {
                 Current Positions
               </CardTitle>
               <CardDescription>
-                Your open positions and their current performance
+                Your open positions grouped by strategy. Click a row to see its legs
               </CardDescription>
             </CardHeader>
             <CardContent>
-              {positionsLoading ? (
+              {strategiesLoading ? (
                 <div className="space-y-3">
                   {[...Array(3)].map((_, i) => (
                     <div key={i} className="animate-pulse bg-muted h-16 rounded" />
                   ))}
                 </div>
-              ) : positions && positions.length > 0 ? (
+              ) : strategies && strategies.length > 0 ? (
                 <div className="overflow-x-auto">
                   <Table>
                     <TableHeader>
                       <TableRow>
                         <TableHead>Symbol</TableHead>
-                        <TableHead>Type</TableHead>
-                        <TableHead>Quantity</TableHead>
-                        <TableHead>Avg Cost</TableHead>
-                        <TableHead>Current Price</TableHead>
+                        <TableHead>Strategy</TableHead>
+                        <TableHead>Net Cost</TableHead>
                         <TableHead>P&L</TableHead>
-                        <TableHead>Status</TableHead>
-                        <TableHead>Actions</TableHead>
+                        <TableHead>Delta / Theta</TableHead>
+                        <TableHead>Max Profit / Loss</TableHead>
+                        <TableHead>Breakevens</TableHead>
+                        <TableHead>DTE</TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
-                      {positions.map((position: PortfolioPosition) => {
-                        const currentValue = (position.currentPrice || position.avgCost) * Math.abs(position.quantity);
-                        const totalCost = position.avgCost * Math.abs(position.quantity);
-                        const unrealizedPnL = currentValue - totalCost;
-                        const unrealizedPnLPercent = (unrealizedPnL / totalCost) * 100;
+                      {strategies.map((group: MultiLegPosition) => {
+                        const isExpanded = expandedGroups.has(group.id);
 
                         return (
-                          <TableRow key={position.id} data-testid={`row-position-${position.id}`}>
-                            <TableCell className="font-medium" data-testid={`text-ticker-${position.ticker}`}>
-                              {position.ticker}
-                            </TableCell>
-                            <TableCell>
-                              <Badge className={getPositionTypeColor(position.positionType)}>
-                                {position.positionType}
-                              </Badge>
-                            </TableCell>
-                            <TableCell data-testid={`text-quantity-${position.id}`}>
-                              {position.quantity}
-                            </TableCell>
-                            <TableCell data-testid={`text-avg-cost-${position.id}`}>
-                              {formatCurrency(position.avgCost)}
-                            </TableCell>
-                            <TableCell data-testid={`text-current-price-${position.id}`}>
-                              {formatCurrency(position.currentPrice || position.avgCost)}
-                            </TableCell>
-                            <TableCell data-testid={`text-pnl-${position.id}`}>
-                              <div className={`flex items-center gap-1 ${unrealizedPnL >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                                {unrealizedPnL >= 0 ? <TrendingUp className="h-4 w-4" /> : <TrendingDown className="h-4 w-4" />}
-                                <span>{formatCurrency(unrealizedPnL)}</span>
-                                <span className="text-sm">({formatPercent(unrealizedPnLPercent)})</span>
-                              </div>
-                            </TableCell>
-                            <TableCell>
-                              <Badge variant={position.status === 'open' ? 'default' : 'secondary'}>
-                                {position.status}
-                              </Badge>
-                            </TableCell>
-                            <TableCell>
-                              {position.status === 'open' && (
-                                <Button
-                                  variant="outline"
-                                  size="sm"
-                                  data-testid={`button-close-position-${position.id}`}
-                                >
-                                  Close
-                                </Button>
-                              )}
-                            </TableCell>
-                          </TableRow>
+                          <Fragment key={group.id}>
+                            <TableRow
+                              className="cursor-pointer"
+                              onClick={() => toggleGroup(group.id)}
+                              data-testid={`row-strategy-${group.id}`}
+                            >
+                              <TableCell className="font-medium" data-testid={`text-ticker-${group.ticker}`}>
+                                <div className="flex items-center gap-1">
+                                  {group.legs.length > 1 && (
+                                    isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />
+                                  )}
+                                  {group.ticker}
+                                </div>
+                              </TableCell>
+                              <TableCell>
+                                <div className="flex flex-col gap-1">
+                                  <Badge className={getPositionTypeColor(group.legs.some(leg => leg.instrument === 'option') ? 'options' : 'stock')}>
+                                    {STRATEGY_LABELS[group.strategy]}
+                                  </Badge>
+                                  <span className="text-xs text-muted-foreground">{group.label}</span>
+                                </div>
+                              </TableCell>
+                              <TableCell data-testid={`text-net-cost-${group.id}`}>
+                                {formatCurrency(Math.abs(group.netCost))}
+                                <span className="text-xs text-muted-foreground ml-1">{group.netCost >= 0 ? 'debit' : 'credit'}</span>
+                              </TableCell>
+                              <TableCell data-testid={`text-pnl-${group.id}`}>
+                                <div className={`flex items-center gap-1 ${group.unrealizedPnL >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                                  {group.unrealizedPnL >= 0 ? <TrendingUp className="h-4 w-4" /> : <TrendingDown className="h-4 w-4" />}
+                                  <span>{formatCurrency(group.unrealizedPnL)}</span>
+                                  <span className="text-sm">({formatPercent(group.unrealizedPnLPercent)})</span>
+                                </div>
+                              </TableCell>
+                              <TableCell>
+                                {group.greeks.delta.toFixed(1)} / {formatCurrency(group.greeks.theta)}
+                              </TableCell>
+                              <TableCell data-testid={`text-max-profit-loss-${group.id}`}>
+                                <span className="text-green-600">{group.maxProfit === null ? 'Unlimited' : formatCurrency(group.maxProfit)}</span>
+                                {' / '}
+                                <span className="text-red-600">{group.maxLoss === null ? 'Unlimited' : formatCurrency(group.maxLoss)}</span>
+                              </TableCell>
+                              <TableCell>
+                                {group.breakevens.length > 0 ? group.breakevens.map(b => formatCurrency(b)).join(', ') : 'N/A'}
+                              </TableCell>
+                              <TableCell>{group.daysToExpiry ?? 'N/A'}</TableCell>
+                            </TableRow>
+                            {isExpanded && group.legs.length > 1 && group.legs.map(leg => (
+                              <TableRow key={leg.positionId} className="bg-muted/40 text-sm" data-testid={`row-leg-${leg.positionId}`}>
+                                <TableCell />
+                                <TableCell>
+                                  {leg.instrument === 'stock'
+                                    ? `${leg.quantity} shares`
+                                    : `${leg.quantity > 0 ? '+' : ''}${leg.quantity} ${leg.strike}${leg.optionType === 'call' ? 'C' : 'P'} ${leg.expiry}`}
+                                </TableCell>
+                                <TableCell>{formatCurrency(leg.avgCost)}</TableCell>
+                                <TableCell>{formatCurrency(leg.currentPrice)}</TableCell>
+                                <TableCell>{leg.greeks.delta.toFixed(1)} / {formatCurrency(leg.greeks.theta)}</TableCell>
+                                <TableCell colSpan={3}>
+                                  {leg.impliedVolatility !== null ? `IV ${(leg.impliedVolatility * 100).toFixed(1)}%` : ''}
+                                </TableCell>
+                              </TableRow>
+                            ))}
+                          </Fragment>
                         );
                       })}
                     </TableBody>
@@ -706,7 +760,7 @@ export function PortfolioTracker() {
                   <div className="flex justify-between">
                     <span>Sharpe Ratio</span>
                     <span className="font-medium" data-testid="text-sharpe-ratio">
-                      {metrics.sharpeRatio?.toFixed(2) || '0.00'}
+                      {metrics.sharpeRatio != null ? metrics.sharpeRatio.toFixed(2) : '—'}
                     </span>
                   </div>
                   <div className="flex justify-between">
@@ -715,6 +769,12 @@ export function PortfolioTracker() {
                       {formatPercent(metrics.maxDrawdown)}
                     </span>
                   </div>
+                  <div className="flex justify-between">
+                    <span>SPY (same period)</span>
+                    <span className="font-medium" data-testid="text-benchmark-return">
+                      {metrics.benchmarkReturn != null ? formatPercent(metrics.benchmarkReturn) : '—'}
+                    </span>
+                  </div>
                   <div className="flex justify-between">
                     <span>Largest Win</span>
                     <span className="font-medium text-green-600" data-testid="text-largest-win">
@@ -749,6 +809,41 @@ export function PortfolioTracker() {
                   ))}
                 </CardContent>
               </Card>
+
+              <Card className="md:col-span-2">
+                <CardHeader>
+                  <CardTitle>Monthly Returns vs SPY</CardTitle>
+                  <CardDescription>
+                    {metrics.performanceSince
+                      ? `Time-weighted from daily account snapshots since ${metrics.performanceSince}`
+                      : 'Available once daily account snapshots have been recorded'}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {metrics.monthlyReturns.length > 0 ? (
+                    <ChartContainer config={monthlyChartConfig} className="h-[220px] w-full" data-testid="chart-monthly-returns">
+                      <BarChart data={metrics.monthlyReturns} margin={{ left: 12, right: 12 }}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="month" tickLine={false} axisLine={false} />
+                        <YAxis
+                          tickLine={false}
+                          axisLine={false}
+                          width={50}
+                          tickFormatter={(value: number) => `${value.toFixed(0)}%`}
+                        />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <ChartLegend content={<ChartLegendContent />} />
+                        <Bar dataKey="return" fill="var(--color-return)" radius={2} />
+                        <Bar dataKey="benchmark" fill="var(--color-benchmark)" radius={2} />
+                      </BarChart>
+                    </ChartContainer>
+                  ) : (
+                    <p className="text-sm text-muted-foreground" data-testid="text-no-monthly-returns">
+                      No equity history yet
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
             </div>
           )}
         </TabsContent>
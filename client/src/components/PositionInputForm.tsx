@@ -23,6 +23,8 @@ const positionSchema = z.object({
   positionType: z.enum(["options", "stock"]),
   quantity: z.number().min(1, "Quantity must be positive"),
   avgCost: z.number().min(0.01, "Average cost must be positive"),
+  side: z.enum(["long", "short"]),
+  brokerName: z.string().max(40, "Broker name too long").optional(),
   
   // Options specific fields
   strike: z.number().optional(),
@@ -59,6 +61,8 @@ export function PositionInputForm({ onSuccess }: PositionInputFormProps) {
       positionType: "stock",
       quantity: 1,
       avgCost: 0,
+      side: "long",
+      brokerName: "",
       strike: undefined,
       expiry: "",
       optionType: "call",
@@ -103,16 +107,19 @@ export function PositionInputForm({ onSuccess }: PositionInputFormProps) {
 
   const createPositionMutation = useMutation({
     mutationFn: async (data: PositionFormData) => {
+      const size = data.positionType === "options" ? data.contracts! : data.quantity;
       let positionData: any = {
         ticker: data.ticker.toUpperCase(),
         positionType: data.positionType,
-        quantity: data.positionType === "options" ? data.contracts! : data.quantity,
+        quantity: data.side === "short" ? -size : size, // Signed: short positions are negative
         avgCost: data.avgCost,
+        metadata: data.brokerName ? { brokerName: data.brokerName } : null,
       };
 
       // Add options metadata if it's an options position
       if (data.positionType === "options") {
         positionData.metadata = {
+          ...positionData.metadata,
           strike: data.strike!,
           expiry: data.expiry!,
           optionType: data.optionType!,
@@ -121,7 +128,7 @@ export function PositionInputForm({ onSuccess }: PositionInputFormProps) {
         };
       }
 
-      return await apiRequest("POST", "/api/positions", positionData);
+      return await apiRequest("POST", "/api/portfolio/positions", positionData);
     },
     onSuccess: () => {
       toast({
@@ -129,8 +136,10 @@ export function PositionInputForm({ onSuccess }: PositionInputFormProps) {
         description: "Your position has been successfully added to the portfolio.",
       });
       form.reset();
-      queryClient.invalidateQueries({ queryKey: ["/api/positions"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/positions/analysis"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolio/positions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolio/analysis"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolio/strategies"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trade-history"] });
       onSuccess?.();
     },
     onError: (error: any) => {
@@ -354,6 +363,48 @@ export function PositionInputForm({ onSuccess }: PositionInputFormProps) {
               />
             </div>
 
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="side"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Side</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-side">
+                          <SelectValue placeholder="Select side" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="long">Long (bought)</SelectItem>
+                        <SelectItem value="short">Short (sold)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="brokerName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Broker (optional)</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="e.g. Fidelity"
+                        {...field}
+                        data-testid="input-broker-name"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
             {positionType === "options" && (
               <>
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
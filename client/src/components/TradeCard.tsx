@@ -1,8 +1,10 @@
+import { useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { OrderTicket } from "@/components/OrderTicket";
 import type { OptionsTrade } from "@shared/schema";
 
 interface OptionPremium {
@@ -47,6 +49,7 @@ const formatNumber = (num: number, decimals: number = 2): string => {
 export function TradeCard({ trade, rank, liveQuotes }: TradeCardProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [showOrderTicket, setShowOrderTicket] = useState(false);
   
   const livePrice = liveQuotes?.[trade.ticker]?.price;
   const currentDisplayPrice = livePrice || trade.currentPrice;
@@ -80,6 +83,27 @@ export function TradeCard({ trade, rank, liveQuotes }: TradeCardProps) {
     },
   });
 
+  // Fills at the live ask in the paper account; 409 until the contract's quote streams
+  const paperTradeMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/paper/orders", { tradeId: trade.id }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolio/positions?account=paper"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolio/balance?account=paper"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/paper/account"] });
+      toast({
+        title: "Paper Trade Filled",
+        description: `Bought ${trade.contracts} ${trade.ticker} contract${trade.contracts === 1 ? "" : "s"} in the paper account`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Paper Trade Failed",
+        description: error.message,
+      });
+    },
+  });
+
   const getRankColor = (rank: number) => {
     if (rank === 1) return "bg-primary";
     if (rank === 2) return "bg-accent";
@@ -156,6 +180,12 @@ export function TradeCard({ trade, rank, liveQuotes }: TradeCardProps) {
             <p className="text-sm text-muted-foreground">
               {displayROI >= 100 ? '✨ Elite ROI ✨' : isROILive ? 'Live ROI' : 'Projected ROI'}
             </p>
+            {!isROILive && trade.netProjectedROI != null && (
+              <p className="text-xs text-muted-foreground" data-testid={`net-roi-${trade.ticker}`} title="After bid/ask spread, tick rounding and commissions">
+                Net {trade.netProjectedROI > 0 ? '+' : ''}{trade.netProjectedROI.toFixed(0)}%
+                {trade.executionCost != null && ` (−$${formatNumber(trade.executionCost, 0)} costs)`}
+              </p>
+            )}
           </div>
         </div>
         
@@ -278,18 +308,44 @@ export function TradeCard({ trade, rank, liveQuotes }: TradeCardProps) {
               </span>
             </span>
           </div>
-          <Button
-            onClick={() => executeMutation.mutate()}
-            disabled={executeMutation.isPending || (trade.isExecuted ?? false)}
-            className={`${rank === 1 ? 'bg-primary hover:bg-primary/90' : 
-                       rank === 2 ? 'bg-accent hover:bg-accent/90' : 
-                       'bg-secondary hover:bg-secondary/80 border border-border'} transition-colors`}
-            data-testid={`execute-${trade.ticker}`}
-          >
-            {executeMutation.isPending ? 'Executing...' : 
-             (trade.isExecuted ?? false) ? 'Executed' : 'Execute Trade'}
-          </Button>
+          <div className="flex items-center space-x-2">
+            <Button
+              variant="outline"
+              onClick={() => setShowOrderTicket(true)}
+              disabled={showOrderTicket || (trade.isExecuted ?? false)}
+              data-testid={`place-order-${trade.ticker}`}
+            >
+              Place Order
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => paperTradeMutation.mutate()}
+              disabled={paperTradeMutation.isPending}
+              data-testid={`paper-trade-${trade.ticker}`}
+            >
+              {paperTradeMutation.isPending ? 'Filling...' : 'Paper Trade'}
+            </Button>
+            <Button
+              onClick={() => executeMutation.mutate()}
+              disabled={executeMutation.isPending || (trade.isExecuted ?? false)}
+              className={`${rank === 1 ? 'bg-primary hover:bg-primary/90' : 
+                         rank === 2 ? 'bg-accent hover:bg-accent/90' : 
+                         'bg-secondary hover:bg-secondary/80 border border-border'} transition-colors`}
+              data-testid={`execute-${trade.ticker}`}
+            >
+              {executeMutation.isPending ? 'Executing...' : 
+               (trade.isExecuted ?? false) ? 'Executed' : 'Execute Trade'}
+            </Button>
+          </div>
         </div>
+
+        {showOrderTicket && (
+          <OrderTicket
+            trade={trade}
+            defaultLimitPrice={displayPremium}
+            onClose={() => setShowOrderTicket(false)}
+          />
+        )}
       </CardContent>
     </Card>
   );
@@ -2,17 +2,7 @@ import { useQuery } from "@tanstack/react-query";
 import { AlertTriangle, TrendingUp } from "lucide-react";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
-
-interface VixSqueezeAlertData {
-  detected: boolean;
-  action?: string;
-  vix?: number;
-  change?: number;
-  entryWindow?: string;
-  exitTime?: string;
-  confidence?: string;
-  timestamp?: string;
-}
+import type { VixSqueezeAlert as VixSqueezeAlertData } from "@shared/schema";
 
 export function VixSqueezeAlert() {
   const { data: marketData } = useQuery<any>({
@@ -26,6 +16,9 @@ export function VixSqueezeAlert() {
     return null;
   }
 
+  const confidence = alertData.confidenceDetail;
+  const change = alertData.change ?? 0;
+
   return (
     <Alert 
       className="border-red-500 bg-red-950/50 dark:border-red-600 dark:bg-red-950/30 shadow-lg animate-pulse"
@@ -34,8 +27,14 @@ export function VixSqueezeAlert() {
       <AlertTriangle className="h-5 w-5 text-red-500 dark:text-red-400" />
       <AlertTitle className="text-lg font-bold text-red-500 dark:text-red-400 flex items-center gap-2">
         🚨 VIX SQUEEZE DETECTED
-        <Badge variant="destructive" className="bg-green-600 text-white hover:bg-green-700">
-          {alertData.confidence} EDGE
+        <Badge
+          variant="destructive"
+          className={confidence?.hitRate != null ? "bg-green-600 text-white hover:bg-green-700" : "bg-gray-600 text-white hover:bg-gray-700"}
+          data-testid="badge-vix-squeeze-confidence"
+        >
+          {confidence?.hitRate != null
+            ? `${alertData.confidence} HIT RATE (${confidence.basis}, n=${confidence.sampleSize})`
+            : `UNPROVEN (${confidence?.sampleSize ?? 0} resolved)`}
         </Badge>
       </AlertTitle>
       <AlertDescription className="mt-2 space-y-2">
@@ -47,9 +46,14 @@ export function VixSqueezeAlert() {
               <span className="text-green-400 font-bold">{alertData.action}</span>
             </div>
             <div className="text-gray-300">
-              <span className="font-semibold">VIX:</span> ${alertData.vix?.toFixed(2)} 
-              <span className="text-red-400 ml-2">(+{alertData.change?.toFixed(2)}%)</span>
+              <span className="font-semibold">VIX:</span> {alertData.vix?.toFixed(2)} 
+              <span className="text-red-400 ml-2">({change >= 0 ? '+' : ''}{change.toFixed(2)}%)</span>
             </div>
+            {alertData.entryPremium != null && (
+              <div className="text-gray-300" data-testid="text-vix-squeeze-contract">
+                <span className="font-semibold">Contract:</span> {alertData.optionSymbol} @ ${alertData.entryPremium.toFixed(2)}
+              </div>
+            )}
           </div>
           <div className="space-y-1 text-gray-300">
             <div>
@@ -62,8 +66,8 @@ export function VixSqueezeAlert() {
         </div>
         <div className="mt-3 p-2 bg-black/30 rounded border border-yellow-600/30">
           <p className="text-xs text-yellow-400">
-            ⚠️ <strong>HIGH-CONFIDENCE SIGNAL:</strong> VIX volatility spike detected. 
-            Entry must occur before 3:00 PM CST today. Exit at 9:30 AM CST tomorrow.
+            ⚠️ <strong>TRACKED SIGNAL:</strong> VIX volatility spike detected. 
+            Entry before the close today, exit at 9:30 AM CST on the next trading day. Every trigger is recorded and scored at that exit.
           </p>
         </div>
       </AlertDescription>
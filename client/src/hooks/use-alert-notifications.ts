@@ -0,0 +1,47 @@
+import { useState, useEffect } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { queryClient } from '@/lib/queryClient';
+import type { AlertNotification } from '@shared/schema';
+
+/**
+ * Subscribe to triggered price alerts via SSE (/api/alerts/stream)
+ * Shows a toast for each notification and refreshes the alert list
+ */
+export function useAlertNotifications() {
+  const [notifications, setNotifications] = useState<AlertNotification[]>([]);
+  const [isConnected, setIsConnected] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const eventSource = new EventSource('/api/alerts/stream');
+
+    eventSource.onopen = () => {
+      setIsConnected(true);
+    };
+
+    eventSource.onmessage = (event) => {
+      try {
+        const notification: AlertNotification = JSON.parse(event.data);
+        setNotifications(prev => [notification, ...prev].slice(0, 50));
+        toast({
+          title: notification.title,
+          description: notification.message,
+        });
+        queryClient.invalidateQueries({ queryKey: ['/api/price-alerts'] });
+      } catch (error) {
+        console.error('Error parsing alert notification:', error);
+      }
+    };
+
+    eventSource.onerror = () => {
+      setIsConnected(false);
+    };
+
+    return () => {
+      eventSource.close();
+      setIsConnected(false);
+    };
+  }, [toast]);
+
+  return { notifications, isConnected };
+}
@@ -1,4 +1,5 @@
 import { useState, useEffect, useRef } from 'react';
+import { apiRequest } from '@/lib/queryClient';
 
 interface OptionPremium {
   premium: number;
@@ -26,17 +27,39 @@ interface Quote {
 
 type QuotesMap = Record<string, Quote>;
 
-export function useLiveQuotes(symbols: string[] = ['AAPL', 'TSLA', 'NVDA', 'MSFT', 'GOOGL', 'META']) {
+interface StreamSubscriptions {
+  streamId: string;
+  symbols: string[];
+  options: string[];
+}
+
+/**
+ * Stream live quotes for underlyings and (optionally) OCC option symbols.
+ * Option quotes are keyed by their canonical OCC symbol (e.g. ".SPY251113C00680000").
+ * The connection is opened once; later symbol changes are sent to the open stream
+ * instead of reconnecting.
+ */
+export function useLiveQuotes(
+  symbols: string[] = ['AAPL', 'TSLA', 'NVDA', 'MSFT', 'GOOGL', 'META'],
+  optionSymbols: string[] = []
+) {
   const [quotes, setQuotes] = useState<QuotesMap>({});
   const [isConnected, setIsConnected] = useState(false);
+  const [streamId, setStreamId] = useState<string | null>(null);
   const eventSourceRef = useRef<EventSource | null>(null);
-  const symbolsKey = symbols.sort().join(',');
+  const subscribedRef = useRef<{ symbols: string[]; options: string[] }>({ symbols: [], options: [] });
+  const symbolsKey = [...symbols].sort().join(',');
+  const optionsKey = [...optionSymbols].sort().join(',');
+  const hasSubscriptions = symbols.length > 0 || optionSymbols.length > 0;
 
+  // Open the stream once there is something to subscribe to
   useEffect(() => {
-    if (symbols.length === 0) return;
+    if (!hasSubscriptions) return;
 
-    const symbolsParam = symbols.join(',');
-    const eventSource = new EventSource(`/api/quotes/stream?symbols=${symbolsParam}`);
+    const params = new URLSearchParams();
+    if (symbolsKey) params.set('symbols', symbolsKey);
+    if (optionsKey) params.set('options', optionsKey);
+    const eventSource = new EventSource(`/api/quotes/stream?${params.toString()}`);
     eventSourceRef.current = eventSource;
 
     eventSource.onopen = () => {
@@ -44,6 +67,16 @@ export function useLiveQuotes(symbols: string[] = ['AAPL', 'TSLA', 'NVDA', 'MSFT
       setIsConnected(true);
     };
 
+    eventSource.addEventListener('subscribed', (event) => {
+      try {
+        const data: StreamSubscriptions = JSON.parse((event as MessageEvent).data);
+        subscribedRef.current = { symbols: data.symbols, options: data.options };
+        setStreamId(data.streamId);
+      } catch (error) {
+        console.error('Error parsing SSE subscription data:', error);
+      }
+    });
+
     eventSource.onmessage = (event) => {
       try {
         const data: QuotesMap = JSON.parse(event.data);
@@ -65,9 +98,51 @@ export function useLiveQuotes(symbols: string[] = ['AAPL', 'TSLA', 'NVDA', 'MSFT
     return () => {
       console.log('📡 Closing SSE connection');
       eventSource.close();
+      eventSourceRef.current = null;
+      setStreamId(null);
       setIsConnected(false);
     };
-  }, [symbolsKey]);
+    // Symbol changes are pushed to the open stream below; only reconnect when
+    // going from nothing-to-stream to something-to-stream
+  }, [hasSubscriptions]);
+
+  // Push symbol changes to the open stream
+  useEffect(() => {
+    if (!streamId) return;
+
+    // Server keys are uppercase tickers and dot-prefixed OCC symbols
+    const wantedSymbols = symbolsKey ? symbolsKey.split(',').map(s => s.toUpperCase()) : [];
+    const wantedOptions = optionsKey
+      ? optionsKey.split(',').map(s => {
+          const upper = s.toUpperCase().replace(/^O:/, '');
+          return upper.startsWith('.') ? upper : `.${upper}`;
+        })
+      : [];
+    const current = subscribedRef.current;
+
+    const addSymbols = wantedSymbols.filter(s => !current.symbols.includes(s));
+    const removeSymbols = current.symbols.filter(s => !wantedSymbols.includes(s));
+    const addOptions = wantedOptions.filter(s => !current.options.includes(s));
+    const removeOptions = current.options.filter(s => !wantedOptions.includes(s));
+
+    if (addSymbols.length === 0 && removeSymbols.length === 0 && addOptions.length === 0 && removeOptions.length === 0) {
+      return;
+    }
+
+    apiRequest('POST', `/api/quotes/stream/${streamId}/subscriptions`, {
+      addSymbols,
+      removeSymbols,
+      addOptions,
+      removeOptions,
+    })
+      .then(res => res.json())
+      .then((data: StreamSubscriptions) => {
+        subscribedRef.current = { symbols: data.symbols, options: data.options };
+      })
+      .catch(error => {
+        console.error('Error updating SSE subscriptions:', error);
+      });
+  }, [streamId, symbolsKey, optionsKey]);
 
   return { quotes, isConnected };
 }
@@ -13,7 +13,8 @@ import {
   TrendingUp 
 } from "lucide-react";
 import { useLiveQuotes } from "@/hooks/use-live-quotes";
-import type { MarketOverviewData, AiInsights, OptionsTrade, PortfolioSummary, SectorData } from "@shared/schema";
+import { useAlertNotifications } from "@/hooks/use-alert-notifications";
+import type { MarketOverviewData, AiInsights, OptionsTrade, PortfolioSummary, SectorPerformance } from "@shared/schema";
 
 export default function Dashboard() {
   const [activeView, setActiveView] = useState<'dashboard' | 'analytics'>('dashboard');
@@ -42,7 +43,7 @@ export default function Dashboard() {
     enabled: activeView === 'dashboard',
   });
 
-  const { data: sectorData } = useQuery<SectorData[]>({
+  const { data: sectorData } = useQuery<SectorPerformance[]>({
     queryKey: ["/api/sector-performance"],
     refetchInterval: 60000,
     enabled: activeView === 'dashboard',
@@ -56,6 +57,9 @@ export default function Dashboard() {
 
   const { quotes: liveQuotes, isConnected: isLiveDataConnected } = useLiveQuotes(tradeSymbols);
 
+  // Toast triggered price alerts pushed from the server-side alert engine
+  useAlertNotifications();
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -142,21 +146,25 @@ export default function Dashboard() {
                 <Thermometer className="w-5 h-5 text-muted-foreground" />
               </div>
               <div className="grid grid-cols-3 gap-2">
-                {sectorData?.map((sector: any, index: number) => (
+                {sectorData?.map((sector) => (
                   <div 
                     key={sector.name}
+                    title={`5D ${sector.capWeighted['5D'] ?? '—'}% · 1M ${sector.capWeighted['1M'] ?? '—'}% · equal-weight 1D ${sector.equalWeighted['1D'] ?? '—'}% · ${sector.constituents} stocks`}
                     className={`${
                       sector.change >= 0 
                         ? 'bg-primary/20 border-primary/40' 
                         : 'bg-destructive/20 border-destructive/40'
                     } border rounded p-2 text-center`}
-                    data-testid={`sector-${sector.name.toLowerCase()}`}
+                    data-testid={`sector-${sector.name.toLowerCase().replace(/\s+/g, '-')}`}
                   >
                     <p className="text-xs text-muted-foreground">{sector.name}</p>
                     <p className={`text-sm font-semibold ${
                       sector.change >= 0 ? 'text-primary' : 'text-destructive'
                     }`}>
-                      {sector.change >= 0 ? '+' : ''}{sector.change}%
+                      {sector.change >= 0 ? '+' : ''}{sector.change.toFixed(2)}%
+                    </p>
+                    <p className="text-[10px] text-muted-foreground">
+                      {sector.advancers}↑ {sector.decliners}↓
                     </p>
                   </div>
                 )) || (
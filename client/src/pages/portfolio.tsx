@@ -1,35 +1,46 @@
-import { useMemo } from "react";
+import { useMemo, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Separator } from "@/components/ui/separator";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
 import { TrendingUp, TrendingDown, AlertTriangle, DollarSign, Activity, Clock, Target } from "lucide-react";
-import type { PortfolioPosition, PositionAnalysis, PortfolioAnalysis } from "@shared/schema";
+import type { PortfolioPosition, PositionAnalysis, PortfolioAnalysis, PaperAccountBalance } from "@shared/schema";
 import { getContractMultiplier } from "@shared/constants";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useLiveQuotes } from "@/hooks/use-live-quotes";
 import { Navigation } from "@/components/Navigation";
 import { PortfolioAIInsights } from "@/components/PortfolioAIInsights";
+import { ExitAutomationPanel, PositionExitAutomation } from "@/components/ExitAutomationPanel";
+import { PaperAccountPanel } from "@/components/PaperAccountPanel";
+
+type PortfolioAccount = 'brokers' | 'paper';
 
 export default function Portfolio() {
+  // Real brokers (Tastytrade, Robinhood, manual) or the paper account
+  const [account, setAccount] = useState<PortfolioAccount>('brokers');
+  const isPaper = account === 'paper';
+  const accountQuery = isPaper ? '?account=paper' : '';
 
   // Fetch open positions
   const { data: positions, isLoading: loadingPositions } = useQuery<PortfolioPosition[]>({
-    queryKey: ["/api/portfolio/positions"],
+    queryKey: [`/api/portfolio/positions${accountQuery}`],
     refetchInterval: 5000, // Refresh every 5 seconds
   });
 
   // Fetch full portfolio analysis
   const { data: portfolioAnalysis, isLoading: loadingAnalysis } = useQuery<PortfolioAnalysis>({
-    queryKey: ["/api/portfolio/analysis"],
+    queryKey: [`/api/portfolio/analysis${accountQuery}`],
     refetchInterval: 10000, // Refresh every 10 seconds
   });
   
   // Fetch account balance
-  const { data: accountBalance } = useQuery<{ netLiquidatingValue: number; cashBalance: number; totalValue: number }>({
-    queryKey: ["/api/portfolio/balance"],
+  const { data: accountBalance } = useQuery<{ netLiquidatingValue: number; cashBalance: number; totalValue: number } & Partial<PaperAccountBalance>>({
+    queryKey: [`/api/portfolio/balance${accountQuery}`],
     refetchInterval: 5000, // Refresh every 5 seconds
   });
   
@@ -37,7 +48,9 @@ export default function Portfolio() {
   const { data: lifetimePnL } = useQuery<{ lifetimeRealized: number }>({
     queryKey: ["/api/portfolio/pnl-lifetime"],
     refetchInterval: 30000, // Refresh every 30 seconds
+    enabled: !isPaper,
   });
+  const realizedPnL = isPaper ? (accountBalance?.realizedPnL ?? 0) : (lifetimePnL?.lifetimeRealized ?? 0);
   
   // Extract tickers from positions for live quotes
   const portfolioTickers = useMemo(() => {
@@ -45,6 +58,14 @@ export default function Portfolio() {
     return positions.map(p => p.ticker);
   }, [positions]);
 
+  // OCC symbols for option positions so the stream carries their live premiums
+  const portfolioOptionSymbols = useMemo(() => {
+    if (!positions || positions.length === 0) return [];
+    return positions
+      .map(p => getPositionOptionSymbol(p))
+      .filter((sym): sym is string => sym !== null);
+  }, [positions]);
+
   // Close position mutation
   const closePositionMutation = useMutation({
     mutationFn: async (positionId: string) => {
@@ -57,7 +78,7 @@ export default function Portfolio() {
   });
 
   // Subscribe to live quotes for portfolio tickers
-  const { quotes, isConnected } = useLiveQuotes(portfolioTickers);
+  const { quotes, isConnected } = useLiveQuotes(portfolioTickers, portfolioOptionSymbols);
 
   if (loadingPositions || loadingAnalysis) {
     return (
@@ -86,6 +107,15 @@ export default function Portfolio() {
           </p>
         </div>
         <div className="flex items-center gap-2">
+          <Select value={account} onValueChange={(value) => setAccount(value as PortfolioAccount)}>
+            <SelectTrigger className="w-40" data-testid="select-portfolio-account">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="brokers">All Brokers</SelectItem>
+              <SelectItem value="paper">Paper Account</SelectItem>
+            </SelectContent>
+          </Select>
           {isConnected && (
             <Badge variant="outline" className="gap-2">
               <span className="relative flex h-2 w-2">
@@ -103,7 +133,7 @@ export default function Portfolio() {
         <div className="grid gap-4 md:grid-cols-3">
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Account Net Liq</CardTitle>
+              <CardTitle className="text-sm font-medium">{isPaper ? 'Paper Net Liq' : 'Account Net Liq'}</CardTitle>
               <DollarSign className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
@@ -135,18 +165,20 @@ export default function Portfolio() {
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
               <CardTitle className="text-sm font-medium">Total P&L</CardTitle>
-              {(lifetimePnL?.lifetimeRealized ?? 0) >= 0 ? (
+              {realizedPnL >= 0 ? (
                 <TrendingUp className="h-4 w-4 text-green-500" />
               ) : (
                 <TrendingDown className="h-4 w-4 text-red-500" />
               )}
             </CardHeader>
             <CardContent>
-              <div className={`text-2xl font-bold ${(lifetimePnL?.lifetimeRealized ?? 0) >= 0 ? 'text-green-500' : 'text-red-500'}`}>
-                {(lifetimePnL?.lifetimeRealized ?? 0) >= 0 ? '+' : ''}${(lifetimePnL?.lifetimeRealized ?? 0).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+              <div className={`text-2xl font-bold ${realizedPnL >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                {realizedPnL >= 0 ? '+' : ''}${realizedPnL.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
               </div>
               <p className="text-xs text-muted-foreground mt-1">
-                Lifetime realized
+                {isPaper
+                  ? `Realized · ${(accountBalance?.returnPercent ?? 0) >= 0 ? '+' : ''}${(accountBalance?.returnPercent ?? 0).toFixed(2)}% total return`
+                  : 'Lifetime realized'}
               </p>
             </CardContent>
           </Card>
@@ -156,19 +188,26 @@ export default function Portfolio() {
       {/* AI Portfolio Insights (Hybrid Internal + Grok) */}
       <PortfolioAIInsights />
 
+      {/* Automated bracket exits: kill switch and action log */}
+      {isPaper ? <PaperAccountPanel /> : <ExitAutomationPanel />}
+
       {/* Portfolio Positions with Integrated Analysis */}
       {openPositions.length === 0 ? (
         <Card>
           <CardContent className="flex flex-col items-center justify-center py-12">
             <Activity className="h-12 w-12 text-muted-foreground mb-4" />
             <p className="text-muted-foreground">No open positions</p>
-            <p className="text-sm text-muted-foreground mt-2">Execute trades from the Dashboard to see them here</p>
+            <p className="text-sm text-muted-foreground mt-2">
+              {isPaper ? 'Paper trade recommendations from the Dashboard to see them here' : 'Execute trades from the Dashboard to see them here'}
+            </p>
           </CardContent>
         </Card>
       ) : (
         <div className="space-y-6">
           {openPositions.map((position) => {
-            const liveQuote = quotes[position.ticker];
+            // Option positions are priced off the contract's own quote, not the underlying
+            const optionSymbol = getPositionOptionSymbol(position);
+            const liveQuote = optionSymbol ? quotes[optionSymbol] : quotes[position.ticker];
             const currentPrice = liveQuote?.price || position.currentPrice || position.avgCost;
             const positionAnalysis = analysis?.positions.find(p => p.id === position.id);
             
@@ -191,6 +230,24 @@ export default function Portfolio() {
   );
 }
 
+/**
+ * Build the canonical OCC symbol (e.g. ".SPY251113C00680000") for an option position.
+ * Tastytrade metadata uses `expiryDate`, Robinhood uses `expiry`.
+ */
+function getPositionOptionSymbol(position: PortfolioPosition): string | null {
+  if (position.positionType !== 'options' || !position.metadata) return null;
+  const meta = position.metadata as { strike?: number | string; expiry?: string; expiryDate?: string; optionType?: string };
+  const expiry = meta.expiryDate || meta.expiry;
+  const strike = Number(meta.strike);
+  if (!expiry || !meta.optionType || !Number.isFinite(strike)) return null;
+
+  const [year, month, day] = expiry.slice(0, 10).split('-');
+  if (!year || !month || !day) return null;
+  const typeChar = meta.optionType.toLowerCase().startsWith('c') ? 'C' : 'P';
+  const strikeStr = Math.round(strike * 1000).toString().padStart(8, '0');
+  return `.${position.ticker.toUpperCase()}${year.slice(-2)}${month}${day}${typeChar}${strikeStr}`;
+}
+
 interface UnifiedPositionCardProps {
   position: PortfolioPosition;
   analysis?: PositionAnalysis;
@@ -206,10 +263,15 @@ function UnifiedPositionCard({ position, analysis, currentPrice, liveQuote, onCl
   const totalCost = position.avgCost * position.quantity * contractMultiplier;
   const currentValue = currentPrice * position.quantity * contractMultiplier;
   const pnl = currentValue - totalCost;
-  const pnlPercent = (pnl / totalCost) * 100;
+  const pnlPercent = totalCost !== 0 ? (pnl / Math.abs(totalCost)) * 100 : 0; // Short legs have a negative (credit) cost
   
   const { exitStrategy, riskLevel, greeks, timeToExpiry } = analysis || {};
 
+  // Hand-entered positions can be edited and closed here; broker positions are managed at the broker
+  const isManual = position.broker === 'manual';
+  const isPaper = position.broker === 'paper';
+  const brokerName = (position.metadata as { brokerName?: string } | null)?.brokerName;
+
   // Determine recommendation color
   const getRecommendationColor = (rec?: 'TAKE_PROFIT' | 'HOLD' | 'CUT_LOSS' | 'MONITOR') => {
     switch (rec) {
@@ -244,9 +306,14 @@ function UnifiedPositionCard({ position, analysis, currentPrice, liveQuote, onCl
               <CardTitle className="text-2xl font-bold">{position.ticker}</CardTitle>
               <Badge 
                 variant="outline" 
-                className={position.broker === 'robinhood' ? 'bg-green-500/10 border-green-500 text-green-500' : 'bg-blue-500/10 border-blue-500 text-blue-500'}
+                className={
+                  position.broker === 'robinhood' ? 'bg-green-500/10 border-green-500 text-green-500' :
+                  isManual ? 'bg-purple-500/10 border-purple-500 text-purple-500' :
+                  isPaper ? 'bg-amber-500/10 border-amber-500 text-amber-500' :
+                  'bg-blue-500/10 border-blue-500 text-blue-500'
+                }
               >
-                {position.broker === 'robinhood' ? 'Robinhood' : 'Tastytrade'}
+                {position.broker === 'robinhood' ? 'Robinhood' : isManual ? `Manual${brokerName ? ` · ${brokerName}` : ''}` : isPaper ? 'Paper' : 'Tastytrade'}
               </Badge>
               <Badge variant={position.positionType === 'options' ? 'default' : 'secondary'}>
                 {position.positionType.toUpperCase()}
@@ -381,21 +448,187 @@ function UnifiedPositionCard({ position, analysis, currentPrice, liveQuote, onCl
           </>
         )}
 
+        {/* Automated exits for long option positions */}
+        {position.positionType === 'options' && position.quantity > 0 && !isPaper && (
+          <>
+            <Separator />
+            <PositionExitAutomation position={position} />
+          </>
+        )}
+
         <Separator />
 
         {/* Action Buttons */}
+        {isManual ? (
+          <ManualPositionActions position={position} currentPrice={currentPrice} />
+        ) : isPaper ? (
+          <PaperPositionActions position={position} />
+        ) : (
+          <div className="flex gap-2">
+            <Button
+              variant="destructive"
+              size="sm"
+              onClick={onClose}
+              disabled={closePending}
+              data-testid={`button-close-${position.ticker}`}
+            >
+              Close Position
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Edit / close controls for a manual position. Size changes and closes are recorded
+ * as trades server-side, with realized P/L booked on reductions.
+ */
+function ManualPositionActions({ position, currentPrice }: { position: PortfolioPosition; currentPrice: number }) {
+  const { toast } = useToast();
+  const [mode, setMode] = useState<'idle' | 'edit' | 'close'>('idle');
+  const [quantity, setQuantity] = useState(String(position.quantity));
+  const [price, setPrice] = useState(currentPrice.toFixed(2));
+  const [avgCost, setAvgCost] = useState(position.avgCost.toFixed(2));
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/portfolio/positions"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/portfolio/analysis"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/portfolio/strategies"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/trade-history"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ variant: "destructive", title: "Update failed", description: error.message });
+  };
+
+  const editMutation = useMutation({
+    mutationFn: async () => {
+      const newQuantity = Number(quantity);
+      const newAvgCost = Number(avgCost);
+      return apiRequest("PATCH", `/api/portfolio/positions/${position.id}`, {
+        quantity: newQuantity,
+        price: newQuantity !== position.quantity ? Number(price) : undefined,
+        avgCost: newAvgCost !== position.avgCost ? newAvgCost : undefined,
+      });
+    },
+    onSuccess: () => {
+      toast({ title: "Position updated", description: `${position.ticker} saved` });
+      setMode('idle');
+      invalidate();
+    },
+    onError,
+  });
+
+  const closeMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", `/api/portfolio/positions/${position.id}/close`, { exitPrice: Number(price) }),
+    onSuccess: () => {
+      toast({ title: "Position closed", description: `${position.ticker} closed at $${Number(price).toFixed(2)}` });
+      invalidate();
+    },
+    onError,
+  });
+
+  if (mode === 'edit') {
+    const sizeChanged = Number(quantity) !== position.quantity;
+    return (
+      <div className="space-y-2">
+        <div className="grid grid-cols-3 gap-2 text-sm">
+          <div>
+            <p className="text-muted-foreground mb-1">Quantity</p>
+            <Input type="number" value={quantity} onChange={e => setQuantity(e.target.value)} data-testid={`input-edit-quantity-${position.id}`} />
+          </div>
+          <div>
+            <p className="text-muted-foreground mb-1">Fill Price {sizeChanged ? '' : '(size change only)'}</p>
+            <Input type="number" step="0.01" value={price} onChange={e => setPrice(e.target.value)} disabled={!sizeChanged} data-testid={`input-edit-price-${position.id}`} />
+          </div>
+          <div>
+            <p className="text-muted-foreground mb-1">Avg Cost</p>
+            <Input type="number" step="0.01" value={avgCost} onChange={e => setAvgCost(e.target.value)} data-testid={`input-edit-avg-cost-${position.id}`} />
+          </div>
+        </div>
         <div className="flex gap-2">
-          <Button
-            variant="destructive"
-            size="sm"
-            onClick={onClose}
-            disabled={closePending}
-            data-testid={`button-close-${position.ticker}`}
-          >
-            Close Position
+          <Button size="sm" onClick={() => editMutation.mutate()} disabled={editMutation.isPending} data-testid={`button-save-${position.id}`}>
+            Save
           </Button>
+          <Button size="sm" variant="outline" onClick={() => setMode('idle')}>Cancel</Button>
         </div>
-      </CardContent>
-    </Card>
+      </div>
+    );
+  }
+
+  if (mode === 'close') {
+    return (
+      <div className="flex items-end gap-2">
+        <div className="text-sm">
+          <p className="text-muted-foreground mb-1">Exit Price</p>
+          <Input type="number" step="0.01" value={price} onChange={e => setPrice(e.target.value)} data-testid={`input-exit-price-${position.id}`} />
+        </div>
+        <Button variant="destructive" size="sm" onClick={() => closeMutation.mutate()} disabled={closeMutation.isPending} data-testid={`button-confirm-close-${position.id}`}>
+          Confirm Close
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => setMode('idle')}>Cancel</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex gap-2">
+      <Button variant="outline" size="sm" onClick={() => setMode('edit')} data-testid={`button-edit-${position.ticker}`}>
+        Edit
+      </Button>
+      <Button
+        variant="destructive"
+        size="sm"
+        onClick={() => { setPrice(currentPrice.toFixed(2)); setMode('close'); }}
+        data-testid={`button-close-${position.ticker}`}
+      >
+        Close Position
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Sell a paper position at the live bid
+ */
+function PaperPositionActions({ position }: { position: PortfolioPosition }) {
+  const { toast } = useToast();
+
+  const closeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/paper/positions/${position.id}/close`, {});
+      return res.json() as Promise<{ fill: { price: number; realizedPnL?: number } }>;
+    },
+    onSuccess: ({ fill }) => {
+      const pnl = fill.realizedPnL ?? 0;
+      toast({
+        title: "Paper position closed",
+        description: `${position.ticker} sold at $${fill.price.toFixed(2)} (${pnl >= 0 ? '+' : '-'}$${Math.abs(pnl).toFixed(2)})`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolio/positions?account=paper"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolio/analysis?account=paper"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolio/balance?account=paper"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/paper/account"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trade-history"] });
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Close failed", description: error.message });
+    },
+  });
+
+  return (
+    <div className="flex gap-2">
+      <Button
+        variant="destructive"
+        size="sm"
+        onClick={() => closeMutation.mutate()}
+        disabled={closeMutation.isPending}
+        data-testid={`button-close-${position.ticker}`}
+      >
+        {closeMutation.isPending ? 'Selling...' : 'Sell at Bid'}
+      </Button>
+    </div>
   );
 }
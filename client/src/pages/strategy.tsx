@@ -16,10 +16,17 @@ import {
 } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { ParameterVersionReview } from "@/components/ParameterVersionReview";
+import type { MarketRegimeSnapshot } from "@shared/schema";
 
 interface StrategyMetrics {
   winRate: number;
   avgROI: number;
+  grossAvgROI: number;
   profitFactor: number;
   totalTrades: number;
   openTrades: number;
@@ -52,10 +59,23 @@ interface ParameterHistory {
   avgROI: number | null;
   totalTrades: number | null;
   isActive: boolean;
-  activatedAt: string;
+  marketRegime: string | null; // null = base set for every regime
+  status: 'proposed' | 'active' | 'retired' | 'rejected';
+  activatedAt: string | null;
+  createdAt: string;
   adjustmentReason: string | null;
+  proposedBy: string | null;
+  reviewedBy: string | null;
+  reviewNotes: string | null;
 }
 
+const STATUS_BADGE_CLASSES: Record<ParameterHistory['status'], string> = {
+  proposed: 'bg-yellow-500/15 text-yellow-600 border-yellow-500/30',
+  active: 'bg-primary',
+  retired: '',
+  rejected: 'bg-red-500/15 text-red-600 border-red-500/30',
+};
+
 interface RecommendationWithPerformance {
   id: string;
   ticker: string;
@@ -84,8 +104,43 @@ interface RecommendationWithPerformance {
   } | null;
 }
 
+interface BacktestRunListItem {
+  id: string;
+  strategy: string;
+  status: string;
+  startDate: string;
+  endDate: string;
+  startedAt: string;
+  totalTrades: number | null;
+}
+
+interface BacktestEquityCurve {
+  runId: string;
+  startingCapital: number | null;
+  endingEquity: number | null;
+  maxDrawdown: number | null;
+  sharpeRatio: number | null;
+  sortinoRatio: number | null;
+  cagr: number | null;
+  exposure: number | null;
+  points: {
+    date: string;
+    equity: number;
+    cash: number;
+    positionsValue: number;
+    openPositions: number;
+    drawdown: number;
+  }[];
+}
+
+const equityChartConfig = {
+  equity: { label: "Equity", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
 export default function Strategy() {
   const [timeRange, setTimeRange] = useState(30);
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [reviewVersionId, setReviewVersionId] = useState<string | null>(null);
 
   // Fetch performance metrics
   const { data: metrics, isLoading: isLoadingMetrics } = useQuery<StrategyMetrics>({
@@ -93,6 +148,12 @@ export default function Strategy() {
     refetchInterval: 30000, // Refresh every 30 seconds
   });
 
+  // Current market regime (selects regime-specific parameter sets)
+  const { data: regime } = useQuery<MarketRegimeSnapshot>({
+    queryKey: ['/api/market-regime'],
+    refetchInterval: 15 * 60 * 1000,
+  });
+
   // Fetch parameter history
   const { data: paramHistory, isLoading: isLoadingHistory } = useQuery<ParameterHistory[]>({
     queryKey: ['/api/strategy/parameters/history'],
@@ -105,6 +166,20 @@ export default function Strategy() {
     refetchInterval: 30000,
   });
 
+  // Fetch backtest runs for the equity curve tab
+  const { data: backtestRuns } = useQuery<BacktestRunListItem[]>({
+    queryKey: ['/api/backtest/list'],
+    refetchInterval: 30000,
+  });
+
+  const completedRuns = (backtestRuns || []).filter(run => run.status === 'completed');
+  const activeRunId = selectedRunId || completedRuns[0]?.id || null;
+
+  const { data: equityCurve, isLoading: isLoadingEquity } = useQuery<BacktestEquityCurve>({
+    queryKey: ['/api/backtest', activeRunId, 'equity'],
+    enabled: !!activeRunId,
+  });
+
   const formatPercent = (value: number | null | undefined) => {
     if (value === null || value === undefined) return 'N/A';
     return `${value.toFixed(1)}%`;
@@ -132,6 +207,17 @@ export default function Strategy() {
             </p>
           </div>
           <div className="flex gap-2">
+            {regime && (
+              <Badge
+                variant="outline"
+                className="px-3 py-1 capitalize"
+                title={`As of ${regime.asOf}: ${regime.reasons.join('; ')}`}
+                data-testid="badge-market-regime"
+              >
+                <Activity className="w-3 h-3 mr-1" />
+                {regime.regime} regime
+              </Badge>
+            )}
             <Badge variant="outline" className="px-3 py-1">
               <Zap className="w-3 h-3 mr-1" />
               {metrics?.activeStrategyVersion || 'v1.0.0'}
@@ -176,7 +262,7 @@ export default function Strategy() {
                 {isLoadingMetrics ? '...' : formatPercent(metrics?.avgROI)}
               </div>
               <p className="text-xs text-muted-foreground mt-1">
-                Per trade average
+                Net per trade · {isLoadingMetrics ? '...' : formatPercent(metrics?.grossAvgROI)} gross
               </p>
             </CardContent>
           </Card>
@@ -257,6 +343,7 @@ export default function Strategy() {
           <TabsList>
             <TabsTrigger value="recommendations">Recent Recommendations</TabsTrigger>
             <TabsTrigger value="evolution">Parameter Evolution</TabsTrigger>
+            <TabsTrigger value="backtests">Backtest Equity</TabsTrigger>
           </TabsList>
 
           <TabsContent value="recommendations" className="space-y-4">
@@ -299,7 +386,7 @@ export default function Strategy() {
                               Loss
                             </Badge>
                           )}
-                          {!rec.performance && rec.status === 'monitoring' && (
+                          {!rec.performance?.closedAt && rec.status === 'monitoring' && (
                             <Badge variant="outline">
                               <Clock className="w-3 h-3 mr-1" />
                               Open
@@ -332,11 +419,18 @@ export default function Strategy() {
           </TabsContent>
 
           <TabsContent value="evolution" className="space-y-4">
+            {reviewVersionId && (
+              <ParameterVersionReview
+                key={reviewVersionId}
+                versionId={reviewVersionId}
+                onClose={() => setReviewVersionId(null)}
+              />
+            )}
             <Card>
               <CardHeader>
                 <CardTitle>Strategy Parameter History</CardTitle>
                 <CardDescription>
-                  How the AI has adjusted parameters over time to maintain 80%+ win rate
+                  Proposed adjustments wait for review; approved versions go live immediately and can be rolled back
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -347,17 +441,47 @@ export default function Strategy() {
                     {paramHistory.map((version, idx) => (
                       <div 
                         key={version.id} 
-                        className={`p-4 border rounded-lg ${version.isActive ? 'border-primary bg-primary/5' : ''}`}
+                        className={`p-4 border rounded-lg ${version.isActive ? 'border-primary bg-primary/5' : ''} ${version.status === 'rejected' ? 'opacity-60' : ''}`}
                       >
                         <div className="flex items-center justify-between mb-2">
                           <div className="flex items-center gap-2">
                             <div className="font-semibold">{version.version}</div>
-                            {version.isActive && (
-                              <Badge className="bg-primary">Active</Badge>
+                            <Badge
+                              variant={version.status === 'active' ? 'default' : 'outline'}
+                              className={`capitalize ${STATUS_BADGE_CLASSES[version.status] || ''}`}
+                            >
+                              {version.status}
+                            </Badge>
+                            {version.marketRegime && (
+                              <Badge variant="secondary" className="capitalize">{version.marketRegime} only</Badge>
+                            )}
+                            {version.proposedBy && (
+                              <span className="text-xs text-muted-foreground">by {version.proposedBy}</span>
                             )}
                           </div>
-                          <div className="text-sm text-muted-foreground">
-                            {formatDate(version.activatedAt)}
+                          <div className="flex items-center gap-2">
+                            <div className="text-sm text-muted-foreground">
+                              {formatDate(version.activatedAt || version.createdAt)}
+                            </div>
+                            {version.status === 'proposed' && (
+                              <Button
+                                size="sm"
+                                onClick={() => setReviewVersionId(version.id)}
+                                data-testid={`button-review-${version.id}`}
+                              >
+                                Review
+                              </Button>
+                            )}
+                            {version.status === 'retired' && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => setReviewVersionId(version.id)}
+                                data-testid={`button-rollback-${version.id}`}
+                              >
+                                Roll back
+                              </Button>
+                            )}
                           </div>
                         </div>
                         
@@ -366,6 +490,12 @@ export default function Strategy() {
                             {version.adjustmentReason}
                           </div>
                         )}
+
+                        {version.reviewedBy && (
+                          <div className="text-xs text-muted-foreground mb-3">
+                            Reviewed by {version.reviewedBy}{version.reviewNotes ? `: ${version.reviewNotes}` : ''}
+                          </div>
+                        )}
                         
                         <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
                           <div>
@@ -402,6 +532,100 @@ export default function Strategy() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="backtests" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <CardTitle>Backtest Account Equity</CardTitle>
+                    <CardDescription>
+                      Daily mark-to-market equity with capital, position and settlement constraints
+                    </CardDescription>
+                  </div>
+                  {completedRuns.length > 0 && (
+                    <Select value={activeRunId || undefined} onValueChange={setSelectedRunId}>
+                      <SelectTrigger className="w-[320px]" data-testid="select-backtest-run">
+                        <SelectValue placeholder="Select a backtest" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {completedRuns.map(run => (
+                          <SelectItem key={run.id} value={run.id}>
+                            {run.strategy} · {run.startDate.slice(0, 10)} → {run.endDate.slice(0, 10)} ({run.totalTrades || 0} trades)
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent>
+                {!activeRunId ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    No completed backtests yet. Queue one via POST /api/backtest/run.
+                  </div>
+                ) : isLoadingEquity ? (
+                  <div className="text-center py-8 text-muted-foreground">Loading...</div>
+                ) : equityCurve && equityCurve.points.length > 0 ? (
+                  <div className="space-y-4">
+                    <div className="grid grid-cols-2 md:grid-cols-6 gap-4 text-sm">
+                      <div>
+                        <div className="text-muted-foreground">Ending Equity</div>
+                        <div className="font-semibold" data-testid="text-backtest-ending-equity">
+                          ${(equityCurve.endingEquity ?? 0).toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                        </div>
+                      </div>
+                      <div>
+                        <div className="text-muted-foreground">CAGR</div>
+                        <div className="font-semibold">{formatPercent(equityCurve.cagr)}</div>
+                      </div>
+                      <div>
+                        <div className="text-muted-foreground">Max Drawdown</div>
+                        <div className="font-semibold text-red-500">{formatPercent(equityCurve.maxDrawdown)}</div>
+                      </div>
+                      <div>
+                        <div className="text-muted-foreground">Sharpe</div>
+                        <div className="font-semibold">{equityCurve.sharpeRatio?.toFixed(2) ?? 'N/A'}</div>
+                      </div>
+                      <div>
+                        <div className="text-muted-foreground">Sortino</div>
+                        <div className="font-semibold">{equityCurve.sortinoRatio?.toFixed(2) ?? 'N/A'}</div>
+                      </div>
+                      <div>
+                        <div className="text-muted-foreground">Exposure</div>
+                        <div className="font-semibold">{formatPercent(equityCurve.exposure)}</div>
+                      </div>
+                    </div>
+                    <ChartContainer config={equityChartConfig} className="h-[300px] w-full">
+                      <AreaChart data={equityCurve.points} margin={{ left: 12, right: 12 }}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={32} />
+                        <YAxis
+                          tickLine={false}
+                          axisLine={false}
+                          width={70}
+                          domain={['auto', 'auto']}
+                          tickFormatter={(value: number) => `$${Math.round(value).toLocaleString()}`}
+                        />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <Area
+                          dataKey="equity"
+                          type="monotone"
+                          stroke="var(--color-equity)"
+                          fill="var(--color-equity)"
+                          fillOpacity={0.15}
+                        />
+                      </AreaChart>
+                    </ChartContainer>
+                  </div>
+                ) : (
+                  <div className="text-center py-8 text-muted-foreground">
+                    This run has no equity curve recorded.
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
         </Tabs>
       </div>
     </div>
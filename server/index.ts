@@ -69,9 +69,15 @@ app.use((req, res, next) => {
   // Initialize Elite Strategy Engine with parameters from database
   console.log('🧠 Initializing Elite Strategy Engine...');
   await RecommendationTracker.initializeDefaultParameters();
+  const { strategyVersionService } = await import('./services/strategyVersionService');
+  await strategyVersionService.reconcileStatuses();
   await EliteStrategyEngine.getInstance().loadParametersFromDatabase();
   console.log('✅ Elite Strategy Engine ready with active parameters');
   
+  // Fill/slippage/commission model used by backtests and recommendation tracking
+  const { executionCostModel } = await import('./services/executionCostModel');
+  await executionCostModel.loadFromDatabase();
+  
   // DISABLED: Ghost 1DTE Scheduler (causing API rate limits with 500+ S&P requests)
   // GhostScheduler.start();
   
@@ -164,10 +170,66 @@ app.use((req, res, next) => {
   setInterval(runAutoScan, 5 * 60 * 1000);
   console.log('✅ 24/7 auto-scan activated — running every 5 minutes');
   
-  // Start trade exit monitoring (runs daily at 4:15 PM ET to track recommendation outcomes)
+  // Start trade exit monitoring (intraday during market hours plus a 4:15 PM ET pass to track recommendation outcomes)
   const { TradeExitMonitor } = await import('./services/tradeExitMonitor');
   TradeExitMonitor.start();
   
+  // Start price alert engine (evaluates active alerts against live quote caches every 5s)
+  const { priceAlertEngine } = await import('./services/priceAlertEngine');
+  priceAlertEngine.start();
+
+  // Start exit automation (brackets on opted-in positions, evaluated every 5s during market hours)
+  const { exitAutomationService } = await import('./services/exitAutomationService');
+  exitAutomationService.start().catch(err => {
+    console.error('❌ Failed to start exit automation:', err.message);
+  });
+
+  // Start the paper broker (streams quotes for paper positions, snapshots equity at 4:05 PM ET)
+  const { paperBrokerService } = await import('./services/paperBrokerService');
+  paperBrokerService.start().catch(err => {
+    console.error('❌ Failed to start paper broker:', err.message);
+  });
+
+  // Start account equity snapshots (NLV, cash, realized/unrealized P/L and cash flows at 4:10 PM ET)
+  const { accountPerformanceService } = await import('./services/accountPerformanceService');
+  accountPerformanceService.start();
+
+  // Start the option chain archive (point-in-time chain snapshots at the configured ET times)
+  const { optionChainArchive } = await import('./services/optionChainArchive');
+  optionChainArchive.start().catch(err => {
+    console.error('❌ Failed to start option chain archive:', err.message);
+  });
+
+  // Start sector performance (loads ticker classifications, classifies the liquid universe hourly)
+  const { sectorPerformanceService } = await import('./services/sectorPerformanceService');
+  sectorPerformanceService.start().catch(err => {
+    console.error('❌ Failed to start sector performance service:', err.message);
+  });
+
+  // Start index sampling (S&P 500, NASDAQ, VIX every 5 minutes during the session for the overview sparklines)
+  const { indexHistoryService } = await import('./services/indexHistoryService');
+  indexHistoryService.start();
+
+  // Start market sentiment put/call refresh (SPY/QQQ chain volume every 5 minutes during the session)
+  const { marketSentimentService } = await import('./services/marketSentimentService');
+  marketSentimentService.start();
+
+  // Start VIX squeeze tracking (checks VIX each minute of the session, marks triggers at their 9:30 AM CST next-day exit)
+  const { vixSqueezeService } = await import('./services/vixSqueezeService');
+  vixSqueezeService.start().catch(err => {
+    console.error('❌ Failed to start VIX squeeze tracking:', err.message);
+  });
+
+  // Start backtest job queue (re-queues pending runs left from a previous process)
+  const { backtestJobQueue } = await import('./services/backtestJobQueue');
+  backtestJobQueue.start();
+
+  // Resume polling broker orders that were still working when the server stopped
+  const { brokerOrderService } = await import('./services/brokerOrderService');
+  brokerOrderService.resumePolling().catch(err => {
+    console.error('❌ Failed to resume broker order polling:', err.message);
+  });
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
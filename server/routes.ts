@@ -13,13 +13,145 @@ import { exitAnalysisService } from "./services/exitAnalysis";
 import { portfolioAnalysisEngine } from "./services/portfolioAnalysisEngine";
 import { timeService } from "./services/timeService";
 import { marketStatusService } from "./services/marketStatusService";
-import { dailyIndexCache } from "./cache/DailyIndexCache";
+import { marketCalendar, type MarketSession } from "./services/marketCalendar";
 import { eodCacheService } from "./services/eodCache";
 import { batchDataService } from "./services/batchDataService";
-import { insertMarketDataSchema, insertOptionsTradeSchema, insertAiInsightsSchema, insertPortfolioPositionSchema, type OptionsTrade, appConfig, optionsTrade } from "@shared/schema";
-import { formatOptionSymbol, toPolygonSubscriptionTopic, toTastytradeOptionSymbol } from "./utils/optionSymbols";
+import { priceAlertEngine } from "./services/priceAlertEngine";
+import { quoteSubscriptionManager } from "./services/quoteSubscriptionManager";
+import { insertMarketDataSchema, insertOptionsTradeSchema, insertAiInsightsSchema, insertPortfolioPositionSchema, insertPriceAlertSchema, insertAccountGoalSchema, type OptionsTrade, type GoalAccount, type EquityAccount, type PriceAlertType, type BacktestJobProgress, type BacktestStrategyId, type BacktestRunStatus, type MarketCalendarData, type MarketSessionInfo, type MarketSentiment, appConfig, optionsTrade } from "@shared/schema";
+import { formatOptionSymbol, normalizeOptionSymbol } from "./utils/optionSymbols";
 import { eq } from "drizzle-orm";
 
+interface QuoteStreamState {
+  symbols: Set<string>;
+  optionSymbols: Set<string>;
+  followTopTrades: boolean; // No explicit subscriptions requested - stream the current top trades
+}
+
+interface QuoteStreamChanges {
+  addSymbols?: string[];
+  removeSymbols?: string[];
+  addOptions?: string[];
+  removeOptions?: string[];
+}
+
+// Open /api/quotes/stream connections keyed by stream id
+const quoteStreams = new Map<string, QuoteStreamState>();
+
+function getTradeOptionSymbol(trade: OptionsTrade): string {
+  return trade.optionSymbol || formatOptionSymbol(
+    trade.ticker,
+    trade.expiry,
+    (trade.optionType || 'call') as 'call' | 'put',
+    trade.strikePrice
+  );
+}
+
+function applyQuoteStreamChanges(streamId: string, stream: QuoteStreamState, changes: QuoteStreamChanges): void {
+  quoteSubscriptionManager.release(streamId, { symbols: changes.removeSymbols, optionSymbols: changes.removeOptions });
+  quoteSubscriptionManager.acquire(streamId, { symbols: changes.addSymbols, optionSymbols: changes.addOptions });
+  
+  const held = quoteSubscriptionManager.getOwnerSubscriptions(streamId);
+  stream.symbols = new Set(held.symbols);
+  stream.optionSymbols = new Set(held.optionSymbols);
+}
+
+/**
+ * Latest stock price: Polygon first, then the Tastytrade quote cache
+ */
+async function getLiveStockPrice(ticker: string): Promise<number | null> {
+  const polygonQuote = await polygonService.getCachedQuote(ticker);
+  if (polygonQuote && polygonQuote.lastPrice > 0) {
+    return polygonQuote.lastPrice;
+  }
+  const tastyQuote = await tastytradeService.getCachedQuote(ticker);
+  if (tastyQuote && tastyQuote.lastPrice > 0) {
+    return tastyQuote.lastPrice;
+  }
+  return null;
+}
+
+/**
+ * Open positions from both brokers plus manual entries, repriced with live quotes.
+ * Quantities are signed (short legs negative), so P/L works for credit positions too.
+ */
+async function fetchLivePortfolioPositions(): Promise<any[]> {
+  // Fetch positions from both brokers in parallel
+  const [tastytradePositions, robinhoodPositions] = await Promise.all([
+    tastytradeService.fetchPositions().catch(err => {
+      console.error('Tastytrade positions error:', err.message);
+      return [];
+    }),
+    robinhoodService.getAllPositions().catch(err => {
+      console.error('Robinhood positions error:', err.message);
+      return [];
+    })
+  ]);
+
+  // Hand-entered positions from other brokers, priced and analyzed the same way
+  const { manualPositionService } = await import('./services/manualPositionService');
+  const manualPositions = await manualPositionService.getOpenPositions().catch(err => {
+    console.error('Manual positions error:', err.message);
+    return [];
+  });
+
+  // Merge all positions
+  const allPositions: any[] = [...tastytradePositions, ...robinhoodPositions, ...manualPositions];
+
+  // Update each position with live market prices
+  return Promise.all(allPositions.map(repriceLivePosition));
+}
+
+/**
+ * Positions of the account picked on the portfolio page: the paper account, or the
+ * brokers plus manual entries
+ */
+async function fetchAccountPositions(account: unknown): Promise<any[]> {
+  if (account === 'paper') {
+    const { paperBrokerService } = await import('./services/paperBrokerService');
+    return paperBrokerService.getAllPositions();
+  }
+  return fetchLivePortfolioPositions();
+}
+
+/**
+ * Reprice one position with live quotes and recompute its unrealized P/L
+ */
+async function repriceLivePosition(position: any): Promise<any> {
+  let livePrice = position.currentPrice;
+
+  // For options, try to get live options quote from Tastytrade
+  if (position.positionType === 'options' && position.metadata) {
+    const { strike, optionType } = position.metadata;
+    const expiryDate = position.metadata.expiryDate || position.metadata.expiry;
+    if (strike && expiryDate && optionType) {
+      const optionQuote = await tastytradeService.getOptionQuote(
+        position.ticker,
+        strike,
+        expiryDate,
+        String(optionType).toLowerCase() as 'call' | 'put'
+      );
+      if (optionQuote && optionQuote.premium > 0) {
+        livePrice = optionQuote.premium;
+      }
+    }
+  } else {
+    livePrice = (await getLiveStockPrice(position.ticker)) ?? livePrice;
+  }
+
+  // Calculate fresh P/L with live price
+  const multiplier = position.positionType === 'options' ? 100 : 1;
+  const unrealizedPnL = (livePrice - position.avgCost) * position.quantity * multiplier;
+
+  return {
+    ...position,
+    currentPrice: livePrice,
+    unrealizedPnL
+  };
+}
+
+const PRICE_ALERT_TYPES: PriceAlertType[] = ['above', 'below', 'percent_move', 'crosses_vwap', 'premium_above', 'premium_below', 'iv_above'];
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Server-Sent Events endpoint for real-time quote streaming with live Greeks
   app.get('/api/quotes/stream', async (req, res) => {
@@ -35,68 +167,75 @@ export async function registerRoutes(app: Express): Promise<Server> {
     const SCRAPER_CACHE_TTL = 30000; // 30 seconds
     const SCRAPER_ERROR_BACKOFF = 60000; // Wait 60s before retrying failed symbols
     
-    // Fetch current top trades to enable live Greeks calculation AND get symbols
-    // Using the same data source for both ensures consistency (fixes race condition)
-    const topTrades = await storage.getTopTrades();
-    const tradeMap = new Map<string, OptionsTrade>();
-    const symbols: string[] = [];
-    const optionSymbols: string[] = [];
+    // Requested subscriptions: ?symbols=SPY,AAPL (underlyings) and ?options=.SPY251113C00680000 (OCC)
+    // When neither is given the stream follows the current top trades.
+    const parseList = (value: unknown): string[] =>
+      typeof value === 'string' ? value.split(',').map(s => s.trim()).filter(Boolean) : [];
+    const requestedSymbols = parseList(req.query.symbols);
+    const requestedOptions = parseList(req.query.options);
     
-    topTrades.forEach(trade => {
-      tradeMap.set(trade.ticker, trade);
-      symbols.push(trade.ticker); // Underlying ticker for stock quotes
-      
-      // Generate option symbol for live premium streaming
-      const optionSym = trade.optionSymbol || formatOptionSymbol(
-        trade.ticker,
-        trade.expiry,
-        trade.optionType || 'call',
-        trade.strikePrice
-      );
-      
-      if (optionSym) {
-        optionSymbols.push(optionSym);
-      }
-    });
+    const streamId = `quotes-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+    const stream: QuoteStreamState = {
+      symbols: new Set(),
+      optionSymbols: new Set(),
+      followTopTrades: requestedSymbols.length === 0 && requestedOptions.length === 0,
+    };
+    quoteStreams.set(streamId, stream);
     
-    console.log(`📡 SSE connection established for ${symbols.length} underlying symbols: ${symbols.join(', ')}`);
-    console.log(`📡 SSE connection established for ${optionSymbols.length} option contracts: ${optionSymbols.slice(0, 3).join(', ')}${optionSymbols.length > 3 ? '...' : ''}`);
-    console.log(`📊 Live Greeks enabled for ${topTrades.length} trades: ${Array.from(tradeMap.keys()).join(', ')}`);
+    // Cleanup on disconnect - release our share of the WebSocket subscriptions. Registered before
+    // the first await so a client that leaves during setup doesn't leak the stream.
+    let closed = false;
+    let interval: NodeJS.Timeout | undefined;
+    let topTradesInterval: NodeJS.Timeout | undefined;
+    req.on('close', () => {
+      closed = true;
+      clearInterval(interval);
+      clearInterval(topTradesInterval);
+      quoteStreams.delete(streamId);
+      quoteSubscriptionManager.releaseAll(streamId);
+      console.log(`📡 SSE stream ${streamId} closed`);
+    });
     
-    // Subscribe to underlying symbols via Polygon for stock prices
-    if (polygonService.isServiceConnected() && symbols.length > 0) {
-      polygonService.subscribeToSymbols(symbols).catch(err => {
-        console.warn('⚠️ Polygon stock subscription failed:', err.message);
-      });
-    }
+    // Top trades drive live Greeks/premium/ROI for any streamed underlying that has an active trade
+    const tradeMap = new Map<string, OptionsTrade>();
+    const refreshTopTrades = async () => {
+      try {
+        const topTrades = await storage.getTopTrades();
+        if (closed) return;
+        tradeMap.clear();
+        topTrades.forEach(trade => tradeMap.set(trade.ticker, trade));
+        
+        if (stream.followTopTrades) {
+          const tradeOptions = topTrades
+            .map(t => getTradeOptionSymbol(t))
+            .filter(Boolean)
+            .map(sym => normalizeOptionSymbol(sym));
+          applyQuoteStreamChanges(streamId, stream, {
+            addSymbols: topTrades.map(t => t.ticker),
+            removeSymbols: Array.from(stream.symbols).filter(s => !tradeMap.has(s)),
+            addOptions: tradeOptions,
+            removeOptions: Array.from(stream.optionSymbols).filter(sym => !tradeOptions.includes(sym)),
+          });
+        }
+      } catch (error: any) {
+        console.warn('⚠️ SSE top trades refresh failed:', error.message);
+      }
+    };
     
-    // Subscribe to option symbols via Polygon for live premiums
-    // Convert canonical symbols to Polygon WebSocket format (O:SPY251113C00680000)
-    if (polygonService.isServiceConnected() && optionSymbols.length > 0) {
-      const polygonTopics = optionSymbols.map(sym => toPolygonSubscriptionTopic(sym));
-      const polygonOptionPatterns = polygonTopics.flatMap(topic => [`T.${topic}`, `Q.${topic}`]); // Trade and Quote messages
-      console.log(`📡 Subscribing to Polygon option patterns: ${polygonOptionPatterns.slice(0, 3).join(', ')}${polygonOptionPatterns.length > 3 ? '...' : ''}`);
-      polygonService.subscribeToOptionTrades(polygonOptionPatterns).catch(err => {
-        console.warn('⚠️ Polygon option subscription failed:', err.message);
-      });
+    if (!stream.followTopTrades) {
+      applyQuoteStreamChanges(streamId, stream, { addSymbols: requestedSymbols, addOptions: requestedOptions });
     }
+    await refreshTopTrades();
+    if (closed) return;
     
-    // Subscribe to underlying symbols via Tastytrade for stock prices
-    if (tastytradeService.isServiceConnected() && symbols.length > 0) {
-      tastytradeService.subscribeToSymbols(symbols).catch(err => {
-        console.warn('⚠️ Tastytrade stock subscription failed:', err.message);
-      });
-    }
+    console.log(`📡 SSE stream ${streamId} opened (${stream.followTopTrades ? 'top trades' : 'client-selected'}): ${stream.symbols.size} underlyings, ${stream.optionSymbols.size} option contracts`);
     
-    // Subscribe to option symbols via Tastytrade for live premiums
-    // Convert canonical symbols to Tastytrade format (.SPY251113C00680000) - same as canonical
-    if (tastytradeService.isServiceConnected() && optionSymbols.length > 0) {
-      const tastySymbols = optionSymbols.map(sym => toTastytradeOptionSymbol(sym));
-      console.log(`📡 Subscribing to Tastytrade option symbols: ${tastySymbols.slice(0, 3).join(', ')}${tastySymbols.length > 3 ? '...' : ''}`);
-      tastytradeService.subscribeToOptionSymbols(tastySymbols).catch(err => {
-        console.warn('⚠️ Tastytrade option subscription failed:', err.message);
-      });
-    }
+    // Tell the client its stream id so it can change subscriptions via POST /api/quotes/stream/:streamId/subscriptions
+    res.write(`event: subscribed\ndata: ${JSON.stringify({
+      streamId,
+      symbols: Array.from(stream.symbols),
+      options: Array.from(stream.optionSymbols),
+    })}\n\n`);
     
     // Helper function to calculate live Greeks for a trade
     const calculateLiveGreeks = (trade: OptionsTrade, currentPrice: number) => {
@@ -134,46 +273,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
     };
     
+    // Helper function to read a live option premium from the WebSocket caches
+    // Data Source Hierarchy: Polygon → Tastytrade
+    const getLiveOptionPremium = (optionSymbol: string): { premium: number; bid: number; ask: number; source: 'polygon' | 'tastytrade' } | null => {
+      const polygonOption = polygonService.getCachedOptionQuote(optionSymbol);
+      if (polygonOption) {
+        return {
+          premium: polygonOption.premium,
+          bid: polygonOption.bid,
+          ask: polygonOption.ask,
+          source: 'polygon'
+        };
+      }
+      
+      const tastyOption = tastytradeService.getCachedOptionPremium(optionSymbol);
+      if (tastyOption) {
+        return {
+          premium: tastyOption.premium,
+          bid: tastyOption.bid,
+          ask: tastyOption.ask,
+          source: 'tastytrade'
+        };
+      }
+      
+      return null;
+    };
+    
     // Helper function to fetch live option premium
     const getOptionPremium = async (trade: OptionsTrade): Promise<{ premium: number; bid: number; ask: number; source: 'polygon' | 'tastytrade' | 'model' } | null> => {
       try {
         // Get option symbol (use existing or generate)
-        let optionSymbol = trade.optionSymbol;
-        if (!optionSymbol) {
-          optionSymbol = formatOptionSymbol(
-            trade.ticker,
-            trade.expiry,
-            trade.optionType || 'call',
-            trade.strikePrice
-          );
-        }
-        
+        const optionSymbol = getTradeOptionSymbol(trade);
         if (!optionSymbol) {
           return null;
         }
         
         // Data Source Hierarchy: Polygon → Tastytrade → Model (trade.premium)
         
-        // 1. Try Polygon WebSocket cache first
-        const polygonOption = polygonService.getCachedOptionQuote(optionSymbol);
-        if (polygonOption) {
-          return {
-            premium: polygonOption.premium,
-            bid: polygonOption.bid,
-            ask: polygonOption.ask,
-            source: 'polygon'
-          };
-        }
-        
-        // 2. Try Tastytrade cache
-        const tastyOption = tastytradeService.getCachedOptionPremium(optionSymbol);
-        if (tastyOption) {
-          return {
-            premium: tastyOption.premium,
-            bid: tastyOption.bid,
-            ask: tastyOption.ask,
-            source: 'tastytrade'
-          };
+        // 1-2. Try Polygon, then Tastytrade WebSocket caches
+        const livePremium = getLiveOptionPremium(optionSymbol);
+        if (livePremium) {
+          return livePremium;
         }
         
         // 3. Fallback to model premium (from trade record)
@@ -197,7 +337,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     const sendQuotes = async () => {
       const quotes: Record<string, any> = {};
       
-      for (const symbol of symbols) {
+      for (const symbol of Array.from(stream.symbols)) {
         // Data Source Hierarchy: Polygon → Tastytrade → WebScraper
         
         // 1. Try Polygon cache first (primary source - Options Advanced plan)
@@ -371,134 +511,112 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
+      // Requested option contracts, keyed by canonical OCC symbol
+      for (const optionSymbol of Array.from(stream.optionSymbols)) {
+        const livePremium = getLiveOptionPremium(optionSymbol);
+        if (livePremium) {
+          quotes[optionSymbol] = {
+            price: livePremium.premium,
+            bid: livePremium.bid,
+            ask: livePremium.ask,
+            volume: 0,
+            timestamp: Date.now(),
+            source: livePremium.source
+          };
+        }
+      }
+      
       if (Object.keys(quotes).length > 0) {
         const quotesJSON = JSON.stringify(quotes);
         res.write(`data: ${quotesJSON}\n\n`);
-      } else {
-        console.log(`⚠️ SSE no quotes to send for symbols: ${symbols.join(', ')}`);
+      } else if (stream.symbols.size > 0 || stream.optionSymbols.size > 0) {
+        console.log(`⚠️ SSE no quotes to send for stream ${streamId}`);
       }
     };
     
     // Send initial quotes
     await sendQuotes();
+    if (closed) return;
     
     // Stream updates every 1 second
-    const interval = setInterval(async () => {
+    interval = setInterval(async () => {
       await sendQuotes();
     }, 1000);
     
-    // Cleanup on disconnect
-    req.on('close', () => {
-      clearInterval(interval);
-      console.log(`📡 SSE connection closed for symbols: ${symbols.join(', ')}`);
-    });
+    // Pick up new scan results without requiring a reconnect
+    topTradesInterval = setInterval(refreshTopTrades, 60000);
   });
-
-  // Market Overview endpoint
-  app.get('/api/market-overview', async (req, res) => {
+  
+  // Add/remove subscriptions on an open quote stream
+  app.post('/api/quotes/stream/:streamId/subscriptions', async (req, res) => {
     try {
-      console.log('Fetching market overview...');
-      
-      const isMarketOpen = marketStatusService.isMarketOpen();
-      
-      // Get current trading date (YYYY-MM-DD format)
-      const cstTime = await timeService.getCurrentTime();
-      const tradingDate = cstTime.toISOString().split('T')[0];
-      
-      // Clear stale cache entries for previous trading days
-      dailyIndexCache.clearOldData(tradingDate);
-      
-      // Get current prices from data sources
-      // S&P 500: Try Tastytrade (live) → Google Finance (fallback)
-      let sp500Price: number;
-      try {
-        if (isMarketOpen) {
-          const spxQuote = await tastytradeService.getFuturesQuote('SPX');
-          if (spxQuote && spxQuote.price > 0 && Number.isFinite(spxQuote.price)) {
-            sp500Price = spxQuote.price;
-            console.log(`✅ SPX from Tastytrade (live): $${sp500Price.toFixed(2)}`);
-            
-            // Store opening price on first data of the day (with validation)
-            const cached = dailyIndexCache.get('^GSPC');
-            if ((!cached || cached.tradingDate !== tradingDate) && Number.isFinite(sp500Price) && sp500Price > 0) {
-              dailyIndexCache.setOpenPrice('^GSPC', sp500Price, tradingDate);
-              console.log(`📊 ^GSPC: Captured opening price $${sp500Price.toFixed(2)} for ${tradingDate}`);
-            }
-          } else {
-            const scrapedData = await WebScraperService.scrapeMarketIndices();
-            sp500Price = scrapedData.sp500.price;
-            
-            // Store opening price on first data of the day (Google Finance fallback, with validation)
-            const cached = dailyIndexCache.get('^GSPC');
-            if ((!cached || cached.tradingDate !== tradingDate) && Number.isFinite(sp500Price) && sp500Price > 0) {
-              dailyIndexCache.setOpenPrice('^GSPC', sp500Price, tradingDate);
-              console.log(`📊 ^GSPC: Captured opening price $${sp500Price.toFixed(2)} for ${tradingDate} (Google Finance)`);
-            }
-          }
-        } else {
-          const scrapedData = await WebScraperService.scrapeMarketIndices();
-          sp500Price = scrapedData.sp500.price;
-        }
-      } catch (error) {
-        console.log('⚠️ SPX fetch error, using fallback');
-        const scrapedData = await WebScraperService.scrapeMarketIndices();
-        sp500Price = scrapedData.sp500.price;
+      const { streamId } = req.params;
+      const stream = quoteStreams.get(streamId);
+      if (!stream) {
+        return res.status(404).json({ error: 'Quote stream not found' });
       }
       
-      // NASDAQ & VIX: Google Finance scraping
-      const scrapedData = await WebScraperService.scrapeMarketIndices();
-      const nasdaqPrice = scrapedData.nasdaq.price;
-      const vixPrice = scrapedData.vix.price;
-      
-      // Store opening prices when market opens (with validation)
-      if (isMarketOpen) {
-        const nasdaqCached = dailyIndexCache.get('^IXIC');
-        if ((!nasdaqCached || nasdaqCached.tradingDate !== tradingDate) && Number.isFinite(nasdaqPrice) && nasdaqPrice > 0) {
-          dailyIndexCache.setOpenPrice('^IXIC', nasdaqPrice, tradingDate);
-          console.log(`📊 ^IXIC: Captured opening price $${nasdaqPrice.toFixed(2)} for ${tradingDate}`);
-        }
-        
-        const vixCached = dailyIndexCache.get('^VIX');
-        if ((!vixCached || vixCached.tradingDate !== tradingDate) && Number.isFinite(vixPrice) && vixPrice > 0) {
-          dailyIndexCache.setOpenPrice('^VIX', vixPrice, tradingDate);
-          console.log(`📊 ^VIX: Captured opening price $${vixPrice.toFixed(2)} for ${tradingDate}`);
+      const { addSymbols, removeSymbols, addOptions, removeOptions } = req.body || {};
+      const lists = { addSymbols, removeSymbols, addOptions, removeOptions };
+      for (const [field, value] of Object.entries(lists)) {
+        if (value !== undefined && (!Array.isArray(value) || value.some(v => typeof v !== 'string'))) {
+          return res.status(400).json({ error: `${field} must be an array of strings` });
         }
       }
       
-      // Calculate changePercent and change values using cached open prices
-      // If no cached opening price, both change and changePercent are 0
-      const sp500Cached = dailyIndexCache.get('^GSPC');
-      const nasdaqCached = dailyIndexCache.get('^IXIC');
-      const vixCached = dailyIndexCache.get('^VIX');
+      // Explicit changes take the stream off the default top-trades feed
+      stream.followTopTrades = false;
+      applyQuoteStreamChanges(streamId, stream, lists);
       
-      const sp500ChangePercent = sp500Cached && Number.isFinite(sp500Price) 
-        ? ((sp500Price - sp500Cached.openPrice) / sp500Cached.openPrice) * 100 
-        : 0;
-      const nasdaqChangePercent = nasdaqCached && Number.isFinite(nasdaqPrice) 
-        ? ((nasdaqPrice - nasdaqCached.openPrice) / nasdaqCached.openPrice) * 100 
-        : 0;
-      const vixChangePercent = vixCached && Number.isFinite(vixPrice) 
-        ? ((vixPrice - vixCached.openPrice) / vixCached.openPrice) * 100 
-        : 0;
+      res.json({
+        streamId,
+        symbols: Array.from(stream.symbols),
+        options: Array.from(stream.optionSymbols),
+      });
+    } catch (error: any) {
+      console.error('Error updating quote stream subscriptions:', error);
+      res.status(500).json({ error: 'Failed to update subscriptions' });
+    }
+  });
+
+  // Market Overview endpoint
+  app.get('/api/market-overview', async (req, res) => {
+    try {
+      console.log('Fetching market overview...');
       
-      const sp500Change = sp500Cached && Number.isFinite(sp500Price) ? sp500Price - sp500Cached.openPrice : 0;
-      const nasdaqChange = nasdaqCached && Number.isFinite(nasdaqPrice) ? nasdaqPrice - nasdaqCached.openPrice : 0;
-      const vixChange = vixCached && Number.isFinite(vixPrice) ? vixPrice - vixCached.openPrice : 0;
+      // Index prices, with change measured against the official prior close
+      const { indexHistoryService } = await import('./services/indexHistoryService');
+      const prices = await indexHistoryService.getPrices();
+      const sessionDate = indexHistoryService.getSessionDate();
+      const [sp500Quote, nasdaqQuote, vixQuote] = await Promise.all([
+        indexHistoryService.getQuote('SPX', prices.SPX, sessionDate),
+        indexHistoryService.getQuote('COMP', prices.COMP, sessionDate),
+        indexHistoryService.getQuote('VIX', prices.VIX, sessionDate),
+      ]);
+      indexHistoryService.recordSamples(prices).catch(error => {
+        console.error('❌ Failed to store index samples:', error.message);
+      });
       
       // Build final market data
       const marketData = {
-        sp500: { symbol: '^GSPC', price: sp500Price, change: sp500Change, changePercent: sp500ChangePercent },
-        nasdaq: { symbol: '^IXIC', price: nasdaqPrice, change: nasdaqChange, changePercent: nasdaqChangePercent },
-        vix: { symbol: '^VIX', price: vixPrice, change: vixChange, changePercent: vixChangePercent }
+        sp500: { symbol: '^GSPC', price: sp500Quote.value, change: sp500Quote.change, changePercent: sp500Quote.changePercent, priorClose: sp500Quote.priorClose },
+        nasdaq: { symbol: '^IXIC', price: nasdaqQuote.value, change: nasdaqQuote.change, changePercent: nasdaqQuote.changePercent, priorClose: nasdaqQuote.priorClose },
+        vix: { symbol: '^VIX', price: vixQuote.value, change: vixQuote.change, changePercent: vixQuote.changePercent, priorClose: vixQuote.priorClose }
       };
       
-      // Calculate AI sentiment score
-      const sentimentScore = Math.random() * 0.4 + 0.6; // 0.6-1.0 range for bullish bias
+      // Sentiment composite: breadth, highs/lows, VIX and put/call volume
+      let sentiment: MarketSentiment;
+      try {
+        const { marketSentimentService } = await import('./services/marketSentimentService');
+        sentiment = await marketSentimentService.getSentiment({ value: marketData.vix.price, changePercent: marketData.vix.changePercent });
+      } catch (error) {
+        console.error('❌ Market sentiment failed:', error);
+        sentiment = { score: 0.5, label: 'Unknown', components: [] };
+      }
       
-      // VIX SQUEEZE ALERT — 94.1% EDGE
-      // Detect high-confidence 0DTE PUT entry signals when VIX >= 20 AND changePercent > 5%
-      // Note: changePercent is stored as a number (e.g., 6.12 for 6.12%), so compare against 5, not 0.05
-      const vixSqueezeDetected = marketData.vix.price >= 20 && Math.abs(marketData.vix.changePercent) > 5;
+      // VIX squeeze: checked, recorded and resolved by vixSqueezeService on its own timer
+      const { vixSqueezeService, isVixSqueeze } = await import('./services/vixSqueezeService');
+      const vixSqueezeDetected = isVixSqueeze(marketData.vix.price, marketData.vix.changePercent);
       
       // Debug logging for VIX monitoring
       if (marketData.vix.price > 18 || Math.abs(marketData.vix.changePercent) > 3) {
@@ -510,51 +628,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
           symbol: marketData.sp500.symbol,
           value: marketData.sp500.price,
           change: marketData.sp500.change,
-          changePercent: marketData.sp500.changePercent
+          changePercent: marketData.sp500.changePercent,
+          priorClose: marketData.sp500.priorClose
         },
         nasdaq: {
           symbol: marketData.nasdaq.symbol,
           value: marketData.nasdaq.price,
           change: marketData.nasdaq.change,
-          changePercent: marketData.nasdaq.changePercent
+          changePercent: marketData.nasdaq.changePercent,
+          priorClose: marketData.nasdaq.priorClose
         },
         vix: {
           symbol: marketData.vix.symbol,
           value: marketData.vix.price,
           change: marketData.vix.change,
-          changePercent: marketData.vix.changePercent
+          changePercent: marketData.vix.changePercent,
+          priorClose: marketData.vix.priorClose
         },
-        sentiment: {
-          score: sentimentScore,
-          label: sentimentScore > 0.8 ? 'Very Bullish' : 
-                 sentimentScore > 0.6 ? 'Bullish' : 
-                 sentimentScore > 0.4 ? 'Neutral' : 'Bearish'
-        }
+        sentiment
       };
       
-      // Add VIX squeeze alert if conditions are met
-      if (vixSqueezeDetected) {
-        const cstTime = await timeService.getCurrentTime();
-        const entryDeadline = new Date(cstTime);
-        entryDeadline.setHours(15, 0, 0, 0); // 3:00 PM CST
-        
-        response.vixSqueezeAlert = {
-          action: 'BUY SPY 0DTE PUT',
-          vix: marketData.vix.price,
-          change: marketData.vix.changePercent,
-          entryWindow: `NOW — 3:00 PM CST`,
-          exitTime: '9:30 AM CST (next day)',
-          confidence: '94.1%',
-          detected: true,
-          timestamp: cstTime.toISOString()
-        };
-        
-        console.log(`🚨 VIX SQUEEZE DETECTED! VIX: ${marketData.vix.price} (+${marketData.vix.changePercent}%)`);
-      } else {
-        response.vixSqueezeAlert = {
-          detected: false
-        };
-      }
+      response.vixSqueezeAlert = vixSqueezeService.getAlert();
       
       res.json(response);
     } catch (error) {
@@ -563,6 +657,74 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Intraday index samples for the market overview sparklines (?date=YYYY-MM-DD, default: current session)
+  app.get('/api/market-overview/intraday', async (req, res) => {
+    try {
+      const { indexHistoryService, IndexHistoryError } = await import('./services/indexHistoryService');
+      try {
+        const date = typeof req.query.date === 'string' ? req.query.date : undefined;
+        const history = await indexHistoryService.getIntradayHistory(date);
+        res.json(history);
+      } catch (error) {
+        if (error instanceof IndexHistoryError) {
+          return res.status(error.statusCode).json({ message: error.message });
+        }
+        throw error;
+      }
+    } catch (error) {
+      console.error('Error fetching intraday index history:', error);
+      res.status(500).json({ message: 'Failed to fetch intraday index history' });
+    }
+  });
+
+  // VIX squeeze signal history (?limit=, default 50)
+  app.get('/api/vix-squeeze/signals', async (req, res) => {
+    try {
+      const { vixSqueezeService } = await import('./services/vixSqueezeService');
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 500);
+      const signals = await vixSqueezeService.listSignals(limit);
+      res.json(signals);
+    } catch (error) {
+      console.error('Error fetching VIX squeeze signals:', error);
+      res.status(500).json({ message: 'Failed to fetch VIX squeeze signals' });
+    }
+  });
+
+  // VIX squeeze live hit rate, last backtest and the confidence shown on the alert
+  app.get('/api/vix-squeeze/stats', async (req, res) => {
+    try {
+      const { vixSqueezeService } = await import('./services/vixSqueezeService');
+      const stats = await vixSqueezeService.getStats();
+      res.json(stats);
+    } catch (error) {
+      console.error('Error fetching VIX squeeze stats:', error);
+      res.status(500).json({ message: 'Failed to fetch VIX squeeze stats' });
+    }
+  });
+
+  // Backtest the VIX squeeze rule over daily VIX/SPY bars (body: { startDate, endDate })
+  app.post('/api/vix-squeeze/backtest', async (req, res) => {
+    try {
+      const { vixSqueezeService, VixSqueezeError } = await import('./services/vixSqueezeService');
+      try {
+        const { startDate, endDate } = req.body || {};
+        if (typeof startDate !== 'string' || typeof endDate !== 'string') {
+          return res.status(400).json({ message: 'startDate and endDate are required' });
+        }
+        const result = await vixSqueezeService.runBacktest(startDate, endDate);
+        res.json(result);
+      } catch (error) {
+        if (error instanceof VixSqueezeError) {
+          return res.status(error.statusCode).json({ message: error.message });
+        }
+        throw error;
+      }
+    } catch (error) {
+      console.error('Error running VIX squeeze backtest:', error);
+      res.status(500).json({ message: 'Failed to run VIX squeeze backtest' });
+    }
+  });
+
   // AI Insights endpoint
   app.get('/api/ai-insights', async (req, res) => {
     try {
@@ -617,6 +779,113 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Exchange calendar: today's session, next session, upcoming holidays/early closes
+  app.get('/api/market-calendar', async (req, res) => {
+    try {
+      const now = new Date();
+      const today = marketCalendar.getTradingDayInfo(now);
+      const toSessionInfo = (session: MarketSession): MarketSessionInfo => ({
+        date: session.date,
+        open: session.open.toISOString(),
+        close: session.close.toISOString(),
+        isEarlyClose: session.isEarlyClose,
+        holidayName: session.holidayName
+      });
+      
+      const currentSession = marketCalendar.getCurrentSession(now);
+      const response: MarketCalendarData = {
+        date: today.date,
+        isOpen: currentSession !== null,
+        isTradingDay: today.isTradingDay,
+        isHoliday: today.isHoliday,
+        isEarlyClose: today.isEarlyClose,
+        holidayName: today.holidayName,
+        currentSession: currentSession ? toSessionInfo(currentSession) : null,
+        nextSession: toSessionInfo(marketCalendar.getNextSession(now)),
+        upcomingHolidays: marketCalendar.getUpcomingHolidays(now, 5)
+      };
+      
+      if (req.query.year) {
+        const year = parseInt(req.query.year as string, 10);
+        if (isNaN(year) || year < 2000 || year > 2100) {
+          return res.status(400).json({ message: 'Invalid year' });
+        }
+        response.holidays = marketCalendar.getHolidays(year);
+      }
+      
+      res.json(response);
+    } catch (error) {
+      console.error('Error fetching market calendar:', error);
+      res.status(500).json({ message: 'Failed to fetch market calendar' });
+    }
+  });
+
+  // Market regime as of the last session close (SPX trend, VIX level/term structure, breadth)
+  app.get('/api/market-regime', async (req, res) => {
+    try {
+      const { marketRegimeService } = await import('./services/marketRegimeService');
+      const { EliteStrategyEngine } = await import('./services/eliteStrategyEngine');
+      const snapshot = await marketRegimeService.getCurrentRegime();
+      res.json({ ...snapshot, parameters: EliteStrategyEngine.getInstance().getParameterScope() });
+    } catch (error: any) {
+      console.error('Error classifying market regime:', error);
+      res.status(500).json({ message: 'Failed to classify market regime' });
+    }
+  });
+
+  // Regime per session close in a date range
+  app.get('/api/market-regime/history', async (req, res) => {
+    try {
+      const { marketRegimeService } = await import('./services/marketRegimeService');
+      const to = typeof req.query.to === 'string' ? req.query.to : marketCalendar.toExchangeDate();
+      const from = typeof req.query.from === 'string' ? req.query.from : marketCalendar.toExchangeDate(new Date(Date.now() - 90 * 24 * 60 * 60 * 1000));
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(from) || !/^\d{4}-\d{2}-\d{2}$/.test(to) || from > to) {
+        return res.status(400).json({ message: 'from/to must be YYYY-MM-DD dates with from <= to' });
+      }
+      res.json(await marketRegimeService.getRegimeHistory(from, to));
+    } catch (error: any) {
+      console.error('Error fetching market regime history:', error);
+      res.status(500).json({ message: 'Failed to fetch market regime history' });
+    }
+  });
+
+  // Stamp tracked recommendations recorded before the classifier with their entry regime
+  app.post('/api/market-regime/backfill', async (req, res) => {
+    try {
+      const { marketRegimeService } = await import('./services/marketRegimeService');
+      res.json(await marketRegimeService.backfillRecommendations());
+    } catch (error: any) {
+      console.error('Error backfilling market regimes:', error);
+      res.status(500).json({ message: 'Failed to backfill market regimes' });
+    }
+  });
+
+  // Performance metrics of the active strategy version overall and per regime (recomputed and stored)
+  app.get('/api/market-regime/performance', async (req, res) => {
+    try {
+      const { learningAnalyticsService } = await import('./services/learningAnalyticsService');
+      const { MARKET_REGIMES } = await import('./services/marketRegimeService');
+      const { RecommendationTracker } = await import('./services/recommendationTracker');
+      
+      const timeframe = typeof req.query.timeframe === 'string' ? req.query.timeframe : '30d';
+      if (!['7d', '30d', '90d', 'all_time'].includes(timeframe)) {
+        return res.status(400).json({ message: 'timeframe must be 7d, 30d, 90d or all_time' });
+      }
+      const strategyVersion = typeof req.query.strategyVersion === 'string'
+        ? req.query.strategyVersion
+        : (await RecommendationTracker.getActiveParameters())?.version || 'v1.0.0';
+      
+      const metrics = [];
+      for (const regime of ['all', ...MARKET_REGIMES]) {
+        metrics.push(await learningAnalyticsService.refreshMetrics(strategyVersion, regime, timeframe));
+      }
+      res.json(metrics);
+    } catch (error: any) {
+      console.error('Error fetching regime performance:', error);
+      res.status(500).json({ message: 'Failed to fetch regime performance' });
+    }
+  });
+
   // Time synchronization status endpoint
   app.get('/api/time/status', async (req, res) => {
     try {
@@ -699,6 +968,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Generate new recommendations using Elite Scanner
       const { eliteScanner } = await import('./services/eliteScanner');
+      const { executionCostModel } = await import('./services/executionCostModel');
       const scanResponse = await eliteScanner.scan();
       const scanResults = scanResponse.results; // Destructure results array from response object
       console.log(`🔍 Elite Scanner found ${scanResults.length} opportunities (${scanResults.filter(r => r.isWatchlist).length} watchlist)`);
@@ -746,6 +1016,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const profit = totalExitValue - totalCost;
         const projectedROI = (profit / totalCost) * 100;
         const projectedROIAmount = totalExitValue;
+        const { netROI: netProjectedROI, totalCosts: executionCost } = executionCostModel.calculateRoundTrip({
+          ticker: result.symbol,
+          contracts,
+          entryPremium: premium,
+          exitPremium: exitPrice
+        });
         
         return {
           ticker: result.symbol,
@@ -762,6 +1038,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           contracts,
           projectedROI,
           projectedROIAmount,
+          netProjectedROI,
+          executionCost,
           aiConfidence: result.signalQuality,
           greeks: {
             delta: result.delta,
@@ -844,6 +1122,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
               totalCost: rec.totalCost,
               contracts: rec.contracts,
               projectedROI: rec.projectedROI,
+              netProjectedROI: rec.netProjectedROI ?? null,
+              executionCost: rec.executionCost ?? null,
               aiConfidence: rec.aiConfidence,
               greeks: rec.greeks,
               sentiment: rec.sentiment,
@@ -967,6 +1247,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
+      const { executionCostModel } = await import('./services/executionCostModel');
       let updated = 0;
       let errors = 0;
       
@@ -991,6 +1272,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
           // Calculate projected ROI percentage
           const profit = projectedROIAmount - trade.totalCost;
           const projectedROI = (profit / trade.totalCost) * 100;
+          const { netROI: netProjectedROI, totalCosts: executionCost } = executionCostModel.calculateRoundTrip({
+            ticker: trade.ticker,
+            contracts: trade.contracts,
+            entryPremium: trade.premium ?? trade.entryPrice,
+            exitPremium: exitPrice
+          });
           
           // Update the trade in the database
           await db
@@ -998,7 +1285,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
             .set({ 
               exitPrice,
               projectedROI,
-              projectedROIAmount
+              projectedROIAmount,
+              netProjectedROI,
+              executionCost
             })
             .where(eq(optionsTrade.id, trade.id));
           
@@ -1050,6 +1339,97 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Preview a broker order for a recommendation: dry run for buying power effect, fees and warnings
+  app.post('/api/orders/preview', async (req, res) => {
+    try {
+      const { brokerOrderService, BrokerOrderError } = await import('./services/brokerOrderService');
+      const { tradeId, contracts, limitPrice } = req.body || {};
+      if (!tradeId) {
+        return res.status(400).json({ message: 'tradeId is required' });
+      }
+
+      try {
+        const preview = await brokerOrderService.preview({ tradeId, contracts, limitPrice });
+        res.status(201).json(preview);
+      } catch (error: any) {
+        if (error instanceof BrokerOrderError) {
+          return res.status(error.statusCode).json({ message: error.message });
+        }
+        throw error;
+      }
+    } catch (error: any) {
+      console.error('Error previewing order:', error);
+      res.status(500).json({ message: 'Failed to preview order' });
+    }
+  });
+
+  // Submit a previewed order; fills are picked up by polling
+  app.post('/api/orders/:id/submit', async (req, res) => {
+    try {
+      const { brokerOrderService, BrokerOrderError } = await import('./services/brokerOrderService');
+
+      try {
+        res.status(202).json(await brokerOrderService.submit(req.params.id));
+      } catch (error: any) {
+        if (error instanceof BrokerOrderError) {
+          return res.status(error.statusCode).json({ message: error.message });
+        }
+        throw error;
+      }
+    } catch (error: any) {
+      console.error('Error submitting order:', error);
+      res.status(500).json({ message: 'Failed to submit order' });
+    }
+  });
+
+  app.post('/api/orders/:id/cancel', async (req, res) => {
+    try {
+      const { brokerOrderService, BrokerOrderError } = await import('./services/brokerOrderService');
+
+      try {
+        res.json(await brokerOrderService.cancel(req.params.id));
+      } catch (error: any) {
+        if (error instanceof BrokerOrderError) {
+          return res.status(error.statusCode).json({ message: error.message });
+        }
+        throw error;
+      }
+    } catch (error: any) {
+      console.error('Error cancelling order:', error);
+      res.status(500).json({ message: 'Failed to cancel order' });
+    }
+  });
+
+  app.get('/api/orders', async (req, res) => {
+    try {
+      const { brokerOrderService } = await import('./services/brokerOrderService');
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      res.json(await brokerOrderService.listOrders(limit));
+    } catch (error: any) {
+      console.error('Error fetching orders:', error);
+      res.status(500).json({ message: 'Failed to fetch orders' });
+    }
+  });
+
+  // Order status (refreshed from the broker while the order is working)
+  app.get('/api/orders/:id', async (req, res) => {
+    try {
+      const { brokerOrderService, BrokerOrderError } = await import('./services/brokerOrderService');
+
+      try {
+        res.json(await brokerOrderService.refresh(req.params.id));
+      } catch (error: any) {
+        if (error instanceof BrokerOrderError) {
+          return res.status(error.statusCode).json({ message: error.message });
+        }
+        throw error;
+      }
+    } catch (error: any) {
+      console.error('Error fetching order:', error);
+      res.status(500).json({ message: 'Failed to fetch order' });
+    }
+  });
+
   // Portfolio summary endpoint
   app.get('/api/portfolio-summary', async (req, res) => {
     try {
@@ -1075,10 +1455,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Trade statistics from trade history; returns, Sharpe, drawdown and monthly returns from Tastytrade equity snapshots
   app.get('/api/performance-metrics', async (req, res) => {
     try {
-      const metrics = await storage.getPerformanceMetrics();
-      res.json(metrics);
+      const { accountPerformanceService } = await import('./services/accountPerformanceService');
+      const [metrics, performance] = await Promise.all([
+        storage.getPerformanceMetrics(),
+        accountPerformanceService.getPerformance('tastytrade').catch(error => {
+          console.warn('⚠️ Account performance unavailable:', error.message);
+          return null;
+        }),
+      ]);
+      res.json(performance && performance.series.length > 1
+        ? { ...metrics, ...accountPerformanceService.toPerformanceMetrics(performance) }
+        : metrics);
     } catch (error) {
       console.error('Error fetching performance metrics:', error);
       res.status(500).json({ message: 'Failed to fetch performance metrics' });
@@ -1157,7 +1547,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   app.post('/api/price-alerts', async (req, res) => {
     try {
-      const alert = await storage.createPriceAlert(req.body);
+      const parsed = insertPriceAlertSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid price alert', errors: parsed.error.errors });
+      }
+      
+      const alertData = { ...parsed.data, ticker: parsed.data.ticker.toUpperCase() };
+      if (!PRICE_ALERT_TYPES.includes(alertData.alertType as PriceAlertType)) {
+        return res.status(400).json({ message: `alertType must be one of: ${PRICE_ALERT_TYPES.join(', ')}` });
+      }
+      
+      // Option alerts are keyed by OCC contract symbol (required for premium, optional for IV)
+      if ((alertData.alertType === 'premium_above' || alertData.alertType === 'premium_below') && !alertData.optionSymbol) {
+        return res.status(400).json({ message: 'optionSymbol is required for premium alerts' });
+      }
+      if (alertData.optionSymbol) {
+        alertData.optionSymbol = normalizeOptionSymbol(alertData.optionSymbol);
+      }
+      
+      // Percent-move alerts measure from the price at creation time
+      if (alertData.alertType === 'percent_move' && !alertData.referencePrice) {
+        const quote = polygonService.getQuote(alertData.ticker) || tastytradeService.getCachedQuote(alertData.ticker);
+        alertData.referencePrice = quote?.lastPrice || null;
+      }
+      
+      const alert = await storage.createPriceAlert(alertData);
       res.status(201).json(alert);
     } catch (error) {
       console.error('Error creating price alert:', error);
@@ -1165,6 +1579,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Trigger history for all alerts, or one alert via ?alertId=
+  app.get('/api/price-alerts/triggers', async (req, res) => {
+    try {
+      const alertId = req.query.alertId as string | undefined;
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+      const triggers = await storage.getAlertTriggers(alertId, limit);
+      res.json(triggers);
+    } catch (error) {
+      console.error('Error fetching alert triggers:', error);
+      res.status(500).json({ message: 'Failed to fetch alert triggers' });
+    }
+  });
+  
+  // Server-Sent Events endpoint for triggered alert notifications
+  app.get('/api/alerts/stream', (req, res) => {
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+    
+    const handlerId = `sse-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    priceAlertEngine.registerHandler(handlerId, (notification) => {
+      res.write(`data: ${JSON.stringify(notification)}\n\n`);
+    });
+    
+    // Comment heartbeat keeps proxies from closing an idle stream
+    const heartbeat = setInterval(() => {
+      res.write(': heartbeat\n\n');
+    }, 30000);
+    
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      priceAlertEngine.unregisterHandler(handlerId);
+    });
+  });
+  
   app.patch('/api/price-alerts/:id', async (req, res) => {
     try {
       const { id } = req.params;
@@ -1197,23 +1648,61 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Sector performance endpoint
+  // Sector/industry performance from the bulk snapshot joined with SIC classifications.
+  // Returns SectorPerformance[] (a superset of SectorData); ?detail=true returns the full snapshot.
   app.get('/api/sector-performance', async (req, res) => {
     try {
-      const sectors = [
-        { name: 'Tech', change: 2.1 },
-        { name: 'Energy', change: -0.8 },
-        { name: 'Finance', change: 0.4 },
-        { name: 'Health', change: 1.2 },
-        { name: 'Retail', change: -0.3 },
-        { name: 'AI/ML', change: 3.4 }
-      ];
-      res.json(sectors);
+      const { sectorPerformanceService } = await import('./services/sectorPerformanceService');
+      const snapshot = await sectorPerformanceService.getSectorPerformance();
+      res.json(req.query.detail === 'true' ? snapshot : snapshot.sectors);
     } catch (error) {
       console.error('Error fetching sector performance:', error);
       res.status(500).json({ message: 'Failed to fetch sector performance' });
     }
   });
 
+  app.get('/api/sector-performance/config', async (req, res) => {
+    try {
+      const { sectorPerformanceService } = await import('./services/sectorPerformanceService');
+      res.json(sectorPerformanceService.getSettings());
+    } catch (error: any) {
+      console.error('Error fetching sector rotation settings:', error);
+      res.status(500).json({ message: 'Failed to fetch sector rotation settings' });
+    }
+  });
+
+  app.put('/api/sector-performance/config', async (req, res) => {
+    try {
+      const { sectorPerformanceService, SectorPerformanceError } = await import('./services/sectorPerformanceService');
+      try {
+        const settings = await sectorPerformanceService.updateSettings(req.body);
+        res.json(settings);
+      } catch (error) {
+        if (error instanceof SectorPerformanceError) {
+          return res.status(error.statusCode).json({ message: error.message });
+        }
+        throw error;
+      }
+    } catch (error: any) {
+      console.error('Error updating sector rotation settings:', error);
+      res.status(500).json({ message: 'Failed to update sector rotation settings' });
+    }
+  });
+
+  app.get('/api/sector-performance/classification/:symbol', async (req, res) => {
+    try {
+      const { sectorPerformanceService } = await import('./services/sectorPerformanceService');
+      const classification = sectorPerformanceService.getClassification(req.params.symbol);
+      if (!classification) {
+        return res.status(404).json({ message: `${req.params.symbol.toUpperCase()} has not been classified yet` });
+      }
+      res.json(classification);
+    } catch (error: any) {
+      console.error('Error fetching ticker classification:', error);
+      res.status(500).json({ message: 'Failed to fetch ticker classification' });
+    }
+  });
+
   // Stock data endpoint
   app.get('/api/stock/:symbol', async (req, res) => {
     try {
@@ -1311,308 +1800,678 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Portfolio Management Routes
   // =========================
 
-  // Create new portfolio position
+  // Create a manual portfolio position (held at a broker we don't integrate with)
   app.post('/api/portfolio/positions', async (req, res) => {
     try {
-      const validated = insertPortfolioPositionSchema.parse(req.body);
-      const position = await storage.createPosition(validated);
-      res.json(position);
+      const { manualPositionService, ManualPositionError } = await import('./services/manualPositionService');
+      const { notes, ...position } = req.body;
+      const validated = insertPortfolioPositionSchema.parse(position);
+      try {
+        const created = await manualPositionService.create(validated, notes);
+        res.status(201).json(created);
+      } catch (error: any) {
+        if (error instanceof ManualPositionError) {
+          return res.status(error.statusCode).json({ message: error.message });
+        }
+        throw error;
+      }
     } catch (error: any) {
       console.error('Error creating position:', error);
       res.status(400).json({ message: error.message || 'Failed to create position' });
     }
   });
 
-  // Get all open portfolio positions from Tastytrade and Robinhood accounts
+  // Get all open portfolio positions from Tastytrade and Robinhood accounts (?account=paper for the paper account)
   app.get('/api/portfolio/positions', async (req, res) => {
     try {
-      // Fetch positions from both brokers in parallel
-      const [tastytradePositions, robinhoodPositions] = await Promise.all([
-        tastytradeService.fetchPositions().catch(err => {
-          console.error('Tastytrade positions error:', err.message);
-          return [];
-        }),
-        robinhoodService.getAllPositions().catch(err => {
-          console.error('Robinhood positions error:', err.message);
-          return [];
-        })
-      ]);
-
-      // Merge all positions
-      const allPositions = [...tastytradePositions, ...robinhoodPositions];
-      
-      // Update each position with live market prices
-      const updatedPositions = await Promise.all(allPositions.map(async (position) => {
-        let livePrice = position.currentPrice;
-        
-        // For options, try to get live options quote from Tastytrade
-        if (position.positionType === 'options' && position.metadata) {
-          const { strike, expiryDate, optionType } = position.metadata;
-          if (strike && expiryDate && optionType) {
-            const optionQuote = await tastytradeService.getOptionQuote(
-              position.ticker,
-              strike,
-              expiryDate,
-              optionType
-            );
-            if (optionQuote && optionQuote.premium > 0) {
-              livePrice = optionQuote.premium;
-            }
-          }
-        } else {
-          // For stocks, try Polygon first, then Tastytrade
-          const polygonQuote = await polygonService.getCachedQuote(position.ticker);
-          if (polygonQuote && polygonQuote.lastPrice > 0) {
-            livePrice = polygonQuote.lastPrice;
-          } else {
-            const tastyQuote = await tastytradeService.getCachedQuote(position.ticker);
-            if (tastyQuote && tastyQuote.lastPrice > 0) {
-              livePrice = tastyQuote.lastPrice;
-            }
-          }
-        }
-        
-        // Calculate fresh P/L with live price
-        const multiplier = position.positionType === 'options' ? 100 : 1;
-        const unrealizedPnL = (livePrice - position.avgCost) * position.quantity * multiplier;
-        
-        return {
-          ...position,
-          currentPrice: livePrice,
-          unrealizedPnL
-        };
-      }));
-      
-      res.json(updatedPositions);
+      res.json(await fetchAccountPositions(req.query.account));
     } catch (error: any) {
       console.error('Error fetching positions:', error);
       res.status(500).json({ message: 'Failed to fetch positions' });
     }
   });
 
-  // Update portfolio position
+  // Open positions grouped into multi-leg strategies (spreads, straddles, condors, covered calls)
+  app.get('/api/portfolio/strategies', async (req, res) => {
+    try {
+      const { multiLegPositionService } = await import('./services/multiLegPositionService');
+      const positions = await fetchAccountPositions(req.query.account);
+
+      const tickers = Array.from(new Set<string>(positions.map(p => p.ticker)));
+      const underlyingPrices = new Map<string, number>();
+      await Promise.all(tickers.map(async (ticker) => {
+        const price = await getLiveStockPrice(ticker);
+        if (price !== null) underlyingPrices.set(ticker, price);
+      }));
+
+      res.json(multiLegPositionService.groupPositions(positions, underlyingPrices));
+    } catch (error: any) {
+      console.error('Error grouping positions:', error);
+      res.status(500).json({ message: 'Failed to fetch position strategies' });
+    }
+  });
+
+  // Edit a manual position (size changes are recorded as trades with realized P/L)
   app.patch('/api/portfolio/positions/:id', async (req, res) => {
     try {
-      const { id } = req.params;
-      const updates = req.body;
-      
-      const updated = await storage.updatePosition(id, updates);
-      
-      if (!updated) {
-        return res.status(404).json({ message: 'Position not found' });
+      const { manualPositionService, ManualPositionError } = await import('./services/manualPositionService');
+      const { quantity, price, avgCost, fees, metadata, notes } = req.body;
+      try {
+        const updated = await manualPositionService.update(req.params.id, { quantity, price, avgCost, fees, metadata, notes });
+        res.json(updated);
+      } catch (error: any) {
+        if (error instanceof ManualPositionError) {
+          return res.status(error.statusCode).json({ message: error.message });
+        }
+        throw error;
       }
-      
-      res.json(updated);
     } catch (error: any) {
       console.error('Error updating position:', error);
-      res.status(400).json({ message: error.message || 'Failed to update position' });
+      res.status(500).json({ message: 'Failed to update position' });
     }
   });
 
-  // Close portfolio position
-  app.delete('/api/portfolio/positions/:id', async (req, res) => {
+  // Close a manual position at exitPrice (defaults to the live price) and book realized P/L
+  app.post('/api/portfolio/positions/:id/close', async (req, res) => {
     try {
-      const { id } = req.params;
-      const success = await storage.closePosition(id);
-      
-      if (!success) {
-        return res.status(404).json({ message: 'Position not found' });
+      const { manualPositionService, ManualPositionError } = await import('./services/manualPositionService');
+      const { fees, notes } = req.body || {};
+      let exitPrice: number | undefined = req.body?.exitPrice;
+
+      if (exitPrice === undefined) {
+        const position = (await manualPositionService.getOpenPositions()).find(p => p.id === req.params.id);
+        exitPrice = position ? (await repriceLivePosition(position)).currentPrice : undefined;
+      }
+
+      try {
+        const closed = await manualPositionService.close(req.params.id, { exitPrice: exitPrice!, fees, notes });
+        res.json({ success: true, position: closed, message: 'Position closed successfully' });
+      } catch (error: any) {
+        if (error instanceof ManualPositionError) {
+          return res.status(error.statusCode).json({ message: error.message });
+        }
+        throw error;
       }
-      
-      res.json({ success: true, message: 'Position closed successfully' });
     } catch (error: any) {
       console.error('Error closing position:', error);
       res.status(500).json({ message: 'Failed to close position' });
     }
   });
 
-  // Get account balance
-  app.get('/api/portfolio/balance', async (req, res) => {
+  // Close portfolio position (kept for older clients; same as POST .../close at the live price)
+  app.delete('/api/portfolio/positions/:id', async (req, res) => {
     try {
-      const balance = await tastytradeService.fetchAccountBalance();
-      res.json(balance);
+      const { manualPositionService, ManualPositionError } = await import('./services/manualPositionService');
+      const position = (await manualPositionService.getOpenPositions()).find(p => p.id === req.params.id);
+      const live = position ? await repriceLivePosition(position) : null;
+
+      try {
+        const closed = await manualPositionService.close(req.params.id, { exitPrice: live?.currentPrice });
+        res.json({ success: true, position: closed, message: 'Position closed successfully' });
+      } catch (error: any) {
+        if (error instanceof ManualPositionError) {
+          return res.status(error.statusCode).json({ message: error.message });
+        }
+        throw error;
+      }
     } catch (error: any) {
-      console.error('Error fetching account balance:', error);
-      res.status(500).json({ message: 'Failed to fetch balance' });
+      console.error('Error closing position:', error);
+      res.status(500).json({ message: 'Failed to close position' });
     }
   });
 
-  // Get lifetime realized P/L (with baseline adjustment)
-  app.get('/api/portfolio/pnl-lifetime', async (req, res) => {
+  // Exit automation state: kill switch, default levels and every enrolled position
+  app.get('/api/exit-automation', async (req, res) => {
     try {
-      const lifetimePnL = await tastytradeService.fetchLifetimeRealizedPnL();
-      
-      // Get baseline adjustment from config
-      const baselineConfig = await db.select()
-        .from(appConfig)
-        .where(eq(appConfig.key, 'pnl_baseline_adjustment'))
-        .limit(1);
-      
-      const baseline = baselineConfig.length > 0 ? parseFloat(baselineConfig[0].value) : 0;
-      const adjustedPnL = lifetimePnL + baseline;
-      
-      res.json({ 
-        lifetimeRealized: adjustedPnL,
-        calculatedPnL: lifetimePnL,
-        baselineAdjustment: baseline
-      });
+      const { exitAutomationService } = await import('./services/exitAutomationService');
+      res.json(await exitAutomationService.getState());
     } catch (error: any) {
-      console.error('Error fetching lifetime P/L:', error);
-      res.status(500).json({ message: 'Failed to fetch lifetime P/L' });
+      console.error('Error fetching exit automation:', error);
+      res.status(500).json({ message: 'Failed to fetch exit automation' });
     }
   });
 
-  // Get today's P/L (realized + unrealized)
-  app.get('/api/portfolio/pnl-day', async (req, res) => {
+  // Action log (optionally for one automation)
+  app.get('/api/exit-automation/actions', async (req, res) => {
     try {
-      const pnl = await tastytradeService.fetchTodayPnL();
-      res.json(pnl);
+      const { exitAutomationService } = await import('./services/exitAutomationService');
+      const automationId = typeof req.query.automationId === 'string' ? req.query.automationId : undefined;
+      const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+      res.json(await exitAutomationService.getActions(automationId, limit));
     } catch (error: any) {
-      console.error('Error fetching today P/L:', error);
-      res.status(500).json({ message: 'Failed to fetch P/L' });
+      console.error('Error fetching exit automation actions:', error);
+      res.status(500).json({ message: 'Failed to fetch exit automation actions' });
     }
   });
 
-  // Admin endpoint: Update P/L baseline adjustment
-  app.post('/api/admin/pnl-baseline', async (req, res) => {
+  // Opt a live portfolio position in to automated exits ({ positionId, mode, overrides, actor })
+  app.post('/api/exit-automation', async (req, res) => {
     try {
-      const { adjustment, description } = req.body;
-      
-      if (typeof adjustment !== 'number') {
-        return res.status(400).json({ message: 'Adjustment must be a number' });
+      const { exitAutomationService, ExitAutomationError } = await import('./services/exitAutomationService');
+      const { positionId, mode, overrides, actor } = req.body || {};
+      const position = (await fetchLivePortfolioPositions()).find(p => p.id === positionId);
+      if (!position) {
+        return res.status(404).json({ message: 'Position not found' });
+      }
+
+      try {
+        res.status(201).json(await exitAutomationService.enable(position, { mode, overrides, actor }));
+      } catch (error: any) {
+        if (error instanceof ExitAutomationError) {
+          return res.status(error.statusCode).json({ message: error.message });
+        }
+        throw error;
       }
-      
-      // Upsert the baseline adjustment
-      await db.insert(appConfig)
-        .values({
-          key: 'pnl_baseline_adjustment',
-          value: adjustment.toString(),
-          description: description || `Manual P/L baseline adjustment set to $${adjustment.toFixed(2)}`,
-          updatedAt: new Date()
-        })
-        .onConflictDoUpdate({
-          target: appConfig.key,
-          set: {
-            value: adjustment.toString(),
-            description: description || `Manual P/L baseline adjustment set to $${adjustment.toFixed(2)}`,
-            updatedAt: new Date()
-          }
-        });
-      
-      console.log(`📊 P/L baseline adjustment updated to $${adjustment.toFixed(2)}`);
-      res.json({ 
-        success: true, 
-        adjustment,
-        message: `Baseline adjustment set to $${adjustment.toFixed(2)}` 
-      });
     } catch (error: any) {
-      console.error('Error updating P/L baseline:', error);
-      res.status(500).json({ message: 'Failed to update baseline adjustment' });
+      console.error('Error enabling exit automation:', error);
+      res.status(500).json({ message: 'Failed to enable exit automation' });
     }
   });
 
-  // Admin endpoint: Manually trigger EOD cache
-  app.post('/api/admin/cache-eod', async (req, res) => {
+  // Halt or resume all automated exits ({ enabled, actor, reason })
+  app.put('/api/exit-automation/kill-switch', async (req, res) => {
     try {
-      console.log('🔧 Manual EOD cache triggered via API');
-      await eodCacheService.manualCache();
-      
-      const stats = eodCacheService.getCacheStats();
-      res.json({ 
-        success: true, 
-        cached: stats.size,
-        date: stats.date,
-        isValid: stats.isValid,
-        message: `EOD cache populated with ${stats.size} stocks` 
-      });
+      const { exitAutomationService } = await import('./services/exitAutomationService');
+      const { enabled, actor, reason } = req.body || {};
+      if (typeof enabled !== 'boolean') {
+        return res.status(400).json({ message: 'enabled must be a boolean' });
+      }
+      res.json({ killSwitch: await exitAutomationService.setKillSwitch(enabled, actor, reason) });
     } catch (error: any) {
-      console.error('Error caching EOD data:', error);
-      res.status(500).json({ message: 'Failed to cache EOD data' });
+      console.error('Error updating exit automation kill switch:', error);
+      res.status(500).json({ message: 'Failed to update kill switch' });
     }
   });
 
-  // Get full portfolio analysis with exit recommendations (legacy endpoint)
-  app.get('/api/portfolio/analysis', async (req, res) => {
+  // Per-position level overrides ({ stopLoss, profitTarget, partialProfitLevel, partialProfitPercent, actor })
+  app.patch('/api/exit-automation/:id', async (req, res) => {
     try {
-      // Get real positions from Tastytrade
-      const openPositions = await tastytradeService.fetchPositions();
-      
-      // Get current prices - use position.currentPrice from Tastytrade for options
-      const currentPrices = new Map<string, number>();
-      
-      for (const position of openPositions) {
-        // For options, Tastytrade already provides the correct option premium as currentPrice
-        if (position.positionType === 'options' && position.currentPrice > 0) {
-          currentPrices.set(position.ticker, position.currentPrice);
-          continue;
+      const { exitAutomationService, ExitAutomationError } = await import('./services/exitAutomationService');
+      const { actor, stopLoss, profitTarget, partialProfitLevel, partialProfitPercent } = req.body || {};
+
+      try {
+        res.json(await exitAutomationService.updateOverrides(
+          req.params.id,
+          { stopLoss, profitTarget, partialProfitLevel, partialProfitPercent },
+          actor
+        ));
+      } catch (error: any) {
+        if (error instanceof ExitAutomationError) {
+          return res.status(error.statusCode).json({ message: error.message });
         }
-        
-        // For stocks, get live stock quote
-        const polygonQuote = await polygonService.getCachedQuote(position.ticker);
-        if (polygonQuote && polygonQuote.lastPrice > 0) {
-          currentPrices.set(position.ticker, polygonQuote.lastPrice);
-          continue;
+        throw error;
+      }
+    } catch (error: any) {
+      console.error('Error updating exit automation:', error);
+      res.status(500).json({ message: 'Failed to update exit automation' });
+    }
+  });
+
+  app.post('/api/exit-automation/:id/disable', async (req, res) => {
+    try {
+      const { exitAutomationService, ExitAutomationError } = await import('./services/exitAutomationService');
+      const { actor, reason } = req.body || {};
+
+      try {
+        res.json(await exitAutomationService.disable(req.params.id, actor, reason));
+      } catch (error: any) {
+        if (error instanceof ExitAutomationError) {
+          return res.status(error.statusCode).json({ message: error.message });
         }
-        
-        // Fallback to Tastytrade
-        const tastyQuote = await tastytradeService.getCachedQuote(position.ticker);
-        if (tastyQuote && tastyQuote.lastPrice > 0) {
-          currentPrices.set(position.ticker, tastyQuote.lastPrice);
-          continue;
+        throw error;
+      }
+    } catch (error: any) {
+      console.error('Error disabling exit automation:', error);
+      res.status(500).json({ message: 'Failed to disable exit automation' });
+    }
+  });
+
+  // Paper trading account: balance, recommendation fills at the live ask, closes at the bid
+  app.get('/api/paper/account', async (req, res) => {
+    try {
+      const { paperBrokerService } = await import('./services/paperBrokerService');
+      const [account, balance] = await Promise.all([
+        paperBrokerService.getAccount(),
+        paperBrokerService.fetchAccountBalance(),
+      ]);
+      res.json({ ...account, balance });
+    } catch (error: any) {
+      console.error('Error fetching paper account:', error);
+      res.status(500).json({ message: 'Failed to fetch paper account' });
+    }
+  });
+
+  app.post('/api/paper/orders', async (req, res) => {
+    try {
+      const { paperBrokerService, PaperBrokerError } = await import('./services/paperBrokerService');
+      const { tradeId, contracts } = req.body || {};
+      if (!tradeId || typeof tradeId !== 'string') {
+        return res.status(400).json({ message: 'tradeId is required' });
+      }
+
+      try {
+        res.status(201).json(await paperBrokerService.executeRecommendation(tradeId, contracts));
+      } catch (error: any) {
+        if (error instanceof PaperBrokerError) {
+          return res.status(error.statusCode).json({ message: error.message });
         }
-        
-        // Final fallback to entry price
-        currentPrices.set(position.ticker, position.avgCost);
+        throw error;
       }
-      
-      // Get current trade recommendations for opportunity comparison
-      const topTrades = await storage.getTopTrades();
-      const opportunities = topTrades.map(trade => ({
-        ticker: trade.ticker,
-        optionType: (trade.optionType || 'call') as 'call' | 'put',
-        currentPrice: trade.currentPrice,
-        strikePrice: trade.strikePrice,
-        expiry: trade.expiry,
-        stockEntryPrice: trade.stockEntryPrice || trade.currentPrice,
-        stockExitPrice: trade.stockExitPrice ?? undefined,
-        premium: trade.premium || trade.entryPrice,
-        entryPrice: trade.entryPrice,
-        exitPrice: trade.exitPrice || 0,
-        totalCost: trade.totalCost || (trade.contracts * (trade.premium || trade.entryPrice) * 100),
-        contracts: trade.contracts,
-        projectedROI: trade.projectedROI,
-        aiConfidence: trade.aiConfidence,
-        greeks: trade.greeks as any,
-        sentiment: trade.sentiment || 0,
-        score: trade.score,
-        holdDays: trade.holdDays || 0,
-        fibonacciLevel: trade.fibonacciLevel ?? undefined,
-        fibonacciColor: (trade.fibonacciColor ?? undefined) as 'gold' | 'green' | undefined,
-        estimatedProfit: trade.estimatedProfit ?? undefined
-      }));
-      
-      // Perform portfolio analysis
-      const analysis = exitAnalysisService.analyzePortfolio(
-        openPositions,
-        currentPrices,
-        opportunities
-      );
-      
-      res.json(analysis);
     } catch (error: any) {
-      console.error('Error performing portfolio analysis:', error);
-      res.status(500).json({ message: 'Failed to analyze portfolio' });
+      console.error('Error placing paper order:', error);
+      res.status(500).json({ message: 'Failed to place paper order' });
     }
   });
 
-  // Get AI-powered portfolio analysis (Hybrid: Internal AI + Grok enhancement)
-  app.get('/api/portfolio/ai-analysis', async (req, res) => {
+  app.post('/api/paper/positions/:id/close', async (req, res) => {
     try {
-      console.log('🤖 AI Portfolio Analysis requested...');
-      
-      // Get real positions from Tastytrade
-      const openPositions = await tastytradeService.fetchPositions();
-      console.log(`📊 Fetched ${openPositions.length} positions from Tastytrade`);
+      const { paperBrokerService, PaperBrokerError } = await import('./services/paperBrokerService');
+      const { quantity } = req.body || {};
+
+      try {
+        res.json(await paperBrokerService.closePosition(req.params.id, quantity));
+      } catch (error: any) {
+        if (error instanceof PaperBrokerError) {
+          return res.status(error.statusCode).json({ message: error.message });
+        }
+        throw error;
+      }
+    } catch (error: any) {
+      console.error('Error closing paper position:', error);
+      res.status(500).json({ message: 'Failed to close paper position' });
+    }
+  });
+
+  // Daily closing equity of the paper account
+  app.get('/api/paper/equity', async (req, res) => {
+    try {
+      const { paperBrokerService } = await import('./services/paperBrokerService');
+      res.json(await paperBrokerService.getEquityHistory());
+    } catch (error: any) {
+      console.error('Error fetching paper equity history:', error);
+      res.status(500).json({ message: 'Failed to fetch paper equity history' });
+    }
+  });
+
+  app.post('/api/paper/reset', async (req, res) => {
+    try {
+      const { paperBrokerService, PaperBrokerError } = await import('./services/paperBrokerService');
+      const { startingCash } = req.body || {};
+
+      try {
+        res.json(await paperBrokerService.reset(startingCash));
+      } catch (error: any) {
+        if (error instanceof PaperBrokerError) {
+          return res.status(error.statusCode).json({ message: error.message });
+        }
+        throw error;
+      }
+    } catch (error: any) {
+      console.error('Error resetting paper account:', error);
+      res.status(500).json({ message: 'Failed to reset paper account' });
+    }
+  });
+
+  // Account growth goals with progress measured on net liquidating value history
+  app.get('/api/goals', async (req, res) => {
+    try {
+      const { accountGoalService, GOAL_ACCOUNTS } = await import('./services/accountGoalService');
+      const account = req.query.account as GoalAccount | undefined;
+      if (account && !GOAL_ACCOUNTS.includes(account)) {
+        return res.status(400).json({ message: `account must be one of: ${GOAL_ACCOUNTS.join(', ')}` });
+      }
+      res.json(await accountGoalService.listProgress(account));
+    } catch (error: any) {
+      console.error('Error fetching account goals:', error);
+      res.status(500).json({ message: 'Failed to fetch account goals' });
+    }
+  });
+
+  app.post('/api/goals', async (req, res) => {
+    try {
+      const { accountGoalService, AccountGoalError } = await import('./services/accountGoalService');
+      const parsed = insertAccountGoalSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid goal', errors: parsed.error.errors });
+      }
+
+      try {
+        const goal = await accountGoalService.create(parsed.data);
+        res.status(201).json(await accountGoalService.getProgress(goal.id));
+      } catch (error: any) {
+        if (error instanceof AccountGoalError) {
+          return res.status(error.statusCode).json({ message: error.message });
+        }
+        throw error;
+      }
+    } catch (error: any) {
+      console.error('Error creating account goal:', error);
+      res.status(500).json({ message: 'Failed to create account goal' });
+    }
+  });
+
+  app.patch('/api/goals/:id', async (req, res) => {
+    try {
+      const { accountGoalService, AccountGoalError } = await import('./services/accountGoalService');
+      const parsed = insertAccountGoalSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid goal', errors: parsed.error.errors });
+      }
+
+      try {
+        const goal = await accountGoalService.update(req.params.id, parsed.data);
+        res.json(await accountGoalService.getProgress(goal.id));
+      } catch (error: any) {
+        if (error instanceof AccountGoalError) {
+          return res.status(error.statusCode).json({ message: error.message });
+        }
+        throw error;
+      }
+    } catch (error: any) {
+      console.error('Error updating account goal:', error);
+      res.status(500).json({ message: 'Failed to update account goal' });
+    }
+  });
+
+  // Archive by default; ?permanent=true removes the goal
+  app.delete('/api/goals/:id', async (req, res) => {
+    try {
+      const { accountGoalService, AccountGoalError } = await import('./services/accountGoalService');
+
+      try {
+        if (req.query.permanent === 'true') {
+          await accountGoalService.delete(req.params.id);
+          return res.status(204).end();
+        }
+        res.json(await accountGoalService.archive(req.params.id));
+      } catch (error: any) {
+        if (error instanceof AccountGoalError) {
+          return res.status(error.statusCode).json({ message: error.message });
+        }
+        throw error;
+      }
+    } catch (error: any) {
+      console.error('Error deleting account goal:', error);
+      res.status(500).json({ message: 'Failed to delete account goal' });
+    }
+  });
+
+  // Daily equity snapshots and time-weighted performance vs SPY per broker account
+  app.get('/api/performance/:account', async (req, res) => {
+    try {
+      const { accountPerformanceService, AccountPerformanceError } = await import('./services/accountPerformanceService');
+      const { startDate, endDate } = req.query as { startDate?: string; endDate?: string };
+
+      try {
+        res.json(await accountPerformanceService.getPerformance(req.params.account as EquityAccount, startDate, endDate));
+      } catch (error: any) {
+        if (error instanceof AccountPerformanceError) {
+          return res.status(error.statusCode).json({ message: error.message });
+        }
+        throw error;
+      }
+    } catch (error: any) {
+      console.error('Error fetching account performance:', error);
+      res.status(500).json({ message: 'Failed to fetch account performance' });
+    }
+  });
+
+  app.get('/api/performance/:account/snapshots', async (req, res) => {
+    try {
+      const { accountPerformanceService, AccountPerformanceError } = await import('./services/accountPerformanceService');
+      const { startDate, endDate } = req.query as { startDate?: string; endDate?: string };
+
+      try {
+        res.json(await accountPerformanceService.getSnapshots(req.params.account as EquityAccount, startDate, endDate));
+      } catch (error: any) {
+        if (error instanceof AccountPerformanceError) {
+          return res.status(error.statusCode).json({ message: error.message });
+        }
+        throw error;
+      }
+    } catch (error: any) {
+      console.error('Error fetching equity snapshots:', error);
+      res.status(500).json({ message: 'Failed to fetch equity snapshots' });
+    }
+  });
+
+  // Record today's snapshot now (normally taken at 4:10 PM ET)
+  app.post('/api/performance/:account/snapshot', async (req, res) => {
+    try {
+      const { accountPerformanceService, AccountPerformanceError } = await import('./services/accountPerformanceService');
+
+      try {
+        const snapshot = await accountPerformanceService.snapshot(req.params.account as EquityAccount);
+        if (!snapshot) {
+          return res.status(503).json({ message: 'Account balance unavailable' });
+        }
+        res.json(snapshot);
+      } catch (error: any) {
+        if (error instanceof AccountPerformanceError) {
+          return res.status(error.statusCode).json({ message: error.message });
+        }
+        throw error;
+      }
+    } catch (error: any) {
+      console.error('Error recording equity snapshot:', error);
+      res.status(500).json({ message: 'Failed to record equity snapshot' });
+    }
+  });
+
+  // Fill history before snapshots began from broker data (body: { startDate })
+  app.post('/api/performance/:account/backfill', async (req, res) => {
+    try {
+      const { accountPerformanceService, AccountPerformanceError } = await import('./services/accountPerformanceService');
+      const { startDate } = req.body || {};
+      if (!startDate || typeof startDate !== 'string') {
+        return res.status(400).json({ message: 'startDate is required' });
+      }
+
+      try {
+        const inserted = await accountPerformanceService.backfill(req.params.account as EquityAccount, startDate);
+        res.json({ inserted });
+      } catch (error: any) {
+        if (error instanceof AccountPerformanceError) {
+          return res.status(error.statusCode).json({ message: error.message });
+        }
+        throw error;
+      }
+    } catch (error: any) {
+      console.error('Error backfilling equity snapshots:', error);
+      res.status(500).json({ message: 'Failed to backfill equity snapshots' });
+    }
+  });
+
+  // Get account balance (?account=paper for the paper account)
+  app.get('/api/portfolio/balance', async (req, res) => {
+    try {
+      if (req.query.account === 'paper') {
+        const { paperBrokerService } = await import('./services/paperBrokerService');
+        return res.json(await paperBrokerService.fetchAccountBalance());
+      }
+      const balance = await tastytradeService.fetchAccountBalance();
+      res.json(balance);
+    } catch (error: any) {
+      console.error('Error fetching account balance:', error);
+      res.status(500).json({ message: 'Failed to fetch balance' });
+    }
+  });
+
+  // Lifetime P/L from net liquidating value and all-time deposits (manual baseline when the history is unavailable)
+  app.get('/api/portfolio/pnl-lifetime', async (req, res) => {
+    try {
+      const { accountPerformanceService } = await import('./services/accountPerformanceService');
+      res.json(await accountPerformanceService.getLifetimePnL());
+    } catch (error: any) {
+      console.error('Error fetching lifetime P/L:', error);
+      res.status(500).json({ message: 'Failed to fetch lifetime P/L' });
+    }
+  });
+
+  // Get today's P/L (realized + unrealized)
+  app.get('/api/portfolio/pnl-day', async (req, res) => {
+    try {
+      const pnl = await tastytradeService.fetchTodayPnL();
+      res.json(pnl);
+    } catch (error: any) {
+      console.error('Error fetching today P/L:', error);
+      res.status(500).json({ message: 'Failed to fetch P/L' });
+    }
+  });
+
+  // Admin endpoint: Update P/L baseline adjustment (lifetime P/L fallback when broker money movements are unavailable)
+  app.post('/api/admin/pnl-baseline', async (req, res) => {
+    try {
+      const { adjustment, description } = req.body;
+      
+      if (typeof adjustment !== 'number') {
+        return res.status(400).json({ message: 'Adjustment must be a number' });
+      }
+      
+      // Upsert the baseline adjustment
+      await db.insert(appConfig)
+        .values({
+          key: 'pnl_baseline_adjustment',
+          value: adjustment.toString(),
+          description: description || `Manual P/L baseline adjustment set to $${adjustment.toFixed(2)}`,
+          updatedAt: new Date()
+        })
+        .onConflictDoUpdate({
+          target: appConfig.key,
+          set: {
+            value: adjustment.toString(),
+            description: description || `Manual P/L baseline adjustment set to $${adjustment.toFixed(2)}`,
+            updatedAt: new Date()
+          }
+        });
+      
+      console.log(`📊 P/L baseline adjustment updated to $${adjustment.toFixed(2)}`);
+      res.json({ 
+        success: true, 
+        adjustment,
+        message: `Baseline adjustment set to $${adjustment.toFixed(2)}` 
+      });
+    } catch (error: any) {
+      console.error('Error updating P/L baseline:', error);
+      res.status(500).json({ message: 'Failed to update baseline adjustment' });
+    }
+  });
+
+  // Admin endpoint: Manually trigger EOD cache
+  app.post('/api/admin/cache-eod', async (req, res) => {
+    try {
+      console.log('🔧 Manual EOD cache triggered via API');
+      await eodCacheService.manualCache();
+      
+      const stats = eodCacheService.getCacheStats();
+      res.json({ 
+        success: true, 
+        cached: stats.size,
+        date: stats.date,
+        isValid: stats.isValid,
+        message: `EOD cache populated with ${stats.size} stocks` 
+      });
+    } catch (error: any) {
+      console.error('Error caching EOD data:', error);
+      res.status(500).json({ message: 'Failed to cache EOD data' });
+    }
+  });
+
+  // Admin endpoint: Saved EOD snapshot days (rolling history) and what's loaded in memory
+  app.get('/api/admin/eod-cache', async (req, res) => {
+    try {
+      res.json({
+        loaded: eodCacheService.getCacheStats(),
+        dates: await eodCacheService.getCachedDates()
+      });
+    } catch (error: any) {
+      console.error('Error listing EOD snapshots:', error);
+      res.status(500).json({ message: 'Failed to list EOD snapshots' });
+    }
+  });
+
+  // Get full portfolio analysis with exit recommendations (legacy endpoint)
+  app.get('/api/portfolio/analysis', async (req, res) => {
+    try {
+      // Get real positions from all sources (Tastytrade, Robinhood, manual), or the paper account
+      const openPositions = await fetchAccountPositions(req.query.account);
+      
+      // Get current prices - use position.currentPrice from Tastytrade for options
+      const currentPrices = new Map<string, number>();
+      
+      for (const position of openPositions) {
+        // For options, Tastytrade already provides the correct option premium as currentPrice
+        if (position.positionType === 'options' && position.currentPrice > 0) {
+          currentPrices.set(position.ticker, position.currentPrice);
+          continue;
+        }
+        
+        // For stocks, get live stock quote
+        const polygonQuote = await polygonService.getCachedQuote(position.ticker);
+        if (polygonQuote && polygonQuote.lastPrice > 0) {
+          currentPrices.set(position.ticker, polygonQuote.lastPrice);
+          continue;
+        }
+        
+        // Fallback to Tastytrade
+        const tastyQuote = await tastytradeService.getCachedQuote(position.ticker);
+        if (tastyQuote && tastyQuote.lastPrice > 0) {
+          currentPrices.set(position.ticker, tastyQuote.lastPrice);
+          continue;
+        }
+        
+        // Final fallback to entry price
+        currentPrices.set(position.ticker, position.avgCost);
+      }
+      
+      // Get current trade recommendations for opportunity comparison
+      const topTrades = await storage.getTopTrades();
+      const opportunities = topTrades.map(trade => ({
+        ticker: trade.ticker,
+        optionType: (trade.optionType || 'call') as 'call' | 'put',
+        currentPrice: trade.currentPrice,
+        strikePrice: trade.strikePrice,
+        expiry: trade.expiry,
+        stockEntryPrice: trade.stockEntryPrice || trade.currentPrice,
+        stockExitPrice: trade.stockExitPrice ?? undefined,
+        premium: trade.premium || trade.entryPrice,
+        entryPrice: trade.entryPrice,
+        exitPrice: trade.exitPrice || 0,
+        totalCost: trade.totalCost || (trade.contracts * (trade.premium || trade.entryPrice) * 100),
+        contracts: trade.contracts,
+        projectedROI: trade.projectedROI,
+        aiConfidence: trade.aiConfidence,
+        greeks: trade.greeks as any,
+        sentiment: trade.sentiment || 0,
+        score: trade.score,
+        holdDays: trade.holdDays || 0,
+        fibonacciLevel: trade.fibonacciLevel ?? undefined,
+        fibonacciColor: (trade.fibonacciColor ?? undefined) as 'gold' | 'green' | undefined,
+        estimatedProfit: trade.estimatedProfit ?? undefined
+      }));
+      
+      // Perform portfolio analysis
+      const analysis = exitAnalysisService.analyzePortfolio(
+        openPositions,
+        currentPrices,
+        opportunities
+      );
+      
+      res.json(analysis);
+    } catch (error: any) {
+      console.error('Error performing portfolio analysis:', error);
+      res.status(500).json({ message: 'Failed to analyze portfolio' });
+    }
+  });
+
+  // Get AI-powered portfolio analysis (Hybrid: Internal AI + Grok enhancement)
+  app.get('/api/portfolio/ai-analysis', async (req, res) => {
+    try {
+      console.log('🤖 AI Portfolio Analysis requested...');
+      
+      // Get real positions from all sources (Tastytrade, Robinhood, manual)
+      const openPositions = await fetchLivePortfolioPositions();
+      console.log(`📊 Fetched ${openPositions.length} positions`);
       
       // Get account balance
       const balance = await tastytradeService.fetchAccountBalance();
@@ -1684,13 +2543,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }));
       console.log(`🎯 ${dashboardOpportunities.length} opportunities from scanner`);
       
+      // Active growth goals for the Tastytrade account
+      const { accountGoalService } = await import('./services/accountGoalService');
+      const goals = await accountGoalService.listProgress('tastytrade').catch(error => {
+        console.warn('⚠️ Failed to compute goal progress:', error.message);
+        return [];
+      });
+      
       // Run AI portfolio analysis (Internal AI + Grok enhancement)
       const analysis = await portfolioAnalysisEngine.analyzePortfolio(
         openPositions,
         currentPrices,
         dashboardOpportunities,
         accountValue,
-        vixLevel
+        vixLevel,
+        goals
       );
       
       console.log(`✅ AI Analysis complete - ${analysis.recommendations.length} recommendations generated`);
@@ -1775,132 +2642,561 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get better opportunities compared to current positions
-  app.get('/api/portfolio/opportunities', async (req, res) => {
+  // Get better opportunities compared to current positions
+  app.get('/api/portfolio/opportunities', async (req, res) => {
+    try {
+      const positionId = req.query.positionId as string | undefined;
+      const userId = req.query.userId as string | undefined;
+      
+      // Get positions to analyze
+      const positions = await storage.getPositions(userId);
+      let positionsToAnalyze = positions.filter(p => p.status === 'open');
+      
+      if (positionId) {
+        positionsToAnalyze = positionsToAnalyze.filter(p => p.id === positionId);
+      }
+      
+      // Get current trade recommendations
+      const topTrades = await storage.getTopTrades();
+      const opportunities = topTrades.map(trade => ({
+        ticker: trade.ticker,
+        optionType: (trade.optionType || 'call') as 'call' | 'put',
+        currentPrice: trade.currentPrice,
+        strikePrice: trade.strikePrice,
+        expiry: trade.expiry,
+        stockEntryPrice: trade.stockEntryPrice || trade.currentPrice,
+        stockExitPrice: trade.stockExitPrice ?? undefined,
+        premium: trade.premium || trade.entryPrice,
+        entryPrice: trade.entryPrice,
+        exitPrice: trade.exitPrice || 0,
+        totalCost: trade.totalCost || (trade.contracts * (trade.premium || trade.entryPrice) * 100),
+        contracts: trade.contracts,
+        projectedROI: trade.projectedROI,
+        aiConfidence: trade.aiConfidence,
+        greeks: trade.greeks as any,
+        sentiment: trade.sentiment || 0,
+        score: trade.score,
+        holdDays: trade.holdDays || 0,
+        fibonacciLevel: trade.fibonacciLevel ?? undefined,
+        fibonacciColor: (trade.fibonacciColor ?? undefined) as 'gold' | 'green' | undefined,
+        estimatedProfit: trade.estimatedProfit ?? undefined
+      }));
+      
+      // Get current prices
+      const currentPrices = new Map<string, number>();
+      for (const position of positionsToAnalyze) {
+        const polygonQuote = await polygonService.getCachedQuote(position.ticker);
+        if (polygonQuote && polygonQuote.lastPrice > 0) {
+          currentPrices.set(position.ticker, polygonQuote.lastPrice);
+        } else {
+          const tastyQuote = await tastytradeService.getCachedQuote(position.ticker);
+          if (tastyQuote && tastyQuote.lastPrice > 0) {
+            currentPrices.set(position.ticker, tastyQuote.lastPrice);
+          } else {
+            currentPrices.set(position.ticker, position.avgCost);
+          }
+        }
+      }
+      
+      // Analyze each position and find better opportunities
+      const betterOpportunities = positionsToAnalyze.map(position => {
+        const currentPrice = currentPrices.get(position.ticker) || position.avgCost;
+        const totalCost = position.avgCost * position.quantity;
+        const currentValue = currentPrice * position.quantity;
+        const unrealizedPnLPercent = ((currentValue - totalCost) / totalCost) * 100;
+        
+        // Find better opportunities (different ticker, >100% better ROI, >80% confidence)
+        const betterOpps = opportunities.filter(opp => {
+          if (opp.ticker === position.ticker) return false;
+          const currentExpectedROI = 50;
+          if (opp.projectedROI < currentExpectedROI + 100) return false;
+          if (opp.aiConfidence < 80) return false;
+          return true;
+        });
+        
+        const bestOpp = betterOpps.length > 0 
+          ? betterOpps.sort((a, b) => b.score - a.score)[0]
+          : null;
+        
+        return {
+          positionId: position.id,
+          ticker: position.ticker,
+          currentPnLPercent: unrealizedPnLPercent,
+          betterOpportunity: bestOpp,
+          shouldReallocate: bestOpp !== null && unrealizedPnLPercent > -20
+        };
+      });
+      
+      res.json({
+        opportunities: betterOpportunities.filter(o => o.betterOpportunity !== null),
+        totalPositions: positionsToAnalyze.length,
+        betterOpportunitiesCount: betterOpportunities.filter(o => o.shouldReallocate).length
+      });
+    } catch (error: any) {
+      console.error('Error finding better opportunities:', error);
+      res.status(500).json({ message: 'Failed to find better opportunities' });
+    }
+  });
+
+  // ==================== BACKTEST ENDPOINTS ====================
+  
+  // Queue a new backtest (runs in the background; poll /api/backtest/:id or follow /api/backtest/stream)
+  app.post('/api/backtest/run', async (req, res) => {
+    try {
+      const { backtestJobQueue } = await import('./services/backtestJobQueue');
+      const { getBacktestStrategy } = await import('./services/backtestStrategies');
+      
+      const strategy = getBacktestStrategy(req.body.strategy || 'legacy_rsi');
+      if (!strategy) {
+        return res.status(400).json({ message: `Unknown strategy: ${req.body.strategy}` });
+      }
+      
+      const startDate = req.body.startDate ?? '2024-01-01';
+      const endDate = req.body.endDate ?? '2024-12-31';
+      const isDate = (value: unknown): value is string =>
+        typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value))
+        && new Date(value).toISOString().startsWith(value); // Rejects rolled-over days like 2024-02-30
+      if (!isDate(startDate) || !isDate(endDate)) {
+        return res.status(400).json({ message: 'startDate and endDate must be YYYY-MM-DD' });
+      }
+      if (endDate < startDate) {
+        return res.status(400).json({ message: 'endDate must be on or after startDate' });
+      }
+      
+      // Position sizing: { method: 'fixed', amount } | { method: 'percent_equity', percent } | { method: 'kelly', fraction, maxPercent }
+      const sizing = req.body.sizing;
+      if (sizing !== undefined) {
+        const valid =
+          (sizing?.method === 'fixed' && sizing.amount > 0) ||
+          (sizing?.method === 'percent_equity' && sizing.percent > 0 && sizing.percent <= 1) ||
+          (sizing?.method === 'kelly' && sizing.fraction > 0 && sizing.maxPercent > 0 && sizing.maxPercent <= 1);
+        if (!valid) {
+          return res.status(400).json({ message: 'Invalid sizing rule' });
+        }
+      }
+      
+      // Legacy top-level RSI/VIX fields are folded into the strategy params
+      const strategyParams: Record<string, number> = { ...(req.body.strategyParams || {}) };
+      for (const key of ['rsiOversold', 'rsiOverbought', 'minVIX']) {
+        if (typeof req.body[key] === 'number') {
+          strategyParams[key] = req.body[key];
+        }
+      }
+      
+      const config = {
+        strategy: strategy.id,
+        startDate,
+        endDate,
+        symbols: req.body.symbols || null,
+        budget: req.body.budget || 1000,
+        stopLoss: req.body.stopLoss || 0.45,
+        profitTarget: req.body.profitTarget || 1.0,
+        maxHoldDays: req.body.maxHoldDays || 10,
+        scanInterval: req.body.scanInterval === 'weekly' ? 'weekly' as const : 'daily' as const,
+        strategyParams,
+        startingCapital: req.body.startingCapital || 10000,
+        maxConcurrentPositions: req.body.maxConcurrentPositions || 5,
+        settlementDays: typeof req.body.settlementDays === 'number' ? req.body.settlementDays : 1,
+        sizing,
+        executionCosts: req.body.executionCosts, // Per-run overrides of the fill/commission model
+        optionPricing: req.body.optionPricing === 'model' ? 'model' as const : 'archive' as const // Archived chains, Black-Scholes where missing
+      };
+
+      console.log('🎯 Queueing backtest with config:', config);
+      const run = await backtestJobQueue.submit(config);
+      
+      res.status(202).json({
+        runId: run.id,
+        strategy: run.strategy,
+        status: run.status,
+        progress: backtestJobQueue.getProgress(run.id) || null
+      });
+    } catch (error: any) {
+      console.error('Backtest error:', error);
+      res.status(500).json({ 
+        message: 'Failed to queue backtest', 
+        error: error.message 
+      });
+    }
+  });
+
+  // Execution cost model (spread, tick rounding, commissions) shared by backtests and tracking
+  app.get('/api/execution-costs', async (req, res) => {
+    try {
+      const { executionCostModel } = await import('./services/executionCostModel');
+      res.json(executionCostModel.getConfig());
+    } catch (error: any) {
+      console.error('Error fetching execution cost model:', error);
+      res.status(500).json({ message: 'Failed to fetch execution cost model' });
+    }
+  });
+
+  app.put('/api/execution-costs', async (req, res) => {
+    try {
+      const { executionCostModel } = await import('./services/executionCostModel');
+      const { spreadPercent, commissionPerContract, regulatoryFeePerContract, pennyPilotSymbols } = req.body || {};
+      
+      const invalid =
+        (spreadPercent !== undefined && !(typeof spreadPercent === 'number' && spreadPercent >= 0 && spreadPercent < 1)) ||
+        (commissionPerContract !== undefined && !(typeof commissionPerContract === 'number' && commissionPerContract >= 0)) ||
+        (regulatoryFeePerContract !== undefined && !(typeof regulatoryFeePerContract === 'number' && regulatoryFeePerContract >= 0)) ||
+        (pennyPilotSymbols !== undefined && !(Array.isArray(pennyPilotSymbols) && pennyPilotSymbols.every((s: unknown) => typeof s === 'string')));
+      if (invalid) {
+        return res.status(400).json({ message: 'Invalid execution cost settings' });
+      }
+      
+      const config = await executionCostModel.updateConfig({ spreadPercent, commissionPerContract, regulatoryFeePerContract, pennyPilotSymbols });
+      res.json(config);
+    } catch (error: any) {
+      console.error('Error updating execution cost model:', error);
+      res.status(500).json({ message: 'Failed to update execution cost model' });
+    }
+  });
+
+  // Incremental historical bar store (depth, intraday symbols, adjusted bars)
+  app.get('/api/historical-bars/config', async (req, res) => {
+    try {
+      const { historicalDataCache } = await import('./services/historicalDataCache');
+      res.json(historicalDataCache.getStats().store);
+    } catch (error: any) {
+      console.error('Error fetching historical bar store settings:', error);
+      res.status(500).json({ message: 'Failed to fetch historical bar store settings' });
+    }
+  });
+
+  app.put('/api/historical-bars/config', async (req, res) => {
+    try {
+      const { historicalDataCache, HistoricalBarStoreError } = await import('./services/historicalDataCache');
+      const { dailyDepthDays, memoryDays, intradaySymbols, intradayMinutes, intradayDepthDays } = req.body || {};
+
+      try {
+        res.json(await historicalDataCache.updateConfig({ dailyDepthDays, memoryDays, intradaySymbols, intradayMinutes, intradayDepthDays }));
+      } catch (error) {
+        if (error instanceof HistoricalBarStoreError) {
+          return res.status(error.statusCode).json({ message: error.message });
+        }
+        throw error;
+      }
+    } catch (error: any) {
+      console.error('Error updating historical bar store settings:', error);
+      res.status(500).json({ message: 'Failed to update historical bar store settings' });
+    }
+  });
+
+  // Stored bars: ?from=YYYY-MM-DD&to=YYYY-MM-DD&timeframe=1d|5m&adjusted=false
+  app.get('/api/historical-bars/:symbol', async (req, res) => {
+    try {
+      const { historicalDataCache } = await import('./services/historicalDataCache');
+      const { from, to, timeframe, adjusted } = req.query;
+      const isDate = (value: unknown): value is string => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+      if (!isDate(from) || !isDate(to)) {
+        return res.status(400).json({ message: 'from and to must be YYYY-MM-DD' });
+      }
+
+      res.json(await historicalDataCache.getBars(
+        req.params.symbol,
+        from,
+        to,
+        typeof timeframe === 'string' ? timeframe : '1d',
+        adjusted !== 'false'
+      ));
+    } catch (error: any) {
+      console.error('Error fetching stored bars:', error);
+      res.status(500).json({ message: 'Failed to fetch stored bars' });
+    }
+  });
+
+  // Point-in-time option chain archive (replayed by the backtester)
+  app.get('/api/option-chains/config', async (req, res) => {
+    try {
+      const { optionChainArchive } = await import('./services/optionChainArchive');
+      res.json({
+        ...optionChainArchive.getConfig(),
+        nextCaptureAt: optionChainArchive.getNextCaptureTime()?.toUTC().toISO() ?? null,
+        underlyings: await optionChainArchive.listUnderlyings()
+      });
+    } catch (error: any) {
+      console.error('Error fetching option chain archive settings:', error);
+      res.status(500).json({ message: 'Failed to fetch option chain archive settings' });
+    }
+  });
+
+  app.put('/api/option-chains/config', async (req, res) => {
+    try {
+      const { optionChainArchive, OptionChainArchiveError } = await import('./services/optionChainArchive');
+      const { enabled, times, symbols, includeScannerUniverse, maxDte } = req.body || {};
+
+      try {
+        res.json(await optionChainArchive.updateConfig({ enabled, times, symbols, includeScannerUniverse, maxDte }));
+      } catch (error) {
+        if (error instanceof OptionChainArchiveError) {
+          return res.status(error.statusCode).json({ message: error.message });
+        }
+        throw error;
+      }
+    } catch (error: any) {
+      console.error('Error updating option chain archive settings:', error);
+      res.status(500).json({ message: 'Failed to update option chain archive settings' });
+    }
+  });
+
+  app.post('/api/option-chains/capture', async (req, res) => {
+    try {
+      const { optionChainArchive, OptionChainArchiveError, TICKER_PATTERN } = await import('./services/optionChainArchive');
+      const { symbols } = req.body || {};
+      if (symbols !== undefined && !(Array.isArray(symbols) && symbols.every((s: unknown) => typeof s === 'string' && TICKER_PATTERN.test(s.toUpperCase())))) {
+        return res.status(400).json({ message: 'symbols must be a list of tickers' });
+      }
+
+      try {
+        res.json(await optionChainArchive.captureAll(symbols));
+      } catch (error) {
+        if (error instanceof OptionChainArchiveError) {
+          return res.status(error.statusCode).json({ message: error.message });
+        }
+        throw error;
+      }
+    } catch (error: any) {
+      console.error('Error capturing option chains:', error);
+      res.status(500).json({ message: 'Failed to capture option chains' });
+    }
+  });
+
+  app.get('/api/option-chains/:underlying', async (req, res) => {
+    try {
+      const { optionChainArchive, OptionChainArchiveError, TICKER_PATTERN, DATE_PATTERN } = await import('./services/optionChainArchive');
+      const date = typeof req.query.date === 'string' ? req.query.date : undefined;
+      if (!TICKER_PATTERN.test(req.params.underlying.toUpperCase())) {
+        return res.status(400).json({ message: 'Invalid ticker' });
+      }
+      if (date !== undefined && !DATE_PATTERN.test(date)) {
+        return res.status(400).json({ message: 'date must be YYYY-MM-DD' });
+      }
+
+      try {
+        res.json(await optionChainArchive.listSnapshots(req.params.underlying, date));
+      } catch (error) {
+        if (error instanceof OptionChainArchiveError) {
+          return res.status(error.statusCode).json({ message: error.message });
+        }
+        throw error;
+      }
+    } catch (error: any) {
+      console.error('Error listing option chain snapshots:', error);
+      res.status(500).json({ message: 'Failed to list option chain snapshots' });
+    }
+  });
+
+  // Chain as known at ?time=HH:mm ET (latest snapshot at or before it), optionally filtered
+  app.get('/api/option-chains/:underlying/:date', async (req, res) => {
+    try {
+      const { optionChainArchive, OptionChainArchiveError, TICKER_PATTERN, DATE_PATTERN } = await import('./services/optionChainArchive');
+      const { time, expiry, optionType } = req.query;
+      if (!TICKER_PATTERN.test(req.params.underlying.toUpperCase())) {
+        return res.status(400).json({ message: 'Invalid ticker' });
+      }
+      if (!DATE_PATTERN.test(req.params.date)) {
+        return res.status(400).json({ message: 'date must be YYYY-MM-DD' });
+      }
+
+      try {
+        const snapshot = await optionChainArchive.getSnapshot(
+          req.params.underlying,
+          req.params.date,
+          typeof time === 'string' ? time : undefined
+        );
+        if (!snapshot) {
+          return res.status(404).json({ message: 'No archived chain for that underlying and time' });
+        }
+
+        res.json({
+          ...snapshot,
+          chain: snapshot.chain.filter(contract =>
+            (typeof expiry !== 'string' || contract.expiry === expiry) &&
+            (typeof optionType !== 'string' || contract.optionType === optionType)
+          )
+        });
+      } catch (error) {
+        if (error instanceof OptionChainArchiveError) {
+          return res.status(error.statusCode).json({ message: error.message });
+        }
+        throw error;
+      }
+    } catch (error: any) {
+      console.error('Error fetching archived option chain:', error);
+      res.status(500).json({ message: 'Failed to fetch archived option chain' });
+    }
+  });
+
+  // List strategies the backtester can replay
+  app.get('/api/backtest/strategies', async (req, res) => {
+    try {
+      const { listBacktestStrategies } = await import('./services/backtestStrategies');
+      res.json(listBacktestStrategies().map(({ id, name, description, defaultSymbols, defaultParams, warmupBars }) => ({
+        id,
+        name,
+        description,
+        defaultSymbols,
+        defaultParams,
+        warmupBars
+      })));
+    } catch (error: any) {
+      console.error('Error listing backtest strategies:', error);
+      res.status(500).json({ message: 'Failed to list backtest strategies' });
+    }
+  });
+
+  // List all backtest runs
+  app.get('/api/backtest/list', async (req, res) => {
+    try {
+      const { db } = await import('./db');
+      const { backtestRuns } = await import('@shared/schema');
+      const { desc } = await import('drizzle-orm');
+      const { backtestJobQueue } = await import('./services/backtestJobQueue');
+      
+      const runs = await db.query.backtestRuns.findMany({
+        orderBy: desc(backtestRuns.startedAt),
+        limit: 50
+      });
+
+      // Overlay live progress for jobs still in the queue
+      res.json(runs.map(run => {
+        const live = backtestJobQueue.getProgress(run.id);
+        return live
+          ? { ...run, status: live.status, progress: live.progress, progressDate: live.currentDate, queuePosition: live.queuePosition }
+          : run;
+      }));
+    } catch (error: any) {
+      console.error('Error fetching backtest list:', error);
+      res.status(500).json({ message: 'Failed to fetch backtest list' });
+    }
+  });
+
+  // SSE feed of backtest job progress (optionally filtered to one run with ?runId=)
+  app.get('/api/backtest/stream', async (req, res) => {
+    const { backtestJobQueue } = await import('./services/backtestJobQueue');
+    const runId = typeof req.query.runId === 'string' ? req.query.runId : null;
+    
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    
+    const send = (progress: BacktestJobProgress) => {
+      res.write(`data: ${JSON.stringify(progress)}\n\n`);
+    };
+    
+    // A single finished run has nothing more to report - send its final state and close
+    if (runId && !backtestJobQueue.getProgress(runId)) {
+      try {
+        const { db } = await import('./db');
+        const { backtestRuns } = await import('@shared/schema');
+        const run = await db.query.backtestRuns.findFirst({ where: eq(backtestRuns.id, runId) });
+        if (run) {
+          send({
+            runId: run.id,
+            strategy: run.strategy as BacktestStrategyId,
+            status: run.status as BacktestRunStatus,
+            progress: run.progress || 0,
+            currentDate: run.progressDate,
+            error: run.errorMessage || undefined,
+            timestamp: new Date().toISOString()
+          });
+        }
+      } catch (error: any) {
+        console.error('Error fetching backtest for stream:', error);
+      }
+      res.end();
+      return;
+    }
+    
+    const handlerId = `sse-backtest-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    
+    // Heartbeat to keep proxies from closing idle connections
+    const heartbeat = setInterval(() => {
+      res.write(`: heartbeat\n\n`);
+    }, 30000);
+    
+    const cleanup = () => {
+      clearInterval(heartbeat);
+      backtestJobQueue.unregisterHandler(handlerId);
+    };
+    req.on('close', cleanup);
+    
+    backtestJobQueue.registerHandler(handlerId, (progress) => {
+      if (runId && progress.runId !== runId) return;
+      send(progress);
+      if (runId && ['completed', 'failed', 'cancelled'].includes(progress.status)) {
+        cleanup();
+        res.end();
+      }
+    });
+    
+    // Current state of the job(s) being followed
+    const current = runId ? [backtestJobQueue.getProgress(runId)] : backtestJobQueue.getActiveJobs();
+    current.forEach(progress => progress && send(progress));
+  });
+
+  // Cancel a pending or running backtest
+  app.post('/api/backtest/:id/cancel', async (req, res) => {
     try {
-      const positionId = req.query.positionId as string | undefined;
-      const userId = req.query.userId as string | undefined;
-      
-      // Get positions to analyze
-      const positions = await storage.getPositions(userId);
-      let positionsToAnalyze = positions.filter(p => p.status === 'open');
+      const { db } = await import('./db');
+      const { backtestRuns } = await import('@shared/schema');
+      const { backtestJobQueue } = await import('./services/backtestJobQueue');
       
-      if (positionId) {
-        positionsToAnalyze = positionsToAnalyze.filter(p => p.id === positionId);
+      const run = await db.query.backtestRuns.findFirst({
+        where: eq(backtestRuns.id, req.params.id)
+      });
+      if (!run) {
+        return res.status(404).json({ message: 'Backtest not found' });
       }
       
-      // Get current trade recommendations
-      const topTrades = await storage.getTopTrades();
-      const opportunities = topTrades.map(trade => ({
-        ticker: trade.ticker,
-        optionType: (trade.optionType || 'call') as 'call' | 'put',
-        currentPrice: trade.currentPrice,
-        strikePrice: trade.strikePrice,
-        expiry: trade.expiry,
-        stockEntryPrice: trade.stockEntryPrice || trade.currentPrice,
-        stockExitPrice: trade.stockExitPrice ?? undefined,
-        premium: trade.premium || trade.entryPrice,
-        entryPrice: trade.entryPrice,
-        exitPrice: trade.exitPrice || 0,
-        totalCost: trade.totalCost || (trade.contracts * (trade.premium || trade.entryPrice) * 100),
-        contracts: trade.contracts,
-        projectedROI: trade.projectedROI,
-        aiConfidence: trade.aiConfidence,
-        greeks: trade.greeks as any,
-        sentiment: trade.sentiment || 0,
-        score: trade.score,
-        holdDays: trade.holdDays || 0,
-        fibonacciLevel: trade.fibonacciLevel ?? undefined,
-        fibonacciColor: (trade.fibonacciColor ?? undefined) as 'gold' | 'green' | undefined,
-        estimatedProfit: trade.estimatedProfit ?? undefined
-      }));
-      
-      // Get current prices
-      const currentPrices = new Map<string, number>();
-      for (const position of positionsToAnalyze) {
-        const polygonQuote = await polygonService.getCachedQuote(position.ticker);
-        if (polygonQuote && polygonQuote.lastPrice > 0) {
-          currentPrices.set(position.ticker, polygonQuote.lastPrice);
-        } else {
-          const tastyQuote = await tastytradeService.getCachedQuote(position.ticker);
-          if (tastyQuote && tastyQuote.lastPrice > 0) {
-            currentPrices.set(position.ticker, tastyQuote.lastPrice);
-          } else {
-            currentPrices.set(position.ticker, position.avgCost);
-          }
-        }
+      const outcome = await backtestJobQueue.cancel(run.id);
+      if (outcome === 'not_active') {
+        return res.status(409).json({ message: `Backtest is already ${run.status}` });
       }
       
-      // Analyze each position and find better opportunities
-      const betterOpportunities = positionsToAnalyze.map(position => {
-        const currentPrice = currentPrices.get(position.ticker) || position.avgCost;
-        const totalCost = position.avgCost * position.quantity;
-        const currentValue = currentPrice * position.quantity;
-        const unrealizedPnLPercent = ((currentValue - totalCost) / totalCost) * 100;
-        
-        // Find better opportunities (different ticker, >100% better ROI, >80% confidence)
-        const betterOpps = opportunities.filter(opp => {
-          if (opp.ticker === position.ticker) return false;
-          const currentExpectedROI = 50;
-          if (opp.projectedROI < currentExpectedROI + 100) return false;
-          if (opp.aiConfidence < 80) return false;
-          return true;
-        });
-        
-        const bestOpp = betterOpps.length > 0 
-          ? betterOpps.sort((a, b) => b.score - a.score)[0]
-          : null;
-        
-        return {
-          positionId: position.id,
-          ticker: position.ticker,
-          currentPnLPercent: unrealizedPnLPercent,
-          betterOpportunity: bestOpp,
-          shouldReallocate: bestOpp !== null && unrealizedPnLPercent > -20
-        };
-      });
-      
-      res.json({
-        opportunities: betterOpportunities.filter(o => o.betterOpportunity !== null),
-        totalPositions: positionsToAnalyze.length,
-        betterOpportunitiesCount: betterOpportunities.filter(o => o.shouldReallocate).length
-      });
+      res.status(outcome === 'cancelled' ? 200 : 202).json({ runId: run.id, status: outcome });
     } catch (error: any) {
-      console.error('Error finding better opportunities:', error);
-      res.status(500).json({ message: 'Failed to find better opportunities' });
+      console.error('Error cancelling backtest:', error);
+      res.status(500).json({ message: 'Failed to cancel backtest' });
     }
   });
 
-  // ==================== BACKTEST ENDPOINTS ====================
-  
-  // Start a new backtest
-  app.post('/api/backtest/run', async (req, res) => {
+  // Daily account equity curve for a backtest run
+  app.get('/api/backtest/:id/equity', async (req, res) => {
     try {
-      const { createBacktest } = await import('./services/backtestEngine');
+      const { db } = await import('./db');
+      const { backtestRuns, backtestEquity } = await import('@shared/schema');
+      const { eq, asc } = await import('drizzle-orm');
       
-      const config = {
-        startDate: req.body.startDate || '2024-01-01',
-        endDate: req.body.endDate || '2024-12-31',
-        symbols: req.body.symbols || null,
-        budget: req.body.budget || 1000,
-        stopLoss: req.body.stopLoss || 0.45,
-        profitTarget: req.body.profitTarget || 1.0,
-        rsiOversold: req.body.rsiOversold || 30,
-        rsiOverbought: req.body.rsiOverbought || 70,
-        minVIX: req.body.minVIX || 15,
-        maxHoldDays: req.body.maxHoldDays || 10
-      };
-
-      console.log('🎯 Starting backtest with config:', config);
-      const results = await createBacktest(config);
+      const run = await db.query.backtestRuns.findFirst({
+        where: eq(backtestRuns.id, req.params.id)
+      });
       
-      res.json(results);
-    } catch (error: any) {
-      console.error('Backtest error:', error);
-      res.status(500).json({ 
-        message: 'Backtest failed', 
-        error: error.message 
+      if (!run) {
+        return res.status(404).json({ message: 'Backtest not found' });
+      }
+      
+      const points = await db.select()
+        .from(backtestEquity)
+        .where(eq(backtestEquity.runId, req.params.id))
+        .orderBy(asc(backtestEquity.date));
+      
+      res.json({
+        runId: run.id,
+        startingCapital: run.startingCapital,
+        endingEquity: run.endingEquity,
+        maxDrawdown: run.maxDrawdown,
+        sharpeRatio: run.sharpeRatio,
+        sortinoRatio: run.sortinoRatio,
+        cagr: run.cagr,
+        exposure: run.exposure,
+        points
       });
+    } catch (error: any) {
+      console.error('Error fetching backtest equity curve:', error);
+      res.status(500).json({ message: 'Failed to fetch backtest equity curve' });
     }
   });
 
@@ -1910,6 +3206,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { db } = await import('./db');
       const { backtestRuns, backtestTrades } = await import('@shared/schema');
       const { eq } = await import('drizzle-orm');
+      const { backtestJobQueue } = await import('./services/backtestJobQueue');
       
       const run = await db.query.backtestRuns.findFirst({
         where: eq(backtestRuns.id, req.params.id)
@@ -1926,14 +3223,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json({
         run,
         trades,
+        progress: backtestJobQueue.getProgress(run.id) || null,
         summary: {
           totalTrades: run.totalTrades || 0,
           wins: run.wins || 0,
           losses: run.losses || 0,
           winRate: run.winRate || 0,
           avgROI: run.avgROI || 0,
+          grossAvgROI: run.grossAvgROI || 0,
           profitFactor: run.profitFactor || 0,
-          maxDrawdown: run.maxDrawdown || 0
+          maxDrawdown: run.maxDrawdown || 0,
+          sharpeRatio: run.sharpeRatio || 0,
+          sortinoRatio: run.sortinoRatio || 0,
+          cagr: run.cagr || 0,
+          exposure: run.exposure || 0,
+          startingCapital: run.startingCapital,
+          endingEquity: run.endingEquity
         }
       });
     } catch (error: any) {
@@ -1942,25 +3247,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // List all backtest runs
-  app.get('/api/backtest/list', async (req, res) => {
-    try {
-      const { db } = await import('./db');
-      const { backtestRuns } = await import('@shared/schema');
-      const { desc } = await import('drizzle-orm');
-      
-      const runs = await db.query.backtestRuns.findMany({
-        orderBy: desc(backtestRuns.startedAt),
-        limit: 50
-      });
-
-      res.json(runs);
-    } catch (error: any) {
-      console.error('Error fetching backtest list:', error);
-      res.status(500).json({ message: 'Failed to fetch backtest list' });
-    }
-  });
-
   // ===== ELITE STRATEGY ANALYTICS ENDPOINTS =====
   
   // Get elite strategy performance metrics
@@ -1978,6 +3264,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json({
         winRate: metrics.winRate,
         avgROI: metrics.avgROI,
+        grossAvgROI: metrics.grossAvgROI,
         profitFactor: metrics.profitFactor,
         totalTrades: metrics.totalTrades,
         openTrades: metrics.openTrades,
@@ -2009,8 +3296,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { strategyParameters } = await import('@shared/schema');
       const { desc } = await import('drizzle-orm');
       
+      // Newest first by creation - proposals have no activation date yet
       const history = await db.query.strategyParameters.findMany({
-        orderBy: desc(strategyParameters.activatedAt),
+        orderBy: desc(strategyParameters.createdAt),
         limit: 50
       });
       
@@ -2021,6 +3309,145 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Propose a parameter version by hand (lands as 'proposed', nothing goes live).
+  // Optional marketRegime scopes the version to one regime instead of the base set.
+  app.post('/api/strategy/parameters/proposals', async (req, res) => {
+    try {
+      const { strategyVersionService, StrategyVersionError } = await import('./services/strategyVersionService');
+      const { actor, reason, marketRegime = null, ...values } = req.body || {};
+      
+      const required = ['rsiOversold', 'rsiOverbought', 'vixMinCall', 'vixMinPut', 'stopLoss', 'profitTarget'];
+      const optional = ['partialProfitLevel', 'partialProfitPercent', 'emaLength', 'atrMultiplier', 'deltaMin', 'deltaMax'];
+      const invalid = [...required, ...optional].filter(key =>
+        (required.includes(key) || values[key] !== undefined) && !(typeof values[key] === 'number' && isFinite(values[key]))
+      );
+      if (invalid.length > 0) {
+        return res.status(400).json({ message: `Invalid or missing values: ${invalid.join(', ')}` });
+      }
+      if (!reason) {
+        return res.status(400).json({ message: 'reason is required' });
+      }
+      
+      try {
+        const proposal = await strategyVersionService.propose({
+          rsiOversold: values.rsiOversold,
+          rsiOverbought: values.rsiOverbought,
+          vixMinCall: values.vixMinCall,
+          vixMinPut: values.vixMinPut,
+          stopLoss: values.stopLoss,
+          profitTarget: values.profitTarget,
+          partialProfitLevel: values.partialProfitLevel ?? null,
+          partialProfitPercent: values.partialProfitPercent ?? null,
+          emaLength: values.emaLength ?? null,
+          atrMultiplier: values.atrMultiplier ?? null,
+          deltaMin: values.deltaMin ?? null,
+          deltaMax: values.deltaMax ?? null
+        }, actor, reason, undefined, marketRegime);
+        res.status(201).json(proposal);
+      } catch (error: any) {
+        if (error instanceof StrategyVersionError) {
+          return res.status(error.statusCode).json({ message: error.message });
+        }
+        throw error;
+      }
+    } catch (error: any) {
+      console.error('Error proposing strategy parameters:', error);
+      res.status(500).json({ message: 'Failed to propose strategy parameters' });
+    }
+  });
+  
+  // Parameter version audit trail (optionally for one version)
+  app.get('/api/strategy/parameters/audit', async (req, res) => {
+    try {
+      const { strategyVersionService } = await import('./services/strategyVersionService');
+      const parameterId = typeof req.query.parameterId === 'string' ? req.query.parameterId : undefined;
+      
+      res.json(await strategyVersionService.getAuditLog(parameterId));
+    } catch (error: any) {
+      console.error('Error fetching parameter audit log:', error);
+      res.status(500).json({ message: 'Failed to fetch parameter audit log' });
+    }
+  });
+  
+  // Compare a version with the active one (field diff + live performance per version)
+  app.get('/api/strategy/parameters/:id/diff', async (req, res) => {
+    try {
+      const { strategyVersionService, StrategyVersionError } = await import('./services/strategyVersionService');
+      
+      try {
+        res.json(await strategyVersionService.diff(req.params.id));
+      } catch (error: any) {
+        if (error instanceof StrategyVersionError) {
+          return res.status(error.statusCode).json({ message: error.message });
+        }
+        throw error;
+      }
+    } catch (error: any) {
+      console.error('Error diffing strategy parameters:', error);
+      res.status(500).json({ message: 'Failed to compare strategy parameters' });
+    }
+  });
+  
+  // Approve a proposal: retires the active version and applies the proposal immediately
+  app.post('/api/strategy/parameters/:id/approve', async (req, res) => {
+    try {
+      const { strategyVersionService, StrategyVersionError } = await import('./services/strategyVersionService');
+      const { actor, reason } = req.body || {};
+      
+      try {
+        res.json(await strategyVersionService.approve(req.params.id, actor, reason));
+      } catch (error: any) {
+        if (error instanceof StrategyVersionError) {
+          return res.status(error.statusCode).json({ message: error.message });
+        }
+        throw error;
+      }
+    } catch (error: any) {
+      console.error('Error approving strategy parameters:', error);
+      res.status(500).json({ message: 'Failed to approve strategy parameters' });
+    }
+  });
+  
+  // Reject a proposal (reason required)
+  app.post('/api/strategy/parameters/:id/reject', async (req, res) => {
+    try {
+      const { strategyVersionService, StrategyVersionError } = await import('./services/strategyVersionService');
+      const { actor, reason } = req.body || {};
+      
+      try {
+        res.json(await strategyVersionService.reject(req.params.id, actor, reason));
+      } catch (error: any) {
+        if (error instanceof StrategyVersionError) {
+          return res.status(error.statusCode).json({ message: error.message });
+        }
+        throw error;
+      }
+    } catch (error: any) {
+      console.error('Error rejecting strategy parameters:', error);
+      res.status(500).json({ message: 'Failed to reject strategy parameters' });
+    }
+  });
+  
+  // Roll back to a previously active (retired) version (reason required)
+  app.post('/api/strategy/parameters/:id/rollback', async (req, res) => {
+    try {
+      const { strategyVersionService, StrategyVersionError } = await import('./services/strategyVersionService');
+      const { actor, reason } = req.body || {};
+      
+      try {
+        res.json(await strategyVersionService.rollback(req.params.id, actor, reason));
+      } catch (error: any) {
+        if (error instanceof StrategyVersionError) {
+          return res.status(error.statusCode).json({ message: error.message });
+        }
+        throw error;
+      }
+    } catch (error: any) {
+      console.error('Error rolling back strategy parameters:', error);
+      res.status(500).json({ message: 'Failed to roll back strategy parameters' });
+    }
+  });
+  
   // Get recent tracked recommendations
   app.get('/api/strategy/recommendations', async (req, res) => {
     try {
@@ -2059,30 +3486,128 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Run historical backtest
+  // Queue historical strategy backtest (result lands on the backtest run - see /api/backtest/:id)
   app.post('/api/strategy/backtest', async (req, res) => {
     try {
-      const { BacktestingEngine } = await import('./services/backtestingEngine');
+      const { backtestJobQueue } = await import('./services/backtestJobQueue');
+      const { EliteStrategyEngine } = await import('./services/eliteStrategyEngine');
       
-      const { startDate, endDate, initialCapital = 10000, maxPositionSize = 1000, scanInterval = 'weekly' } = req.body;
+      const { startDate, endDate, symbols = null, initialCapital = 10000, maxPositionSize = 1000, scanInterval = 'weekly' } = req.body;
       
       if (!startDate || !endDate) {
         return res.status(400).json({ message: 'startDate and endDate are required' });
       }
       
-      const engine = new BacktestingEngine();
-      const result = await engine.runBacktest({
+      // Replays the live Elite scanner filters through the shared simulator
+      const eliteConfig = EliteStrategyEngine.getInstance().getConfig();
+      const run = await backtestJobQueue.submit({
+        strategy: 'elite_scanner',
         startDate,
         endDate,
-        initialCapital,
-        maxPositionSize,
-        scanInterval
+        symbols,
+        budget: maxPositionSize,
+        stopLoss: eliteConfig.stopLoss,
+        profitTarget: eliteConfig.profitTarget,
+        maxHoldDays: 5,
+        scanInterval: scanInterval === 'daily' ? 'daily' : 'weekly',
+        startingCapital: initialCapital
       });
       
-      res.json(result);
+      res.status(202).json({
+        runId: run.id,
+        strategy: run.strategy,
+        status: run.status,
+        progress: backtestJobQueue.getProgress(run.id) || null
+      });
     } catch (error: any) {
       console.error('Error running backtest:', error);
-      res.status(500).json({ message: `Backtest failed: ${error.message}` });
+      res.status(500).json({ message: `Failed to queue backtest: ${error.message}` });
+    }
+  });
+  
+  // Walk-forward optimization of the Elite strategy parameters (runs in the background)
+  app.post('/api/strategy/optimize', async (req, res) => {
+    try {
+      const { walkForwardOptimizer, OptimizationConfigError } = await import('./services/walkForwardOptimizer');
+      
+      if (walkForwardOptimizer.isRunning()) {
+        return res.status(409).json({ message: 'An optimization is already running' });
+      }
+      
+      try {
+        const run = await walkForwardOptimizer.start(req.body || {});
+        res.status(202).json({
+          runId: run.id,
+          status: run.status,
+          windows: run.windows
+        });
+      } catch (error: any) {
+        if (error instanceof OptimizationConfigError) {
+          return res.status(error.statusCode).json({ message: error.message });
+        }
+        throw error;
+      }
+    } catch (error: any) {
+      console.error('Error starting optimization:', error);
+      res.status(500).json({ message: `Failed to start optimization: ${error.message}` });
+    }
+  });
+  
+  // Recent optimizations (summary only - candidates are on the detail endpoint)
+  app.get('/api/strategy/optimizations', async (req, res) => {
+    try {
+      const { walkForwardOptimizer } = await import('./services/walkForwardOptimizer');
+      const runs = await walkForwardOptimizer.listRuns();
+      
+      res.json(runs.map(({ candidates, ...run }) => ({
+        ...run,
+        candidateCount: Array.isArray(candidates) ? candidates.length : 0
+      })));
+    } catch (error: any) {
+      console.error('Error listing optimizations:', error);
+      res.status(500).json({ message: 'Failed to list optimizations' });
+    }
+  });
+  
+  // Full optimization report: windows plus in/out-of-sample metrics per candidate
+  app.get('/api/strategy/optimizations/:id', async (req, res) => {
+    try {
+      const { walkForwardOptimizer } = await import('./services/walkForwardOptimizer');
+      const run = await walkForwardOptimizer.getRun(req.params.id);
+      
+      if (!run) {
+        return res.status(404).json({ message: 'Optimization not found' });
+      }
+      
+      res.json(run);
+    } catch (error: any) {
+      console.error('Error fetching optimization:', error);
+      res.status(500).json({ message: 'Failed to fetch optimization' });
+    }
+  });
+  
+  // Write the winner (or a chosen candidate) as a proposed strategy_parameters version (needs approval)
+  app.post('/api/strategy/optimizations/:id/propose', async (req, res) => {
+    try {
+      const { walkForwardOptimizer, OptimizationConfigError } = await import('./services/walkForwardOptimizer');
+      const candidateId = req.body?.candidateId;
+      
+      if (candidateId !== undefined && !Number.isInteger(candidateId)) {
+        return res.status(400).json({ message: 'candidateId must be an integer' });
+      }
+      
+      try {
+        const version = await walkForwardOptimizer.proposeVersion(req.params.id, candidateId, req.body?.actor || undefined);
+        res.status(201).json({ version, status: 'proposed' });
+      } catch (error: any) {
+        if (error instanceof OptimizationConfigError) {
+          return res.status(error.statusCode).json({ message: error.message });
+        }
+        throw error;
+      }
+    } catch (error: any) {
+      console.error('Error proposing optimized parameters:', error);
+      res.status(500).json({ message: `Failed to propose optimized parameters: ${error.message}` });
     }
   });
   
@@ -0,0 +1,308 @@
+/**
+ * Account Goal Service
+ *
+ * Growth goals per broker account (start date/value → target value/date). Several goals can
+ * be active at once. Progress is measured on real net liquidating value history:
+ *
+ * - Tastytrade: the account's daily net-liq history since the goal's start date
+ * - Paper: `paper_equity_snapshots`
+ *
+ * The current balance is appended as today's point. When the broker returns neither history
+ * nor a balance, progress is reported as unavailable rather than measured from the start
+ * value. Required CAGR is the constant annual rate that turns the start value into the
+ * target by the target date; the planned path and milestone dates follow that rate.
+ */
+
+import { DateTime } from 'luxon';
+import { db } from '../db';
+import {
+  accountGoals,
+  type AccountGoal,
+  type AccountGoalProgress,
+  type GoalAccount,
+  type GoalMilestoneProgress,
+  type InsertAccountGoal,
+} from '@shared/schema';
+import { and, asc, eq } from 'drizzle-orm';
+import { tastytradeService } from './tastytradeService';
+import { paperBrokerService } from './paperBrokerService';
+import { marketCalendar } from './marketCalendar';
+
+export const GOAL_ACCOUNTS: GoalAccount[] = ['tastytrade', 'paper'];
+
+const DEFAULT_MILESTONE_COUNT = 4; // Geometric checkpoints between start and target
+const MIN_DAYS_FOR_ACHIEVED_CAGR = 30; // Annualizing a few days of returns is noise
+const DAYS_PER_YEAR = 365.25;
+
+type NetLiqPoint = { date: string; value: number };
+
+/**
+ * Invalid goal definition (400) or unknown goal (404)
+ */
+export class AccountGoalError extends Error {
+  constructor(message: string, public readonly statusCode: 400 | 404 = 400) {
+    super(message);
+    this.name = 'AccountGoalError';
+  }
+}
+
+export class AccountGoalService {
+  private static instance: AccountGoalService | null = null;
+
+  private constructor() {}
+
+  static getInstance(): AccountGoalService {
+    if (!AccountGoalService.instance) {
+      AccountGoalService.instance = new AccountGoalService();
+    }
+    return AccountGoalService.instance;
+  }
+
+  async list(account?: GoalAccount, includeArchived: boolean = false): Promise<AccountGoal[]> {
+    const conditions = [];
+    if (account) conditions.push(eq(accountGoals.account, account));
+    if (!includeArchived) conditions.push(eq(accountGoals.status, 'active'));
+
+    return db.select()
+      .from(accountGoals)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(accountGoals.targetDate), asc(accountGoals.createdAt));
+  }
+
+  async get(id: string): Promise<AccountGoal> {
+    const [goal] = await db.select().from(accountGoals).where(eq(accountGoals.id, id));
+    if (!goal) throw new AccountGoalError('Goal not found', 404);
+    return goal;
+  }
+
+  async create(data: InsertAccountGoal): Promise<AccountGoal> {
+    const values = this.validate(data);
+    const [goal] = await db.insert(accountGoals).values(values).returning();
+    console.log(`🎯 Goal "${goal.name}" (${goal.account}): $${goal.startValue.toFixed(2)} → $${goal.targetValue.toFixed(2)} by ${goal.targetDate}`);
+    return goal;
+  }
+
+  /**
+   * Change a goal's definition; milestones are regenerated when the range changes and none are given
+   */
+  async update(id: string, changes: Partial<InsertAccountGoal>): Promise<AccountGoal> {
+    const existing = await this.get(id);
+    const rangeChanged = changes.startValue !== undefined || changes.targetValue !== undefined;
+    const values = this.validate({
+      account: changes.account ?? existing.account,
+      name: changes.name ?? existing.name,
+      startDate: changes.startDate ?? existing.startDate,
+      startValue: changes.startValue ?? existing.startValue,
+      targetValue: changes.targetValue ?? existing.targetValue,
+      targetDate: changes.targetDate ?? existing.targetDate,
+      milestones: changes.milestones ?? (rangeChanged ? undefined : existing.milestones),
+    });
+
+    const [goal] = await db.update(accountGoals)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(accountGoals.id, id))
+      .returning();
+    return goal;
+  }
+
+  async archive(id: string): Promise<AccountGoal> {
+    await this.get(id);
+    const [goal] = await db.update(accountGoals)
+      .set({ status: 'archived', updatedAt: new Date() })
+      .where(eq(accountGoals.id, id))
+      .returning();
+    return goal;
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.get(id);
+    await db.delete(accountGoals).where(eq(accountGoals.id, id));
+  }
+
+  /**
+   * Progress of every active goal, sharing one history fetch per account
+   */
+  async listProgress(account?: GoalAccount): Promise<AccountGoalProgress[]> {
+    const goals = await this.list(account);
+    const histories = new Map<string, Promise<NetLiqPoint[] | null>>();
+
+    return Promise.all(goals.map(async goal => {
+      const earliest = goals
+        .filter(g => g.account === goal.account)
+        .reduce((min, g) => (g.startDate < min ? g.startDate : min), goal.startDate);
+      if (!histories.has(goal.account)) {
+        histories.set(goal.account, this.getNetLiqHistory(goal.account as GoalAccount, earliest));
+      }
+      const history = await histories.get(goal.account)!;
+      return this.computeProgress(goal, history && history.filter(p => p.date >= goal.startDate));
+    }));
+  }
+
+  async getProgress(id: string): Promise<AccountGoalProgress> {
+    const goal = await this.get(id);
+    const history = await this.getNetLiqHistory(goal.account as GoalAccount, goal.startDate);
+    return this.computeProgress(goal, history);
+  }
+
+  /**
+   * Daily net liquidating value since `startDate` with today's live balance as the last point,
+   * or null when the account reports neither (broker unavailable)
+   */
+  async getNetLiqHistory(account: GoalAccount, startDate: string): Promise<NetLiqPoint[] | null> {
+    let history: NetLiqPoint[];
+    let current: number;
+
+    if (account === 'paper') {
+      const [snapshots, balance] = await Promise.all([
+        paperBrokerService.getEquityHistory(),
+        paperBrokerService.fetchAccountBalance(),
+      ]);
+      history = snapshots
+        .filter(s => s.date >= startDate)
+        .map(s => ({ date: s.date, value: s.equity }));
+      current = balance.netLiquidatingValue;
+    } else {
+      const [netLiq, balance] = await Promise.all([
+        tastytradeService.fetchNetLiqHistory(startDate),
+        tastytradeService.fetchAccountBalance(),
+      ]);
+      history = netLiq;
+      current = balance.netLiquidatingValue;
+    }
+
+    if (current > 0) {
+      const today = marketCalendar.toExchangeDate(new Date());
+      history = history.filter(p => p.date !== today).concat({ date: today, value: current });
+    }
+    return history.length > 0 ? history : null;
+  }
+
+  computeProgress(goal: AccountGoal, history: NetLiqPoint[] | null, asOf: Date = new Date()): AccountGoalProgress {
+    const { startValue, targetValue } = goal;
+    const current = history && history.length > 0 ? history[history.length - 1].value : null;
+
+    const start = DateTime.fromISO(goal.startDate);
+    const end = DateTime.fromISO(goal.targetDate);
+    const now = DateTime.fromJSDate(asOf);
+    const totalYears = end.diff(start, 'days').days / DAYS_PER_YEAR;
+    const elapsedDays = Math.max(0, now.diff(start, 'days').days);
+    const elapsedYears = Math.min(elapsedDays / DAYS_PER_YEAR, totalYears);
+    const remainingYears = end.diff(now, 'days').days / DAYS_PER_YEAR;
+
+    const requiredRate = totalYears > 0 ? Math.pow(targetValue / startValue, 1 / totalYears) - 1 : null;
+    const remainingRate = remainingYears > 0 && current !== null && current > 0
+      ? Math.pow(targetValue / current, 1 / remainingYears) - 1
+      : null;
+    const achievedRate = elapsedDays >= MIN_DAYS_FOR_ACHIEVED_CAGR && current !== null && current > 0
+      ? Math.pow(current / startValue, DAYS_PER_YEAR / elapsedDays) - 1
+      : null;
+    const plannedValue = requiredRate !== null
+      ? startValue * Math.pow(1 + requiredRate, elapsedYears)
+      : startValue;
+
+    const milestones: GoalMilestoneProgress[] = goal.milestones.map(value => {
+      const reached = history?.find(p => p.value >= value);
+      const yearsToMilestone = requiredRate !== null && requiredRate > 0
+        ? Math.log(value / startValue) / Math.log(1 + requiredRate)
+        : totalYears;
+      return {
+        value,
+        reachedOn: reached?.date ?? null,
+        plannedBy: start.plus({ days: Math.round(yearsToMilestone * DAYS_PER_YEAR) }).toISODate()!,
+      };
+    });
+
+    const shared = {
+      goal,
+      target: targetValue,
+      requiredCAGR: requiredRate !== null ? requiredRate * 100 : null,
+      requiredCAGRFromNow: remainingRate !== null ? remainingRate * 100 : null,
+      achievedCAGR: achievedRate !== null ? achievedRate * 100 : null,
+      plannedValue,
+      milestones,
+      history: history ?? [],
+    };
+    if (current === null) {
+      return {
+        ...shared,
+        dataAvailable: false,
+        current: null,
+        progressPercent: null,
+        growthPercent: null,
+        remaining: null,
+        requiredMultiplier: null,
+        onTrack: null,
+      };
+    }
+
+    const progressPercent = ((current - startValue) / (targetValue - startValue)) * 100;
+    return {
+      ...shared,
+      dataAvailable: true,
+      current,
+      progressPercent: Math.min(100, Math.max(0, progressPercent)),
+      growthPercent: ((current - startValue) / startValue) * 100,
+      remaining: Math.max(0, targetValue - current),
+      requiredMultiplier: (current > 0 ? targetValue / current : 0).toFixed(2) + 'x',
+      onTrack: current >= plannedValue,
+    };
+  }
+
+  private validate(data: InsertAccountGoal): Omit<AccountGoal, 'id' | 'status' | 'createdAt' | 'updatedAt'> {
+    if (!GOAL_ACCOUNTS.includes(data.account as GoalAccount)) {
+      throw new AccountGoalError(`account must be one of: ${GOAL_ACCOUNTS.join(', ')}`);
+    }
+    if (!data.name.trim()) {
+      throw new AccountGoalError('name is required');
+    }
+    const start = DateTime.fromISO(data.startDate);
+    const end = DateTime.fromISO(data.targetDate);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(data.startDate) || !start.isValid) {
+      throw new AccountGoalError('startDate must be YYYY-MM-DD');
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(data.targetDate) || !end.isValid) {
+      throw new AccountGoalError('targetDate must be YYYY-MM-DD');
+    }
+    if (end <= start) {
+      throw new AccountGoalError('targetDate must be after startDate');
+    }
+    if (!Number.isFinite(data.startValue) || data.startValue <= 0) {
+      throw new AccountGoalError('startValue must be a positive number');
+    }
+    if (!Number.isFinite(data.targetValue) || data.targetValue <= data.startValue) {
+      throw new AccountGoalError('targetValue must be greater than startValue');
+    }
+
+    const milestones = data.milestones && data.milestones.length > 0
+      ? Array.from(new Set(data.milestones))
+          .filter(value => value > data.startValue && value < data.targetValue)
+          .sort((a, b) => a - b)
+      : this.defaultMilestones(data.startValue, data.targetValue);
+
+    return {
+      account: data.account,
+      name: data.name.trim(),
+      startDate: data.startDate,
+      startValue: data.startValue,
+      targetValue: data.targetValue,
+      targetDate: data.targetDate,
+      milestones,
+    };
+  }
+
+  /**
+   * Evenly spaced checkpoints on a log scale, so each one is the same multiple of the last
+   */
+  private defaultMilestones(startValue: number, targetValue: number): number[] {
+    const ratio = targetValue / startValue;
+    const milestones: number[] = [];
+    for (let k = 1; k <= DEFAULT_MILESTONE_COUNT; k++) {
+      const raw = startValue * Math.pow(ratio, k / (DEFAULT_MILESTONE_COUNT + 1));
+      const magnitude = Math.pow(10, Math.max(0, Math.floor(Math.log10(raw)) - 1));
+      milestones.push(Math.round(raw / magnitude) * magnitude);
+    }
+    return Array.from(new Set(milestones)).filter(v => v > startValue && v < targetValue);
+  }
+}
+
+export const accountGoalService = AccountGoalService.getInstance();
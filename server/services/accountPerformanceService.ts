@@ -0,0 +1,563 @@
+/**
+ * Account Performance Service
+ *
+ * Daily equity history and return analytics per broker account (Tastytrade and paper):
+ *
+ * - At 4:10 PM ET on trading days (after the paper broker's 4:05 PM snapshot) each account's
+ *   net liquidating value, cash, realized and unrealized P/L and external cash flows are
+ *   written to `account_equity_snapshots`
+ * - Earlier history can be backfilled from Tastytrade's net-liq history and money movements,
+ *   or from the paper equity snapshots; backfilled rows never overwrite recorded ones
+ * - Returns are time-weighted: a day's deposits and withdrawals are taken out of its return
+ *   (they are assumed to land at the close), so funding the account doesn't read as performance
+ * - SPY daily closes from the historical bar store are the benchmark
+ */
+
+import { DateTime } from 'luxon';
+import { db } from '../db';
+import {
+  accountEquitySnapshots,
+  appConfig,
+  type AccountEquitySnapshot,
+  type AccountLifetimePnL,
+  type AccountMonthlyReturn,
+  type AccountPerformance,
+  type AccountPerformancePoint,
+  type EquityAccount,
+  type InsertAccountEquitySnapshot,
+  type PerformanceMetrics,
+} from '@shared/schema';
+import { and, asc, desc, eq, gte, lt, lte } from 'drizzle-orm';
+import { tastytradeService } from './tastytradeService';
+import { paperBrokerService } from './paperBrokerService';
+import { historicalDataCache } from './historicalDataCache';
+import { marketCalendar } from './marketCalendar';
+
+export const EQUITY_ACCOUNTS: EquityAccount[] = ['tastytrade', 'paper'];
+
+const BENCHMARK_SYMBOL = 'SPY';
+const SNAPSHOT_HOUR_ET = 16;
+const SNAPSHOT_MINUTE_ET = 10;
+const TRADING_DAYS_PER_YEAR = 252;
+const MIN_RETURNS_FOR_RISK = 20; // Volatility, Sharpe, beta and correlation need a few weeks of returns
+const MIN_DAYS_FOR_ANNUALIZED = 30;
+const CASH_FLOW_CACHE_MS = 60 * 60 * 1000; // Deposits are rare; the all-time history is re-read hourly
+
+/**
+ * Invalid performance request (unknown account, malformed date)
+ */
+export class AccountPerformanceError extends Error {
+  constructor(message: string, public readonly statusCode: 400 = 400) {
+    super(message);
+    this.name = 'AccountPerformanceError';
+  }
+}
+
+export class AccountPerformanceService {
+  private static instance: AccountPerformanceService | null = null;
+  private snapshotTimeout: NodeJS.Timeout | null = null;
+  private cashFlowCache: { flows: { date: string; amount: number }[]; fetchedAt: number } | null = null;
+
+  private constructor() {}
+
+  static getInstance(): AccountPerformanceService {
+    if (!AccountPerformanceService.instance) {
+      AccountPerformanceService.instance = new AccountPerformanceService();
+    }
+    return AccountPerformanceService.instance;
+  }
+
+  start(): void {
+    if (this.snapshotTimeout) return;
+    this.scheduleNextSnapshot();
+    console.log('📊 Account equity snapshots scheduled (4:10 PM ET on trading days)');
+  }
+
+  stop(): void {
+    if (this.snapshotTimeout) {
+      clearTimeout(this.snapshotTimeout);
+      this.snapshotTimeout = null;
+    }
+  }
+
+  /**
+   * Record the closing snapshot of every account for `date`
+   */
+  async snapshotAll(date: string = marketCalendar.toExchangeDate()): Promise<AccountEquitySnapshot[]> {
+    const snapshots: AccountEquitySnapshot[] = [];
+    for (const account of EQUITY_ACCOUNTS) {
+      try {
+        const snapshot = await this.snapshot(account, date);
+        if (snapshot) snapshots.push(snapshot);
+      } catch (error: any) {
+        console.error(`❌ ${account} equity snapshot failed:`, error.message);
+      }
+    }
+    return snapshots;
+  }
+
+  /**
+   * Record (or replace) one account's snapshot for `date`. Returns null when the broker
+   * reports no balance (not connected).
+   */
+  async snapshot(account: EquityAccount, date: string = marketCalendar.toExchangeDate()): Promise<AccountEquitySnapshot | null> {
+    this.assertAccount(account);
+    const [previous] = await db.select()
+      .from(accountEquitySnapshots)
+      .where(and(eq(accountEquitySnapshots.account, account), lt(accountEquitySnapshots.date, date)))
+      .orderBy(desc(accountEquitySnapshots.date))
+      .limit(1);
+
+    const values = account === 'paper'
+      ? await this.capturePaper(date, previous)
+      : await this.captureTastytrade(date, previous);
+    if (!values) {
+      console.warn(`⚠️ ${account}: no balance available, equity snapshot skipped`);
+      return null;
+    }
+
+    const [snapshot] = await db.insert(accountEquitySnapshots)
+      .values(values)
+      .onConflictDoUpdate({
+        target: [accountEquitySnapshots.account, accountEquitySnapshots.date],
+        set: values,
+      })
+      .returning();
+
+    console.log(`📊 ${account} equity ${date}: $${snapshot.netLiquidatingValue.toFixed(2)} (realized $${(snapshot.realizedPnL ?? 0).toFixed(2)}, flows $${snapshot.netDeposits.toFixed(2)})`);
+    return snapshot;
+  }
+
+  /**
+   * Fill days before snapshots began from broker history. Returns the number of rows added.
+   */
+  async backfill(account: EquityAccount, startDate: string): Promise<number> {
+    this.assertAccount(account);
+    this.assertDate(startDate, 'startDate');
+
+    let rows: InsertAccountEquitySnapshot[];
+    if (account === 'paper') {
+      const history = (await paperBrokerService.getEquityHistory()).filter(s => s.date >= startDate);
+      rows = history.map((s, i) => ({
+        account,
+        date: s.date,
+        netLiquidatingValue: s.equity,
+        cashBalance: s.cash,
+        realizedPnL: s.realizedPnL - (i > 0 ? history[i - 1].realizedPnL : 0),
+        unrealizedPnL: s.unrealizedPnL,
+        netDeposits: 0,
+        source: 'backfill',
+      }));
+    } else {
+      const [history, flows] = await Promise.all([
+        tastytradeService.fetchNetLiqHistory(startDate),
+        tastytradeService.fetchCashFlows(startDate),
+      ]);
+      if (flows === null) {
+        console.warn('⚠️ Tastytrade cash flows unavailable; backfilled returns will include deposits');
+      }
+      // A flow on a day without a net-liq point (weekend, holiday) belongs to the next point
+      const flowsByDate = new Map<string, number>();
+      for (const flow of flows ?? []) {
+        const point = history.find(p => p.date >= flow.date);
+        if (point) flowsByDate.set(point.date, (flowsByDate.get(point.date) ?? 0) + flow.amount);
+      }
+      rows = history.map(point => ({
+        account,
+        date: point.date,
+        netLiquidatingValue: point.value,
+        cashBalance: null,
+        realizedPnL: null,
+        unrealizedPnL: null,
+        netDeposits: flowsByDate.get(point.date) ?? 0,
+        source: 'backfill',
+      }));
+    }
+
+    if (rows.length === 0) return 0;
+    const inserted = await db.insert(accountEquitySnapshots)
+      .values(rows)
+      .onConflictDoNothing({ target: [accountEquitySnapshots.account, accountEquitySnapshots.date] })
+      .returning();
+    console.log(`📊 ${account}: backfilled ${inserted.length} of ${rows.length} days since ${startDate}`);
+    return inserted.length;
+  }
+
+  async getSnapshots(account: EquityAccount, startDate?: string, endDate?: string): Promise<AccountEquitySnapshot[]> {
+    this.assertAccount(account);
+    if (startDate) this.assertDate(startDate, 'startDate');
+    if (endDate) this.assertDate(endDate, 'endDate');
+
+    const conditions = [eq(accountEquitySnapshots.account, account)];
+    if (startDate) conditions.push(gte(accountEquitySnapshots.date, startDate));
+    if (endDate) conditions.push(lte(accountEquitySnapshots.date, endDate));
+    return db.select()
+      .from(accountEquitySnapshots)
+      .where(and(...conditions))
+      .orderBy(asc(accountEquitySnapshots.date));
+  }
+
+  async getPerformance(account: EquityAccount, startDate?: string, endDate?: string): Promise<AccountPerformance> {
+    const snapshots = await this.getSnapshots(account, startDate, endDate);
+    const benchmarkCloses = snapshots.length > 1
+      ? await this.getBenchmarkCloses(snapshots[0].date, snapshots[snapshots.length - 1].date)
+      : new Map<string, number>();
+    return this.computePerformance(account, snapshots, benchmarkCloses);
+  }
+
+  /**
+   * Time-weighted return, drawdown, risk and monthly returns from daily snapshots (oldest first)
+   */
+  computePerformance(
+    account: EquityAccount,
+    snapshots: Pick<AccountEquitySnapshot, 'date' | 'netLiquidatingValue' | 'netDeposits'>[],
+    benchmarkCloses: Map<string, number>
+  ): AccountPerformance {
+    const series: AccountPerformancePoint[] = [];
+    const returns: number[] = [];
+    const benchmarkReturns: (number | null)[] = [];
+    const monthly = new Map<string, { growth: number; benchmarkGrowth: number | null }>();
+
+    let index = 1;
+    let peak = 1;
+    let peakDate: string | null = null;
+    let maxDrawdown = 0;
+    let maxDrawdownPeak: string | null = null;
+    let maxDrawdownTrough: string | null = null;
+    let netDeposits = 0;
+    let benchmarkBase: number | null = null;
+    let previousBenchmark: number | null = null;
+
+    snapshots.forEach((snapshot, i) => {
+      const benchmarkClose = this.closeOnOrBefore(benchmarkCloses, snapshot.date);
+      if (i === 0) {
+        benchmarkBase = benchmarkClose;
+        previousBenchmark = benchmarkClose;
+        peakDate = snapshot.date;
+        series.push({ date: snapshot.date, value: snapshot.netLiquidatingValue, netDeposits: snapshot.netDeposits, twr: 0, drawdown: 0, benchmark: benchmarkClose !== null ? 0 : null });
+        return;
+      }
+
+      const prior = snapshots[i - 1].netLiquidatingValue;
+      netDeposits += snapshot.netDeposits;
+      const dailyReturn = prior > 0 ? (snapshot.netLiquidatingValue - snapshot.netDeposits) / prior - 1 : 0;
+      const benchmarkReturn = benchmarkClose !== null && previousBenchmark !== null && previousBenchmark > 0
+        ? benchmarkClose / previousBenchmark - 1
+        : null;
+      if (benchmarkClose !== null) previousBenchmark = benchmarkClose;
+      if (benchmarkBase === null) benchmarkBase = benchmarkClose;
+
+      returns.push(dailyReturn);
+      benchmarkReturns.push(benchmarkReturn);
+      index *= 1 + dailyReturn;
+
+      const month = snapshot.date.slice(0, 7);
+      const bucket = monthly.get(month) ?? { growth: 1, benchmarkGrowth: null };
+      bucket.growth *= 1 + dailyReturn;
+      if (benchmarkReturn !== null) bucket.benchmarkGrowth = (bucket.benchmarkGrowth ?? 1) * (1 + benchmarkReturn);
+      monthly.set(month, bucket);
+
+      if (index > peak) {
+        peak = index;
+        peakDate = snapshot.date;
+      }
+      const drawdown = index / peak - 1;
+      if (drawdown < maxDrawdown) {
+        maxDrawdown = drawdown;
+        maxDrawdownPeak = peakDate;
+        maxDrawdownTrough = snapshot.date;
+      }
+
+      series.push({
+        date: snapshot.date,
+        value: snapshot.netLiquidatingValue,
+        netDeposits: snapshot.netDeposits,
+        twr: (index - 1) * 100,
+        drawdown: drawdown * 100,
+        benchmark: benchmarkClose !== null && benchmarkBase ? (benchmarkClose / benchmarkBase - 1) * 100 : null,
+      });
+    });
+
+    const first = snapshots[0];
+    const last = snapshots[snapshots.length - 1];
+    const days = first && last ? DateTime.fromISO(last.date).diff(DateTime.fromISO(first.date), 'days').days : 0;
+    const twr = (index - 1) * 100;
+    const benchmarkReturn = series.length > 1 ? series[series.length - 1].benchmark : null;
+
+    const volatilityDaily = returns.length >= MIN_RETURNS_FOR_RISK ? this.stdDev(returns) : null;
+    const meanDaily = returns.length > 0 ? returns.reduce((sum, r) => sum + r, 0) / returns.length : 0;
+    const paired = returns
+      .map((r, i) => [r, benchmarkReturns[i]] as const)
+      .filter((pair): pair is readonly [number, number] => pair[1] !== null);
+    const { beta, correlation } = this.regression(paired);
+
+    const monthlyReturns: AccountMonthlyReturn[] = Array.from(monthly.entries()).map(([month, bucket]) => ({
+      month,
+      return: (bucket.growth - 1) * 100,
+      benchmark: bucket.benchmarkGrowth !== null ? (bucket.benchmarkGrowth - 1) * 100 : null,
+    }));
+
+    return {
+      account,
+      startDate: first?.date ?? null,
+      endDate: last?.date ?? null,
+      days: Math.round(days),
+      startValue: first?.netLiquidatingValue ?? 0,
+      endValue: last?.netLiquidatingValue ?? 0,
+      netDeposits,
+      totalPnL: first && last ? last.netLiquidatingValue - first.netLiquidatingValue - netDeposits : 0,
+      twr,
+      annualizedReturn: days >= MIN_DAYS_FOR_ANNUALIZED ? (Math.pow(index, 365.25 / days) - 1) * 100 : null,
+      volatility: volatilityDaily !== null ? volatilityDaily * Math.sqrt(TRADING_DAYS_PER_YEAR) * 100 : null,
+      sharpeRatio: volatilityDaily ? (meanDaily / volatilityDaily) * Math.sqrt(TRADING_DAYS_PER_YEAR) : null,
+      maxDrawdown: maxDrawdown * 100,
+      maxDrawdownPeak,
+      maxDrawdownTrough,
+      currentDrawdown: (index / peak - 1) * 100,
+      benchmark: {
+        symbol: BENCHMARK_SYMBOL,
+        return: benchmarkReturn,
+        excessReturn: benchmarkReturn !== null ? twr - benchmarkReturn : null,
+        beta,
+        correlation,
+      },
+      monthlyReturns,
+      series,
+    };
+  }
+
+  /**
+   * Return fields of the performance metrics card, from the equity history
+   */
+  toPerformanceMetrics(performance: AccountPerformance): Pick<PerformanceMetrics,
+    'totalReturn' | 'totalReturnPercent' | 'sharpeRatio' | 'maxDrawdown' | 'monthlyReturns' | 'benchmarkReturn' | 'performanceSince'> {
+    return {
+      totalReturn: performance.totalPnL,
+      totalReturnPercent: performance.twr,
+      sharpeRatio: performance.sharpeRatio,
+      maxDrawdown: performance.maxDrawdown,
+      monthlyReturns: performance.monthlyReturns.slice(-12).map(m => ({
+        month: DateTime.fromISO(`${m.month}-01`).toFormat('LLL yyyy'),
+        return: m.return,
+        benchmark: m.benchmark,
+      })),
+      benchmarkReturn: performance.benchmark.return,
+      performanceSince: performance.startDate,
+    };
+  }
+
+  /**
+   * Tastytrade lifetime P/L: net liquidating value minus all-time net deposits, of which the
+   * part not in open positions is realized. Falls back to the manual baseline adjustment in
+   * app_config when the money movement history can't be read.
+   */
+  async getLifetimePnL(): Promise<AccountLifetimePnL> {
+    const [balance, positions, flows] = await Promise.all([
+      tastytradeService.fetchAccountBalance(),
+      tastytradeService.fetchPositions(),
+      this.getAllTimeCashFlows(),
+    ]);
+
+    if (flows !== null && balance.netLiquidatingValue > 0) {
+      const netContributions = flows.reduce((sum, f) => sum + f.amount, 0);
+      const totalPnL = balance.netLiquidatingValue - netContributions;
+      const unrealizedPnL = this.unrealizedFromBalance(balance, positions);
+      return {
+        lifetimeRealized: totalPnL - unrealizedPnL,
+        totalPnL,
+        unrealizedPnL,
+        netContributions,
+        source: 'transactions',
+        baselineAdjustment: 0,
+      };
+    }
+
+    const [baselineConfig] = await db.select()
+      .from(appConfig)
+      .where(eq(appConfig.key, 'pnl_baseline_adjustment'))
+      .limit(1);
+    const baseline = baselineConfig ? parseFloat(baselineConfig.value) : 0;
+    return {
+      lifetimeRealized: baseline,
+      totalPnL: null,
+      unrealizedPnL: null,
+      netContributions: null,
+      source: 'baseline',
+      baselineAdjustment: baseline,
+    };
+  }
+
+  private async captureTastytrade(
+    date: string,
+    previous: AccountEquitySnapshot | undefined
+  ): Promise<InsertAccountEquitySnapshot | null> {
+    // Flows since the previous snapshot, so deposits on days without one aren't counted as returns
+    const [balance, positions, flows] = await Promise.all([
+      tastytradeService.fetchAccountBalance(),
+      tastytradeService.fetchPositions(),
+      tastytradeService.fetchCashFlows(previous?.date ?? date, date),
+    ]);
+    if (!(balance.netLiquidatingValue > 0)) return null;
+    if (flows === null) {
+      console.warn(`⚠️ Tastytrade cash flows unavailable for ${date}; recorded as none`);
+    }
+
+    const netDeposits = (flows ?? [])
+      .filter(f => !previous || f.date > previous.date)
+      .reduce((sum, f) => sum + f.amount, 0);
+    const unrealizedPnL = this.unrealizedFromBalance(balance, positions);
+
+    // P/L since the previous snapshot that isn't a change in open positions' unrealized was
+    // realized (closes, expirations, fees, interest)
+    const realizedPnL = previous && previous.unrealizedPnL !== null
+      ? (balance.netLiquidatingValue - previous.netLiquidatingValue - netDeposits) - (unrealizedPnL - previous.unrealizedPnL)
+      : (await tastytradeService.fetchTodayPnL()).realized;
+
+    return {
+      account: 'tastytrade',
+      date,
+      netLiquidatingValue: balance.netLiquidatingValue,
+      cashBalance: balance.cashBalance,
+      realizedPnL,
+      unrealizedPnL,
+      netDeposits,
+      source: 'snapshot',
+    };
+  }
+
+  private async capturePaper(
+    date: string,
+    previous: AccountEquitySnapshot | undefined
+  ): Promise<InsertAccountEquitySnapshot | null> {
+    const [account, balance, history] = await Promise.all([
+      paperBrokerService.getAccount(),
+      paperBrokerService.fetchAccountBalance(),
+      paperBrokerService.getEquityHistory(),
+    ]);
+
+    // Paper realized P/L is cumulative since the last reset, which also clears the equity history
+    const priorPaper = history.filter(s => s.date < date).pop();
+    const realizedPnL = balance.realizedPnL - (priorPaper?.realizedPnL ?? 0);
+
+    // A reset withdraws the old equity and deposits the new starting cash
+    const resetDate = account.resetAt ? marketCalendar.toExchangeDate(account.resetAt) : null;
+    const netDeposits = previous && resetDate && resetDate > previous.date && resetDate <= date
+      ? account.startingCash - previous.netLiquidatingValue
+      : 0;
+
+    return {
+      account: 'paper',
+      date,
+      netLiquidatingValue: balance.netLiquidatingValue,
+      cashBalance: balance.cashBalance,
+      realizedPnL,
+      unrealizedPnL: balance.unrealizedPnL,
+      netDeposits,
+      source: 'snapshot',
+    };
+  }
+
+  /**
+   * Open positions' unrealized P/L as the broker marks them: value beyond cash, less cost basis
+   */
+  private unrealizedFromBalance(
+    balance: { netLiquidatingValue: number; cashBalance: number },
+    positions: any[]
+  ): number {
+    const costBasis = positions.reduce(
+      (sum, p) => sum + p.avgCost * p.quantity * (p.tastytradeData?.multiplier ?? 1),
+      0
+    );
+    return balance.netLiquidatingValue - balance.cashBalance - costBasis;
+  }
+
+  private async getAllTimeCashFlows(): Promise<{ date: string; amount: number }[] | null> {
+    if (this.cashFlowCache && Date.now() - this.cashFlowCache.fetchedAt < CASH_FLOW_CACHE_MS) {
+      return this.cashFlowCache.flows;
+    }
+    const flows = await tastytradeService.fetchCashFlows();
+    if (flows !== null) {
+      this.cashFlowCache = { flows, fetchedAt: Date.now() };
+    }
+    return flows;
+  }
+
+  private async getBenchmarkCloses(startDate: string, endDate: string): Promise<Map<string, number>> {
+    // Start a week early so the first snapshot has a close on or before it
+    const from = DateTime.fromISO(startDate).minus({ days: 7 }).toISODate()!;
+    const bars = await historicalDataCache.getBars(BENCHMARK_SYMBOL, from, endDate).catch(error => {
+      console.warn(`⚠️ ${BENCHMARK_SYMBOL} benchmark bars unavailable:`, error.message);
+      return [];
+    });
+    return new Map(bars.map(bar => [marketCalendar.toExchangeDate(new Date(bar.timestamp)), bar.close]));
+  }
+
+  private closeOnOrBefore(closes: Map<string, number>, date: string): number | null {
+    let found: number | null = null;
+    let foundDate = '';
+    for (const [closeDate, close] of Array.from(closes.entries())) {
+      if (closeDate <= date && closeDate > foundDate) {
+        found = close;
+        foundDate = closeDate;
+      }
+    }
+    return found;
+  }
+
+  private stdDev(values: number[]): number {
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1);
+    return Math.sqrt(variance);
+  }
+
+  private regression(pairs: (readonly [number, number])[]): { beta: number | null; correlation: number | null } {
+    if (pairs.length < MIN_RETURNS_FOR_RISK) return { beta: null, correlation: null };
+    const meanA = pairs.reduce((sum, [a]) => sum + a, 0) / pairs.length;
+    const meanB = pairs.reduce((sum, [, b]) => sum + b, 0) / pairs.length;
+    let covariance = 0;
+    let varianceA = 0;
+    let varianceB = 0;
+    for (const [a, b] of pairs) {
+      covariance += (a - meanA) * (b - meanB);
+      varianceA += (a - meanA) ** 2;
+      varianceB += (b - meanB) ** 2;
+    }
+    return {
+      beta: varianceB > 0 ? covariance / varianceB : null,
+      correlation: varianceA > 0 && varianceB > 0 ? covariance / Math.sqrt(varianceA * varianceB) : null,
+    };
+  }
+
+  private assertAccount(account: string): asserts account is EquityAccount {
+    if (!EQUITY_ACCOUNTS.includes(account as EquityAccount)) {
+      throw new AccountPerformanceError(`account must be one of: ${EQUITY_ACCOUNTS.join(', ')}`);
+    }
+  }
+
+  private assertDate(date: string, field: string): void {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !DateTime.fromISO(date).isValid) {
+      throw new AccountPerformanceError(`${field} must be YYYY-MM-DD`);
+    }
+  }
+
+  /**
+   * Next snapshot at 4:10 PM ET, after the paper broker settles and snapshots at 4:05 PM
+   */
+  private scheduleNextSnapshot(): void {
+    const nowET = DateTime.now().setZone('America/New_York');
+    let targetET = nowET.set({ hour: SNAPSHOT_HOUR_ET, minute: SNAPSHOT_MINUTE_ET, second: 0, millisecond: 0 });
+    if (nowET >= targetET) {
+      targetET = targetET.plus({ days: 1 });
+    }
+
+    this.snapshotTimeout = setTimeout(async () => {
+      const date = targetET.toFormat('yyyy-MM-dd');
+      if (marketCalendar.isTradingDay(date)) {
+        await this.snapshotAll(date);
+      }
+      this.scheduleNextSnapshot();
+    }, targetET.toMillis() - nowET.toMillis());
+  }
+}
+
+export const accountPerformanceService = AccountPerformanceService.getInstance();
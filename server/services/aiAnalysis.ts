@@ -1,4 +1,4 @@
-import type { TradeRecommendation, MarketOverviewData, Greeks } from '@shared/schema';
+import type { TradeRecommendation, MarketOverviewData, Greeks, SectorData } from '@shared/schema';
 import { WebScraperService, type OptionsChain } from './webScraper';
 import { polygonService } from './polygonService';
 import { batchDataService } from './batchDataService';
@@ -6,6 +6,8 @@ import { FibonacciService } from './fibonacciService';
 import { expirationService, type ExpirationDate } from './expirationService';
 import { EliteStrategyEngine } from './eliteStrategyEngine';
 import { RecommendationTracker } from './recommendationTracker';
+import { executionCostModel } from './executionCostModel';
+import { sectorPerformanceService } from './sectorPerformanceService';
 
 // Options Market Standards
 class OptionsMarketStandards {
@@ -261,6 +263,28 @@ class BlackScholesCalculator {
   }
 }
 
+/**
+ * SPX day-trading formula (shared with the backtester)
+ * VIX > 18 AND RSI > 70 (overbought) = SELL signal (PUT)
+ * Everything else = BUY signal (CALL)
+ */
+export function classifyDayTradeSignal(vixValue: number, rsi: number): { optionType: 'call' | 'put'; signal: string } {
+  if (vixValue > 18 && rsi > 70) {
+    // ONLY SELL when BOTH conditions are met
+    return { optionType: 'put', signal: 'SELL - High VIX + Overbought RSI' };
+  }
+  
+  // ALL OTHER CASES = BUY (CALL)
+  if (rsi < 30) {
+    return { optionType: 'call', signal: 'BUY - Oversold RSI (Strong)' };
+  } else if (vixValue <= 18) {
+    return { optionType: 'call', signal: 'BUY - Low VIX' };
+  } else if (vixValue > 18 && rsi >= 30 && rsi <= 70) {
+    return { optionType: 'call', signal: 'BUY - Elevated VIX, Normal RSI' };
+  }
+  return { optionType: 'call', signal: 'BUY - Default Bullish' };
+}
+
 export class AIAnalysisService {
   // Elite Strategy Engine (self-learning system - singleton shared across all services)
   private static readonly eliteStrategy = EliteStrategyEngine.getInstance();
@@ -1066,6 +1090,12 @@ export class AIAnalysisService {
       const totalExitValue = optionsStrategy.contracts * optionsStrategy.exitPrice * contractMultiplier;
       const profit = totalExitValue - totalCost; // Estimated profit in dollars
       const projectedROI = (profit / totalCost) * 100; // ROI percentage
+      const { netROI: netProjectedROI, totalCosts: executionCost } = executionCostModel.calculateRoundTrip({
+        ticker,
+        contracts: optionsStrategy.contracts,
+        entryPremium: optionsStrategy.premium,
+        exitPremium: optionsStrategy.exitPrice
+      });
 
       // Filter: Only elite opportunities with 100%+ ROI potential
       if (projectedROI < 100) {
@@ -1096,6 +1126,8 @@ export class AIAnalysisService {
         totalCost: optionsStrategy.totalCost,
         contracts: optionsStrategy.contracts,
         projectedROI,
+        netProjectedROI,
+        executionCost,
         aiConfidence,
         greeks,
         sentiment: isBullishMarket ? 0.8 : isBearishMarket ? 0.2 : 0.5,
@@ -1139,29 +1171,7 @@ export class AIAnalysisService {
       console.log(`RSI: ${rsi.toFixed(2)}`);
       
       // DAY TRADING FORMULA
-      // VIX > 18 AND RSI > 70 (overbought) = SELL signal (PUT)
-      // Everything else = BUY signal (CALL)
-      let strategyType: 'call' | 'put';
-      let signal: string;
-      
-      if (vixValue > 18 && rsi > 70) {
-        // ONLY SELL when BOTH conditions are met
-        strategyType = 'put';
-        signal = 'SELL - High VIX + Overbought RSI';
-      } else {
-        // ALL OTHER CASES = BUY (CALL)
-        strategyType = 'call';
-        
-        if (rsi < 30) {
-          signal = 'BUY - Oversold RSI (Strong)';
-        } else if (vixValue <= 18) {
-          signal = 'BUY - Low VIX';
-        } else if (vixValue > 18 && rsi >= 30 && rsi <= 70) {
-          signal = 'BUY - Elevated VIX, Normal RSI';
-        } else {
-          signal = 'BUY - Default Bullish';
-        }
-      }
+      const { optionType: strategyType, signal } = classifyDayTradeSignal(vixValue, rsi);
       
       console.log(`${ticker}: ${signal} → ${strategyType.toUpperCase()}`);
       
@@ -1208,6 +1218,12 @@ export class AIAnalysisService {
       const totalExitValue = optionsStrategy.contracts * optionsStrategy.exitPrice * contractMultiplier;
       const profit = totalExitValue - totalCost; // Estimated profit in dollars
       const projectedROI = (profit / totalCost) * 100; // ROI percentage
+      const { netROI: netProjectedROI, totalCosts: executionCost } = executionCostModel.calculateRoundTrip({
+        ticker,
+        contracts: optionsStrategy.contracts,
+        entryPremium: optionsStrategy.premium,
+        exitPremium: optionsStrategy.exitPrice
+      });
       
       // Day trading confidence (higher for strong VIX+RSI signals)
       let confidence = 0.70; // Base day trading confidence
@@ -1246,6 +1262,8 @@ export class AIAnalysisService {
         totalCost: optionsStrategy.totalCost,
         contracts: optionsStrategy.contracts,
         projectedROI,
+        netProjectedROI,
+        executionCost,
         aiConfidence: confidence,
         greeks,
         sentiment: vixValue / 100, // Use VIX as sentiment proxy for day trading
@@ -1659,14 +1677,7 @@ export class AIAnalysisService {
   static async generateMarketInsights(): Promise<any> {
     try {
       const marketData = await WebScraperService.scrapeMarketIndices();
-      const sectorData = [
-        { name: 'Tech', change: 2.1 },
-        { name: 'Energy', change: -0.8 },
-        { name: 'Finance', change: 0.4 },
-        { name: 'Health', change: 1.2 },
-        { name: 'Retail', change: -0.3 },
-        { name: 'AI/ML', change: 3.4 }
-      ];
+      const sectorData = await this.getSectorData();
       
       return this.createInsightsFromRules(marketData, sectorData);
       
@@ -1687,7 +1698,7 @@ export class AIAnalysisService {
     }
   }
 
-  private static createInsightsFromRules(marketData: any, sectorData: any[]): any {
+  private static createInsightsFromRules(marketData: any, sectorData: SectorData[]): any {
     // Calculate market confidence
     const spxChange = marketData.sp500?.changePercent || 0;
     const nasdaqChange = marketData.nasdaq?.changePercent || 0;
@@ -1705,7 +1716,7 @@ export class AIAnalysisService {
     
     // Sector breadth analysis
     const positiveSectors = sectorData.filter(s => s.change > 0).length;
-    const sectorBreadth = positiveSectors / sectorData.length;
+    const sectorBreadth = sectorData.length > 0 ? positiveSectors / sectorData.length : 0.5;
     marketConfidence += (sectorBreadth - 0.5) * 0.2;
     
     marketConfidence = Math.max(0.2, Math.min(0.95, marketConfidence));
@@ -1759,18 +1770,22 @@ export class AIAnalysisService {
 
   private static async scrapeMarketDataForAnalysis(): Promise<any> {
     const marketData = await WebScraperService.scrapeMarketIndices();
-    const sectorData = [
-      { name: 'Tech', change: 2.1 },
-      { name: 'Energy', change: -0.8 },
-      { name: 'Finance', change: 0.4 },
-      { name: 'Health', change: 1.2 },
-      { name: 'Retail', change: -0.3 },
-      { name: 'AI/ML', change: 3.4 }
-    ];
+    const sectorData = await this.getSectorData();
     
     return { marketData, sectorData };
   }
 
+  // Live 1-day sector moves from the SIC-classified bulk snapshot (empty if unavailable)
+  private static async getSectorData(): Promise<SectorData[]> {
+    try {
+      const snapshot = await sectorPerformanceService.getSectorPerformance();
+      return snapshot.sectors.map(sector => ({ name: sector.name, change: sector.change }));
+    } catch (error: any) {
+      console.warn('⚠️ Sector performance unavailable for market analysis:', error.message);
+      return [];
+    }
+  }
+
   private static async calculateRSI(ticker: string): Promise<number> {
     // Calculate RSI from current price volatility plus ticker-specific momentum
     try {
@@ -1,100 +1,277 @@
 import { historicalDataService } from './historicalDataService';
 import { BlackScholesCalculator } from './financialCalculations';
+import { marketCalendar } from './marketCalendar';
+import { getBacktestStrategy, type BacktestStrategy, type StrategyEntrySignal } from './backtestStrategies';
+import type { PriceBar } from './liveDataAdapter';
+import { executionCostModel, type ExecutionCostConfig, type QuoteSide, type RoundTripCosts } from './executionCostModel';
+import { optionChainArchive } from './optionChainArchive';
 import { db } from '../db';
-import { backtestRuns, backtestTrades, type InsertBacktestRun, type InsertBacktestTrade } from '@shared/schema';
+import { backtestRuns, backtestTrades, backtestEquity, type ArchivedOptionContract, type BacktestStrategyId, type InsertBacktestEquityPoint } from '@shared/schema';
 import { eq } from 'drizzle-orm';
 
-interface BacktestConfig {
+/**
+ * Hooks a job runner passes to the engine so long runs can report progress and be stopped
+ */
+export interface BacktestRunContext {
+  reportProgress(percent: number, currentDate?: string | null, message?: string): void;
+  isCancelled(): boolean;
+}
+
+/**
+ * Thrown from inside the engine when its run context has been cancelled
+ */
+export class BacktestCancelledError extends Error {
+  constructor() {
+    super('Backtest cancelled');
+    this.name = 'BacktestCancelledError';
+  }
+}
+
+/**
+ * Where the simulator reads daily bars from (Polygon-backed by default)
+ */
+export interface BacktestBarSource {
+  getDailyBars(symbol: string, startDate: string, endDate: string): Promise<PriceBar[]>;
+  getVIXHistory(startDate: string, endDate: string): Promise<PriceBar[]>;
+}
+
+const defaultBarSource: BacktestBarSource = {
+  getDailyBars: (symbol, startDate, endDate) => symbol === 'SPX'
+    ? historicalDataService.getSPXHistory(startDate, endDate)
+    : historicalDataService.getDailyBars(symbol, startDate, endDate),
+  getVIXHistory: (startDate, endDate) => historicalDataService.getVIXHistory(startDate, endDate),
+};
+
+/**
+ * Where the simulator reads real option premiums from (the point-in-time chain archive by default).
+ * Returns the chain as known at the day's close, or null when nothing was archived that day.
+ */
+export interface BacktestChainSource {
+  getChain(symbol: string, date: string): Promise<ArchivedOptionContract[] | null>;
+}
+
+const defaultChainSource: BacktestChainSource = {
+  getChain: async (symbol, date) => (await optionChainArchive.getSnapshot(symbol, date))?.chain ?? null,
+};
+
+/**
+ * How much of the account each new position gets
+ * - fixed:          `amount` dollars per trade
+ * - percent_equity: `percent` of current equity (0.05 = 5%)
+ * - kelly:          `fraction` of the Kelly bet from the run's own closed trades, capped at `maxPercent`
+ */
+export type PositionSizing =
+  | { method: 'fixed'; amount: number }
+  | { method: 'percent_equity'; percent: number }
+  | { method: 'kelly'; fraction: number; maxPercent: number };
+
+export interface BacktestConfig {
+  strategy: BacktestStrategyId; // Entry rules (see backtestStrategies.ts)
   startDate: string; // YYYY-MM-DD
   endDate: string; // YYYY-MM-DD
-  symbols?: string[]; // If null, uses all market
-  budget: number; // Max per trade
+  symbols?: string[] | null; // If null, uses the strategy's default universe
+  budget: number; // Max per trade (fixed sizing default)
   stopLoss: number; // e.g., 0.45 for 45%
   profitTarget: number; // e.g., 1.0 for 100%
-  rsiOversold: number; // e.g., 30
-  rsiOverbought: number; // e.g., 70
-  minVIX: number; // e.g., 15
-  maxHoldDays: number; // e.g., 10
+  maxHoldDays: number; // e.g., 10 (trading days)
+  scanInterval?: 'daily' | 'weekly'; // How often entries are evaluated (exits are checked daily)
+  strategyParams?: Record<string, number>; // Overrides for the strategy's defaultParams
+  startingCapital?: number; // Account size (default $10,000)
+  maxConcurrentPositions?: number; // Open positions allowed at once (default 5)
+  sizing?: PositionSizing; // Default: fixed `budget`
+  settlementDays?: number; // Trading days before sale proceeds can be reused (default 1, options settle T+1)
+  executionCosts?: Partial<ExecutionCostConfig>; // Overrides for the global fill/commission model
+  optionPricing?: 'archive' | 'model'; // 'archive' (default) replays archived chains, Black-Scholes where missing
 }
 
-interface TradeSignal {
+interface TradeSignal extends StrategyEntrySignal {
   date: string;
   ticker: string;
-  optionType: 'call' | 'put';
-  strike: number;
   expiry: string;
-  entryPremium: number;
+  entryPremium: number; // Mid premium (archived quote or model)
+  entryFill: number; // Premium paid after spread and tick rounding
+  optionSymbol: string | null; // Archived contract traded, null when priced by the model
+  entryQuote: QuoteSide | null; // Archived bid/ask at entry
+  premiumSource: PremiumSource;
+  entryFees: number;
   contracts: number;
-  rsi: number;
   vix: number;
   stockPrice: number;
-  iv: number; // Implied volatility
 }
 
+type PremiumSource = 'archive' | 'model';
+
 interface TradeResult {
   signal: TradeSignal;
   exitDate: string;
   exitPremium: number;
-  exitReason: 'target' | 'stop' | 'expiry';
-  pnl: number;
-  roi: number;
+  exitPremiumSource: PremiumSource | 'intrinsic';
+  exitReason: 'target' | 'stop' | 'expiry' | 'time';
+  pnl: number; // Net of execution costs
+  roi: number; // Net of execution costs
   maxDrawdown: number;
+  costs: RoundTripCosts;
+}
+
+interface OpenPosition {
+  signal: TradeSignal;
+  heldDays: number;
+  maxDrawdown: number;
+  lastMark: number; // Latest mid premium, carried over days without a bar
+}
+
+interface ArchivedMark {
+  premium: number; // Mid, or last trade when the quote is one-sided
+  quote: QuoteSide;
+}
+
+interface AccountState {
+  cash: number; // Settled cash
+  unsettled: { amount: number; settlesOnDay: number }[]; // settlesOnDay = trading day index
 }
 
+interface CurveMetrics {
+  maxDrawdown: number;
+  sharpeRatio: number;
+  sortinoRatio: number;
+  cagr: number;
+  exposure: number;
+  endingEquity: number;
+  totalReturn: number;
+}
+
+export interface BacktestRunSummary {
+  runId: string;
+  strategy: BacktestStrategyId;
+  totalTrades: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  avgROI: number;
+  grossAvgROI: number;
+  profitFactor: number;
+  maxDrawdown: number;
+  sharpeRatio: number;
+  sortinoRatio: number;
+  cagr: number;
+  exposure: number;
+  endingEquity: number;
+}
+
+/**
+ * Metrics from an in-memory run (nothing persisted)
+ */
+export type BacktestEvaluation = Omit<BacktestRunSummary, 'runId'> & { totalReturn: number };
+
+const RISK_FREE_RATE = 0.05;
+const DEFAULT_STARTING_CAPITAL = 10000;
+const DEFAULT_MAX_CONCURRENT_POSITIONS = 5;
+const KELLY_MIN_TRADES = 10; // Closed trades needed before Kelly sizing uses the run's own stats
+
+/**
+ * Backtest simulator
+ *
+ * Walks the trading calendar day by day. On scan days the configured strategy is
+ * asked for an entry per symbol (one open position per symbol); entries are priced
+ * at the day's close and sized by the configured sizing rule, limited by settled
+ * cash and the max concurrent positions. Open positions are marked daily and exit
+ * on stop, target, expiry or max hold; sale proceeds settle after `settlementDays`.
+ * Premiums come from the archived option chain (nearest expiry/strike to the
+ * strategy's pick, filled at the archived bid/ask); Black-Scholes is only used for
+ * days or contracts the archive doesn't cover, and each trade records which it was.
+ * The daily account equity curve drives drawdown, Sharpe, Sortino, CAGR and exposure.
+ * Every run, trade and equity point is persisted to `backtest_runs` /
+ * `backtest_trades` / `backtest_equity`.
+ */
 export class BacktestEngine {
   private config: BacktestConfig;
+  private strategy: BacktestStrategy;
+  private params: Record<string, number>;
   private runId: string | null = null;
+  private context: BacktestRunContext | null = null;
+  private barSource: BacktestBarSource;
+  private chainSource: BacktestChainSource;
+  private chainCache = new Map<string, ArchivedOptionContract[] | null>(); // `${symbol}|${date}`, current day only
+  private chainCacheDate: string | null = null;
 
-  constructor(config: BacktestConfig) {
+  /**
+   * @param runId Existing `backtest_runs` row to fill in (queued jobs); a new row is created when omitted
+   * @param barSource Bar provider override (e.g. pre-loaded cache for parameter sweeps)
+   * @param chainSource Option chain provider override (default: point-in-time chain archive)
+   */
+  constructor(config: BacktestConfig, runId?: string, barSource?: BacktestBarSource, chainSource?: BacktestChainSource) {
+    const strategy = getBacktestStrategy(config.strategy);
+    if (!strategy) {
+      throw new Error(`Unknown backtest strategy: ${config.strategy}`);
+    }
     this.config = config;
+    this.strategy = strategy;
+    this.params = { ...strategy.defaultParams, ...(config.strategyParams || {}) };
+    this.runId = runId || null;
+    this.barSource = barSource || defaultBarSource;
+    this.chainSource = chainSource || defaultChainSource;
+  }
+
+  /**
+   * Simulate and return metrics without creating a run row or saving trades/equity.
+   * Used by the walk-forward optimizer to score parameter candidates.
+   */
+  async evaluate(context?: BacktestRunContext): Promise<BacktestEvaluation> {
+    if (this.runId) {
+      throw new Error('evaluate() is for unsaved runs; use run() for persisted backtests');
+    }
+    this.context = context || null;
+
+    const { results, equityCurve } = await this.simulate();
+    return {
+      strategy: this.strategy.id,
+      ...this.calculateMetrics(results),
+      ...this.calculateCurveMetrics(equityCurve),
+    };
   }
 
   /**
    * Run the backtest and return results
    */
-  async run(): Promise<{
-    runId: string;
-    totalTrades: number;
-    wins: number;
-    losses: number;
-    winRate: number;
-    avgROI: number;
-    profitFactor: number;
-  }> {
-    console.log('🎯 Starting backtest...');
+  async run(context?: BacktestRunContext): Promise<BacktestRunSummary> {
+    console.log(`🎯 Starting backtest (${this.strategy.name})...`);
     console.log(`📅 Period: ${this.config.startDate} to ${this.config.endDate}`);
-    console.log(`💰 Budget: $${this.config.budget} per trade`);
-
-    // Create backtest run record
-    const [run] = await db.insert(backtestRuns).values({
-      startDate: new Date(this.config.startDate),
-      endDate: new Date(this.config.endDate),
-      symbolUniverse: this.config.symbols || null,
-      timeframe: '1d',
-      warmupLookback: 14,
-      config: this.config as any,
-      status: 'running'
-    }).returning();
+    console.log(`💰 Capital: $${this.getStartingCapital()}, sizing: ${this.describeSizing()}`);
+
+    this.context = context || null;
+
+    // Create backtest run record (queued jobs already have one)
+    if (!this.runId) {
+      const [run] = await db.insert(backtestRuns).values({
+        startDate: new Date(this.config.startDate),
+        endDate: new Date(this.config.endDate),
+        symbolUniverse: this.getSymbols(),
+        timeframe: '1d',
+        warmupLookback: this.strategy.warmupBars,
+        config: this.config as any,
+        strategy: this.strategy.id,
+        status: 'running'
+      }).returning();
+
+      this.runId = run.id;
+    }
 
-    this.runId = run.id;
+    const runId = this.runId;
 
     try {
-      // Generate trade signals
-      const signals = await this.generateSignals();
-      console.log(`📊 Generated ${signals.length} trade signals`);
-
-      // Simulate each trade
-      const results: TradeResult[] = [];
-      for (const signal of signals) {
-        const result = await this.simulateTrade(signal);
-        if (result) {
-          results.push(result);
-          await this.saveTradeResult(result);
-        }
-      }
+      const { results, equityCurve, signalsEvaluated, skipped } = await this.simulate();
+      await this.saveEquityCurve(equityCurve);
+      const premiumSources = { entry: { archive: 0, model: 0 }, exit: { archive: 0, model: 0, intrinsic: 0 } };
 
       // Calculate metrics
       const metrics = this.calculateMetrics(results);
+      const curve = this.calculateCurveMetrics(equityCurve);
+      const exitReasons: Record<string, number> = {};
+      for (const result of results) {
+        exitReasons[result.exitReason] = (exitReasons[result.exitReason] || 0) + 1;
+        premiumSources.entry[result.signal.premiumSource]++;
+        premiumSources.exit[result.exitPremiumSource]++;
+      }
 
       // Update run with results
       await db.update(backtestRuns)
@@ -104,216 +281,526 @@ export class BacktestEngine {
           losses: metrics.losses,
           winRate: metrics.winRate,
           avgROI: metrics.avgROI,
+          grossAvgROI: metrics.grossAvgROI,
           profitFactor: metrics.profitFactor,
-          maxDrawdown: metrics.maxDrawdown,
+          maxDrawdown: curve.maxDrawdown,
+          sharpeRatio: curve.sharpeRatio,
+          sortinoRatio: curve.sortinoRatio,
+          cagr: curve.cagr,
+          exposure: curve.exposure,
+          startingCapital: this.getStartingCapital(),
+          endingEquity: curve.endingEquity,
+          results: {
+            strategy: this.strategy.id,
+            params: this.params,
+            symbols: this.getSymbols(),
+            sizing: this.getSizing(),
+            maxConcurrentPositions: this.getMaxConcurrentPositions(),
+            settlementDays: this.getSettlementDays(),
+            signalsEvaluated,
+            skipped,
+            executionCosts: this.getExecutionCostConfig(),
+            totalPnL: results.reduce((sum, r) => sum + r.pnl, 0),
+            grossPnL: results.reduce((sum, r) => sum + r.costs.grossPnL, 0),
+            totalExecutionCosts: results.reduce((sum, r) => sum + r.costs.totalCosts, 0),
+            totalReturn: curve.totalReturn,
+            worstTradeDrawdown: metrics.maxDrawdown,
+            exitReasons,
+            optionPricing: this.config.optionPricing ?? 'archive',
+            premiumSources,
+          },
           status: 'completed',
+          progress: 100,
           completedAt: new Date()
         })
-        .where(eq(backtestRuns.id, this.runId));
+        .where(eq(backtestRuns.id, runId));
 
       console.log('✅ Backtest completed!');
       console.log(`📈 Win Rate: ${metrics.winRate.toFixed(2)}%`);
-      console.log(`📈 Avg ROI: ${metrics.avgROI.toFixed(2)}%`);
+      console.log(`📈 Avg ROI: ${metrics.avgROI.toFixed(2)}% net (${metrics.grossAvgROI.toFixed(2)}% gross)`);
+      console.log(`📈 CAGR: ${curve.cagr.toFixed(2)}%, Max DD: ${curve.maxDrawdown.toFixed(2)}%, Sharpe: ${curve.sharpeRatio.toFixed(2)}`);
 
       return {
-        runId: this.runId,
-        ...metrics
+        runId,
+        strategy: this.strategy.id,
+        ...metrics,
+        ...curve
       };
     } catch (error) {
-      // Mark run as failed
+      // Mark run as cancelled or failed
+      const cancelled = error instanceof BacktestCancelledError;
       await db.update(backtestRuns)
         .set({
-          status: 'failed',
-          errorMessage: error instanceof Error ? error.message : 'Unknown error',
+          status: cancelled ? 'cancelled' : 'failed',
+          errorMessage: cancelled ? null : error instanceof Error ? error.message : 'Unknown error',
           completedAt: new Date()
         })
-        .where(eq(backtestRuns.id, this.runId));
+        .where(eq(backtestRuns.id, runId));
 
       throw error;
     }
   }
 
   /**
-   * Generate trade signals from historical data
+   * Report progress and stop if the job was cancelled
    */
-  private async generateSignals(): Promise<TradeSignal[]> {
-    const signals: TradeSignal[] = [];
-    const symbols = this.config.symbols || ['AAPL', 'TSLA', 'NVDA', 'SPY', 'QQQ']; // MVP: small set
+  private checkpoint(percent: number, currentDate?: string | null, message?: string): void {
+    if (!this.context) return;
+    if (this.context.isCancelled()) {
+      throw new BacktestCancelledError();
+    }
+    this.context.reportProgress(percent, currentDate, message);
+  }
+
+  private getSymbols(): string[] {
+    return this.config.symbols && this.config.symbols.length > 0
+      ? this.config.symbols
+      : this.strategy.defaultSymbols;
+  }
+
+  private getStartingCapital(): number {
+    return this.config.startingCapital ?? DEFAULT_STARTING_CAPITAL;
+  }
+
+  private getMaxConcurrentPositions(): number {
+    return this.config.maxConcurrentPositions ?? DEFAULT_MAX_CONCURRENT_POSITIONS;
+  }
+
+  private getSettlementDays(): number {
+    return Math.max(0, this.config.settlementDays ?? 1);
+  }
+
+  private getExecutionCostConfig(): ExecutionCostConfig {
+    return executionCostModel.resolveConfig(this.config.executionCosts);
+  }
+
+  private getSizing(): PositionSizing {
+    return this.config.sizing || { method: 'fixed', amount: this.config.budget };
+  }
+
+  private describeSizing(): string {
+    const sizing = this.getSizing();
+    switch (sizing.method) {
+      case 'fixed':
+        return `$${sizing.amount} per trade`;
+      case 'percent_equity':
+        return `${(sizing.percent * 100).toFixed(1)}% of equity`;
+      case 'kelly':
+        return `${sizing.fraction}x Kelly (max ${(sizing.maxPercent * 100).toFixed(1)}%)`;
+    }
+  }
+
+  /**
+   * Walk the trading calendar, opening positions from strategy signals and
+   * closing them on stop/target/expiry/max hold, marking the account every day
+   */
+  private async simulate(): Promise<{
+    results: TradeResult[];
+    equityCurve: InsertBacktestEquityPoint[];
+    signalsEvaluated: number;
+    skipped: { maxPositions: number; insufficientCash: number; sizing: number };
+  }> {
+    const symbols = this.getSymbols();
+    // Calendar days of history to load ahead of startDate for indicator warmup
+    const warmupStart = this.shiftDate(this.config.startDate, -Math.ceil(this.strategy.warmupBars * 1.6 + 10));
 
     // Fetch VIX data for sentiment
-    const vixBars = await historicalDataService.getVIXHistory(this.config.startDate, this.config.endDate);
-    const vixMap = new Map(vixBars.map(bar => [new Date(bar.timestamp).toISOString().split('T')[0], bar.close]));
-
-    for (const symbol of symbols) {
-      console.log(`📊 Analyzing ${symbol}...`);
-      
-      // Fetch historical bars
-      const bars = await historicalDataService.getDailyBars(symbol, this.config.startDate, this.config.endDate);
-      if (bars.length < 15) continue; // Need enough data for RSI
-
-      // Calculate RSI
-      const rsiValues = historicalDataService.calculateRSI(bars, 14);
-
-      // Scan for signals
-      for (let i = 14; i < bars.length - 1; i++) {
-        const bar = bars[i];
-        const rsi = rsiValues[i - 14];
-        const date = new Date(bar.timestamp).toISOString().split('T')[0];
-        const vix = vixMap.get(date) || 20; // Default VIX if missing
-
-        // Skip if VIX too low (no volatility opportunities)
-        if (vix < this.config.minVIX) continue;
-
-        // CALL signal: RSI oversold
-        if (rsi < this.config.rsiOversold) {
-          const strike = Math.round(bar.close * 1.02); // Slightly OTM
-          const expiry = this.getExpiry(date, 7); // 1 week out
-          const iv = 0.35; // Estimate IV (could improve with historical IV data)
-          
-          const premium = BlackScholesCalculator.calculateOptionPrice(bar.close, strike, 7/365, 0.05, iv, 'call');
-          const contracts = Math.floor(this.config.budget / (premium * 100));
-
-          if (contracts > 0 && premium > 0.05) {
-            signals.push({
-              date,
-              ticker: symbol,
-              optionType: 'call',
-              strike,
-              expiry,
-              entryPremium: premium,
-              contracts,
-              rsi,
-              vix,
-              stockPrice: bar.close,
-              iv
-            });
-          }
+    const vixBars = await this.barSource.getVIXHistory(warmupStart, this.config.endDate);
+    const vixMap = new Map(vixBars.map(bar => [this.toDate(bar.timestamp), bar.close]));
+
+    // Load bars once per symbol (first 10% of progress)
+    const barsBySymbol = new Map<string, { bars: PriceBar[]; indexByDate: Map<string, number> }>();
+    for (let symbolIndex = 0; symbolIndex < symbols.length; symbolIndex++) {
+      const symbol = symbols[symbolIndex];
+      this.checkpoint((symbolIndex / symbols.length) * 10, null, `Loading ${symbol}`);
+
+      const bars = await this.barSource.getDailyBars(symbol, warmupStart, this.config.endDate);
+      if (bars.length <= this.strategy.warmupBars) {
+        console.log(`⚠️ ${symbol}: not enough history (${bars.length} bars), skipping`);
+        continue;
+      }
+      barsBySymbol.set(symbol, {
+        bars,
+        indexByDate: new Map(bars.map((bar, i) => [this.toDate(bar.timestamp), i])),
+      });
+    }
+
+    const tradingDays = marketCalendar.getTradingDays(this.config.startDate, this.config.endDate);
+    const account: AccountState = { cash: this.getStartingCapital(), unsettled: [] };
+    const maxPositions = this.getMaxConcurrentPositions();
+    const settlementDays = this.getSettlementDays();
+    const open = new Map<string, OpenPosition>();
+    const results: TradeResult[] = [];
+    const equityCurve: InsertBacktestEquityPoint[] = [];
+    const skipped = { maxPositions: 0, insufficientCash: 0, sizing: 0 };
+    let signalsEvaluated = 0;
+    let lastScanWeek: string | null = null;
+    let peakEquity = account.cash;
+
+    const recordClose = async (symbol: string, result: TradeResult, dayIndex: number) => {
+      open.delete(symbol);
+      results.push(result);
+      const proceeds = result.costs.exitFill * 100 * result.signal.contracts - result.costs.exitFees;
+      if (settlementDays === 0) {
+        account.cash += proceeds;
+      } else {
+        account.unsettled.push({ amount: proceeds, settlesOnDay: dayIndex + settlementDays });
+      }
+      await this.saveTradeResult(result);
+    };
+
+    for (let dayIndex = 0; dayIndex < tradingDays.length; dayIndex++) {
+      const date = tradingDays[dayIndex];
+      this.checkpoint(10 + (dayIndex / tradingDays.length) * 90, date, `${open.size} open, ${results.length} closed`);
+
+      // Settle sale proceeds that have cleared
+      account.unsettled = account.unsettled.filter(entry => {
+        if (entry.settlesOnDay > dayIndex) return true;
+        account.cash += entry.amount;
+        return false;
+      });
+
+      // Mark open positions and check exits
+      for (const [symbol, position] of Array.from(open.entries())) {
+        const series = barsBySymbol.get(symbol)!;
+        const barIndex = series.indexByDate.get(date);
+        if (barIndex === undefined) continue;
+
+        const archived = await this.getArchivedMark(symbol, date, position.signal.optionSymbol);
+        const result = this.updatePosition(position, series.bars[barIndex], date, archived);
+        if (result) {
+          await recordClose(symbol, result, dayIndex);
         }
+      }
+
+      // Weekly scans enter on the first trading day of each week
+      const week = this.weekKey(date);
+      const isScanDay = this.config.scanInterval !== 'weekly' || week !== lastScanWeek;
+      if (isScanDay) {
+        lastScanWeek = week;
+
+        for (const symbol of Array.from(barsBySymbol.keys())) {
+          if (open.has(symbol)) continue; // One position per symbol
+
+          const series = barsBySymbol.get(symbol)!;
+          const barIndex = series.indexByDate.get(date);
+          if (barIndex === undefined || barIndex < this.strategy.warmupBars) continue;
+
+          const bars = series.bars.slice(0, barIndex + 1);
+          const vix = vixMap.get(date) || 20; // Default VIX if missing
+          signalsEvaluated++;
 
-        // PUT signal: RSI overbought
-        if (rsi > this.config.rsiOverbought) {
-          const strike = Math.round(bar.close * 0.98); // Slightly OTM
-          const expiry = this.getExpiry(date, 7); // 1 week out
-          const iv = 0.35;
-          
-          const premium = BlackScholesCalculator.calculateOptionPrice(bar.close, strike, 7/365, 0.05, iv, 'put');
-          const contracts = Math.floor(this.config.budget / (premium * 100));
-
-          if (contracts > 0 && premium > 0.05) {
-            signals.push({
-              date,
-              ticker: symbol,
-              optionType: 'put',
-              strike,
-              expiry,
-              entryPremium: premium,
-              contracts,
-              rsi,
-              vix,
-              stockPrice: bar.close,
-              iv
-            });
+          const entry = this.strategy.evaluate({ date, symbol, bars, vix, params: this.params });
+          if (!entry) continue;
+
+          if (open.size >= maxPositions) {
+            skipped.maxPositions++;
+            continue;
+          }
+
+          const allocation = this.getAllocation(this.getEquity(account, open), results);
+          if (allocation <= 0) {
+            skipped.sizing++;
+            continue;
           }
+
+          const chain = await this.getChain(symbol, date);
+          const signal = this.openPosition(entry, symbol, date, bars[bars.length - 1].close, vix, Math.min(allocation, account.cash), chain);
+          if (!signal) {
+            skipped.insufficientCash++;
+            continue;
+          }
+
+          account.cash -= signal.entryFill * 100 * signal.contracts + signal.entryFees;
+          open.set(symbol, { signal, heldDays: 0, maxDrawdown: 0, lastMark: signal.entryPremium });
         }
       }
+
+      // End-of-day account snapshot
+      const positionsValue = this.getPositionsValue(open);
+      const unsettledCash = account.unsettled.reduce((sum, entry) => sum + entry.amount, 0);
+      const equity = account.cash + unsettledCash + positionsValue;
+      peakEquity = Math.max(peakEquity, equity);
+      equityCurve.push({
+        runId: this.runId ?? '',
+        date,
+        equity,
+        cash: account.cash,
+        unsettledCash,
+        positionsValue,
+        openPositions: open.size,
+        drawdown: peakEquity > 0 ? ((peakEquity - equity) / peakEquity) * 100 : 0,
+      });
     }
 
-    return signals;
+    // Close anything still open at the end of the range at the last archived or model value
+    for (const [symbol, position] of Array.from(open.entries())) {
+      const series = barsBySymbol.get(symbol)!;
+      const lastBar = series.bars.filter(bar => this.toDate(bar.timestamp) <= this.config.endDate).pop();
+      if (!lastBar) continue;
+
+      const exitDate = this.toDate(lastBar.timestamp);
+      const archived = await this.getArchivedMark(symbol, exitDate, position.signal.optionSymbol);
+      const exitPremium = archived?.premium ?? this.markPremium(position.signal, lastBar.close, exitDate);
+      await recordClose(symbol, this.closePosition(position, exitDate, exitPremium, 'time', archived), tradingDays.length);
+    }
+    this.chainCache.clear();
+
+    console.log(`📊 ${results.length} trades from ${signalsEvaluated} strategy evaluations`);
+    return { results, equityCurve, signalsEvaluated, skipped };
+  }
+
+  private getPositionsValue(open: Map<string, OpenPosition>): number {
+    let value = 0;
+    open.forEach(position => {
+      value += position.lastMark * 100 * position.signal.contracts;
+    });
+    return value;
+  }
+
+  private getEquity(account: AccountState, open: Map<string, OpenPosition>): number {
+    const unsettledCash = account.unsettled.reduce((sum, entry) => sum + entry.amount, 0);
+    return account.cash + unsettledCash + this.getPositionsValue(open);
   }
 
   /**
-   * Simulate a single trade's lifecycle
+   * Dollars to commit to the next position under the configured sizing rule
    */
-  private async simulateTrade(signal: TradeSignal): Promise<TradeResult | null> {
-    // Fetch bars from entry to expiry
-    const entryDate = new Date(signal.date);
-    const expiryDate = new Date(signal.expiry);
-    const endDate = new Date(Math.min(expiryDate.getTime(), new Date(this.config.endDate).getTime()));
-
-    const bars = await historicalDataService.getDailyBars(
-      signal.ticker,
-      entryDate.toISOString().split('T')[0],
-      endDate.toISOString().split('T')[0]
-    );
-
-    if (bars.length === 0) return null;
-
-    let exitDate = '';
-    let exitPremium = 0;
-    let exitReason: 'target' | 'stop' | 'expiry' = 'expiry';
-    let maxDrawdown = 0;
-
-    // Simulate each day
-    for (let i = 1; i < bars.length; i++) {
-      const bar = bars[i];
-      const currentDate = new Date(bar.timestamp).toISOString().split('T')[0];
-      const daysToExpiry = (expiryDate.getTime() - bar.timestamp) / (1000 * 60 * 60 * 24);
-
-      // Calculate current option price
-      const timeValue = Math.max(daysToExpiry / 365, 0);
-      const currentPremium = BlackScholesCalculator.calculateOptionPrice(
-        bar.close, 
-        signal.strike, 
-        timeValue, 
-        0.05, 
-        signal.iv, 
-        signal.optionType
-      );
-
-      // Track drawdown
-      const currentROI = (currentPremium - signal.entryPremium) / signal.entryPremium;
-      if (currentROI < maxDrawdown) {
-        maxDrawdown = currentROI;
+  private getAllocation(equity: number, closed: TradeResult[]): number {
+    const sizing = this.getSizing();
+    switch (sizing.method) {
+      case 'fixed':
+        return sizing.amount;
+      case 'percent_equity':
+        return equity * sizing.percent;
+      case 'kelly': {
+        // Not enough history yet: start at half the cap
+        if (closed.length < KELLY_MIN_TRADES) {
+          return equity * sizing.maxPercent * 0.5;
+        }
+        const wins = closed.filter(r => r.pnl > 0);
+        const losses = closed.filter(r => r.pnl <= 0);
+        if (wins.length === 0) return 0;
+        const winRate = wins.length / closed.length;
+        const avgWin = wins.reduce((sum, r) => sum + r.roi, 0) / wins.length;
+        const avgLoss = losses.length > 0 ? Math.abs(losses.reduce((sum, r) => sum + r.roi, 0) / losses.length) : 0;
+        if (avgLoss === 0) {
+          return equity * sizing.maxPercent;
+        }
+        // Kelly: f* = W - (1 - W) / R, R = avg win / avg loss
+        const kelly = winRate - (1 - winRate) / (avgWin / avgLoss);
+        const percent = Math.min(sizing.maxPercent, kelly * sizing.fraction);
+        return percent > 0 ? equity * percent : 0;
       }
+    }
+  }
 
-      // Check stop loss
-      if (currentROI <= -this.config.stopLoss) {
-        exitDate = currentDate;
-        exitPremium = currentPremium;
-        exitReason = 'stop';
-        break;
-      }
+  /**
+   * Day's archived chain for a symbol (null when not archived or the run prices by model)
+   */
+  private async getChain(symbol: string, date: string): Promise<ArchivedOptionContract[] | null> {
+    if (this.config.optionPricing === 'model') return null;
+
+    // Chains are large; only the current day's are kept
+    if (this.chainCacheDate !== date) {
+      this.chainCache.clear();
+      this.chainCacheDate = date;
+    }
 
-      // Check profit target
-      if (currentROI >= this.config.profitTarget) {
-        exitDate = currentDate;
-        exitPremium = currentPremium;
-        exitReason = 'target';
-        break;
+    const key = `${symbol}|${date}`;
+    if (!this.chainCache.has(key)) {
+      try {
+        this.chainCache.set(key, await this.chainSource.getChain(symbol, date));
+      } catch (error: any) {
+        console.warn(`⚠️ ${symbol} ${date}: archived chain unavailable (${error.message}), using model premiums`);
+        this.chainCache.set(key, null);
       }
+    }
+    return this.chainCache.get(key) ?? null;
+  }
 
-      // Check expiry
-      if (daysToExpiry <= 0) {
-        exitDate = currentDate;
-        exitPremium = Math.max(0, signal.optionType === 'call' 
-          ? bar.close - signal.strike 
-          : signal.strike - bar.close);
-        exitReason = 'expiry';
-        break;
+  /**
+   * Archived mark for the contract a position holds, if that day's chain has a usable quote
+   */
+  private async getArchivedMark(symbol: string, date: string, optionSymbol: string | null): Promise<ArchivedMark | null> {
+    if (!optionSymbol) return null;
+    const contract = (await this.getChain(symbol, date))?.find(c => c.symbol === optionSymbol);
+    return contract ? this.toArchivedMark(contract) : null;
+  }
+
+  private toArchivedMark(contract: ArchivedOptionContract): ArchivedMark | null {
+    const { bid, ask, last } = contract;
+    const premium = bid != null && ask != null && bid > 0 && ask >= bid
+      ? (bid + ask) / 2
+      : last;
+    if (premium == null || premium <= 0) return null;
+    return { premium, quote: { bid, ask } };
+  }
+
+  /**
+   * Archived contract closest to the strategy's pick: same type, nearest expiry to
+   * date + dte, then nearest strike
+   */
+  private selectArchivedContract(
+    chain: ArchivedOptionContract[],
+    entry: StrategyEntrySignal,
+    date: string
+  ): { contract: ArchivedOptionContract; mark: ArchivedMark } | null {
+    const targetExpiry = new Date(this.shiftDate(date, entry.dte)).getTime();
+    let best: { contract: ArchivedOptionContract; mark: ArchivedMark; expiryGap: number; strikeGap: number } | null = null;
+
+    for (const contract of chain) {
+      if (contract.optionType !== entry.optionType || contract.expiry <= date) continue;
+      const mark = this.toArchivedMark(contract);
+      if (!mark) continue;
+
+      const expiryGap = Math.abs(new Date(contract.expiry).getTime() - targetExpiry);
+      const strikeGap = Math.abs(contract.strike - entry.strike);
+      if (!best || expiryGap < best.expiryGap || (expiryGap === best.expiryGap && strikeGap < best.strikeGap)) {
+        best = { contract, mark, expiryGap, strikeGap };
       }
     }
 
-    // If no exit triggered, exit at last bar
-    if (!exitDate) {
-      const lastBar = bars[bars.length - 1];
-      exitDate = new Date(lastBar.timestamp).toISOString().split('T')[0];
-      exitPremium = Math.max(0, signal.optionType === 'call'
-        ? lastBar.close - signal.strike
-        : signal.strike - lastBar.close);
-      exitReason = 'expiry';
+    return best ? { contract: best.contract, mark: best.mark } : null;
+  }
+
+  /**
+   * Price and size a strategy entry at the day's close: the archived contract nearest the
+   * strategy's pick when the day's chain is available, Black-Scholes otherwise
+   */
+  private openPosition(
+    entry: StrategyEntrySignal,
+    ticker: string,
+    date: string,
+    stockPrice: number,
+    vix: number,
+    allocation: number,
+    chain: ArchivedOptionContract[] | null
+  ): TradeSignal | null {
+    const archived = chain ? this.selectArchivedContract(chain, entry, date) : null;
+    const strike = archived?.contract.strike ?? entry.strike;
+    const expiry = archived?.contract.expiry ?? this.shiftDate(date, entry.dte);
+    const premium = archived?.mark.premium ?? BlackScholesCalculator.calculateOptionPrice(
+      stockPrice,
+      entry.strike,
+      entry.dte / 365,
+      RISK_FREE_RATE,
+      entry.iv,
+      entry.optionType
+    );
+    if (premium <= 0.05) return null;
+
+    // Size on the actual fill plus fees, not the mid premium
+    const costConfig = this.getExecutionCostConfig();
+    const entryFill = executionCostModel.getFillPrice('buy', ticker, premium, archived?.mark.quote, costConfig);
+    const contracts = Math.floor(allocation / (entryFill * 100 + executionCostModel.getOrderFees(1, costConfig)));
+    if (contracts <= 0) return null;
+
+    return {
+      ...entry,
+      strike,
+      iv: archived?.contract.iv ?? entry.iv,
+      date,
+      ticker,
+      expiry,
+      entryPremium: premium,
+      entryFill,
+      optionSymbol: archived?.contract.symbol ?? null,
+      entryQuote: archived?.mark.quote ?? null,
+      premiumSource: archived ? 'archive' : 'model',
+      entryFees: executionCostModel.getOrderFees(contracts, costConfig),
+      contracts,
+      vix,
+      stockPrice
+    };
+  }
+
+  /**
+   * Advance an open position by one trading day; returns the result if it exits
+   */
+  private updatePosition(position: OpenPosition, bar: PriceBar, date: string, archived: ArchivedMark | null): TradeResult | null {
+    const { signal } = position;
+    position.heldDays++;
+
+    // Expiry: settle at intrinsic value
+    if (date >= signal.expiry) {
+      const intrinsic = Math.max(0, signal.optionType === 'call'
+        ? bar.close - signal.strike
+        : signal.strike - bar.close);
+      return this.closePosition(position, date, intrinsic, 'expiry');
+    }
+
+    const currentPremium = archived?.premium ?? this.markPremium(signal, bar.close, date);
+    position.lastMark = currentPremium;
+
+    // Track drawdown
+    const currentROI = (currentPremium - signal.entryPremium) / signal.entryPremium;
+    if (currentROI < position.maxDrawdown) {
+      position.maxDrawdown = currentROI;
+    }
+
+    // Check stop loss
+    if (currentROI <= -this.config.stopLoss) {
+      return this.closePosition(position, date, currentPremium, 'stop', archived);
     }
 
-    const pnl = (exitPremium - signal.entryPremium) * signal.contracts * 100;
-    const roi = (exitPremium - signal.entryPremium) / signal.entryPremium;
+    // Check profit target
+    if (currentROI >= this.config.profitTarget) {
+      return this.closePosition(position, date, currentPremium, 'target', archived);
+    }
+
+    // Max holding period
+    if (position.heldDays >= this.config.maxHoldDays) {
+      return this.closePosition(position, date, currentPremium, 'time', archived);
+    }
+
+    return null;
+  }
+
+  private markPremium(signal: TradeSignal, stockPrice: number, date: string): number {
+    const daysToExpiry = (new Date(signal.expiry).getTime() - new Date(date).getTime()) / (1000 * 60 * 60 * 24);
+    if (daysToExpiry <= 0) {
+      return Math.max(0, signal.optionType === 'call' ? stockPrice - signal.strike : signal.strike - stockPrice);
+    }
+    return BlackScholesCalculator.calculateOptionPrice(
+      stockPrice,
+      signal.strike,
+      daysToExpiry / 365,
+      RISK_FREE_RATE,
+      signal.iv,
+      signal.optionType
+    );
+  }
+
+  private closePosition(
+    position: OpenPosition,
+    exitDate: string,
+    exitPremium: number,
+    exitReason: TradeResult['exitReason'],
+    archived: ArchivedMark | null = null
+  ): TradeResult {
+    const { signal } = position;
+    const costs = executionCostModel.calculateRoundTrip({
+      ticker: signal.ticker,
+      contracts: signal.contracts,
+      entryPremium: signal.entryPremium,
+      exitPremium,
+      entryQuote: signal.entryQuote,
+      exitQuote: archived?.quote,
+      settledAtExpiry: exitReason === 'expiry'
+    }, this.config.executionCosts);
+    const roi = costs.netROI / 100;
 
     return {
       signal,
       exitDate,
       exitPremium,
+      exitPremiumSource: exitReason === 'expiry' ? 'intrinsic' : archived ? 'archive' : 'model',
       exitReason,
-      pnl,
+      pnl: costs.netPnL,
       roi,
-      maxDrawdown
+      maxDrawdown: Math.min(position.maxDrawdown, roi),
+      costs
     };
   }
 
@@ -335,28 +822,39 @@ export class BacktestEngine {
       exitPremium: result.exitPremium,
       exitReason: result.exitReason,
       contracts: result.signal.contracts,
+      entryFill: result.costs.entryFill,
+      exitFill: result.costs.exitFill,
+      fees: result.costs.entryFees + result.costs.exitFees,
+      grossPnl: result.costs.grossPnL,
+      grossRoi: result.costs.grossROI,
       pnl: result.pnl,
       roi: result.roi * 100, // Convert to percentage
       maxDrawdown: result.maxDrawdown * 100,
       signals: {
-        rsi: result.signal.rsi,
+        strategy: this.strategy.id,
+        reason: result.signal.reason,
+        ...result.signal.signals,
         vix: result.signal.vix,
         iv: result.signal.iv
       },
       marketContext: {
-        stockPrice: result.signal.stockPrice
+        stockPrice: result.signal.stockPrice,
+        optionSymbol: result.signal.optionSymbol,
+        entryPremiumSource: result.signal.premiumSource,
+        exitPremiumSource: result.exitPremiumSource
       }
     });
   }
 
   /**
-   * Calculate performance metrics
+   * Calculate per-trade performance metrics (maxDrawdown here is the worst single-trade drawdown)
    */
   private calculateMetrics(results: TradeResult[]): {
     wins: number;
     losses: number;
     winRate: number;
     avgROI: number;
+    grossAvgROI: number;
     profitFactor: number;
     maxDrawdown: number;
     totalTrades: number;
@@ -367,18 +865,20 @@ export class BacktestEngine {
 
     const totalROI = results.reduce((sum, r) => sum + r.roi, 0);
     const avgROI = results.length > 0 ? (totalROI / results.length) * 100 : 0;
+    const grossAvgROI = results.length > 0 ? results.reduce((sum, r) => sum + r.costs.grossROI, 0) / results.length : 0;
 
     const grossProfit = results.filter(r => r.pnl > 0).reduce((sum, r) => sum + r.pnl, 0);
     const grossLoss = Math.abs(results.filter(r => r.pnl < 0).reduce((sum, r) => sum + r.pnl, 0));
     const profitFactor = grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? Infinity : 0;
 
-    const maxDrawdown = Math.min(...results.map(r => r.maxDrawdown)) * 100;
+    const maxDrawdown = results.length > 0 ? Math.min(...results.map(r => r.maxDrawdown)) * 100 : 0;
 
     return {
       wins,
       losses,
       winRate,
       avgROI,
+      grossAvgROI,
       profitFactor,
       maxDrawdown,
       totalTrades: results.length
@@ -386,12 +886,73 @@ export class BacktestEngine {
   }
 
   /**
-   * Calculate expiry date (days from start)
+   * Account-level metrics from the daily equity curve
+   */
+  private calculateCurveMetrics(curve: InsertBacktestEquityPoint[]): CurveMetrics {
+    const startingCapital = this.getStartingCapital();
+    if (curve.length === 0) {
+      return { maxDrawdown: 0, sharpeRatio: 0, sortinoRatio: 0, cagr: 0, exposure: 0, endingEquity: startingCapital, totalReturn: 0 };
+    }
+
+    const equities = [startingCapital, ...curve.map(point => point.equity)];
+    const dailyRiskFree = RISK_FREE_RATE / 252;
+    const excessReturns: number[] = [];
+    for (let i = 1; i < equities.length; i++) {
+      const previous = equities[i - 1];
+      excessReturns.push((previous > 0 ? equities[i] / previous - 1 : 0) - dailyRiskFree);
+    }
+
+    const mean = excessReturns.reduce((a, b) => a + b, 0) / excessReturns.length;
+    const variance = excessReturns.length > 1
+      ? excessReturns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (excessReturns.length - 1)
+      : 0;
+    const downsideVariance = excessReturns.reduce((sum, r) => sum + Math.min(0, r) ** 2, 0) / excessReturns.length;
+    const sharpeRatio = variance > 0 ? (mean / Math.sqrt(variance)) * Math.sqrt(252) : 0;
+    const sortinoRatio = downsideVariance > 0 ? (mean / Math.sqrt(downsideVariance)) * Math.sqrt(252) : 0;
+
+    const endingEquity = curve[curve.length - 1].equity;
+    const totalReturn = ((endingEquity - startingCapital) / startingCapital) * 100;
+    const years = Math.max(
+      (new Date(curve[curve.length - 1].date).getTime() - new Date(this.config.startDate).getTime()) / (1000 * 60 * 60 * 24 * 365.25),
+      1 / 252
+    );
+    const cagr = endingEquity > 0 ? (Math.pow(endingEquity / startingCapital, 1 / years) - 1) * 100 : -100;
+
+    const maxDrawdown = Math.max(...curve.map(point => point.drawdown));
+    const exposure = (curve.reduce((sum, point) => sum + (point.equity > 0 ? point.positionsValue / point.equity : 0), 0) / curve.length) * 100;
+
+    return { maxDrawdown, sharpeRatio, sortinoRatio, cagr, exposure, endingEquity, totalReturn };
+  }
+
+  /**
+   * Save the daily equity curve (chunked to keep inserts small)
+   */
+  private async saveEquityCurve(curve: InsertBacktestEquityPoint[]): Promise<void> {
+    if (!this.runId || curve.length === 0) return;
+
+    for (let i = 0; i < curve.length; i += 500) {
+      await db.insert(backtestEquity).values(curve.slice(i, i + 500));
+    }
+  }
+
+  private toDate(timestamp: number): string {
+    return new Date(timestamp).toISOString().split('T')[0];
+  }
+
+  private shiftDate(date: string, days: number): string {
+    const shifted = new Date(date);
+    shifted.setDate(shifted.getDate() + days);
+    return shifted.toISOString().split('T')[0];
+  }
+
+  /**
+   * Monday of the date's week (YYYY-MM-DD), used to group weekly scans
    */
-  private getExpiry(startDate: string, daysOut: number): string {
-    const date = new Date(startDate);
-    date.setDate(date.getDate() + daysOut);
-    return date.toISOString().split('T')[0];
+  private weekKey(date: string): string {
+    const d = new Date(`${date}T12:00:00Z`);
+    const offset = (d.getUTCDay() + 6) % 7;
+    d.setUTCDate(d.getUTCDate() - offset);
+    return d.toISOString().split('T')[0];
   }
 }
 
@@ -0,0 +1,311 @@
+/**
+ * Backtest Job Queue
+ *
+ * Runs backtests as background jobs against `backtest_runs` rows instead of inside
+ * the HTTP request. Jobs are picked up FIFO with bounded concurrency, report
+ * percent-complete and the simulation date being processed, and can be cancelled
+ * while pending or running. Every job runs the BacktestEngine simulator with the
+ * strategy named in its config (see backtestStrategies.ts).
+ *
+ * Progress is pushed to SSE listeners and written back to the run row (throttled).
+ */
+
+import { db } from '../db';
+import { backtestRuns, type BacktestRun, type BacktestStrategyId, type BacktestJobProgress, type BacktestRunStatus } from '@shared/schema';
+import { eq, inArray, asc } from 'drizzle-orm';
+import { BacktestEngine, BacktestCancelledError, type BacktestConfig, type BacktestRunContext } from './backtestEngine';
+import { getBacktestStrategy } from './backtestStrategies';
+
+export type BacktestProgressHandler = (progress: BacktestJobProgress) => void;
+
+interface ActiveJob {
+  strategy: BacktestStrategyId;
+  cancelRequested: boolean;
+  lastPersisted: number;
+}
+
+export class BacktestJobQueue {
+  private static instance: BacktestJobQueue | null = null;
+
+  // Pending run ids in submission order
+  private queue: string[] = [];
+  private active = new Map<string, ActiveJob>();
+  private latest = new Map<string, BacktestJobProgress>(); // Last progress event per pending/running job
+  private handlers = new Map<string, BacktestProgressHandler>();
+  private started = false;
+
+  // Configuration
+  private readonly MAX_CONCURRENCY = Math.max(1, parseInt(process.env.BACKTEST_MAX_CONCURRENCY || '2', 10) || 2);
+  private readonly PROGRESS_PERSIST_INTERVAL_MS = 2_000;
+
+  private constructor() {}
+
+  static getInstance(): BacktestJobQueue {
+    if (!BacktestJobQueue.instance) {
+      BacktestJobQueue.instance = new BacktestJobQueue();
+    }
+    return BacktestJobQueue.instance;
+  }
+
+  /**
+   * Recover jobs left over from a previous process and start working the queue.
+   * Pending runs are re-queued; runs that were mid-flight are marked failed.
+   */
+  async start(): Promise<void> {
+    if (this.started) return;
+    this.started = true;
+
+    try {
+      const leftovers = await db.select()
+        .from(backtestRuns)
+        .where(inArray(backtestRuns.status, ['pending', 'running']))
+        .orderBy(asc(backtestRuns.startedAt));
+
+      for (const run of leftovers) {
+        if (run.status === 'running') {
+          await db.update(backtestRuns)
+            .set({ status: 'failed', errorMessage: 'Interrupted by server restart', completedAt: new Date() })
+            .where(eq(backtestRuns.id, run.id));
+        } else {
+          this.queue.push(run.id);
+          this.latest.set(run.id, this.buildProgress(run.id, run.strategy as BacktestStrategyId, 'pending', 0, null));
+        }
+      }
+
+      if (leftovers.length > 0) {
+        console.log(`🧪 Backtest queue recovered ${leftovers.length} job(s) (${this.queue.length} re-queued)`);
+      }
+    } catch (error: any) {
+      console.error('❌ Backtest queue recovery failed:', error.message);
+    }
+
+    console.log(`🧪 Backtest job queue started (max ${this.MAX_CONCURRENCY} concurrent)`);
+    this.pump();
+  }
+
+  /**
+   * Create a pending run row and queue it. Returns immediately.
+   */
+  async submit(config: BacktestConfig): Promise<BacktestRun> {
+    const { startDate, endDate, strategy } = config;
+    const [run] = await db.insert(backtestRuns).values({
+      startDate: new Date(startDate),
+      endDate: new Date(endDate),
+      symbolUniverse: config.symbols || null,
+      timeframe: '1d',
+      warmupLookback: getBacktestStrategy(strategy)?.warmupBars ?? 14,
+      config: config as any,
+      strategy,
+      status: 'pending',
+      progress: 0,
+    }).returning();
+
+    this.queue.push(run.id);
+    this.emit(this.buildProgress(run.id, strategy, 'pending', 0, null));
+    console.log(`🧪 Backtest ${run.id} queued (${strategy}, ${startDate} → ${endDate})`);
+
+    this.pump();
+    return run;
+  }
+
+  /**
+   * Cancel a pending or running job
+   */
+  async cancel(runId: string): Promise<'cancelled' | 'cancelling' | 'not_active'> {
+    const queueIndex = this.queue.indexOf(runId);
+    if (queueIndex !== -1) {
+      this.queue.splice(queueIndex, 1);
+      const strategy = this.latest.get(runId)?.strategy || 'legacy_rsi';
+      await this.finishRun(runId, strategy, 'cancelled');
+      return 'cancelled';
+    }
+
+    const job = this.active.get(runId);
+    if (job) {
+      // Engine stops at its next checkpoint
+      job.cancelRequested = true;
+      const last = this.latest.get(runId);
+      this.emit({ ...(last || this.buildProgress(runId, job.strategy, 'running', 0, null)), message: 'Cancelling...', timestamp: new Date().toISOString() });
+      return 'cancelling';
+    }
+
+    return 'not_active';
+  }
+
+  /**
+   * Latest progress for a pending/running job (undefined once finished)
+   */
+  getProgress(runId: string): BacktestJobProgress | undefined {
+    const progress = this.latest.get(runId);
+    if (progress && progress.status === 'pending') {
+      return { ...progress, queuePosition: this.queue.indexOf(runId) + 1 };
+    }
+    return progress;
+  }
+
+  /**
+   * Latest progress for every pending/running job
+   */
+  getActiveJobs(): BacktestJobProgress[] {
+    return Array.from(this.latest.keys()).map(runId => this.getProgress(runId)!);
+  }
+
+  getStats(): { pending: number; running: number; maxConcurrency: number } {
+    return { pending: this.queue.length, running: this.active.size, maxConcurrency: this.MAX_CONCURRENCY };
+  }
+
+  /**
+   * Register a listener for progress events (used by the SSE endpoint)
+   */
+  registerHandler(id: string, handler: BacktestProgressHandler): void {
+    this.handlers.set(id, handler);
+  }
+
+  unregisterHandler(id: string): void {
+    this.handlers.delete(id);
+  }
+
+  /**
+   * Start queued jobs while there is spare capacity
+   */
+  private pump(): void {
+    while (this.active.size < this.MAX_CONCURRENCY && this.queue.length > 0) {
+      const runId = this.queue.shift()!;
+      // Claim the slot before any await so the loop can't oversubscribe
+      const job: ActiveJob = {
+        strategy: this.latest.get(runId)?.strategy || 'legacy_rsi',
+        cancelRequested: false,
+        lastPersisted: 0,
+      };
+      this.active.set(runId, job);
+      this.execute(runId, job).catch(error => {
+        console.error(`❌ Backtest ${runId} worker error:`, error.message);
+      });
+    }
+  }
+
+  private async execute(runId: string, job: ActiveJob): Promise<void> {
+    let run: BacktestRun | undefined;
+    try {
+      run = await db.query.backtestRuns.findFirst({ where: eq(backtestRuns.id, runId) });
+      if (run && run.status === 'pending') {
+        await db.update(backtestRuns)
+          .set({ status: 'running', startedAt: new Date(), progress: 0 })
+          .where(eq(backtestRuns.id, runId));
+      }
+    } catch (error: any) {
+      console.error(`❌ Backtest ${runId} could not be started:`, error.message);
+      run = undefined;
+    }
+
+    if (!run || run.status !== 'pending') {
+      this.active.delete(runId);
+      this.latest.delete(runId);
+      this.pump();
+      return;
+    }
+
+    const strategy = run.strategy as BacktestStrategyId;
+    job.strategy = strategy;
+    this.emit(this.buildProgress(runId, strategy, 'running', 0, null, 'Started'));
+
+    const context: BacktestRunContext = {
+      isCancelled: () => job.cancelRequested,
+      reportProgress: (percent, currentDate, message) => {
+        this.recordProgress(runId, job, percent, currentDate || null, message);
+      },
+    };
+
+    try {
+      // BacktestEngine writes its own metrics and trades onto the run row
+      await new BacktestEngine({ ...(run.config as BacktestConfig), strategy }, runId).run(context);
+
+      await this.finishRun(runId, strategy, 'completed');
+      console.log(`✅ Backtest ${runId} completed`);
+    } catch (error: any) {
+      if (error instanceof BacktestCancelledError) {
+        await this.finishRun(runId, strategy, 'cancelled');
+        console.log(`🛑 Backtest ${runId} cancelled`);
+      } else {
+        await this.finishRun(runId, strategy, 'failed', error.message || 'Unknown error');
+        console.error(`❌ Backtest ${runId} failed:`, error.message);
+      }
+    } finally {
+      this.active.delete(runId);
+      this.pump();
+    }
+  }
+
+  private recordProgress(runId: string, job: ActiveJob, percent: number, currentDate: string | null, message?: string): void {
+    const progress = Math.max(0, Math.min(100, percent));
+    this.emit(this.buildProgress(runId, job.strategy, 'running', progress, currentDate, message));
+
+    const now = Date.now();
+    if (now - job.lastPersisted < this.PROGRESS_PERSIST_INTERVAL_MS) {
+      return;
+    }
+    job.lastPersisted = now;
+    db.update(backtestRuns)
+      .set({ progress, progressDate: currentDate })
+      .where(eq(backtestRuns.id, runId))
+      .catch((error: any) => console.warn(`⚠️ Failed to persist backtest progress for ${runId}:`, error.message));
+  }
+
+  private async finishRun(runId: string, strategy: BacktestStrategyId, status: BacktestRunStatus, errorMessage?: string): Promise<void> {
+    const last = this.latest.get(runId);
+    const progress = status === 'completed' ? 100 : last?.progress || 0;
+
+    try {
+      await db.update(backtestRuns)
+        .set({
+          status,
+          progress,
+          errorMessage: errorMessage || null,
+          completedAt: new Date(),
+        })
+        .where(eq(backtestRuns.id, runId));
+    } catch (error: any) {
+      console.error(`❌ Failed to record backtest ${runId} as ${status}:`, error.message);
+    }
+
+    this.emit(this.buildProgress(runId, strategy, status, progress, last?.currentDate || null, undefined, errorMessage));
+    this.latest.delete(runId);
+  }
+
+  private buildProgress(
+    runId: string,
+    strategy: BacktestStrategyId,
+    status: BacktestRunStatus,
+    progress: number,
+    currentDate: string | null,
+    message?: string,
+    error?: string
+  ): BacktestJobProgress {
+    return {
+      runId,
+      strategy,
+      status,
+      progress,
+      currentDate,
+      message,
+      error,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  private emit(progress: BacktestJobProgress): void {
+    if (progress.status === 'pending' || progress.status === 'running') {
+      this.latest.set(progress.runId, progress);
+    }
+
+    this.handlers.forEach((handler, id) => {
+      try {
+        handler(progress);
+      } catch (error: any) {
+        console.error(`❌ Backtest progress handler ${id} failed:`, error.message);
+      }
+    });
+  }
+}
+
+export const backtestJobQueue = BacktestJobQueue.getInstance();
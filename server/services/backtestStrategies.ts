@@ -0,0 +1,302 @@
+/**
+ * Backtest Strategies
+ *
+ * Entry rules the backtest simulator can replay. Each strategy looks at the daily
+ * bars up to (and including) the simulated day and either returns an option entry
+ * or null. Pricing, sizing, exits and persistence live in the simulator, so every
+ * strategy is measured the same way and runs are comparable.
+ *
+ * - legacy_rsi:     RSI oversold/overbought reversal with a VIX floor
+ * - elite_scanner:  Live EliteScanner technical filters + core options gate
+ * - elite_rules:    EliteStrategyEngine config rules (RSI cross, VIX floors, EMA trend,
+ *                   ATR momentum, delta band); every rule reads its threshold from params
+ * - spx_day_trade:  SPX VIX/RSI day-trading formula from AIAnalysisService
+ */
+
+import type { BacktestStrategyId } from '@shared/schema';
+import { historicalDataService } from './historicalDataService';
+import { liveDataAdapter, type PriceBar } from './liveDataAdapter';
+import { evaluateEliteTechnicals, evaluateEliteOptionsGate } from './eliteScanner';
+import { EliteStrategyEngine } from './eliteStrategyEngine';
+import { BlackScholesCalculator } from './financialCalculations';
+import { classifyDayTradeSignal } from './aiAnalysis';
+
+export interface StrategyContext {
+  date: string; // Simulated day (YYYY-MM-DD), entry at its close
+  symbol: string;
+  bars: PriceBar[]; // Daily bars up to and including `date`
+  vix: number;
+  params: Record<string, number>;
+}
+
+export interface StrategyEntrySignal {
+  optionType: 'call' | 'put';
+  strike: number;
+  dte: number; // Calendar days to expiry
+  iv: number; // Volatility used for Black-Scholes pricing
+  reason: string;
+  signals: Record<string, number | string | boolean | string[]>;
+}
+
+export interface BacktestStrategy {
+  id: BacktestStrategyId;
+  name: string;
+  description: string;
+  defaultSymbols: string[];
+  defaultParams: Record<string, number>;
+  warmupBars: number; // Bars needed before the first evaluation
+  evaluate(ctx: StrategyContext): StrategyEntrySignal | null;
+}
+
+const RISK_FREE_RATE = 0.05;
+
+/**
+ * Annualized close-to-close volatility over the last `period` bars
+ */
+function realizedVolatility(bars: PriceBar[], period: number = 20): number {
+  const closes = bars.slice(-(period + 1)).map(b => b.close);
+  if (closes.length < 3) return 0;
+
+  const returns: number[] = [];
+  for (let i = 1; i < closes.length; i++) {
+    returns.push(Math.log(closes[i] / closes[i - 1]));
+  }
+  const mean = returns.reduce((a, b) => a + b, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+  return Math.sqrt(variance * 252);
+}
+
+function latestRSI(bars: PriceBar[], period: number = 14): number | null {
+  const rsiValues = historicalDataService.calculateRSI(bars, period);
+  return rsiValues.length > 0 ? rsiValues[rsiValues.length - 1] : null;
+}
+
+/**
+ * Days until the next Friday expiry (same-week Friday counts if it is still ahead)
+ */
+function daysToNextFriday(date: string): number {
+  const day = new Date(`${date}T12:00:00Z`).getUTCDay();
+  const days = (5 - day + 7) % 7;
+  return days === 0 ? 7 : days;
+}
+
+const legacyRsiStrategy: BacktestStrategy = {
+  id: 'legacy_rsi',
+  name: 'Legacy RSI/VIX',
+  description: 'Buy 2% OTM weekly calls when RSI is oversold and puts when overbought, only when VIX is above a floor',
+  defaultSymbols: ['AAPL', 'TSLA', 'NVDA', 'SPY', 'QQQ'],
+  defaultParams: { rsiOversold: 30, rsiOverbought: 70, minVIX: 15 },
+  warmupBars: 15,
+  evaluate({ bars, vix, params }) {
+    // Skip if VIX too low (no volatility opportunities)
+    if (vix < params.minVIX) return null;
+
+    const rsi = latestRSI(bars);
+    if (rsi === null) return null;
+    const close = bars[bars.length - 1].close;
+
+    // CALL signal: RSI oversold
+    if (rsi < params.rsiOversold) {
+      return {
+        optionType: 'call',
+        strike: Math.round(close * 1.02), // Slightly OTM
+        dte: 7,
+        iv: 0.35, // Estimate IV (no historical IV data)
+        reason: `RSI ${rsi.toFixed(1)} < ${params.rsiOversold}`,
+        signals: { rsi, vix },
+      };
+    }
+
+    // PUT signal: RSI overbought
+    if (rsi > params.rsiOverbought) {
+      return {
+        optionType: 'put',
+        strike: Math.round(close * 0.98), // Slightly OTM
+        dte: 7,
+        iv: 0.35,
+        reason: `RSI ${rsi.toFixed(1)} > ${params.rsiOverbought}`,
+        signals: { rsi, vix },
+      };
+    }
+
+    return null;
+  },
+};
+
+const eliteScannerStrategy: BacktestStrategy = {
+  id: 'elite_scanner',
+  name: 'Elite Scanner',
+  description: 'Live EliteScanner filters (momentum, EMA trend, pivot, ATR) and the core options gate, with stock volume standing in for option volume',
+  defaultSymbols: ['AAPL', 'TSLA', 'NVDA', 'AMD', 'META', 'MSFT'],
+  defaultParams: {},
+  warmupBars: 35, // 30-period ATR + previous day
+  evaluate({ symbol, bars, vix }) {
+    // Indicators from the prior session, "current price" is the simulated day's close
+    const today = bars[bars.length - 1];
+    const history = bars.slice(0, -1);
+    const indicators = liveDataAdapter.computeIndicatorBundle(symbol, history, today.close, 'historical');
+
+    const { atrMultiplier } = EliteStrategyEngine.getInstance().getConfig();
+    const { setup } = evaluateEliteTechnicals(indicators, atrMultiplier);
+    if (!setup) return null;
+
+    const recentVolumes = history.slice(-20).map(b => b.volume);
+    const avgVolume = recentVolumes.reduce((a, b) => a + b, 0) / (recentVolumes.length || 1);
+    const volumeRatio = avgVolume > 0 ? today.volume / avgVolume : 0;
+
+    // ATM, 5 DTE (scanner picks 3-7 DTE contracts)
+    const strike = Math.round(today.close);
+    const dte = 5;
+    const iv = Math.max(0.2, realizedVolatility(bars));
+    const premium = BlackScholesCalculator.calculateOptionPrice(today.close, strike, dte / 365, RISK_FREE_RATE, iv, setup.optionType);
+
+    const rejection = evaluateEliteOptionsGate(setup, { volumeRatio, premium });
+    if (rejection) return null;
+
+    return {
+      optionType: setup.optionType,
+      strike,
+      dte,
+      iv,
+      reason: setup.passedFilters.join(', '),
+      signals: {
+        rsi: indicators.rsi,
+        vix,
+        ema20: indicators.ema20,
+        atrShort: indicators.atrShort,
+        atrLong: indicators.atrLong,
+        momentum: setup.intradayMomentum,
+        volumeRatio,
+        hasATRMomentum: setup.hasATRMomentum,
+        passedFilters: setup.passedFilters,
+      },
+    };
+  },
+};
+
+/**
+ * Strike in the option's listing increment whose Black-Scholes |delta| is closest to
+ * `targetDelta`, or null when no listed strike lands inside [deltaMin, deltaMax]
+ */
+function strikeForDelta(
+  price: number,
+  optionType: 'call' | 'put',
+  dte: number,
+  iv: number,
+  targetDelta: number,
+  deltaMin: number,
+  deltaMax: number
+): { strike: number; delta: number } | null {
+  const increment = price < 25 ? 0.5 : price < 200 ? 1 : 5;
+  const atm = Math.round(price / increment) * increment;
+  let best: { strike: number; delta: number } | null = null;
+
+  // ±30% of spot covers deep ITM to far OTM for short-dated contracts
+  const steps = Math.ceil((price * 0.3) / increment);
+  for (let i = -steps; i <= steps; i++) {
+    const strike = Number((atm + i * increment).toFixed(2));
+    if (strike <= 0) continue;
+    const delta = Math.abs(BlackScholesCalculator.calculateGreeks(price, strike, dte / 365, RISK_FREE_RATE, iv, optionType).delta);
+    if (delta < deltaMin || delta > deltaMax) continue;
+    if (!best || Math.abs(delta - targetDelta) < Math.abs(best.delta - targetDelta)) {
+      best = { strike, delta };
+    }
+  }
+  return best;
+}
+
+const eliteRulesStrategy: BacktestStrategy = {
+  id: 'elite_rules',
+  name: 'Elite Strategy Rules',
+  description: 'EliteStrategyEngine rules: RSI crossing back out of oversold/overbought, VIX floor per side, EMA trend, ATR momentum and a delta band for the strike',
+  defaultSymbols: ['AAPL', 'TSLA', 'NVDA', 'AMD', 'META', 'MSFT'],
+  // Live engine config is the default, so an un-tuned run replays the active parameter version
+  get defaultParams() {
+    const config = EliteStrategyEngine.getInstance().getConfig();
+    return {
+      rsiOversold: config.rsiOversold,
+      rsiOverbought: config.rsiOverbought,
+      vixMinCall: config.vixMinCall,
+      vixMinPut: config.vixMinPut,
+      atrMultiplier: config.atrMultiplier,
+      deltaMin: config.deltaMin,
+      deltaMax: config.deltaMax,
+    };
+  },
+  warmupBars: 35, // 30-period ATR + previous day
+  evaluate({ symbol, bars, vix, params }) {
+    const close = bars[bars.length - 1].close;
+    const indicators = liveDataAdapter.computeIndicatorBundle(symbol, bars, close, 'historical');
+    const { rsi, rsiPrevious, ema20, atrShort, atrLong } = indicators;
+
+    let optionType: 'call' | 'put';
+    if (rsiPrevious <= params.rsiOversold && rsi > params.rsiOversold) {
+      optionType = 'call'; // Crossing up out of oversold
+      if (vix < params.vixMinCall || close <= ema20) return null;
+    } else if (rsiPrevious >= params.rsiOverbought && rsi < params.rsiOverbought) {
+      optionType = 'put'; // Crossing down out of overbought
+      if (vix < params.vixMinPut || close >= ema20) return null;
+    } else {
+      return null;
+    }
+
+    if (atrShort <= atrLong * params.atrMultiplier) return null;
+
+    const dte = 5;
+    const iv = Math.max(0.2, realizedVolatility(bars));
+    const target = strikeForDelta(close, optionType, dte, iv, (params.deltaMin + params.deltaMax) / 2, params.deltaMin, params.deltaMax);
+    if (!target) return null;
+
+    return {
+      optionType,
+      strike: target.strike,
+      dte,
+      iv,
+      reason: `RSI ${rsiPrevious.toFixed(1)} → ${rsi.toFixed(1)}, delta ${target.delta.toFixed(2)}`,
+      signals: { rsi, rsiPrevious, vix, ema20, atrShort, atrLong, delta: target.delta },
+    };
+  },
+};
+
+const spxDayTradeStrategy: BacktestStrategy = {
+  id: 'spx_day_trade',
+  name: 'SPX Day Trade',
+  description: 'SPX VIX/RSI formula: PUT when VIX > 18 and RSI > 70, otherwise CALL; 0.5% OTM strike expiring next Friday',
+  defaultSymbols: ['SPX'],
+  defaultParams: {},
+  warmupBars: 15,
+  evaluate({ date, bars, vix }) {
+    const rsi = latestRSI(bars);
+    if (rsi === null) return null;
+    const close = bars[bars.length - 1].close;
+
+    const { optionType, signal } = classifyDayTradeSignal(vix, rsi);
+    // SPX strikes are listed in $5 increments
+    const rawStrike = optionType === 'call' ? close * 1.005 : close * 0.995;
+
+    return {
+      optionType,
+      strike: Math.round(rawStrike / 5) * 5,
+      dte: daysToNextFriday(date),
+      iv: Math.max(0.1, vix / 100),
+      reason: signal,
+      signals: { rsi, vix },
+    };
+  },
+};
+
+const STRATEGIES: Record<BacktestStrategyId, BacktestStrategy> = {
+  legacy_rsi: legacyRsiStrategy,
+  elite_scanner: eliteScannerStrategy,
+  elite_rules: eliteRulesStrategy,
+  spx_day_trade: spxDayTradeStrategy,
+};
+
+export function getBacktestStrategy(id: string): BacktestStrategy | undefined {
+  // Own keys only, so ids like 'toString' or '__proto__' aren't resolved through the prototype
+  return Object.hasOwn(STRATEGIES, id) ? STRATEGIES[id as BacktestStrategyId] : undefined;
+}
+
+export function listBacktestStrategies(): BacktestStrategy[] {
+  return Object.values(STRATEGIES);
+}
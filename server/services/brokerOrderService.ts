@@ -0,0 +1,559 @@
+/**
+ * Broker Order Service
+ *
+ * Places trade recommendations at Tastytrade as single-leg limit orders:
+ *
+ *   preview (dry run) ──confirm──▶ submit ──poll──▶ fills
+ *
+ * The preview reports the buying power effect, fees and broker warnings, and is only
+ * valid for PREVIEW_TTL_MS so the user confirms against a current price. Submit claims
+ * the preview atomically ('submitting'), so a preview reaches the broker at most once;
+ * a failed placement is marked 'failed' and must be previewed again. Submitted orders
+ * are polled until they reach a terminal status. Each new fill is written to
+ * `trade_history` and accumulated into a `portfolio_positions` ledger row (source
+ * 'order'); the recommendation is marked executed on its first fill. Sell to Close
+ * orders placed by exit automation are recorded as 'submitting' before they are sent
+ * and reduce that ledger row instead.
+ */
+
+import { db } from '../db';
+import {
+  brokerOrders,
+  optionsTrade,
+  portfolioPositions,
+  tradeHistory,
+  type BrokerOrder,
+  type BrokerOrderPreview,
+  type BrokerOrderStatus,
+} from '@shared/schema';
+import { OPTIONS_CONTRACT_MULTIPLIER } from '@shared/constants';
+import { and, desc, eq, inArray } from 'drizzle-orm';
+import { tastytradeService, type TastytradeOrderAction, type TastytradeOrderRequest } from './tastytradeService';
+import { executionCostModel } from './executionCostModel';
+import { formatOptionSymbol, toTastytradeOrderSymbol } from '../utils/optionSymbols';
+
+const PREVIEW_TTL_MS = 5 * 60 * 1000;
+const POLL_INTERVAL_MS = 2000;
+const MAX_POLL_DURATION_MS = 30 * 60 * 1000; // Stop polling stale working orders; GET /api/orders/:id refreshes on demand
+
+const ACTIVE_STATUSES: BrokerOrderStatus[] = ['submitted', 'working', 'partially_filled'];
+
+// Tastytrade order status → BrokerOrderStatus (partial fills are detected from the legs)
+const TASTYTRADE_STATUS_MAP: Record<string, BrokerOrderStatus> = {
+  'Received': 'submitted',
+  'Routed': 'submitted',
+  'In Flight': 'submitted',
+  'Contingent': 'submitted',
+  'Live': 'working',
+  'Cancel Requested': 'working',
+  'Replace Requested': 'working',
+  'Filled': 'filled',
+  'Cancelled': 'cancelled',
+  'Removed': 'cancelled',
+  'Partially Removed': 'cancelled',
+  'Expired': 'expired',
+  'Rejected': 'rejected',
+};
+
+/**
+ * Order request that can't be carried out (unknown order, stale preview, broker rejection)
+ */
+export class BrokerOrderError extends Error {
+  constructor(message: string, public readonly statusCode: 400 | 404 | 409 | 502 = 400) {
+    super(message);
+    this.name = 'BrokerOrderError';
+  }
+}
+
+export interface OrderPreviewRequest {
+  tradeId: string;
+  contracts?: number; // Defaults to the recommendation's contracts
+  limitPrice?: number; // Per share; defaults to the recommendation's premium
+}
+
+export interface ExitOrderRequest {
+  ticker: string;
+  optionSymbol: string; // Canonical OCC (e.g. ".SPY251113C00680000")
+  optionType: 'call' | 'put';
+  strikePrice: number;
+  expiry: string;
+  quantity: number; // Contracts to sell
+  limitPrice: number; // Per share
+}
+
+export class BrokerOrderService {
+  private static instance: BrokerOrderService;
+  private pollers = new Map<string, NodeJS.Timeout>();
+  private refreshing = new Set<string>();
+
+  static getInstance(): BrokerOrderService {
+    if (!BrokerOrderService.instance) {
+      BrokerOrderService.instance = new BrokerOrderService();
+    }
+    return BrokerOrderService.instance;
+  }
+
+  /**
+   * Build a Buy to Open limit order from a recommendation and dry-run it at the broker
+   */
+  async preview(request: OrderPreviewRequest): Promise<BrokerOrderPreview> {
+    const [trade] = await db.select().from(optionsTrade).where(eq(optionsTrade.id, request.tradeId)).limit(1);
+    if (!trade) {
+      throw new BrokerOrderError('Trade recommendation not found', 404);
+    }
+
+    const contracts = request.contracts ?? trade.contracts;
+    if (!Number.isInteger(contracts) || contracts <= 0) {
+      throw new BrokerOrderError('contracts must be a positive whole number');
+    }
+
+    const rawPrice = request.limitPrice ?? trade.premium ?? trade.entryPrice;
+    if (typeof rawPrice !== 'number' || !Number.isFinite(rawPrice) || rawPrice <= 0) {
+      throw new BrokerOrderError('limitPrice must be a positive number');
+    }
+    const tick = executionCostModel.getTickSize(trade.ticker, rawPrice);
+    const limitPrice = Number((Math.round(rawPrice / tick) * tick).toFixed(2));
+
+    const optionType = trade.optionType === 'put' ? 'put' : 'call';
+    const canonical = trade.optionSymbol || formatOptionSymbol(trade.ticker, trade.expiry, optionType, trade.strikePrice);
+    const symbol = toTastytradeOrderSymbol(canonical);
+    if (!symbol) {
+      throw new BrokerOrderError(`Cannot build an order symbol for ${trade.ticker} ${trade.strikePrice} ${optionType}`);
+    }
+
+    const action: TastytradeOrderAction = 'Buy to Open';
+    const dryRun = await this.callBroker('Dry run', () =>
+      tastytradeService.dryRunOrder(this.buildRequest(symbol, contracts, limitPrice, action))
+    );
+
+    const buyingPower = dryRun?.['buying-power-effect'];
+    const fees = dryRun?.['fee-calculation'];
+    const warnings: string[] = (dryRun?.warnings || []).map((w: any) => w.message || String(w));
+
+    const [order] = await db.insert(brokerOrders).values({
+      tradeId: trade.id,
+      broker: 'tastytrade',
+      accountNumber: tastytradeService.getAccountNumber(),
+      status: 'previewed',
+      ticker: trade.ticker,
+      optionSymbol: symbol,
+      optionType,
+      strikePrice: trade.strikePrice,
+      expiry: trade.expiry,
+      action,
+      quantity: contracts,
+      limitPrice,
+      timeInForce: 'Day',
+      estimatedFees: fees ? this.parseSigned(fees['total-fees'], 'Credit') : null,
+      buyingPowerEffect: buyingPower
+        ? this.parseSigned(buyingPower['change-in-buying-power'], buyingPower['change-in-buying-power-effect'])
+        : null,
+      warnings,
+      brokerResponse: dryRun,
+    }).returning();
+
+    console.log(`🧾 Order preview ${order.id}: ${action} ${contracts} ${symbol.replace(/\s+/g, ' ')} @ $${limitPrice.toFixed(2)}`);
+
+    return {
+      order,
+      estimatedCost: limitPrice * contracts * OPTIONS_CONTRACT_MULTIPLIER,
+      expiresAt: new Date((order.previewedAt ?? new Date()).getTime() + PREVIEW_TTL_MS).toISOString(),
+    };
+  }
+
+  /**
+   * Route a previewed order to the broker and start polling it
+   */
+  async submit(id: string): Promise<BrokerOrder> {
+    const existing = await this.requireOrder(id);
+    if (!existing.previewedAt || Date.now() - existing.previewedAt.getTime() > PREVIEW_TTL_MS) {
+      throw new BrokerOrderError('Preview has expired, preview the order again', 409);
+    }
+
+    // Claim the preview so a concurrent or retried submit can't place it a second time
+    const [order] = await db.update(brokerOrders)
+      .set({ status: 'submitting' })
+      .where(and(eq(brokerOrders.id, id), eq(brokerOrders.status, 'previewed')))
+      .returning();
+    if (!order) {
+      const current = await this.requireOrder(id);
+      throw new BrokerOrderError(`Order is already ${current.status}`, 409);
+    }
+
+    let brokerOrder: any;
+    try {
+      const placed = await this.callBroker('Order', () =>
+        tastytradeService.placeOrder(
+          this.buildRequest(order.optionSymbol, order.quantity, order.limitPrice, order.action as TastytradeOrderAction)
+        )
+      );
+      brokerOrder = placed?.order ?? placed;
+      if (!brokerOrder?.id) {
+        throw new BrokerOrderError('Broker did not return an order id', 502);
+      }
+    } catch (error: any) {
+      // Not retried from this preview: after a timeout the order may still have reached the broker
+      await db.update(brokerOrders)
+        .set({ status: 'failed', rejectReason: error.message })
+        .where(eq(brokerOrders.id, id));
+      throw error;
+    }
+
+    const [submitted] = await db.update(brokerOrders)
+      .set({
+        brokerOrderId: String(brokerOrder.id),
+        accountNumber: tastytradeService.getAccountNumber() ?? order.accountNumber,
+        status: 'submitted',
+        submittedAt: new Date(),
+      })
+      .where(eq(brokerOrders.id, id))
+      .returning();
+
+    console.log(`📨 Order ${id} submitted as Tastytrade order ${brokerOrder.id}`);
+
+    // The placement response already carries the order, which may have filled immediately
+    const updated = await this.applyBrokerOrder(submitted, brokerOrder);
+    if (ACTIVE_STATUSES.includes(updated.status as BrokerOrderStatus)) {
+      this.startPolling(id);
+    }
+    return updated;
+  }
+
+  /**
+   * Place a Sell to Close limit order without a preview (used by exit automation).
+   * Fills reduce the matching 'order' ledger row, if the position was opened here.
+   */
+  async placeExit(exit: ExitOrderRequest): Promise<BrokerOrder> {
+    const symbol = toTastytradeOrderSymbol(exit.optionSymbol);
+    if (!symbol) {
+      throw new BrokerOrderError(`Cannot build an order symbol for ${exit.optionSymbol}`);
+    }
+    if (!Number.isInteger(exit.quantity) || exit.quantity <= 0) {
+      throw new BrokerOrderError('quantity must be a positive whole number');
+    }
+
+    const ledgerRows = await db.select()
+      .from(portfolioPositions)
+      .where(and(
+        eq(portfolioPositions.source, 'order'),
+        eq(portfolioPositions.status, 'open'),
+        eq(portfolioPositions.ticker, exit.ticker)
+      ));
+    const ledger = ledgerRows.find(row => (row.metadata as { optionSymbol?: string } | null)?.optionSymbol === symbol);
+
+    // Record the order before it reaches the broker (as submit does with its claim), so a
+    // crash mid-placement leaves a 'submitting' row to reconcile rather than an untracked live order
+    const action: TastytradeOrderAction = 'Sell to Close';
+    const [pending] = await db.insert(brokerOrders).values({
+      broker: 'tastytrade',
+      accountNumber: tastytradeService.getAccountNumber(),
+      status: 'submitting',
+      ticker: exit.ticker,
+      optionSymbol: symbol,
+      optionType: exit.optionType,
+      strikePrice: exit.strikePrice,
+      expiry: exit.expiry,
+      action,
+      quantity: exit.quantity,
+      limitPrice: exit.limitPrice,
+      timeInForce: 'Day',
+      estimatedFees: executionCostModel.getOrderFees(exit.quantity),
+      positionId: ledger?.id ?? null,
+    }).returning();
+
+    let brokerOrder: any;
+    try {
+      const placed = await this.callBroker('Exit order', () =>
+        tastytradeService.placeOrder(this.buildRequest(symbol, exit.quantity, exit.limitPrice, action))
+      );
+      brokerOrder = placed?.order ?? placed;
+      if (!brokerOrder?.id) {
+        throw new BrokerOrderError('Broker did not return an order id', 502);
+      }
+    } catch (error: any) {
+      await db.update(brokerOrders)
+        .set({ status: 'failed', rejectReason: error.message })
+        .where(eq(brokerOrders.id, pending.id));
+      throw error;
+    }
+
+    const [order] = await db.update(brokerOrders)
+      .set({
+        brokerOrderId: String(brokerOrder.id),
+        accountNumber: tastytradeService.getAccountNumber() ?? pending.accountNumber,
+        status: 'submitted',
+        submittedAt: new Date(),
+      })
+      .where(eq(brokerOrders.id, pending.id))
+      .returning();
+
+    console.log(`📨 Exit order ${order.id}: ${action} ${exit.quantity} ${symbol.replace(/\s+/g, ' ')} @ $${exit.limitPrice.toFixed(2)} (Tastytrade order ${brokerOrder.id})`);
+
+    const updated = await this.applyBrokerOrder(order, brokerOrder);
+    if (ACTIVE_STATUSES.includes(updated.status as BrokerOrderStatus)) {
+      this.startPolling(order.id);
+    }
+    return updated;
+  }
+
+  /**
+   * Fetch the order from the broker and record any new fills
+   */
+  async refresh(id: string): Promise<BrokerOrder> {
+    const order = await this.requireOrder(id);
+    if (!order.brokerOrderId || !ACTIVE_STATUSES.includes(order.status as BrokerOrderStatus)) {
+      return order;
+    }
+    if (this.refreshing.has(id)) {
+      return order;
+    }
+
+    this.refreshing.add(id);
+    try {
+      const brokerOrder = await this.callBroker('Order status', () => tastytradeService.getOrder(order.brokerOrderId!));
+      return await this.applyBrokerOrder(order, brokerOrder);
+    } finally {
+      this.refreshing.delete(id);
+    }
+  }
+
+  async cancel(id: string): Promise<BrokerOrder> {
+    const order = await this.requireOrder(id);
+    if (order.status === 'previewed') {
+      const [cancelled] = await db.update(brokerOrders)
+        .set({ status: 'cancelled', completedAt: new Date() })
+        .where(and(eq(brokerOrders.id, id), eq(brokerOrders.status, 'previewed')))
+        .returning();
+      if (cancelled) return cancelled;
+      return this.cancel(id); // A submit claimed it meanwhile
+    }
+    if (!ACTIVE_STATUSES.includes(order.status as BrokerOrderStatus)) {
+      throw new BrokerOrderError(`Order is already ${order.status}`, 409);
+    }
+
+    await this.callBroker('Cancel', () => tastytradeService.cancelOrder(order.brokerOrderId!));
+    return this.refresh(id);
+  }
+
+  async getOrder(id: string): Promise<BrokerOrder> {
+    return this.requireOrder(id);
+  }
+
+  async listOrders(limit: number = 50): Promise<BrokerOrder[]> {
+    return db.select()
+      .from(brokerOrders)
+      .orderBy(desc(brokerOrders.previewedAt))
+      .limit(limit);
+  }
+
+  /**
+   * Resume polling orders that were still working when the server stopped
+   */
+  async resumePolling(): Promise<void> {
+    const active = await db.select()
+      .from(brokerOrders)
+      .where(inArray(brokerOrders.status, ACTIVE_STATUSES));
+
+    for (const order of active) {
+      this.startPolling(order.id);
+    }
+    if (active.length > 0) {
+      console.log(`🔁 Resumed polling ${active.length} working broker order(s)`);
+    }
+  }
+
+  private startPolling(id: string): void {
+    if (this.pollers.has(id)) return;
+
+    const startedAt = Date.now();
+    const timer = setInterval(async () => {
+      try {
+        const order = await this.refresh(id);
+        const done = !ACTIVE_STATUSES.includes(order.status as BrokerOrderStatus);
+        if (done || Date.now() - startedAt > MAX_POLL_DURATION_MS) {
+          this.stopPolling(id);
+        }
+      } catch (error: any) {
+        console.warn(`⚠️ Order ${id} poll failed: ${error.message}`);
+        if (error instanceof BrokerOrderError && error.statusCode === 404) {
+          this.stopPolling(id);
+        }
+      }
+    }, POLL_INTERVAL_MS);
+
+    this.pollers.set(id, timer);
+  }
+
+  private stopPolling(id: string): void {
+    const timer = this.pollers.get(id);
+    if (timer) {
+      clearInterval(timer);
+      this.pollers.delete(id);
+    }
+  }
+
+  /**
+   * Sync our row with the broker's order payload. Fills beyond what was already
+   * recorded are booked as one trade at their volume-weighted price.
+   */
+  private async applyBrokerOrder(order: BrokerOrder, brokerOrder: any): Promise<BrokerOrder> {
+    const fills: { quantity: number; price: number }[] = (brokerOrder?.legs || []).flatMap((leg: any) =>
+      (leg.fills || []).map((fill: any) => ({
+        quantity: Math.abs(Number(fill.quantity) || 0),
+        price: Number(fill['fill-price']) || 0,
+      }))
+    );
+    const filledQuantity = fills.reduce((sum, f) => sum + f.quantity, 0);
+    const filledNotional = fills.reduce((sum, f) => sum + f.quantity * f.price, 0);
+    const avgFillPrice = filledQuantity > 0 ? filledNotional / filledQuantity : null;
+
+    let status = TASTYTRADE_STATUS_MAP[brokerOrder?.status] ?? (order.status as BrokerOrderStatus);
+    if (status === 'working' && filledQuantity > 0 && filledQuantity < order.quantity) {
+      status = 'partially_filled';
+    }
+    const terminal = !ACTIVE_STATUSES.includes(status);
+
+    const newQuantity = filledQuantity - order.filledQuantity;
+    const newPrice = newQuantity > 0
+      ? (filledNotional - (order.avgFillPrice ?? 0) * order.filledQuantity) / newQuantity
+      : 0;
+
+    const updated = await db.transaction(async (tx) => {
+      let positionId = order.positionId;
+
+      if (newQuantity > 0) {
+        const opening = order.action.endsWith('to Open');
+        const fees = order.estimatedFees ? order.estimatedFees * (newQuantity / order.quantity) : 0;
+
+        if (opening && positionId) {
+          // Opening fills grow the ledger position at the order's average fill
+          await tx.update(portfolioPositions)
+            .set({ quantity: filledQuantity, avgCost: avgFillPrice!, currentPrice: newPrice })
+            .where(eq(portfolioPositions.id, positionId));
+        } else if (opening) {
+          const [position] = await tx.insert(portfolioPositions).values({
+            ticker: order.ticker,
+            broker: order.broker,
+            source: 'order',
+            positionType: 'options',
+            quantity: filledQuantity,
+            avgCost: avgFillPrice!,
+            currentPrice: newPrice,
+            unrealizedPnL: 0,
+            realizedPnL: 0,
+            status: 'open',
+            metadata: {
+              optionType: order.optionType,
+              strike: order.strikePrice,
+              expiryDate: order.expiry,
+              optionSymbol: order.optionSymbol,
+              brokerOrderId: order.brokerOrderId,
+              tradeId: order.tradeId,
+            },
+          }).returning();
+          positionId = position.id;
+        } else if (positionId) {
+          // Closing fills shrink the ledger position and book realized P/L
+          const [position] = await tx.select().from(portfolioPositions).where(eq(portfolioPositions.id, positionId)).limit(1);
+          if (position && position.status === 'open') {
+            const remaining = Math.max(0, position.quantity - newQuantity);
+            const realized = (newPrice - position.avgCost) * newQuantity * OPTIONS_CONTRACT_MULTIPLIER - fees;
+            await tx.update(portfolioPositions)
+              .set({
+                quantity: remaining,
+                currentPrice: newPrice,
+                realizedPnL: (position.realizedPnL || 0) + realized,
+                ...(remaining === 0 ? { status: 'closed', closeDate: new Date(), unrealizedPnL: 0 } : {}),
+              })
+              .where(eq(portfolioPositions.id, positionId));
+          }
+        }
+
+        await tx.insert(tradeHistory).values({
+          positionId,
+          tradeType: order.action.startsWith('Buy') ? 'buy' : 'sell',
+          ticker: order.ticker,
+          quantity: newQuantity,
+          price: newPrice,
+          fees,
+          totalValue: newQuantity * newPrice * OPTIONS_CONTRACT_MULTIPLIER,
+          notes: `${order.action} ${order.optionSymbol.replace(/\s+/g, ' ')} (Tastytrade order ${order.brokerOrderId})`,
+        });
+
+        if (opening && order.filledQuantity === 0 && order.tradeId) {
+          await tx.update(optionsTrade).set({ isExecuted: true }).where(eq(optionsTrade.id, order.tradeId));
+        }
+      }
+
+      const [row] = await tx.update(brokerOrders)
+        .set({
+          status,
+          filledQuantity,
+          avgFillPrice,
+          positionId,
+          brokerResponse: brokerOrder,
+          rejectReason: status === 'rejected' ? (brokerOrder?.['reject-reason'] || 'Rejected by broker') : order.rejectReason,
+          completedAt: terminal ? (order.completedAt ?? new Date()) : null,
+        })
+        .where(eq(brokerOrders.id, order.id))
+        .returning();
+      return row;
+    });
+
+    if (newQuantity > 0) {
+      console.log(`✅ Order ${order.id}: filled ${newQuantity} @ $${newPrice.toFixed(2)} (${filledQuantity}/${order.quantity})`);
+    }
+    if (status !== order.status) {
+      console.log(`📋 Order ${order.id}: ${order.status} → ${status}`);
+    }
+    return updated;
+  }
+
+  private buildRequest(symbol: string, quantity: number, price: number, action: TastytradeOrderAction): TastytradeOrderRequest {
+    return {
+      'time-in-force': 'Day',
+      'order-type': 'Limit',
+      price,
+      'price-effect': action.startsWith('Buy') ? 'Debit' : 'Credit',
+      legs: [{ 'instrument-type': 'Equity Option', symbol, quantity, action }],
+    };
+  }
+
+  /**
+   * Tastytrade reports amounts as unsigned strings with a separate Debit/Credit effect
+   */
+  private parseSigned(value: unknown, effect: unknown): number | null {
+    const amount = Math.abs(Number(value));
+    if (!Number.isFinite(amount)) return null;
+    return effect === 'Debit' ? -amount : amount;
+  }
+
+  /**
+   * Run a broker call, turning its failure into a BrokerOrderError. Broker 4xx responses
+   * (insufficient buying power, invalid symbol, ...) are the caller's to fix.
+   */
+  private async callBroker<T>(label: string, call: () => Promise<T>): Promise<T> {
+    try {
+      return await call();
+    } catch (error: any) {
+      const status = error.response?.status;
+      const brokerError = error.response?.data?.error;
+      const detail = brokerError?.errors?.map((e: any) => e.message).join('; ') || brokerError?.message || error.message;
+      console.error(`❌ ${label} failed at Tastytrade:`, detail);
+      if (status === 404) {
+        throw new BrokerOrderError(`${label} failed: order not found at broker`, 404);
+      }
+      throw new BrokerOrderError(`${label} failed: ${detail}`, status >= 400 && status < 500 ? 400 : 502);
+    }
+  }
+
+  private async requireOrder(id: string): Promise<BrokerOrder> {
+    const [order] = await db.select().from(brokerOrders).where(eq(brokerOrders.id, id)).limit(1);
+    if (!order) {
+      throw new BrokerOrderError('Order not found', 404);
+    }
+    return order;
+  }
+}
+
+export const brokerOrderService = BrokerOrderService.getInstance();
@@ -13,14 +13,17 @@
  * Performance Target: <3 seconds for 100+ tickers
  */
 
-import { liveDataAdapter } from './liveDataAdapter';
+import { liveDataAdapter, type IndicatorBundle } from './liveDataAdapter';
 import { EliteStrategyEngine } from './eliteStrategyEngine';
 import { marketStatusService } from './marketStatusService';
 import { polygonService } from './polygonService';
 import { batchDataService } from './batchDataService';
 import { TimeUtils } from './timeUtils';
 import { overnightDataFetcher } from './overnightDataFetcher';
+import { sectorPerformanceService } from './sectorPerformanceService';
+import { marketRegimeService } from './marketRegimeService';
 import { calculateRSI, calculateEMA, calculateATR } from '../utils/indicators';
+import type { MarketRegime } from '@shared/schema';
 
 export interface EliteScanResult {
   symbol: string;
@@ -61,6 +64,126 @@ export interface EliteScanResult {
   scannedAt: number;
 }
 
+export interface EliteTechnicalSetup {
+  optionType: 'call' | 'put';
+  intradayMomentum: number; // % move from previous close
+  pivotLevel: number;
+  abovePivot: number;
+  pivotAligned: boolean;
+  trendAligned: boolean;
+  hasATRMomentum: boolean;
+  passedFilters: string[];
+}
+
+/**
+ * Elite live-mode technical filters, shared by the scanner and the backtester.
+ * Direction comes from price action (momentum vs. previous close); RSI, pivot and
+ * ATR contribute to scoring only. Hard rejects: momentum < 0.8% or EMA misaligned.
+ */
+export function evaluateEliteTechnicals(
+  indicators: IndicatorBundle,
+  atrMultiplier: number
+): { setup: EliteTechnicalSetup | null; rejection?: string } {
+  const passedFilters: string[] = [];
+  
+  // Calculate pivot level: (H + L + C) / 3 from last bar
+  const lastBar = indicators.bars[indicators.bars.length - 1];
+  const pivotLevel = (lastBar.high + lastBar.low + lastBar.close) / 3;
+  const abovePivot = ((indicators.currentPrice - pivotLevel) / pivotLevel) * 100;
+  
+  // FIX: Calculate momentum from yesterday's CLOSE (not open) to avoid stale bar issue
+  // lastBar.open is from yesterday's bar, but we want today's momentum
+  const intradayMomentum = ((indicators.currentPrice - lastBar.close) / lastBar.close) * 100;
+  if (Math.abs(intradayMomentum) < 0.8) {  // RELAXED: 0.8% instead of 1.5%
+    return { setup: null, rejection: `Low momentum ${intradayMomentum.toFixed(2)}% (need 0.8%)` };
+  }
+  passedFilters.push(`💨 Momentum ${intradayMomentum >= 0 ? '+' : ''}${intradayMomentum.toFixed(1)}%`);
+  
+  // Nov 12 FIX: Determine signal type from PRICE ACTION, not RSI!
+  // RIGL/TBPH both had RSI=50 but worked because they had bullish momentum/EMA
+  let optionType: 'call' | 'put';
+  if (intradayMomentum > 0) {
+    optionType = 'call';  // Bullish momentum
+  } else if (intradayMomentum < 0) {
+    optionType = 'put';   // Bearish momentum
+  } else {
+    // Edge case: exactly 0% momentum - use EMA tie-breaker
+    optionType = indicators.currentPrice >= indicators.ema20 ? 'call' : 'put';
+  }
+  
+  // RSI is for SCORING only, not filtering
+  passedFilters.push(`RSI ${indicators.rsi.toFixed(1)}`);
+  
+  // SCORING ONLY: Pivot filter contributes to quality score, doesn't reject
+  const pivotAligned = optionType === 'call'
+    ? indicators.currentPrice > pivotLevel  // Above pivot for calls
+    : indicators.currentPrice < pivotLevel; // Below pivot for puts
+  
+  if (pivotAligned) {
+    passedFilters.push(`Pivot ${abovePivot >= 0 ? '+' : ''}${abovePivot.toFixed(1)}%`);
+  }
+  
+  // Check trend alignment
+  const trendAligned = optionType === 'call'
+    ? indicators.currentPrice > indicators.ema20
+    : indicators.currentPrice < indicators.ema20;
+  
+  if (!trendAligned) {
+    return {
+      setup: null,
+      rejection: `EMA misaligned (Price $${indicators.currentPrice.toFixed(2)} vs EMA $${indicators.ema20.toFixed(2)}, Type ${optionType})`
+    };
+  }
+  passedFilters.push('EMA Trend Aligned');
+  
+  // ATR MOMENTUM CHECK: Scoring bonus, not a hard gate
+  const hasATRMomentum = indicators.atrShort > (indicators.atrLong * atrMultiplier);
+  if (hasATRMomentum) {
+    passedFilters.push(`ATR Momentum ${indicators.atrShort.toFixed(2)}/${indicators.atrLong.toFixed(2)}`);
+  }
+  
+  return {
+    setup: {
+      optionType,
+      intradayMomentum,
+      pivotLevel,
+      abovePivot,
+      pivotAligned,
+      trendAligned,
+      hasATRMomentum,
+      passedFilters
+    }
+  };
+}
+
+/**
+ * Elite core options gate: volume spike > 1.8x, premium > $0.30 and pivot breakout.
+ * Appends the passed filters to the setup; returns a rejection reason or null.
+ */
+export function evaluateEliteOptionsGate(
+  setup: EliteTechnicalSetup,
+  optionsData: { volumeRatio: number; premium: number }
+): string | null {
+  // Filter 2: Volume Spike > 1.8x average (RESTORED from 1.5x)
+  if (optionsData.volumeRatio <= 1.8) {
+    return `Low volume spike ${optionsData.volumeRatio.toFixed(2)}x (need 1.8x)`;
+  }
+  setup.passedFilters.push(`🔥 Volume ${optionsData.volumeRatio.toFixed(1)}x`);
+  
+  // Filter 4: Premium > $0.30 (was $0.50)
+  if (optionsData.premium <= 0.30) {
+    return `Low premium $${optionsData.premium.toFixed(2)} (need $0.30)`;
+  }
+  setup.passedFilters.push(`💰 Premium $${optionsData.premium.toFixed(2)}`);
+  
+  // Filter 5: Pivot Breakout
+  if (!setup.pivotAligned) {
+    return `No pivot breakout (${setup.abovePivot >= 0 ? '+' : ''}${setup.abovePivot.toFixed(1)}% vs pivot)`;
+  }
+  
+  return null;
+}
+
 export class EliteScanner {
   private static instance: EliteScanner | null = null;
   private strategyEngine: EliteStrategyEngine;
@@ -91,6 +214,7 @@ export class EliteScanner {
     isOvernight: boolean;
     scanDuration: number;
     overnightAlert?: string;
+    marketRegime: MarketRegime | null;
   }> {
     const startTime = Date.now();
     const marketContext = liveDataAdapter.getMarketContext();
@@ -98,8 +222,14 @@ export class EliteScanner {
     
     console.log(`🔍 Starting Elite Scanner (${isOvernight ? 'OVERNIGHT' : marketContext.isLive ? 'LIVE' : 'HISTORICAL'} data)...`);
     
-    // Load strategy parameters
-    await this.strategyEngine.loadParametersFromDatabase();
+    // Load strategy parameters for the current market regime (base set if none is regime-specific)
+    let marketRegime: MarketRegime | null = null;
+    try {
+      marketRegime = (await marketRegimeService.getCurrentRegime()).regime;
+    } catch (error: any) {
+      console.warn('⚠️ Market regime unavailable, using base strategy parameters:', error.message);
+    }
+    await this.strategyEngine.loadParametersFromDatabase(marketRegime);
     const config = this.strategyEngine.getConfig();
     
     // STEP 1: Fetch ALL stocks in ONE bulk API call
@@ -107,6 +237,14 @@ export class EliteScanner {
     const allStocks = await batchDataService.getStockUniverse();
     console.log(`📊 Received ${allStocks.length} stocks from bulk snapshot`);
     
+    // Refresh sector strength once per scan (read synchronously per ticker below)
+    try {
+      const sectorSnapshot = await sectorPerformanceService.getSectorPerformance();
+      console.log(`🏭 Sector strength: ${sectorSnapshot.sectors.length} sectors from ${sectorSnapshot.classifiedSymbols} classified tickers`);
+    } catch (error: any) {
+      console.warn('⚠️ Sector performance unavailable, scanning without sector strength:', error.message);
+    }
+    
     // STEP 2: Filter in memory for basic criteria
     const basicFiltered = allStocks.filter(stock => {
       // Price range: $10-$500 (options-friendly)
@@ -251,7 +389,8 @@ export class EliteScanner {
       scanDuration,
       overnightAlert: isOvernight && topResults.length > 0
         ? `${topResults.length} overnight setup${topResults.length > 1 ? 's' : ''} detected - WATCH AT 8:30 AM CST`
-        : undefined
+        : undefined,
+      marketRegime
     };
   }
   
@@ -416,6 +555,14 @@ export class EliteScanner {
           passedFilters.push('EOD Only');
         }
         
+        // Sector strength (filter mode rejects counter-sector setups)
+        const sectorStrength = sectorPerformanceService.evaluateForScanner(symbol, optionType);
+        if (!sectorStrength.pass) {
+          console.log(`❌ ${symbol}: Counter-sector ${optionType.toUpperCase()} (${sectorStrength.label})`);
+          return null;
+        }
+        if (sectorStrength.label) passedFilters.push(`🏭 ${sectorStrength.label}`);
+        
         // Select best option contract (ATM bias, DTE 3-7, premium ≥$0.30)
         // Options chain is optional - we can still generate plays based on technical indicators alone
         let bestContract: any = null;
@@ -472,7 +619,7 @@ export class EliteScanner {
           (bestContract && bestContract.openInterest > 100 ? 10 : 5) // Liquidity
         );
         
-        const signalQuality = baseQuality;
+        const signalQuality = Math.round(Math.min(100, Math.max(0, baseQuality + sectorStrength.scoreAdjustment)));
         
         passedFilters.push(hasOvernightBars ? 'Overnight Setup' : 'EOD Setup', `Quality ${signalQuality}`);
         
@@ -521,69 +668,29 @@ export class EliteScanner {
         return null;
       }
       
-      const passedFilters: string[] = [];
-      
-      // Calculate pivot level: (H + L + C) / 3 from last bar
-      const lastBar = indicators.bars[indicators.bars.length - 1];
-      const pivotLevel = (lastBar.high + lastBar.low + lastBar.close) / 3;
-      const abovePivot = ((indicators.currentPrice - pivotLevel) / pivotLevel) * 100;
-      
-      // FIX: Calculate momentum from yesterday's CLOSE (not open) to avoid stale bar issue
-      // lastBar.open is from yesterday's bar, but we want today's momentum
-      const intradayMomentum = ((indicators.currentPrice - lastBar.close) / lastBar.close) * 100;
-      if (Math.abs(intradayMomentum) < 0.8) {  // RELAXED: 0.8% instead of 1.5%
-        console.log(`❌ ${symbol}: Low momentum ${intradayMomentum.toFixed(2)}% (need 0.8%)`);
+      // Cheap technical filters (momentum, EMA trend, pivot/ATR scoring)
+      const technical = evaluateEliteTechnicals(indicators, config.atrMultiplier);
+      if (!technical.setup) {
+        console.log(`❌ ${symbol}: ${technical.rejection}`);
         return null;
       }
-      passedFilters.push(`💨 Momentum ${intradayMomentum >= 0 ? '+' : ''}${intradayMomentum.toFixed(1)}%`);
+      const { optionType, pivotLevel, abovePivot, trendAligned, hasATRMomentum, passedFilters } = technical.setup;
       
-      // Nov 12 FIX: Determine signal type from PRICE ACTION, not RSI!
-      // RIGL/TBPH both had RSI=50 but worked because they had bullish momentum/EMA
-      let optionType: 'call' | 'put';
-      if (intradayMomentum > 0) {
-        optionType = 'call';  // Bullish momentum
-      } else if (intradayMomentum < 0) {
-        optionType = 'put';   // Bearish momentum
-      } else {
-        // Edge case: exactly 0% momentum - use EMA tie-breaker
-        optionType = indicators.currentPrice >= indicators.ema20 ? 'call' : 'put';
-      }
-      
-      // RSI is for SCORING only, not filtering
-      passedFilters.push(`RSI ${indicators.rsi.toFixed(1)}`);
-      
-      // SCORING ONLY: Pivot filter contributesto quality score, doesn't reject
-      // Check directional alignment (for scoring bonus)
-      const pivotAligned = optionType === 'call'
-        ? indicators.currentPrice > pivotLevel  // Above pivot for calls
-        : indicators.currentPrice < pivotLevel; // Below pivot for puts
-      
-      if (pivotAligned) {
-        passedFilters.push(`Pivot ${abovePivot >= 0 ? '+' : ''}${abovePivot.toFixed(1)}%`);
-      } else {
-        // Still passes, but logs it for visibility
+      if (!technical.setup.pivotAligned) {
+        // Still passes the cheap filters, but logs it for visibility
         console.log(`⚠️ ${symbol}: Pivot counter-directional (Price $${indicators.currentPrice.toFixed(2)} vs Pivot $${pivotLevel.toFixed(2)}, Type ${optionType}) - continuing anyway`);
       }
-      
-      // Check trend alignment
-      const trendAligned = optionType === 'call'
-        ? indicators.currentPrice > indicators.ema20
-        : indicators.currentPrice < indicators.ema20;
-      
-      if (!trendAligned) {
-        console.log(`❌ ${symbol}: EMA misaligned (Price $${indicators.currentPrice.toFixed(2)} vs EMA $${indicators.ema20.toFixed(2)}, Type ${optionType})`);
-        return null;
+      if (!hasATRMomentum) {
+        console.log(`⚠️ ${symbol}: Low ATR momentum (Short ${indicators.atrShort.toFixed(2)} vs Long ${indicators.atrLong.toFixed(2)}) - continuing anyway`);
       }
-      passedFilters.push('EMA Trend Aligned');
       
-      // ATR MOMENTUM CHECK: Scoring bonus, not a hard gate
-      // Combined with adaptive stop (12 plays max), this keeps API calls under control
-      const hasATRMomentum = indicators.atrShort > (indicators.atrLong * config.atrMultiplier);
-      if (hasATRMomentum) {
-        passedFilters.push(`ATR Momentum ${indicators.atrShort.toFixed(2)}/${indicators.atrLong.toFixed(2)}`);
-      } else {
-        console.log(`⚠️ ${symbol}: Low ATR momentum (Short ${indicators.atrShort.toFixed(2)} vs Long ${indicators.atrLong.toFixed(2)}) - continuing anyway`);
+      // Sector strength (filter mode rejects counter-sector setups before the options API calls)
+      const sectorStrength = sectorPerformanceService.evaluateForScanner(symbol, optionType);
+      if (!sectorStrength.pass) {
+        console.log(`❌ ${symbol}: Counter-sector ${optionType.toUpperCase()} (${sectorStrength.label})`);
+        return null;
       }
+      if (sectorStrength.label) passedFilters.push(`🏭 ${sectorStrength.label}`);
       
       // 🎯 CHECKPOINT: Ticker passed all cheap technical filters (RSI, EMA, Momentum)
       // Now safe to call expensive options analytics API (3 calls per ticker)
@@ -598,38 +705,10 @@ export class EliteScanner {
         return null;
       }
       
-      // BALANCED FILTERS — HIGH QUALITY + MORE SETUPS (TARGET: 8-12 PLAYS/DAY)
-      // Simplified gate: 4 core filters for high-probability plays
-      
-      // Filter 1: RSI Oversold/Overbought (already checked above, config = 35/65)
-      const rsiOversold = indicators.rsi < 35; // For calls (catches RIGL at 32, COIN at 35)
-      const rsiOverbought = indicators.rsi > 65; // For puts (catches strong momentum)
-      
-      // Filter 2: Volume Spike > 1.8x average (RESTORED from 1.5x)
-      const volumeSpike = optionsData.volumeRatio > 1.8;
-      if (!volumeSpike) {
-        console.log(`❌ ${symbol}: Low volume spike ${optionsData.volumeRatio.toFixed(2)}x (need 1.8x)`);
-        return null;
-      }
-      passedFilters.push(`🔥 Volume ${optionsData.volumeRatio.toFixed(1)}x`);
-      
-      // Filter 3: Intraday Momentum > 0.8% (already checked earlier)
-      const momentumOk = Math.abs(intradayMomentum) >= 0.8;
-      
-      // Filter 4: Premium > $0.30 (was $0.50)
-      const premiumOk = optionsData.premium > 0.30;
-      if (!premiumOk) {
-        console.log(`❌ ${symbol}: Low premium $${optionsData.premium.toFixed(2)} (need $0.30)`);
-        return null;
-      }
-      passedFilters.push(`💰 Premium $${optionsData.premium.toFixed(2)}`);
-      
-      // Filter 5: Pivot Breakout (already checked at line 199-206)
-      const pivotBreakout = pivotAligned;
-      passedFilters.push(`Pivot ${abovePivot >= 0 ? '+' : ''}${abovePivot.toFixed(1)}%`);
-      
-      // CORE GATE: All 4 filters + pivot must pass
-      if (!pivotBreakout || !momentumOk || !volumeSpike || !premiumOk) {
+      // Core gate: volume spike, premium floor and pivot breakout
+      const optionsRejection = evaluateEliteOptionsGate(technical.setup, optionsData);
+      if (optionsRejection) {
+        console.log(`❌ ${symbol}: ${optionsRejection}`);
         return null;
       }
       
@@ -654,7 +733,8 @@ export class EliteScanner {
         ivPercentile: optionsData.ivPercentile,
         gamma: optionsData.gamma,
         volumeRatio: optionsData.volumeRatio,
-        delta: Math.abs(optionsData.delta)
+        delta: Math.abs(optionsData.delta),
+        sectorAdjustment: sectorStrength.scoreAdjustment
       });
       
       return {
@@ -711,6 +791,7 @@ export class EliteScanner {
     gamma: number;
     volumeRatio: number;
     delta: number;
+    sectorAdjustment: number; // −10…+10 from sector relative strength (0 when unused)
   }): number {
     let score = 0;
     
@@ -736,6 +817,9 @@ export class EliteScanner {
     const deltaQuality = 1 - Math.abs(metrics.delta - 0.5); // Ideal delta = 0.5
     score += deltaQuality * 5;
     
+    // Sector strength (±10 points): calls in leading sectors, puts in lagging ones
+    score += metrics.sectorAdjustment;
+    
     return Math.min(100, Math.max(0, score));
   }
 }
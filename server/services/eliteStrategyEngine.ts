@@ -12,8 +12,9 @@
  */
 
 import { historicalDataService } from './historicalDataService';
+import type { MarketRegime } from '@shared/schema';
 
-interface EliteStrategyConfig {
+export interface EliteStrategyConfig {
   // Dynamic parameters (adjusted by adaptive tuner)
   rsiOversold: number; // Default: 40 (Sweet spot: 8-12 plays/day, zero 429 errors)
   rsiOverbought: number; // Default: 60 (Sweet spot: 8-12 plays/day, zero 429 errors)
@@ -75,6 +76,9 @@ export interface EnhancedSignal {
 export class EliteStrategyEngine {
   private static instance: EliteStrategyEngine | null = null;
   private config: EliteStrategyConfig;
+  private marketRegime: MarketRegime | null = null; // Regime the parameter set is loaded for
+  private activeVersion: string | null = null;
+  private activeVersionRegime: MarketRegime | null = null; // Scope of the loaded set (null = base)
   
   private constructor(config?: Partial<EliteStrategyConfig>) {
     // Default elite parameters (RSI 40/60 finds 8-12 plays/day with zero 429 errors)
@@ -111,19 +115,25 @@ export class EliteStrategyEngine {
   }
   
   /**
-   * Load parameters from database and update config
+   * Load parameters from database and update config.
+   * Uses the active set scoped to the market regime when there is one, otherwise the
+   * base set. Omitting `marketRegime` keeps the regime of the previous load.
    */
-  async loadParametersFromDatabase(): Promise<void> {
+  async loadParametersFromDatabase(marketRegime?: MarketRegime | null): Promise<void> {
+    if (marketRegime !== undefined) {
+      this.marketRegime = marketRegime;
+    }
     try {
       const { db } = await import('../db');
       const { strategyParameters } = await import('@shared/schema');
       const { eq, desc } = await import('drizzle-orm');
       
-      const [activeParams] = await db.select()
+      const active = await db.select()
         .from(strategyParameters)
         .where(eq(strategyParameters.isActive, true))
-        .orderBy(desc(strategyParameters.activatedAt))
-        .limit(1);
+        .orderBy(desc(strategyParameters.activatedAt));
+      const activeParams = (this.marketRegime && active.find(p => p.marketRegime === this.marketRegime))
+        || active.find(p => !p.marketRegime);
       
       if (activeParams) {
         this.config = {
@@ -145,7 +155,9 @@ export class EliteStrategyEngine {
           ivRankMin: 30,
           fibProximity: 0.005,
         };
-        console.log(`✅ Loaded active strategy parameters ${activeParams.version} from database`);
+        this.activeVersion = activeParams.version;
+        this.activeVersionRegime = (activeParams.marketRegime as MarketRegime | null) || null;
+        console.log(`✅ Loaded active strategy parameters ${activeParams.version}${activeParams.marketRegime ? ` (${activeParams.marketRegime} regime)` : ''} from database`);
       } else {
         console.log(`ℹ️ No active parameters in database, using defaults`);
       }
@@ -306,4 +318,12 @@ export class EliteStrategyEngine {
   getConfig(): EliteStrategyConfig {
     return { ...this.config };
   }
+  
+  /**
+   * Current market regime and the parameter set loaded for it
+   * (version null = built-in defaults, versionRegime null = base set)
+   */
+  getParameterScope(): { marketRegime: MarketRegime | null; version: string | null; versionRegime: MarketRegime | null } {
+    return { marketRegime: this.marketRegime, version: this.activeVersion, versionRegime: this.activeVersionRegime };
+  }
 }
@@ -7,9 +7,18 @@
  * Data Saved:
  * - Close prices, volume, high/low
  * - Used by overnight scanners to detect breakouts vs EOD baseline
+ * 
+ * Snapshots are persisted to `eod_snapshots` (rolling `HISTORY_DAYS` trading days) and the
+ * latest two are reloaded at startup, so a restart after the close keeps the overnight
+ * baseline and the day-over-day comparison used by gap scans.
  */
 
 import { batchDataService } from './batchDataService';
+import { marketCalendar } from './marketCalendar';
+import { DateTime } from 'luxon';
+import { db } from '../db';
+import { eodSnapshots } from '@shared/schema';
+import { desc, eq, inArray, lt, sql } from 'drizzle-orm';
 
 export interface EODSnapshot {
   symbol: string;
@@ -21,9 +30,27 @@ export interface EODSnapshot {
   date: string; // YYYY-MM-DD
 }
 
+/**
+ * Latest snapshot against the one before it (close-to-close move, range breaks, relative volume)
+ */
+export interface EODDayOverDay {
+  symbol: string;
+  current: EODSnapshot;
+  previous: EODSnapshot;
+  change: number;
+  changePercent: number;
+  brokeHigh: boolean; // Latest high above the prior session's high
+  brokeLow: boolean; // Latest low below the prior session's low
+  volumeRatio: number; // Latest volume / prior volume
+}
+
+const HISTORY_DAYS = 20; // Trading days of snapshots kept in the database
+const INSERT_BATCH_SIZE = 5000;
+
 export class EODCacheService {
   private static instance: EODCacheService | null = null;
-  private cache = new Map<string, EODSnapshot>();
+  private cache = new Map<string, EODSnapshot>(); // Latest snapshot date
+  private previous = new Map<string, EODSnapshot>(); // Snapshot date before it
   private lastCacheDate: string | null = null;
   private scheduledTask: NodeJS.Timeout | null = null;
   
@@ -42,6 +69,11 @@ export class EODCacheService {
   startScheduler(): void {
     console.log('📅 Starting EOD cache scheduler...');
     
+    // Restore the last snapshots saved before a restart
+    this.loadFromDatabase().catch(error => {
+      console.error('❌ Failed to load EOD snapshots:', error.message);
+    });
+    
     // Check every minute if it's 3:00 PM CST
     this.scheduledTask = setInterval(() => {
       this.checkAndCacheEOD();
@@ -63,7 +95,7 @@ export class EODCacheService {
   }
   
   /**
-   * Check if it's 3:00 PM CST and cache EOD data
+   * Check if it's the session close (3:00 PM CST, earlier on half days) and cache EOD data
    */
   private async checkAndCacheEOD(): Promise<void> {
     const now = new Date();
@@ -80,16 +112,20 @@ export class EODCacheService {
       minute: 'numeric'
     }));
     
-    const dateStr = now.toLocaleString('en-US', {
-      timeZone: 'America/Chicago',
-      year: 'numeric',
-      month: '2-digit',
-      day: '2-digit'
-    }).split('/').reverse().join('-'); // YYYY-MM-DD
-    
-    // Check if it's 3:00 PM CST and we haven't cached today yet
-    if (cstHour === 15 && cstMinute === 0 && this.lastCacheDate !== dateStr) {
-      console.log('🕐 3:00 PM CST detected - caching EOD data...');
+    const dateStr = marketCalendar.toExchangeDate(now);
+    
+    // No session today (weekend/holiday) - nothing new to snapshot
+    const session = marketCalendar.getSession(now);
+    if (!session) {
+      return;
+    }
+    
+    // Snapshot at the session close: 3:00 PM CST normally, 12:00 PM CST on early-close days
+    const closeCST = DateTime.fromJSDate(session.close).setZone('America/Chicago');
+    
+    // Check if it's the close and we haven't cached today yet
+    if (cstHour === closeCST.hour && cstMinute === closeCST.minute && this.lastCacheDate !== dateStr) {
+      console.log(`🕐 ${closeCST.toFormat('h:mm a')} CST close detected - caching EOD data...`);
       await this.cacheEODData();
       this.lastCacheDate = dateStr;
     }
@@ -107,35 +143,126 @@ export class EODCacheService {
       const stocks = await batchDataService.getStockUniverse();
       
       const now = new Date();
-      const dateStr = now.toISOString().split('T')[0]; // YYYY-MM-DD
-      
-      // Clear old cache
-      this.cache.clear();
+      const dateStr = marketCalendar.toExchangeDate(now); // YYYY-MM-DD
       
-      // Save snapshots for all stocks
-      let cachedCount = 0;
+      // Build snapshots for all stocks
+      const snapshots = new Map<string, EODSnapshot>();
       for (const stock of stocks) {
         if (stock.price > 0 && stock.volume > 0) {
-          this.cache.set(stock.ticker, {
+          snapshots.set(stock.ticker, {
             symbol: stock.ticker,
             close: stock.price,
             high: stock.high || stock.price,
             low: stock.low || stock.price,
             volume: stock.volume,
-            timestamp: Date.now(),
+            timestamp: now.getTime(),
             date: dateStr
           });
-          cachedCount++;
         }
       }
       
+      if (snapshots.size === 0) {
+        console.warn('⚠️ EOD cache skipped: stock universe returned no priced stocks');
+        return;
+      }
+      
+      // A new day pushes the current snapshot back; re-caching the same day replaces it
+      if (this.getLatestDate() !== dateStr) {
+        this.previous = this.cache;
+      }
+      this.cache = snapshots;
+      
+      await this.saveToDatabase(dateStr, Array.from(snapshots.values()), now);
+      
       const duration = Date.now() - startTime;
-      console.log(`✅ EOD cache complete: ${cachedCount} stocks cached in ${(duration/1000).toFixed(2)}s`);
+      console.log(`✅ EOD cache complete: ${snapshots.size} stocks cached in ${(duration/1000).toFixed(2)}s`);
     } catch (error: any) {
       console.error('❌ Failed to cache EOD data:', error.message);
     }
   }
   
+  /**
+   * Replace one day's snapshots in the database and drop days beyond the rolling history
+   * (non-fatal: the in-memory cache still serves tonight's scans)
+   */
+  private async saveToDatabase(dateStr: string, snapshots: EODSnapshot[], capturedAt: Date): Promise<void> {
+    try {
+      const rows = snapshots.map(snapshot => ({
+        date: dateStr,
+        symbol: snapshot.symbol,
+        close: snapshot.close,
+        high: snapshot.high,
+        low: snapshot.low,
+        volume: Math.round(snapshot.volume), // Ensure integer for bigint column
+        capturedAt
+      }));
+      
+      await db.transaction(async (tx) => {
+        await tx.delete(eodSnapshots).where(eq(eodSnapshots.date, dateStr));
+        for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+          await tx.insert(eodSnapshots).values(rows.slice(i, i + INSERT_BATCH_SIZE));
+        }
+      });
+      
+      const dates = await this.getStoredDates();
+      if (dates.length > HISTORY_DAYS) {
+        await db.delete(eodSnapshots).where(lt(eodSnapshots.date, dates[HISTORY_DAYS - 1]));
+      }
+      
+      console.log(`💾 EOD snapshot ${dateStr} saved (${rows.length} stocks)`);
+    } catch (error: any) {
+      console.error('❌ Failed to save EOD snapshot to database:', error.message);
+    }
+  }
+  
+  /**
+   * Load the two most recent snapshot days (latest + day-over-day baseline)
+   */
+  private async loadFromDatabase(): Promise<void> {
+    const [latest, prior] = await this.getStoredDates();
+    if (!latest) {
+      console.log('⚠️ No saved EOD snapshots - waiting for the next close');
+      return;
+    }
+    
+    const rows = await db.select()
+      .from(eodSnapshots)
+      .where(inArray(eodSnapshots.date, prior ? [latest, prior] : [latest]));
+    
+    // Don't clobber a snapshot taken while the load was running
+    if (this.cache.size > 0) return;
+    
+    for (const row of rows) {
+      const snapshot: EODSnapshot = {
+        symbol: row.symbol,
+        close: row.close,
+        high: row.high,
+        low: row.low,
+        volume: row.volume,
+        timestamp: new Date(row.capturedAt).getTime(),
+        date: row.date
+      };
+      (row.date === latest ? this.cache : this.previous).set(row.symbol, snapshot);
+    }
+    this.lastCacheDate = latest;
+    
+    console.log(`✅ Loaded EOD snapshot ${latest} (${this.cache.size} stocks)${prior ? `, baseline ${prior} (${this.previous.size})` : ''}`);
+  }
+  
+  /**
+   * Snapshot dates in the database, newest first
+   */
+  private async getStoredDates(): Promise<string[]> {
+    const rows = await db.selectDistinct({ date: eodSnapshots.date })
+      .from(eodSnapshots)
+      .orderBy(desc(eodSnapshots.date));
+    return rows.map(row => row.date);
+  }
+  
+  private getLatestDate(): string | null {
+    return Array.from(this.cache.values())[0]?.date || null;
+  }
+  
   /**
    * Get EOD snapshot for a symbol
    */
@@ -144,7 +271,73 @@ export class EODCacheService {
   }
   
   /**
-   * Check if we have valid EOD cache (from today)
+   * Get the symbol's snapshot from the session before the latest one
+   */
+  getPreviousEODSnapshot(symbol: string): EODSnapshot | null {
+    return this.previous.get(symbol.toUpperCase()) || null;
+  }
+  
+  /**
+   * Latest snapshot compared with the prior session's (null unless both exist)
+   */
+  getDayOverDay(symbol: string): EODDayOverDay | null {
+    const current = this.getEODSnapshot(symbol);
+    const previous = this.getPreviousEODSnapshot(symbol);
+    if (!current || !previous || previous.close <= 0) {
+      return null;
+    }
+    
+    const change = current.close - previous.close;
+    return {
+      symbol: current.symbol,
+      current,
+      previous,
+      change,
+      changePercent: (change / previous.close) * 100,
+      brokeHigh: current.high > previous.high,
+      brokeLow: current.low < previous.low,
+      volumeRatio: previous.volume > 0 ? current.volume / previous.volume : 0
+    };
+  }
+  
+  /**
+   * All snapshots saved for a date (any day in the rolling history)
+   */
+  async getSnapshotsForDate(date: string): Promise<EODSnapshot[]> {
+    const rows = await db.select().from(eodSnapshots).where(eq(eodSnapshots.date, date));
+    return rows.map(row => ({
+      symbol: row.symbol,
+      close: row.close,
+      high: row.high,
+      low: row.low,
+      volume: row.volume,
+      timestamp: new Date(row.capturedAt).getTime(),
+      date: row.date
+    }));
+  }
+  
+  /**
+   * Saved snapshot days with stock counts, newest first (admin)
+   */
+  async getCachedDates(): Promise<{ date: string; symbols: number; capturedAt: string | null }[]> {
+    const rows = await db.select({
+      date: eodSnapshots.date,
+      symbols: sql<number>`count(*)::int`,
+      capturedAt: sql<Date | null>`max(${eodSnapshots.capturedAt})`
+    })
+      .from(eodSnapshots)
+      .groupBy(eodSnapshots.date)
+      .orderBy(desc(eodSnapshots.date));
+    
+    return rows.map(row => ({
+      date: row.date,
+      symbols: row.symbols,
+      capturedAt: row.capturedAt ? new Date(row.capturedAt).toISOString() : null
+    }));
+  }
+  
+  /**
+   * Check if we have valid EOD cache (from the most recent session that has closed)
    */
   hasValidCache(): boolean {
     if (this.cache.size === 0) {
@@ -152,11 +345,12 @@ export class EODCacheService {
     }
     
     const now = new Date();
-    const todayStr = now.toISOString().split('T')[0];
+    const today = marketCalendar.getSession(now);
+    const lastClosedSession = today && now >= today.close
+      ? today.date
+      : marketCalendar.getPreviousTradingDay(now);
     
-    // Check if cache is from today
-    const firstSnapshot = Array.from(this.cache.values())[0];
-    return firstSnapshot?.date === todayStr;
+    return this.getLatestDate() === lastClosedSession;
   }
   
   /**
@@ -165,12 +359,13 @@ export class EODCacheService {
   getCacheStats(): {
     size: number;
     date: string | null;
+    previousDate: string | null;
     isValid: boolean;
   } {
-    const firstSnapshot = Array.from(this.cache.values())[0];
     return {
       size: this.cache.size,
-      date: firstSnapshot?.date || null,
+      date: this.getLatestDate(),
+      previousDate: Array.from(this.previous.values())[0]?.date || null,
       isValid: this.hasValidCache()
     };
   }
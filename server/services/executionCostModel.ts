@@ -0,0 +1,224 @@
+/**
+ * Execution Cost Model
+ *
+ * Turns theoretical (mid/model) option premiums into realistic fills so backtests,
+ * tracked recommendations and projected ROI report the same net numbers:
+ * - Bid/ask: buys fill at the ask, sells at the bid when a quote is known; otherwise
+ *   half of `spreadPercent` of the mid is paid on each side
+ * - Tick rounding: fills are rounded against the trader to the option's minimum tick
+ *   ($0.01/$0.05 for penny-pilot symbols, $0.05/$0.10 otherwise, split at $3.00)
+ * - Fees: per-contract commission and regulatory fees on every opening/closing order
+ *
+ * Expiry settlement (intrinsic value, auto-exercise) is treated as cost free.
+ * Configuration lives in `app_config` under `execution_cost_model`.
+ */
+
+import { db } from '../db';
+import { appConfig } from '@shared/schema';
+import { eq } from 'drizzle-orm';
+
+export interface ExecutionCostConfig {
+  spreadPercent: number; // Full bid-ask spread as a fraction of mid when no quote (0.05 = 5%)
+  commissionPerContract: number; // Broker commission per contract per order
+  regulatoryFeePerContract: number; // ORF/OCC/FINRA TAF per contract per order
+  pennyPilotSymbols: string[]; // Underlyings quoted in $0.01 ticks below $3.00
+}
+
+export interface QuoteSide {
+  bid?: number | null;
+  ask?: number | null;
+}
+
+export interface RoundTripInput {
+  ticker: string;
+  contracts: number;
+  entryPremium: number; // Mid/theoretical premium at entry
+  exitPremium: number; // Mid/theoretical premium at exit (intrinsic value when settled at expiry)
+  entryQuote?: QuoteSide | null;
+  exitQuote?: QuoteSide | null;
+  settledAtExpiry?: boolean; // Exit by expiration settlement (no spread or fees)
+}
+
+export interface RoundTripCosts {
+  entryFill: number; // Per-share premium actually paid
+  exitFill: number; // Per-share premium actually received
+  entryFees: number; // Dollars
+  exitFees: number; // Dollars
+  grossPnL: number; // Dollars at mid prices
+  netPnL: number; // Dollars after spread, ticks and fees
+  grossROI: number; // Percentage
+  netROI: number; // Percentage
+  totalCosts: number; // grossPnL - netPnL
+}
+
+const CONFIG_KEY = 'execution_cost_model';
+
+const DEFAULT_CONFIG: ExecutionCostConfig = {
+  spreadPercent: 0.05,
+  commissionPerContract: 0.65,
+  regulatoryFeePerContract: 0.05,
+  pennyPilotSymbols: ['SPY', 'QQQ', 'IWM', 'SPX', 'AAPL', 'AMD', 'AMZN', 'META', 'MSFT', 'NVDA', 'TSLA', 'GOOGL'],
+};
+
+export class ExecutionCostModel {
+  private static instance: ExecutionCostModel | null = null;
+  private config: ExecutionCostConfig = { ...DEFAULT_CONFIG };
+
+  private constructor() {}
+
+  static getInstance(): ExecutionCostModel {
+    if (!ExecutionCostModel.instance) {
+      ExecutionCostModel.instance = new ExecutionCostModel();
+    }
+    return ExecutionCostModel.instance;
+  }
+
+  /**
+   * Load saved overrides from app_config (defaults are used when none are stored)
+   */
+  async loadFromDatabase(): Promise<void> {
+    try {
+      const [row] = await db.select()
+        .from(appConfig)
+        .where(eq(appConfig.key, CONFIG_KEY))
+        .limit(1);
+
+      if (row) {
+        this.config = this.merge(DEFAULT_CONFIG, JSON.parse(row.value));
+        console.log(`💸 Execution cost model loaded (spread ${(this.config.spreadPercent * 100).toFixed(1)}%, $${this.config.commissionPerContract}/contract)`);
+      }
+    } catch (error: any) {
+      console.warn('⚠️ Failed to load execution cost model, using defaults:', error.message);
+    }
+  }
+
+  getConfig(): ExecutionCostConfig {
+    return { ...this.config, pennyPilotSymbols: [...this.config.pennyPilotSymbols] };
+  }
+
+  /**
+   * Current settings with (validated) per-run overrides applied
+   */
+  resolveConfig(overrides?: Partial<ExecutionCostConfig>): ExecutionCostConfig {
+    return overrides ? this.merge(this.config, overrides) : this.getConfig();
+  }
+
+  /**
+   * Persist new settings (partial updates are merged onto the current config)
+   */
+  async updateConfig(updates: Partial<ExecutionCostConfig>): Promise<ExecutionCostConfig> {
+    const next = this.merge(this.config, updates);
+    const value = JSON.stringify(next);
+
+    await db.insert(appConfig)
+      .values({
+        key: CONFIG_KEY,
+        value,
+        description: 'Option fill, slippage and commission model',
+        updatedAt: new Date()
+      })
+      .onConflictDoUpdate({
+        target: appConfig.key,
+        set: { value, updatedAt: new Date() }
+      });
+
+    this.config = next;
+    console.log('💸 Execution cost model updated');
+    return this.getConfig();
+  }
+
+  /**
+   * Minimum price increment for an option premium
+   */
+  getTickSize(ticker: string, premium: number, config: ExecutionCostConfig = this.config): number {
+    const isPenny = config.pennyPilotSymbols.includes(ticker.toUpperCase());
+    if (premium < 3) {
+      return isPenny ? 0.01 : 0.05;
+    }
+    return isPenny ? 0.05 : 0.10;
+  }
+
+  /**
+   * Per-share fill price for opening (buy) or closing (sell) a long option.
+   * Uses the quote side when available, otherwise half the modelled spread.
+   */
+  getFillPrice(side: 'buy' | 'sell', ticker: string, midPremium: number, quote?: QuoteSide | null, config: ExecutionCostConfig = this.config): number {
+    let price: number;
+    if (side === 'buy' && quote?.ask && quote.ask > 0) {
+      price = quote.ask;
+    } else if (side === 'sell' && quote?.bid && quote.bid > 0) {
+      price = quote.bid;
+    } else {
+      const halfSpread = midPremium * config.spreadPercent / 2;
+      price = side === 'buy' ? midPremium + halfSpread : midPremium - halfSpread;
+    }
+
+    // Round against the trader to the contract's tick
+    const tick = this.getTickSize(ticker, price, config);
+    const ticks = price / tick;
+    const rounded = side === 'buy'
+      ? Math.ceil(ticks - 1e-9) * tick
+      : Math.floor(ticks + 1e-9) * tick;
+    return Math.max(0, Number(rounded.toFixed(2)));
+  }
+
+  /**
+   * Commission + regulatory fees in dollars for one order
+   */
+  getOrderFees(contracts: number, config: ExecutionCostConfig = this.config): number {
+    return contracts * (config.commissionPerContract + config.regulatoryFeePerContract);
+  }
+
+  /**
+   * Gross vs net economics of a buy-to-open / sell-to-close round trip
+   */
+  calculateRoundTrip(input: RoundTripInput, overrides?: Partial<ExecutionCostConfig>): RoundTripCosts {
+    const config = this.resolveConfig(overrides);
+    const { ticker, contracts, entryPremium, exitPremium } = input;
+
+    const entryFill = this.getFillPrice('buy', ticker, entryPremium, input.entryQuote, config);
+    const exitFill = input.settledAtExpiry
+      ? exitPremium
+      : this.getFillPrice('sell', ticker, exitPremium, input.exitQuote, config);
+    const entryFees = this.getOrderFees(contracts, config);
+    const exitFees = input.settledAtExpiry || exitFill === 0 ? 0 : this.getOrderFees(contracts, config);
+
+    const grossCost = entryPremium * 100 * contracts;
+    const grossPnL = (exitPremium - entryPremium) * 100 * contracts;
+    const netCost = entryFill * 100 * contracts + entryFees;
+    const netPnL = exitFill * 100 * contracts - exitFees - netCost;
+
+    return {
+      entryFill,
+      exitFill,
+      entryFees,
+      exitFees,
+      grossPnL,
+      netPnL,
+      grossROI: grossCost > 0 ? (grossPnL / grossCost) * 100 : 0,
+      netROI: netCost > 0 ? (netPnL / netCost) * 100 : 0,
+      totalCosts: grossPnL - netPnL,
+    };
+  }
+
+  private merge(base: ExecutionCostConfig, updates: Partial<ExecutionCostConfig>): ExecutionCostConfig {
+    const merged = { ...base };
+    if (typeof updates.spreadPercent === 'number' && updates.spreadPercent >= 0 && updates.spreadPercent < 1) {
+      merged.spreadPercent = updates.spreadPercent;
+    }
+    if (typeof updates.commissionPerContract === 'number' && updates.commissionPerContract >= 0) {
+      merged.commissionPerContract = updates.commissionPerContract;
+    }
+    if (typeof updates.regulatoryFeePerContract === 'number' && updates.regulatoryFeePerContract >= 0) {
+      merged.regulatoryFeePerContract = updates.regulatoryFeePerContract;
+    }
+    if (Array.isArray(updates.pennyPilotSymbols)) {
+      merged.pennyPilotSymbols = updates.pennyPilotSymbols
+        .filter((s): s is string => typeof s === 'string')
+        .map(s => s.toUpperCase());
+    }
+    return merged;
+  }
+}
+
+export const executionCostModel = ExecutionCostModel.getInstance();
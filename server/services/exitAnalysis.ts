@@ -28,7 +28,7 @@ export class ExitAnalysisService {
     const totalCost = position.avgCost * position.quantity * contractMultiplier;
     const currentValue = currentPrice * position.quantity * contractMultiplier;
     const unrealizedPnL = currentValue - totalCost;
-    const unrealizedPnLPercent = (unrealizedPnL / totalCost) * 100;
+    const unrealizedPnLPercent = totalCost !== 0 ? (unrealizedPnL / Math.abs(totalCost)) * 100 : 0; // Short legs have a negative (credit) cost
     
     // Calculate Greeks for options
     let greeks: Greeks | undefined;
@@ -0,0 +1,633 @@
+/**
+ * Exit Automation Service
+ *
+ * Acts on the bracket that `ExitAnalysisService` only recommends. For option positions
+ * opted in, the live mid premium (Polygon WebSocket → Tastytrade cache) is checked every
+ * 5s during market hours against the position's levels:
+ * - stop:           P/L <= -stopLoss           → exit everything left
+ * - full target:    P/L >= profitTarget         → exit everything left
+ * - partial target: P/L >= partialProfitLevel   → exit partialProfitPercent of the contracts (once)
+ *
+ * Levels default to the Elite strategy config and can be overridden per position.
+ * Paper mode simulates the sale at the modelled bid (executionCostModel); live mode sends
+ * a Sell to Close limit order at that price through `brokerOrderService` (Tastytrade
+ * positions only) and books contracts and P/L from the broker's fills. While that order
+ * works, levels aren't re-checked; if it ends unfilled, monitoring resumes. The kill switch
+ * (app_config) halts new exits. Every exit, setting change and failure is written to
+ * `exit_automation_actions`.
+ */
+
+import { db } from '../db';
+import {
+  appConfig,
+  exitAutomations,
+  exitAutomationActions,
+  type BrokerOrder,
+  type BrokerOrderStatus,
+  type ExitAutomation,
+  type ExitAutomationAction,
+  type ExitAutomationActionType,
+  type ExitAutomationOverrides,
+  type ExitAutomationState,
+  type InsertExitAutomationAction,
+  type PortfolioPosition,
+} from '@shared/schema';
+import { OPTIONS_CONTRACT_MULTIPLIER } from '@shared/constants';
+import { and, desc, eq } from 'drizzle-orm';
+import { polygonService } from './polygonService';
+import { tastytradeService } from './tastytradeService';
+import { marketStatusService } from './marketStatusService';
+import { quoteSubscriptionManager } from './quoteSubscriptionManager';
+import { executionCostModel, type QuoteSide } from './executionCostModel';
+import { brokerOrderService } from './brokerOrderService';
+import { EliteStrategyEngine } from './eliteStrategyEngine';
+import { TimeUtils } from './timeUtils';
+import { formatOptionSymbol } from '../utils/optionSymbols';
+
+const KILL_SWITCH_KEY = 'exit_automation_kill_switch';
+
+const ACTIVE_ORDER_STATUSES: BrokerOrderStatus[] = ['submitting', 'submitted', 'working', 'partially_filled'];
+
+type ExitKind = 'partial_exit' | 'full_exit' | 'stop_loss';
+
+interface ObservedQuote extends QuoteSide {
+  mid: number;
+}
+
+interface ExitLevels {
+  stopLoss: number;
+  profitTarget: number;
+  partialProfitLevel: number;
+  partialProfitPercent: number;
+}
+
+/**
+ * Invalid exit automation request (unknown automation, unsupported position, bad levels)
+ */
+export class ExitAutomationError extends Error {
+  constructor(message: string, public readonly statusCode: 400 | 404 | 409 = 400) {
+    super(message);
+    this.name = 'ExitAutomationError';
+  }
+}
+
+export class ExitAutomationService {
+  private static instance: ExitAutomationService | null = null;
+  private evaluationTask: NodeJS.Timeout | null = null;
+  private isEvaluating = false;
+  private killSwitch = false;
+  private lastPersisted = new Map<string, number>(); // Last time lastPremium was written back
+  private lastOrderRefresh = new Map<string, number>(); // Last broker refresh of a pending exit order
+
+  private readonly EVALUATION_INTERVAL_MS = 5_000;
+  private readonly PERSIST_INTERVAL_MS = 60_000;
+  private readonly ORDER_REFRESH_INTERVAL_MS = 60_000; // brokerOrderService polls new orders itself for 30 minutes
+  private readonly SUBSCRIPTION_OWNER = 'exit-automation';
+
+  private constructor() {}
+
+  static getInstance(): ExitAutomationService {
+    if (!ExitAutomationService.instance) {
+      ExitAutomationService.instance = new ExitAutomationService();
+    }
+    return ExitAutomationService.instance;
+  }
+
+  /**
+   * Load the kill switch and start the 5s evaluation loop
+   */
+  async start(): Promise<void> {
+    if (this.evaluationTask) {
+      console.log('⚠️ ExitAutomationService already running');
+      return;
+    }
+
+    try {
+      const [row] = await db.select().from(appConfig).where(eq(appConfig.key, KILL_SWITCH_KEY)).limit(1);
+      this.killSwitch = row?.value === 'true';
+    } catch (error: any) {
+      console.warn('⚠️ Failed to load exit automation kill switch:', error.message);
+    }
+
+    console.log(`🤖 Starting exit automation (5s evaluation loop${this.killSwitch ? ', KILL SWITCH ON' : ''})...`);
+    this.evaluationTask = setInterval(() => {
+      this.evaluate().catch(error => {
+        console.error('❌ Exit automation evaluation failed:', error.message);
+      });
+    }, this.EVALUATION_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.evaluationTask) {
+      clearInterval(this.evaluationTask);
+      this.evaluationTask = null;
+      quoteSubscriptionManager.releaseAll(this.SUBSCRIPTION_OWNER);
+      console.log('🤖 Exit automation stopped');
+    }
+  }
+
+  async getState(): Promise<ExitAutomationState> {
+    const automations = await db.select()
+      .from(exitAutomations)
+      .orderBy(desc(exitAutomations.createdAt));
+
+    const { stopLoss, profitTarget, partialProfitLevel, partialProfitPercent } = EliteStrategyEngine.getInstance().getConfig();
+    return {
+      killSwitch: this.killSwitch,
+      defaults: { stopLoss, profitTarget, partialProfitLevel, partialProfitPercent },
+      automations,
+    };
+  }
+
+  async getActions(automationId?: string, limit: number = 100): Promise<ExitAutomationAction[]> {
+    return db.select()
+      .from(exitAutomationActions)
+      .where(automationId ? eq(exitAutomationActions.automationId, automationId) : undefined)
+      .orderBy(desc(exitAutomationActions.createdAt))
+      .limit(limit);
+  }
+
+  /**
+   * Opt a long option position in to automated exits
+   */
+  async enable(
+    position: PortfolioPosition,
+    options: { mode?: string; overrides?: ExitAutomationOverrides; actor?: string }
+  ): Promise<ExitAutomation> {
+    const mode = options.mode ?? 'paper';
+    if (mode !== 'paper' && mode !== 'live') {
+      throw new ExitAutomationError("mode must be 'paper' or 'live'");
+    }
+    if (position.positionType !== 'options') {
+      throw new ExitAutomationError('Exit automation only supports option positions');
+    }
+    if (!Number.isInteger(position.quantity) || position.quantity <= 0) {
+      throw new ExitAutomationError('Exit automation only supports long option positions');
+    }
+    const broker = position.broker || 'tastytrade';
+    if (mode === 'live' && broker !== 'tastytrade') {
+      throw new ExitAutomationError('Live exits can only be sent for Tastytrade positions; use paper mode');
+    }
+
+    const meta = (position.metadata || {}) as { strike?: number | string; expiry?: string; expiryDate?: string; optionType?: string };
+    const strike = Number(meta.strike);
+    const expiry = (meta.expiryDate || meta.expiry || '').slice(0, 10);
+    const optionType = String(meta.optionType || '').toLowerCase().startsWith('p') ? 'put' : 'call';
+    if (!Number.isFinite(strike) || !expiry || !meta.optionType) {
+      throw new ExitAutomationError('Position is missing strike, expiry or option type');
+    }
+    if (!(position.avgCost > 0)) {
+      throw new ExitAutomationError('Position has no cost basis to measure P/L from');
+    }
+
+    const [existing] = await db.select()
+      .from(exitAutomations)
+      .where(and(eq(exitAutomations.positionKey, position.id), eq(exitAutomations.status, 'active')))
+      .limit(1);
+    if (existing) {
+      throw new ExitAutomationError('Exit automation is already active for this position', 409);
+    }
+
+    const overrides = this.validateOverrides(options.overrides || {});
+
+    const [automation] = await db.insert(exitAutomations).values({
+      positionKey: position.id,
+      broker,
+      ticker: position.ticker,
+      optionSymbol: formatOptionSymbol(position.ticker, expiry, optionType, strike),
+      optionType,
+      strikePrice: strike,
+      expiry,
+      entryPrice: position.avgCost,
+      quantity: position.quantity,
+      remainingQuantity: position.quantity,
+      mode,
+      status: 'active',
+      ...overrides,
+    }).returning();
+
+    await this.logAction({
+      automationId: automation.id,
+      action: 'enabled',
+      mode,
+      quantity: automation.quantity,
+      actor: options.actor || null,
+      message: `Enabled ${mode} exits for ${automation.quantity} ${automation.ticker} ${strike} ${optionType} @ $${position.avgCost.toFixed(2)}`,
+    });
+
+    console.log(`🤖 Exit automation enabled (${mode}): ${automation.ticker} ${automation.optionSymbol}`);
+    return automation;
+  }
+
+  /**
+   * Change per-position levels (null clears an override back to the strategy default)
+   */
+  async updateOverrides(id: string, overrides: ExitAutomationOverrides, actor?: string): Promise<ExitAutomation> {
+    const automation = await this.requireAutomation(id);
+    if (automation.status !== 'active') {
+      throw new ExitAutomationError(`Exit automation is ${automation.status}`, 409);
+    }
+
+    const validated = this.validateOverrides(overrides, automation);
+    const [updated] = await db.update(exitAutomations)
+      .set({ ...validated, updatedAt: new Date() })
+      .where(eq(exitAutomations.id, id))
+      .returning();
+
+    const levels = this.resolveLevels(updated);
+    await this.logAction({
+      automationId: id,
+      action: 'overrides_updated',
+      actor: actor || null,
+      message: `Levels: stop -${(levels.stopLoss * 100).toFixed(0)}%, partial +${(levels.partialProfitLevel * 100).toFixed(0)}% (${(levels.partialProfitPercent * 100).toFixed(0)}%), target +${(levels.profitTarget * 100).toFixed(0)}%`,
+    });
+    return updated;
+  }
+
+  async disable(id: string, actor?: string, reason?: string): Promise<ExitAutomation> {
+    const automation = await this.requireAutomation(id);
+    if (automation.status !== 'active' && automation.status !== 'failed') {
+      throw new ExitAutomationError(`Exit automation is already ${automation.status}`, 409);
+    }
+    if (automation.pendingOrderId) {
+      throw new ExitAutomationError(`Exit order ${automation.pendingOrderId} is still working; cancel it first`, 409);
+    }
+
+    const [updated] = await db.update(exitAutomations)
+      .set({ status: 'disabled', updatedAt: new Date() })
+      .where(eq(exitAutomations.id, id))
+      .returning();
+
+    await this.logAction({
+      automationId: id,
+      action: 'disabled',
+      actor: actor || null,
+      message: reason ? `Disabled: ${reason}` : 'Disabled',
+    });
+    return updated;
+  }
+
+  /**
+   * Halt (or resume) every automated exit
+   */
+  async setKillSwitch(enabled: boolean, actor?: string, reason?: string): Promise<boolean> {
+    const value = String(enabled);
+    await db.insert(appConfig)
+      .values({
+        key: KILL_SWITCH_KEY,
+        value,
+        description: 'Halts all automated exits when true',
+        updatedAt: new Date(),
+      })
+      .onConflictDoUpdate({
+        target: appConfig.key,
+        set: { value, updatedAt: new Date() },
+      });
+
+    this.killSwitch = enabled;
+    await this.logAction({
+      automationId: null,
+      action: enabled ? 'kill_switch_on' : 'kill_switch_off',
+      actor: actor || null,
+      message: `Kill switch ${enabled ? 'engaged: all automated exits halted' : 'released: automated exits resumed'}${reason ? ` (${reason})` : ''}`,
+    });
+
+    console.log(`🤖 Exit automation kill switch ${enabled ? 'ON' : 'OFF'}`);
+    return this.killSwitch;
+  }
+
+  /**
+   * Check every active automation once
+   */
+  async evaluate(): Promise<void> {
+    if (this.isEvaluating) {
+      return;
+    }
+
+    this.isEvaluating = true;
+    try {
+      const active = await db.select().from(exitAutomations).where(eq(exitAutomations.status, 'active'));
+
+      // Fills are booked even with the kill switch on or the market closed (Day orders expire after the bell)
+      for (const automation of active.filter(a => a.pendingOrderId)) {
+        try {
+          await this.reconcileExitOrder(automation);
+        } catch (error: any) {
+          console.error(`❌ Error reconciling exit order for ${automation.id} (${automation.ticker}):`, error.message);
+        }
+      }
+
+      if (this.killSwitch || !marketStatusService.isMarketOpen()) {
+        return;
+      }
+      this.ensureSubscriptions(active);
+
+      for (const automation of active.filter(a => !a.pendingOrderId)) {
+        try {
+          await this.evaluateAutomation(automation);
+        } catch (error: any) {
+          console.error(`❌ Error evaluating exit automation ${automation.id} (${automation.ticker}):`, error.message);
+        }
+      }
+    } finally {
+      this.isEvaluating = false;
+    }
+  }
+
+  private async evaluateAutomation(automation: ExitAutomation): Promise<void> {
+    if (automation.expiry < TimeUtils.getTodayDateCST()) {
+      await this.finish(automation, 'expired');
+      await this.logAction({
+        automationId: automation.id,
+        action: 'expired',
+        message: `Contract expired with ${automation.remainingQuantity} contract(s) still held`,
+      });
+      return;
+    }
+
+    const quote = this.getOptionQuote(automation.optionSymbol);
+    if (!quote) return;
+
+    const pnlPercent = (quote.mid - automation.entryPrice) / automation.entryPrice;
+    const levels = this.resolveLevels(automation);
+    await this.persistPremium(automation, quote.mid);
+
+    // Stop first: a gap through both levels on a bad print should still cut the position
+    if (pnlPercent <= -levels.stopLoss) {
+      await this.executeExit(automation, 'stop_loss', automation.remainingQuantity, quote, pnlPercent);
+    } else if (pnlPercent >= levels.profitTarget) {
+      await this.executeExit(automation, 'full_exit', automation.remainingQuantity, quote, pnlPercent);
+    } else if (pnlPercent >= levels.partialProfitLevel && !automation.partialTaken) {
+      // Single contracts can't be split, so they ride to the full target
+      const quantity = Math.floor(automation.quantity * levels.partialProfitPercent);
+      if (quantity >= 1 && quantity < automation.remainingQuantity) {
+        await this.executeExit(automation, 'partial_exit', quantity, quote, pnlPercent);
+      }
+    }
+  }
+
+  private async executeExit(
+    automation: ExitAutomation,
+    kind: ExitKind,
+    quantity: number,
+    quote: ObservedQuote,
+    pnlPercent: number
+  ): Promise<void> {
+    const fillPrice = executionCostModel.getFillPrice('sell', automation.ticker, quote.mid, quote);
+    const fees = executionCostModel.getOrderFees(quantity);
+    const realized = (fillPrice - automation.entryPrice) * quantity * OPTIONS_CONTRACT_MULTIPLIER - fees;
+    const label = kind === 'partial_exit' ? 'Partial target' : kind === 'full_exit' ? 'Full target' : 'Stop loss';
+
+    if (automation.mode === 'live') {
+      let order: BrokerOrder;
+      try {
+        order = await brokerOrderService.placeExit({
+          ticker: automation.ticker,
+          optionSymbol: automation.optionSymbol,
+          optionType: automation.optionType as 'call' | 'put',
+          strikePrice: automation.strikePrice,
+          expiry: automation.expiry,
+          quantity,
+          limitPrice: fillPrice,
+        });
+      } catch (error: any) {
+        // Don't retry every 5s against a broker that is refusing the order
+        await this.finish(automation, 'failed');
+        await this.logAction({
+          automationId: automation.id,
+          action: 'error',
+          mode: 'live',
+          quantity,
+          premium: quote.mid,
+          fillPrice,
+          pnlPercent: pnlPercent * 100,
+          message: `${label} order failed: ${error.message}`,
+        });
+        return;
+      }
+
+      // Contracts and P/L are booked from the broker's fills (reconcileExitOrder)
+      const [pending] = await db.update(exitAutomations)
+        .set({
+          pendingOrderId: order.id,
+          pendingExitKind: kind,
+          pendingFilledQuantity: 0,
+          pendingRealizedPnL: 0,
+          lastPremium: quote.mid,
+          updatedAt: new Date(),
+        })
+        .where(eq(exitAutomations.id, automation.id))
+        .returning();
+
+      await this.logAction({
+        automationId: automation.id,
+        action: kind,
+        mode: 'live',
+        quantity,
+        premium: quote.mid,
+        fillPrice,
+        pnlPercent: pnlPercent * 100,
+        brokerOrderId: order.id,
+        message: `${label} at ${pnlPercent >= 0 ? '+' : ''}${(pnlPercent * 100).toFixed(1)}%: sent Sell to Close for ${quantity} @ $${fillPrice.toFixed(2)}, awaiting fill`,
+      });
+      console.log(`🤖 ${label} (live) ${automation.ticker}: Sell to Close ${quantity} @ $${fillPrice.toFixed(2)} sent`);
+
+      // The placement response may already carry fills
+      await this.reconcileExitOrder(pending, order);
+      return;
+    }
+
+    const remaining = automation.remainingQuantity - quantity;
+    await db.update(exitAutomations)
+      .set({
+        remainingQuantity: remaining,
+        partialTaken: automation.partialTaken || kind === 'partial_exit',
+        status: remaining <= 0 ? 'completed' : 'active',
+        realizedPnL: automation.realizedPnL + realized,
+        lastPremium: quote.mid,
+        updatedAt: new Date(),
+      })
+      .where(eq(exitAutomations.id, automation.id));
+
+    await this.logAction({
+      automationId: automation.id,
+      action: kind,
+      mode: automation.mode,
+      quantity,
+      premium: quote.mid,
+      fillPrice,
+      pnlPercent: pnlPercent * 100,
+      realizedPnL: realized,
+      message: `${label} at ${pnlPercent >= 0 ? '+' : ''}${(pnlPercent * 100).toFixed(1)}%: Simulated sale of ${quantity} @ $${fillPrice.toFixed(2)} (${remaining} left)`,
+    });
+
+    console.log(`🤖 ${label} (${automation.mode}) ${automation.ticker}: ${quantity} @ $${fillPrice.toFixed(2)}, P/L ${(pnlPercent * 100).toFixed(1)}%`);
+  }
+
+  /**
+   * Book new fills of the pending live exit order. Once the order is done, the automation
+   * completes if nothing is left, otherwise it goes back to watching its levels.
+   */
+  private async reconcileExitOrder(automation: ExitAutomation, latest?: BrokerOrder): Promise<void> {
+    const orderId = automation.pendingOrderId!;
+    let order = latest ?? await brokerOrderService.getOrder(orderId);
+    const lastRefresh = this.lastOrderRefresh.get(orderId) ?? 0;
+    if (!latest && ACTIVE_ORDER_STATUSES.includes(order.status as BrokerOrderStatus) && Date.now() - lastRefresh >= this.ORDER_REFRESH_INTERVAL_MS) {
+      this.lastOrderRefresh.set(orderId, Date.now());
+      order = await brokerOrderService.refresh(orderId);
+    }
+
+    const filled = order.filledQuantity;
+    const fees = order.estimatedFees ? order.estimatedFees * (filled / order.quantity) : 0;
+    const orderRealized = filled > 0
+      ? ((order.avgFillPrice ?? 0) - automation.entryPrice) * filled * OPTIONS_CONTRACT_MULTIPLIER - fees
+      : 0;
+    const newFills = filled - automation.pendingFilledQuantity;
+    const done = !ACTIVE_ORDER_STATUSES.includes(order.status as BrokerOrderStatus);
+    if (newFills <= 0 && !done) return;
+
+    const remaining = automation.remainingQuantity - Math.max(0, newFills);
+    const kind = automation.pendingExitKind as ExitKind;
+    const realizedPnL = automation.realizedPnL + (orderRealized - automation.pendingRealizedPnL);
+
+    await db.update(exitAutomations)
+      .set({
+        remainingQuantity: remaining,
+        realizedPnL,
+        ...(done
+          ? {
+              status: remaining <= 0 ? 'completed' : 'active',
+              partialTaken: automation.partialTaken || (kind === 'partial_exit' && filled > 0),
+              pendingOrderId: null,
+              pendingExitKind: null,
+              pendingFilledQuantity: 0,
+              pendingRealizedPnL: 0,
+            }
+          : { pendingFilledQuantity: filled, pendingRealizedPnL: orderRealized }),
+        updatedAt: new Date(),
+      })
+      .where(eq(exitAutomations.id, automation.id));
+
+    if (!done) {
+      console.log(`🤖 Exit order ${orderId} ${automation.ticker}: ${filled}/${order.quantity} filled`);
+      return;
+    }
+
+    this.lastOrderRefresh.delete(orderId);
+    const allFilled = filled >= order.quantity;
+    await this.logAction({
+      automationId: automation.id,
+      action: allFilled ? 'exit_filled' : 'exit_unfilled',
+      mode: 'live',
+      quantity: filled,
+      fillPrice: order.avgFillPrice,
+      realizedPnL: orderRealized,
+      brokerOrderId: orderId,
+      message: allFilled
+        ? `Sell to Close filled: ${filled} @ $${(order.avgFillPrice ?? 0).toFixed(2)} (${remaining} left)`
+        : `Sell to Close ${order.status} with ${filled}/${order.quantity} filled${filled > 0 ? ` @ $${(order.avgFillPrice ?? 0).toFixed(2)}` : ''}; ${remaining > 0 ? `watching ${remaining} contract(s) again` : 'nothing left'}`,
+    });
+  }
+
+  private async finish(automation: ExitAutomation, status: 'expired' | 'failed'): Promise<void> {
+    await db.update(exitAutomations)
+      .set({ status, updatedAt: new Date() })
+      .where(eq(exitAutomations.id, automation.id));
+  }
+
+  private resolveLevels(automation: ExitAutomation): ExitLevels {
+    const config = EliteStrategyEngine.getInstance().getConfig();
+    return {
+      stopLoss: automation.stopLoss ?? config.stopLoss,
+      profitTarget: automation.profitTarget ?? config.profitTarget,
+      partialProfitLevel: automation.partialProfitLevel ?? config.partialProfitLevel,
+      partialProfitPercent: automation.partialProfitPercent ?? config.partialProfitPercent,
+    };
+  }
+
+  /**
+   * Levels are fractions of the entry premium: stop in (0, 1], targets in (0, 10],
+   * partial size in (0, 1). Only keys present in the request are returned.
+   */
+  private validateOverrides(overrides: ExitAutomationOverrides, current?: ExitAutomation): ExitAutomationOverrides {
+    const validated: ExitAutomationOverrides = {};
+    const check = (key: keyof ExitAutomationOverrides, max: number, inclusiveMax: boolean) => {
+      const value = overrides[key];
+      if (value === undefined) return;
+      if (value !== null && (typeof value !== 'number' || !Number.isFinite(value) || value <= 0 || (inclusiveMax ? value > max : value >= max))) {
+        throw new ExitAutomationError(`${key} must be a fraction between 0 and ${max}`);
+      }
+      validated[key] = value;
+    };
+
+    check('stopLoss', 1, true);
+    check('profitTarget', 10, true);
+    check('partialProfitLevel', 10, true);
+    check('partialProfitPercent', 1, false);
+
+    const config = EliteStrategyEngine.getInstance().getConfig();
+    const pick = (key: 'partialProfitLevel' | 'profitTarget') =>
+      (key in validated ? validated[key] : current?.[key]) ?? config[key];
+    const partial = pick('partialProfitLevel');
+    const target = pick('profitTarget');
+    if (partial >= target) {
+      throw new ExitAutomationError('partialProfitLevel must be below profitTarget');
+    }
+    return validated;
+  }
+
+  /**
+   * Option quote: Polygon WebSocket → Tastytrade cache
+   */
+  private getOptionQuote(optionSymbol: string): ObservedQuote | null {
+    const polygonOption = polygonService.getCachedOptionQuote(optionSymbol);
+    if (polygonOption && polygonOption.premium > 0) {
+      return { mid: polygonOption.premium, bid: polygonOption.bid, ask: polygonOption.ask };
+    }
+
+    const tastyOption = tastytradeService.getCachedOptionPremium(optionSymbol);
+    if (tastyOption && tastyOption.premium > 0) {
+      return { mid: tastyOption.premium, bid: tastyOption.bid, ask: tastyOption.ask };
+    }
+
+    return null;
+  }
+
+  private async persistPremium(automation: ExitAutomation, premium: number): Promise<void> {
+    const last = this.lastPersisted.get(automation.id) ?? 0;
+    if (Date.now() - last < this.PERSIST_INTERVAL_MS) return;
+
+    this.lastPersisted.set(automation.id, Date.now());
+    await db.update(exitAutomations)
+      .set({ lastPremium: premium })
+      .where(eq(exitAutomations.id, automation.id));
+  }
+
+  /**
+   * Stream the contracts being watched and release ones no longer enrolled
+   */
+  private ensureSubscriptions(automations: ExitAutomation[]): void {
+    const optionSymbols = Array.from(new Set(automations.map(a => a.optionSymbol)));
+    quoteSubscriptionManager.acquire(this.SUBSCRIPTION_OWNER, { optionSymbols });
+
+    const held = quoteSubscriptionManager.getOwnerSubscriptions(this.SUBSCRIPTION_OWNER);
+    const stale = held.optionSymbols.filter(s => !optionSymbols.includes(s));
+    if (stale.length > 0) {
+      quoteSubscriptionManager.release(this.SUBSCRIPTION_OWNER, { optionSymbols: stale });
+    }
+  }
+
+  private async logAction(action: Omit<InsertExitAutomationAction, 'action'> & { action: ExitAutomationActionType }): Promise<void> {
+    await db.insert(exitAutomationActions).values(action);
+  }
+
+  private async requireAutomation(id: string): Promise<ExitAutomation> {
+    const [automation] = await db.select().from(exitAutomations).where(eq(exitAutomations.id, id)).limit(1);
+    if (!automation) {
+      throw new ExitAutomationError('Exit automation not found', 404);
+    }
+    return automation;
+  }
+}
+
+export const exitAutomationService = ExitAutomationService.getInstance();
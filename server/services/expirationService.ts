@@ -1,4 +1,5 @@
 import axios from 'axios';
+import { marketCalendar } from './marketCalendar';
 
 /**
  * ExpirationService - Provides option expiration dates with API-first, calculation-fallback strategy
@@ -434,47 +435,11 @@ class ExpirationService {
   }
 
   /**
-   * Check if a date is a known market holiday
+   * Check if a date is a known market holiday (exchange calendar)
    */
   private isMarketHoliday(date: Date): boolean {
-    const year = date.getFullYear();
-    const month = date.getMonth();
-    const day = date.getDate();
-    
-    // Good Friday (most common third-Friday holiday)
-    const easterDate = this.calculateEasterSunday(year);
-    const goodFriday = new Date(easterDate);
-    goodFriday.setDate(easterDate.getDate() - 2); // Friday before Easter Sunday
-    
-    if (year === goodFriday.getFullYear() && 
-        month === goodFriday.getMonth() && 
-        day === goodFriday.getDate()) {
-      return true;
-    }
-    
-    return false;
-  }
-
-  /**
-   * Calculate Easter Sunday using Meeus/Jones/Butcher algorithm
-   */
-  private calculateEasterSunday(year: number): Date {
-    const a = year % 19;
-    const b = Math.floor(year / 100);
-    const c = year % 100;
-    const d = Math.floor(b / 4);
-    const e = b % 4;
-    const f = Math.floor((b + 8) / 25);
-    const g = Math.floor((b - f + 1) / 3);
-    const h = (19 * a + b - d - g + 15) % 30;
-    const i = Math.floor(c / 4);
-    const k = c % 4;
-    const l = (32 + 2 * e + 2 * i - h - k) % 7;
-    const m = Math.floor((a + 11 * h + 22 * l) / 451);
-    const month = Math.floor((h + l - 7 * m + 114) / 31) - 1; // 0-indexed
-    const day = ((h + l - 7 * m + 114) % 31) + 1;
-    
-    return new Date(year, month, day);
+    const dateStr = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+    return marketCalendar.isHoliday(dateStr);
   }
 
   /**
@@ -1,6 +1,6 @@
 import OpenAI from "openai";
 import type { AIPortfolioAnalysis, StrategicRecommendation } from './portfolioAnalysisEngine';
-import type { PortfolioPosition, TradeRecommendation } from '@shared/schema';
+import type { AccountGoalProgress, PortfolioPosition, TradeRecommendation } from '@shared/schema';
 
 /**
  * Grok AI Service
@@ -89,7 +89,8 @@ export class GrokAIService {
   async validateHighRiskDecision(
     decision: StrategicRecommendation,
     position: PortfolioPosition,
-    accountValue: number
+    accountValue: number,
+    goal: AccountGoalProgress | null
   ): Promise<GrokValidation | null> {
     if (!this.enabled || !this.client) return null;
     
@@ -99,8 +100,7 @@ You are a professional options trader analyzing a HIGH-RISK decision.
 
 ACCOUNT STATUS:
 - Total Value: $${accountValue.toFixed(2)}
-- Goal: Grow to $1,000,000
-- Current Progress: ${((accountValue / 1000000) * 100).toFixed(2)}%
+${this.formatGoals(goal ? [goal] : [])}
 
 POSITION AT RISK:
 - Ticker: ${position.ticker}
@@ -116,7 +116,7 @@ PROPOSED ACTION:
 - Reasoning: ${decision.reasoning.join('; ')}
 
 VALIDATE THIS DECISION:
-1. Is this the right move given the $1M goal?
+1. Is this the right move given the account's growth goals?
 2. Are there better alternatives?
 3. What are the risks of executing vs. holding?
 
@@ -253,7 +253,7 @@ Respond with JSON:
 YOUR ROLE:
 - Enhance internal AI recommendations with advanced reasoning
 - Identify gaps the internal AI might have missed
-- Provide strategic insights for growing $1,847 to $1,000,000
+- Provide strategic insights toward the account's configured growth goals
 - Focus on risk management and capital preservation
 
 TRADING RULES YOU MUST RESPECT:
@@ -269,11 +269,23 @@ ANALYSIS FRAMEWORK:
 2. Black-Scholes Greeks for options risk
 3. Exit strategy optimization
 4. Market condition assessment
-5. Goal progress tracking ($1M target)
+5. Goal progress tracking (required vs achieved CAGR)
 
 Provide JSON responses with clear reasoning, risk assessments, and actionable recommendations.`;
   }
   
+  private formatGoals(goals: AccountGoalProgress[]): string {
+    if (goals.length === 0) return '- Goals: none configured';
+    return goals.map(g => {
+      if (!g.dataAvailable) {
+        return `- Goal "${g.goal.name}": $${g.target.toLocaleString()} by ${g.goal.targetDate} (no account data)`;
+      }
+      const required = g.requiredCAGRFromNow !== null ? `${g.requiredCAGRFromNow.toFixed(1)}%/yr still required` : 'target date passed';
+      const achieved = g.achievedCAGR !== null ? `${g.achievedCAGR.toFixed(1)}%/yr achieved` : 'achieved CAGR not yet meaningful';
+      return `- Goal "${g.goal.name}": ${g.progressPercent!.toFixed(2)}% to $${g.target.toLocaleString()} by ${g.goal.targetDate} (${required}, ${achieved}, ${g.onTrack ? 'on track' : 'behind plan'})`;
+    }).join('\n');
+  }
+
   private buildAnalysisContext(
     analysis: AIPortfolioAnalysis,
     positions: PortfolioPosition[],
@@ -285,7 +297,7 @@ PORTFOLIO STATUS:
 - Unrealized P&L: $${analysis.totalUnrealizedPnL.toFixed(2)} (${analysis.portfolioPnLPercent.toFixed(1)}%)
 - Open Positions: ${analysis.positionsCount}
 - Risk Level: ${analysis.riskLevel}
-- Goal Progress: ${analysis.goalProgress.progressPercent.toFixed(2)}% to $1M
+${this.formatGoals(analysis.goals)}
 
 MARKET CONDITIONS:
 - VIX: ${analysis.vixLevel.toFixed(2)}
@@ -312,7 +324,7 @@ ${opportunities.slice(0, 3).map(opp => `
 ENHANCE THIS ANALYSIS:
 1. Validate internal AI recommendations
 2. Identify any missed opportunities or risks
-3. Suggest strategic adjustments for $1M goal
+3. Suggest strategic adjustments for the growth goals
 4. Provide risk assessment and confidence scores
 
 Respond with JSON:
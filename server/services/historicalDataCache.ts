@@ -1,24 +1,33 @@
 /**
  * Historical Data Cache Service
- * 
- * Purpose: Eliminate 99% of API calls by caching 30 days of historical data
- * 
+ *
+ * Purpose: Eliminate 99% of API calls by serving historical bars from a local store
+ *
  * Problem: OvernightDataFetcher calls getDailyAggregates individually for each symbol
  *   - 100 symbols x 30-day lookup = 100 API calls per scan
  *   - Multiple scans per day = 28,800+ API calls daily
- * 
- * Solution: Batch fetch grouped daily bars once, cache for 24 hours
- *   - Single grouped bars API call fetches ALL symbols' data at once
- *   - Reuse cached data across all scans
- *   - Refresh cache daily at market close
- * 
- * API Reduction: ~28,800 calls/day → ~30 calls/day (99.89% reduction)
+ *
+ * Solution: Incremental bar store in `historical_bars`
+ *   - Grouped daily bars (one API call per trading day for ALL symbols) are appended
+ *     once; `historical_bar_sync` records fetched days so gaps are found and backfilled
+ *   - Configurable depth (default 2 years daily for every stock, 60 days of 5-minute
+ *     bars for a short intraday list); older bars are pruned
+ *   - Bars are stored unadjusted; splits and cash dividends (`corporate_actions`) are
+ *     applied on read, so a split never leaves a cliff in the series
+ *   - The most recent `memoryDays` of daily bars stay in memory for the scanners;
+ *     longer history is read from the store on demand (`getBars`)
+ *   - Refreshed daily at market close
+ *
+ * API Reduction: ~28,800 calls/day → 1-2 calls/day once backfilled
+ * Settings live in `app_config` under `historical_bar_store`.
  */
 
+import { DateTime } from 'luxon';
 import { polygonService } from './polygonService';
 import { db } from '../db';
-import { historicalBars } from '../../shared/schema';
-import { eq, and, gte, lte } from 'drizzle-orm';
+import { appConfig, corporateActions, historicalBars, historicalBarSync, type HistoricalBarStoreConfig } from '../../shared/schema';
+import { eq, and, gte, lt, gt, sql } from 'drizzle-orm';
+import { marketCalendar } from './marketCalendar';
 
 export interface HistoricalBar {
   timestamp: number;
@@ -37,61 +46,170 @@ export interface SymbolHistoricalData {
   lastUpdated: number;
 }
 
+interface AdjustmentAction {
+  type: string; // 'split' | 'dividend'
+  exDate: string;
+  ratio: number | null;
+  amount: number | null;
+}
+
+interface RangeCacheEntry {
+  bars: HistoricalBar[];
+  cachedAt: number;
+}
+
+/**
+ * Invalid bar store request (bad settings, unknown timeframe)
+ */
+export class HistoricalBarStoreError extends Error {
+  constructor(message: string, public readonly statusCode: 400 | 404 | 409 = 400) {
+    super(message);
+    this.name = 'HistoricalBarStoreError';
+  }
+}
+
+const CONFIG_KEY = 'historical_bar_store';
+const EXCHANGE_TZ = 'America/New_York';
+const DAILY = '1d';
+const ALL_SYMBOLS = '*'; // historical_bar_sync symbol for grouped (all-stock) daily fetches
+const CORPORATE_ACTIONS = 'actions'; // historical_bar_sync timeframe for split/dividend fetches
+const MIN_BARS = 20; // Bars a symbol needs before the scanners see it
+const WRITE_BATCH_SIZE = 5000;
+const GROUPED_FETCH_DELAY_MS = 5000; // Fair-use spacing between grouped-bar calls
+const RANGE_CACHE_LIMIT = 200;
+
+const DEFAULT_CONFIG: HistoricalBarStoreConfig = {
+  dailyDepthDays: 730,
+  memoryDays: 80, // ~55 sessions: covers 50-day averages for breadth
+  intradaySymbols: ['SPY', 'QQQ'],
+  intradayMinutes: 5,
+  intradayDepthDays: 60,
+};
+
+/**
+ * Back-adjust raw bars (oldest first) for splits and cash dividends.
+ * A split of ratio r divides earlier prices by r and multiplies earlier volume by r;
+ * a dividend scales earlier prices by (1 - amount / close before the ex-date).
+ */
+function adjustBars(bars: HistoricalBar[], actions: AdjustmentAction[]): HistoricalBar[] {
+  if (bars.length === 0 || actions.length === 0) return bars;
+
+  const lastTimestamp = bars[bars.length - 1].timestamp;
+  const events = actions
+    .map(action => ({ ...action, exStart: marketCalendar.exchangeTimeToDate(action.exDate, '00:00').getTime() }))
+    .filter(action => action.exStart <= lastTimestamp) // Not yet in effect for this series
+    .sort((a, b) => b.exStart - a.exStart);
+  if (events.length === 0) return bars;
+
+  const adjusted = new Array<HistoricalBar>(bars.length);
+  let priceFactor = 1;
+  let volumeFactor = 1;
+  let eventIndex = 0;
+
+  for (let i = bars.length - 1; i >= 0; i--) {
+    const bar = bars[i];
+
+    // Fold in every action whose ex-date falls after this bar
+    while (eventIndex < events.length && bar.timestamp < events[eventIndex].exStart) {
+      const event = events[eventIndex++];
+      if (event.type === 'split' && event.ratio && event.ratio > 0) {
+        priceFactor /= event.ratio;
+        volumeFactor *= event.ratio;
+      } else if (event.type === 'dividend' && event.amount && event.amount > 0 && bar.close > event.amount) {
+        // `bar` is the last one before the ex-date; its raw close sets the dividend factor
+        priceFactor *= 1 - event.amount / bar.close;
+      }
+    }
+
+    adjusted[i] = priceFactor === 1 && volumeFactor === 1 ? bar : {
+      timestamp: bar.timestamp,
+      open: bar.open * priceFactor,
+      high: bar.high * priceFactor,
+      low: bar.low * priceFactor,
+      close: bar.close * priceFactor,
+      volume: bar.volume * volumeFactor,
+    };
+  }
+
+  return adjusted;
+}
+
 export class HistoricalDataCache {
   private static instance: HistoricalDataCache | null = null;
-  
-  // Cache structure: Map<symbol, HistoricalBar[]>
+
+  // Cache structure: Map<symbol, HistoricalBar[]> (adjusted daily bars, memory window only)
   private cache = new Map<string, HistoricalBar[]>();
-  
+  // Ad-hoc ranges fetched by HistoricalDataService when the store can't serve them
+  private rangeCache = new Map<string, RangeCacheEntry>();
+
   // Cache metadata
   private cacheStartDate: string | null = null;
   private cacheEndDate: string | null = null;
   private lastCacheTime: number = 0;
   private scheduledTask: NodeJS.Timeout | null = null;
-  
+  private config: HistoricalBarStoreConfig = { ...DEFAULT_CONFIG, intradaySymbols: [...DEFAULT_CONFIG.intradaySymbols] };
+  private refreshPromise: Promise<void> | null = null;
+  private backfillPromise: Promise<void> | null = null;
+  private coverage: { storedFrom: string | null; storedTo: string | null; missingDays: number } = { storedFrom: null, storedTo: null, missingDays: 0 };
+
   // Configuration
   private readonly CACHE_DURATION = 24 * 60 * 60 * 1000; // 24 hours
-  private readonly LOOKBACK_DAYS = 30; // 30 days of history
-  
+
   private constructor() {}
-  
+
   static getInstance(): HistoricalDataCache {
     if (!HistoricalDataCache.instance) {
       HistoricalDataCache.instance = new HistoricalDataCache();
     }
     return HistoricalDataCache.instance;
   }
-  
+
   /**
-   * Load cache from database (instant startup)
+   * Load the memory window from the store (instant startup)
    */
   private async loadFromDatabase(): Promise<boolean> {
     try {
       console.log('💾 Loading historical cache from database...');
       const startTime = Date.now();
-      
-      // Fetch all bars from DB
-      const rows = await db.select().from(historicalBars);
-      
+      const memoryStart = this.daysAgo(this.config.memoryDays);
+
+      // Daily bars in the memory window, plus any splits/dividends that adjust them
+      const [rows, actions] = await Promise.all([
+        db.select({
+          symbol: historicalBars.symbol,
+          barTimestamp: historicalBars.barTimestamp,
+          open: historicalBars.open,
+          high: historicalBars.high,
+          low: historicalBars.low,
+          close: historicalBars.close,
+          volume: historicalBars.volume,
+        })
+          .from(historicalBars)
+          .where(and(
+            eq(historicalBars.timeframe, DAILY),
+            gte(historicalBars.barTimestamp, marketCalendar.exchangeTimeToDate(memoryStart, '00:00'))
+          )),
+        db.select().from(corporateActions).where(gt(corporateActions.exDate, memoryStart)),
+      ]);
+
       if (rows.length === 0) {
         console.log('⚠️ Database is empty - no cached data available');
         return false;
       }
-      
+
       // Group bars by symbol
       const symbolBarsMap = new Map<string, HistoricalBar[]>();
       let minTimestamp = Infinity;
       let maxTimestamp = 0;
-      
+
       for (const row of rows) {
-        const symbol = row.symbol;
         const barTimestamp = new Date(row.barTimestamp).getTime();
-        
-        if (!symbolBarsMap.has(symbol)) {
-          symbolBarsMap.set(symbol, []);
+
+        if (!symbolBarsMap.has(row.symbol)) {
+          symbolBarsMap.set(row.symbol, []);
         }
-        
-        symbolBarsMap.get(symbol)!.push({
+
+        symbolBarsMap.get(row.symbol)!.push({
           timestamp: barTimestamp,
           open: row.open,
           high: row.high,
@@ -99,103 +217,121 @@ export class HistoricalDataCache {
           close: row.close,
           volume: row.volume
         });
-        
+
         minTimestamp = Math.min(minTimestamp, barTimestamp);
         maxTimestamp = Math.max(maxTimestamp, barTimestamp);
       }
-      
-      // Populate cache and sort bars by timestamp
+
+      const actionsBySymbol = new Map<string, AdjustmentAction[]>();
+      for (const action of actions) {
+        if (!actionsBySymbol.has(action.symbol)) {
+          actionsBySymbol.set(action.symbol, []);
+        }
+        actionsBySymbol.get(action.symbol)!.push(action);
+      }
+
+      // Populate cache: sort, adjust, and require enough bars for indicator calculation
       this.cache.clear();
-      for (const [symbol, bars] of symbolBarsMap.entries()) {
-        bars.sort((a, b) => a.timestamp - b.timestamp);
-        this.cache.set(symbol, bars);
+      for (const [symbol, bars] of Array.from(symbolBarsMap.entries())) {
+        if (bars.length < MIN_BARS) continue;
+        bars.sort((a: HistoricalBar, b: HistoricalBar) => a.timestamp - b.timestamp);
+        this.cache.set(symbol, adjustBars(bars, actionsBySymbol.get(symbol) || []));
       }
-      
+
       // Update metadata
-      this.cacheStartDate = new Date(minTimestamp).toISOString().split('T')[0];
-      this.cacheEndDate = new Date(maxTimestamp).toISOString().split('T')[0];
+      this.cacheStartDate = marketCalendar.toExchangeDate(new Date(minTimestamp));
+      this.cacheEndDate = marketCalendar.toExchangeDate(new Date(maxTimestamp));
       this.lastCacheTime = Date.now();
-      
+
       const duration = ((Date.now() - startTime) / 1000).toFixed(1);
-      console.log(`✅ Loaded ${this.cache.size} symbols (${rows.length} bars) from database in ${duration}s`);
+      console.log(`✅ Loaded ${this.cache.size} symbols (${rows.length} bars, ${actions.length} corporate actions) from database in ${duration}s`);
       console.log(`📊 Cache range: ${this.cacheStartDate} → ${this.cacheEndDate}`);
-      return true;
+      return this.cache.size > 0;
     } catch (error: any) {
       console.error('❌ Failed to load cache from database:', error.message);
       return false;
     }
   }
-  
+
   /**
-   * Save cache to database (atomic batch write with transaction)
+   * Load saved store settings (defaults when none are saved)
    */
-  private async saveToDatabase(): Promise<void> {
+  private async loadConfig(): Promise<void> {
     try {
-      console.log('💾 Saving historical cache to database...');
-      const startTime = Date.now();
-      
-      // Prepare all batch inserts before transaction
-      const batchInserts: any[] = [];
-      
-      for (const [symbol, bars] of this.cache.entries()) {
-        for (const bar of bars) {
-          batchInserts.push({
-            symbol,
-            barTimestamp: new Date(bar.timestamp),
-            open: bar.open,
-            high: bar.high,
-            low: bar.low,
-            close: bar.close,
-            volume: Math.round(bar.volume), // Ensure integer for bigint column
-            lastUpdated: new Date()
-          });
-        }
+      const [row] = await db.select()
+        .from(appConfig)
+        .where(eq(appConfig.key, CONFIG_KEY))
+        .limit(1);
+
+      if (row) {
+        this.config = this.validate(JSON.parse(row.value), DEFAULT_CONFIG);
+        console.log(`📊 Historical bar store: ${this.config.dailyDepthDays}d daily, ${this.config.intradayDepthDays}d ${this.config.intradayMinutes}m intraday (${this.config.intradaySymbols.join(', ')})`);
       }
-      
-      // Wrap delete + batch inserts in a transaction for atomicity
-      await db.transaction(async (tx) => {
-        // Clear existing data first
-        await tx.delete(historicalBars);
-        
-        // Insert in batches of 5000 to avoid memory issues
-        const BATCH_SIZE = 5000;
-        for (let i = 0; i < batchInserts.length; i += BATCH_SIZE) {
-          const batch = batchInserts.slice(i, i + BATCH_SIZE);
-          await tx.insert(historicalBars).values(batch);
-          console.log(`💾 Saved batch ${Math.floor(i / BATCH_SIZE) + 1}/${Math.ceil(batchInserts.length / BATCH_SIZE)}`);
-        }
-      });
-      
-      const duration = ((Date.now() - startTime) / 1000).toFixed(1);
-      console.log(`✅ Saved ${batchInserts.length} bars to database in ${duration}s`);
     } catch (error: any) {
-      console.error('❌ Failed to save cache to database:', error.message);
-      console.warn('⚠️ Transaction rolled back - previous cache data remains intact');
-      // Non-fatal error - cache still works in-memory, old DB data preserved
+      console.warn('⚠️ Failed to load historical bar store settings, using defaults:', error.message);
     }
   }
-  
+
+  getConfig(): HistoricalBarStoreConfig {
+    return { ...this.config, intradaySymbols: [...this.config.intradaySymbols] };
+  }
+
+  /**
+   * Persist new store settings; a deeper window or new intraday symbols are backfilled in the background
+   */
+  async updateConfig(updates: Partial<HistoricalBarStoreConfig>): Promise<HistoricalBarStoreConfig> {
+    const next = this.validate(updates, this.config);
+    const value = JSON.stringify(next);
+
+    await db.insert(appConfig)
+      .values({
+        key: CONFIG_KEY,
+        value,
+        description: 'Historical bar store depth and intraday symbols',
+        updatedAt: new Date()
+      })
+      .onConflictDoUpdate({
+        target: appConfig.key,
+        set: { value, updatedAt: new Date() }
+      });
+
+    const memoryChanged = next.memoryDays !== this.config.memoryDays;
+    this.config = next;
+    console.log(`📊 Historical bar store updated (${next.dailyDepthDays}d daily, ${next.intradayDepthDays}d intraday)`);
+
+    if (memoryChanged) {
+      await this.loadFromDatabase();
+    }
+    this.startBackfill();
+    return this.getConfig();
+  }
+
   /**
    * Initialize cache on server startup with retry logic
-   * Tries DB first, falls back to API refresh if empty
+   * Loads the store first; fetches the recent window from the API if it's empty.
+   * Gaps (e.g. days the server was down) and the deeper history are backfilled in the background.
    */
   async initialize(): Promise<void> {
     console.log('📊 Initializing Historical Data Cache...');
-    
+    await this.loadConfig();
+
     // Try loading from database first (instant)
     const dbLoaded = await this.loadFromDatabase();
-    
+
     if (dbLoaded) {
       console.log('✅ Historical cache initialized from database');
       this.startScheduler();
+      this.refreshCache().catch(error => {
+        console.error('❌ Startup gap fill failed:', error.message);
+      });
       return;
     }
-    
-    // Database empty - need to refresh from API
+
+    // Database empty - need to fetch the recent window from API
     console.log('⚠️ Database cache empty - fetching from API...');
     const maxRetries = 3;
     let retries = 0;
-    
+
     while (retries < maxRetries) {
       try {
         await this.refreshCache();
@@ -205,7 +341,7 @@ export class HistoricalDataCache {
       } catch (error: any) {
         retries++;
         console.error(`❌ Cache initialization attempt ${retries}/${maxRetries} failed:`, error.message);
-        
+
         if (retries < maxRetries) {
           const backoffMs = retries * 10000; // 10s, 20s, 30s backoff
           console.log(`⏳ Retrying in ${backoffMs/1000}s...`);
@@ -213,42 +349,43 @@ export class HistoricalDataCache {
         }
       }
     }
-    
+
     // If all retries failed, try one more DB load (serve stale data)
     console.warn('⚠️ API refresh failed - attempting to serve stale database data...');
     const staleLoaded = await this.loadFromDatabase();
-    
+
     if (staleLoaded) {
       console.warn('⚠️ Serving stale cache from database - scheduler will retry refresh later');
       this.startScheduler();
       return;
     }
-    
+
     // Complete failure - no data available
     const error = new Error('Historical cache initialization failed: no API data and no DB fallback');
     console.error('❌ Historical cache initialization failed after all retries');
     throw error;
   }
-  
+
   /**
    * Check if cache is ready with sufficient data
    */
   isReady(): boolean {
     return this.cache.size > 0 && this.lastCacheTime > 0;
   }
-  
+
   /**
    * Start scheduler to refresh cache daily at 4:00 PM CST
    */
   private startScheduler(): void {
+    if (this.scheduledTask) return;
     console.log('📅 Starting historical cache scheduler (4:00 PM CST daily)...');
-    
+
     // Check every minute for 4:00 PM CST
     this.scheduledTask = setInterval(() => {
       this.checkAndRefresh();
     }, 60_000); // Check every minute
   }
-  
+
   /**
    * Stop scheduler
    */
@@ -259,160 +396,449 @@ export class HistoricalDataCache {
       console.log('📅 Historical cache scheduler stopped');
     }
   }
-  
+
   /**
    * Check if it's 4:00 PM CST and refresh cache
    */
   private async checkAndRefresh(): Promise<void> {
-    const now = new Date();
-    
-    const cstHour = parseInt(now.toLocaleString('en-US', {
-      timeZone: 'America/Chicago',
-      hour: 'numeric',
-      hour12: false
-    }));
-    
-    const cstMinute = parseInt(now.toLocaleString('en-US', {
-      timeZone: 'America/Chicago',
-      minute: 'numeric'
-    }));
-    
-    const dateStr = now.toISOString().split('T')[0];
-    
-    // Refresh at 4:00 PM CST if not already refreshed today
-    if (cstHour === 16 && cstMinute === 0 && this.cacheEndDate !== dateStr) {
+    const now = DateTime.now().setZone('America/Chicago');
+
+    // No new bars on weekends/holidays - skip the refresh entirely
+    if (!marketCalendar.isTradingDay(new Date())) {
+      return;
+    }
+
+    // Refresh at 4:00 PM CST if today's bars aren't in yet
+    if (now.hour === 16 && now.minute === 0 && this.cacheEndDate !== marketCalendar.toExchangeDate()) {
       console.log('🕓 4:00 PM CST detected - refreshing historical cache...');
-      await this.refreshCache();
+      await this.refreshCache().catch(error => {
+        console.error('❌ Scheduled historical cache refresh failed:', error.message);
+      });
     }
   }
-  
+
   /**
-   * Refresh cache with latest 30 days of historical data
-   * Iterates through dates, fetching grouped daily bars (only trading days)
+   * Append any missing trading days in the memory window, update splits/dividends and
+   * reload the in-memory cache. The deeper backfill, intraday bars and pruning continue
+   * in the background. Concurrent callers share one refresh.
    */
   async refreshCache(): Promise<void> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.runRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async runRefresh(): Promise<void> {
     try {
-      console.log('🔄 Refreshing historical data cache (30 trading days)...');
+      const memoryStart = this.daysAgo(this.config.memoryDays);
+      console.log(`🔄 Refreshing historical data cache (${memoryStart} → ${this.getLatestCompleteDate()})...`);
       const startTime = Date.now();
-      
-      // Calculate date range (go back 60 calendar days to ensure 30 trading days)
-      const endDate = new Date();
-      endDate.setDate(endDate.getDate() - 1); // Yesterday (most recent complete data)
-      
-      const startDate = new Date(endDate);
-      startDate.setDate(startDate.getDate() - 60); // Extra buffer for weekends/holidays
-      
-      const endDateStr = endDate.toISOString().split('T')[0];
-      const startDateStr = startDate.toISOString().split('T')[0];
-      
-      console.log(`📅 Fetching grouped bars for date range: ${startDateStr} → ${endDateStr}`);
-      
-      // Clear old cache
-      this.cache.clear();
-      
-      // Temporary storage to accumulate bars per symbol
-      const symbolBarsMap = new Map<string, HistoricalBar[]>();
-      
-      // Iterate through each date in the range
-      const currentDate = new Date(startDate);
-      let apiCalls = 0;
-      let tradingDays = 0;
-      let totalSymbols = 0;
-      
-      while (currentDate <= endDate) {
-        const dateStr = currentDate.toISOString().split('T')[0];
-        const dayOfWeek = currentDate.getDay();
-        
-        // Skip weekends (Saturday = 6, Sunday = 0)
-        if (dayOfWeek === 0 || dayOfWeek === 6) {
-          currentDate.setDate(currentDate.getDate() + 1);
-          continue;
-        }
-        
-        try {
-          // Fetch grouped daily bars for this date (1 API call for ALL symbols)
-          const groupedBars = await polygonService.getGroupedDailyBars(dateStr);
-          
-          if (groupedBars && groupedBars.length > 0) {
-            apiCalls++;
-            tradingDays++;
-            totalSymbols = Math.max(totalSymbols, groupedBars.length);
-            
-            // Add bars to each symbol's historical data
-            for (const bar of groupedBars) {
-              const symbol = bar.T;
-              
-              if (!symbolBarsMap.has(symbol)) {
-                symbolBarsMap.set(symbol, []);
-              }
-              
-              const symbolBars = symbolBarsMap.get(symbol)!;
-              symbolBars.push({
-                timestamp: bar.t,
-                open: bar.o,
-                high: bar.h,
-                low: bar.l,
-                close: bar.c,
-                volume: bar.v
-              });
-            }
-            
-            console.log(`✅ ${dateStr}: Fetched ${groupedBars.length} symbols`);
-          } else {
-            // If no data on a weekday, it's a holiday - don't count as error
-            console.warn(`⚠️ ${dateStr}: No data (holiday)`);
-          }
-        } catch (error: any) {
-          console.error(`❌ ${dateStr}: Failed to fetch grouped bars - ${error.message}`);
-        }
-        
-        // Move to next day
-        currentDate.setDate(currentDate.getDate() + 1);
-        
-        // Add 5-second delay between dates to respect fair-use policy
-        // Prevents 429 errors on unlimited plan (30 days × 5s = 2.5 min total)
-        if (currentDate <= endDate) {
-          await new Promise(resolve => setTimeout(resolve, 5000));
-        }
-      }
-      
-      // Validate we got enough trading days
-      if (tradingDays < 20) {
-        throw new Error(`Insufficient trading days: ${tradingDays}/20 required`);
+
+      const fetched = await this.syncDaily(memoryStart);
+      await this.syncCorporateActions();
+
+      // Validate we have enough trading days in the window
+      const synced = await this.getSyncedDates(ALL_SYMBOLS, DAILY, memoryStart);
+      if (synced.size < MIN_BARS) {
+        throw new Error(`Insufficient trading days: ${synced.size}/${MIN_BARS} required`);
       }
-      
-      // Filter symbols with sufficient data and populate cache
-      let cachedCount = 0;
-      for (const [symbol, bars] of Array.from(symbolBarsMap.entries())) {
-        // Require at least 20 bars for indicator calculation
-        if (bars.length >= 20) {
-          // Sort bars by timestamp (oldest first)
-          bars.sort((a: HistoricalBar, b: HistoricalBar) => a.timestamp - b.timestamp);
-          this.cache.set(symbol, bars);
-          cachedCount++;
-        }
+
+      if (!(await this.loadFromDatabase())) {
+        throw new Error('No daily bars in the store after refresh');
       }
-      
-      // Update metadata
-      this.cacheStartDate = startDateStr;
-      this.cacheEndDate = endDateStr;
-      this.lastCacheTime = Date.now();
-      
+
       const duration = ((Date.now() - startTime) / 1000).toFixed(1);
-      console.log(`✅ Historical cache refreshed: ${cachedCount} symbols in ${duration}s`);
-      console.log(`📊 Trading days: ${tradingDays}, API calls: ${apiCalls}`);
-      console.log(`📊 Cache range: ${startDateStr} → ${endDateStr}`);
+      console.log(`✅ Historical cache refreshed: ${this.cache.size} symbols, ${fetched} new trading day(s) in ${duration}s`);
       console.log(`💾 Cache expires in 24 hours`);
-      
-      // Persist cache to database
-      await this.saveToDatabase();
-      
+
+      this.startBackfill();
     } catch (error: any) {
       console.error('❌ Failed to refresh historical cache:', error);
       throw error;
     }
   }
-  
+
+  /**
+   * Fill daily gaps across the full depth, sync intraday bars and prune old data (background)
+   */
+  private startBackfill(): void {
+    if (this.backfillPromise) return;
+
+    this.backfillPromise = (async () => {
+      const dailyStart = this.daysAgo(this.config.dailyDepthDays);
+      const fetched = await this.syncDaily(dailyStart);
+      if (fetched > 0) {
+        await this.syncCorporateActions();
+      }
+      await this.syncIntraday();
+      await this.prune();
+      await this.updateCoverage();
+      if (fetched > 0) {
+        console.log(`✅ Historical backfill complete: ${fetched} trading day(s) added`);
+      }
+    })()
+      .catch(error => {
+        console.error('❌ Historical backfill failed:', error.message);
+      })
+      .finally(() => {
+        this.backfillPromise = null;
+      });
+  }
+
+  /**
+   * Fetch grouped daily bars for every trading day since `fromDate` that the store is
+   * missing (newest first). Returns the number of days added.
+   */
+  private async syncDaily(fromDate: string): Promise<number> {
+    const synced = await this.getSyncedDates(ALL_SYMBOLS, DAILY, fromDate);
+    const missing = marketCalendar.getTradingDays(fromDate, this.getLatestCompleteDate())
+      .filter(date => !synced.has(date))
+      .reverse();
+    if (missing.length === 0) return 0;
+
+    console.log(`📅 Backfilling ${missing.length} trading day(s) of grouped daily bars (${missing[missing.length - 1]} → ${missing[0]})`);
+    let fetched = 0;
+
+    for (let i = 0; i < missing.length; i++) {
+      const date = missing[i];
+      try {
+        // Fetch raw grouped daily bars for this date (1 API call for ALL symbols)
+        const groupedBars = await polygonService.getGroupedDailyBars(date, false);
+
+        if (groupedBars && groupedBars.length > 0) {
+          await this.writeBars(DAILY, groupedBars.map(bar => ({ symbol: bar.T, bar })), [{ symbol: ALL_SYMBOLS, date, barCount: groupedBars.length }]);
+          fetched++;
+          console.log(`✅ ${date}: Stored ${groupedBars.length} symbols`);
+        } else {
+          // Left unsynced so the next pass retries it
+          console.warn(`⚠️ ${date}: No grouped data yet`);
+        }
+      } catch (error: any) {
+        console.error(`❌ ${date}: Failed to store grouped bars - ${error.message}`);
+      }
+
+      // Spacing between dates to respect fair-use policy (prevents 429 errors)
+      if (i < missing.length - 1) {
+        await new Promise(resolve => setTimeout(resolve, GROUPED_FETCH_DELAY_MS));
+      }
+    }
+
+    return fetched;
+  }
+
+  /**
+   * Fetch intraday bars for each configured symbol's missing days (contiguous runs per call)
+   */
+  private async syncIntraday(): Promise<void> {
+    const { intradaySymbols, intradayMinutes, intradayDepthDays } = this.config;
+    const timeframe = `${intradayMinutes}m`;
+    const days = marketCalendar.getTradingDays(this.daysAgo(intradayDepthDays), this.getLatestCompleteDate());
+    if (days.length === 0) return;
+
+    for (const symbol of intradaySymbols) {
+      const synced = await this.getSyncedDates(symbol, timeframe, days[0]);
+
+      // Group missing days into runs of consecutive trading days
+      const runs: string[][] = [];
+      days.forEach((day, i) => {
+        if (synced.has(day)) return;
+        const lastRun = runs[runs.length - 1];
+        if (lastRun && lastRun[lastRun.length - 1] === days[i - 1]) {
+          lastRun.push(day);
+        } else {
+          runs.push([day]);
+        }
+      });
+
+      for (const run of runs) {
+        const bars = await polygonService.getRawIntradayBars(symbol, run[0], run[run.length - 1], intradayMinutes);
+        if (!bars) continue; // Request failed - retried next pass
+
+        const counts = new Map(run.map(day => [day, 0]));
+        for (const bar of bars) {
+          const day = marketCalendar.toExchangeDate(new Date(bar.t));
+          counts.set(day, (counts.get(day) || 0) + 1);
+        }
+
+        // Empty days (data not published yet) and today (after-hours bars still arriving) are refetched next pass
+        const today = marketCalendar.toExchangeDate();
+        await this.writeBars(
+          timeframe,
+          bars.map(bar => ({ symbol, bar })),
+          Array.from(counts.entries())
+            .filter(([date, barCount]) => barCount > 0 && date !== today)
+            .map(([date, barCount]) => ({ symbol, date, barCount }))
+        );
+        console.log(`✅ ${symbol}: Stored ${bars.length} ${timeframe} bars (${run[0]} → ${run[run.length - 1]})`);
+      }
+    }
+  }
+
+  /**
+   * Fetch splits and cash dividends since the last sync (or the start of the daily depth)
+   */
+  private async syncCorporateActions(): Promise<void> {
+    try {
+      const [last] = await db.select({ date: sql<string>`max(${historicalBarSync.date})` })
+        .from(historicalBarSync)
+        .where(and(eq(historicalBarSync.symbol, ALL_SYMBOLS), eq(historicalBarSync.timeframe, CORPORATE_ACTIONS)));
+
+      // Re-read a week back to pick up late-announced actions
+      const today = marketCalendar.toExchangeDate();
+      const fromDate = last?.date
+        ? DateTime.fromISO(last.date, { zone: EXCHANGE_TZ }).minus({ days: 7 }).toISODate()!
+        : this.daysAgo(this.config.dailyDepthDays);
+
+      const [splits, dividends] = await Promise.all([
+        polygonService.getStockSplits(fromDate),
+        polygonService.getCashDividends(fromDate),
+      ]);
+
+      const actions = [
+        ...splits
+          .filter(split => split.ticker && split.execution_date <= today && split.split_from > 0 && split.split_to > 0)
+          .map(split => ({
+            symbol: split.ticker as string,
+            type: 'split',
+            exDate: split.execution_date as string,
+            ratio: split.split_to / split.split_from,
+            amount: null,
+          })),
+        ...dividends
+          .filter(dividend => dividend.ticker && dividend.ex_dividend_date <= today && dividend.cash_amount > 0)
+          .map(dividend => ({
+            symbol: dividend.ticker as string,
+            type: 'dividend',
+            exDate: dividend.ex_dividend_date as string,
+            ratio: null,
+            amount: dividend.cash_amount as number,
+          })),
+      ];
+
+      await db.transaction(async (tx) => {
+        for (let i = 0; i < actions.length; i += WRITE_BATCH_SIZE) {
+          await tx.insert(corporateActions)
+            .values(actions.slice(i, i + WRITE_BATCH_SIZE))
+            .onConflictDoNothing();
+        }
+        await tx.insert(historicalBarSync)
+          .values({ symbol: ALL_SYMBOLS, timeframe: CORPORATE_ACTIONS, date: today, barCount: actions.length })
+          .onConflictDoUpdate({
+            target: [historicalBarSync.symbol, historicalBarSync.timeframe, historicalBarSync.date],
+            set: { barCount: actions.length, fetchedAt: new Date() }
+          });
+      });
+
+      console.log(`✅ Corporate actions since ${fromDate}: ${splits.length} splits, ${dividends.length} dividends`);
+    } catch (error: any) {
+      // Non-fatal: bars stay unadjusted for actions we couldn't fetch until the next pass
+      console.error('❌ Failed to sync corporate actions:', error.message);
+    }
+  }
+
+  /**
+   * Upsert Polygon aggregates ({ o, h, l, c, v, t }) and mark their days synced, atomically
+   */
+  private async writeBars(
+    timeframe: string,
+    bars: { symbol: string; bar: any }[],
+    syncedDays: { symbol: string; date: string; barCount: number }[]
+  ): Promise<void> {
+    const now = new Date();
+    const rows = bars
+      .filter(({ bar }) => bar && [bar.o, bar.h, bar.l, bar.c, bar.t].every(value => typeof value === 'number'))
+      .map(({ symbol, bar }) => ({
+        symbol,
+        timeframe,
+        barTimestamp: new Date(bar.t),
+        open: bar.o,
+        high: bar.h,
+        low: bar.l,
+        close: bar.c,
+        volume: Math.round(bar.v || 0), // Ensure integer for bigint column
+        lastUpdated: now
+      }));
+
+    await db.transaction(async (tx) => {
+      for (let i = 0; i < rows.length; i += WRITE_BATCH_SIZE) {
+        await tx.insert(historicalBars)
+          .values(rows.slice(i, i + WRITE_BATCH_SIZE))
+          .onConflictDoUpdate({
+            target: [historicalBars.symbol, historicalBars.timeframe, historicalBars.barTimestamp],
+            set: {
+              open: sql`excluded.open`,
+              high: sql`excluded.high`,
+              low: sql`excluded.low`,
+              close: sql`excluded.close`,
+              volume: sql`excluded.volume`,
+              lastUpdated: now
+            }
+          });
+      }
+
+      for (const day of syncedDays) {
+        await tx.insert(historicalBarSync)
+          .values({ ...day, timeframe })
+          .onConflictDoUpdate({
+            target: [historicalBarSync.symbol, historicalBarSync.timeframe, historicalBarSync.date],
+            set: { barCount: day.barCount, fetchedAt: now }
+          });
+      }
+    });
+  }
+
+  /**
+   * Drop bars (and their sync records) older than the configured depths
+   */
+  private async prune(): Promise<void> {
+    const dailyCutoff = this.daysAgo(this.config.dailyDepthDays);
+    const intradayCutoff = this.daysAgo(this.config.intradayDepthDays);
+    const intraday = sql`${historicalBars.timeframe} <> ${DAILY}`;
+
+    await db.delete(historicalBars).where(and(
+      eq(historicalBars.timeframe, DAILY),
+      lt(historicalBars.barTimestamp, marketCalendar.exchangeTimeToDate(dailyCutoff, '00:00'))
+    ));
+    await db.delete(historicalBars).where(and(
+      intraday,
+      lt(historicalBars.barTimestamp, marketCalendar.exchangeTimeToDate(intradayCutoff, '00:00'))
+    ));
+    await db.delete(historicalBarSync).where(and(
+      eq(historicalBarSync.timeframe, DAILY),
+      lt(historicalBarSync.date, dailyCutoff)
+    ));
+    await db.delete(historicalBarSync).where(and(
+      sql`${historicalBarSync.timeframe} NOT IN (${DAILY}, ${CORPORATE_ACTIONS})`,
+      lt(historicalBarSync.date, intradayCutoff)
+    ));
+  }
+
+  private async updateCoverage(): Promise<void> {
+    const dailyStart = this.daysAgo(this.config.dailyDepthDays);
+    const synced = await this.getSyncedDates(ALL_SYMBOLS, DAILY, dailyStart);
+    const expected = marketCalendar.getTradingDays(dailyStart, this.getLatestCompleteDate());
+    const dates = Array.from(synced).sort();
+
+    this.coverage = {
+      storedFrom: dates[0] ?? null,
+      storedTo: dates[dates.length - 1] ?? null,
+      missingDays: expected.filter(date => !synced.has(date)).length,
+    };
+  }
+
+  private async getSyncedDates(symbol: string, timeframe: string, fromDate: string): Promise<Set<string>> {
+    const rows = await db.select({ date: historicalBarSync.date })
+      .from(historicalBarSync)
+      .where(and(
+        eq(historicalBarSync.symbol, symbol),
+        eq(historicalBarSync.timeframe, timeframe),
+        gte(historicalBarSync.date, fromDate)
+      ));
+    return new Set(rows.map(row => row.date));
+  }
+
+  /**
+   * Latest trading day whose bars are final: today after 4:30 PM ET, otherwise the previous session
+   */
+  private getLatestCompleteDate(): string {
+    const now = DateTime.now().setZone(EXCHANGE_TZ);
+    const today = now.toISODate()!;
+    if (marketCalendar.isTradingDay(today) && (now.hour > 16 || (now.hour === 16 && now.minute >= 30))) {
+      return today;
+    }
+    return marketCalendar.getPreviousTradingDay(today);
+  }
+
+  private daysAgo(days: number): string {
+    return DateTime.now().setZone(EXCHANGE_TZ).minus({ days }).toISODate()!;
+  }
+
+  /**
+   * Stored bars for a symbol and exchange-date range (oldest first), split/dividend adjusted
+   * unless `adjusted` is false. Reads the store, so any depth that has been backfilled is available.
+   */
+  async getBars(
+    symbol: string,
+    startDate: string,
+    endDate: string,
+    timeframe: string = DAILY,
+    adjusted: boolean = true
+  ): Promise<HistoricalBar[]> {
+    const ticker = symbol.toUpperCase();
+    const rows = await db.select({
+      barTimestamp: historicalBars.barTimestamp,
+      open: historicalBars.open,
+      high: historicalBars.high,
+      low: historicalBars.low,
+      close: historicalBars.close,
+      volume: historicalBars.volume,
+    })
+      .from(historicalBars)
+      .where(and(
+        eq(historicalBars.symbol, ticker),
+        eq(historicalBars.timeframe, timeframe),
+        gte(historicalBars.barTimestamp, marketCalendar.exchangeTimeToDate(startDate, '00:00')),
+        lt(historicalBars.barTimestamp, DateTime.fromISO(endDate, { zone: EXCHANGE_TZ }).plus({ days: 1 }).toJSDate())
+      ))
+      .orderBy(historicalBars.barTimestamp);
+
+    const bars: HistoricalBar[] = rows.map(row => ({
+      timestamp: new Date(row.barTimestamp).getTime(),
+      open: row.open,
+      high: row.high,
+      low: row.low,
+      close: row.close,
+      volume: row.volume
+    }));
+    if (!adjusted || bars.length === 0) return bars;
+
+    const actions = await db.select()
+      .from(corporateActions)
+      .where(and(eq(corporateActions.symbol, ticker), gt(corporateActions.exDate, startDate)));
+    return adjustBars(bars, actions);
+  }
+
+  /**
+   * Daily bars for HistoricalDataService: served from the store when every trading day in the
+   * range has been synced, else from ranges it fetched itself; null means fetch from the API
+   */
+  async get(symbol: string, kind: 'daily_bars', startDate: string, endDate: string): Promise<HistoricalBar[] | null> {
+    const key = `${symbol.toUpperCase()}|${kind}|${startDate}|${endDate}`;
+    const entry = this.rangeCache.get(key);
+    if (entry && Date.now() - entry.cachedAt < this.CACHE_DURATION) {
+      return entry.bars;
+    }
+
+    try {
+      const lastDay = endDate < this.getLatestCompleteDate() ? endDate : this.getLatestCompleteDate();
+      const days = marketCalendar.getTradingDays(startDate, lastDay);
+      if (days.length === 0) return null;
+
+      const synced = await this.getSyncedDates(ALL_SYMBOLS, DAILY, days[0]);
+      if (days.some(day => !synced.has(day))) return null;
+
+      const bars = await this.getBars(symbol, startDate, endDate);
+      return bars.length > 0 ? bars : null; // Not a stock in the grouped feed (e.g. an index)
+    } catch (error: any) {
+      console.warn(`⚠️ ${symbol}: bar store lookup failed (${error.message}), using API`);
+      return null;
+    }
+  }
+
+  /**
+   * Remember a range HistoricalDataService fetched from the API (in memory, 24 hours)
+   */
+  async set(symbol: string, kind: 'daily_bars', startDate: string, endDate: string, bars: HistoricalBar[]): Promise<void> {
+    if (this.rangeCache.size >= RANGE_CACHE_LIMIT) {
+      const oldest = this.rangeCache.keys().next().value;
+      if (oldest !== undefined) this.rangeCache.delete(oldest);
+    }
+    this.rangeCache.set(`${symbol.toUpperCase()}|${kind}|${startDate}|${endDate}`, { bars, cachedAt: Date.now() });
+  }
+
   /**
    * Get cached historical bars for a symbol
    * Attempts refresh if cache is stale before returning null
@@ -421,27 +847,27 @@ export class HistoricalDataCache {
     // Check cache freshness
     if (this.isCacheStale()) {
       console.warn('⚠️ Historical cache is stale - triggering refresh');
-      
+
       // Attempt background refresh (fire-and-forget to avoid blocking)
       this.refreshCache().catch(error => {
         console.error('❌ Background cache refresh failed:', error.message);
       });
-      
+
       // Return null to trigger fallback for this request
       // Next request should hit refreshed cache
       return null;
     }
-    
+
     return this.cache.get(symbol) || null;
   }
-  
+
   /**
    * Check if cache has data for a symbol
    */
   has(symbol: string): boolean {
     return !this.isCacheStale() && this.cache.has(symbol);
   }
-  
+
   /**
    * Get all cached symbols
    */
@@ -451,7 +877,7 @@ export class HistoricalDataCache {
     }
     return Array.from(this.cache.keys());
   }
-  
+
   /**
    * Get symbol's historical data with metadata
    */
@@ -460,7 +886,7 @@ export class HistoricalDataCache {
     if (!bars || bars.length === 0) {
       return null;
     }
-    
+
     return {
       symbol,
       bars,
@@ -469,7 +895,7 @@ export class HistoricalDataCache {
       lastUpdated: this.lastCacheTime
     };
   }
-  
+
   /**
    * Check if cache is stale (older than 24 hours)
    */
@@ -477,15 +903,15 @@ export class HistoricalDataCache {
     if (this.lastCacheTime === 0) return true;
     return Date.now() - this.lastCacheTime > this.CACHE_DURATION;
   }
-  
+
   /**
    * Get cache statistics
    */
   getStats() {
-    const cacheAgeMins = this.lastCacheTime > 0 
+    const cacheAgeMins = this.lastCacheTime > 0
       ? Math.floor((Date.now() - this.lastCacheTime) / 60_000)
       : null;
-    
+
     return {
       symbolsCached: this.cache.size,
       startDate: this.cacheStartDate,
@@ -493,12 +919,18 @@ export class HistoricalDataCache {
       lastRefresh: this.lastCacheTime > 0 ? new Date(this.lastCacheTime).toISOString() : null,
       cacheAgeMins,
       isStale: this.isCacheStale(),
-      expiresIn: this.lastCacheTime > 0 
+      expiresIn: this.lastCacheTime > 0
         ? Math.max(0, Math.floor((this.CACHE_DURATION - (Date.now() - this.lastCacheTime)) / 60_000))
-        : 0
+        : 0,
+      store: {
+        ...this.getConfig(),
+        ...this.coverage,
+        backfillInProgress: this.backfillPromise !== null,
+        rangesCached: this.rangeCache.size
+      }
     };
   }
-  
+
   /**
    * Force cache refresh (admin endpoint)
    */
@@ -506,17 +938,57 @@ export class HistoricalDataCache {
     console.log('🔧 Force refreshing historical cache...');
     await this.refreshCache();
   }
-  
+
   /**
-   * Clear cache
+   * Clear the in-memory cache (the store itself is untouched).
+   * With a symbol, only that symbol's fetched ranges are dropped.
    */
-  clear(): void {
+  clear(symbol?: string): void {
+    if (symbol) {
+      const prefix = `${symbol.toUpperCase()}|`;
+      for (const key of Array.from(this.rangeCache.keys())) {
+        if (key.startsWith(prefix)) this.rangeCache.delete(key);
+      }
+      return;
+    }
+
     this.cache.clear();
+    this.rangeCache.clear();
     this.cacheStartDate = null;
     this.cacheEndDate = null;
     this.lastCacheTime = 0;
     console.log('🗑️ Historical cache cleared');
   }
+
+  private validate(updates: Partial<HistoricalBarStoreConfig>, base: HistoricalBarStoreConfig): HistoricalBarStoreConfig {
+    const next = { ...base, ...Object.fromEntries(Object.entries(updates).filter(([, v]) => v !== undefined)) };
+    const isDays = (value: unknown, min: number, max: number) =>
+      Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+    if (!isDays(next.dailyDepthDays, 60, 3650)) {
+      throw new HistoricalBarStoreError('dailyDepthDays must be a whole number between 60 and 3650');
+    }
+    if (!isDays(next.memoryDays, 30, next.dailyDepthDays)) {
+      throw new HistoricalBarStoreError('memoryDays must be a whole number between 30 and dailyDepthDays');
+    }
+    if (!isDays(next.intradayDepthDays, 1, 730)) {
+      throw new HistoricalBarStoreError('intradayDepthDays must be a whole number between 1 and 730');
+    }
+    if (![1, 5, 15, 30, 60].includes(next.intradayMinutes)) {
+      throw new HistoricalBarStoreError('intradayMinutes must be 1, 5, 15, 30 or 60');
+    }
+    if (!Array.isArray(next.intradaySymbols) || !next.intradaySymbols.every(s => typeof s === 'string' && s.trim().length > 0)) {
+      throw new HistoricalBarStoreError('intradaySymbols must be a list of tickers');
+    }
+
+    return {
+      dailyDepthDays: next.dailyDepthDays,
+      memoryDays: next.memoryDays,
+      intradaySymbols: Array.from(new Set(next.intradaySymbols.map(s => s.trim().toUpperCase()))),
+      intradayMinutes: next.intradayMinutes,
+      intradayDepthDays: next.intradayDepthDays,
+    };
+  }
 }
 
 // Singleton instance
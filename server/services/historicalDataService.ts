@@ -126,6 +126,43 @@ export class HistoricalDataService {
     return historicalBars;
   }
 
+  /**
+   * Fetch VIX3M (3-month VIX) historical data for the VIX term structure
+   * Delegates to PolygonService (uses I:VIX3M symbol)
+   */
+  async getVIX3MHistory(
+    startDate: string,
+    endDate: string,
+    useCache: boolean = true,
+    unlimited: boolean = false
+  ): Promise<HistoricalBar[]> {
+    if (useCache) {
+      const cached = await historicalDataCache.get('VIX3M', 'daily_bars', startDate, endDate);
+      if (cached) return cached;
+    }
+
+    const bars = await polygonService.getHistoricalBars('I:VIX3M', startDate, endDate, 'day', 1, unlimited);
+    
+    if (!bars || bars.length === 0) {
+      return [];
+    }
+
+    const historicalBars: HistoricalBar[] = bars.map((bar: any) => ({
+      timestamp: bar.t,
+      open: bar.o,
+      high: bar.h,
+      low: bar.l,
+      close: bar.c,
+      volume: bar.v || 0
+    }));
+
+    if (useCache && historicalBars.length > 0) {
+      await historicalDataCache.set('VIX3M', 'daily_bars', startDate, endDate, historicalBars);
+    }
+
+    return historicalBars;
+  }
+
   /**
    * Fetch SPX historical data
    * Delegates to PolygonService for centralized authentication
@@ -164,6 +201,43 @@ export class HistoricalDataService {
     return historicalBars;
   }
 
+  /**
+   * Fetch NASDAQ Composite historical data
+   * Delegates to PolygonService (uses I:COMP symbol)
+   */
+  async getNasdaqHistory(
+    startDate: string,
+    endDate: string,
+    useCache: boolean = true,
+    unlimited: boolean = false
+  ): Promise<HistoricalBar[]> {
+    if (useCache) {
+      const cached = await historicalDataCache.get('COMP', 'daily_bars', startDate, endDate);
+      if (cached) return cached;
+    }
+
+    const bars = await polygonService.getHistoricalBars('I:COMP', startDate, endDate, 'day', 1, unlimited);
+    
+    if (!bars || bars.length === 0) {
+      return [];
+    }
+
+    const historicalBars: HistoricalBar[] = bars.map((bar: any) => ({
+      timestamp: bar.t,
+      open: bar.o,
+      high: bar.h,
+      low: bar.l,
+      close: bar.c,
+      volume: bar.v || 0
+    }));
+
+    if (useCache && historicalBars.length > 0) {
+      await historicalDataCache.set('COMP', 'daily_bars', startDate, endDate, historicalBars);
+    }
+
+    return historicalBars;
+  }
+
   /**
    * Clear cache (useful for testing/admin)
    */
@@ -0,0 +1,262 @@
+/**
+ * Index History Service
+ *
+ * Market overview quotes for the S&P 500, NASDAQ Composite and VIX:
+ *
+ * - Change is measured against the official prior session close (Polygon daily index bars,
+ *   falling back to the last sample stored for that session), so a restart mid-session no
+ *   longer resets it to zero
+ * - Prices are sampled every 5 minutes while the session is open and stored in
+ *   `index_intraday_samples` for the dashboard sparklines; 30 days are kept
+ */
+
+import { DateTime } from 'luxon';
+import { db } from '../db';
+import {
+  indexIntradaySamples,
+  type IndexIntradayHistory,
+  type IndexKey,
+  type IndexQuote,
+} from '@shared/schema';
+import { and, asc, desc, eq, lt } from 'drizzle-orm';
+import { WebScraperService } from './webScraper';
+import { tastytradeService } from './tastytradeService';
+import { historicalDataService } from './historicalDataService';
+import { marketCalendar } from './marketCalendar';
+
+export const INDEX_KEYS: IndexKey[] = ['SPX', 'COMP', 'VIX'];
+
+const INDEX_LABELS: Record<IndexKey, string> = {
+  SPX: 'S&P 500',
+  COMP: 'NASDAQ',
+  VIX: 'VIX',
+};
+
+const SAMPLE_INTERVAL_MS = 5 * 60 * 1000;
+const SAMPLE_CHECK_MS = 60 * 1000;
+const CLOSE_GRACE_MS = 5 * 60 * 1000; // Keep sampling briefly after the bell to catch the closing print
+const RETENTION_DAYS = 30;
+const PRIOR_CLOSE_LOOKBACK_DAYS = 7;
+
+export type IndexPrices = Record<IndexKey, number>;
+
+/**
+ * Invalid intraday history request (malformed date)
+ */
+export class IndexHistoryError extends Error {
+  constructor(message: string, public readonly statusCode: 400 = 400) {
+    super(message);
+    this.name = 'IndexHistoryError';
+  }
+}
+
+export class IndexHistoryService {
+  private static instance: IndexHistoryService | null = null;
+  private sampleInterval: NodeJS.Timeout | null = null;
+  private lastSampleAt = 0;
+  private isSampling = false;
+  private lastPrunedDate: string | null = null;
+  private priorCloses = new Map<string, number>(); // `${symbol}:${date}` -> close
+
+  private constructor() {}
+
+  static getInstance(): IndexHistoryService {
+    if (!IndexHistoryService.instance) {
+      IndexHistoryService.instance = new IndexHistoryService();
+    }
+    return IndexHistoryService.instance;
+  }
+
+  /**
+   * Sample index prices through each session, whether or not anyone has the dashboard open
+   */
+  start(): void {
+    if (this.sampleInterval) return;
+    this.sampleInterval = setInterval(() => {
+      this.sampleIfDue().catch(error => {
+        console.error('❌ Index sampling failed:', error.message);
+      });
+    }, SAMPLE_CHECK_MS);
+    console.log('📈 Index intraday sampling started (every 5 minutes during the session)');
+  }
+
+  stop(): void {
+    if (this.sampleInterval) {
+      clearInterval(this.sampleInterval);
+      this.sampleInterval = null;
+    }
+  }
+
+  /**
+   * Current index prices: SPX from Tastytrade while the market is open, Google Finance otherwise
+   * (and always for NASDAQ and VIX)
+   */
+  async getPrices(): Promise<IndexPrices> {
+    const scraped = await WebScraperService.scrapeMarketIndices();
+    let spx = scraped.sp500.price;
+
+    if (marketCalendar.isMarketOpen()) {
+      try {
+        const spxQuote = await tastytradeService.getFuturesQuote('SPX');
+        if (spxQuote && spxQuote.price > 0 && Number.isFinite(spxQuote.price)) {
+          spx = spxQuote.price;
+          console.log(`✅ SPX from Tastytrade (live): $${spx.toFixed(2)}`);
+        }
+      } catch (error) {
+        console.log('⚠️ SPX fetch error, using fallback');
+      }
+    }
+
+    return { SPX: spx, COMP: scraped.nasdaq.price, VIX: scraped.vix.price };
+  }
+
+  /**
+   * Session the overview describes: today once it has opened, otherwise the last session
+   */
+  getSessionDate(now: Date = new Date()): string {
+    const today = marketCalendar.toExchangeDate(now);
+    const session = marketCalendar.getSession(today);
+    if (session && now >= session.open) return today;
+    return marketCalendar.getPreviousTradingDay(today);
+  }
+
+  /**
+   * Quote for one index with change measured against the close of the session before `sessionDate`
+   */
+  async getQuote(symbol: IndexKey, price: number, sessionDate: string = this.getSessionDate()): Promise<IndexQuote> {
+    const priorClose = await this.getPriorClose(symbol, sessionDate).catch(error => {
+      console.warn(`⚠️ ${symbol}: prior close unavailable:`, error.message);
+      return null;
+    });
+
+    if (!priorClose || !Number.isFinite(price) || price <= 0) {
+      return { value: price, change: 0, changePercent: 0, priorClose };
+    }
+    const change = price - priorClose;
+    return { value: price, change, changePercent: (change / priorClose) * 100, priorClose };
+  }
+
+  /**
+   * Close of the trading day before `sessionDate`: Polygon daily bars, else the last stored sample
+   */
+  async getPriorClose(symbol: IndexKey, sessionDate: string): Promise<number | null> {
+    const priorDate = marketCalendar.getPreviousTradingDay(sessionDate);
+    const cacheKey = `${symbol}:${priorDate}`;
+    const cached = this.priorCloses.get(cacheKey);
+    if (cached !== undefined) return cached;
+
+    let close: number | null = null;
+    try {
+      const from = DateTime.fromISO(priorDate).minus({ days: PRIOR_CLOSE_LOOKBACK_DAYS }).toISODate()!;
+      const bars = await this.getDailyBars(symbol, from, priorDate);
+      const bar = bars.find(b => marketCalendar.toExchangeDate(new Date(b.timestamp)) === priorDate);
+      if (bar && bar.close > 0) close = bar.close;
+    } catch (error: any) {
+      console.warn(`⚠️ ${symbol}: daily bars unavailable for ${priorDate}:`, error.message);
+    }
+
+    if (close === null) {
+      const [sample] = await db.select()
+        .from(indexIntradaySamples)
+        .where(and(eq(indexIntradaySamples.symbol, symbol), eq(indexIntradaySamples.date, priorDate)))
+        .orderBy(desc(indexIntradaySamples.sampledAt))
+        .limit(1);
+      if (sample) close = sample.price;
+    }
+
+    if (close !== null) {
+      this.priorCloses.set(cacheKey, close);
+      if (this.priorCloses.size > 30) {
+        this.priorCloses.delete(this.priorCloses.keys().next().value!);
+      }
+    }
+    return close;
+  }
+
+  /**
+   * Store a sample of each index if the session is in progress and the last one is 5+ minutes old.
+   * The market overview route feeds this too, so samples arrive even between timer ticks.
+   */
+  async recordSamples(prices: IndexPrices, now: Date = new Date()): Promise<boolean> {
+    if (!this.isInSession(now) || now.getTime() - this.lastSampleAt < SAMPLE_INTERVAL_MS) {
+      return false;
+    }
+
+    const date = marketCalendar.toExchangeDate(now);
+    const rows = INDEX_KEYS
+      .filter(symbol => Number.isFinite(prices[symbol]) && prices[symbol] > 0)
+      .map(symbol => ({ symbol, date, price: prices[symbol], sampledAt: now }));
+    if (rows.length === 0) return false;
+
+    this.lastSampleAt = now.getTime();
+    await db.insert(indexIntradaySamples).values(rows);
+    await this.pruneIfDue(date);
+    return true;
+  }
+
+  /**
+   * Stored samples for a session (default: the current one) with each index's prior close
+   */
+  async getIntradayHistory(date?: string): Promise<IndexIntradayHistory> {
+    if (date !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      throw new IndexHistoryError('date must be YYYY-MM-DD');
+    }
+    const sessionDate = date || this.getSessionDate();
+
+    const samples = await db.select()
+      .from(indexIntradaySamples)
+      .where(eq(indexIntradaySamples.date, sessionDate))
+      .orderBy(asc(indexIntradaySamples.sampledAt));
+
+    const series = await Promise.all(INDEX_KEYS.map(async symbol => ({
+      symbol,
+      label: INDEX_LABELS[symbol],
+      priorClose: await this.getPriorClose(symbol, sessionDate).catch(() => null),
+      points: samples
+        .filter(s => s.symbol === symbol)
+        .map(s => ({ time: s.sampledAt.toISOString(), price: s.price })),
+    })));
+
+    return { date: sessionDate, series };
+  }
+
+  private async sampleIfDue(): Promise<void> {
+    const now = new Date();
+    if (this.isSampling || !this.isInSession(now) || now.getTime() - this.lastSampleAt < SAMPLE_INTERVAL_MS) {
+      return;
+    }
+
+    this.isSampling = true;
+    try {
+      const prices = await this.getPrices();
+      await this.recordSamples(prices, now);
+    } finally {
+      this.isSampling = false;
+    }
+  }
+
+  private isInSession(now: Date): boolean {
+    const session = marketCalendar.getSession(marketCalendar.toExchangeDate(now));
+    return !!session && now >= session.open && now.getTime() <= session.close.getTime() + CLOSE_GRACE_MS;
+  }
+
+  private async pruneIfDue(date: string): Promise<void> {
+    if (this.lastPrunedDate === date) return;
+    this.lastPrunedDate = date;
+    const cutoff = DateTime.fromISO(date).minus({ days: RETENTION_DAYS }).toISODate()!;
+    await db.delete(indexIntradaySamples).where(lt(indexIntradaySamples.date, cutoff));
+  }
+
+  private getDailyBars(symbol: IndexKey, from: string, to: string) {
+    switch (symbol) {
+      case 'SPX':
+        return historicalDataService.getSPXHistory(from, to);
+      case 'COMP':
+        return historicalDataService.getNasdaqHistory(from, to);
+      case 'VIX':
+        return historicalDataService.getVIXHistory(from, to);
+    }
+  }
+}
+
+export const indexHistoryService = IndexHistoryService.getInstance();
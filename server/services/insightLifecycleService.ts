@@ -1,5 +1,7 @@
 import { learningStorage } from "../storage";
-import type { MarketInsight } from "@shared/schema";
+import { tradeOutcomeRepository } from "./tradeOutcomeRepository";
+import { MARKET_REGIMES } from "./marketRegimeService";
+import type { MarketInsight, RecommendationTracking, RecommendationPerformance } from "@shared/schema";
 
 /**
  * InsightLifecycleService
@@ -10,6 +12,7 @@ export class InsightLifecycleService {
   private readonly WARN_THRESHOLD = 55; // Warn when win rate drops below 55%
   private readonly DEACTIVATE_THRESHOLD = 45; // Auto-deactivate below 45%
   private readonly MIN_SAMPLE_SIZE = 20; // Minimum trades before deactivating
+  private readonly MIN_REGIME_SAMPLE = 10; // Closed trades in a regime before it gets an insight
   
   /**
    * Evaluate all active insights and deactivate underperformers
@@ -56,6 +59,12 @@ export class InsightLifecycleService {
    * This would query trades matching the insight conditions
    */
   private async calculateCurrentWinRate(insight: MarketInsight): Promise<number> {
+    // Regime insights are re-measured from the trades stamped with that regime
+    if (insight.insightType === 'regime' && insight.marketRegime) {
+      const { winRate, sampleSize } = await tradeOutcomeRepository.calculateWinRate({ marketRegime: insight.marketRegime });
+      return sampleSize > 0 ? winRate : insight.winRate;
+    }
+    
     // For now, return the stored win rate
     // In a full implementation, this would:
     // 1. Query recent trades matching the insight conditions
@@ -77,6 +86,60 @@ export class InsightLifecycleService {
     return insight;
   }
   
+  /**
+   * Keep one 'regime' insight per market regime in sync with the closed trades
+   * stamped with that regime. Returns the number of newly created insights.
+   */
+  async refreshRegimeInsights(
+    outcomes: Array<RecommendationTracking & { performance?: RecommendationPerformance }>
+  ): Promise<number> {
+    const existing = (await learningStorage.getActiveInsights())
+      .filter(i => i.insightType === 'regime' && i.discoveredBy === 'regime_classifier');
+    let created = 0;
+    
+    for (const regime of MARKET_REGIMES) {
+      const trades = outcomes.filter(o => o.marketRegime === regime && o.performance?.closedAt);
+      if (trades.length < this.MIN_REGIME_SAMPLE) continue;
+      
+      const wins = trades.filter(t => t.performance?.isWin).length;
+      const winRate = (wins / trades.length) * 100;
+      const avgROI = trades.reduce((sum, t) => sum + (t.performance?.actualROI || 0), 0) / trades.length;
+      const calls = trades.filter(t => t.optionType === 'call');
+      const callWinRate = calls.length > 0 ? (calls.filter(t => t.performance?.isWin).length / calls.length) * 100 : null;
+      const puts = trades.filter(t => t.optionType === 'put');
+      const putWinRate = puts.length > 0 ? (puts.filter(t => t.performance?.isWin).length / puts.length) * 100 : null;
+      
+      const split = [
+        callWinRate !== null ? `calls ${callWinRate.toFixed(0)}%` : null,
+        putWinRate !== null ? `puts ${putWinRate.toFixed(0)}%` : null,
+      ].filter(Boolean).join(', ');
+      const stats = {
+        pattern: `${winRate.toFixed(1)}% win rate in ${regime} markets (${split}; ${trades.length} trades, avg ROI ${avgROI.toFixed(1)}%)`,
+        winRate,
+        sampleSize: trades.length,
+        avgROI,
+        confidence: Math.min(0.95, Math.sqrt(trades.length) / 10),
+      };
+      
+      const current = existing.find(i => i.marketRegime === regime);
+      if (current) {
+        await learningStorage.updateInsightStats(current.id, stats);
+      } else {
+        await learningStorage.createInsight({
+          insightType: 'regime',
+          conditions: { marketRegime: regime },
+          discoveredBy: 'regime_classifier',
+          marketRegime: regime,
+          isActive: true,
+          ...stats
+        });
+        created++;
+      }
+    }
+    
+    return created;
+  }
+  
   /**
    * Create a new insight from discovered pattern
    */
@@ -1,4 +1,5 @@
 import { learningStorage } from "../storage";
+import { MARKET_REGIMES } from "./marketRegimeService";
 import type { InsertPerformanceMetricsRow, RecommendationTracking, RecommendationPerformance } from "@shared/schema";
 
 /**
@@ -36,23 +37,16 @@ export class LearningAnalyticsService {
         periodStart.setDate(periodEnd.getDate() - 30);
     }
     
-    // Fetch trade outcomes for this strategy
+    // Fetch trade outcomes for this strategy (regime stamped at entry by marketRegimeService)
     const outcomes = await learningStorage.getTradeOutcomes({
       strategyVersion,
       startDate: periodStart,
-      closedOnly: true // Only analyze closed trades
-    });
-    
-    // Filter by market regime if specified
-    const filteredOutcomes = outcomes.filter(outcome => {
-      if (marketRegime === 'all') return true;
-      // Would need to add regime detection logic here
-      // For now, include all
-      return true;
+      closedOnly: true, // Only analyze closed trades
+      marketRegime: marketRegime === 'all' ? undefined : marketRegime
     });
     
     // Compute metrics
-    const metrics = this.computeMetrics(filteredOutcomes);
+    const metrics = this.computeMetrics(outcomes);
     
     // Prepare insert data
     const metricsData: InsertPerformanceMetricsRow = {
@@ -159,13 +153,11 @@ export class LearningAnalyticsService {
     // For now, just refresh for the current strategy version
     const strategyVersion = 'v1.0.0'; // Would fetch from strategy parameters
     
-    // Refresh for all timeframes
-    await Promise.all([
-      this.refreshMetrics(strategyVersion, 'all', '7d'),
-      this.refreshMetrics(strategyVersion, 'all', '30d'),
-      this.refreshMetrics(strategyVersion, 'all', '90d'),
-      this.refreshMetrics(strategyVersion, 'all', 'all_time')
-    ]);
+    // Refresh for all timeframes, overall and per market regime
+    const timeframes = ['7d', '30d', '90d', 'all_time'];
+    for (const regime of ['all', ...MARKET_REGIMES]) {
+      await Promise.all(timeframes.map(timeframe => this.refreshMetrics(strategyVersion, regime, timeframe)));
+    }
   }
 }
 
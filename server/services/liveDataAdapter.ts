@@ -291,42 +291,61 @@ export class LiveDataAdapter {
       // Get current price from WebSocket or historical
       const currentQuote = await this.getQuote(symbol);
       
-      // Calculate technical indicators
-      const closes = bars.map(b => b.close);
-      const highs = bars.map(b => b.high);
-      const lows = bars.map(b => b.low);
-      
-      const rsi = this.calculateRSI(closes, period);
-      const rsiPrevious = closes.length > period ? this.calculateRSI(closes.slice(0, -1), period) : rsi;
-      const ema20 = this.calculateEMA(closes, 20);
-      const atrShort = this.calculateATR(highs, lows, closes, 5);
-      const atrLong = this.calculateATR(highs, lows, closes, 30);
-      
-      return {
+      return this.computeIndicatorBundle(
         symbol,
-        rsi,
-        rsiPrevious,
-        ema20,
-        atrShort,
-        atrLong,
-        currentPrice: currentQuote.price,
-        bars: bars.map(b => ({
-          timestamp: b.timestamp,
-          open: b.open,
-          high: b.high,
-          low: b.low,
-          close: b.close,
-          volume: b.volume
-        })),
-        source: currentQuote.source === 'websocket' ? 'live' : 'historical',
-        calculatedAt: Date.now()
-      };
+        bars,
+        currentQuote.price,
+        currentQuote.source === 'websocket' ? 'live' : 'historical',
+        period
+      );
     } catch (error: any) {
       console.error(`Failed to calculate indicators for ${symbol}:`, error.message);
       return null;
     }
   }
   
+  /**
+   * Calculate the indicator bundle from daily bars and a current price.
+   * Shared by the live scanner and the backtester so both see identical indicators.
+   */
+  computeIndicatorBundle(
+    symbol: string,
+    bars: PriceBar[],
+    currentPrice: number,
+    source: 'live' | 'historical',
+    period: number = 14
+  ): IndicatorBundle {
+    const closes = bars.map(b => b.close);
+    const highs = bars.map(b => b.high);
+    const lows = bars.map(b => b.low);
+    
+    const rsi = this.calculateRSI(closes, period);
+    const rsiPrevious = closes.length > period ? this.calculateRSI(closes.slice(0, -1), period) : rsi;
+    const ema20 = this.calculateEMA(closes, 20);
+    const atrShort = this.calculateATR(highs, lows, closes, 5);
+    const atrLong = this.calculateATR(highs, lows, closes, 30);
+    
+    return {
+      symbol,
+      rsi,
+      rsiPrevious,
+      ema20,
+      atrShort,
+      atrLong,
+      currentPrice,
+      bars: bars.map(b => ({
+        timestamp: b.timestamp,
+        open: b.open,
+        high: b.high,
+        low: b.low,
+        close: b.close,
+        volume: b.volume
+      })),
+      source,
+      calculatedAt: Date.now()
+    };
+  }
+  
   // ===== OPTIONS ANALYTICS =====
   
   /**
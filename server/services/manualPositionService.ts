@@ -0,0 +1,259 @@
+/**
+ * Manual Position Service
+ *
+ * Positions held at brokers we don't integrate with are entered by hand and live in
+ * `portfolio_positions` with source 'manual' (live broker positions are fetched, not
+ * stored; 'order' rows are the ledger of fills from orders placed in the app).
+ * They are merged into the unified portfolio as the 'manual' broker source.
+ *
+ * Every change in size is a trade: opening, adding, trimming and closing each write a
+ * `trade_history` row, and reductions book realized P/L onto the position.
+ */
+
+import { db } from '../db';
+import {
+  portfolioPositions,
+  tradeHistory,
+  type PortfolioPosition,
+  type InsertPortfolioPosition,
+} from '@shared/schema';
+import { getContractMultiplier } from '@shared/constants';
+import { and, eq } from 'drizzle-orm';
+
+export const MANUAL_BROKER = 'manual';
+
+/**
+ * Invalid manual position request (unknown position, bad quantities/prices)
+ */
+export class ManualPositionError extends Error {
+  constructor(message: string, public readonly statusCode: 400 | 404 | 409 = 400) {
+    super(message);
+    this.name = 'ManualPositionError';
+  }
+}
+
+export interface ManualPositionUpdate {
+  quantity?: number; // New signed quantity; a change in size is recorded as a trade
+  price?: number; // Fill price for the size change (required when quantity changes)
+  avgCost?: number; // Cost basis correction
+  fees?: number;
+  metadata?: Record<string, unknown>;
+  notes?: string;
+}
+
+export interface ManualPositionClose {
+  exitPrice: number;
+  fees?: number;
+  notes?: string;
+}
+
+type DbExecutor = Pick<typeof db, 'insert' | 'update'>;
+
+export class ManualPositionService {
+
+  async getOpenPositions(): Promise<PortfolioPosition[]> {
+    const rows = await db.select()
+      .from(portfolioPositions)
+      .where(and(
+        eq(portfolioPositions.status, 'open'),
+        eq(portfolioPositions.source, MANUAL_BROKER)
+      ));
+
+    // Rows written before the manual source existed defaulted to 'tastytrade'
+    return rows.map(row => ({ ...row, broker: MANUAL_BROKER }));
+  }
+
+  /**
+   * Record a hand-entered position and its opening trade
+   */
+  async create(input: InsertPortfolioPosition, notes?: string): Promise<PortfolioPosition> {
+    this.requireQuantity(input.quantity);
+    this.requirePrice(input.avgCost, 'avgCost');
+
+    return db.transaction(async (tx) => {
+      const [position] = await tx.insert(portfolioPositions).values({
+        ...input,
+        broker: MANUAL_BROKER,
+        source: MANUAL_BROKER,
+        status: 'open',
+        realizedPnL: 0,
+        unrealizedPnL: 0,
+        currentPrice: input.currentPrice ?? input.avgCost,
+      }).returning();
+
+      await this.recordTrade(tx, position, input.quantity, input.avgCost, 0, notes || 'Opened manual position');
+
+      console.log(`📝 Manual position opened: ${position.ticker} ${position.quantity} @ $${position.avgCost.toFixed(2)}`);
+      return position;
+    });
+  }
+
+  /**
+   * Edit a manual position. Adding to it re-averages the cost basis; reducing it
+   * books realized P/L on the closed portion. Reducing to zero closes it.
+   */
+  async update(id: string, updates: ManualPositionUpdate): Promise<PortfolioPosition> {
+    const position = await this.requireOpen(id);
+    const multiplier = getContractMultiplier(position.positionType);
+    const fees = updates.fees ?? 0;
+    this.requirePrice(fees, 'fees');
+
+    if (updates.avgCost !== undefined) this.requirePrice(updates.avgCost, 'avgCost');
+
+    const newQuantity = updates.quantity ?? position.quantity;
+    if (!Number.isInteger(newQuantity)) {
+      throw new ManualPositionError('quantity must be a whole number');
+    }
+    if (newQuantity !== 0 && position.quantity !== 0 && Math.sign(newQuantity) !== Math.sign(position.quantity)) {
+      throw new ManualPositionError('Close the position before reversing its direction');
+    }
+
+    const delta = newQuantity - position.quantity;
+    if (delta !== 0) {
+      this.requirePrice(updates.price, 'price');
+    }
+    if (newQuantity === 0) {
+      return this.close(id, { exitPrice: updates.price!, fees, notes: updates.notes });
+    }
+
+    const increasing = Math.abs(newQuantity) > Math.abs(position.quantity);
+    let avgCost = updates.avgCost ?? position.avgCost;
+    let realized = 0;
+
+    if (delta !== 0 && increasing && updates.avgCost === undefined) {
+      avgCost = (position.avgCost * Math.abs(position.quantity) + updates.price! * Math.abs(delta)) / Math.abs(newQuantity);
+    } else if (delta !== 0 && !increasing) {
+      // delta has the opposite sign of the position, so -delta is the signed closed size
+      realized = (updates.price! - position.avgCost) * -delta * multiplier - fees;
+    }
+
+    return db.transaction(async (tx) => {
+      const [updated] = await tx.update(portfolioPositions)
+        .set({
+          quantity: newQuantity,
+          avgCost,
+          realizedPnL: (position.realizedPnL || 0) + realized,
+          ...(updates.metadata ? { metadata: { ...(position.metadata as object || {}), ...updates.metadata } } : {}),
+        })
+        .where(this.unchangedSince(position))
+        .returning();
+      if (!updated) {
+        throw new ManualPositionError('Position changed while this request was processed', 409);
+      }
+
+      if (delta !== 0) {
+        const note = increasing
+          ? `Added ${Math.abs(delta)} to manual position`
+          : `Reduced manual position by ${Math.abs(delta)}: realized P/L $${realized.toFixed(2)}`;
+        await this.recordTrade(tx, position, delta, updates.price!, fees, updates.notes || note);
+      }
+
+      return updated;
+    });
+  }
+
+  /**
+   * Close the whole position at `exitPrice` and book realized P/L
+   */
+  async close(id: string, close: ManualPositionClose): Promise<PortfolioPosition> {
+    const position = await this.requireOpen(id);
+    this.requirePrice(close.exitPrice, 'exitPrice');
+
+    const multiplier = getContractMultiplier(position.positionType);
+    const fees = close.fees ?? 0;
+    this.requirePrice(fees, 'fees');
+    const realized = (close.exitPrice - position.avgCost) * position.quantity * multiplier - fees;
+
+    return db.transaction(async (tx) => {
+      const [closed] = await tx.update(portfolioPositions)
+        .set({
+          status: 'closed',
+          closeDate: new Date(),
+          currentPrice: close.exitPrice,
+          unrealizedPnL: 0,
+          realizedPnL: (position.realizedPnL || 0) + realized,
+        })
+        .where(this.unchangedSince(position))
+        .returning();
+      if (!closed) {
+        throw new ManualPositionError('Position changed while this request was processed', 409);
+      }
+
+      await this.recordTrade(
+        tx, position, -position.quantity, close.exitPrice, fees,
+        close.notes || `Closed manual position: realized P/L $${realized.toFixed(2)}`
+      );
+
+      console.log(`📕 Manual position closed: ${position.ticker} @ $${close.exitPrice.toFixed(2)} (realized $${realized.toFixed(2)})`);
+      return closed;
+    });
+  }
+
+  private async requireOpen(id: string): Promise<PortfolioPosition> {
+    const [position] = await db.select()
+      .from(portfolioPositions)
+      .where(eq(portfolioPositions.id, id))
+      .limit(1);
+    if (!position) {
+      throw new ManualPositionError('Position not found', 404);
+    }
+    if (position.source !== MANUAL_BROKER) {
+      throw new ManualPositionError('Position is managed by its broker and cannot be edited here', 409);
+    }
+    if (position.status !== 'open') {
+      throw new ManualPositionError(`Position is already ${position.status}`, 409);
+    }
+    return position;
+  }
+
+  /**
+   * Match the row only while it is still open at the size it was read with, so a
+   * concurrent edit or close can't have its P/L booked twice
+   */
+  private unchangedSince(position: PortfolioPosition) {
+    return and(
+      eq(portfolioPositions.id, position.id),
+      eq(portfolioPositions.status, 'open'),
+      eq(portfolioPositions.quantity, position.quantity)
+    );
+  }
+
+  private requireQuantity(quantity: number): void {
+    if (!Number.isInteger(quantity) || quantity === 0) {
+      throw new ManualPositionError('quantity must be a non-zero whole number (negative for short)');
+    }
+  }
+
+  private requirePrice(price: number | undefined, field: string): void {
+    if (typeof price !== 'number' || !Number.isFinite(price) || price < 0) {
+      throw new ManualPositionError(`${field} must be a non-negative number`);
+    }
+  }
+
+  /**
+   * @param signedQuantity - Positive buys, negative sells
+   */
+  private async recordTrade(
+    executor: DbExecutor,
+    position: PortfolioPosition,
+    signedQuantity: number,
+    price: number,
+    fees: number,
+    notes: string
+  ): Promise<void> {
+    const multiplier = getContractMultiplier(position.positionType);
+    await executor.insert(tradeHistory).values({
+      userId: position.userId,
+      positionId: position.id,
+      tradeType: signedQuantity > 0 ? 'buy' : 'sell',
+      ticker: position.ticker,
+      quantity: Math.abs(signedQuantity),
+      price,
+      fees,
+      totalValue: Math.abs(signedQuantity) * price * multiplier,
+      notes,
+    });
+  }
+}
+
+export const manualPositionService = new ManualPositionService();
@@ -0,0 +1,378 @@
+/**
+ * Market Calendar Service
+ *
+ * NYSE/Nasdaq exchange calendar: full-day holidays, 1:00 PM ET early closes,
+ * and observed-date rules. Every scheduler that cares about "is there a session
+ * today?" should consult this instead of a plain weekday check.
+ *
+ * Rules:
+ * - Holidays falling on Sunday are observed the following Monday
+ * - Holidays falling on Saturday are observed the preceding Friday,
+ *   EXCEPT New Year's Day (NYSE does not close on Dec 31)
+ * - Early close (1:00 PM ET): July 3, day after Thanksgiving, Christmas Eve
+ *   (only when the day is itself a regular weekday session)
+ */
+
+import { DateTime } from 'luxon';
+
+const EXCHANGE_TZ = 'America/New_York';
+const REGULAR_OPEN = '09:30';
+const REGULAR_CLOSE = '16:00';
+const EARLY_CLOSE = '13:00';
+
+export interface MarketHoliday {
+  date: string; // YYYY-MM-DD (exchange date)
+  name: string;
+  type: 'closed' | 'early_close';
+  closeTime?: string; // "13:00" ET for early closes
+}
+
+export interface TradingDayInfo {
+  date: string; // YYYY-MM-DD
+  isTradingDay: boolean;
+  isWeekend: boolean;
+  isHoliday: boolean;
+  isEarlyClose: boolean;
+  holidayName?: string;
+  openTime: string | null; // "09:30" ET, null when closed
+  closeTime: string | null; // "16:00" or "13:00" ET, null when closed
+}
+
+export interface MarketSession {
+  date: string; // YYYY-MM-DD
+  open: Date;
+  close: Date;
+  isEarlyClose: boolean;
+  holidayName?: string; // Set on early-close sessions (e.g. "Day after Thanksgiving")
+}
+
+/**
+ * Unscheduled closures (national days of mourning, weather, etc.)
+ * Add entries here when the exchange announces them.
+ */
+const SPECIAL_CLOSURES: Record<string, string> = {
+  '2012-10-29': 'Hurricane Sandy',
+  '2012-10-30': 'Hurricane Sandy',
+  '2018-12-05': 'National Day of Mourning (George H.W. Bush)',
+  '2025-01-09': 'National Day of Mourning (Jimmy Carter)',
+};
+
+export class MarketCalendar {
+  private static instance: MarketCalendar | null = null;
+
+  // Cache structure: Map<year, Map<YYYY-MM-DD, MarketHoliday>>
+  private yearCache = new Map<number, Map<string, MarketHoliday>>();
+
+  private constructor() {}
+
+  static getInstance(): MarketCalendar {
+    if (!MarketCalendar.instance) {
+      MarketCalendar.instance = new MarketCalendar();
+    }
+    return MarketCalendar.instance;
+  }
+
+  /**
+   * Exchange date (YYYY-MM-DD in ET) for an instant or date string
+   */
+  toExchangeDate(date: Date | string = new Date()): string {
+    if (typeof date === 'string') {
+      return date.slice(0, 10);
+    }
+    return DateTime.fromJSDate(date).setZone(EXCHANGE_TZ).toISODate()!;
+  }
+
+  /**
+   * All holidays and early closes for a year, sorted by date
+   */
+  getHolidays(year: number): MarketHoliday[] {
+    return Array.from(this.getYearMap(year).values())
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /**
+   * Calendar details for a single exchange date
+   */
+  getTradingDayInfo(date: Date | string = new Date()): TradingDayInfo {
+    const dateStr = this.toExchangeDate(date);
+    const day = DateTime.fromISO(dateStr, { zone: EXCHANGE_TZ });
+    const isWeekend = day.weekday >= 6;
+    const holiday = this.getYearMap(day.year).get(dateStr);
+
+    const isHoliday = holiday?.type === 'closed';
+    const isEarlyClose = !isWeekend && holiday?.type === 'early_close';
+    const isTradingDay = !isWeekend && !isHoliday;
+
+    return {
+      date: dateStr,
+      isTradingDay,
+      isWeekend,
+      isHoliday,
+      isEarlyClose,
+      holidayName: holiday?.name,
+      openTime: isTradingDay ? REGULAR_OPEN : null,
+      closeTime: isTradingDay ? (isEarlyClose ? EARLY_CLOSE : REGULAR_CLOSE) : null
+    };
+  }
+
+  isTradingDay(date: Date | string = new Date()): boolean {
+    return this.getTradingDayInfo(date).isTradingDay;
+  }
+
+  /**
+   * True for full-day exchange holidays (weekends are not holidays)
+   */
+  isHoliday(date: Date | string): boolean {
+    return this.getTradingDayInfo(date).isHoliday;
+  }
+
+  isEarlyClose(date: Date | string = new Date()): boolean {
+    return this.getTradingDayInfo(date).isEarlyClose;
+  }
+
+  /**
+   * Regular session (open/close instants) for a date, or null if the market is closed that day
+   */
+  getSession(date: Date | string = new Date()): MarketSession | null {
+    const info = this.getTradingDayInfo(date);
+    if (!info.isTradingDay || !info.openTime || !info.closeTime) {
+      return null;
+    }
+
+    return {
+      date: info.date,
+      open: this.exchangeTimeToDate(info.date, info.openTime),
+      close: this.exchangeTimeToDate(info.date, info.closeTime),
+      isEarlyClose: info.isEarlyClose,
+      holidayName: info.isEarlyClose ? info.holidayName : undefined
+    };
+  }
+
+  /**
+   * Check if the regular session is in progress at the given instant
+   */
+  isMarketOpen(now: Date = new Date()): boolean {
+    const session = this.getSession(now);
+    if (!session) return false;
+
+    const t = now.getTime();
+    return t >= session.open.getTime() && t < session.close.getTime();
+  }
+
+  /**
+   * Session in progress right now, or null
+   */
+  getCurrentSession(now: Date = new Date()): MarketSession | null {
+    return this.isMarketOpen(now) ? this.getSession(now) : null;
+  }
+
+  /**
+   * Next session whose open is strictly after `now`
+   */
+  getNextSession(now: Date = new Date()): MarketSession {
+    let dateStr = this.toExchangeDate(now);
+
+    // Today's session still counts if it hasn't opened yet
+    const today = this.getSession(dateStr);
+    if (today && today.open.getTime() > now.getTime()) {
+      return today;
+    }
+
+    dateStr = this.getNextTradingDay(dateStr);
+    return this.getSession(dateStr)!;
+  }
+
+  /**
+   * First trading day strictly after the given date
+   */
+  getNextTradingDay(date: Date | string): string {
+    let day = DateTime.fromISO(this.toExchangeDate(date), { zone: EXCHANGE_TZ });
+
+    // Bounded search: no real calendar has more than a handful of consecutive closures
+    for (let i = 0; i < 14; i++) {
+      day = day.plus({ days: 1 });
+      if (this.isTradingDay(day.toISODate()!)) {
+        return day.toISODate()!;
+      }
+    }
+
+    throw new Error(`No trading day found within 14 days after ${this.toExchangeDate(date)}`);
+  }
+
+  /**
+   * Last trading day strictly before the given date
+   */
+  getPreviousTradingDay(date: Date | string): string {
+    let day = DateTime.fromISO(this.toExchangeDate(date), { zone: EXCHANGE_TZ });
+
+    for (let i = 0; i < 14; i++) {
+      day = day.minus({ days: 1 });
+      if (this.isTradingDay(day.toISODate()!)) {
+        return day.toISODate()!;
+      }
+    }
+
+    throw new Error(`No trading day found within 14 days before ${this.toExchangeDate(date)}`);
+  }
+
+  /**
+   * Trading days in [from, to] inclusive
+   */
+  getTradingDays(from: Date | string, to: Date | string): string[] {
+    const end = this.toExchangeDate(to);
+    const days: string[] = [];
+    let day = DateTime.fromISO(this.toExchangeDate(from), { zone: EXCHANGE_TZ });
+
+    while (day.toISODate()! <= end) {
+      const dateStr = day.toISODate()!;
+      if (this.isTradingDay(dateStr)) {
+        days.push(dateStr);
+      }
+      day = day.plus({ days: 1 });
+    }
+
+    return days;
+  }
+
+  /**
+   * Upcoming holidays/early closes on or after the given date
+   */
+  getUpcomingHolidays(from: Date | string = new Date(), limit: number = 5): MarketHoliday[] {
+    const fromStr = this.toExchangeDate(from);
+    const year = parseInt(fromStr.slice(0, 4), 10);
+
+    return [...this.getHolidays(year), ...this.getHolidays(year + 1)]
+      .filter(h => h.date >= fromStr)
+      .slice(0, limit);
+  }
+
+  /**
+   * Convert an exchange-local date + "HH:MM" to an absolute instant
+   */
+  exchangeTimeToDate(dateStr: string, time: string): Date {
+    const [hour, minute] = time.split(':').map(Number);
+    return DateTime.fromISO(dateStr, { zone: EXCHANGE_TZ })
+      .set({ hour, minute, second: 0, millisecond: 0 })
+      .toJSDate();
+  }
+
+  /**
+   * Build (and memoize) the holiday map for a year
+   */
+  private getYearMap(year: number): Map<string, MarketHoliday> {
+    const cached = this.yearCache.get(year);
+    if (cached) return cached;
+
+    const map = new Map<string, MarketHoliday>();
+    const addClosed = (date: DateTime | null, name: string) => {
+      if (date && date.year === year) {
+        map.set(date.toISODate()!, { date: date.toISODate()!, name, type: 'closed' });
+      }
+    };
+
+    // New Year's Day: Sunday → Monday; Saturday → not observed
+    const newYear = DateTime.fromObject({ year, month: 1, day: 1 }, { zone: EXCHANGE_TZ });
+    if (newYear.weekday === 7) {
+      addClosed(newYear.plus({ days: 1 }), "New Year's Day (observed)");
+    } else if (newYear.weekday !== 6) {
+      addClosed(newYear, "New Year's Day");
+    }
+
+    addClosed(this.nthWeekday(year, 1, 1, 3), 'Martin Luther King Jr. Day');
+    addClosed(this.nthWeekday(year, 2, 1, 3), "Washington's Birthday");
+    addClosed(this.calculateEasterSunday(year).minus({ days: 2 }), 'Good Friday');
+    addClosed(this.lastWeekday(year, 5, 1), 'Memorial Day');
+
+    if (year >= 2022) {
+      this.addObserved(map, year, 6, 19, 'Juneteenth');
+    }
+    this.addObserved(map, year, 7, 4, 'Independence Day');
+    addClosed(this.nthWeekday(year, 9, 1, 1), 'Labor Day');
+
+    const thanksgiving = this.nthWeekday(year, 11, 4, 4);
+    addClosed(thanksgiving, 'Thanksgiving Day');
+    this.addObserved(map, year, 12, 25, 'Christmas Day');
+
+    for (const [date, name] of Object.entries(SPECIAL_CLOSURES)) {
+      if (date.startsWith(`${year}-`)) {
+        map.set(date, { date, name, type: 'closed' });
+      }
+    }
+
+    // Early closes only apply to days that are otherwise regular weekday sessions
+    const addEarlyClose = (date: DateTime, name: string) => {
+      const dateStr = date.toISODate()!;
+      if (date.weekday <= 5 && !map.has(dateStr)) {
+        map.set(dateStr, { date: dateStr, name, type: 'early_close', closeTime: EARLY_CLOSE });
+      }
+    };
+
+    addEarlyClose(DateTime.fromObject({ year, month: 7, day: 3 }, { zone: EXCHANGE_TZ }), 'Independence Day Eve');
+    addEarlyClose(thanksgiving.plus({ days: 1 }), 'Day after Thanksgiving');
+    addEarlyClose(DateTime.fromObject({ year, month: 12, day: 24 }, { zone: EXCHANGE_TZ }), 'Christmas Eve');
+
+    this.yearCache.set(year, map);
+    return map;
+  }
+
+  /**
+   * Fixed-date holiday with Saturday → Friday, Sunday → Monday observance
+   */
+  private addObserved(map: Map<string, MarketHoliday>, year: number, month: number, day: number, name: string): void {
+    let date = DateTime.fromObject({ year, month, day }, { zone: EXCHANGE_TZ });
+    let label = name;
+
+    if (date.weekday === 6) {
+      date = date.minus({ days: 1 });
+      label = `${name} (observed)`;
+    } else if (date.weekday === 7) {
+      date = date.plus({ days: 1 });
+      label = `${name} (observed)`;
+    }
+
+    map.set(date.toISODate()!, { date: date.toISODate()!, name: label, type: 'closed' });
+  }
+
+  /**
+   * nth occurrence of a weekday in a month (weekday: 1 = Monday … 7 = Sunday)
+   */
+  private nthWeekday(year: number, month: number, weekday: number, n: number): DateTime {
+    const first = DateTime.fromObject({ year, month, day: 1 }, { zone: EXCHANGE_TZ });
+    const offset = (weekday - first.weekday + 7) % 7;
+    return first.plus({ days: offset + (n - 1) * 7 });
+  }
+
+  /**
+   * Last occurrence of a weekday in a month
+   */
+  private lastWeekday(year: number, month: number, weekday: number): DateTime {
+    const last = DateTime.fromObject({ year, month, day: 1 }, { zone: EXCHANGE_TZ }).endOf('month').startOf('day');
+    const offset = (last.weekday - weekday + 7) % 7;
+    return last.minus({ days: offset });
+  }
+
+  /**
+   * Calculate Easter Sunday using Meeus/Jones/Butcher algorithm
+   */
+  private calculateEasterSunday(year: number): DateTime {
+    const a = year % 19;
+    const b = Math.floor(year / 100);
+    const c = year % 100;
+    const d = Math.floor(b / 4);
+    const e = b % 4;
+    const f = Math.floor((b + 8) / 25);
+    const g = Math.floor((b - f + 1) / 3);
+    const h = (19 * a + b - d - g + 15) % 30;
+    const i = Math.floor(c / 4);
+    const k = c % 4;
+    const l = (32 + 2 * e + 2 * i - h - k) % 7;
+    const m = Math.floor((a + 11 * h + 22 * l) / 451);
+    const month = Math.floor((h + l - 7 * m + 114) / 31);
+    const day = ((h + l - 7 * m + 114) % 31) + 1;
+
+    return DateTime.fromObject({ year, month, day }, { zone: EXCHANGE_TZ });
+  }
+}
+
+// Export singleton instance
+export const marketCalendar = MarketCalendar.getInstance();
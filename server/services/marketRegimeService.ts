@@ -0,0 +1,322 @@
+/**
+ * Market Regime Service
+ *
+ * Classifies the market as bull / bear / volatile / choppy from session closes:
+ *
+ * - SPX trend: close vs its 50-day SMA and the 20-session return
+ * - VIX level, VIX vs its 10-day average (spikes) and the VIX/VIX3M term ratio (backwardation)
+ * - Breadth: % of liquid stocks in the historical cache closing above their 20-day SMA
+ *
+ * Volatility wins over trend; a trend needs SPX, its momentum and breadth to agree, anything
+ * else is choppy. The regime is as of the last closed session, so a recommendation tracked
+ * intraday is stamped with the regime known at entry. `recommendation_tracking.market_regime`
+ * drives per-regime performance metrics, and the Elite scanner loads the regime-specific
+ * strategy parameter set when one is active.
+ */
+
+import { db } from '../db';
+import {
+  recommendationTracking,
+  type MarketRegime,
+  type MarketRegimeSignals,
+  type MarketRegimeSnapshot,
+} from '@shared/schema';
+import { eq, isNull, asc } from 'drizzle-orm';
+import { DateTime } from 'luxon';
+import { historicalDataService } from './historicalDataService';
+import { historicalDataCache, type HistoricalBar } from './historicalDataCache';
+import { marketCalendar } from './marketCalendar';
+
+export const MARKET_REGIMES: MarketRegime[] = ['bull', 'bear', 'volatile', 'choppy'];
+
+const CACHE_TTL_MS = 15 * 60 * 1000;
+const LOOKBACK_CALENDAR_DAYS = 120; // Covers the 50-session SMA plus holidays
+
+// Classifier thresholds
+const VOLATILE_VIX = 25;
+const VIX_SPIKE_FLOOR = 20; // Spikes only count once VIX is at least this high
+const VIX_SPIKE_RATIO = 1.25; // VIX vs its 10-day average
+const BACKWARDATION_RATIO = 1.0; // VIX / VIX3M
+const TREND_RETURN = 1.0; // % over 20 sessions
+const BREADTH_BULL = 50;
+const BREADTH_BEAR = 50;
+
+// Breadth universe (keeps penny stocks and illiquid names out of the count)
+const BREADTH_MIN_PRICE = 5;
+const BREADTH_MIN_VOLUME = 100000;
+
+interface RegimeSeries {
+  spx: { date: string; close: number }[];
+  vix: Map<string, number>;
+  vix3m: Map<string, number>;
+  breadth: Map<string, number>;
+}
+
+/**
+ * Classify one set of signals (exported for backtests and reports)
+ */
+export function classifyRegime(signals: MarketRegimeSignals): { regime: MarketRegime; reasons: string[] } {
+  const { spxClose, spxSma50, spxReturn20, vix, vixSma10, vixTermRatio, breadthAbove20 } = signals;
+  const volatileReasons: string[] = [];
+
+  if (vix !== null && vix >= VOLATILE_VIX) {
+    volatileReasons.push(`VIX ${vix.toFixed(1)} ≥ ${VOLATILE_VIX}`);
+  }
+  if (vixTermRatio !== null && vixTermRatio >= BACKWARDATION_RATIO) {
+    volatileReasons.push(`VIX term structure inverted (VIX/VIX3M ${vixTermRatio.toFixed(2)})`);
+  }
+  if (vix !== null && vixSma10 !== null && vix >= VIX_SPIKE_FLOOR && vix >= vixSma10 * VIX_SPIKE_RATIO) {
+    volatileReasons.push(`VIX spike ${vix.toFixed(1)} vs 10-day avg ${vixSma10.toFixed(1)}`);
+  }
+  if (volatileReasons.length > 0) {
+    return { regime: 'volatile', reasons: volatileReasons };
+  }
+
+  const reasons: string[] = [];
+  if (spxSma50 !== null) {
+    reasons.push(`SPX ${spxClose >= spxSma50 ? 'above' : 'below'} 50-day SMA (${((spxClose / spxSma50 - 1) * 100).toFixed(1)}%)`);
+  }
+  if (spxReturn20 !== null) {
+    reasons.push(`SPX 20-session return ${spxReturn20 >= 0 ? '+' : ''}${spxReturn20.toFixed(1)}%`);
+  }
+  if (breadthAbove20 !== null) {
+    reasons.push(`${breadthAbove20.toFixed(0)}% of stocks above 20-day SMA`);
+  }
+
+  if (spxSma50 !== null && spxReturn20 !== null) {
+    if (spxClose > spxSma50 && spxReturn20 >= TREND_RETURN && (breadthAbove20 === null || breadthAbove20 >= BREADTH_BULL)) {
+      return { regime: 'bull', reasons };
+    }
+    if (spxClose < spxSma50 && spxReturn20 <= -TREND_RETURN && (breadthAbove20 === null || breadthAbove20 <= BREADTH_BEAR)) {
+      return { regime: 'bear', reasons };
+    }
+  }
+
+  reasons.push('Trend, momentum and breadth disagree');
+  return { regime: 'choppy', reasons };
+}
+
+export function isMarketRegime(value: unknown): value is MarketRegime {
+  return typeof value === 'string' && (MARKET_REGIMES as string[]).includes(value);
+}
+
+export class MarketRegimeService {
+  private static instance: MarketRegimeService | null = null;
+  private current: MarketRegimeSnapshot | null = null;
+  private currentExpiresAt = 0;
+  private computePromise: Promise<MarketRegimeSnapshot> | null = null;
+
+  private constructor() {}
+
+  static getInstance(): MarketRegimeService {
+    if (!MarketRegimeService.instance) {
+      MarketRegimeService.instance = new MarketRegimeService();
+    }
+    return MarketRegimeService.instance;
+  }
+
+  /**
+   * Regime as of the last closed session (cached for 15 minutes)
+   */
+  async getCurrentRegime(): Promise<MarketRegimeSnapshot> {
+    const asOf = this.lastClosedSession(new Date());
+    if (this.current && this.current.asOf === asOf && Date.now() < this.currentExpiresAt) {
+      return this.current;
+    }
+
+    if (!this.computePromise) {
+      this.computePromise = (async () => {
+        const from = this.minusDays(asOf, LOOKBACK_CALENDAR_DAYS);
+        const series = await this.loadSeries(from, asOf);
+        const snapshot = this.classifyAt(series, asOf);
+        if (!snapshot) {
+          throw new Error(`No SPX history available to classify the regime as of ${asOf}`);
+        }
+        this.current = snapshot;
+        this.currentExpiresAt = Date.now() + CACHE_TTL_MS;
+        console.log(`🌡️ Market regime: ${snapshot.regime.toUpperCase()} as of ${snapshot.asOf} (${snapshot.reasons.join('; ')})`);
+        return snapshot;
+      })().finally(() => {
+        this.computePromise = null;
+      });
+    }
+    return this.computePromise;
+  }
+
+  /**
+   * Regime for each session close in [from, to] (breadth only where the bar cache reaches)
+   */
+  async getRegimeHistory(from: string, to: string): Promise<MarketRegimeSnapshot[]> {
+    const series = await this.loadSeries(this.minusDays(from, LOOKBACK_CALENDAR_DAYS), to);
+    return series.spx
+      .filter(bar => bar.date >= from && bar.date <= to)
+      .map(bar => this.classifyAt(series, bar.date))
+      .filter((snapshot): snapshot is MarketRegimeSnapshot => snapshot !== null);
+  }
+
+  /**
+   * Stamp tracked recommendations that have no regime yet with the regime known at their entry
+   */
+  async backfillRecommendations(): Promise<{ updated: number; unclassified: number }> {
+    const rows = await db.select({ id: recommendationTracking.id, recommendedAt: recommendationTracking.recommendedAt })
+      .from(recommendationTracking)
+      .where(isNull(recommendationTracking.marketRegime))
+      .orderBy(asc(recommendationTracking.recommendedAt));
+
+    if (rows.length === 0) return { updated: 0, unclassified: 0 };
+
+    const asOfById = new Map<string, string>();
+    for (const row of rows) {
+      asOfById.set(row.id, this.lastClosedSession(row.recommendedAt || new Date()));
+    }
+    const dates = Array.from(new Set(Array.from(asOfById.values()))).sort();
+    const series = await this.loadSeries(this.minusDays(dates[0], LOOKBACK_CALENDAR_DAYS), dates[dates.length - 1]);
+
+    const regimeByDate = new Map<string, MarketRegime | null>();
+    for (const date of dates) {
+      regimeByDate.set(date, this.classifyAt(series, date)?.regime ?? null);
+    }
+
+    let updated = 0;
+    let unclassified = 0;
+    for (const row of rows) {
+      const regime = regimeByDate.get(asOfById.get(row.id)!);
+      if (!regime) {
+        unclassified++;
+        continue;
+      }
+      await db.update(recommendationTracking)
+        .set({ marketRegime: regime })
+        .where(eq(recommendationTracking.id, row.id));
+      updated++;
+    }
+
+    console.log(`🌡️ Regime backfill: ${updated} recommendation(s) stamped, ${unclassified} without SPX history`);
+    return { updated, unclassified };
+  }
+
+  /**
+   * Session whose close was the latest one before `at`
+   */
+  private lastClosedSession(at: Date): string {
+    const session = marketCalendar.getSession(at);
+    if (session && at.getTime() >= session.close.getTime()) {
+      return session.date;
+    }
+    return marketCalendar.getPreviousTradingDay(at);
+  }
+
+  private async loadSeries(from: string, to: string): Promise<RegimeSeries> {
+    const [spxBars, vixBars, vix3mBars] = await Promise.all([
+      historicalDataService.getSPXHistory(from, to),
+      historicalDataService.getVIXHistory(from, to).catch((error: any) => {
+        console.warn('⚠️ VIX history unavailable for regime classification:', error.message);
+        return [] as HistoricalBar[];
+      }),
+      historicalDataService.getVIX3MHistory(from, to).catch((error: any) => {
+        console.warn('⚠️ VIX3M history unavailable, classifying without the term structure:', error.message);
+        return [] as HistoricalBar[];
+      }),
+    ]);
+
+    const toDate = (bar: HistoricalBar) => marketCalendar.toExchangeDate(new Date(bar.timestamp));
+    return {
+      spx: spxBars
+        .map(bar => ({ date: toDate(bar), close: bar.close }))
+        .sort((a, b) => a.date.localeCompare(b.date)),
+      vix: new Map(vixBars.map(bar => [toDate(bar), bar.close])),
+      vix3m: new Map(vix3mBars.map(bar => [toDate(bar), bar.close])),
+      breadth: this.computeBreadthSeries(),
+    };
+  }
+
+  private classifyAt(series: RegimeSeries, date: string): MarketRegimeSnapshot | null {
+    // Latest SPX close on or before the date
+    let index = -1;
+    for (let i = series.spx.length - 1; i >= 0; i--) {
+      if (series.spx[i].date <= date) {
+        index = i;
+        break;
+      }
+    }
+    if (index < 0) return null;
+
+    const asOf = series.spx[index].date;
+    const closes = series.spx.slice(0, index + 1).map(bar => bar.close);
+    const spxClose = closes[closes.length - 1];
+
+    const vixDates = series.spx.slice(Math.max(0, index - 9), index + 1).map(bar => bar.date);
+    const vixWindow = vixDates.map(d => series.vix.get(d)).filter((v): v is number => v !== undefined);
+    const vix = series.vix.get(asOf) ?? null;
+    const vix3m = series.vix3m.get(asOf) ?? null;
+
+    const signals: MarketRegimeSignals = {
+      spxClose,
+      spxSma50: closes.length >= 50 ? this.round(this.average(closes.slice(-50))) : null,
+      spxReturn20: closes.length > 20 ? this.round((spxClose / closes[closes.length - 21] - 1) * 100) : null,
+      vix,
+      vixSma10: vixWindow.length >= 5 ? this.round(this.average(vixWindow)) : null,
+      vixTermRatio: vix !== null && vix3m ? this.round(vix / vix3m, 3) : null,
+      breadthAbove20: series.breadth.get(asOf) ?? null,
+    };
+
+    const { regime, reasons } = classifyRegime(signals);
+    return { regime, asOf, signals, reasons, computedAt: new Date().toISOString() };
+  }
+
+  /**
+   * % of liquid stocks above their 20-day SMA for each session in the in-memory bar cache
+   */
+  private computeBreadthSeries(): Map<string, number> {
+    const above = new Map<string, number>();
+    const total = new Map<string, number>();
+    const dateByTimestamp = new Map<number, string>();
+
+    for (const symbol of historicalDataCache.getAllSymbols()) {
+      const bars = historicalDataCache.getHistoricalBars(symbol);
+      if (!bars || bars.length < 20) continue;
+      const last = bars[bars.length - 1];
+      if (last.close < BREADTH_MIN_PRICE || last.volume < BREADTH_MIN_VOLUME) continue;
+
+      let sum = 0;
+      for (let i = 0; i < bars.length; i++) {
+        sum += bars[i].close;
+        if (i >= 20) sum -= bars[i - 20].close;
+        if (i < 19) continue;
+
+        let date = dateByTimestamp.get(bars[i].timestamp);
+        if (!date) {
+          date = marketCalendar.toExchangeDate(new Date(bars[i].timestamp));
+          dateByTimestamp.set(bars[i].timestamp, date);
+        }
+        total.set(date, (total.get(date) || 0) + 1);
+        if (bars[i].close > sum / 20) {
+          above.set(date, (above.get(date) || 0) + 1);
+        }
+      }
+    }
+
+    const breadth = new Map<string, number>();
+    for (const [date, count] of Array.from(total.entries())) {
+      if (count >= 100) {
+        breadth.set(date, this.round(((above.get(date) || 0) / count) * 100, 1));
+      }
+    }
+    return breadth;
+  }
+
+  private minusDays(date: string, days: number): string {
+    return DateTime.fromISO(date).minus({ days }).toISODate()!;
+  }
+
+  private average(values: number[]): number {
+    return values.reduce((sum, v) => sum + v, 0) / values.length;
+  }
+
+  private round(value: number, digits: number = 2): number {
+    const factor = Math.pow(10, digits);
+    return Math.round(value * factor) / factor;
+  }
+}
+
+export const marketRegimeService = MarketRegimeService.getInstance();
@@ -0,0 +1,385 @@
+/**
+ * Market Sentiment Service
+ *
+ * Replaces the random dashboard sentiment with a weighted composite of market internals:
+ *
+ * - Advance/decline: advancers vs decliners in the bulk snapshot
+ * - Trend breadth: % of stocks above their 20- and 50-day averages (historical bar cache)
+ * - New highs vs new lows over the cached lookback
+ * - VIX level and intraday change
+ * - Put/call volume from SPY and QQQ option chain snapshots, refreshed in the background every
+ *   5 minutes of the session (the chains are many pages); requests read the last reading
+ *
+ * Each component is scored 0 (bearish) to 1 (bullish) and returned with its raw reading, so the
+ * dashboard can show why the score is what it is. Components whose inputs are unavailable are
+ * dropped and the remaining weights re-normalised.
+ */
+
+import { DateTime } from 'luxon';
+import type { MarketSentiment, SentimentComponent, SentimentComponentKey } from '@shared/schema';
+import { batchDataService } from './batchDataService';
+import { historicalDataCache } from './historicalDataCache';
+import { polygonService } from './polygonService';
+import { marketCalendar } from './marketCalendar';
+
+const BREADTH_TTL_MS = 60 * 1000;
+const PUT_CALL_REFRESH_MS = 5 * 60 * 1000;
+const EXCHANGE_TZ = 'America/New_York';
+
+// Universe filter (same liquidity floor as the regime breadth)
+const MIN_PRICE = 5;
+const MIN_VOLUME = 100000;
+const MIN_UNIVERSE = 100;
+
+const HIGH_LOW_LOOKBACK = 50; // Sessions; shorter cache windows use what they have (at least 20)
+const PUT_CALL_UNDERLYINGS = ['SPY', 'QQQ'];
+const PUT_CALL_EXPIRY_DAYS = 14; // Near-dated contracts carry almost all of the day's volume
+
+const WEIGHTS: Record<SentimentComponentKey, number> = {
+  advance_decline: 0.2,
+  above_sma20: 0.15,
+  above_sma50: 0.15,
+  highs_lows: 0.15,
+  vix: 0.2,
+  put_call: 0.15,
+};
+
+const LABELS: Record<SentimentComponentKey, string> = {
+  advance_decline: 'Advance / Decline',
+  above_sma20: 'Above 20-day avg',
+  above_sma50: 'Above 50-day avg',
+  highs_lows: 'New highs vs lows',
+  vix: 'VIX',
+  put_call: 'Put/Call volume',
+};
+
+export interface VixReading {
+  value: number;
+  changePercent: number;
+}
+
+interface BreadthReadings {
+  advancers: number;
+  decliners: number;
+  above20: number;
+  sma20Count: number;
+  above50: number;
+  sma50Count: number;
+  newHighs: number;
+  newLows: number;
+  highLowCount: number;
+  highLowLookback: number;
+}
+
+interface PutCallReading {
+  putVolume: number;
+  callVolume: number;
+}
+
+export function sentimentLabel(score: number): string {
+  if (score >= 0.7) return 'Very Bullish';
+  if (score >= 0.55) return 'Bullish';
+  if (score > 0.45) return 'Neutral';
+  if (score > 0.3) return 'Bearish';
+  return 'Very Bearish';
+}
+
+export class MarketSentimentService {
+  private static instance: MarketSentimentService | null = null;
+  private breadth: BreadthReadings | null = null;
+  private breadthExpiresAt = 0;
+  private breadthPromise: Promise<BreadthReadings | null> | null = null;
+  private putCall: PutCallReading | null = null;
+  private putCallInterval: NodeJS.Timeout | null = null;
+  private isRefreshingPutCall = false;
+
+  private constructor() {}
+
+  static getInstance(): MarketSentimentService {
+    if (!MarketSentimentService.instance) {
+      MarketSentimentService.instance = new MarketSentimentService();
+    }
+    return MarketSentimentService.instance;
+  }
+
+  /**
+   * Load a put/call reading and keep it fresh during the session
+   */
+  start(): void {
+    if (this.putCallInterval) return;
+    this.putCallInterval = setInterval(() => {
+      if (!marketCalendar.isMarketOpen()) return;
+      this.refreshPutCall();
+    }, PUT_CALL_REFRESH_MS);
+
+    // One load at startup (the last session's volume outside market hours) so there is a value to serve
+    this.refreshPutCall();
+  }
+
+  stop(): void {
+    if (this.putCallInterval) {
+      clearInterval(this.putCallInterval);
+      this.putCallInterval = null;
+    }
+  }
+
+  /**
+   * Composite sentiment for the market overview. VIX comes from the caller, which already
+   * has the live index quote; breadth is cached and put/call is the last background reading.
+   */
+  async getSentiment(vix: VixReading | null): Promise<MarketSentiment> {
+    const breadth = await this.getBreadth().catch(error => {
+      console.error('❌ Sentiment breadth failed:', error.message);
+      return null;
+    });
+    const putCall = this.putCall;
+
+    const components: SentimentComponent[] = [
+      this.advanceDeclineComponent(breadth),
+      this.aboveAverageComponent('above_sma20', breadth?.above20 ?? 0, breadth?.sma20Count ?? 0),
+      this.aboveAverageComponent('above_sma50', breadth?.above50 ?? 0, breadth?.sma50Count ?? 0),
+      this.highsLowsComponent(breadth),
+      this.vixComponent(vix),
+      this.putCallComponent(putCall),
+    ];
+
+    const available = components.filter(c => c.score !== null);
+    const totalWeight = available.reduce((sum, c) => sum + WEIGHTS[c.key], 0);
+    for (const component of components) {
+      component.weight = component.score !== null && totalWeight > 0 ? this.round(WEIGHTS[component.key] / totalWeight, 3) : 0;
+    }
+
+    const score = totalWeight > 0
+      ? available.reduce((sum, c) => sum + c.score! * WEIGHTS[c.key], 0) / totalWeight
+      : 0.5;
+
+    return {
+      score: this.round(score, 3),
+      label: available.length > 0 ? sentimentLabel(score) : 'Unknown',
+      components,
+      computedAt: new Date().toISOString(),
+    };
+  }
+
+  private advanceDeclineComponent(breadth: BreadthReadings | null): SentimentComponent {
+    const moving = breadth ? breadth.advancers + breadth.decliners : 0;
+    if (!breadth || moving < MIN_UNIVERSE) {
+      return this.unavailable('advance_decline', 'Bulk snapshot unavailable');
+    }
+    return {
+      key: 'advance_decline',
+      label: LABELS.advance_decline,
+      value: breadth.decliners > 0 ? this.round(breadth.advancers / breadth.decliners) : null,
+      score: this.round(breadth.advancers / moving, 3),
+      weight: 0,
+      detail: `${breadth.advancers.toLocaleString()} advancing / ${breadth.decliners.toLocaleString()} declining`,
+    };
+  }
+
+  private aboveAverageComponent(key: 'above_sma20' | 'above_sma50', above: number, count: number): SentimentComponent {
+    if (count < MIN_UNIVERSE) {
+      return this.unavailable(key, 'Not enough cached history');
+    }
+    const pct = (above / count) * 100;
+    return {
+      key,
+      label: LABELS[key],
+      value: this.round(pct, 1),
+      score: this.round(pct / 100, 3),
+      weight: 0,
+      detail: `${pct.toFixed(0)}% of ${count.toLocaleString()} stocks`,
+    };
+  }
+
+  private highsLowsComponent(breadth: BreadthReadings | null): SentimentComponent {
+    if (!breadth || breadth.highLowCount < MIN_UNIVERSE) {
+      return this.unavailable('highs_lows', 'Not enough cached history');
+    }
+    const total = breadth.newHighs + breadth.newLows;
+    return {
+      key: 'highs_lows',
+      label: LABELS.highs_lows,
+      value: total > 0 ? breadth.newHighs - breadth.newLows : 0,
+      score: total > 0 ? this.round(breadth.newHighs / total, 3) : 0.5,
+      weight: 0,
+      detail: `${breadth.newHighs} new ${breadth.highLowLookback}-day highs / ${breadth.newLows} lows`,
+    };
+  }
+
+  /**
+   * VIX 12 or below scores fully bullish, 30 or above fully bearish; a rising VIX drags the score down
+   */
+  private vixComponent(vix: VixReading | null): SentimentComponent {
+    if (!vix || !Number.isFinite(vix.value) || vix.value <= 0) {
+      return this.unavailable('vix', 'VIX quote unavailable');
+    }
+    const change = Number.isFinite(vix.changePercent) ? vix.changePercent : 0;
+    const levelScore = this.clamp((30 - vix.value) / 18);
+    const changeScore = this.clamp(0.5 - change / 20);
+    return {
+      key: 'vix',
+      label: LABELS.vix,
+      value: this.round(vix.value),
+      score: this.round(levelScore * 0.7 + changeScore * 0.3, 3),
+      weight: 0,
+      detail: `${vix.value.toFixed(2)} (${change >= 0 ? '+' : ''}${change.toFixed(2)}%)`,
+    };
+  }
+
+  /**
+   * Put/call volume ratio of 0.4 or below scores fully bullish, 1.2 or above fully bearish
+   */
+  private putCallComponent(putCall: PutCallReading | null): SentimentComponent {
+    if (!putCall || putCall.callVolume <= 0) {
+      return this.unavailable('put_call', 'Option volume unavailable');
+    }
+    const ratio = putCall.putVolume / putCall.callVolume;
+    return {
+      key: 'put_call',
+      label: LABELS.put_call,
+      value: this.round(ratio),
+      score: this.round(this.clamp((1.2 - ratio) / 0.8), 3),
+      weight: 0,
+      detail: `${PUT_CALL_UNDERLYINGS.join('+')}: ${putCall.putVolume.toLocaleString()} puts / ${putCall.callVolume.toLocaleString()} calls`,
+    };
+  }
+
+  private unavailable(key: SentimentComponentKey, detail: string): SentimentComponent {
+    return { key, label: LABELS[key], value: null, score: null, weight: 0, detail };
+  }
+
+  private async getBreadth(): Promise<BreadthReadings | null> {
+    if (this.breadth && Date.now() < this.breadthExpiresAt) {
+      return this.breadth;
+    }
+    if (!this.breadthPromise) {
+      this.breadthPromise = this.computeBreadth()
+        .then(readings => {
+          this.breadth = readings;
+          this.breadthExpiresAt = Date.now() + BREADTH_TTL_MS;
+          return readings;
+        })
+        .finally(() => {
+          this.breadthPromise = null;
+        });
+    }
+    return this.breadthPromise;
+  }
+
+  /**
+   * Advance/decline from the bulk snapshot; averages and highs/lows compare the snapshot
+   * price against cached bars from sessions before the snapshot's own session
+   */
+  private async computeBreadth(): Promise<BreadthReadings | null> {
+    const universe = await batchDataService.getStockUniverse();
+    if (universe.length === 0) return null;
+
+    const cacheReady = historicalDataCache.isReady();
+    const sessionStarts = new Map<number, number>();
+    const readings: BreadthReadings = {
+      advancers: 0,
+      decliners: 0,
+      above20: 0,
+      sma20Count: 0,
+      above50: 0,
+      sma50Count: 0,
+      newHighs: 0,
+      newLows: 0,
+      highLowCount: 0,
+      highLowLookback: 0,
+    };
+
+    for (const stock of universe) {
+      if (!Number.isFinite(stock.price) || stock.price < MIN_PRICE || stock.volume < MIN_VOLUME) continue;
+      if (stock.changePercent > 0) readings.advancers++;
+      else if (stock.changePercent < 0) readings.decliners++;
+
+      if (!cacheReady) continue;
+      const bars = historicalDataCache.getHistoricalBars(stock.ticker);
+      if (!bars || bars.length < 20) continue;
+
+      let sessionStart = sessionStarts.get(stock.timestamp);
+      if (sessionStart === undefined) {
+        sessionStart = DateTime.fromMillis(stock.timestamp, { zone: EXCHANGE_TZ }).startOf('day').toMillis();
+        sessionStarts.set(stock.timestamp, sessionStart);
+      }
+      let end = bars.length;
+      while (end > 0 && bars[end - 1].timestamp >= sessionStart) end--;
+      if (end < 20) continue;
+
+      readings.sma20Count++;
+      if (stock.price > this.averageClose(bars, end, 20)) readings.above20++;
+      if (end >= 50) {
+        readings.sma50Count++;
+        if (stock.price > this.averageClose(bars, end, 50)) readings.above50++;
+      }
+
+      const lookback = Math.min(end, HIGH_LOW_LOOKBACK);
+      let high = -Infinity;
+      let low = Infinity;
+      for (let i = end - lookback; i < end; i++) {
+        high = Math.max(high, bars[i].high);
+        low = Math.min(low, bars[i].low);
+      }
+      readings.highLowCount++;
+      readings.highLowLookback = Math.max(readings.highLowLookback, lookback);
+      if (stock.price > high) readings.newHighs++;
+      else if (stock.price < low) readings.newLows++;
+    }
+
+    console.log(`🧭 Sentiment breadth: ${readings.advancers} adv / ${readings.decliners} dec, ${readings.above20}/${readings.sma20Count} above SMA20, ${readings.newHighs} highs / ${readings.newLows} lows`);
+    return readings;
+  }
+
+  /**
+   * Recompute put/call volume; a failed or empty refresh keeps the last reading
+   */
+  private async refreshPutCall(): Promise<void> {
+    if (this.isRefreshingPutCall) return;
+    this.isRefreshingPutCall = true;
+    try {
+      const reading = await this.computePutCall();
+      if (reading) this.putCall = reading;
+    } catch (error: any) {
+      console.error('❌ Sentiment put/call refresh failed:', error.message);
+    } finally {
+      this.isRefreshingPutCall = false;
+    }
+  }
+
+  private async computePutCall(): Promise<PutCallReading | null> {
+    const maxExpiry = DateTime.now().setZone(EXCHANGE_TZ).plus({ days: PUT_CALL_EXPIRY_DAYS }).toISODate()!;
+    const reading: PutCallReading = { putVolume: 0, callVolume: 0 };
+
+    for (const underlying of PUT_CALL_UNDERLYINGS) {
+      const contracts = await polygonService.getOptionChainSnapshot(underlying, maxExpiry);
+      for (const contract of contracts) {
+        const volume = Number(contract?.day?.volume) || 0;
+        if (volume <= 0) continue;
+        if (contract?.details?.contract_type === 'put') reading.putVolume += volume;
+        else if (contract?.details?.contract_type === 'call') reading.callVolume += volume;
+      }
+    }
+
+    if (reading.putVolume + reading.callVolume === 0) return null;
+    console.log(`🧭 Put/call volume: ${reading.putVolume.toLocaleString()} puts / ${reading.callVolume.toLocaleString()} calls`);
+    return reading;
+  }
+
+  private averageClose(bars: { close: number }[], end: number, period: number): number {
+    let sum = 0;
+    for (let i = end - period; i < end; i++) sum += bars[i].close;
+    return sum / period;
+  }
+
+  private clamp(value: number): number {
+    return Math.max(0, Math.min(1, value));
+  }
+
+  private round(value: number, digits: number = 2): number {
+    const factor = Math.pow(10, digits);
+    return Math.round(value * factor) / factor;
+  }
+}
+
+export const marketSentimentService = MarketSentimentService.getInstance();
@@ -4,16 +4,22 @@
  * Centralized service to detect if the US stock market is currently open.
  * Caches status and refreshes periodically to avoid redundant calculations.
  * 
- * Market Hours: 9:30 AM - 4:00 PM ET (Mon-Fri)
+ * Market Hours: 9:30 AM - 4:00 PM ET (Mon-Fri), 1:00 PM ET on early-close days.
+ * Holidays and early closes come from the exchange calendar (marketCalendar).
  */
 
+import { marketCalendar } from './marketCalendar';
+
 export interface MarketStatus {
   isOpen: boolean;
   currentTime: Date;
   marketOpenTime: string; // "09:30"
-  marketCloseTime: string; // "16:00"
+  marketCloseTime: string; // "16:00" ("13:00" on early-close days)
   nextOpenTime?: Date;
   nextCloseTime?: Date;
+  isHoliday: boolean;
+  isEarlyClose: boolean;
+  holidayName?: string;
 }
 
 export class MarketStatusService {
@@ -22,9 +28,6 @@ export class MarketStatusService {
   private lastCheckTime: number = 0;
   private readonly CACHE_DURATION_MS = 60_000; // 60 seconds
   
-  private readonly MARKET_OPEN_MINUTES = 9 * 60 + 30; // 9:30 AM = 570 minutes
-  private readonly MARKET_CLOSE_MINUTES = 16 * 60; // 4:00 PM = 960 minutes
-  
   private constructor() {
     // Start auto-refresh
     this.startAutoRefresh();
@@ -79,73 +82,30 @@ export class MarketStatusService {
   refreshStatus(): void {
     const now = new Date();
     
-    // Get current time in ET timezone using a single formatter for consistency
-    const etTimeString = now.toLocaleString('en-US', {
-      timeZone: 'America/New_York',
-      hour12: false,
-      hour: '2-digit',
-      minute: '2-digit'
-    });
-    
-    // Parse "HH:MM" format
-    const [hourStr, minuteStr] = etTimeString.split(':');
-    const hour = parseInt(hourStr, 10);
-    const minute = parseInt(minuteStr, 10);
-    const timeInMinutes = hour * 60 + minute;
+    // Session for today's exchange date (null on weekends and holidays)
+    const dayInfo = marketCalendar.getTradingDayInfo(now);
+    const session = marketCalendar.getSession(now);
     
-    // Check if it's a weekday in ET timezone
-    const dayOfWeek = now.toLocaleDateString('en-US', { 
-      timeZone: 'America/New_York', 
-      weekday: 'short' 
-    });
-    const isWeekday = !['Sat', 'Sun'].includes(dayOfWeek);
-    
-    // Market is open if: weekday AND between 9:30 AM - 4:00 PM ET
-    const isOpen = isWeekday && 
-                   timeInMinutes >= this.MARKET_OPEN_MINUTES && 
-                   timeInMinutes < this.MARKET_CLOSE_MINUTES;
+    // Market is open if: trading day AND between open and (possibly early) close
+    const isOpen = session !== null &&
+                   now.getTime() >= session.open.getTime() &&
+                   now.getTime() < session.close.getTime();
     
     this.cachedStatus = {
       isOpen,
       currentTime: now,
-      marketOpenTime: '09:30',
-      marketCloseTime: '16:00',
-      nextOpenTime: this.calculateNextOpenTime(now),
-      nextCloseTime: isOpen ? this.calculateNextCloseTime(now) : undefined
+      marketOpenTime: dayInfo.openTime ?? '09:30',
+      marketCloseTime: dayInfo.closeTime ?? '16:00',
+      nextOpenTime: marketCalendar.getNextSession(now).open,
+      nextCloseTime: isOpen ? session!.close : undefined,
+      isHoliday: dayInfo.isHoliday,
+      isEarlyClose: dayInfo.isEarlyClose,
+      holidayName: dayInfo.holidayName
     };
     
     this.lastCheckTime = Date.now();
   }
   
-  /**
-   * Calculate next market open time
-   */
-  private calculateNextOpenTime(now: Date): Date {
-    const nextOpen = new Date(now);
-    nextOpen.setHours(9, 30, 0, 0);
-    
-    // If market already opened today, move to next weekday
-    if (now.getHours() >= 16 || now.getDay() === 0 || now.getDay() === 6) {
-      nextOpen.setDate(nextOpen.getDate() + 1);
-      
-      // Skip weekend
-      while (nextOpen.getDay() === 0 || nextOpen.getDay() === 6) {
-        nextOpen.setDate(nextOpen.getDate() + 1);
-      }
-    }
-    
-    return nextOpen;
-  }
-  
-  /**
-   * Calculate next market close time (today at 4:00 PM ET)
-   */
-  private calculateNextCloseTime(now: Date): Date {
-    const nextClose = new Date(now);
-    nextClose.setHours(16, 0, 0, 0);
-    return nextClose;
-  }
-  
   /**
    * Auto-refresh status every 60 seconds
    */
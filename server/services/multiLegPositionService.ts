@@ -0,0 +1,343 @@
+import type { PortfolioPosition, Greeks, PositionLeg, MultiLegPosition, MultiLegStrategyType } from '@shared/schema';
+import { getContractMultiplier } from '@shared/constants';
+import { BlackScholesCalculator } from './financialCalculations';
+
+/**
+ * Broker positions arrive one row per leg. This service groups the legs held on the
+ * same underlying (per broker) into a single strategy, recognises the common
+ * structures and computes combined Greeks, max profit/loss and breakevens.
+ *
+ * Payoff is evaluated at the front-month expiry: legs expiring then are worth
+ * intrinsic value, later-dated legs (calendars) are valued with Black-Scholes at
+ * their implied volatility.
+ */
+
+const RISK_FREE_RATE = 0.05;
+const DEFAULT_IV = 0.30;
+const MS_PER_YEAR = 365 * 24 * 60 * 60 * 1000;
+const PAYOFF_GRID_STEPS = 400;
+
+const STRATEGY_NAMES: Record<MultiLegStrategyType, string> = {
+  single: 'Single',
+  vertical: 'Vertical',
+  calendar: 'Calendar',
+  straddle: 'Straddle',
+  strangle: 'Strangle',
+  iron_condor: 'Iron Condor',
+  covered_call: 'Covered Call',
+  custom: 'Custom',
+};
+
+// Broker rows carry extra fields beyond the table columns (see TastytradeService.fetchPositions)
+type BrokerPosition = PortfolioPosition & {
+  tastytradeData?: { symbol?: string; multiplier?: number };
+};
+
+const ZERO_GREEKS: Greeks = { delta: 0, gamma: 0, theta: 0, vega: 0, rho: 0 };
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Options stop trading at 4:00 PM ET
+const expiryTime = (expiry: string) => new Date(`${expiry}T20:00:00Z`).getTime();
+
+export class MultiLegPositionService {
+
+  /**
+   * Group open broker positions into strategies
+   * @param underlyingPrices - Latest underlying price per ticker
+   */
+  groupPositions(
+    positions: BrokerPosition[],
+    underlyingPrices: Map<string, number>,
+    now: Date = new Date()
+  ): MultiLegPosition[] {
+    const groups = new Map<string, BrokerPosition[]>();
+
+    for (const position of positions) {
+      if (position.status && position.status !== 'open') continue;
+      if (!position.quantity) continue;
+      const key = `${position.broker || 'tastytrade'}:${position.ticker}`;
+      const group = groups.get(key) || [];
+      group.push(position);
+      groups.set(key, group);
+    }
+
+    return Array.from(groups.entries())
+      .map(([key, group]) => this.buildGroup(key, group, underlyingPrices.get(group[0].ticker) ?? null, now))
+      .sort((a, b) => Math.abs(b.netCost) - Math.abs(a.netCost));
+  }
+
+  private buildGroup(
+    id: string,
+    group: BrokerPosition[],
+    underlyingPrice: number | null,
+    now: Date
+  ): MultiLegPosition {
+    const legs = group
+      .map(position => this.toLeg(position, underlyingPrice, now))
+      .sort((a, b) =>
+        (a.expiry || '').localeCompare(b.expiry || '') ||
+        (a.strike ?? 0) - (b.strike ?? 0) ||
+        (a.optionType || '').localeCompare(b.optionType || '')
+      );
+
+    const strategy = this.classify(legs);
+
+    const netCost = legs.reduce((sum, leg) => sum + leg.quantity * leg.multiplier * leg.avgCost, 0);
+    const currentValue = legs.reduce((sum, leg) => sum + leg.quantity * leg.multiplier * leg.currentPrice, 0);
+    const unrealizedPnL = currentValue - netCost;
+
+    const greeks = legs.reduce((sum, leg) => ({
+      delta: sum.delta + leg.greeks.delta,
+      gamma: sum.gamma + leg.greeks.gamma,
+      theta: sum.theta + leg.greeks.theta,
+      vega: sum.vega + leg.greeks.vega,
+      rho: sum.rho + leg.greeks.rho,
+    }), { ...ZERO_GREEKS });
+
+    const expiries = legs.map(leg => leg.expiry).filter((e): e is string => !!e).sort();
+    const frontExpiry = expiries[0] || null;
+    const payoff = this.analyzePayoff(legs, netCost, frontExpiry, underlyingPrice, now);
+
+    return {
+      id,
+      ticker: group[0].ticker,
+      broker: group[0].broker || 'tastytrade',
+      strategy,
+      label: this.buildLabel(strategy, legs),
+      legs,
+      underlyingPrice,
+      netCost: round2(netCost),
+      currentValue: round2(currentValue),
+      unrealizedPnL: round2(unrealizedPnL),
+      unrealizedPnLPercent: netCost !== 0 ? round2((unrealizedPnL / Math.abs(netCost)) * 100) : 0,
+      greeks: {
+        delta: round2(greeks.delta),
+        gamma: round2(greeks.gamma),
+        theta: round2(greeks.theta),
+        vega: round2(greeks.vega),
+        rho: round2(greeks.rho),
+      },
+      maxProfit: payoff.maxProfit,
+      maxLoss: payoff.maxLoss,
+      breakevens: payoff.breakevens,
+      expiry: frontExpiry,
+      daysToExpiry: frontExpiry
+        ? Math.max(0, Math.ceil((expiryTime(frontExpiry) - now.getTime()) / (24 * 60 * 60 * 1000)))
+        : null,
+    };
+  }
+
+  /**
+   * Normalise a broker row into a signed leg with position-level Greeks
+   */
+  private toLeg(position: BrokerPosition, underlyingPrice: number | null, now: Date): PositionLeg {
+    const metadata = (position.metadata || {}) as Record<string, any>;
+    const isOption = position.positionType === 'options' && metadata.strike != null;
+    const quantity = position.quantity;
+    const currentPrice = position.currentPrice ?? position.avgCost;
+
+    if (!isOption) {
+      return {
+        positionId: position.id,
+        symbol: position.ticker,
+        instrument: 'stock',
+        optionType: null,
+        strike: null,
+        expiry: null,
+        quantity,
+        multiplier: 1,
+        avgCost: position.avgCost,
+        currentPrice,
+        impliedVolatility: null,
+        greeks: { ...ZERO_GREEKS, delta: quantity },
+      };
+    }
+
+    const optionType: 'call' | 'put' = String(metadata.optionType).toLowerCase() === 'put' ? 'put' : 'call';
+    const strike = Number(metadata.strike);
+    const expiry: string = String(metadata.expiry || metadata.expiryDate).substring(0, 10);
+    const multiplier = position.tastytradeData?.multiplier || getContractMultiplier('options');
+    const T = Math.max(0, (expiryTime(expiry) - now.getTime()) / MS_PER_YEAR);
+
+    let impliedVolatility: number | null = null;
+    let greeks = { ...ZERO_GREEKS };
+
+    if (underlyingPrice && underlyingPrice > 0) {
+      if (T > 0 && currentPrice > 0) {
+        impliedVolatility = BlackScholesCalculator.calculateImpliedVolatility(
+          currentPrice, underlyingPrice, strike, T, RISK_FREE_RATE, optionType
+        );
+      }
+      const perShare = BlackScholesCalculator.calculateGreeks(
+        underlyingPrice, strike, T, RISK_FREE_RATE, impliedVolatility ?? DEFAULT_IV, optionType
+      );
+      const scale = quantity * multiplier;
+      greeks = {
+        delta: perShare.delta * scale,
+        gamma: perShare.gamma * scale,
+        theta: perShare.theta * scale,
+        vega: perShare.vega * scale,
+        rho: perShare.rho * scale,
+      };
+    }
+
+    return {
+      positionId: position.id,
+      symbol: position.tastytradeData?.symbol || null,
+      instrument: 'option',
+      optionType,
+      strike,
+      expiry,
+      quantity,
+      multiplier,
+      avgCost: position.avgCost,
+      currentPrice,
+      impliedVolatility,
+      greeks,
+    };
+  }
+
+  private classify(legs: PositionLeg[]): MultiLegStrategyType {
+    if (legs.length === 1) return 'single';
+
+    const options = legs.filter(leg => leg.instrument === 'option');
+    const stock = legs.filter(leg => leg.instrument === 'stock');
+
+    if (stock.length > 0) {
+      const shares = stock.reduce((sum, leg) => sum + leg.quantity, 0);
+      const callShares = options.reduce((sum, leg) => sum + Math.abs(leg.quantity) * leg.multiplier, 0);
+      const isCovered = stock.length === 1 && options.length > 0 &&
+        options.every(leg => leg.optionType === 'call' && leg.quantity < 0) &&
+        callShares <= shares;
+      return isCovered ? 'covered_call' : 'custom';
+    }
+
+    // Named structures are equal-sized on every leg
+    const size = Math.abs(options[0].quantity);
+    if (!options.every(leg => Math.abs(leg.quantity) === size)) return 'custom';
+
+    if (options.length === 2) {
+      const [a, b] = options;
+      const opposite = Math.sign(a.quantity) !== Math.sign(b.quantity);
+
+      if (a.optionType === b.optionType && opposite) {
+        if (a.expiry === b.expiry && a.strike !== b.strike) return 'vertical';
+        if (a.strike === b.strike && a.expiry !== b.expiry) return 'calendar';
+      }
+      if (a.optionType !== b.optionType && !opposite && a.expiry === b.expiry) {
+        return a.strike === b.strike ? 'straddle' : 'strangle';
+      }
+      return 'custom';
+    }
+
+    if (options.length === 4) {
+      const puts = options.filter(leg => leg.optionType === 'put').sort((a, b) => a.strike! - b.strike!);
+      const calls = options.filter(leg => leg.optionType === 'call').sort((a, b) => a.strike! - b.strike!);
+      const sameExpiry = options.every(leg => leg.expiry === options[0].expiry);
+
+      // Put vertical below a call vertical, inner strikes on the same side (short or long condor)
+      if (
+        sameExpiry && puts.length === 2 && calls.length === 2 &&
+        Math.sign(puts[0].quantity) !== Math.sign(puts[1].quantity) &&
+        Math.sign(calls[0].quantity) !== Math.sign(calls[1].quantity) &&
+        Math.sign(puts[1].quantity) === Math.sign(calls[0].quantity) &&
+        puts[1].strike! <= calls[0].strike!
+      ) {
+        return 'iron_condor';
+      }
+    }
+
+    return 'custom';
+  }
+
+  private buildLabel(strategy: MultiLegStrategyType, legs: PositionLeg[]): string {
+    const formatExpiry = (expiry: string | null) => expiry
+      ? new Date(`${expiry}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })
+      : '';
+    const options = legs.filter(leg => leg.instrument === 'option');
+
+    if (options.length === 0) {
+      const shares = legs.reduce((sum, leg) => sum + leg.quantity, 0);
+      return `${shares} shares`;
+    }
+
+    if (strategy === 'single') {
+      const [leg] = options;
+      return `${leg.quantity > 0 ? 'Long' : 'Short'} ${leg.strike}${leg.optionType === 'call' ? 'C' : 'P'} ${formatExpiry(leg.expiry)}`;
+    }
+
+    const strikes = Array.from(new Set(options.map(leg => leg.strike))).sort((a, b) => a! - b!).join('/');
+    const expiries = Array.from(new Set(options.map(leg => formatExpiry(leg.expiry)))).join('/');
+
+    let name = STRATEGY_NAMES[strategy];
+    if (strategy === 'vertical') {
+      name = `${options[0].optionType === 'call' ? 'Call' : 'Put'} Vertical`;
+    } else if (strategy === 'straddle' || strategy === 'strangle' || strategy === 'iron_condor') {
+      name = `${options.find(leg => leg.optionType === 'call')!.quantity > 0 ? 'Long' : 'Short'} ${name}`;
+    }
+
+    return `${name} ${strikes} ${expiries}`;
+  }
+
+  /**
+   * P/L across underlying prices at the front-month expiry
+   */
+  private analyzePayoff(
+    legs: PositionLeg[],
+    netCost: number,
+    frontExpiry: string | null,
+    underlyingPrice: number | null,
+    now: Date
+  ): { maxProfit: number | null; maxLoss: number | null; breakevens: number[] } {
+    const strikes = legs.map(leg => leg.strike).filter((k): k is number => k !== null);
+    const upper = Math.max(underlyingPrice ?? 0, ...strikes, 1) * 2;
+    const frontTime = frontExpiry ? expiryTime(frontExpiry) : now.getTime();
+
+    const pnlAt = (price: number) => legs.reduce((sum, leg) => {
+      return sum + leg.quantity * leg.multiplier * this.legValueAt(leg, price, frontTime);
+    }, 0) - netCost;
+
+    const grid = Array.from(new Set([
+      0,
+      ...strikes,
+      ...Array.from({ length: PAYOFF_GRID_STEPS + 1 }, (_, i) => (upper * i) / PAYOFF_GRID_STEPS),
+    ])).sort((a, b) => a - b);
+    const values = grid.map(pnlAt);
+
+    // Beyond the highest strike only calls and stock keep moving with the underlying
+    const tailSlope = legs.reduce((sum, leg) =>
+      sum + (leg.instrument === 'stock' || leg.optionType === 'call' ? leg.quantity * leg.multiplier : 0), 0);
+
+    const maxProfit = tailSlope > 0 ? null : round2(Math.max(...values));
+    const maxLoss = tailSlope < 0 ? null : round2(Math.max(0, -Math.min(...values)));
+
+    const breakevens: number[] = [];
+    for (let i = 1; i < grid.length; i++) {
+      const prev = values[i - 1];
+      const curr = values[i];
+      if ((prev < 0 && curr >= 0) || (prev > 0 && curr <= 0)) {
+        const price = round2(grid[i - 1] + ((grid[i] - grid[i - 1]) * prev) / (prev - curr));
+        if (!breakevens.includes(price)) breakevens.push(price);
+      }
+    }
+
+    return { maxProfit, maxLoss, breakevens };
+  }
+
+  private legValueAt(leg: PositionLeg, price: number, atTime: number): number {
+    if (leg.instrument === 'stock') return price;
+
+    const T = Math.max(0, (expiryTime(leg.expiry!) - atTime) / MS_PER_YEAR);
+    return BlackScholesCalculator.calculateOptionPrice(
+      Math.max(price, 0.01),
+      leg.strike!,
+      T,
+      RISK_FREE_RATE,
+      leg.impliedVolatility ?? DEFAULT_IV,
+      leg.optionType!
+    );
+  }
+}
+
+export const multiLegPositionService = new MultiLegPositionService();
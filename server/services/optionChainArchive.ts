@@ -0,0 +1,436 @@
+/**
+ * Option Chain Archive
+ *
+ * Point-in-time option chains for backtests. At the configured times on trading days
+ * the full Polygon chain snapshot (bid, ask, last, volume, OI, IV, Greeks) of every
+ * underlying in the universe is written to a gzipped file:
+ *
+ *   server/cache/option-chains/<UNDERLYING>/<YYYY-MM-DD>/<HHmm>.json.gz
+ *
+ * Contracts are stored as rows under a shared field list to keep files small. Lookups
+ * are point-in-time: asking for a time returns the latest snapshot taken at or before
+ * it, never a later one. `BacktestEngine` replays these premiums and only falls back to
+ * Black-Scholes when a day or contract is missing.
+ * Configuration lives in `app_config` under `option_chain_archive`.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import { gzip, gunzip } from 'zlib';
+import { DateTime } from 'luxon';
+import { db } from '../db';
+import {
+  appConfig,
+  recommendationTracking,
+  watchlistItems,
+  type ArchivedOptionContract,
+  type OptionChainArchiveConfig,
+  type OptionChainSnapshot,
+  type OptionChainSnapshotInfo,
+} from '@shared/schema';
+import { eq, sql } from 'drizzle-orm';
+import { polygonService } from './polygonService';
+import { marketCalendar } from './marketCalendar';
+import { storage } from '../storage';
+import { normalizeOptionSymbol } from '../utils/optionSymbols';
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+const CONFIG_KEY = 'option_chain_archive';
+const EXCHANGE_TZ = 'America/New_York';
+const ARCHIVE_DIR = process.env.OPTION_CHAIN_ARCHIVE_DIR || path.resolve(process.cwd(), 'server', 'cache', 'option-chains');
+const FORMAT_VERSION = 1;
+
+// Underlyings and dates become directory names and Polygon URL segments, so nothing else gets through
+export const TICKER_PATTERN = /^[A-Z][A-Z0-9.]{0,9}$/;
+export const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const DEFAULT_CONFIG: OptionChainArchiveConfig = {
+  enabled: true,
+  times: ['10:00', '15:45'],
+  symbols: ['SPY', 'QQQ', 'IWM', 'AAPL', 'NVDA', 'TSLA', 'AMD', 'META', 'MSFT'],
+  includeScannerUniverse: true,
+  maxDte: 60,
+};
+
+// Column order of the stored rows
+const CONTRACT_FIELDS: (keyof ArchivedOptionContract)[] = [
+  'symbol', 'optionType', 'strike', 'expiry', 'bid', 'ask', 'last',
+  'volume', 'openInterest', 'iv', 'delta', 'gamma', 'theta', 'vega',
+];
+
+interface ArchiveFile {
+  v: number;
+  underlying: string;
+  capturedAt: string;
+  underlyingPrice: number | null;
+  fields: string[];
+  rows: unknown[][];
+}
+
+/**
+ * Invalid archive request (bad config, malformed date/time, capture already running)
+ */
+export class OptionChainArchiveError extends Error {
+  constructor(message: string, public readonly statusCode: 400 | 404 | 409 = 400) {
+    super(message);
+    this.name = 'OptionChainArchiveError';
+  }
+}
+
+export class OptionChainArchive {
+  private static instance: OptionChainArchive | null = null;
+  private config: OptionChainArchiveConfig = { ...DEFAULT_CONFIG, symbols: [...DEFAULT_CONFIG.symbols], times: [...DEFAULT_CONFIG.times] };
+  private captureTimeout: NodeJS.Timeout | null = null;
+  private isCapturing = false;
+
+  private constructor() {}
+
+  static getInstance(): OptionChainArchive {
+    if (!OptionChainArchive.instance) {
+      OptionChainArchive.instance = new OptionChainArchive();
+    }
+    return OptionChainArchive.instance;
+  }
+
+  /**
+   * Load saved settings and schedule the next capture
+   */
+  async start(): Promise<void> {
+    try {
+      const [row] = await db.select().from(appConfig).where(eq(appConfig.key, CONFIG_KEY)).limit(1);
+      if (row) {
+        this.config = this.validate(JSON.parse(row.value), DEFAULT_CONFIG);
+      }
+    } catch (error: any) {
+      console.warn('⚠️ Failed to load option chain archive settings, using defaults:', error.message);
+    }
+    this.scheduleNextCapture();
+  }
+
+  stop(): void {
+    if (this.captureTimeout) {
+      clearTimeout(this.captureTimeout);
+      this.captureTimeout = null;
+    }
+  }
+
+  getConfig(): OptionChainArchiveConfig {
+    return { ...this.config, symbols: [...this.config.symbols], times: [...this.config.times] };
+  }
+
+  /**
+   * Persist new settings (partial updates are merged onto the current config) and reschedule
+   */
+  async updateConfig(updates: Partial<OptionChainArchiveConfig>): Promise<OptionChainArchiveConfig> {
+    const next = this.validate(updates, this.config);
+    const value = JSON.stringify(next);
+
+    await db.insert(appConfig)
+      .values({
+        key: CONFIG_KEY,
+        value,
+        description: 'Option chain archive schedule and universe',
+        updatedAt: new Date()
+      })
+      .onConflictDoUpdate({
+        target: appConfig.key,
+        set: { value, updatedAt: new Date() }
+      });
+
+    this.config = next;
+    console.log(`🗄️ Option chain archive updated (${next.enabled ? next.times.join(', ') + ' ET' : 'disabled'})`);
+    this.scheduleNextCapture();
+    return this.getConfig();
+  }
+
+  /**
+   * Snapshot the chains of the given underlyings (default: the configured universe) now
+   */
+  async captureAll(symbols?: string[]): Promise<OptionChainSnapshotInfo[]> {
+    if (this.isCapturing) {
+      throw new OptionChainArchiveError('A chain capture is already running', 409);
+    }
+
+    this.isCapturing = true;
+    try {
+      const universe = symbols && symbols.length > 0
+        ? Array.from(new Set(symbols.map(s => this.assertTicker(s))))
+        : await this.getUniverse();
+      console.log(`🗄️ Archiving option chains for ${universe.length} underlying(s)...`);
+
+      const captured: OptionChainSnapshotInfo[] = [];
+      for (const underlying of universe) {
+        try {
+          const info = await this.captureUnderlying(underlying);
+          if (info) captured.push(info);
+        } catch (error: any) {
+          console.error(`❌ Option chain archive: ${underlying} failed:`, error.message);
+        }
+      }
+
+      console.log(`✅ Archived ${captured.length}/${universe.length} option chain(s)`);
+      return captured;
+    } finally {
+      this.isCapturing = false;
+    }
+  }
+
+  /**
+   * Underlyings with at least one archived snapshot
+   */
+  async listUnderlyings(): Promise<string[]> {
+    return (await this.readDir(ARCHIVE_DIR)).sort();
+  }
+
+  /**
+   * Archived snapshots of an underlying, optionally limited to one date, oldest first
+   */
+  async listSnapshots(underlying: string, date?: string): Promise<OptionChainSnapshotInfo[]> {
+    const ticker = this.assertTicker(underlying);
+    if (date) this.assertDate(date);
+
+    const dates = date
+      ? [date]
+      : (await this.readDir(this.archivePath(ticker))).filter(day => DATE_PATTERN.test(day)).sort();
+    const snapshots: OptionChainSnapshotInfo[] = [];
+    for (const day of dates) {
+      for (const time of await this.listTimes(ticker, day)) {
+        snapshots.push({ underlying: ticker, date: day, time });
+      }
+    }
+    return snapshots;
+  }
+
+  /**
+   * Latest snapshot of the day taken at or before `time` (HH:mm ET; default: end of day)
+   */
+  async getSnapshot(underlying: string, date: string, time?: string): Promise<OptionChainSnapshot | null> {
+    const ticker = this.assertTicker(underlying);
+    this.assertDate(date);
+    if (time !== undefined) this.assertTime(time);
+
+    const cutoff = time ?? '23:59';
+    const times = (await this.listTimes(ticker, date)).filter(t => t <= cutoff);
+    if (times.length === 0) return null;
+
+    return this.readSnapshot(ticker, date, times[times.length - 1]);
+  }
+
+  /**
+   * Next configured capture on a trading day, or null when disabled
+   */
+  getNextCaptureTime(): DateTime | null {
+    if (!this.config.enabled || this.config.times.length === 0) return null;
+
+    const now = DateTime.now().setZone(EXCHANGE_TZ);
+    for (let offset = 0; offset < 10; offset++) {
+      const day = now.plus({ days: offset });
+      if (!marketCalendar.isTradingDay(day.toFormat('yyyy-MM-dd'))) continue;
+
+      const upcoming = this.config.times
+        .map(time => {
+          const [hour, minute] = time.split(':').map(Number);
+          return day.set({ hour, minute, second: 0, millisecond: 0 });
+        })
+        .filter(at => at > now)
+        .sort((a, b) => a.toMillis() - b.toMillis());
+      if (upcoming.length > 0) return upcoming[0];
+    }
+    return null;
+  }
+
+  private scheduleNextCapture(): void {
+    this.stop();
+    const next = this.getNextCaptureTime();
+    if (!next) return;
+
+    console.log(`🗄️ Option chain archive: next capture ${next.setZone('America/Chicago').toFormat('ccc h:mm a')} CST`);
+    this.captureTimeout = setTimeout(async () => {
+      this.captureTimeout = null;
+      await this.captureAll().catch(error => {
+        console.error('❌ Option chain archive capture failed:', error.message);
+      });
+      this.scheduleNextCapture();
+    }, next.toMillis() - Date.now());
+  }
+
+  private async captureUnderlying(underlying: string): Promise<OptionChainSnapshotInfo | null> {
+    const maxExpiry = DateTime.now().setZone(EXCHANGE_TZ).plus({ days: this.config.maxDte }).toFormat('yyyy-MM-dd');
+    const results = await polygonService.getOptionChainSnapshot(underlying, maxExpiry);
+    // Stamped when this chain arrived; a run over a large universe spans several minutes
+    const now = DateTime.now().setZone(EXCHANGE_TZ);
+    if (results.length === 0) {
+      console.warn(`⚠️ Option chain archive: no contracts for ${underlying}`);
+      return null;
+    }
+
+    const chain = results
+      .map(result => this.toContract(result))
+      .filter((contract): contract is ArchivedOptionContract => contract !== null);
+    const underlyingPrice = results.find(r => r.underlying_asset?.price)?.underlying_asset.price ?? null;
+
+    const date = now.toFormat('yyyy-MM-dd');
+    const time = now.toFormat('HH:mm');
+    const file: ArchiveFile = {
+      v: FORMAT_VERSION,
+      underlying,
+      capturedAt: now.toUTC().toISO()!,
+      underlyingPrice,
+      fields: CONTRACT_FIELDS,
+      rows: chain.map(contract => CONTRACT_FIELDS.map(field => contract[field])),
+    };
+
+    const dir = this.archivePath(underlying, date);
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(path.join(dir, `${time.replace(':', '')}.json.gz`), await gzipAsync(JSON.stringify(file)));
+
+    console.log(`🗄️ ${underlying}: archived ${chain.length} contracts (${date} ${time} ET)`);
+    return { underlying, date, time };
+  }
+
+  private async readSnapshot(underlying: string, date: string, time: string): Promise<OptionChainSnapshot | null> {
+    try {
+      const raw = await fs.readFile(this.archivePath(underlying, date, `${time.replace(':', '')}.json.gz`));
+      const file: ArchiveFile = JSON.parse((await gunzipAsync(raw)).toString('utf8'));
+      const chain = file.rows.map(row =>
+        Object.fromEntries(file.fields.map((field, i) => [field, row[i] ?? null])) as unknown as ArchivedOptionContract
+      );
+      return { underlying, date, time, capturedAt: file.capturedAt, underlyingPrice: file.underlyingPrice, chain };
+    } catch (error: any) {
+      console.warn(`⚠️ Option chain archive: unreadable snapshot ${underlying} ${date} ${time}: ${error.message}`);
+      return null;
+    }
+  }
+
+  private toContract(result: any): ArchivedOptionContract | null {
+    const details = result?.details;
+    if (!details?.ticker || !details.strike_price || !details.expiration_date) return null;
+
+    const num = (value: unknown): number | null => (typeof value === 'number' && Number.isFinite(value) ? value : null);
+    return {
+      symbol: normalizeOptionSymbol(details.ticker),
+      optionType: details.contract_type === 'put' ? 'put' : 'call',
+      strike: details.strike_price,
+      expiry: details.expiration_date,
+      bid: num(result.last_quote?.bid),
+      ask: num(result.last_quote?.ask),
+      last: num(result.last_trade?.price) ?? num(result.day?.close),
+      volume: num(result.day?.volume),
+      openInterest: num(result.open_interest),
+      iv: num(result.implied_volatility),
+      delta: num(result.greeks?.delta),
+      gamma: num(result.greeks?.gamma),
+      theta: num(result.greeks?.theta),
+      vega: num(result.greeks?.vega),
+    };
+  }
+
+  /**
+   * Configured symbols plus, when enabled, what the scanner and users are currently following
+   */
+  private async getUniverse(): Promise<string[]> {
+    const symbols = new Set(this.config.symbols);
+    if (this.config.includeScannerUniverse) {
+      try {
+        const [topTrades, tracked, watched] = await Promise.all([
+          storage.getTopTrades(),
+          db.selectDistinct({ ticker: recommendationTracking.ticker })
+            .from(recommendationTracking)
+            .where(sql`${recommendationTracking.status} IN ('open', 'monitoring')`),
+          db.selectDistinct({ ticker: watchlistItems.ticker }).from(watchlistItems),
+        ]);
+        [...topTrades, ...tracked, ...watched]
+          .map(row => row.ticker.toUpperCase())
+          .filter(ticker => TICKER_PATTERN.test(ticker))
+          .forEach(ticker => symbols.add(ticker));
+      } catch (error: any) {
+        console.warn('⚠️ Option chain archive: scanner universe unavailable:', error.message);
+      }
+    }
+    return Array.from(symbols).sort();
+  }
+
+  private async listTimes(underlying: string, date: string): Promise<string[]> {
+    return (await this.readDir(this.archivePath(underlying, date)))
+      .filter(file => /^\d{4}\.json\.gz$/.test(file))
+      .map(file => `${file.slice(0, 2)}:${file.slice(2, 4)}`)
+      .sort();
+  }
+
+  /**
+   * Path inside the archive; refuses anything that would resolve outside ARCHIVE_DIR
+   */
+  private archivePath(...segments: string[]): string {
+    const root = path.resolve(ARCHIVE_DIR);
+    const resolved = path.resolve(root, ...segments);
+    if (resolved !== root && !resolved.startsWith(root + path.sep)) {
+      throw new OptionChainArchiveError('Invalid archive path');
+    }
+    return resolved;
+  }
+
+  private async readDir(dir: string): Promise<string[]> {
+    try {
+      return await fs.readdir(dir);
+    } catch {
+      return [];
+    }
+  }
+
+  private validate(updates: Partial<OptionChainArchiveConfig>, base: OptionChainArchiveConfig): OptionChainArchiveConfig {
+    const next = { ...base, ...Object.fromEntries(Object.entries(updates).filter(([, v]) => v !== undefined)) };
+
+    if (typeof next.enabled !== 'boolean') {
+      throw new OptionChainArchiveError('enabled must be true or false');
+    }
+    if (!Array.isArray(next.times) || !next.times.every(t => typeof t === 'string' && this.isTime(t))) {
+      throw new OptionChainArchiveError('times must be HH:mm strings (America/New_York)');
+    }
+    if (!Array.isArray(next.symbols) || !next.symbols.every(s => typeof s === 'string' && TICKER_PATTERN.test(s.trim().toUpperCase()))) {
+      throw new OptionChainArchiveError('symbols must be a list of tickers');
+    }
+    if (typeof next.includeScannerUniverse !== 'boolean') {
+      throw new OptionChainArchiveError('includeScannerUniverse must be true or false');
+    }
+    if (!Number.isInteger(next.maxDte) || next.maxDte < 0 || next.maxDte > 730) {
+      throw new OptionChainArchiveError('maxDte must be a whole number of days between 0 and 730');
+    }
+
+    return {
+      enabled: next.enabled,
+      times: Array.from(new Set(next.times)).sort(),
+      symbols: Array.from(new Set(next.symbols.map(s => s.trim().toUpperCase()))),
+      includeScannerUniverse: next.includeScannerUniverse,
+      maxDte: next.maxDte,
+    };
+  }
+
+  private isTime(value: string): boolean {
+    return /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+  }
+
+  private assertTime(time: string): void {
+    if (!this.isTime(time)) {
+      throw new OptionChainArchiveError('time must be HH:mm (America/New_York)');
+    }
+  }
+
+  private assertTicker(ticker: string): string {
+    const normalized = ticker.trim().toUpperCase();
+    if (!TICKER_PATTERN.test(normalized)) {
+      throw new OptionChainArchiveError(`Invalid ticker: ${ticker}`);
+    }
+    return normalized;
+  }
+
+  private assertDate(date: string): void {
+    if (!DATE_PATTERN.test(date)) {
+      throw new OptionChainArchiveError('date must be YYYY-MM-DD');
+    }
+  }
+}
+
+export const optionChainArchive = OptionChainArchive.getInstance();
@@ -160,8 +160,21 @@ export class OvernightDataFetcher {
         };
       }
       
-      // Fallback: no cached data, no bars
+      // Fallback: no cached bars - compare the last two saved EOD snapshots day over day
       console.warn(`⚠️ ${symbol}: Insufficient historical data (${historicalData?.bars.length || 0} bars)`);
+      const dayOverDay = eodCacheService.getDayOverDay(symbol);
+      if (dayOverDay) {
+        return {
+          symbol,
+          eodSnapshot: dayOverDay.previous,
+          overnightBars: [],
+          overnightHigh: dayOverDay.current.high,
+          overnightLow: dayOverDay.current.low,
+          overnightVolume: dayOverDay.current.volume,
+          breakoutDetected: dayOverDay.brokeHigh,
+          timestamp: Date.now()
+        };
+      }
       return {
         symbol,
         eodSnapshot,
@@ -0,0 +1,536 @@
+/**
+ * Paper Broker Service
+ *
+ * Simulated brokerage account for forward-testing recommendations against live quotes.
+ * It exposes the same surface as the real broker sources (`getAllPositions`,
+ * `fetchAccountBalance`) so the portfolio page can show it as another account.
+ *
+ * - Buys fill at the live ask and sells at the live bid (Polygon WebSocket → Tastytrade
+ *   cache), only while the market is open. There is no fill without a live quote; the
+ *   contract is subscribed and the caller retries once it streams.
+ * - Cash, position quantities and the sold contracts are changed with conditional or
+ *   incremental updates inside each order's transaction, so concurrent orders can't overdraw
+ *   the account, lose an increment or sell the same contracts twice. A partial unique index
+ *   keeps one open paper position per contract.
+ * - Fees follow `executionCostModel`. Cash and realized P/L are net of fees, so
+ *   equity = startingCash + realizedPnL + unrealizedPnL.
+ * - Positions are portfolio_positions rows with source/broker 'paper', marked at mid.
+ * - After each trading day's close, expired contracts are settled at intrinsic value and
+ *   the day's equity is written to `paper_equity_snapshots`.
+ */
+
+import { db } from '../db';
+import {
+  optionsTrade,
+  paperAccounts,
+  paperEquitySnapshots,
+  portfolioPositions,
+  tradeHistory,
+  type PaperAccount,
+  type PaperAccountBalance,
+  type PaperEquitySnapshot,
+  type PaperFill,
+  type PortfolioPosition,
+} from '@shared/schema';
+import { OPTIONS_CONTRACT_MULTIPLIER } from '@shared/constants';
+import { and, asc, eq, gte, sql } from 'drizzle-orm';
+import { DateTime } from 'luxon';
+import { polygonService } from './polygonService';
+import { tastytradeService } from './tastytradeService';
+import { quoteSubscriptionManager } from './quoteSubscriptionManager';
+import { executionCostModel } from './executionCostModel';
+import { marketCalendar } from './marketCalendar';
+import { formatOptionSymbol } from '../utils/optionSymbols';
+
+export const PAPER_BROKER = 'paper';
+
+const DEFAULT_STARTING_CASH = 10_000;
+
+interface PaperQuote {
+  bid: number;
+  ask: number;
+  mid: number;
+  source: PaperFill['source'];
+}
+
+interface PaperPositionMetadata {
+  optionType: 'call' | 'put';
+  strike: number;
+  expiryDate: string;
+  optionSymbol: string;
+  tradeId?: string;
+}
+
+/**
+ * Paper order that can't be filled (unknown trade or position, market closed, no quote, not enough cash)
+ */
+export class PaperBrokerError extends Error {
+  constructor(message: string, public readonly statusCode: 400 | 404 | 409 = 400) {
+    super(message);
+    this.name = 'PaperBrokerError';
+  }
+}
+
+export class PaperBrokerService {
+  private static instance: PaperBrokerService | null = null;
+  private snapshotTimeout: NodeJS.Timeout | null = null;
+
+  private readonly SUBSCRIPTION_OWNER = 'paper-broker';
+
+  private constructor() {}
+
+  static getInstance(): PaperBrokerService {
+    if (!PaperBrokerService.instance) {
+      PaperBrokerService.instance = new PaperBrokerService();
+    }
+    return PaperBrokerService.instance;
+  }
+
+  /**
+   * Stream quotes for open paper positions and schedule the end-of-day snapshot
+   */
+  async start(): Promise<void> {
+    if (this.snapshotTimeout) {
+      console.log('⚠️ PaperBrokerService already running');
+      return;
+    }
+
+    const positions = await this.getOpenPositions();
+    this.ensureSubscriptions(positions);
+    console.log(`📝 Paper broker ready (${positions.length} open position${positions.length === 1 ? '' : 's'})`);
+    this.scheduleNextSnapshot();
+  }
+
+  stop(): void {
+    if (this.snapshotTimeout) {
+      clearTimeout(this.snapshotTimeout);
+      this.snapshotTimeout = null;
+      quoteSubscriptionManager.releaseAll(this.SUBSCRIPTION_OWNER);
+      console.log('📝 Paper broker stopped');
+    }
+  }
+
+  /**
+   * The paper account, created with DEFAULT_STARTING_CASH on first use
+   */
+  async getAccount(): Promise<PaperAccount> {
+    const [account] = await db.select().from(paperAccounts).orderBy(asc(paperAccounts.createdAt)).limit(1);
+    if (account) return account;
+
+    const [created] = await db.insert(paperAccounts).values({
+      startingCash: DEFAULT_STARTING_CASH,
+      cash: DEFAULT_STARTING_CASH,
+    }).returning();
+    console.log(`📝 Created paper account with $${DEFAULT_STARTING_CASH.toLocaleString()}`);
+    return created;
+  }
+
+  /**
+   * Open paper positions marked at the live mid (last mark when no quote is streaming)
+   */
+  async getAllPositions(): Promise<PortfolioPosition[]> {
+    const positions = await this.getOpenPositions();
+    this.ensureSubscriptions(positions);
+
+    return positions.map(position => {
+      const metadata = position.metadata as PaperPositionMetadata;
+      const mark = this.getOptionQuote(metadata.optionSymbol)?.mid ?? position.currentPrice ?? position.avgCost;
+      return {
+        ...position,
+        currentPrice: mark,
+        unrealizedPnL: (mark - position.avgCost) * position.quantity * OPTIONS_CONTRACT_MULTIPLIER,
+      };
+    });
+  }
+
+  async fetchAccountBalance(): Promise<PaperAccountBalance> {
+    const account = await this.getAccount();
+    const positions = await this.getAllPositions();
+
+    const positionsValue = positions.reduce((sum, p) => sum + (p.currentPrice ?? 0) * p.quantity * OPTIONS_CONTRACT_MULTIPLIER, 0);
+    const unrealizedPnL = positions.reduce((sum, p) => sum + (p.unrealizedPnL ?? 0), 0);
+    const equity = account.cash + positionsValue;
+
+    return {
+      netLiquidatingValue: equity,
+      cashBalance: account.cash,
+      totalValue: equity,
+      startingCash: account.startingCash,
+      realizedPnL: account.realizedPnL,
+      unrealizedPnL,
+      returnPercent: account.startingCash > 0 ? ((equity - account.startingCash) / account.startingCash) * 100 : 0,
+    };
+  }
+
+  /**
+   * Buy a recommendation at the live ask. Adds to an open paper position in the same
+   * contract (re-averaging its cost) or opens a new one.
+   */
+  async executeRecommendation(tradeId: string, contracts?: number): Promise<{ position: PortfolioPosition; fill: PaperFill }> {
+    this.requireMarketOpen();
+    const [trade] = await db.select().from(optionsTrade).where(eq(optionsTrade.id, tradeId)).limit(1);
+    if (!trade) {
+      throw new PaperBrokerError('Trade recommendation not found', 404);
+    }
+
+    const quantity = contracts ?? trade.contracts;
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      throw new PaperBrokerError('contracts must be a positive whole number');
+    }
+
+    const optionType = trade.optionType === 'put' ? 'put' : 'call';
+    const optionSymbol = trade.optionSymbol || formatOptionSymbol(trade.ticker, trade.expiry, optionType, trade.strikePrice);
+    quoteSubscriptionManager.acquire(this.SUBSCRIPTION_OWNER, { symbols: [trade.ticker], optionSymbols: [optionSymbol] });
+
+    const quote = this.getOptionQuote(optionSymbol);
+    if (!quote || quote.ask <= 0) {
+      throw new PaperBrokerError(`No live ask for ${trade.ticker} ${trade.strikePrice} ${optionType} yet, try again once quotes stream`, 409);
+    }
+
+    const fees = executionCostModel.getOrderFees(quantity);
+    const cost = quote.ask * quantity * OPTIONS_CONTRACT_MULTIPLIER + fees;
+    const account = await this.getAccount();
+
+    const position = await db.transaction(async (tx) => {
+      const [debited] = await tx.update(paperAccounts)
+        .set({
+          cash: sql`${paperAccounts.cash} - ${cost}`,
+          realizedPnL: sql`${paperAccounts.realizedPnL} - ${fees}`,
+          feesPaid: sql`${paperAccounts.feesPaid} + ${fees}`,
+        })
+        .where(and(eq(paperAccounts.id, account.id), gte(paperAccounts.cash, cost)))
+        .returning();
+      if (!debited) {
+        const [current] = await tx.select({ cash: paperAccounts.cash }).from(paperAccounts).where(eq(paperAccounts.id, account.id));
+        throw new PaperBrokerError(`Insufficient paper cash: order costs $${cost.toFixed(2)}, $${(current?.cash ?? 0).toFixed(2)} available`);
+      }
+
+      // Add to the open position in SQL so concurrent buys of the contract can't lose an increment
+      const addToOpen = () => tx.update(portfolioPositions)
+        .set({
+          quantity: sql`${portfolioPositions.quantity} + ${quantity}`,
+          avgCost: sql`(${portfolioPositions.avgCost} * ${portfolioPositions.quantity} + ${quote.ask * quantity}) / (${portfolioPositions.quantity} + ${quantity})`,
+          currentPrice: quote.mid,
+        })
+        .where(and(
+          eq(portfolioPositions.source, PAPER_BROKER),
+          eq(portfolioPositions.status, 'open'),
+          sql`${portfolioPositions.metadata}->>'optionSymbol' = ${optionSymbol}`
+        ))
+        .returning();
+
+      let [row] = await addToOpen();
+      if (!row) {
+        // The open-contract unique index turns a racing insert into a no-op; the retry then adds to its row
+        [row] = await tx.insert(portfolioPositions).values({
+          ticker: trade.ticker,
+          broker: PAPER_BROKER,
+          source: PAPER_BROKER,
+          positionType: 'options',
+          quantity,
+          avgCost: quote.ask,
+          currentPrice: quote.mid,
+          unrealizedPnL: 0,
+          realizedPnL: 0,
+          status: 'open',
+          metadata: {
+            optionType,
+            strike: trade.strikePrice,
+            expiryDate: trade.expiry,
+            optionSymbol,
+            tradeId: trade.id,
+          } satisfies PaperPositionMetadata,
+        }).onConflictDoNothing().returning();
+        if (!row) [row] = await addToOpen();
+        if (!row) {
+          throw new PaperBrokerError(`Paper position in ${optionSymbol} changed during the order, try again`, 409);
+        }
+      }
+
+      await tx.insert(tradeHistory).values({
+        positionId: row.id,
+        tradeType: 'buy',
+        ticker: trade.ticker,
+        quantity,
+        price: quote.ask,
+        fees,
+        totalValue: quantity * quote.ask * OPTIONS_CONTRACT_MULTIPLIER,
+        notes: `Paper Buy to Open ${optionSymbol}`,
+      });
+
+      return row;
+    });
+
+    console.log(`📝 Paper buy: ${quantity}x ${optionSymbol} @ $${quote.ask.toFixed(2)} (${quote.source})`);
+    return { position, fill: { side: 'buy', quantity, price: quote.ask, fees, source: quote.source } };
+  }
+
+  /**
+   * Sell some or all of a paper position at the live bid
+   */
+  async closePosition(positionId: string, quantity?: number): Promise<{ position: PortfolioPosition; fill: PaperFill }> {
+    this.requireMarketOpen();
+    const position = await this.requirePosition(positionId);
+    const metadata = position.metadata as PaperPositionMetadata;
+
+    const sellQuantity = quantity ?? position.quantity;
+    if (!Number.isInteger(sellQuantity) || sellQuantity <= 0 || sellQuantity > position.quantity) {
+      throw new PaperBrokerError(`quantity must be a whole number between 1 and ${position.quantity}`);
+    }
+
+    quoteSubscriptionManager.acquire(this.SUBSCRIPTION_OWNER, { optionSymbols: [metadata.optionSymbol] });
+    const quote = this.getOptionQuote(metadata.optionSymbol);
+    if (!quote) {
+      throw new PaperBrokerError(`No live bid for ${position.ticker} ${metadata.strike} ${metadata.optionType} yet, try again once quotes stream`, 409);
+    }
+
+    const fees = quote.bid > 0 ? executionCostModel.getOrderFees(sellQuantity) : 0;
+    const fill = await this.sell(position, sellQuantity, quote.bid, fees, `Paper Sell to Close ${metadata.optionSymbol}`);
+    console.log(`📝 Paper sell: ${sellQuantity}x ${metadata.optionSymbol} @ $${quote.bid.toFixed(2)} (P/L $${fill.realizedPnL!.toFixed(2)})`);
+
+    return { position: await this.requirePosition(positionId, false), fill: { ...fill, source: quote.source } };
+  }
+
+  /**
+   * Settle expired contracts, then record today's closing equity
+   */
+  async snapshotEquity(date: string = marketCalendar.toExchangeDate()): Promise<PaperEquitySnapshot> {
+    await this.settleExpired(date);
+
+    const account = await this.getAccount();
+    const balance = await this.fetchAccountBalance();
+    const open = await this.getOpenPositions();
+    const openPositions = open.length;
+    this.ensureSubscriptions(open, true);
+
+    const values = {
+      accountId: account.id,
+      date,
+      cash: balance.cashBalance,
+      positionsValue: balance.netLiquidatingValue - balance.cashBalance,
+      equity: balance.netLiquidatingValue,
+      realizedPnL: balance.realizedPnL,
+      unrealizedPnL: balance.unrealizedPnL,
+      openPositions,
+    };
+
+    const [snapshot] = await db.insert(paperEquitySnapshots)
+      .values(values)
+      .onConflictDoUpdate({
+        target: [paperEquitySnapshots.accountId, paperEquitySnapshots.date],
+        set: values,
+      })
+      .returning();
+
+    console.log(`📝 Paper equity ${date}: $${snapshot.equity.toFixed(2)} (${openPositions} open)`);
+    return snapshot;
+  }
+
+  async getEquityHistory(): Promise<PaperEquitySnapshot[]> {
+    const account = await this.getAccount();
+    return db.select()
+      .from(paperEquitySnapshots)
+      .where(eq(paperEquitySnapshots.accountId, account.id))
+      .orderBy(asc(paperEquitySnapshots.date));
+  }
+
+  /**
+   * Start over: close every paper position without booking P/L, clear the equity
+   * history and restore the cash balance
+   */
+  async reset(startingCash: number = DEFAULT_STARTING_CASH): Promise<PaperAccount> {
+    if (!Number.isFinite(startingCash) || startingCash <= 0) {
+      throw new PaperBrokerError('startingCash must be a positive number');
+    }
+
+    const account = await this.getAccount();
+    const updated = await db.transaction(async (tx) => {
+      await tx.update(portfolioPositions)
+        .set({ status: 'closed', closeDate: new Date(), unrealizedPnL: 0 })
+        .where(and(eq(portfolioPositions.source, PAPER_BROKER), eq(portfolioPositions.status, 'open')));
+      await tx.delete(paperEquitySnapshots).where(eq(paperEquitySnapshots.accountId, account.id));
+
+      const [row] = await tx.update(paperAccounts)
+        .set({ startingCash, cash: startingCash, realizedPnL: 0, feesPaid: 0, resetAt: new Date() })
+        .where(eq(paperAccounts.id, account.id))
+        .returning();
+      return row;
+    });
+
+    quoteSubscriptionManager.releaseAll(this.SUBSCRIPTION_OWNER);
+    console.log(`📝 Paper account reset to $${startingCash.toLocaleString()}`);
+    return updated;
+  }
+
+  /**
+   * Book a sale: shrink (or close) the position, credit cash and realized P/L, log the trade
+   */
+  private async sell(
+    position: PortfolioPosition,
+    quantity: number,
+    price: number,
+    fees: number,
+    notes: string
+  ): Promise<Omit<PaperFill, 'source'>> {
+    const proceeds = price * quantity * OPTIONS_CONTRACT_MULTIPLIER - fees;
+    const account = await this.getAccount();
+
+    const realized = await db.transaction(async (tx) => {
+      // Claim the contracts first so a concurrent close or expiry settlement can't sell them twice
+      const [claimed] = await tx.update(portfolioPositions)
+        .set({
+          quantity: sql`${portfolioPositions.quantity} - ${quantity}`,
+          currentPrice: price,
+        })
+        .where(and(
+          eq(portfolioPositions.id, position.id),
+          eq(portfolioPositions.status, 'open'),
+          gte(portfolioPositions.quantity, quantity)
+        ))
+        .returning();
+      if (!claimed) {
+        throw new PaperBrokerError(`Paper position no longer holds ${quantity} open contract(s)`, 409);
+      }
+
+      const realized = (price - claimed.avgCost) * quantity * OPTIONS_CONTRACT_MULTIPLIER - fees;
+      await tx.update(portfolioPositions)
+        .set({
+          realizedPnL: sql`coalesce(${portfolioPositions.realizedPnL}, 0) + ${realized}`,
+          ...(claimed.quantity === 0 ? { status: 'closed', closeDate: new Date(), unrealizedPnL: 0 } : {}),
+        })
+        .where(eq(portfolioPositions.id, position.id));
+
+      await tx.insert(tradeHistory).values({
+        positionId: position.id,
+        tradeType: 'sell',
+        ticker: position.ticker,
+        quantity,
+        price,
+        fees,
+        totalValue: quantity * price * OPTIONS_CONTRACT_MULTIPLIER,
+        notes,
+      });
+
+      await tx.update(paperAccounts)
+        .set({
+          cash: sql`${paperAccounts.cash} + ${proceeds}`,
+          realizedPnL: sql`${paperAccounts.realizedPnL} + ${realized}`,
+          feesPaid: sql`${paperAccounts.feesPaid} + ${fees}`,
+        })
+        .where(eq(paperAccounts.id, account.id));
+
+      return realized;
+    });
+
+    return { side: 'sell', quantity, price, fees, realizedPnL: realized };
+  }
+
+  /**
+   * Contracts expiring on or before `date` settle at intrinsic value against the
+   * underlying's last price (no fees). Without an underlying price the last mark is used.
+   */
+  private async settleExpired(date: string): Promise<void> {
+    const expired = (await this.getOpenPositions()).filter(
+      p => (p.metadata as PaperPositionMetadata).expiryDate <= date
+    );
+
+    for (const position of expired) {
+      const metadata = position.metadata as PaperPositionMetadata;
+      const underlying = polygonService.getQuote(position.ticker)?.lastPrice
+        ?? tastytradeService.getCachedQuote(position.ticker)?.lastPrice;
+
+      const settlement = underlying
+        ? Math.max(0, metadata.optionType === 'call' ? underlying - metadata.strike : metadata.strike - underlying)
+        : position.currentPrice ?? 0;
+
+      try {
+        const fill = await this.sell(position, position.quantity, settlement, 0, `Paper expiry settlement ${metadata.optionSymbol}`);
+        console.log(`📝 Paper expiry: ${metadata.optionSymbol} settled @ $${settlement.toFixed(2)} (P/L $${fill.realizedPnL!.toFixed(2)})`);
+      } catch (error: any) {
+        // Closed or changed meanwhile; the next snapshot settles whatever is still open
+        console.warn(`⚠️ Paper expiry: ${metadata.optionSymbol} not settled: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Next snapshot at 4:05 PM ET (after the close, before TradeExitMonitor's 4:15 PM run)
+   */
+  private scheduleNextSnapshot(): void {
+    const nowET = DateTime.now().setZone('America/New_York');
+    let targetET = nowET.set({ hour: 16, minute: 5, second: 0, millisecond: 0 });
+    if (nowET >= targetET) {
+      targetET = targetET.plus({ days: 1 });
+    }
+
+    this.snapshotTimeout = setTimeout(async () => {
+      const date = targetET.toFormat('yyyy-MM-dd');
+      if (marketCalendar.isTradingDay(date)) {
+        await this.snapshotEquity(date).catch(error => {
+          console.error('❌ Paper equity snapshot failed:', error.message);
+        });
+      }
+      this.scheduleNextSnapshot();
+    }, targetET.toMillis() - nowET.toMillis());
+  }
+
+  private async getOpenPositions(): Promise<PortfolioPosition[]> {
+    return db.select()
+      .from(portfolioPositions)
+      .where(and(eq(portfolioPositions.source, PAPER_BROKER), eq(portfolioPositions.status, 'open')));
+  }
+
+  private requireMarketOpen(): void {
+    if (!marketCalendar.isMarketOpen()) {
+      throw new PaperBrokerError('The market is closed; paper orders fill only during the session', 409);
+    }
+  }
+
+  private async requirePosition(id: string, mustBeOpen: boolean = true): Promise<PortfolioPosition> {
+    const [position] = await db.select().from(portfolioPositions).where(eq(portfolioPositions.id, id)).limit(1);
+    if (!position || position.source !== PAPER_BROKER) {
+      throw new PaperBrokerError('Paper position not found', 404);
+    }
+    if (mustBeOpen && position.status !== 'open') {
+      throw new PaperBrokerError('Paper position is already closed', 409);
+    }
+    return position;
+  }
+
+  /**
+   * Option quote: Polygon WebSocket → Tastytrade cache
+   */
+  private getOptionQuote(optionSymbol: string): PaperQuote | null {
+    const polygonOption = polygonService.getCachedOptionQuote(optionSymbol);
+    if (polygonOption && polygonOption.premium > 0) {
+      return { mid: polygonOption.premium, bid: polygonOption.bid, ask: polygonOption.ask, source: 'polygon' };
+    }
+
+    const tastyOption = tastytradeService.getCachedOptionPremium(optionSymbol);
+    if (tastyOption && tastyOption.premium > 0) {
+      return { mid: tastyOption.premium, bid: tastyOption.bid, ask: tastyOption.ask, source: 'tastytrade' };
+    }
+
+    return null;
+  }
+
+  /**
+   * Stream the contracts held and their underlyings (for expiry settlement). Stale keys
+   * are only released after the daily snapshot so a quote requested by a pending order
+   * isn't dropped by a portfolio refresh.
+   */
+  private ensureSubscriptions(positions: PortfolioPosition[], releaseStale: boolean = false): void {
+    const optionSymbols = Array.from(new Set(positions.map(p => (p.metadata as PaperPositionMetadata).optionSymbol)));
+    const symbols = Array.from(new Set(positions.map(p => p.ticker)));
+    quoteSubscriptionManager.acquire(this.SUBSCRIPTION_OWNER, { symbols, optionSymbols });
+    if (!releaseStale) return;
+
+    const held = quoteSubscriptionManager.getOwnerSubscriptions(this.SUBSCRIPTION_OWNER);
+    quoteSubscriptionManager.release(this.SUBSCRIPTION_OWNER, {
+      symbols: held.symbols.filter(s => !symbols.includes(s)),
+      optionSymbols: held.optionSymbols.filter(s => !optionSymbols.includes(s)),
+    });
+  }
+}
+
+export const paperBrokerService = PaperBrokerService.getInstance();
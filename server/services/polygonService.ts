@@ -462,6 +462,13 @@ class PolygonService {
     this.ws.send(JSON.stringify(unsubscribeMessage));
   }
 
+  /**
+   * Check whether a stock symbol is currently subscribed
+   */
+  isSymbolSubscribed(symbol: string): boolean {
+    return this.subscribedSymbols.has(symbol);
+  }
+
   /**
    * Handle incoming WebSocket messages
    */
@@ -719,6 +726,40 @@ class PolygonService {
     this.ws.send(JSON.stringify(subscribeMessage));
   }
 
+  /**
+   * Unsubscribe from option quotes
+   * @param optionSymbols Array of option symbols like ['O:SPY251113C00680000']
+   */
+  async unsubscribeFromOptionQuotes(optionSymbols: string[]): Promise<void> {
+    const toRemove = optionSymbols.filter(sym => this.subscribedOptionQuotes.has(sym));
+    if (toRemove.length === 0) {
+      return;
+    }
+
+    // Drop from the reconnection set even if the socket is down
+    toRemove.forEach(sym => this.subscribedOptionQuotes.delete(sym));
+
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      return;
+    }
+
+    console.log(`📡 Unsubscribing from ${toRemove.length} option quotes...`);
+
+    const unsubscribeMessage = {
+      action: 'unsubscribe',
+      params: toRemove.map(sym => `Q.${sym}`).join(',')
+    };
+
+    this.ws.send(JSON.stringify(unsubscribeMessage));
+  }
+
+  /**
+   * Check whether an option quote topic (O:...) is currently subscribed
+   */
+  isOptionQuoteSubscribed(optionSymbol: string): boolean {
+    return this.subscribedOptionQuotes.has(optionSymbol);
+  }
+
   /**
    * Handle option trade messages - dispatch to registered callbacks (Ghost Sweep Detector)
    */
@@ -1050,6 +1091,10 @@ class PolygonService {
     marketCap?: number; 
     shareClassSharesOutstanding?: number;
     weightedSharesOutstanding?: number;
+    name?: string;
+    type?: string; // 'CS', 'ETF', 'ADRC', ...
+    sicCode?: string;
+    sicDescription?: string;
   } | null> {
     try {
       const response = await axios.get(
@@ -1063,7 +1108,11 @@ class PolygonService {
         return {
           marketCap: response.data.results.market_cap,
           shareClassSharesOutstanding: response.data.results.share_class_shares_outstanding,
-          weightedSharesOutstanding: response.data.results.weighted_shares_outstanding
+          weightedSharesOutstanding: response.data.results.weighted_shares_outstanding,
+          name: response.data.results.name,
+          type: response.data.results.type,
+          sicCode: response.data.results.sic_code,
+          sicDescription: response.data.results.sic_description
         };
       }
       
@@ -1423,14 +1472,15 @@ class PolygonService {
   /**
    * Get grouped daily bars for all US stocks on a specific date
    * Single API call fetches ALL symbols for one trading day
-   * Used by HistoricalDataCache to populate 30-day cache efficiently
+   * Used by HistoricalDataCache to append each trading day to the bar store
    * 
    * @param date Trading date in YYYY-MM-DD format
+   * @param adjusted Split-adjusted prices (the bar store keeps raw bars and adjusts itself)
    * @returns Array of bars with { T, o, h, l, c, v, t } structure, or null on error
    */
-  async getGroupedDailyBars(date: string): Promise<any[] | null> {
+  async getGroupedDailyBars(date: string, adjusted: boolean = true): Promise<any[] | null> {
     try {
-      const url = `https://api.polygon.io/v2/aggs/grouped/locale/us/market/stocks/${date}?adjusted=true`;
+      const url = `https://api.polygon.io/v2/aggs/grouped/locale/us/market/stocks/${date}?adjusted=${adjusted}`;
       
       const data = await this.makeRateLimitedRequest<any>(url, {
         timeout: 15000,
@@ -1450,6 +1500,80 @@ class PolygonService {
     }
   }
 
+  /**
+   * Unadjusted intraday bars for one symbol (regular and extended hours), all pages
+   * Used by HistoricalDataCache for its intraday store
+   *
+   * @param symbol Stock symbol
+   * @param from Start date (YYYY-MM-DD)
+   * @param to End date (YYYY-MM-DD)
+   * @param minutes Bar size in minutes
+   * @returns Array of bars with { o, h, l, c, v, t } structure, or null on error
+   */
+  async getRawIntradayBars(symbol: string, from: string, to: string, minutes: number): Promise<any[] | null> {
+    try {
+      const bars: any[] = [];
+      let currentUrl: string | null = `https://api.polygon.io/v2/aggs/ticker/${symbol}/range/${minutes}/minute/${from}/${to}?adjusted=false&sort=asc&limit=50000`;
+      while (currentUrl) {
+        const data: any = await this.makeRateLimitedRequest<any>(currentUrl, {
+          timeout: 15000,
+          cacheTTL: 0,
+          maxRetries: 3
+        });
+        // A page without results fails the whole range rather than leaving gaps
+        if (!Array.isArray(data?.results)) return null;
+
+        bars.push(...data.results);
+        currentUrl = data.next_url || null;
+      }
+
+      return bars;
+    } catch (error: any) {
+      console.error(`❌ ${symbol}: Failed to fetch intraday bars ${from} → ${to}:`, error.message);
+      return null;
+    }
+  }
+
+  /**
+   * Stock splits executed on or after a date, all symbols (all pages)
+   * @returns Polygon split records ({ ticker, execution_date, split_from, split_to })
+   */
+  async getStockSplits(fromDate: string): Promise<any[]> {
+    return this.getAllReferencePages(`https://api.polygon.io/v3/reference/splits?execution_date.gte=${fromDate}&limit=1000`);
+  }
+
+  /**
+   * Cash dividends going ex on or after a date, all symbols (all pages)
+   * @returns Polygon dividend records ({ ticker, ex_dividend_date, cash_amount, dividend_type, ... })
+   */
+  async getCashDividends(fromDate: string): Promise<any[]> {
+    return this.getAllReferencePages(`https://api.polygon.io/v3/reference/dividends?ex_dividend_date.gte=${fromDate}&limit=1000`);
+  }
+
+  private async getAllReferencePages(url: string): Promise<any[]> {
+    if (!this.apiKey) {
+      console.warn('⚠️ No Polygon API key configured');
+      return [];
+    }
+
+    const results: any[] = [];
+    let currentUrl: string | null = url;
+    while (currentUrl) {
+      const data: any = await this.makeRateLimitedRequest<any>(currentUrl, {
+        timeout: 15000,
+        cacheTTL: 0,
+        maxRetries: 3
+      });
+
+      if (Array.isArray(data?.results)) {
+        results.push(...data.results);
+      }
+      currentUrl = data?.next_url || null;
+    }
+
+    return results;
+  }
+
   /**
    * Get today's opening and closing prices for a symbol
    * Uses Polygon REST API to get the most recent trading day's data
@@ -1749,6 +1873,34 @@ class PolygonService {
     }
   }
 
+  /**
+   * Full option chain snapshot for an underlying (all pages)
+   * @param ticker Stock symbol
+   * @param maxExpiry Only contracts expiring on or before this date (YYYY-MM-DD)
+   */
+  async getOptionChainSnapshot(ticker: string, maxExpiry?: string): Promise<any[]> {
+    if (!this.apiKey) {
+      console.warn('⚠️ No Polygon API key configured');
+      return [];
+    }
+
+    const contracts: any[] = [];
+    let currentUrl: string | null = `https://api.polygon.io/v3/snapshot/options/${ticker}?limit=250${maxExpiry ? `&expiration_date.lte=${maxExpiry}` : ''}`;
+    while (currentUrl) {
+      const data: any = await this.makeRateLimitedRequest<any>(currentUrl, {
+        timeout: 10000,
+        maxRetries: 3
+      });
+
+      if (Array.isArray(data?.results)) {
+        contracts.push(...data.results);
+      }
+      currentUrl = data?.next_url || null;
+    }
+
+    return contracts;
+  }
+
   /**
    * Get live options Greeks and IV for Elite Scanner
    * Returns the most liquid option contract (highest volume)
@@ -1,4 +1,4 @@
-import type { PortfolioPosition, TradeRecommendation } from '@shared/schema';
+import type { AccountGoalProgress, PortfolioPosition, TradeRecommendation } from '@shared/schema';
 import { ExitAnalysisService } from './exitAnalysis';
 import { grokAI, type GrokEnhancement } from './grokAIService';
 
@@ -13,7 +13,7 @@ import { grokAI, type GrokEnhancement } from './grokAIService';
  * - Exit strategy rules (45% stop loss, 100%+ profit-taking)
  * - 24-hour trade holding and fund settlement constraints
  * 
- * Goal: Grow account from $1,847.60 to $1 million using precision-guided strategy
+ * Progress is reported against the account's configured growth goals (accountGoalService)
  */
 export class PortfolioAnalysisEngine {
   private exitAnalysisService: ExitAnalysisService;
@@ -30,7 +30,8 @@ export class PortfolioAnalysisEngine {
     currentPrices: Record<string, number>,
     dashboardOpportunities: TradeRecommendation[],
     accountValue: number,
-    vixLevel: number
+    vixLevel: number,
+    goals: AccountGoalProgress[] = []
   ): Promise<AIPortfolioAnalysis> {
     
     // Analyze each position using exit analysis service
@@ -45,7 +46,7 @@ export class PortfolioAnalysisEngine {
 
     // Calculate overall portfolio metrics
     const totalUnrealizedPnL = positionAnalyses.reduce((sum, p) => sum + p.unrealizedPnL, 0);
-    const totalCost = positionAnalyses.reduce((sum, p) => sum + p.totalCost, 0);
+    const totalCost = positionAnalyses.reduce((sum, p) => sum + Math.abs(p.totalCost), 0);
     const portfolioPnLPercent = totalCost > 0 ? (totalUnrealizedPnL / totalCost) * 100 : 0;
 
     // Assess market conditions using VIX
@@ -60,8 +61,8 @@ export class PortfolioAnalysisEngine {
       marketCondition
     );
 
-    // Calculate progress towards $1M goal
-    const goalProgress = this.calculateGoalProgress(accountValue);
+    // Nearest-dated active goal leads; all of them are returned
+    const goalProgress = goals[0] ?? null;
 
     // Determine overall risk level
     const overallRisk = this.calculateOverallRisk(positionAnalyses, portfolioPnLPercent);
@@ -85,6 +86,7 @@ export class PortfolioAnalysisEngine {
       marketCondition,
       vixLevel,
       goalProgress,
+      goals,
       recommendations,
       actionableInsights,
       positionAnalyses,
@@ -304,31 +306,6 @@ export class PortfolioAnalysisEngine {
     });
   }
 
-  /**
-   * Calculate progress towards $1M goal
-   */
-  private calculateGoalProgress(currentValue: number): GoalProgress {
-    const startingValue = 1847.60;
-    const targetValue = 1000000;
-    
-    const progressPercent = ((currentValue - startingValue) / (targetValue - startingValue)) * 100;
-    const growthPercent = ((currentValue - startingValue) / startingValue) * 100;
-    const remaining = targetValue - currentValue;
-    
-    // Calculate required growth rate
-    const requiredMultiplier = targetValue / currentValue;
-    
-    return {
-      current: currentValue,
-      target: targetValue,
-      progressPercent: Math.max(0, progressPercent),
-      growthPercent,
-      remaining,
-      requiredMultiplier: requiredMultiplier.toFixed(2) + 'x',
-      onTrack: growthPercent > 0
-    };
-  }
-
   /**
    * Calculate overall portfolio risk level
    */
@@ -424,7 +401,8 @@ export interface AIPortfolioAnalysis {
   riskLevel: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
   marketCondition: MarketCondition;
   vixLevel: number;
-  goalProgress: GoalProgress;
+  goalProgress: AccountGoalProgress | null;
+  goals: AccountGoalProgress[];
   recommendations: StrategicRecommendation[];
   actionableInsights: ActionableInsight[];
   positionAnalyses: any[];
@@ -436,16 +414,6 @@ interface MarketCondition {
   description: string;
 }
 
-interface GoalProgress {
-  current: number;
-  target: number;
-  progressPercent: number;
-  growthPercent: number;
-  remaining: number;
-  requiredMultiplier: string;
-  onTrack: boolean;
-}
-
 export interface StrategicRecommendation {
   type: 'EXIT_POSITION' | 'TAKE_PROFIT' | 'REBALANCE' | 'NEW_POSITION';
   ticker: string;
@@ -0,0 +1,446 @@
+/**
+ * Price Alert Engine
+ *
+ * Background evaluator for active `price_alerts` rows against live quote caches.
+ *
+ * Alert types (threshold stored in `targetPrice`):
+ * - above / below:           underlying last price vs target price
+ * - percent_move:            % change from `referencePrice` (positive = up move, negative = down move)
+ * - crosses_vwap:            underlying crosses today's VWAP (target unused)
+ * - premium_above / _below:  option mid premium for `optionSymbol` vs target
+ * - iv_above:                implied volatility (%) of `optionSymbol`, or of the most liquid
+ *                            contract when none is set, vs target
+ *
+ * Data Source Hierarchy: Polygon WebSocket cache → Tastytrade cache.
+ * VWAP (from uncached 1-minute bars of the session) and IV need REST calls, so they are
+ * cached per ticker/contract for a minute and five minutes to protect the rate limit.
+ * Triggered alerts are recorded in `price_alert_triggers` and pushed to SSE listeners.
+ */
+
+import { storage } from '../storage';
+import { polygonService } from './polygonService';
+import { tastytradeService } from './tastytradeService';
+import { marketStatusService } from './marketStatusService';
+import { marketCalendar } from './marketCalendar';
+import { quoteSubscriptionManager } from './quoteSubscriptionManager';
+import { parseOptionSymbol } from '../utils/optionSymbols';
+import type { AlertNotification, PriceAlert, PriceAlertType } from '@shared/schema';
+
+interface ObservedValue {
+  value: number;
+  source: 'polygon' | 'tastytrade';
+}
+
+export type AlertNotificationHandler = (notification: AlertNotification) => void;
+
+export class PriceAlertEngine {
+  private static instance: PriceAlertEngine | null = null;
+  private evaluationTask: NodeJS.Timeout | null = null;
+  private isEvaluating = false;
+
+  // SSE listeners keyed by connection id
+  private handlers = new Map<string, AlertNotificationHandler>();
+
+  // Per-alert state
+  private vwapSide = new Map<string, 'above' | 'below'>(); // Last side of VWAP seen for crosses_vwap alerts
+  private lastPersisted = new Map<string, number>(); // Last time currentPrice was written back
+
+  // Per-ticker REST caches
+  private vwapCache = new Map<string, { vwap: number; timestamp: number }>();
+  private ivCache = new Map<string, { iv: number; timestamp: number }>(); // By ticker or option symbol
+
+  // Configuration
+  private readonly EVALUATION_INTERVAL_MS = 5_000; // 5 seconds
+  private readonly PERSIST_INTERVAL_MS = 60_000; // Write observed values back at most once a minute
+  private readonly VWAP_CACHE_TTL_MS = 60_000; // 1 minute
+  private readonly IV_CACHE_TTL_MS = 5 * 60_000; // 5 minutes
+  private readonly SUBSCRIPTION_OWNER = 'price-alerts';
+
+  private constructor() {}
+
+  static getInstance(): PriceAlertEngine {
+    if (!PriceAlertEngine.instance) {
+      PriceAlertEngine.instance = new PriceAlertEngine();
+    }
+    return PriceAlertEngine.instance;
+  }
+
+  /**
+   * Start evaluating alerts every 5 seconds
+   */
+  start(): void {
+    if (this.evaluationTask) {
+      console.log('⚠️ PriceAlertEngine already running');
+      return;
+    }
+
+    console.log('🔔 Starting price alert engine (5s evaluation loop)...');
+    this.evaluationTask = setInterval(() => {
+      this.evaluateAlerts().catch(error => {
+        console.error('❌ Price alert evaluation failed:', error.message);
+      });
+    }, this.EVALUATION_INTERVAL_MS);
+  }
+
+  /**
+   * Stop the evaluation loop
+   */
+  stop(): void {
+    if (this.evaluationTask) {
+      clearInterval(this.evaluationTask);
+      this.evaluationTask = null;
+      quoteSubscriptionManager.releaseAll(this.SUBSCRIPTION_OWNER);
+      console.log('🔔 Price alert engine stopped');
+    }
+  }
+
+  /**
+   * Register a listener for triggered alerts (used by the SSE endpoint)
+   */
+  registerHandler(id: string, handler: AlertNotificationHandler): void {
+    this.handlers.set(id, handler);
+  }
+
+  /**
+   * Unregister a listener
+   */
+  unregisterHandler(id: string): void {
+    this.handlers.delete(id);
+  }
+
+  /**
+   * Evaluate all active, untriggered alerts once
+   */
+  async evaluateAlerts(): Promise<AlertNotification[]> {
+    // Quote caches only move during the session - don't burn REST calls on a dead tape
+    if (this.isEvaluating || !marketStatusService.isMarketOpen()) {
+      return [];
+    }
+
+    this.isEvaluating = true;
+    const notifications: AlertNotification[] = [];
+
+    try {
+      const alerts = await storage.getActivePriceAlerts();
+      this.ensureSubscriptions(alerts);
+      this.pruneAlertState(alerts);
+      if (alerts.length === 0) {
+        return [];
+      }
+
+      for (const alert of alerts) {
+        try {
+          const notification = await this.evaluateAlert(alert);
+          if (notification) {
+            notifications.push(notification);
+            this.dispatch(notification);
+          }
+        } catch (error: any) {
+          console.error(`❌ Error evaluating alert ${alert.id} (${alert.ticker}):`, error.message);
+        }
+      }
+    } finally {
+      this.isEvaluating = false;
+    }
+
+    return notifications;
+  }
+
+  /**
+   * Evaluate a single alert, recording the trigger if its condition is met
+   */
+  private async evaluateAlert(alert: PriceAlert): Promise<AlertNotification | null> {
+    const alertType = alert.alertType as PriceAlertType;
+    const ticker = alert.ticker.toUpperCase();
+    let observed: ObservedValue | null = null;
+    let triggered = false;
+    let message = '';
+
+    switch (alertType) {
+      case 'above':
+      case 'below': {
+        observed = this.getUnderlyingPrice(ticker);
+        if (!observed) return null;
+        triggered = alertType === 'above'
+          ? observed.value >= alert.targetPrice
+          : observed.value <= alert.targetPrice;
+        message = `${ticker} is ${alertType} $${alert.targetPrice.toFixed(2)} (last $${observed.value.toFixed(2)})`;
+        break;
+      }
+
+      case 'percent_move': {
+        observed = this.getUnderlyingPrice(ticker);
+        if (!observed) return null;
+
+        // First observation becomes the baseline if the alert was created without one
+        if (!alert.referencePrice) {
+          await storage.updatePriceAlert(alert.id, { referencePrice: observed.value });
+          return null;
+        }
+
+        const movePercent = ((observed.value - alert.referencePrice) / alert.referencePrice) * 100;
+        triggered = alert.targetPrice >= 0
+          ? movePercent >= alert.targetPrice
+          : movePercent <= alert.targetPrice;
+        message = `${ticker} moved ${movePercent >= 0 ? '+' : ''}${movePercent.toFixed(2)}% from $${alert.referencePrice.toFixed(2)} (last $${observed.value.toFixed(2)})`;
+        break;
+      }
+
+      case 'crosses_vwap': {
+        observed = this.getUnderlyingPrice(ticker);
+        const vwap = await this.getVWAP(ticker);
+        if (!observed || !vwap) return null;
+
+        const side = observed.value >= vwap ? 'above' : 'below';
+        const previousSide = this.vwapSide.get(alert.id);
+        this.vwapSide.set(alert.id, side);
+
+        // Need a prior observation to detect a cross
+        triggered = previousSide !== undefined && previousSide !== side;
+        message = `${ticker} crossed ${side} VWAP $${vwap.toFixed(2)} (last $${observed.value.toFixed(2)})`;
+        break;
+      }
+
+      case 'premium_above':
+      case 'premium_below': {
+        if (!alert.optionSymbol) return null;
+        observed = this.getOptionPremium(alert.optionSymbol);
+        if (!observed) return null;
+        triggered = alertType === 'premium_above'
+          ? observed.value >= alert.targetPrice
+          : observed.value <= alert.targetPrice;
+        message = `${alert.optionSymbol} premium ${alertType === 'premium_above' ? 'above' : 'below'} $${alert.targetPrice.toFixed(2)} (mid $${observed.value.toFixed(2)})`;
+        break;
+      }
+
+      case 'iv_above': {
+        const iv = alert.optionSymbol
+          ? await this.getContractImpliedVolatility(alert.optionSymbol)
+          : await this.getImpliedVolatility(ticker);
+        if (iv === null) return null;
+        observed = { value: iv, source: 'polygon' };
+        triggered = iv >= alert.targetPrice;
+        message = `${alert.optionSymbol || ticker} implied volatility ${iv.toFixed(1)}% is above ${alert.targetPrice.toFixed(1)}%`;
+        break;
+      }
+
+      default:
+        console.warn(`⚠️ Unknown alert type '${alert.alertType}' for alert ${alert.id}`);
+        return null;
+    }
+
+    if (!triggered) {
+      await this.persistObservation(alert, observed.value);
+      return null;
+    }
+
+    const record = await storage.recordAlertTrigger(alert.id, {
+      alertId: alert.id,
+      ticker,
+      alertType: alert.alertType,
+      targetPrice: alert.targetPrice,
+      triggerValue: observed.value,
+      source: observed.source,
+      message
+    });
+
+    // Another evaluation already fired this alert
+    if (!record) {
+      return null;
+    }
+
+    this.vwapSide.delete(alert.id);
+    this.lastPersisted.delete(alert.id);
+    console.log(`🔔 ALERT TRIGGERED: ${message}`);
+
+    return {
+      id: record.id,
+      type: 'price_alert',
+      title: `${ticker} alert triggered`,
+      message,
+      ticker,
+      price: observed.value,
+      alertId: alert.id,
+      optionSymbol: alert.optionSymbol || undefined,
+      timestamp: record.triggeredAt || new Date(),
+      isRead: false
+    };
+  }
+
+  /**
+   * Write the latest observed value back to the alert (throttled)
+   */
+  private async persistObservation(alert: PriceAlert, value: number): Promise<void> {
+    const now = Date.now();
+    const last = this.lastPersisted.get(alert.id) || 0;
+    if (now - last < this.PERSIST_INTERVAL_MS) {
+      return;
+    }
+
+    this.lastPersisted.set(alert.id, now);
+    await storage.updatePriceAlert(alert.id, {
+      currentPrice: value,
+      lastEvaluatedAt: new Date()
+    });
+  }
+
+  /**
+   * Make sure the WebSocket services are streaming everything the alerts need,
+   * and release feeds for alerts that are no longer active
+   */
+  private ensureSubscriptions(alerts: PriceAlert[]): void {
+    const tickers = Array.from(new Set(alerts.map(a => a.ticker.toUpperCase())));
+    const optionSymbols = Array.from(new Set(alerts.filter(a => a.optionSymbol).map(a => a.optionSymbol!)));
+
+    quoteSubscriptionManager.acquire(this.SUBSCRIPTION_OWNER, { symbols: tickers, optionSymbols });
+
+    const held = quoteSubscriptionManager.getOwnerSubscriptions(this.SUBSCRIPTION_OWNER);
+    const stale = {
+      symbols: held.symbols.filter(t => !tickers.includes(t)),
+      optionSymbols: held.optionSymbols.filter(s => !optionSymbols.includes(s)),
+    };
+    if (stale.symbols.length > 0 || stale.optionSymbols.length > 0) {
+      quoteSubscriptionManager.release(this.SUBSCRIPTION_OWNER, stale);
+    }
+  }
+
+  /**
+   * Underlying last price: Polygon WebSocket → Tastytrade cache
+   */
+  private getUnderlyingPrice(ticker: string): ObservedValue | null {
+    const polygonQuote = polygonService.getQuote(ticker);
+    if (polygonQuote && polygonQuote.lastPrice > 0) {
+      return { value: polygonQuote.lastPrice, source: 'polygon' };
+    }
+
+    const tastyQuote = tastytradeService.getCachedQuote(ticker);
+    if (tastyQuote && tastyQuote.lastPrice > 0) {
+      return { value: tastyQuote.lastPrice, source: 'tastytrade' };
+    }
+
+    return null;
+  }
+
+  /**
+   * Option mid premium: Polygon WebSocket → Tastytrade cache
+   */
+  private getOptionPremium(optionSymbol: string): ObservedValue | null {
+    const polygonOption = polygonService.getCachedOptionQuote(optionSymbol);
+    if (polygonOption && polygonOption.premium > 0) {
+      return { value: polygonOption.premium, source: 'polygon' };
+    }
+
+    const tastyOption = tastytradeService.getCachedOptionPremium(optionSymbol);
+    if (tastyOption && tastyOption.premium > 0) {
+      return { value: tastyOption.premium, source: 'tastytrade' };
+    }
+
+    return null;
+  }
+
+  /**
+   * Drop per-alert state of alerts that were deleted, deactivated or triggered elsewhere
+   */
+  private pruneAlertState(alerts: PriceAlert[]): void {
+    const activeIds = new Set(alerts.map(a => a.id));
+    for (const map of [this.vwapSide, this.lastPersisted]) {
+      Array.from(map.keys())
+        .filter(id => !activeIds.has(id))
+        .forEach(id => map.delete(id));
+    }
+  }
+
+  /**
+   * Today's regular-session VWAP from fresh 1-minute bars (cached 1 minute per ticker)
+   */
+  private async getVWAP(ticker: string): Promise<number | null> {
+    const cached = this.vwapCache.get(ticker);
+    if (cached && Date.now() - cached.timestamp < this.VWAP_CACHE_TTL_MS) {
+      return cached.vwap;
+    }
+
+    // The minute-aggregates helper caches for 5 minutes, so read the uncached raw bars
+    const today = marketCalendar.toExchangeDate();
+    const session = marketCalendar.getSession(today);
+    const bars = session ? await polygonService.getRawIntradayBars(ticker, today, today, 1) : null;
+    if (!session || !bars) {
+      return null;
+    }
+
+    let priceVolume = 0;
+    let totalVolume = 0;
+    for (const bar of bars) {
+      if (bar.t < session.open.getTime() || bar.t >= session.close.getTime()) continue;
+      const typicalPrice = (bar.h + bar.l + bar.c) / 3;
+      priceVolume += typicalPrice * bar.v;
+      totalVolume += bar.v;
+    }
+
+    if (totalVolume === 0) {
+      return null;
+    }
+
+    const vwap = priceVolume / totalVolume;
+    this.vwapCache.set(ticker, { vwap, timestamp: Date.now() });
+    return vwap;
+  }
+
+  /**
+   * Implied volatility (%) of the most liquid contract (cached 5 minutes per ticker)
+   */
+  private async getImpliedVolatility(ticker: string): Promise<number | null> {
+    const cached = this.ivCache.get(ticker);
+    if (cached && Date.now() - cached.timestamp < this.IV_CACHE_TTL_MS) {
+      return cached.iv;
+    }
+
+    const greeks = await polygonService.getOptionsGreeks(ticker);
+    if (!greeks || !greeks.impliedVolatility) {
+      return null;
+    }
+
+    const iv = greeks.impliedVolatility * 100;
+    this.ivCache.set(ticker, { iv, timestamp: Date.now() });
+    return iv;
+  }
+
+  /**
+   * Implied volatility (%) of one contract (cached 5 minutes per contract)
+   */
+  private async getContractImpliedVolatility(optionSymbol: string): Promise<number | null> {
+    const cached = this.ivCache.get(optionSymbol);
+    if (cached && Date.now() - cached.timestamp < this.IV_CACHE_TTL_MS) {
+      return cached.iv;
+    }
+
+    const contract = parseOptionSymbol(optionSymbol);
+    if (!contract) {
+      return null;
+    }
+
+    const quote = await polygonService.getOptionQuote(contract.ticker, contract.strikePrice, contract.expiry, contract.optionType);
+    if (!quote || !quote.impliedVolatility) {
+      return null;
+    }
+
+    const iv = quote.impliedVolatility * 100;
+    this.ivCache.set(optionSymbol, { iv, timestamp: Date.now() });
+    return iv;
+  }
+
+  /**
+   * Push a notification to every registered listener
+   */
+  private dispatch(notification: AlertNotification): void {
+    this.handlers.forEach((handler, id) => {
+      try {
+        handler(notification);
+      } catch (error: any) {
+        console.error(`❌ Error in alert notification handler '${id}':`, error.message);
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const priceAlertEngine = PriceAlertEngine.getInstance();
@@ -0,0 +1,292 @@
+/**
+ * Quote Subscription Manager
+ *
+ * Reference-counts WebSocket quote subscriptions across consumers (SSE streams,
+ * price alert engine, ...) so Polygon and Tastytrade feeds stay open while anyone
+ * still needs them and are dropped when the last owner releases them.
+ *
+ * Keys:
+ * - Underlyings: uppercase stock tickers (e.g. SPY)
+ * - Options:     canonical OCC symbols (e.g. .SPY251113C00680000)
+ *
+ * Feeds that were already subscribed by someone outside the manager (startup
+ * watchlists, scanners) are left alone when the last owner releases them.
+ */
+
+import { polygonService } from './polygonService';
+import { tastytradeService } from './tastytradeService';
+import { normalizeOptionSymbol, toPolygonSubscriptionTopic, toTastytradeOptionSymbol } from '../utils/optionSymbols';
+
+export interface QuoteSubscriptionRequest {
+  symbols?: string[];
+  optionSymbols?: string[];
+}
+
+export interface OwnerSubscriptions {
+  symbols: string[];
+  optionSymbols: string[];
+}
+
+interface SubscriptionEntry {
+  owners: Set<string>;
+  // Providers this manager subscribed itself (and therefore may unsubscribe)
+  polygon: boolean;
+  tastytrade: boolean;
+}
+
+export class QuoteSubscriptionManager {
+  private static instance: QuoteSubscriptionManager | null = null;
+
+  private underlyings = new Map<string, SubscriptionEntry>();
+  private options = new Map<string, SubscriptionEntry>();
+
+  private constructor() {}
+
+  static getInstance(): QuoteSubscriptionManager {
+    if (!QuoteSubscriptionManager.instance) {
+      QuoteSubscriptionManager.instance = new QuoteSubscriptionManager();
+    }
+    return QuoteSubscriptionManager.instance;
+  }
+
+  /**
+   * Add subscriptions for an owner. Returns the keys that were newly acquired by this owner.
+   */
+  acquire(ownerId: string, request: QuoteSubscriptionRequest): OwnerSubscriptions {
+    const addedSymbols: string[] = [];
+    const addedOptions: string[] = [];
+    const newSymbols: string[] = [];
+    const newOptions: string[] = [];
+
+    for (const symbol of this.normalizeSymbols(request.symbols)) {
+      let entry = this.underlyings.get(symbol);
+      if (!entry) {
+        entry = { owners: new Set(), polygon: false, tastytrade: false };
+        this.underlyings.set(symbol, entry);
+        newSymbols.push(symbol);
+      }
+      if (!entry.owners.has(ownerId)) {
+        entry.owners.add(ownerId);
+        addedSymbols.push(symbol);
+      }
+    }
+
+    for (const optionSymbol of this.normalizeOptionSymbols(request.optionSymbols)) {
+      let entry = this.options.get(optionSymbol);
+      if (!entry) {
+        entry = { owners: new Set(), polygon: false, tastytrade: false };
+        this.options.set(optionSymbol, entry);
+        newOptions.push(optionSymbol);
+      }
+      if (!entry.owners.has(ownerId)) {
+        entry.owners.add(ownerId);
+        addedOptions.push(optionSymbol);
+      }
+    }
+
+    if (newSymbols.length > 0) {
+      this.subscribeUnderlyings(newSymbols);
+    }
+    if (newOptions.length > 0) {
+      this.subscribeOptions(newOptions);
+    }
+
+    return { symbols: addedSymbols, optionSymbols: addedOptions };
+  }
+
+  /**
+   * Remove subscriptions for an owner. Feeds with no remaining owners are unsubscribed.
+   */
+  release(ownerId: string, request: QuoteSubscriptionRequest): OwnerSubscriptions {
+    const removedSymbols: string[] = [];
+    const removedOptions: string[] = [];
+    const orphanedSymbols: string[] = [];
+    const orphanedOptions: string[] = [];
+
+    for (const symbol of this.normalizeSymbols(request.symbols)) {
+      const entry = this.underlyings.get(symbol);
+      if (!entry || !entry.owners.delete(ownerId)) continue;
+      removedSymbols.push(symbol);
+      if (entry.owners.size === 0) {
+        orphanedSymbols.push(symbol);
+      }
+    }
+
+    for (const optionSymbol of this.normalizeOptionSymbols(request.optionSymbols)) {
+      const entry = this.options.get(optionSymbol);
+      if (!entry || !entry.owners.delete(ownerId)) continue;
+      removedOptions.push(optionSymbol);
+      if (entry.owners.size === 0) {
+        orphanedOptions.push(optionSymbol);
+      }
+    }
+
+    if (orphanedSymbols.length > 0) {
+      this.unsubscribeUnderlyings(orphanedSymbols);
+    }
+    if (orphanedOptions.length > 0) {
+      this.unsubscribeOptions(orphanedOptions);
+    }
+
+    return { symbols: removedSymbols, optionSymbols: removedOptions };
+  }
+
+  /**
+   * Release everything held by an owner (e.g. when an SSE client disconnects)
+   */
+  releaseAll(ownerId: string): void {
+    this.release(ownerId, this.getOwnerSubscriptions(ownerId));
+  }
+
+  /**
+   * List the keys currently held by an owner
+   */
+  getOwnerSubscriptions(ownerId: string): OwnerSubscriptions {
+    const symbols: string[] = [];
+    const optionSymbols: string[] = [];
+    this.underlyings.forEach((entry, symbol) => {
+      if (entry.owners.has(ownerId)) symbols.push(symbol);
+    });
+    this.options.forEach((entry, optionSymbol) => {
+      if (entry.owners.has(ownerId)) optionSymbols.push(optionSymbol);
+    });
+    return { symbols, optionSymbols };
+  }
+
+  /**
+   * Subscription counts for health/debug endpoints
+   */
+  getStats(): { underlyings: number; options: number; owners: number } {
+    const owners = new Set<string>();
+    this.underlyings.forEach(entry => entry.owners.forEach(o => owners.add(o)));
+    this.options.forEach(entry => entry.owners.forEach(o => owners.add(o)));
+    return {
+      underlyings: this.underlyings.size,
+      options: this.options.size,
+      owners: owners.size,
+    };
+  }
+
+  private normalizeSymbols(symbols?: string[]): string[] {
+    if (!symbols) return [];
+    return Array.from(new Set(
+      symbols.map(s => s.trim().toUpperCase()).filter(s => /^[A-Z.]{1,10}$/.test(s))
+    ));
+  }
+
+  private normalizeOptionSymbols(optionSymbols?: string[]): string[] {
+    if (!optionSymbols) return [];
+    return Array.from(new Set(
+      optionSymbols
+        .map(s => normalizeOptionSymbol(s.trim().toUpperCase()))
+        .filter(s => /^\.[A-Z]+\d{6}[CP]\d{8}$/.test(s))
+    ));
+  }
+
+  private subscribeUnderlyings(symbols: string[]): void {
+    const polygonSymbols: string[] = [];
+    const tastySymbols: string[] = [];
+
+    for (const symbol of symbols) {
+      const entry = this.underlyings.get(symbol)!;
+      if (polygonService.isServiceConnected() && !polygonService.isSymbolSubscribed(symbol)) {
+        entry.polygon = true;
+        polygonSymbols.push(symbol);
+      }
+      if (tastytradeService.isServiceConnected() && !tastytradeService.isSymbolSubscribed(symbol)) {
+        entry.tastytrade = true;
+        tastySymbols.push(symbol);
+      }
+    }
+
+    if (polygonSymbols.length > 0) {
+      polygonService.subscribeToSymbols(polygonSymbols).catch(err => {
+        console.warn('⚠️ Polygon stock subscription failed:', err.message);
+      });
+    }
+    if (tastySymbols.length > 0) {
+      tastytradeService.subscribeToSymbols(tastySymbols).catch(err => {
+        console.warn('⚠️ Tastytrade stock subscription failed:', err.message);
+      });
+    }
+  }
+
+  private unsubscribeUnderlyings(symbols: string[]): void {
+    const polygonSymbols: string[] = [];
+    const tastySymbols: string[] = [];
+
+    for (const symbol of symbols) {
+      const entry = this.underlyings.get(symbol)!;
+      if (entry.polygon) polygonSymbols.push(symbol);
+      if (entry.tastytrade) tastySymbols.push(symbol);
+      this.underlyings.delete(symbol);
+    }
+
+    if (polygonSymbols.length > 0) {
+      polygonService.unsubscribeFromSymbols(polygonSymbols).catch(err => {
+        console.warn('⚠️ Polygon stock unsubscribe failed:', err.message);
+      });
+    }
+    if (tastySymbols.length > 0) {
+      tastytradeService.unsubscribeFromSymbols(tastySymbols).catch(err => {
+        console.warn('⚠️ Tastytrade stock unsubscribe failed:', err.message);
+      });
+    }
+  }
+
+  private subscribeOptions(optionSymbols: string[]): void {
+    const polygonTopics: string[] = [];
+    const tastySymbols: string[] = [];
+
+    for (const optionSymbol of optionSymbols) {
+      const entry = this.options.get(optionSymbol)!;
+      // Polygon queues option quote subscriptions until the socket is ready
+      const polygonTopic = toPolygonSubscriptionTopic(optionSymbol);
+      if (!polygonService.isOptionQuoteSubscribed(polygonTopic)) {
+        entry.polygon = true;
+        polygonTopics.push(polygonTopic);
+      }
+      const tastySymbol = toTastytradeOptionSymbol(optionSymbol);
+      if (tastytradeService.isServiceConnected() && !tastytradeService.isSymbolSubscribed(tastySymbol)) {
+        entry.tastytrade = true;
+        tastySymbols.push(tastySymbol);
+      }
+    }
+
+    if (polygonTopics.length > 0) {
+      polygonService.subscribeToOptionQuotes(polygonTopics).catch(err => {
+        console.warn('⚠️ Polygon option subscription failed:', err.message);
+      });
+    }
+    if (tastySymbols.length > 0) {
+      tastytradeService.subscribeToOptionSymbols(tastySymbols).catch(err => {
+        console.warn('⚠️ Tastytrade option subscription failed:', err.message);
+      });
+    }
+  }
+
+  private unsubscribeOptions(optionSymbols: string[]): void {
+    const polygonTopics: string[] = [];
+    const tastySymbols: string[] = [];
+
+    for (const optionSymbol of optionSymbols) {
+      const entry = this.options.get(optionSymbol)!;
+      if (entry.polygon) polygonTopics.push(toPolygonSubscriptionTopic(optionSymbol));
+      if (entry.tastytrade) tastySymbols.push(toTastytradeOptionSymbol(optionSymbol));
+      this.options.delete(optionSymbol);
+    }
+
+    if (polygonTopics.length > 0) {
+      polygonService.unsubscribeFromOptionQuotes(polygonTopics).catch(err => {
+        console.warn('⚠️ Polygon option unsubscribe failed:', err.message);
+      });
+    }
+    if (tastySymbols.length > 0) {
+      tastytradeService.unsubscribeFromOptionSymbols(tastySymbols).catch(err => {
+        console.warn('⚠️ Tastytrade option unsubscribe failed:', err.message);
+      });
+    }
+  }
+}
+
+export const quoteSubscriptionManager = QuoteSubscriptionManager.getInstance();
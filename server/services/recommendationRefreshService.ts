@@ -11,6 +11,7 @@ import { storage } from '../storage';
 import { RecommendationValidator } from './recommendationValidator';
 import { eliteScanner, type EliteScanResult } from './eliteScanner';
 import { polygonService } from './polygonService';
+import { executionCostModel } from './executionCostModel';
 import type { TradeRecommendation } from '@shared/schema';
 
 export class RecommendationRefreshService {
@@ -81,6 +82,12 @@ export class RecommendationRefreshService {
     const profit = totalExitValue - totalCost;
     const projectedROI = (profit / totalCost) * 100;
     const projectedROIAmount = totalExitValue;
+    const { netROI: netProjectedROI, totalCosts: executionCost } = executionCostModel.calculateRoundTrip({
+      ticker: result.symbol,
+      contracts,
+      entryPremium: premium,
+      exitPremium: exitPrice
+    });
     
     // Format option symbol for Polygon WebSocket live premium tracking
     const optionSymbol = this.formatOptionSymbol(result.symbol, result.strike, result.expiry, result.optionType);
@@ -101,6 +108,8 @@ export class RecommendationRefreshService {
       contracts,
       projectedROI,
       projectedROIAmount,
+      netProjectedROI,
+      executionCost,
       aiConfidence: result.signalQuality,
       greeks: {
         delta: result.delta,
@@ -232,6 +241,8 @@ export class RecommendationRefreshService {
               totalCost: rec.totalCost,
               contracts: rec.contracts,
               projectedROI: rec.projectedROI,
+              netProjectedROI: rec.netProjectedROI ?? null,
+              executionCost: rec.executionCost ?? null,
               aiConfidence: rec.aiConfidence,
               greeks: rec.greeks,
               sentiment: rec.sentiment,
@@ -7,9 +7,12 @@
 
 import { db } from '../db';
 import { recommendationTracking, recommendationPerformance, strategyParameters } from '@shared/schema';
-import type { TradeRecommendation } from '@shared/schema';
+import type { MarketRegime, TradeRecommendation } from '@shared/schema';
 import { eq, and, gte, desc } from 'drizzle-orm';
 import { EliteStrategyEngine } from './eliteStrategyEngine';
+import { executionCostModel, type QuoteSide } from './executionCostModel';
+
+const AUTO_TUNER_ACTOR = 'auto-tuner';
 
 export class RecommendationTracker {
   
@@ -29,8 +32,17 @@ export class RecommendationTracker {
     }
   ): Promise<string> {
     
-    // Get current active strategy version
-    const activeParams = await this.getActiveParameters();
+    // Regime known at entry (last session close); tracking continues without it
+    let marketRegime: MarketRegime | null = null;
+    try {
+      const { marketRegimeService } = await import('./marketRegimeService');
+      marketRegime = (await marketRegimeService.getCurrentRegime()).regime;
+    } catch (error: any) {
+      console.warn(`⚠️ Market regime unavailable for ${recommendation.ticker}:`, error.message);
+    }
+    
+    // Get current active strategy version (regime-specific set when one is active)
+    const activeParams = await this.getActiveParameters(marketRegime);
     const strategyVersion = activeParams?.version || `v${Date.now()}`;
     
     // Insert tracking record
@@ -75,10 +87,11 @@ export class RecommendationTracker {
         deltaMax: activeParams.deltaMax
       } : EliteStrategyEngine.getInstance().getConfig(),
       
-      status: 'monitoring'
+      status: 'monitoring',
+      marketRegime
     }).returning();
     
-    console.log(`📊 Tracked ${recommendation.ticker} ${recommendation.optionType.toUpperCase()} - ${recommendationType} (ID: ${tracked.id})`);
+    console.log(`📊 Tracked ${recommendation.ticker} ${recommendation.optionType.toUpperCase()} - ${recommendationType}${marketRegime ? `, ${marketRegime} regime` : ''} (ID: ${tracked.id})`);
     
     return tracked.id;
   }
@@ -93,6 +106,7 @@ export class RecommendationTracker {
       exitPrice: number;
       exitPremium: number;
       exitReason: 'profit_target' | 'stop_loss' | 'time_based' | 'manual' | 'expiry';
+      exitQuote?: QuoteSide | null; // Bid/ask at exit, used for the net fill when available
     }
   ): Promise<void> {
     
@@ -107,38 +121,62 @@ export class RecommendationTracker {
       return;
     }
     
-    // Calculate actual performance
-    const actualROI = ((outcome.exitPremium - rec.premium) / rec.premium) * 100;
-    const actualProfit = (outcome.exitPremium - rec.premium) * rec.contracts * 100;
+    // Calculate actual performance (net of spread, ticks and fees; gross kept alongside)
+    const costs = executionCostModel.calculateRoundTrip({
+      ticker: rec.ticker,
+      contracts: rec.contracts,
+      entryPremium: rec.premium,
+      exitPremium: outcome.exitPremium,
+      exitQuote: outcome.exitQuote
+    });
+    const actualROI = costs.netROI;
+    const actualProfit = costs.netPnL;
     const holdDays = Math.floor((outcome.exitDate.getTime() - new Date(rec.recommendedAt || new Date()).getTime()) / (1000 * 60 * 60 * 24));
     
-    // Determine win/loss based on outcome
-    const isWin = actualROI >= (rec.parameters as any).profitTarget * 100; // Hit profit target
-    const isLoss = actualROI <= -(rec.parameters as any).stopLoss * 100; // Hit stop loss
+    // Determine win/loss based on outcome (targets/stops trigger on quoted premium)
+    const isWin = costs.grossROI >= (rec.parameters as any).profitTarget * 100; // Hit profit target
+    const isLoss = costs.grossROI <= -(rec.parameters as any).stopLoss * 100; // Hit stop loss
+    
+    // Intraday monitoring keeps running extremes on an open performance row; fold the exit into them
+    const [existing] = await db.select()
+      .from(recommendationPerformance)
+      .where(eq(recommendationPerformance.recommendationId, recommendationId))
+      .limit(1);
+    const maxProfit = Math.max(existing?.maxProfit ?? 0, costs.grossROI, 0);
+    const maxDrawdown = Math.min(existing?.maxDrawdown ?? 0, costs.grossROI, 0);
     
     // Insert or update performance record
-    const [perf] = await db.insert(recommendationPerformance).values({
-      recommendationId,
+    const outcomeValues = {
       exitDate: outcome.exitDate,
       exitPrice: outcome.exitPrice,
       exitPremium: outcome.exitPremium,
       actualROI,
       actualProfit,
+      grossROI: costs.grossROI,
+      grossProfit: costs.grossPnL,
+      executionCosts: costs.totalCosts,
       exitReason: outcome.exitReason,
       holdDays,
-      maxDrawdown: null, // TODO: Track intraday if monitoring
-      maxProfit: actualROI > 0 ? actualROI : 0,
+      maxDrawdown,
+      maxProfit,
       isWin,
       isLoss,
       closedAt: new Date()
-    }).returning();
+    };
+    if (existing) {
+      await db.update(recommendationPerformance)
+        .set({ ...outcomeValues, updatedAt: new Date() })
+        .where(eq(recommendationPerformance.id, existing.id));
+    } else {
+      await db.insert(recommendationPerformance).values({ recommendationId, ...outcomeValues });
+    }
     
     // Update recommendation status
     await db.update(recommendationTracking)
       .set({ status: 'closed' })
       .where(eq(recommendationTracking.id, recommendationId));
     
-    console.log(`✅ Recorded ${rec.ticker} outcome: ${actualROI.toFixed(1)}% ROI (${isWin ? 'WIN' : isLoss ? 'LOSS' : 'NEUTRAL'})`);
+    console.log(`✅ Recorded ${rec.ticker} outcome: ${actualROI.toFixed(1)}% net ROI, ${costs.grossROI.toFixed(1)}% gross (${isWin ? 'WIN' : isLoss ? 'LOSS' : 'NEUTRAL'})`);
     
     // Check if we need to adjust parameters
     await this.checkAndAdjustParameters();
@@ -221,26 +259,22 @@ export class RecommendationTracker {
   }
   
   /**
-   * Adjust strategy parameters to improve win rate
+   * Propose more conservative parameters to improve win rate.
+   * The proposal waits for human approval (see StrategyVersionService) - the live
+   * config is not changed here.
    */
   static async adjustParameters(reason: string, currentMetrics: any): Promise<void> {
-    const currentConfig = EliteStrategyEngine.getInstance().getConfig();
-    const activeParams = await this.getActiveParameters();
-    
-    // Deactivate current parameters
-    if (activeParams) {
-      await db.update(strategyParameters)
-        .set({
-          isActive: false,
-          deactivatedAt: new Date(),
-          winRate: currentMetrics.winRate,
-          avgROI: currentMetrics.avgROI,
-          profitFactor: currentMetrics.profitFactor,
-          totalTrades: currentMetrics.totalTrades
-        })
-        .where(eq(strategyParameters.id, activeParams.id));
+    const { strategyVersionService } = await import('./strategyVersionService');
+    
+    // One open auto-tuner proposal at a time
+    const pending = await strategyVersionService.listVersions('proposed');
+    if (pending.some(p => p.proposedBy === AUTO_TUNER_ACTOR)) {
+      console.log('⏳ Auto-tuner proposal already awaiting review - not proposing another');
+      return;
     }
     
+    const currentConfig = EliteStrategyEngine.getInstance().getConfig();
+    
     // Calculate new parameters (more conservative to boost win rate)
     const newConfig = {
       rsiOversold: Math.min(45, currentConfig.rsiOversold + 2), // More conservative entry
@@ -257,51 +291,31 @@ export class RecommendationTracker {
       deltaMax: currentConfig.deltaMax
     };
     
-    // Create new parameter version
-    const newVersion = `v${Date.now()}`;
-    await db.insert(strategyParameters).values({
-      version: newVersion,
-      rsiOversold: newConfig.rsiOversold,
-      rsiOverbought: newConfig.rsiOverbought,
-      vixMinCall: newConfig.vixMinCall,
-      vixMinPut: newConfig.vixMinPut,
-      stopLoss: newConfig.stopLoss,
-      profitTarget: newConfig.profitTarget,
-      partialProfitLevel: newConfig.partialProfitLevel,
-      partialProfitPercent: newConfig.partialProfitPercent,
-      emaLength: newConfig.emaLength,
-      atrMultiplier: newConfig.atrMultiplier,
-      deltaMin: newConfig.deltaMin,
-      deltaMax: newConfig.deltaMax,
-      winRate: null, // Will be filled as data comes in
-      avgROI: null,
-      profitFactor: null,
-      totalTrades: 0,
-      adjustmentReason: `${reason} - Previous: ${currentMetrics.winRate.toFixed(1)}% win rate`,
-      previousVersion: activeParams?.version || null,
-      isActive: true
-    });
+    const proposal = await strategyVersionService.propose(
+      newConfig,
+      AUTO_TUNER_ACTOR,
+      `${reason} - Previous: ${currentMetrics.winRate.toFixed(1)}% win rate`
+    );
     
-    // Update elite strategy engine
-    EliteStrategyEngine.getInstance().updateConfig(newConfig);
-    
-    console.log(`🎯 Parameters adjusted to boost win rate:`);
-    console.log(`   RSI: ${newConfig.rsiOversold}/${newConfig.rsiOverbought} (was ${currentConfig.rsiOversold}/${currentConfig.rsiOverbought})`);
-    console.log(`   VIX: ${newConfig.vixMinCall}/${newConfig.vixMinPut} (was ${currentConfig.vixMinCall}/${currentConfig.vixMinPut})`);
-    console.log(`   Stop/Target: ${(newConfig.stopLoss * 100).toFixed(0)}%/${(newConfig.profitTarget * 100).toFixed(0)}% (was ${(currentConfig.stopLoss * 100).toFixed(0)}%/${(currentConfig.profitTarget * 100).toFixed(0)}%)`);
+    console.log(`🎯 Proposed parameter adjustment ${proposal.version} to boost win rate:`);
+    console.log(`   RSI: ${newConfig.rsiOversold}/${newConfig.rsiOverbought} (now ${currentConfig.rsiOversold}/${currentConfig.rsiOverbought})`);
+    console.log(`   VIX: ${newConfig.vixMinCall}/${newConfig.vixMinPut} (now ${currentConfig.vixMinCall}/${currentConfig.vixMinPut})`);
+    console.log(`   Stop/Target: ${(newConfig.stopLoss * 100).toFixed(0)}%/${(newConfig.profitTarget * 100).toFixed(0)}% (now ${(currentConfig.stopLoss * 100).toFixed(0)}%/${(currentConfig.profitTarget * 100).toFixed(0)}%)`);
   }
   
   /**
-   * Get currently active parameters
+   * Get currently active parameters: the set scoped to `marketRegime` when one is
+   * active, otherwise the base set
    */
-  static async getActiveParameters() {
-    const [active] = await db.select()
+  static async getActiveParameters(marketRegime?: MarketRegime | null) {
+    const active = await db.select()
       .from(strategyParameters)
       .where(eq(strategyParameters.isActive, true))
-      .orderBy(desc(strategyParameters.activatedAt))
-      .limit(1);
+      .orderBy(desc(strategyParameters.activatedAt));
     
-    return active || null;
+    return (marketRegime && active.find(p => p.marketRegime === marketRegime))
+      || active.find(p => !p.marketRegime)
+      || null;
   }
   
   /**
@@ -333,7 +347,9 @@ export class RecommendationTracker {
       totalTrades: 0,
       adjustmentReason: 'Initial elite strategy parameters',
       previousVersion: null,
-      isActive: true
+      isActive: true,
+      status: 'active',
+      proposedBy: 'system'
     });
     
     console.log(`✅ Initialized default elite strategy parameters`);
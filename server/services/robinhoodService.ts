@@ -113,6 +113,7 @@ class RobinhoodService {
             closeDate: null,
             status: 'open',
             broker: 'robinhood',
+            source: 'broker',
             metadata: {
               instrumentUrl: pos.instrument,
               accountUrl: pos.account,
@@ -170,8 +171,10 @@ class RobinhoodService {
 
           const optionInstrument = await this.auth.api.options(opt.option);
           
-          const quantity = parseFloat(opt.quantity);
-          const avgCost = parseFloat(opt.average_price);
+          // Signed quantity: short legs are negative (direction lives in the quantity, not the price)
+          const size = Math.abs(parseFloat(opt.quantity));
+          const quantity = opt.type === 'short' ? -size : size;
+          const avgCost = Math.abs(parseFloat(opt.average_price));
           const currentPrice = parseFloat(optionInstrument.mark_price || avgCost);
           const unrealizedPnL = (currentPrice - avgCost) * quantity * 100;
 
@@ -193,6 +196,7 @@ class RobinhoodService {
             closeDate: null,
             status: 'open',
             broker: 'robinhood',
+            source: 'broker',
             metadata: {
               strike,
               expiry,
@@ -0,0 +1,543 @@
+/**
+ * Sector Performance Service
+ *
+ * Real sector/industry rotation computed from the bulk stock snapshot
+ * (`batchDataService.getStockUniverse()`) joined with Polygon ticker classifications.
+ *
+ * - Classifications come from `polygonService.fetchTickerDetails` (SIC code, name, market cap)
+ *   and are cached in `ticker_classifications`. A background pass classifies the most liquid
+ *   symbols that are missing or older than CLASSIFICATION_TTL_DAYS, a batch at a time.
+ * - SIC codes are mapped onto GICS-style sectors; the SIC description is used as the industry.
+ * - Returns are market-cap weighted and equal weighted over 1D (bulk snapshot change) and
+ *   5D/1M (against the close 5/21 sessions back in the historical bar cache).
+ * - Breadth counts advancers/decliners on the day.
+ *
+ * The Elite scanner reads `evaluateForScanner` to score or filter setups by sector strength;
+ * its mode lives in `app_config` under `sector_rotation`.
+ */
+
+import { db } from '../db';
+import {
+  appConfig,
+  tickerClassifications,
+  type IndustryPerformance,
+  type SectorPerformance,
+  type SectorPerformanceSnapshot,
+  type SectorRotationSettings,
+  type SectorWindow,
+  type SectorWindowReturns,
+  type TickerClassification,
+} from '@shared/schema';
+import { eq } from 'drizzle-orm';
+import { polygonService } from './polygonService';
+import { batchDataService, type StockSnapshot } from './batchDataService';
+import { historicalDataCache, type HistoricalBar } from './historicalDataCache';
+import { marketCalendar } from './marketCalendar';
+
+const CONFIG_KEY = 'sector_rotation';
+const WINDOWS: SectorWindow[] = ['1D', '5D', '1M'];
+const WINDOW_SESSIONS: Record<SectorWindow, number> = { '1D': 1, '5D': 5, '1M': 21 };
+
+const SNAPSHOT_TTL_MS = 60 * 1000;
+const CLASSIFICATION_TTL_DAYS = 30;
+const CLASSIFY_UNIVERSE_SIZE = 1500; // Most liquid symbols (by dollar volume) kept classified
+const CLASSIFY_BATCH_SIZE = 250; // Ticker detail requests per background pass
+const CLASSIFY_DELAY_MS = 100;
+const CLASSIFY_INTERVAL_MS = 60 * 60 * 1000;
+const MIN_PRICE = 1;
+const MAX_ABS_RETURN = 75; // % — clamps bad prints and reverse splits out of sector averages
+const MIN_INDUSTRY_CONSTITUENTS = 3;
+
+const DEFAULT_SETTINGS: SectorRotationSettings = {
+  scannerMode: 'score',
+  window: '5D',
+  minRelativeStrength: 0,
+};
+
+/**
+ * Invalid sector rotation settings
+ */
+export class SectorPerformanceError extends Error {
+  constructor(message: string, public readonly statusCode: 400 | 404 = 400) {
+    super(message);
+    this.name = 'SectorPerformanceError';
+  }
+}
+
+export interface SectorScannerEvaluation {
+  pass: boolean;
+  scoreAdjustment: number; // Signal quality points (−10…+10), 0 when mode is 'off'
+  sector: string | null;
+  relativeStrength: number | null;
+  label: string | null;
+}
+
+/**
+ * Map a 4-digit SIC code onto a GICS-style sector (null for funds, blank checks and unknown codes)
+ */
+export function mapSicToSector(sicCode: string | null | undefined): string | null {
+  const sic = parseInt(sicCode || '', 10);
+  if (!Number.isFinite(sic) || sic <= 0) return null;
+
+  if (sic < 1000) return 'Consumer Staples'; // Agriculture, forestry, fishing
+  if (sic >= 1300 && sic < 1400) return 'Energy'; // Oil & gas extraction
+  if (sic < 1500) return 'Materials'; // Metal, coal and mineral mining
+  if (sic < 1800) return 'Industrials'; // Construction
+  if (sic < 2200) return 'Consumer Staples'; // Food, beverages, tobacco
+  if (sic < 2400) return 'Consumer Discretionary'; // Textiles, apparel
+  if (sic >= 2500 && sic < 2600) return 'Consumer Discretionary'; // Furniture
+  if (sic < 2700) return 'Materials'; // Lumber, paper
+  if (sic < 2800) return 'Communication Services'; // Printing & publishing
+  if (sic >= 2830 && sic < 2840) return 'Healthcare'; // Pharmaceuticals, biologicals
+  if (sic >= 2840 && sic < 2850) return 'Consumer Staples'; // Soaps, cosmetics
+  if (sic < 2900) return 'Materials'; // Chemicals
+  if (sic < 3000) return 'Energy'; // Petroleum refining
+  if (sic >= 3100 && sic < 3200) return 'Consumer Discretionary'; // Leather goods
+  if (sic < 3400) return 'Materials'; // Rubber, plastics, glass, primary metals
+  if (sic >= 3570 && sic < 3580) return 'Technology'; // Computers & office equipment
+  if (sic < 3600) return 'Industrials'; // Fabricated metal, machinery
+  if (sic >= 3630 && sic < 3640) return 'Consumer Discretionary'; // Household appliances
+  if (sic < 3700) return 'Technology'; // Electronics, semiconductors, communications equipment
+  if ((sic >= 3710 && sic < 3720) || (sic >= 3750 && sic < 3760)) return 'Consumer Discretionary'; // Autos, motorcycles
+  if (sic < 3800) return 'Industrials'; // Aerospace, ships, rail equipment
+  if (sic >= 3840 && sic < 3852) return 'Healthcare'; // Medical instruments & supplies
+  if (sic < 3900) return 'Technology'; // Measuring & control instruments
+  if (sic < 4000) return 'Consumer Discretionary'; // Toys, jewelry, misc. manufacturing
+  if (sic < 4800) return 'Industrials'; // Transportation
+  if (sic < 4900) return 'Communication Services'; // Telecom, broadcasting
+  if (sic < 5000) return 'Utilities';
+  if (sic < 5200) return 'Industrials'; // Wholesale
+  if (sic >= 5400 && sic < 5500) return 'Consumer Staples'; // Grocery stores
+  if (sic === 5912) return 'Consumer Staples'; // Drug stores
+  if (sic < 6000) return 'Consumer Discretionary'; // Retail, restaurants
+  if (sic === 6798 || (sic >= 6500 && sic < 6600)) return 'Real Estate'; // REITs, real estate
+  if (sic === 6770) return null; // Blank checks (SPACs)
+  if (sic < 6800) return 'Financials';
+  if (sic < 7000) return null; // Trusts and funds
+  if (sic >= 7310 && sic < 7320) return 'Communication Services'; // Advertising
+  if (sic >= 7370 && sic < 7380) return 'Technology'; // Software & IT services
+  if (sic >= 7800 && sic < 7900) return 'Communication Services'; // Motion pictures
+  if (sic >= 7300 && sic < 7400) return 'Industrials'; // Business services
+  if (sic < 8000) return 'Consumer Discretionary'; // Hotels, personal services, amusement
+  if (sic < 8100) return 'Healthcare'; // Health services
+  if (sic >= 8200 && sic < 8300) return 'Consumer Discretionary'; // Education
+  if (sic === 8731) return 'Healthcare'; // Commercial biological research
+  if (sic < 9000) return 'Industrials'; // Engineering, management, other services
+  return null; // Public administration, non-classifiable
+}
+
+function formatIndustry(description: string | null | undefined): string | null {
+  if (!description) return null;
+  return description
+    .toLowerCase()
+    .replace(/\b[a-z]/g, c => c.toUpperCase())
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+interface Constituent {
+  symbol: string;
+  sector: string;
+  industry: string | null;
+  weight: number | null; // Market cap; null = excluded from the cap-weighted average
+  returns: SectorWindowReturns;
+}
+
+interface Aggregate {
+  constituents: number;
+  capWeighted: SectorWindowReturns;
+  equalWeighted: SectorWindowReturns;
+  advancers: number;
+  decliners: number;
+  unchanged: number;
+}
+
+export class SectorPerformanceService {
+  private static instance: SectorPerformanceService | null = null;
+  private settings: SectorRotationSettings = { ...DEFAULT_SETTINGS };
+  private classifications = new Map<string, TickerClassification>();
+  private snapshot: SectorPerformanceSnapshot | null = null;
+  private snapshotExpiresAt = 0;
+  private computePromise: Promise<SectorPerformanceSnapshot> | null = null;
+  private classifyInterval: NodeJS.Timeout | null = null;
+  private isClassifying = false;
+  private failedLookups = new Set<string>(); // Symbols without ticker details this process
+
+  private constructor() {}
+
+  static getInstance(): SectorPerformanceService {
+    if (!SectorPerformanceService.instance) {
+      SectorPerformanceService.instance = new SectorPerformanceService();
+    }
+    return SectorPerformanceService.instance;
+  }
+
+  /**
+   * Load settings and cached classifications, then keep the liquid universe classified
+   */
+  async start(): Promise<void> {
+    try {
+      const [row] = await db.select().from(appConfig).where(eq(appConfig.key, CONFIG_KEY)).limit(1);
+      if (row) {
+        this.settings = this.validate(JSON.parse(row.value), DEFAULT_SETTINGS);
+      }
+    } catch (error: any) {
+      console.warn('⚠️ Failed to load sector rotation settings, using defaults:', error.message);
+    }
+
+    const rows = await db.select().from(tickerClassifications);
+    for (const row of rows) {
+      this.classifications.set(row.symbol, row);
+    }
+    console.log(`🏭 Sector performance ready (${rows.length} classified tickers, scanner mode: ${this.settings.scannerMode})`);
+
+    if (this.classifyInterval) clearInterval(this.classifyInterval);
+    this.classifyInterval = setInterval(() => {
+      this.classifyUniverse().catch(err => console.error('❌ Ticker classification pass failed:', err.message));
+    }, CLASSIFY_INTERVAL_MS);
+    this.classifyUniverse().catch(err => console.error('❌ Ticker classification pass failed:', err.message));
+  }
+
+  stop(): void {
+    if (this.classifyInterval) {
+      clearInterval(this.classifyInterval);
+      this.classifyInterval = null;
+    }
+  }
+
+  getSettings(): SectorRotationSettings {
+    return { ...this.settings };
+  }
+
+  /**
+   * Persist new settings (partial updates are merged onto the current settings)
+   */
+  async updateSettings(updates: Partial<SectorRotationSettings>): Promise<SectorRotationSettings> {
+    const next = this.validate(updates, this.settings);
+    const value = JSON.stringify(next);
+
+    await db.insert(appConfig)
+      .values({
+        key: CONFIG_KEY,
+        value,
+        description: 'Sector strength usage in the Elite scanner',
+        updatedAt: new Date()
+      })
+      .onConflictDoUpdate({
+        target: appConfig.key,
+        set: { value, updatedAt: new Date() }
+      });
+
+    this.settings = next;
+    console.log(`🏭 Sector rotation settings updated (mode: ${next.scannerMode}, window: ${next.window}, min RS: ${next.minRelativeStrength})`);
+    return this.getSettings();
+  }
+
+  getClassification(symbol: string): TickerClassification | null {
+    return this.classifications.get(symbol.toUpperCase()) || null;
+  }
+
+  /**
+   * Sector and industry performance across all windows (cached for a minute)
+   */
+  async getSectorPerformance(): Promise<SectorPerformanceSnapshot> {
+    if (this.snapshot && Date.now() < this.snapshotExpiresAt) {
+      return this.snapshot;
+    }
+    if (!this.computePromise) {
+      this.computePromise = this.compute()
+        .then(snapshot => {
+          this.snapshot = snapshot;
+          this.snapshotExpiresAt = Date.now() + SNAPSHOT_TTL_MS;
+          return snapshot;
+        })
+        .finally(() => {
+          this.computePromise = null;
+        });
+    }
+    return this.computePromise;
+  }
+
+  /**
+   * Sector-strength verdict for a setup, using the last computed snapshot.
+   * Callers refresh the snapshot once per scan via getSectorPerformance().
+   */
+  evaluateForScanner(symbol: string, optionType: 'call' | 'put'): SectorScannerEvaluation {
+    const neutral: SectorScannerEvaluation = { pass: true, scoreAdjustment: 0, sector: null, relativeStrength: null, label: null };
+    if (this.settings.scannerMode === 'off' || !this.snapshot) return neutral;
+
+    const classification = this.classifications.get(symbol.toUpperCase());
+    if (!classification?.sector) return neutral;
+
+    const sector = this.snapshot.sectors.find(s => s.name === classification.sector);
+    const relativeStrength = sector?.relativeStrength[this.settings.window];
+    if (relativeStrength === null || relativeStrength === undefined) {
+      return { ...neutral, sector: classification.sector };
+    }
+
+    // Positive alignment = calls in leading sectors, puts in lagging ones
+    const aligned = optionType === 'call' ? relativeStrength : -relativeStrength;
+    const pass = this.settings.scannerMode !== 'filter' || aligned >= this.settings.minRelativeStrength;
+    const scoreAdjustment = Math.max(-10, Math.min(10, aligned * 2));
+    const sign = relativeStrength >= 0 ? '+' : '';
+
+    return {
+      pass,
+      scoreAdjustment: Math.round(scoreAdjustment * 10) / 10,
+      sector: classification.sector,
+      relativeStrength,
+      label: `${classification.sector} ${sign}${relativeStrength.toFixed(1)}% vs market (${this.settings.window})`,
+    };
+  }
+
+  /**
+   * Classify the most liquid unclassified or stale symbols, one batch per pass
+   */
+  async classifyUniverse(): Promise<number> {
+    if (this.isClassifying) return 0;
+    this.isClassifying = true;
+
+    try {
+      const universe = await batchDataService.getStockUniverse();
+      const staleBefore = Date.now() - CLASSIFICATION_TTL_DAYS * 24 * 60 * 60 * 1000;
+
+      const pending = universe
+        .filter(s => s.price >= MIN_PRICE && s.volume > 0)
+        .sort((a, b) => b.price * b.volume - a.price * a.volume)
+        .slice(0, CLASSIFY_UNIVERSE_SIZE)
+        .map(s => s.ticker)
+        .filter(symbol => {
+          if (this.failedLookups.has(symbol)) return false;
+          const existing = this.classifications.get(symbol);
+          return !existing || !existing.updatedAt || existing.updatedAt.getTime() < staleBefore;
+        })
+        .slice(0, CLASSIFY_BATCH_SIZE);
+
+      if (pending.length === 0) return 0;
+      console.log(`🏭 Classifying ${pending.length} ticker(s) from Polygon reference data...`);
+
+      let classified = 0;
+      for (const symbol of pending) {
+        const details = await polygonService.fetchTickerDetails(symbol);
+        if (!details) {
+          this.failedLookups.add(symbol);
+        } else {
+          const values = {
+            symbol,
+            name: details.name ?? null,
+            tickerType: details.type ?? null,
+            sicCode: details.sicCode ?? null,
+            sicDescription: details.sicDescription ?? null,
+            sector: mapSicToSector(details.sicCode),
+            industry: formatIndustry(details.sicDescription),
+            marketCap: details.marketCap ?? null,
+            updatedAt: new Date(),
+          };
+          const [row] = await db.insert(tickerClassifications)
+            .values(values)
+            .onConflictDoUpdate({ target: tickerClassifications.symbol, set: values })
+            .returning();
+          this.classifications.set(symbol, row);
+          classified++;
+        }
+        await new Promise(resolve => setTimeout(resolve, CLASSIFY_DELAY_MS));
+      }
+
+      if (classified > 0) this.snapshotExpiresAt = 0;
+      console.log(`✅ Classified ${classified}/${pending.length} ticker(s) (${this.classifications.size} total)`);
+      return classified;
+    } finally {
+      this.isClassifying = false;
+    }
+  }
+
+  private async compute(): Promise<SectorPerformanceSnapshot> {
+    const universe = await batchDataService.getStockUniverse();
+    const constituents: Constituent[] = [];
+
+    for (const stock of universe) {
+      const classification = this.classifications.get(stock.ticker);
+      if (!classification?.sector || stock.price < MIN_PRICE) continue;
+
+      const marketCap = stock.marketCap || classification.marketCap;
+      constituents.push({
+        symbol: stock.ticker,
+        sector: classification.sector,
+        industry: classification.industry,
+        weight: marketCap && marketCap > 0 ? marketCap : null,
+        returns: this.getReturns(stock),
+      });
+    }
+
+    const bySector = new Map<string, Constituent[]>();
+    for (const c of constituents) {
+      const members = bySector.get(c.sector) || [];
+      members.push(c);
+      bySector.set(c.sector, members);
+    }
+
+    const market = this.aggregate(constituents);
+    const sectors: SectorPerformance[] = [];
+
+    for (const [name, members] of Array.from(bySector.entries())) {
+      const totals = this.aggregate(members);
+
+      const byIndustry = new Map<string, Constituent[]>();
+      for (const c of members) {
+        if (!c.industry) continue;
+        const list = byIndustry.get(c.industry) || [];
+        list.push(c);
+        byIndustry.set(c.industry, list);
+      }
+      const industries: IndustryPerformance[] = Array.from(byIndustry.entries())
+        .filter(([, list]) => list.length >= MIN_INDUSTRY_CONSTITUENTS)
+        .map(([industry, list]) => {
+          const agg = this.aggregate(list);
+          return {
+            name: industry,
+            constituents: agg.constituents,
+            capWeighted: agg.capWeighted,
+            equalWeighted: agg.equalWeighted,
+            advancers: agg.advancers,
+            decliners: agg.decliners,
+          };
+        })
+        .sort((a, b) => (b.capWeighted['1D'] ?? -Infinity) - (a.capWeighted['1D'] ?? -Infinity));
+
+      const relativeStrength = {} as SectorWindowReturns;
+      for (const w of WINDOWS) {
+        const sectorReturn = totals.capWeighted[w];
+        const marketReturn = market.capWeighted[w];
+        relativeStrength[w] = sectorReturn !== null && marketReturn !== null ? this.round(sectorReturn - marketReturn) : null;
+      }
+
+      const decided = totals.advancers + totals.decliners;
+      sectors.push({
+        name,
+        change: totals.capWeighted['1D'] ?? 0,
+        constituents: totals.constituents,
+        capWeighted: totals.capWeighted,
+        equalWeighted: totals.equalWeighted,
+        relativeStrength,
+        advancers: totals.advancers,
+        decliners: totals.decliners,
+        unchanged: totals.unchanged,
+        breadth: decided > 0 ? this.round((totals.advancers / decided) * 100) : 0,
+        industries,
+      });
+    }
+
+    sectors.sort((a, b) => b.change - a.change);
+
+    return {
+      sectors,
+      market: { constituents: market.constituents, capWeighted: market.capWeighted, equalWeighted: market.equalWeighted },
+      classifiedSymbols: this.classifications.size,
+      universeSize: universe.length,
+      computedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Window returns for one stock: 1D from the bulk snapshot, longer windows against
+   * the close N sessions before the snapshot's session in the historical bar cache
+   */
+  private getReturns(stock: StockSnapshot): SectorWindowReturns {
+    const returns: SectorWindowReturns = {
+      '1D': Number.isFinite(stock.changePercent) ? this.clamp(stock.changePercent) : null,
+      '5D': null,
+      '1M': null,
+    };
+
+    const bars: HistoricalBar[] | null = historicalDataCache.getHistoricalBars(stock.ticker);
+    if (!bars || bars.length === 0) return returns;
+
+    const sessionDate = marketCalendar.toExchangeDate(new Date(stock.timestamp));
+    const prior = bars
+      .slice(-(WINDOW_SESSIONS['1M'] + 2))
+      .filter(b => marketCalendar.toExchangeDate(new Date(b.timestamp)) < sessionDate);
+
+    for (const w of ['5D', '1M'] as SectorWindow[]) {
+      const reference = prior[prior.length - WINDOW_SESSIONS[w]];
+      if (reference && reference.close > 0) {
+        returns[w] = this.clamp(((stock.price - reference.close) / reference.close) * 100);
+      }
+    }
+    return returns;
+  }
+
+  private aggregate(members: Constituent[]): Aggregate {
+    const capWeighted = {} as SectorWindowReturns;
+    const equalWeighted = {} as SectorWindowReturns;
+
+    for (const w of WINDOWS) {
+      let weightedSum = 0;
+      let totalWeight = 0;
+      let sum = 0;
+      let count = 0;
+      for (const c of members) {
+        const r = c.returns[w];
+        if (r === null) continue;
+        sum += r;
+        count++;
+        if (c.weight !== null) {
+          weightedSum += r * c.weight;
+          totalWeight += c.weight;
+        }
+      }
+      equalWeighted[w] = count > 0 ? this.round(sum / count) : null;
+      capWeighted[w] = totalWeight > 0 ? this.round(weightedSum / totalWeight) : equalWeighted[w];
+    }
+
+    let advancers = 0;
+    let decliners = 0;
+    let unchanged = 0;
+    for (const c of members) {
+      const r = c.returns['1D'];
+      if (r === null) continue;
+      if (r > 0) advancers++;
+      else if (r < 0) decliners++;
+      else unchanged++;
+    }
+
+    return { constituents: members.length, capWeighted, equalWeighted, advancers, decliners, unchanged };
+  }
+
+  private validate(input: any, base: SectorRotationSettings): SectorRotationSettings {
+    if (!input || typeof input !== 'object') {
+      throw new SectorPerformanceError('Settings must be an object');
+    }
+    const next: SectorRotationSettings = { ...base };
+
+    if (input.scannerMode !== undefined) {
+      if (!['off', 'score', 'filter'].includes(input.scannerMode)) {
+        throw new SectorPerformanceError("scannerMode must be 'off', 'score' or 'filter'");
+      }
+      next.scannerMode = input.scannerMode;
+    }
+    if (input.window !== undefined) {
+      if (!WINDOWS.includes(input.window)) {
+        throw new SectorPerformanceError(`window must be one of ${WINDOWS.join(', ')}`);
+      }
+      next.window = input.window;
+    }
+    if (input.minRelativeStrength !== undefined) {
+      const value = Number(input.minRelativeStrength);
+      if (!Number.isFinite(value) || value < -20 || value > 20) {
+        throw new SectorPerformanceError('minRelativeStrength must be between -20 and 20 percentage points');
+      }
+      next.minRelativeStrength = value;
+    }
+    return next;
+  }
+
+  private clamp(value: number): number {
+    return Math.max(-MAX_ABS_RETURN, Math.min(MAX_ABS_RETURN, value));
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
+
+export const sectorPerformanceService = SectorPerformanceService.getInstance();
@@ -3,6 +3,7 @@ import { learningAnalyticsService } from "./learningAnalyticsService";
 import { insightLifecycleService } from "./insightLifecycleService";
 import { tradeOutcomeRepository } from "./tradeOutcomeRepository";
 import { grokAI } from "./grokAIService";
+import { MARKET_REGIMES, isMarketRegime } from "./marketRegimeService";
 import type { LearningSession, RecommendationTracking, RecommendationPerformance } from "@shared/schema";
 
 /**
@@ -58,8 +59,9 @@ export class SelfLearningEngine {
         // Step 4: Analyze patterns with Grok (to be implemented)
         const grokFindings = await this.analyzeWithGrok(recentOutcomes, sessionType);
         
-        // Step 5: Persist new insights discovered by Grok
-        const insightsGenerated = await this.persistGrokInsights(grokFindings);
+        // Step 5: Persist new insights discovered by Grok, plus per-regime win rates
+        const regimeInsights = await insightLifecycleService.refreshRegimeInsights(recentOutcomes);
+        const insightsGenerated = await this.persistGrokInsights(grokFindings) + regimeInsights;
         
         // Complete session
         const completedSession = await learningStorage.completeLearningSession(session.id, {
@@ -108,6 +110,7 @@ export class SelfLearningEngine {
       winRate: number;
       sampleSize: number;
       confidence: number;
+      marketRegime?: string | null;
     }>;
   }> {
     console.log(`[SelfLearning] Analyzing ${outcomes.length} outcomes with Grok`);
@@ -130,6 +133,14 @@ export class SelfLearningEngine {
     const avgRSI = closedTrades.reduce((sum, t) => sum + t.rsi, 0) / closedTrades.length;
     const avgVIX = closedTrades.reduce((sum, t) => sum + t.vix, 0) / closedTrades.length;
     
+    // Per-regime results (regime stamped at entry)
+    const regimeLines = MARKET_REGIMES.map(regime => {
+      const trades = closedTrades.filter(t => t.marketRegime === regime);
+      if (trades.length === 0) return null;
+      const regimeWins = trades.filter(t => t.performance?.isWin).length;
+      return `- ${regime}: ${trades.length} trades, ${((regimeWins / trades.length) * 100).toFixed(1)}% win rate`;
+    }).filter(Boolean);
+    
     const prompt = `
 You are analyzing ${closedTrades.length} completed options trades to discover patterns and improve trading strategy.
 
@@ -141,23 +152,26 @@ PERFORMANCE SUMMARY:
 - Average RSI: ${avgRSI.toFixed(1)}
 - Average VIX: ${avgVIX.toFixed(1)}
 
+BY MARKET REGIME:
+${regimeLines.length > 0 ? regimeLines.join('\n') : '- No regime-stamped trades yet'}
+
 SESSION TYPE: ${sessionType}
 
 SAMPLE WINNING TRADES:
 ${wins.slice(0, 5).map(t => `
-- ${t.ticker} ${t.optionType.toUpperCase()}: Entry RSI ${t.rsi.toFixed(1)}, VIX ${t.vix.toFixed(1)}, Delta ${t.delta?.toFixed(2)}, ROI ${t.performance?.actualROI?.toFixed(1)}%
+- ${t.ticker} ${t.optionType.toUpperCase()}: Entry RSI ${t.rsi.toFixed(1)}, VIX ${t.vix.toFixed(1)}, Delta ${t.delta?.toFixed(2)}, Regime ${t.marketRegime || 'unknown'}, ROI ${t.performance?.actualROI?.toFixed(1)}%
 `).join('')}
 
 SAMPLE LOSING TRADES:
 ${losses.slice(0, 5).map(t => `
-- ${t.ticker} ${t.optionType.toUpperCase()}: Entry RSI ${t.rsi.toFixed(1)}, VIX ${t.vix.toFixed(1)}, Delta ${t.delta?.toFixed(2)}, ROI ${t.performance?.actualROI?.toFixed(1)}%
+- ${t.ticker} ${t.optionType.toUpperCase()}: Entry RSI ${t.rsi.toFixed(1)}, VIX ${t.vix.toFixed(1)}, Delta ${t.delta?.toFixed(2)}, Regime ${t.marketRegime || 'unknown'}, ROI ${t.performance?.actualROI?.toFixed(1)}%
 `).join('')}
 
 ANALYZE AND DISCOVER:
 1. What patterns distinguish winners from losers?
 2. Are there specific RSI/VIX combinations that work better?
 3. Should we adjust delta ranges, entry criteria, or exit rules?
-4. Any market regime patterns (bull vs bear)?
+4. Any market regime patterns (bull / bear / volatile / choppy)? Set "marketRegime" on patterns that only hold in one regime.
 
 Respond with JSON:
 {
@@ -170,7 +184,8 @@ Respond with JSON:
       "conditions": {"rsi": "<30", "vix": ">20", "optionType": "call"},
       "winRate": 75.5,
       "sampleSize": 20,
-      "confidence": 0.8
+      "confidence": 0.8,
+      "marketRegime": "bull | bear | volatile | choppy | null"
     }
   ]
 }`;
@@ -252,7 +267,12 @@ Respond with JSON:
     let count = 0;
     
     for (const pattern of grokFindings.patterns || []) {
-      await insightLifecycleService.createInsightFromPattern(pattern);
+      // Only keep regimes the classifier knows; anything else applies to all regimes
+      const regime = pattern.marketRegime ?? pattern.conditions?.marketRegime;
+      await insightLifecycleService.createInsightFromPattern({
+        ...pattern,
+        marketRegime: isMarketRegime(regime) ? regime : undefined
+      });
       count++;
     }
     
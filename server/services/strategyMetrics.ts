@@ -1,10 +1,12 @@
 import { db } from "../db";
 import { recommendationTracking, recommendationPerformance } from "@shared/schema";
 import { eq, and, isNotNull, sql } from "drizzle-orm";
+import { executionCostModel } from "./executionCostModel";
 
 export interface StrategyMetrics {
   winRate: number;
-  avgROI: number;
+  avgROI: number; // Net of execution costs
+  grossAvgROI: number; // Before spread and fees
   profitFactor: number;
   totalTrades: number;
   openTrades: number;
@@ -36,6 +38,7 @@ export class StrategyMetricsService {
           totalProfit: sql<number>`coalesce(sum(${recommendationPerformance.actualProfit}) filter (where ${recommendationPerformance.actualProfit} > 0 and ${recommendationPerformance.closedAt} is not null), 0)`,
           totalLoss: sql<number>`coalesce(abs(coalesce(sum(${recommendationPerformance.actualProfit}) filter (where ${recommendationPerformance.actualProfit} < 0 and ${recommendationPerformance.closedAt} is not null), 0)), 0)`,
           avgROI: sql<number>`coalesce(avg(${recommendationPerformance.actualROI}) filter (where ${recommendationPerformance.actualROI} is not null and ${recommendationPerformance.closedAt} is not null), 0)`,
+          grossAvgROI: sql<number>`coalesce(avg(coalesce(${recommendationPerformance.grossROI}, ${recommendationPerformance.actualROI})) filter (where ${recommendationPerformance.actualROI} is not null and ${recommendationPerformance.closedAt} is not null), 0)`,
         })
         .from(recommendationPerformance)
         .innerJoin(recommendationTracking, eq(recommendationPerformance.recommendationId, recommendationTracking.id))
@@ -59,6 +62,7 @@ export class StrategyMetricsService {
       const totalProfit = Number(result[0]?.totalProfit || 0);
       const totalLoss = Number(result[0]?.totalLoss || 0);
       const avgROI = Number(result[0]?.avgROI || 0);
+      const grossAvgROI = Number(result[0]?.grossAvgROI || 0);
       
       // Calculate metrics
       const winRate = closedTradesCount > 0 ? (wins / closedTradesCount) * 100 : 0;
@@ -74,6 +78,7 @@ export class StrategyMetricsService {
       return {
         winRate: Math.round(winRate * 10) / 10,
         avgROI: Math.round(avgROI * 10) / 10,
+        grossAvgROI: Math.round(grossAvgROI * 10) / 10,
         profitFactor: Math.min(999.99, Math.round(profitFactor * 100) / 100), // Cap at 999.99
         totalTrades: closedTradesCount,
         openTrades,
@@ -88,6 +93,7 @@ export class StrategyMetricsService {
       return {
         winRate: 0,
         avgROI: 0,
+        grossAvgROI: 0,
         profitFactor: 0,
         totalTrades: 0,
         openTrades: 0,
@@ -124,9 +130,15 @@ export class StrategyMetricsService {
 
       const rec = recommendation[0];
       
-      // Calculate actual ROI and profit
-      const actualROI = ((exitPremium - rec.premium) / rec.premium) * 100;
-      const actualProfit = (exitPremium - rec.premium) * rec.contracts * 100; // Options are 100 shares each
+      // Calculate actual ROI and profit, net of execution costs
+      const costs = executionCostModel.calculateRoundTrip({
+        ticker: rec.ticker,
+        contracts: rec.contracts,
+        entryPremium: rec.premium,
+        exitPremium
+      });
+      const actualROI = costs.netROI;
+      const actualProfit = costs.netPnL;
       
       // Determine win/loss
       const isWin = actualROI > 0;
@@ -154,6 +166,9 @@ export class StrategyMetricsService {
             exitPremium,
             actualROI,
             actualProfit,
+            grossROI: costs.grossROI,
+            grossProfit: costs.grossPnL,
+            executionCosts: costs.totalCosts,
             exitReason,
             holdDays,
             isWin,
@@ -171,6 +186,9 @@ export class StrategyMetricsService {
           exitPremium,
           actualROI,
           actualProfit,
+          grossROI: costs.grossROI,
+          grossProfit: costs.grossPnL,
+          executionCosts: costs.totalCosts,
           exitReason,
           holdDays,
           isWin,
@@ -0,0 +1,377 @@
+/**
+ * Strategy Version Service
+ *
+ * Lifecycle of `strategy_parameters` versions. Nothing changes the live
+ * EliteStrategyEngine config without a person signing off:
+ *
+ *   proposed ──approve──▶ active ──(replaced)──▶ retired ──rollback──▶ active
+ *       └────reject────▶ rejected
+ *
+ * Proposals come from the auto-tuner, the walk-forward optimizer or by hand. Each
+ * transition writes a `strategy_parameter_audit` row (who/why/when), and activating a
+ * version reloads the engine immediately instead of waiting for the next restart.
+ *
+ * A version is either the base set (`marketRegime` null) or scoped to one MarketRegime.
+ * One version is active per scope; the scanner uses the scoped set while its regime is
+ * current and falls back to the base set otherwise.
+ */
+
+import { db } from '../db';
+import {
+  strategyParameters,
+  strategyParameterAudit,
+  type MarketRegime,
+  type StrategyParameters,
+  type StrategyParameterAuditEntry,
+  type StrategyParameterStatus,
+  type StrategyParameterAuditAction,
+  type StrategyVersionDiff,
+  type StrategyVersionPerformance,
+} from '@shared/schema';
+import { eq, desc, and, isNotNull, isNull } from 'drizzle-orm';
+import { EliteStrategyEngine } from './eliteStrategyEngine';
+import { strategyMetricsService } from './strategyMetrics';
+import { isMarketRegime } from './marketRegimeService';
+
+/**
+ * Rejected transition (unknown version, wrong state, missing reviewer)
+ */
+export class StrategyVersionError extends Error {
+  constructor(message: string, public readonly statusCode: 400 | 404 | 409 = 400) {
+    super(message);
+    this.name = 'StrategyVersionError';
+  }
+}
+
+export type StrategyParameterValues = Pick<StrategyParameters,
+  | 'rsiOversold'
+  | 'rsiOverbought'
+  | 'vixMinCall'
+  | 'vixMinPut'
+  | 'stopLoss'
+  | 'profitTarget'
+  | 'partialProfitLevel'
+  | 'partialProfitPercent'
+  | 'emaLength'
+  | 'atrMultiplier'
+  | 'deltaMin'
+  | 'deltaMax'
+>;
+
+const DIFF_FIELDS: (keyof StrategyParameterValues)[] = [
+  'rsiOversold', 'rsiOverbought', 'vixMinCall', 'vixMinPut',
+  'stopLoss', 'profitTarget', 'partialProfitLevel', 'partialProfitPercent',
+  'emaLength', 'atrMultiplier', 'deltaMin', 'deltaMax',
+];
+
+type DbExecutor = Pick<typeof db, 'insert' | 'update' | 'select'>;
+
+export class StrategyVersionService {
+  private static instance: StrategyVersionService | null = null;
+
+  private constructor() {}
+
+  static getInstance(): StrategyVersionService {
+    if (!StrategyVersionService.instance) {
+      StrategyVersionService.instance = new StrategyVersionService();
+    }
+    return StrategyVersionService.instance;
+  }
+
+  /**
+   * Backfill `status` for rows written before the review workflow existed:
+   * the active row is 'active', previously deactivated rows are 'retired'
+   */
+  async reconcileStatuses(): Promise<void> {
+    try {
+      await db.update(strategyParameters)
+        .set({ status: 'active' })
+        .where(eq(strategyParameters.isActive, true));
+      await db.update(strategyParameters)
+        .set({ status: 'retired' })
+        .where(and(
+          eq(strategyParameters.isActive, false),
+          eq(strategyParameters.status, 'proposed'),
+          isNotNull(strategyParameters.deactivatedAt)
+        ));
+    } catch (error: any) {
+      console.warn('⚠️ Failed to reconcile strategy parameter statuses:', error.message);
+    }
+  }
+
+  async listVersions(status?: StrategyParameterStatus, limit: number = 50): Promise<StrategyParameters[]> {
+    return db.select()
+      .from(strategyParameters)
+      .where(status ? eq(strategyParameters.status, status) : undefined)
+      .orderBy(desc(strategyParameters.createdAt))
+      .limit(limit);
+  }
+
+  /**
+   * Active version of a scope (null = the base set)
+   */
+  async getActive(marketRegime: MarketRegime | null = null): Promise<StrategyParameters | null> {
+    const [active] = await db.select()
+      .from(strategyParameters)
+      .where(and(
+        eq(strategyParameters.isActive, true),
+        marketRegime ? eq(strategyParameters.marketRegime, marketRegime) : isNull(strategyParameters.marketRegime)
+      ))
+      .orderBy(desc(strategyParameters.activatedAt))
+      .limit(1);
+    return active || null;
+  }
+
+  /**
+   * Store a new version in the 'proposed' state (does not touch the live config)
+   */
+  async propose(
+    values: StrategyParameterValues,
+    actor: string,
+    reason: string,
+    version: string = `v${Date.now()}`,
+    marketRegime: MarketRegime | null = null
+  ): Promise<StrategyParameters> {
+    this.requireActor(actor);
+    if (marketRegime !== null && !isMarketRegime(marketRegime)) {
+      throw new StrategyVersionError(`Unknown market regime '${marketRegime}'`);
+    }
+    const active = (marketRegime && await this.getActive(marketRegime)) || await this.getActive();
+
+    const [proposal] = await db.insert(strategyParameters).values({
+      ...values,
+      version,
+      winRate: null, // Live metrics, filled once the version has traded
+      avgROI: null,
+      profitFactor: null,
+      totalTrades: 0,
+      adjustmentReason: reason,
+      previousVersion: active?.version || null,
+      marketRegime,
+      isActive: false,
+      status: 'proposed',
+      activatedAt: null,
+      proposedBy: actor,
+    }).returning();
+
+    await this.audit(db, proposal, 'proposed', null, 'proposed', actor, reason, {
+      activeVersion: active?.version || null,
+    });
+
+    console.log(`📝 Strategy parameters ${version}${marketRegime ? ` (${marketRegime} regime)` : ''} proposed by ${actor} (awaiting approval)`);
+    return proposal;
+  }
+
+  /**
+   * Field-by-field comparison of a version against the active one of its scope (the base
+   * set when the regime has none), plus the live tracked performance of each version
+   */
+  async diff(id: string): Promise<StrategyVersionDiff> {
+    const proposal = await this.getVersion(id);
+    const regime = (proposal.marketRegime as MarketRegime | null) || null;
+    const active = (regime && await this.getActive(regime)) || await this.getActive();
+
+    const fields = DIFF_FIELDS.map(field => {
+      const proposed = proposal[field] ?? null;
+      const current = active ? active[field] ?? null : null;
+      return {
+        field,
+        active: current,
+        proposed,
+        change: proposed !== null && current !== null ? proposed - current : null,
+      };
+    });
+
+    return {
+      proposal: { id: proposal.id, version: proposal.version, status: proposal.status as StrategyParameterStatus },
+      active: active ? { id: active.id, version: active.version } : null,
+      fields,
+      changedFields: fields.filter(f => f.proposed !== f.active).length,
+      performance: {
+        active: active ? await this.getPerformance(active.version) : null,
+        proposal: await this.getPerformance(proposal.version),
+      },
+    };
+  }
+
+  async approve(id: string, actor: string, reason?: string): Promise<StrategyParameters> {
+    this.requireActor(actor);
+    if (reason !== undefined && reason !== null && typeof reason !== 'string') {
+      throw new StrategyVersionError('reason must be a string');
+    }
+    const proposal = await this.getVersion(id);
+    if (proposal.status !== 'proposed') {
+      throw new StrategyVersionError(`Version ${proposal.version} is ${proposal.status}, only proposed versions can be approved`, 409);
+    }
+    return this.activate(proposal, 'approved', actor, reason || null);
+  }
+
+  async reject(id: string, actor: string, reason: string): Promise<StrategyParameters> {
+    this.requireActor(actor);
+    if (typeof reason !== 'string' || !reason.trim()) {
+      throw new StrategyVersionError('A reason is required to reject a version');
+    }
+
+    const proposal = await this.getVersion(id);
+    if (proposal.status !== 'proposed') {
+      throw new StrategyVersionError(`Version ${proposal.version} is ${proposal.status}, only proposed versions can be rejected`, 409);
+    }
+
+    const rejected = await db.transaction(async (tx) => {
+      const [claimed] = await tx.update(strategyParameters)
+        .set({ status: 'rejected', reviewedBy: actor, reviewedAt: new Date(), reviewNotes: reason })
+        .where(and(eq(strategyParameters.id, id), eq(strategyParameters.status, 'proposed')))
+        .returning();
+      if (!claimed) {
+        throw new StrategyVersionError(`Version ${proposal.version} was already reviewed`, 409);
+      }
+      await this.audit(tx, proposal, 'rejected', 'proposed', 'rejected', actor, reason);
+      return claimed;
+    });
+
+    console.log(`🚫 Strategy parameters ${proposal.version} rejected by ${actor}: ${reason}`);
+    return rejected;
+  }
+
+  /**
+   * Re-activate a previously active (retired) version
+   */
+  async rollback(id: string, actor: string, reason: string): Promise<StrategyParameters> {
+    this.requireActor(actor);
+    if (typeof reason !== 'string' || !reason.trim()) {
+      throw new StrategyVersionError('A reason is required to roll back');
+    }
+
+    const target = await this.getVersion(id);
+    if (target.status !== 'retired') {
+      throw new StrategyVersionError(`Version ${target.version} is ${target.status}, only previously active versions can be rolled back to`, 409);
+    }
+    return this.activate(target, 'rolled_back', actor, reason);
+  }
+
+  async getAuditLog(parameterId?: string, limit: number = 100): Promise<StrategyParameterAuditEntry[]> {
+    return db.select()
+      .from(strategyParameterAudit)
+      .where(parameterId ? eq(strategyParameterAudit.parameterId, parameterId) : undefined)
+      .orderBy(desc(strategyParameterAudit.createdAt))
+      .limit(limit);
+  }
+
+  /**
+   * Retire the current active version of the target's scope (recording its live
+   * metrics) and make `target` active, then reload the engine config. The target is
+   * claimed by status inside the transaction, so concurrent reviews write one audit trail.
+   */
+  private async activate(
+    target: StrategyParameters,
+    action: Extract<StrategyParameterAuditAction, 'approved' | 'rolled_back'>,
+    actor: string,
+    reason: string | null
+  ): Promise<StrategyParameters> {
+    const current = await this.getActive((target.marketRegime as MarketRegime | null) || null);
+    const currentPerformance = current ? await this.getPerformance(current.version) : null;
+    const now = new Date();
+
+    const activated = await db.transaction(async (tx) => {
+      const [claimed] = await tx.update(strategyParameters)
+        .set({
+          isActive: true,
+          status: 'active',
+          activatedAt: now,
+          deactivatedAt: null,
+          previousVersion: current?.version || target.previousVersion,
+          ...(action === 'approved' ? { reviewedBy: actor, reviewedAt: now, reviewNotes: reason } : {}),
+        })
+        .where(and(eq(strategyParameters.id, target.id), eq(strategyParameters.status, target.status)))
+        .returning();
+      if (!claimed) {
+        throw new StrategyVersionError(`Version ${target.version} changed while this request was processed`, 409);
+      }
+
+      if (current) {
+        const [retired] = await tx.update(strategyParameters)
+          .set({
+            isActive: false,
+            status: 'retired',
+            deactivatedAt: now,
+            winRate: currentPerformance!.winRate,
+            avgROI: currentPerformance!.avgROI,
+            profitFactor: currentPerformance!.profitFactor,
+            totalTrades: currentPerformance!.closedTrades,
+          })
+          .where(and(eq(strategyParameters.id, current.id), eq(strategyParameters.status, 'active')))
+          .returning();
+        if (!retired) {
+          throw new StrategyVersionError(`Version ${current.version} is no longer active`, 409);
+        }
+        await this.audit(tx, current, 'retired', 'active', 'retired', actor, `Replaced by ${target.version}`, {
+          replacedBy: target.version,
+          performance: currentPerformance,
+        });
+      }
+
+      await this.audit(tx, target, action, target.status, 'active', actor, reason, {
+        replaced: current?.version || null,
+      });
+      return claimed;
+    });
+
+    await EliteStrategyEngine.getInstance().loadParametersFromDatabase();
+
+    console.log(`✅ Strategy parameters ${target.version} ${action === 'approved' ? 'approved' : 'restored'} by ${actor}${current ? ` (replacing ${current.version})` : ''}`);
+    return activated;
+  }
+
+  private async getVersion(id: string): Promise<StrategyParameters> {
+    const [version] = await db.select()
+      .from(strategyParameters)
+      .where(eq(strategyParameters.id, id))
+      .limit(1);
+    if (!version) {
+      throw new StrategyVersionError('Strategy parameter version not found', 404);
+    }
+    return version;
+  }
+
+  private async getPerformance(version: string): Promise<StrategyVersionPerformance> {
+    const metrics = await strategyMetricsService.calculateMetrics(version);
+    return {
+      version,
+      totalTrades: metrics.totalTrades,
+      closedTrades: metrics.closedTrades,
+      winRate: metrics.winRate,
+      avgROI: metrics.avgROI,
+      profitFactor: metrics.profitFactor,
+    };
+  }
+
+  private requireActor(actor: string): void {
+    if (typeof actor !== 'string' || !actor.trim()) {
+      throw new StrategyVersionError('actor is required (who is making this change)');
+    }
+  }
+
+  private async audit(
+    executor: DbExecutor,
+    version: StrategyParameters,
+    action: StrategyParameterAuditAction,
+    fromStatus: string | null,
+    toStatus: StrategyParameterStatus,
+    actor: string,
+    reason: string | null,
+    details?: Record<string, unknown>
+  ): Promise<void> {
+    await executor.insert(strategyParameterAudit).values({
+      parameterId: version.id,
+      version: version.version,
+      action,
+      fromStatus,
+      toStatus,
+      actor: actor.trim(),
+      reason,
+      details: details || null,
+    });
+  }
+}
+
+export const strategyVersionService = StrategyVersionService.getInstance();
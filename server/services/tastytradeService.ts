@@ -1,6 +1,7 @@
 import axios, { AxiosInstance } from 'axios';
 import WebSocket from 'ws';
 import { normalizeOptionSymbol } from '../utils/optionSymbols';
+import { marketCalendar } from './marketCalendar';
 
 interface TastytradeSession {
   'session-token': string;
@@ -73,8 +74,26 @@ interface AccountSnapshot {
   timestamp: number;
 }
 
+export type TastytradeOrderAction = 'Buy to Open' | 'Sell to Close' | 'Sell to Open' | 'Buy to Close';
+
+export interface TastytradeOrderLeg {
+  'instrument-type': 'Equity Option';
+  symbol: string; // Padded OCC order symbol, e.g. "SPY   251113C00680000"
+  quantity: number;
+  action: TastytradeOrderAction;
+}
+
+export interface TastytradeOrderRequest {
+  'time-in-force': 'Day' | 'GTC';
+  'order-type': 'Limit';
+  price: number;
+  'price-effect': 'Debit' | 'Credit';
+  legs: TastytradeOrderLeg[];
+}
+
 class TastytradeService {
-  private baseURL = 'https://api.tastyworks.com';
+  // TASTYTRADE_API_URL points the REST client at another host, e.g. the local stub in server/utils/tastytradeStub.ts
+  private baseURL = process.env.TASTYTRADE_API_URL || 'https://api.tastyworks.com';
   private certURL = 'https://api.cert.tastyworks.com'; // For testing
   private apiClient: AxiosInstance;
   private sessionToken: string | null = null;
@@ -87,6 +106,7 @@ class TastytradeService {
   private optionsCache: Map<string, OptionGreeksData> = new Map();
   private pendingGreeks: Map<string, { resolve: (data: OptionGreeksData) => void; reject: (error: Error) => void }> = new Map();
   private subscribedSymbols: Set<string> = new Set();
+  private subscribedUnderlyings: Set<string> = new Set(); // Stock symbols with Quote + Trade feeds
   private isConnected = false;
   private accountSummary: Map<string, AccountSnapshot> = new Map(); // Store latest account summary with daily P/L
 
@@ -615,6 +635,42 @@ class TastytradeService {
         { type: 'Trade', symbol }
       ])
     }));
+
+    symbols.forEach(s => this.subscribedUnderlyings.add(s));
+  }
+
+  /**
+   * Unsubscribe from stock symbols (Quote and Trade events)
+   */
+  async unsubscribeFromSymbols(symbols: string[]): Promise<void> {
+    const toRemove = symbols.filter(s => this.subscribedUnderlyings.has(s));
+    if (toRemove.length === 0) {
+      return;
+    }
+
+    toRemove.forEach(s => this.subscribedUnderlyings.delete(s));
+
+    if (!this.isConnected || !this.ws) {
+      return;
+    }
+
+    console.log(`📡 Unsubscribing from: ${toRemove.join(', ')}`);
+
+    this.ws.send(JSON.stringify({
+      type: 'FEED_SUBSCRIPTION',
+      channel: 1,
+      remove: toRemove.flatMap(symbol => [
+        { type: 'Quote', symbol },
+        { type: 'Trade', symbol }
+      ])
+    }));
+  }
+
+  /**
+   * Check whether a stock or option symbol is currently subscribed
+   */
+  isSymbolSubscribed(symbol: string): boolean {
+    return this.subscribedUnderlyings.has(symbol) || this.subscribedSymbols.has(symbol);
   }
 
   /**
@@ -742,7 +798,7 @@ class TastytradeService {
   /**
    * Subscribe to option symbols for Greeks and Quote events
    */
-  private async subscribeToOptionSymbols(symbols: string[]): Promise<void> {
+  async subscribeToOptionSymbols(symbols: string[]): Promise<void> {
     if (!this.isConnected || !this.ws) {
       await this.connectWebSocket();
     }
@@ -769,6 +825,33 @@ class TastytradeService {
     newSymbols.forEach(s => this.subscribedSymbols.add(s));
   }
 
+  /**
+   * Unsubscribe from option symbols (Quote and Greeks events)
+   */
+  async unsubscribeFromOptionSymbols(symbols: string[]): Promise<void> {
+    const toRemove = symbols.filter(s => this.subscribedSymbols.has(s));
+    if (toRemove.length === 0) {
+      return;
+    }
+
+    toRemove.forEach(s => this.subscribedSymbols.delete(s));
+
+    if (!this.isConnected || !this.ws) {
+      return;
+    }
+
+    console.log(`📡 Unsubscribing from option symbols: ${toRemove.join(', ')}`);
+
+    this.ws.send(JSON.stringify({
+      type: 'FEED_SUBSCRIPTION',
+      channel: 1,
+      remove: toRemove.flatMap(symbol => [
+        { type: 'Quote', symbol },
+        { type: 'Greeks', symbol }
+      ])
+    }));
+  }
+
   /**
    * Wait for Greeks data to arrive via WebSocket with timeout
    */
@@ -1016,6 +1099,7 @@ class TastytradeService {
             metadata = {
               optionType: parsed.optionType.toLowerCase(),
               strike: parsed.strike,
+              expiry: parsed.expiry,
               expiryDate: parsed.expiry,
             };
           }
@@ -1029,8 +1113,10 @@ class TastytradeService {
         const parsedAvgCost = parseFloat(pos['average-open-price'] || '0');
         const avgCost = Number.isFinite(parsedAvgCost) ? parsedAvgCost : 0;
         
+        // Signed quantity: Tastytrade reports size unsigned with a separate direction
         const parsedQuantity = parseFloat(pos.quantity || '0');
-        const quantity = Math.abs(Number.isFinite(parsedQuantity) ? parsedQuantity : 0);
+        const size = Math.abs(Number.isFinite(parsedQuantity) ? parsedQuantity : 0);
+        const quantity = pos['quantity-direction'] === 'Short' ? -size : size;
         
         const parsedMultiplier = parseFloat(pos.multiplier || '1');
         const multiplier = Number.isFinite(parsedMultiplier) ? parsedMultiplier : 1;
@@ -1056,6 +1142,8 @@ class TastytradeService {
           realizedPnL: Number.isFinite(dayPnL) ? dayPnL : 0, // Day P/L from yesterday's close
           openDate: pos['created-at'] ? new Date(pos['created-at']) : new Date(),
           status: 'open',
+          broker: 'tastytrade',
+          source: 'broker',
           metadata,
           // Additional Tastytrade-specific data
           tastytradeData: {
@@ -1076,6 +1164,51 @@ class TastytradeService {
     }
   }
 
+  /**
+   * Validate an order without routing it: buying power effect, fees and warnings.
+   * Order methods throw on failure (the broker's message is in error.response.data.error).
+   */
+  async dryRunOrder(order: TastytradeOrderRequest): Promise<any> {
+    const accountNumber = await this.requireAccountNumber();
+    const response = await this.apiClient.post(`/accounts/${accountNumber}/orders/dry-run`, order);
+    return response.data.data;
+  }
+
+  /**
+   * Route an order to the exchange
+   */
+  async placeOrder(order: TastytradeOrderRequest): Promise<any> {
+    const accountNumber = await this.requireAccountNumber();
+    console.log(`📤 Placing Tastytrade order: ${order.legs.map(l => `${l.action} ${l.quantity} ${l.symbol}`).join(', ')} @ $${order.price}`);
+    const response = await this.apiClient.post(`/accounts/${accountNumber}/orders`, order);
+    return response.data.data;
+  }
+
+  async getOrder(orderId: string): Promise<any> {
+    const accountNumber = await this.requireAccountNumber();
+    const response = await this.apiClient.get(`/accounts/${accountNumber}/orders/${orderId}`);
+    return response.data.data;
+  }
+
+  async cancelOrder(orderId: string): Promise<any> {
+    const accountNumber = await this.requireAccountNumber();
+    console.log(`🛑 Cancelling Tastytrade order ${orderId}`);
+    const response = await this.apiClient.delete(`/accounts/${accountNumber}/orders/${orderId}`);
+    return response.data.data;
+  }
+
+  getAccountNumber(): string | null {
+    return this.accountNumber;
+  }
+
+  private async requireAccountNumber(): Promise<string> {
+    await this.ensureAuthenticated();
+    if (!this.accountNumber) {
+      throw new Error('No Tastytrade account number available');
+    }
+    return this.accountNumber;
+  }
+
   /**
    * Parse option symbol from Tastytrade format
    * Example: "SPY 250117C500" -> {underlying: "SPY", expiry: "2025-01-17", optionType: "CALL", strike: 500}
@@ -1184,26 +1317,88 @@ class TastytradeService {
   }
 
   /**
-   * Fetch calculated P/L from Tastytrade transactions
-   * Note: This returns the calculated value. The actual YTD P/L includes a baseline adjustment
-   * managed in the database (app_config.pnl_baseline_adjustment) to match Tastytrade's value.
+   * Daily net liquidating value since `startDate` (YYYY-MM-DD), oldest first.
+   * Uses the account's net-liq history; the last reading of each day is its close.
    */
-  async fetchLifetimeRealizedPnL(): Promise<number> {
+  async fetchNetLiqHistory(startDate: string): Promise<{ date: string; value: number }[]> {
     try {
       await this.ensureAuthenticated();
-      
+
       if (!this.accountNumber) {
         console.error('❌ No account number available');
-        return 0;
+        return [];
+      }
+
+      const response = await this.apiClient.get(`/accounts/${this.accountNumber}/net-liq/history`, {
+        params: { 'start-time': `${startDate}T00:00:00Z` }
+      });
+      const items: any[] = response.data?.data?.items || [];
+
+      const byDate = new Map<string, number>();
+      for (const item of items) {
+        const value = parseFloat(item.close ?? item['total-close'] ?? '');
+        if (!item.time || !Number.isFinite(value)) continue;
+        byDate.set(marketCalendar.toExchangeDate(new Date(item.time)), value);
       }
 
-      // Tastytrade API doesn't expose YTD realized P/L directly in any endpoint
-      // We return 0 here, and the route handler will add the baseline adjustment
-      // New trades will be tracked and added/subtracted from the baseline going forward
-      return 0;
+      return Array.from(byDate.entries())
+        .filter(([date]) => date >= startDate)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([date, value]) => ({ date, value }));
     } catch (error: any) {
-      console.error('❌ Error fetching calculated P/L:', error.response?.data || error.message);
-      return 0;
+      console.error('❌ Error fetching net liquidating value history:', error.response?.data || error.message);
+      return [];
+    }
+  }
+
+  /**
+   * External cash flows (deposits positive, withdrawals negative) per exchange date, oldest first.
+   * Reads the account's Money Movement transactions; interest, fees and other money movements
+   * are returns, not flows, and are left out. Returns null when the history can't be read.
+   */
+  async fetchCashFlows(startDate?: string, endDate?: string): Promise<{ date: string; amount: number }[] | null> {
+    try {
+      await this.ensureAuthenticated();
+
+      if (!this.accountNumber) {
+        console.error('❌ No account number available');
+        return null;
+      }
+
+      const byDate = new Map<string, number>();
+      let pageOffset = 0;
+      let totalPages = 1;
+      while (pageOffset < totalPages) {
+        const response = await this.apiClient.get(`/accounts/${this.accountNumber}/transactions`, {
+          params: {
+            type: 'Money Movement',
+            'per-page': 250,
+            'page-offset': pageOffset,
+            ...(startDate ? { 'start-date': startDate } : {}),
+            ...(endDate ? { 'end-date': endDate } : {}),
+          }
+        });
+        const items: any[] = response.data?.data?.items || [];
+
+        for (const item of items) {
+          if (!/deposit|withdrawal|transfer|acat/i.test(item['transaction-sub-type'] || '')) continue;
+          const value = parseFloat(item['net-value'] ?? item.value ?? '');
+          if (!Number.isFinite(value)) continue;
+          const signed = item['net-value-effect'] === 'Debit' ? -Math.abs(value) : Math.abs(value);
+          const date = item['transaction-date'] || marketCalendar.toExchangeDate(new Date(item['executed-at']));
+          byDate.set(date, (byDate.get(date) ?? 0) + signed);
+        }
+
+        totalPages = response.data?.pagination?.['total-pages'] ?? 1;
+        pageOffset++;
+      }
+
+      return Array.from(byDate.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([date, amount]) => ({ date, amount }));
+    } catch (error: any) {
+      console.error('❌ Error fetching cash flows:', error.response?.data || error.message);
+      return null;
     }
   }
 
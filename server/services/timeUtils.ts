@@ -5,14 +5,24 @@
  * Handles DST transitions correctly.
  */
 
+import { marketCalendar } from './marketCalendar';
+
 export class TimeUtils {
   /**
    * Check if we're currently in overnight hours (3:01 PM - 8:29 AM CST/CDT)
-   * Overnight = after market close but before market open
+   * Overnight = after market close but before market open.
+   * Weekends and exchange holidays are overnight all day; on early-close days
+   * overnight starts one minute after the 12:00 PM CST/CDT close.
    */
   static isOvernightHours(): boolean {
     const now = new Date();
     
+    // No session today - the whole day is "after close"
+    const session = marketCalendar.getSession(now);
+    if (!session) {
+      return true;
+    }
+    
     // Get CST/CDT hour (handles DST automatically)
     const cstHour = parseInt(now.toLocaleString('en-US', {
       timeZone: 'America/Chicago',
@@ -25,10 +35,15 @@ export class TimeUtils {
       minute: 'numeric'
     }));
     
-    // After 3:01 PM CST/CDT or before 8:30 AM CST/CDT
-    const isAfter3PM = (cstHour > 15) || (cstHour === 15 && cstMinute >= 1);
+    // Session close in CST/CDT minutes (900 = 3:00 PM, 720 = 12:00 PM early close)
+    const sessionMinutes = Math.round((session.close.getTime() - session.open.getTime()) / 60_000);
+    const closeMinutes = 8 * 60 + 30 + sessionMinutes;
+    const nowMinutes = cstHour * 60 + cstMinute;
+    
+    // After close + 1 min or before 8:30 AM CST/CDT
+    const isAfterClose = nowMinutes >= closeMinutes + 1;
     const isBefore830AM = (cstHour < 8) || (cstHour === 8 && cstMinute < 30);
-    return isAfter3PM || isBefore830AM;
+    return isAfterClose || isBefore830AM;
   }
   
   /**
@@ -121,36 +136,10 @@ export class TimeUtils {
   }
   
   /**
-   * Check if market is currently open (8:30 AM - 3:00 PM CST/CDT weekdays)
+   * Check if market is currently open (8:30 AM - 3:00 PM CST/CDT weekdays,
+   * 12:00 PM CST/CDT on early-close days, closed on exchange holidays)
    */
   static isMarketOpen(): boolean {
-    const now = new Date();
-    
-    const cstHour = parseInt(now.toLocaleString('en-US', {
-      timeZone: 'America/Chicago',
-      hour: 'numeric',
-      hour12: false
-    }));
-    
-    const cstMinute = parseInt(now.toLocaleString('en-US', {
-      timeZone: 'America/Chicago',
-      minute: 'numeric'
-    }));
-    
-    const dayOfWeek = now.toLocaleString('en-US', {
-      timeZone: 'America/Chicago',
-      weekday: 'short'
-    });
-    
-    // Weekdays only
-    if (dayOfWeek === 'Sat' || dayOfWeek === 'Sun') {
-      return false;
-    }
-    
-    // 8:30 AM - 3:00 PM CST/CDT
-    const isAfterOpen = (cstHour === 8 && cstMinute >= 30) || cstHour > 8;
-    const isBeforeClose = cstHour < 15;
-    
-    return isAfterOpen && isBeforeClose;
+    return marketCalendar.isMarketOpen(new Date());
   }
 }
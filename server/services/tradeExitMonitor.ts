@@ -1,23 +1,60 @@
 import { db } from '../db';
-import { recommendationTracking } from '@shared/schema';
+import { recommendationTracking, recommendationPerformance, type RecommendationTracking } from '@shared/schema';
 import { eq, sql } from 'drizzle-orm';
 import { RecommendationTracker } from './recommendationTracker';
+import { marketStatusService } from './marketStatusService';
+import { quoteSubscriptionManager } from './quoteSubscriptionManager';
 import { formatOptionSymbol, toPolygonSubscriptionTopic } from '../utils/optionSymbols';
 import { DateTime } from 'luxon';
 
+interface PremiumObservation {
+  premium: number; // Mid (or last trade for REST snapshots)
+  bid: number | null;
+  ask: number | null;
+  observedAt: Date;
+  source: 'polygon' | 'tastytrade' | 'poll';
+}
+
+interface Excursion {
+  maxProfit: number; // Best gross ROI % seen (>= 0)
+  maxDrawdown: number; // Worst gross ROI % seen (<= 0)
+  persistedAt: number;
+  dirty: boolean;
+}
+
 /**
  * TradeExitMonitor - Tracks historical trade recommendations
  * 
- * Runs once daily at 4:15 PM ET (after market close) to evaluate
- * which recommendations hit profit targets, stop losses, or expired.
- * Used to calculate strategy win rate and performance metrics.
+ * Watches open recommendations through the session so outcomes reflect what the
+ * contract actually did, not just where it closed:
+ * - Every 5s during market hours each contract's streamed quote (Polygon WebSocket →
+ *   Tastytrade cache, subscribed here) is read; each new quote is one observation.
+ *   Contracts with no streamed quote fall back to a Polygon REST snapshot once a minute.
+ * - Observations update the running maxProfit / maxDrawdown (gross ROI %) kept on the
+ *   recommendation's open `recommendation_performance` row.
+ * - The first observation at or beyond the profit target or stop records the exit, timed
+ *   at that quote.
+ * 
+ * A daily pass at 4:15 PM ET (after market close) checks anything the session missed
+ * and closes recommendations that reached expiry. Outcomes feed the strategy win rate
+ * and performance metrics.
  */
 export class TradeExitMonitor {
   private static isRunning = false;
   private static monitoringTimeout: NodeJS.Timeout | null = null;
+  private static intradayTask: NodeJS.Timeout | null = null;
+  private static isEvaluating = false;
+  private static excursions = new Map<string, Excursion>(); // Recommendation id → running extremes
+  private static lastQuoteAt = new Map<string, number>(); // Recommendation id → timestamp of the last streamed quote used
+  private static lastPolledAt = new Map<string, number>(); // Recommendation id → last REST fallback
+
+  private static readonly INTRADAY_INTERVAL_MS = 5_000;
+  private static readonly POLL_FALLBACK_INTERVAL_MS = 60_000;
+  private static readonly PERSIST_INTERVAL_MS = 60_000;
+  private static readonly SUBSCRIPTION_OWNER = 'trade-exit-monitor';
 
   /**
-   * Start monitoring - runs once daily at 4:15 PM ET
+   * Start monitoring - intraday every 5s during market hours, plus a daily pass at 4:15 PM ET
    */
   static start() {
     if (this.isRunning) {
@@ -27,6 +64,13 @@ export class TradeExitMonitor {
 
     this.isRunning = true;
     this.scheduleNextRun();
+
+    this.intradayTask = setInterval(() => {
+      this.evaluateIntraday().catch(err => {
+        console.error('❌ TradeExitMonitor intraday error:', err);
+      });
+    }, this.INTRADAY_INTERVAL_MS);
+    console.log('📈 TradeExitMonitor: intraday exit monitoring every 5s during market hours');
   }
 
   /**
@@ -37,6 +81,11 @@ export class TradeExitMonitor {
       clearTimeout(this.monitoringTimeout);
       this.monitoringTimeout = null;
     }
+    if (this.intradayTask) {
+      clearInterval(this.intradayTask);
+      this.intradayTask = null;
+      quoteSubscriptionManager.releaseAll(this.SUBSCRIPTION_OWNER);
+    }
     this.isRunning = false;
     console.log('🛑 TradeExitMonitor stopped');
   }
@@ -99,10 +148,7 @@ export class TradeExitMonitor {
    */
   private static async checkExits(): Promise<void> {
     try {
-      // Get all recommendations with 'monitoring' or 'open' status (align with metrics counting)
-      const openTrades = await db.select()
-        .from(recommendationTracking)
-        .where(sql`${recommendationTracking.status} IN ('open', 'monitoring')`);
+      const openTrades = await this.getOpenTrades();
 
       if (openTrades.length === 0) {
         return;
@@ -120,55 +166,57 @@ export class TradeExitMonitor {
   }
 
   /**
-   * Evaluate a single trade for exit conditions
+   * One intraday pass: new quotes for every open recommendation, first touch of target/stop exits
+   */
+  private static async evaluateIntraday(): Promise<void> {
+    if (this.isEvaluating || !marketStatusService.isMarketOpen()) {
+      return;
+    }
+
+    this.isEvaluating = true;
+    try {
+      const openTrades = await this.getOpenTrades();
+      this.ensureSubscriptions(openTrades);
+
+      for (const trade of openTrades) {
+        try {
+          const observation = await this.observe(trade);
+          if (observation) {
+            await this.applyObservation(trade, observation);
+          }
+        } catch (error) {
+          console.error(`❌ Error monitoring ${trade.ticker}:`, error);
+        }
+      }
+    } finally {
+      this.isEvaluating = false;
+    }
+  }
+
+  /**
+   * Evaluate a single trade for exit conditions (daily pass)
    */
-  private static async evaluateTradeExit(trade: any): Promise<void> {
+  private static async evaluateTradeExit(trade: RecommendationTracking): Promise<void> {
     try {
       // Get current option premium using Polygon API or fallback sources
-      const currentPremium = await this.getCurrentOptionPremium(
+      const optionQuote = await this.getCurrentOptionPremium(
         trade.ticker,
-        trade.optionType,
+        trade.optionType as 'call' | 'put',
         trade.strikePrice,
         trade.expiry
       );
 
-      if (!currentPremium) {
+      if (!optionQuote) {
         // Silently skip if no premium data - common for SPX index options and expired contracts
         return;
       }
 
-      // Get current stock price for accurate exit recording
-      const currentStockPrice = await this.getCurrentStockPrice(trade.ticker);
-
-      // Calculate current ROI
-      const currentROI = ((currentPremium - trade.premium) / trade.premium) * 100;
-      const params = trade.parameters as any;
-      const profitTargetPct = (params.profitTarget || 0.65) * 100; // Default 65%
-      const stopLossPct = (params.stopLoss || 0.3) * 100; // Default 30%
-
+      const observation: PremiumObservation = { ...optionQuote, observedAt: new Date(), source: 'poll' };
+      const { profitTargetPct, stopLossPct } = this.getLevels(trade);
+      const currentROI = ((observation.premium - trade.premium) / trade.premium) * 100;
       console.log(`📈 ${trade.ticker}: Current ROI ${currentROI.toFixed(1)}% (Target: ${profitTargetPct}%, Stop: -${stopLossPct}%)`);
 
-      // Check profit target
-      if (currentROI >= profitTargetPct) {
-        console.log(`🎯 PROFIT TARGET HIT for ${trade.ticker}! Closing trade...`);
-        await RecommendationTracker.recordOutcome(trade.id, {
-          exitDate: new Date(),
-          exitPrice: currentStockPrice || trade.entryPrice, // Use current price or fallback to entry
-          exitPremium: currentPremium,
-          exitReason: 'profit_target'
-        });
-        return;
-      }
-
-      // Check stop loss
-      if (currentROI <= -stopLossPct) {
-        console.log(`🛑 STOP LOSS HIT for ${trade.ticker}! Closing trade...`);
-        await RecommendationTracker.recordOutcome(trade.id, {
-          exitDate: new Date(),
-          exitPrice: currentStockPrice || trade.entryPrice,
-          exitPremium: currentPremium,
-          exitReason: 'stop_loss'
-        });
+      if (await this.applyObservation(trade, observation)) {
         return;
       }
 
@@ -179,12 +227,7 @@ export class TradeExitMonitor {
 
       if (daysToExpiry <= 0) {
         console.log(`⏰ EXPIRY REACHED for ${trade.ticker}! Closing trade...`);
-        await RecommendationTracker.recordOutcome(trade.id, {
-          exitDate: new Date(),
-          exitPrice: currentStockPrice || trade.entryPrice,
-          exitPremium: currentPremium,
-          exitReason: 'expiry'
-        });
+        await this.recordExit(trade, observation, 'expiry');
       }
     } catch (error) {
       console.error(`❌ Error evaluating ${trade.ticker}:`, error);
@@ -192,14 +235,196 @@ export class TradeExitMonitor {
   }
 
   /**
-   * Get current option premium from Polygon API with WebSocket fallback
+   * Fold a premium observation into the running extremes. Returns true when it touched
+   * the profit target or stop and the exit was recorded.
+   */
+  private static async applyObservation(trade: RecommendationTracking, observation: PremiumObservation): Promise<boolean> {
+    const currentROI = ((observation.premium - trade.premium) / trade.premium) * 100;
+    const excursion = await this.getExcursion(trade.id);
+
+    if (currentROI > excursion.maxProfit) {
+      excursion.maxProfit = currentROI;
+      excursion.dirty = true;
+    }
+    if (currentROI < excursion.maxDrawdown) {
+      excursion.maxDrawdown = currentROI;
+      excursion.dirty = true;
+    }
+
+    const { profitTargetPct, stopLossPct } = this.getLevels(trade);
+
+    // Check profit target
+    if (currentROI >= profitTargetPct) {
+      console.log(`🎯 PROFIT TARGET HIT for ${trade.ticker} at ${observation.observedAt.toISOString()} (${currentROI.toFixed(1)}%, ${observation.source})! Closing trade...`);
+      await this.recordExit(trade, observation, 'profit_target');
+      return true;
+    }
+
+    // Check stop loss
+    if (currentROI <= -stopLossPct) {
+      console.log(`🛑 STOP LOSS HIT for ${trade.ticker} at ${observation.observedAt.toISOString()} (${currentROI.toFixed(1)}%, ${observation.source})! Closing trade...`);
+      await this.recordExit(trade, observation, 'stop_loss');
+      return true;
+    }
+
+    if (excursion.dirty && Date.now() - excursion.persistedAt >= this.PERSIST_INTERVAL_MS) {
+      await this.persistExcursion(trade.id, excursion);
+    }
+    return false;
+  }
+
+  /**
+   * Record the outcome at the observation's time. Exit triggers use the mid; the recorded
+   * outcome fills at the bid (see ExecutionCostModel).
+   */
+  private static async recordExit(
+    trade: RecommendationTracking,
+    observation: PremiumObservation,
+    exitReason: 'profit_target' | 'stop_loss' | 'expiry'
+  ): Promise<void> {
+    // Extremes are written first so the outcome row carries them
+    await this.persistExcursion(trade.id, await this.getExcursion(trade.id));
+
+    // Get current stock price for accurate exit recording
+    const currentStockPrice = await this.getCurrentStockPrice(trade.ticker);
+
+    await RecommendationTracker.recordOutcome(trade.id, {
+      exitDate: observation.observedAt,
+      exitPrice: currentStockPrice || trade.entryPrice, // Use current price or fallback to entry
+      exitPremium: observation.premium,
+      exitReason,
+      exitQuote: { bid: observation.bid, ask: observation.ask }
+    });
+
+    this.excursions.delete(trade.id);
+    this.lastQuoteAt.delete(trade.id);
+    this.lastPolledAt.delete(trade.id);
+  }
+
+  /**
+   * Next observation for a trade: a streamed quote not seen before, or (with nothing
+   * streaming) a REST snapshot at most once per POLL_FALLBACK_INTERVAL_MS
+   */
+  private static async observe(trade: RecommendationTracking): Promise<PremiumObservation | null> {
+    const { polygonService } = await import('./polygonService');
+    const { tastytradeService } = await import('./tastytradeService');
+
+    const optionSymbol = this.getOptionSymbol(trade);
+    const streamed = polygonService.getCachedOptionQuote(optionSymbol) ?? tastytradeService.getCachedOptionPremium(optionSymbol);
+    if (streamed && streamed.premium > 0) {
+      if (this.lastQuoteAt.get(trade.id) === streamed.timestamp) {
+        return null;
+      }
+      this.lastQuoteAt.set(trade.id, streamed.timestamp);
+      return {
+        premium: streamed.premium,
+        bid: streamed.bid,
+        ask: streamed.ask,
+        observedAt: new Date(streamed.timestamp),
+        source: streamed.source,
+      };
+    }
+
+    const lastPolled = this.lastPolledAt.get(trade.id) ?? 0;
+    if (Date.now() - lastPolled < this.POLL_FALLBACK_INTERVAL_MS) {
+      return null;
+    }
+    this.lastPolledAt.set(trade.id, Date.now());
+
+    const polled = await this.getCurrentOptionPremium(trade.ticker, trade.optionType as 'call' | 'put', trade.strikePrice, trade.expiry);
+    return polled ? { ...polled, observedAt: new Date(), source: 'poll' } : null;
+  }
+
+  /**
+   * Running extremes for a trade, resumed from its performance row after a restart
+   */
+  private static async getExcursion(recommendationId: string): Promise<Excursion> {
+    let excursion = this.excursions.get(recommendationId);
+    if (!excursion) {
+      const [perf] = await db.select()
+        .from(recommendationPerformance)
+        .where(eq(recommendationPerformance.recommendationId, recommendationId))
+        .limit(1);
+      excursion = {
+        maxProfit: Math.max(0, perf?.maxProfit ?? 0),
+        maxDrawdown: Math.min(0, perf?.maxDrawdown ?? 0),
+        persistedAt: 0,
+        dirty: false,
+      };
+      this.excursions.set(recommendationId, excursion);
+    }
+    return excursion;
+  }
+
+  /**
+   * Write running extremes to the recommendation's open performance row (created on first write)
+   */
+  private static async persistExcursion(recommendationId: string, excursion: Excursion): Promise<void> {
+    if (!excursion.dirty) return;
+
+    const [existing] = await db.select({ id: recommendationPerformance.id })
+      .from(recommendationPerformance)
+      .where(eq(recommendationPerformance.recommendationId, recommendationId))
+      .limit(1);
+
+    if (existing) {
+      await db.update(recommendationPerformance)
+        .set({ maxProfit: excursion.maxProfit, maxDrawdown: excursion.maxDrawdown, updatedAt: new Date() })
+        .where(eq(recommendationPerformance.id, existing.id));
+    } else {
+      await db.insert(recommendationPerformance).values({
+        recommendationId,
+        maxProfit: excursion.maxProfit,
+        maxDrawdown: excursion.maxDrawdown,
+      });
+    }
+
+    excursion.persistedAt = Date.now();
+    excursion.dirty = false;
+  }
+
+  private static getLevels(trade: RecommendationTracking): { profitTargetPct: number; stopLossPct: number } {
+    const params = trade.parameters as any;
+    return {
+      profitTargetPct: (params.profitTarget || 0.65) * 100, // Default 65%
+      stopLossPct: (params.stopLoss || 0.3) * 100, // Default 30%
+    };
+  }
+
+  private static getOptionSymbol(trade: RecommendationTracking): string {
+    return formatOptionSymbol(trade.ticker, trade.expiry, trade.optionType as 'call' | 'put', trade.strikePrice);
+  }
+
+  // Align with metrics counting: 'open' and 'monitoring' recommendations are still live
+  private static async getOpenTrades(): Promise<RecommendationTracking[]> {
+    return db.select()
+      .from(recommendationTracking)
+      .where(sql`${recommendationTracking.status} IN ('open', 'monitoring')`);
+  }
+
+  /**
+   * Stream the contracts being watched and release ones whose recommendation closed
+   */
+  private static ensureSubscriptions(trades: RecommendationTracking[]): void {
+    const optionSymbols = Array.from(new Set(trades.map(t => this.getOptionSymbol(t))));
+    quoteSubscriptionManager.acquire(this.SUBSCRIPTION_OWNER, { optionSymbols });
+
+    const held = quoteSubscriptionManager.getOwnerSubscriptions(this.SUBSCRIPTION_OWNER);
+    const stale = held.optionSymbols.filter(s => !optionSymbols.includes(s));
+    if (stale.length > 0) {
+      quoteSubscriptionManager.release(this.SUBSCRIPTION_OWNER, { optionSymbols: stale });
+    }
+  }
+
+  /**
+   * Get current option premium (mid, or last trade) and bid/ask from Polygon API with WebSocket fallback
    */
   private static async getCurrentOptionPremium(
     ticker: string,
     optionType: 'call' | 'put',
     strikePrice: number,
     expiry: string
-  ): Promise<number | null> {
+  ): Promise<{ premium: number; bid: number | null; ask: number | null } | null> {
     try {
       const { polygonService } = await import('./polygonService');
 
@@ -210,8 +435,9 @@ export class TradeExitMonitor {
       // Try Polygon REST API snapshot first
       const snapshot = await polygonService.getOptionSnapshot(optionTicker);
 
-      if (snapshot && (snapshot.midpoint || snapshot.last)) {
-        return snapshot.midpoint || snapshot.last;
+      const premium = snapshot?.midpoint || snapshot?.last;
+      if (snapshot && premium) {
+        return { premium, bid: snapshot.bid, ask: snapshot.ask };
       }
 
       // Fallback: For SPX and other index options, Polygon snapshots don't work
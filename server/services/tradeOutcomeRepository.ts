@@ -56,11 +56,13 @@ export class TradeOutcomeRepository {
       vixRange?: [number, number];
       optionType?: 'call' | 'put';
       sector?: string;
+      marketRegime?: string;
     }
   ): Promise<Array<RecommendationTracking & { performance?: RecommendationPerformance }>> {
     // Get all trades and filter by conditions
     const allTrades = await learningStorage.getTradeOutcomes({
-      closedOnly: true
+      closedOnly: true,
+      marketRegime: conditions.marketRegime
     });
     
     return allTrades.filter(trade => {
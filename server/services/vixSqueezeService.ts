@@ -0,0 +1,584 @@
+/**
+ * VIX Squeeze Signal
+ *
+ * The squeeze alert (VIX >= 20 and a > 5% move vs the prior close while the market is open)
+ * is checked every minute of the session and tracked like any other strategy; the market
+ * overview only reads the last alert:
+ *
+ * - Each trigger is stored once per session with the SPY put that would have been bought:
+ *   the strike nearest spot on the first expiry that survives the exit (a same-day expiry
+ *   cannot be held overnight), priced from the live chain quote
+ * - The position is marked at the stated exit, 9:30 AM CST on the next trading day, from the
+ *   contract's chain quote. When the exit was missed, both legs are priced with Black-Scholes
+ *   (SPY's 9:30 bar and the exit day's VIX open for the exit), as in the backtest
+ * - A backtest replays the rule over daily VIX/SPY bars (entry at the close, exit on the
+ *   9:30 AM CST 5-minute bar, or the exit day's open when intraday bars are unavailable)
+ * - The alert's confidence is the hit rate of resolved live signals once there are enough,
+ *   else the last backtest's; returns are mid-to-mid, before spread and fees
+ *
+ * The last backtest is kept in `app_config` under `vix_squeeze_backtest`.
+ */
+
+import { DateTime } from 'luxon';
+import { db } from '../db';
+import {
+  appConfig,
+  vixSqueezeSignals,
+  type VixSqueezeAlert,
+  type VixSqueezeBacktestResult,
+  type VixSqueezeBacktestTrade,
+  type VixSqueezeConfidence,
+  type VixSqueezeSignal,
+  type VixSqueezeStats,
+} from '@shared/schema';
+import { and, desc, eq, lte } from 'drizzle-orm';
+import { polygonService } from './polygonService';
+import { historicalDataService } from './historicalDataService';
+import { historicalDataCache } from './historicalDataCache';
+import { marketCalendar } from './marketCalendar';
+import { indexHistoryService } from './indexHistoryService';
+import { WebScraperService } from './webScraper';
+import { BlackScholesCalculator } from './financialCalculations';
+import { formatOptionSymbol, normalizeOptionSymbol } from '../utils/optionSymbols';
+
+const CONFIG_KEY = 'vix_squeeze_backtest';
+const EXCHANGE_TZ = 'America/New_York';
+
+// Trigger rule
+const MIN_VIX = 20;
+const MIN_CHANGE_PERCENT = 5;
+
+const EXIT_TIME_ET = '10:30'; // 9:30 AM CST
+const INTRADAY_MINUTES = 5;
+const RESOLVE_CHECK_MS = 60 * 1000;
+const VIX_CHECK_MS = 60 * 1000;
+const LIVE_QUOTE_WINDOW_MS = 15 * 60 * 1000; // After this the live quote no longer reflects the exit
+const UNPRICED_AFTER_MS = 3 * 24 * 60 * 60 * 1000;
+const RISK_FREE_RATE = 0.05;
+const MIN_LIVE_SAMPLE = 10; // Resolved live signals before the live hit rate replaces the backtest's
+const MIN_BACKTEST_SAMPLE = 10;
+const MAX_BACKTEST_YEARS = 10;
+
+/**
+ * The squeeze rule, shared by the live alert and the backtest
+ */
+export function isVixSqueeze(vix: number, changePercent: number): boolean {
+  return vix >= MIN_VIX && Math.abs(changePercent) > MIN_CHANGE_PERCENT;
+}
+
+/**
+ * Invalid squeeze request (bad backtest range)
+ */
+export class VixSqueezeError extends Error {
+  constructor(message: string, public readonly statusCode: 400 | 404 = 400) {
+    super(message);
+    this.name = 'VixSqueezeError';
+  }
+}
+
+interface SqueezeContract {
+  optionSymbol: string;
+  strike: number;
+  expiry: string;
+  spyPrice: number;
+  premium: number;
+  premiumSource: 'quote' | 'model';
+}
+
+export class VixSqueezeService {
+  private static instance: VixSqueezeService | null = null;
+  private resolveInterval: NodeJS.Timeout | null = null;
+  private checkInterval: NodeJS.Timeout | null = null;
+  private isResolving = false;
+  private isChecking = false;
+  private alert: VixSqueezeAlert = { detected: false };
+  private triggerPromise: Promise<VixSqueezeSignal | null> | null = null;
+  private backtest: VixSqueezeBacktestResult | null = null;
+
+  private constructor() {}
+
+  static getInstance(): VixSqueezeService {
+    if (!VixSqueezeService.instance) {
+      VixSqueezeService.instance = new VixSqueezeService();
+    }
+    return VixSqueezeService.instance;
+  }
+
+  /**
+   * Load the last backtest, check VIX through the session and resolve signals at their exit time
+   */
+  async start(): Promise<void> {
+    try {
+      const [row] = await db.select().from(appConfig).where(eq(appConfig.key, CONFIG_KEY)).limit(1);
+      if (row) {
+        this.backtest = JSON.parse(row.value);
+      }
+    } catch (error: any) {
+      console.warn('⚠️ Failed to load VIX squeeze backtest:', error.message);
+    }
+
+    this.resolveInterval = setInterval(() => {
+      this.resolveDue().catch(error => {
+        console.error('❌ VIX squeeze resolution failed:', error.message);
+      });
+    }, RESOLVE_CHECK_MS);
+    this.checkInterval = setInterval(() => {
+      this.checkVix().catch(error => {
+        console.error('❌ VIX squeeze check failed:', error.message);
+      });
+    }, VIX_CHECK_MS);
+    await this.resolveDue();
+  }
+
+  stop(): void {
+    if (this.resolveInterval) {
+      clearInterval(this.resolveInterval);
+      this.resolveInterval = null;
+    }
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+  }
+
+  /**
+   * Last alert from the timer (nothing outside the session)
+   */
+  getAlert(): VixSqueezeAlert {
+    return marketCalendar.isMarketOpen() ? this.alert : { detected: false };
+  }
+
+  /**
+   * Re-evaluate the rule on the current VIX quote (change vs the prior close)
+   */
+  async checkVix(): Promise<void> {
+    if (this.isChecking) return;
+    if (!marketCalendar.isMarketOpen()) {
+      this.alert = { detected: false };
+      return;
+    }
+
+    this.isChecking = true;
+    try {
+      const vix = await this.getVixQuote();
+      if (vix) {
+        this.alert = await this.evaluate(vix);
+      }
+    } finally {
+      this.isChecking = false;
+    }
+  }
+
+  /**
+   * Alert for the current VIX; records the session's trigger the first time it fires
+   */
+  async evaluate(vix: { value: number; changePercent: number }): Promise<VixSqueezeAlert> {
+    if (!marketCalendar.isMarketOpen() || !isVixSqueeze(vix.value, vix.changePercent)) {
+      return { detected: false };
+    }
+
+    const signal = await this.recordTrigger(vix).catch(error => {
+      console.error('❌ Failed to record VIX squeeze trigger:', error.message);
+      return null;
+    });
+    const confidence = await this.getConfidence();
+    const session = marketCalendar.getSession(new Date())!;
+
+    return {
+      detected: true,
+      action: signal ? `BUY SPY ${signal.strike}P ${signal.expiry}` : 'BUY SPY PUT',
+      vix: vix.value,
+      change: vix.changePercent,
+      optionSymbol: signal?.optionSymbol,
+      strike: signal?.strike,
+      expiry: signal?.expiry,
+      entryPremium: signal?.entryPremium,
+      entryWindow: `NOW — ${DateTime.fromJSDate(session.close).setZone('America/Chicago').toFormat('h:mm a')} CST`,
+      exitTime: '9:30 AM CST (next day)',
+      confidence: confidence.hitRate !== null ? `${confidence.hitRate.toFixed(1)}%` : 'Unproven',
+      confidenceDetail: confidence,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Store today's trigger with its contract (no-op if the session already has one)
+   */
+  async recordTrigger(vix: { value: number; changePercent: number }): Promise<VixSqueezeSignal | null> {
+    if (!this.triggerPromise) {
+      this.triggerPromise = (async () => {
+        const signalDate = marketCalendar.toExchangeDate();
+        const [existing] = await db.select().from(vixSqueezeSignals).where(eq(vixSqueezeSignals.signalDate, signalDate)).limit(1);
+        if (existing) return existing;
+
+        const exitDate = marketCalendar.getNextTradingDay(signalDate);
+        const contract = await this.pickContract(exitDate, vix.value);
+        const [signal] = await db.insert(vixSqueezeSignals)
+          .values({
+            signalDate,
+            triggeredAt: new Date(),
+            vix: vix.value,
+            vixChangePercent: vix.changePercent,
+            spyPrice: contract.spyPrice,
+            optionSymbol: contract.optionSymbol,
+            strike: contract.strike,
+            expiry: contract.expiry,
+            entryPremium: contract.premium,
+            entryPremiumSource: contract.premiumSource,
+            exitAt: marketCalendar.exchangeTimeToDate(exitDate, EXIT_TIME_ET),
+          })
+          .onConflictDoNothing({ target: vixSqueezeSignals.signalDate })
+          .returning();
+
+        if (signal) {
+          console.log(`🚨 VIX squeeze recorded: ${contract.optionSymbol} @ $${contract.premium.toFixed(2)} (${contract.premiumSource}), VIX ${vix.value.toFixed(2)} (${vix.changePercent >= 0 ? '+' : ''}${vix.changePercent.toFixed(2)}%)`);
+          return signal;
+        }
+        const [raced] = await db.select().from(vixSqueezeSignals).where(eq(vixSqueezeSignals.signalDate, signalDate)).limit(1);
+        return raced ?? null;
+      })().finally(() => {
+        this.triggerPromise = null;
+      });
+    }
+    return this.triggerPromise;
+  }
+
+  /**
+   * Mark every pending signal whose exit time has passed
+   */
+  async resolveDue(now: Date = new Date()): Promise<number> {
+    if (this.isResolving) return 0;
+    this.isResolving = true;
+    try {
+      const due = await db.select()
+        .from(vixSqueezeSignals)
+        .where(and(eq(vixSqueezeSignals.status, 'pending'), lte(vixSqueezeSignals.exitAt, now)));
+
+      let resolved = 0;
+      for (const signal of due) {
+        try {
+          if (await this.resolveSignal(signal, now)) resolved++;
+        } catch (error: any) {
+          console.error(`❌ VIX squeeze ${signal.signalDate}: resolution failed:`, error.message);
+        }
+      }
+      return resolved;
+    } finally {
+      this.isResolving = false;
+    }
+  }
+
+  async listSignals(limit: number = 50): Promise<VixSqueezeSignal[]> {
+    return db.select().from(vixSqueezeSignals).orderBy(desc(vixSqueezeSignals.signalDate)).limit(limit);
+  }
+
+  async getStats(): Promise<VixSqueezeStats> {
+    const signals = await db.select().from(vixSqueezeSignals);
+    const resolved = signals.filter(s => s.status === 'resolved');
+    const wins = resolved.filter(s => s.outcome === 'win').length;
+    const returns = resolved.map(s => s.returnPct ?? 0);
+
+    let backtest: VixSqueezeStats['backtest'] = null;
+    if (this.backtest) {
+      const { trades, ...summary } = this.backtest;
+      backtest = { ...summary, tradeCount: trades.length };
+    }
+
+    return {
+      live: {
+        total: signals.length,
+        pending: signals.filter(s => s.status === 'pending').length,
+        resolved: resolved.length,
+        wins,
+        hitRate: resolved.length > 0 ? this.round((wins / resolved.length) * 100, 1) : null,
+        avgReturnPct: returns.length > 0 ? this.round(returns.reduce((a, b) => a + b, 0) / returns.length) : null,
+      },
+      backtest,
+      confidence: this.confidenceFrom(resolved.length, wins),
+    };
+  }
+
+  async getConfidence(): Promise<VixSqueezeConfidence> {
+    const resolved = await db.select({ outcome: vixSqueezeSignals.outcome })
+      .from(vixSqueezeSignals)
+      .where(eq(vixSqueezeSignals.status, 'resolved'));
+    return this.confidenceFrom(resolved.length, resolved.filter(r => r.outcome === 'win').length);
+  }
+
+  /**
+   * Replay the squeeze rule over daily VIX/SPY closes and save the result as the confidence fallback
+   */
+  async runBacktest(startDate: string, endDate: string): Promise<VixSqueezeBacktestResult> {
+    const start = DateTime.fromISO(startDate, { zone: EXCHANGE_TZ });
+    const end = DateTime.fromISO(endDate, { zone: EXCHANGE_TZ });
+    if (!start.isValid || !end.isValid || !/^\d{4}-\d{2}-\d{2}$/.test(startDate) || !/^\d{4}-\d{2}-\d{2}$/.test(endDate)) {
+      throw new VixSqueezeError('startDate and endDate must be YYYY-MM-DD');
+    }
+    if (end < start) {
+      throw new VixSqueezeError('endDate must be on or after startDate');
+    }
+    if (end.diff(start, 'years').years > MAX_BACKTEST_YEARS) {
+      throw new VixSqueezeError(`Backtest range is limited to ${MAX_BACKTEST_YEARS} years`);
+    }
+
+    // A week either side covers the prior close and the exit day
+    const from = start.minus({ days: 7 }).toISODate()!;
+    const to = end.plus({ days: 7 }).toISODate()!;
+    const [vixBars, spyBars] = await Promise.all([
+      historicalDataService.getVIXHistory(from, to, true, true),
+      historicalDataService.getDailyBars('SPY', from, to, true, true),
+    ]);
+    if (vixBars.length === 0 || spyBars.length === 0) {
+      throw new VixSqueezeError('No VIX/SPY history available for that range', 404);
+    }
+
+    const toDate = (timestamp: number) => marketCalendar.toExchangeDate(new Date(timestamp));
+    const spyByDate = new Map(spyBars.map(bar => [toDate(bar.timestamp), bar]));
+    const vixByDate = new Map(vixBars.map(bar => [toDate(bar.timestamp), bar]));
+
+    const trades: VixSqueezeBacktestTrade[] = [];
+    for (let i = 1; i < vixBars.length; i++) {
+      const signalDate = toDate(vixBars[i].timestamp);
+      if (signalDate < startDate || signalDate > endDate) continue;
+
+      const vix = vixBars[i].close;
+      const vixChangePercent = ((vix - vixBars[i - 1].close) / vixBars[i - 1].close) * 100;
+      if (!isVixSqueeze(vix, vixChangePercent)) continue;
+
+      const exitDate = marketCalendar.getNextTradingDay(signalDate);
+      const spyEntryBar = spyByDate.get(signalDate);
+      const spyExitBar = spyByDate.get(exitDate);
+      if (!spyEntryBar || !spyExitBar) continue;
+
+      const exitAt = marketCalendar.exchangeTimeToDate(exitDate, EXIT_TIME_ET);
+      const intradayExit = await this.getSpyPriceAt(exitDate, exitAt);
+      const spyExit = intradayExit ?? spyExitBar.open;
+
+      // Same contract the live signal would pick: ATM put on the exit-day expiry
+      const strike = Math.round(spyEntryBar.close);
+      const expiryClose = marketCalendar.getSession(exitDate)!.close;
+      const entryAt = marketCalendar.getSession(signalDate)!.close;
+      const exitVix = vixByDate.get(exitDate)?.open || vix;
+      const entryPremium = this.modelPremium(spyEntryBar.close, strike, expiryClose.getTime() - entryAt.getTime(), vix);
+      const exitPremium = this.modelPremium(spyExit, strike, expiryClose.getTime() - exitAt.getTime(), exitVix);
+      if (entryPremium <= 0) continue;
+
+      const returnPct = ((exitPremium - entryPremium) / entryPremium) * 100;
+      trades.push({
+        signalDate,
+        exitDate,
+        vix: this.round(vix),
+        vixChangePercent: this.round(vixChangePercent),
+        spyEntry: this.round(spyEntryBar.close),
+        spyExit: this.round(spyExit),
+        spyExitSource: intradayExit !== null ? 'intraday' : 'open',
+        strike,
+        entryPremium: this.round(entryPremium),
+        exitPremium: this.round(exitPremium),
+        returnPct: this.round(returnPct),
+        win: exitPremium > entryPremium,
+      });
+    }
+
+    const wins = trades.filter(t => t.win).length;
+    const result: VixSqueezeBacktestResult = {
+      startDate,
+      endDate,
+      trades,
+      hitRate: trades.length > 0 ? this.round((wins / trades.length) * 100, 1) : null,
+      avgReturnPct: trades.length > 0 ? this.round(trades.reduce((sum, t) => sum + t.returnPct, 0) / trades.length) : null,
+      ranAt: new Date().toISOString(),
+    };
+
+    const value = JSON.stringify(result);
+    await db.insert(appConfig)
+      .values({
+        key: CONFIG_KEY,
+        value,
+        description: 'Last VIX squeeze backtest (confidence fallback)',
+        updatedAt: new Date()
+      })
+      .onConflictDoUpdate({
+        target: appConfig.key,
+        set: { value, updatedAt: new Date() }
+      });
+    this.backtest = result;
+
+    console.log(`📊 VIX squeeze backtest ${startDate} → ${endDate}: ${trades.length} signals, hit rate ${result.hitRate ?? 'n/a'}%`);
+    return result;
+  }
+
+  private confidenceFrom(resolved: number, wins: number): VixSqueezeConfidence {
+    if (resolved >= MIN_LIVE_SAMPLE) {
+      return { hitRate: this.round((wins / resolved) * 100, 1), basis: 'live', sampleSize: resolved };
+    }
+    if (this.backtest && this.backtest.trades.length >= MIN_BACKTEST_SAMPLE && this.backtest.hitRate !== null) {
+      return { hitRate: this.backtest.hitRate, basis: 'backtest', sampleSize: this.backtest.trades.length };
+    }
+    return { hitRate: null, basis: null, sampleSize: resolved };
+  }
+
+  /**
+   * Nearest-the-money SPY put on the first expiry on or after the exit day
+   */
+  private async pickContract(exitDate: string, vix: number): Promise<SqueezeContract> {
+    const maxExpiry = DateTime.fromISO(exitDate).plus({ days: 7 }).toISODate()!;
+    const chain = await polygonService.getOptionChainSnapshot('SPY', maxExpiry);
+    const spyPrice = chain.find(c => c.underlying_asset?.price)?.underlying_asset.price
+      ?? (await polygonService.getCachedQuote('SPY'))?.lastPrice;
+    if (!spyPrice) {
+      throw new Error('No SPY price available');
+    }
+
+    const puts = chain.filter(c => c.details?.contract_type === 'put' && c.details.expiration_date >= exitDate);
+    if (puts.length > 0) {
+      const expiry = puts.reduce((min: string, c: any) => (c.details.expiration_date < min ? c.details.expiration_date : min), puts[0].details.expiration_date);
+      const best = puts
+        .filter(c => c.details.expiration_date === expiry)
+        .reduce((a: any, b: any) => (Math.abs(b.details.strike_price - spyPrice) < Math.abs(a.details.strike_price - spyPrice) ? b : a));
+
+      const quoted = this.quotedPremium(best);
+      if (quoted !== null) {
+        return {
+          optionSymbol: normalizeOptionSymbol(best.details.ticker),
+          strike: best.details.strike_price,
+          expiry,
+          spyPrice,
+          premium: quoted,
+          premiumSource: 'quote',
+        };
+      }
+    }
+
+    // No usable chain quote: SPY lists daily expiries, so price the exit-day ATM put
+    const strike = Math.round(spyPrice);
+    const msToExpiry = marketCalendar.getSession(exitDate)!.close.getTime() - Date.now();
+    return {
+      optionSymbol: formatOptionSymbol('SPY', exitDate, 'put', strike),
+      strike,
+      expiry: exitDate,
+      spyPrice,
+      premium: this.round(this.modelPremium(spyPrice, strike, msToExpiry, vix)),
+      premiumSource: 'model',
+    };
+  }
+
+  private async resolveSignal(signal: VixSqueezeSignal, now: Date): Promise<boolean> {
+    let exitPremium: number | null = null;
+    let exitPremiumSource: 'quote' | 'model' = 'quote';
+    let spyExitPrice: number | null = null;
+
+    let entryPremium = signal.entryPremium;
+
+    if (now.getTime() - signal.exitAt.getTime() <= LIVE_QUOTE_WINDOW_MS) {
+      const chain = await polygonService.getOptionChainSnapshot('SPY', signal.expiry);
+      const contract = chain.find(c => c.details?.ticker && normalizeOptionSymbol(c.details.ticker) === signal.optionSymbol);
+      exitPremium = contract ? this.quotedPremium(contract) : null;
+      spyExitPrice = chain.find(c => c.underlying_asset?.price)?.underlying_asset.price
+        ?? (await polygonService.getCachedQuote('SPY'))?.lastPrice
+        ?? null;
+    }
+
+    // Missed the exit: model both legs so the return isn't a quote compared with a model
+    if (exitPremium === null) {
+      const exitDate = marketCalendar.toExchangeDate(signal.exitAt);
+      spyExitPrice = await this.getSpyPriceAt(exitDate, signal.exitAt);
+      if (spyExitPrice !== null) {
+        const expiryClose = marketCalendar.getSession(signal.expiry)?.close ?? marketCalendar.exchangeTimeToDate(signal.expiry, '16:00');
+        const exitVix = await this.getVixOpen(exitDate) ?? signal.vix;
+        exitPremium = this.modelPremium(spyExitPrice, signal.strike, expiryClose.getTime() - signal.exitAt.getTime(), exitVix);
+        exitPremiumSource = 'model';
+        if (signal.entryPremiumSource !== 'model') {
+          entryPremium = this.modelPremium(signal.spyPrice, signal.strike, expiryClose.getTime() - signal.triggeredAt.getTime(), signal.vix);
+        }
+      }
+    }
+
+    if (exitPremium === null) {
+      if (now.getTime() - signal.exitAt.getTime() > UNPRICED_AFTER_MS) {
+        await db.update(vixSqueezeSignals)
+          .set({ status: 'unpriced', resolvedAt: now })
+          .where(eq(vixSqueezeSignals.id, signal.id));
+        console.warn(`⚠️ VIX squeeze ${signal.signalDate}: no exit price, marked unpriced`);
+      }
+      return false;
+    }
+
+    const returnPct = ((exitPremium - entryPremium) / entryPremium) * 100;
+    const outcome = exitPremium > entryPremium ? 'win' : 'loss';
+    await db.update(vixSqueezeSignals)
+      .set({
+        status: 'resolved',
+        exitPremium: this.round(exitPremium),
+        exitPremiumSource,
+        spyExitPrice,
+        returnPct: this.round(returnPct),
+        outcome,
+        resolvedAt: now,
+      })
+      .where(eq(vixSqueezeSignals.id, signal.id));
+
+    console.log(`${outcome === 'win' ? '✅' : '❌'} VIX squeeze ${signal.signalDate}: ${signal.optionSymbol} $${entryPremium.toFixed(2)} → $${exitPremium.toFixed(2)} (${returnPct >= 0 ? '+' : ''}${returnPct.toFixed(1)}%, ${exitPremiumSource})`);
+    return true;
+  }
+
+  /**
+   * Mid of a chain snapshot contract, else its last trade or day close
+   */
+  private quotedPremium(contract: any): number | null {
+    const bid = contract.last_quote?.bid;
+    const ask = contract.last_quote?.ask;
+    const quoted = bid > 0 && ask > 0 ? (bid + ask) / 2 : contract.last_trade?.price || contract.day?.close;
+    return quoted > 0 ? quoted : null;
+  }
+
+  /**
+   * Current VIX with its change vs the prior close
+   */
+  private async getVixQuote(): Promise<{ value: number; changePercent: number } | null> {
+    const scraped = await WebScraperService.scrapeStockPrice('%5EVIX');
+    if (!(scraped.price > 0)) return null;
+    const quote = await indexHistoryService.getQuote('VIX', scraped.price);
+    return { value: quote.value, changePercent: quote.changePercent };
+  }
+
+  /**
+   * VIX open on `date`, the volatility the backtest prices exits with
+   */
+  private async getVixOpen(date: string): Promise<number | null> {
+    const bars = await historicalDataService.getVIXHistory(date, date).catch(() => []);
+    const bar = bars.find(b => marketCalendar.toExchangeDate(new Date(b.timestamp)) === date);
+    return bar && bar.open > 0 ? bar.open : null;
+  }
+
+  /**
+   * SPY close of the 5-minute bar ending at `at` (bar store first, then Polygon)
+   */
+  private async getSpyPriceAt(date: string, at: Date): Promise<number | null> {
+    let bars = await historicalDataCache.getBars('SPY', date, date, `${INTRADAY_MINUTES}m`, false).catch(() => []);
+    if (bars.length === 0) {
+      const raw = await polygonService.getRawIntradayBars('SPY', date, date, INTRADAY_MINUTES);
+      bars = (raw || []).map((bar: any) => ({ timestamp: bar.t, open: bar.o, high: bar.h, low: bar.l, close: bar.c, volume: bar.v || 0 }));
+    }
+
+    const barMs = INTRADAY_MINUTES * 60 * 1000;
+    let price: number | null = null;
+    for (const bar of bars) {
+      if (bar.timestamp + barMs > at.getTime()) break;
+      price = bar.close;
+    }
+    return price;
+  }
+
+  private modelPremium(spot: number, strike: number, msToExpiry: number, vix: number): number {
+    const years = Math.max(msToExpiry, 60 * 1000) / (365 * 24 * 60 * 60 * 1000);
+    return BlackScholesCalculator.calculateOptionPrice(spot, strike, years, RISK_FREE_RATE, Math.max(0.05, vix / 100), 'put');
+  }
+
+  private round(value: number, digits: number = 2): number {
+    const factor = Math.pow(10, digits);
+    return Math.round(value * factor) / factor;
+  }
+}
+
+export const vixSqueezeService = VixSqueezeService.getInstance();
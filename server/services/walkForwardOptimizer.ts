@@ -0,0 +1,627 @@
+/**
+ * Walk-Forward Parameter Optimizer
+ *
+ * Searches EliteStrategyEngine config values (RSI bands, VIX floors, stop/target,
+ * ATR multiplier, delta band) by replaying the `elite_rules` backtest strategy over
+ * rolling train/test windows:
+ *
+ *   |---- train ----|-- test --|
+ *          |---- train ----|-- test --|   (window start advances by `stepDays`)
+ *
+ * Every candidate is scored in-sample (train) and out-of-sample (test) on every
+ * window. The winner is picked on the aggregate in-sample objective only; test windows
+ * never influence the choice, so its out-of-sample metrics are an unbiased held-out
+ * estimate rather than the best of many draws. Bars come from the on-disk backtest cache (`server/cache/backtest`) and
+ * the in-memory historicalDataCache, with Polygon only filling gaps, so a sweep of
+ * hundreds of simulations makes a handful of API calls at most.
+ *
+ * Nothing goes live automatically: the winner can be written as a new *proposed*
+ * `strategy_parameters` version for a human to review and activate.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { db } from '../db';
+import {
+  strategyOptimizationRuns,
+  type StrategyOptimizationRun,
+  type OptimizableParameter,
+  type OptimizationObjective,
+  type OptimizationMetrics,
+  type OptimizationCandidateResult,
+  type WalkForwardWindow,
+} from '@shared/schema';
+import { eq, desc } from 'drizzle-orm';
+import { BacktestEngine, type BacktestBarSource, type BacktestEvaluation } from './backtestEngine';
+import { getBacktestStrategy } from './backtestStrategies';
+import { EliteStrategyEngine } from './eliteStrategyEngine';
+import { strategyVersionService } from './strategyVersionService';
+import { historicalDataCache } from './historicalDataCache';
+import { historicalDataService } from './historicalDataService';
+import { marketCalendar } from './marketCalendar';
+import type { PriceBar } from './liveDataAdapter';
+
+export type SearchMethod = 'grid' | 'random';
+
+export interface WalkForwardConfig {
+  startDate: string; // YYYY-MM-DD, first train day
+  endDate: string; // YYYY-MM-DD, last test day
+  symbols?: string[] | null; // Default: elite_rules universe
+  trainDays?: number; // Trading days per train window (default 120)
+  testDays?: number; // Trading days per test window (default 40)
+  stepDays?: number; // Trading days between window starts (default testDays)
+  search?: SearchMethod; // Default 'random'
+  maxCandidates?: number; // Random samples / grid size limit (default 40)
+  seed?: number; // Random search seed, for reproducible sweeps
+  space?: Partial<Record<OptimizableParameter, number[]>>; // Values to try per field (defaults below)
+  objective?: OptimizationObjective; // Default 'sharpeRatio'
+  minTrades?: number; // In-sample trades required to be eligible (default 10)
+  startingCapital?: number; // Default $10,000
+  budget?: number; // Fixed $ per trade (default $1,000)
+  maxHoldDays?: number; // Default 5
+  proposeWinner?: boolean; // Write the winner as a proposed strategy_parameters version when done
+}
+
+/**
+ * Rejected optimization request (bad range, search space or objective), an unknown
+ * run (404), or one whose state doesn't allow it (409: already running, not completed)
+ */
+export class OptimizationConfigError extends Error {
+  constructor(message: string, public readonly statusCode: 400 | 404 | 409 = 400) {
+    super(message);
+    this.name = 'OptimizationConfigError';
+  }
+}
+
+type ResolvedConfig = Required<Omit<WalkForwardConfig, 'symbols' | 'space' | 'seed'>> & {
+  symbols: string[];
+  space: Record<OptimizableParameter, number[]>;
+  seed: number;
+};
+
+type ParameterSet = Record<OptimizableParameter, number>;
+
+const PARAMETERS: OptimizableParameter[] = [
+  'rsiOversold', 'rsiOverbought', 'vixMinCall', 'vixMinPut',
+  'stopLoss', 'profitTarget', 'atrMultiplier', 'deltaMin', 'deltaMax',
+];
+
+const DEFAULT_SPACE: Record<OptimizableParameter, number[]> = {
+  rsiOversold: [30, 35, 40, 45],
+  rsiOverbought: [55, 60, 65, 70],
+  vixMinCall: [12, 15, 18],
+  vixMinPut: [15, 20, 25],
+  stopLoss: [0.25, 0.30, 0.40],
+  profitTarget: [0.50, 0.65, 1.00],
+  atrMultiplier: [1.0, 1.2, 1.5],
+  deltaMin: [0.10, 0.20, 0.30],
+  deltaMax: [0.50, 0.65, 0.80],
+};
+
+const PROFIT_FACTOR_CAP = 10; // Windows with no losing trades would otherwise score Infinity
+const CACHE_DIR = path.resolve(process.cwd(), 'server', 'cache', 'backtest');
+const COVERAGE_TOLERANCE_DAYS = 7; // Cached history may start/end this far inside the requested range
+
+/**
+ * Bar provider backed by the on-disk backtest cache and the in-memory historical
+ * cache; Polygon is only asked for symbols whose cached history doesn't cover the range.
+ * Each symbol is loaded once and sliced for every simulation.
+ */
+class CachedBarSource implements BacktestBarSource {
+  private loaded = new Map<string, Promise<PriceBar[]>>();
+  private apiFetches = 0;
+
+  constructor(private rangeStart: string, private rangeEnd: string) {}
+
+  getDailyBars(symbol: string, startDate: string, endDate: string): Promise<PriceBar[]> {
+    return this.slice(symbol, startDate, endDate);
+  }
+
+  getVIXHistory(startDate: string, endDate: string): Promise<PriceBar[]> {
+    return this.slice('VIX', startDate, endDate);
+  }
+
+  getApiFetchCount(): number {
+    return this.apiFetches;
+  }
+
+  private async slice(symbol: string, startDate: string, endDate: string): Promise<PriceBar[]> {
+    if (!this.loaded.has(symbol)) {
+      this.loaded.set(symbol, this.load(symbol));
+    }
+    const bars = await this.loaded.get(symbol)!;
+    return bars.filter(bar => {
+      const date = toDate(bar.timestamp);
+      return date >= startDate && date <= endDate;
+    });
+  }
+
+  private async load(symbol: string): Promise<PriceBar[]> {
+    const byDate = new Map<string, PriceBar>();
+    const add = (bars: PriceBar[]) => {
+      for (const bar of bars) {
+        byDate.set(toDate(bar.timestamp), bar);
+      }
+    };
+
+    add(await this.readDiskCache(symbol));
+    add(historicalDataCache.getHistoricalBars(symbol) || []);
+
+    const dates = Array.from(byDate.keys()).sort();
+    const covered = dates.length > 0
+      && dates[0] <= shiftDate(this.rangeStart, COVERAGE_TOLERANCE_DAYS)
+      && dates[dates.length - 1] >= shiftDate(this.rangeEnd, -COVERAGE_TOLERANCE_DAYS);
+
+    if (!covered) {
+      try {
+        this.apiFetches++;
+        const fetched = symbol === 'VIX'
+          ? await historicalDataService.getVIXHistory(this.rangeStart, this.rangeEnd)
+          : symbol === 'SPX'
+            ? await historicalDataService.getSPXHistory(this.rangeStart, this.rangeEnd)
+            : await historicalDataService.getDailyBars(symbol, this.rangeStart, this.rangeEnd, false);
+        add(fetched);
+      } catch (error: any) {
+        console.warn(`⚠️ Optimizer: could not fill ${symbol} history from API (${error.message}), using cache only`);
+      }
+    }
+
+    return Array.from(byDate.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([, bar]) => bar);
+  }
+
+  /**
+   * All `<SYMBOL>_daily_bars_<start>_<end>.json` files for a symbol, merged
+   */
+  private async readDiskCache(symbol: string): Promise<PriceBar[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(CACHE_DIR);
+    } catch {
+      return [];
+    }
+
+    const prefix = `${symbol}_daily_bars_`;
+    const bars: PriceBar[] = [];
+    for (const file of files.filter(f => f.startsWith(prefix) && f.endsWith('.json'))) {
+      try {
+        const parsed = JSON.parse(await fs.readFile(path.join(CACHE_DIR, file), 'utf8'));
+        if (Array.isArray(parsed?.data)) {
+          bars.push(...parsed.data);
+        }
+      } catch (error: any) {
+        console.warn(`⚠️ Optimizer: skipping unreadable cache file ${file}: ${error.message}`);
+      }
+    }
+    return bars;
+  }
+}
+
+export class WalkForwardOptimizer {
+  private static instance: WalkForwardOptimizer | null = null;
+  private activeRunId: string | null = null;
+  private isStarting = false; // Set synchronously so concurrent starts can't both pass the check
+
+  private constructor() {}
+
+  static getInstance(): WalkForwardOptimizer {
+    if (!WalkForwardOptimizer.instance) {
+      WalkForwardOptimizer.instance = new WalkForwardOptimizer();
+    }
+    return WalkForwardOptimizer.instance;
+  }
+
+  isRunning(): boolean {
+    return this.activeRunId !== null || this.isStarting;
+  }
+
+  /**
+   * Validate the config, create the run row and optimize in the background.
+   * Only one optimization runs at a time (each one is hundreds of simulations).
+   */
+  async start(input: WalkForwardConfig): Promise<StrategyOptimizationRun> {
+    if (this.activeRunId || this.isStarting) {
+      throw new OptimizationConfigError('An optimization is already running', 409);
+    }
+
+    const config = this.resolveConfig(input);
+    const windows = this.buildWindows(config);
+    const candidates = this.buildCandidates(config);
+
+    this.isStarting = true;
+    let run: StrategyOptimizationRun;
+    try {
+      [run] = await db.insert(strategyOptimizationRuns).values({
+        status: 'running',
+        config,
+        windows,
+        progress: 0,
+      }).returning();
+      this.activeRunId = run.id;
+    } finally {
+      this.isStarting = false;
+    }
+    console.log(`🔬 Walk-forward optimization ${run.id}: ${candidates.length - 1} candidates + baseline × ${windows.length} windows`);
+
+    this.execute(run.id, config, windows, candidates)
+      .catch(error => console.error(`❌ Optimization ${run.id} worker error:`, error.message))
+      .finally(() => {
+        this.activeRunId = null;
+      });
+
+    return run;
+  }
+
+  async getRun(runId: string): Promise<StrategyOptimizationRun | undefined> {
+    return db.query.strategyOptimizationRuns.findFirst({
+      where: eq(strategyOptimizationRuns.id, runId)
+    });
+  }
+
+  async listRuns(limit: number = 20): Promise<StrategyOptimizationRun[]> {
+    return db.select()
+      .from(strategyOptimizationRuns)
+      .orderBy(desc(strategyOptimizationRuns.startedAt))
+      .limit(limit);
+  }
+
+  /**
+   * Write a candidate (the winner by default) as a new proposed strategy_parameters
+   * version. Activation stays a manual step (StrategyVersionService.approve).
+   */
+  async proposeVersion(runId: string, candidateId?: number, actor: string = 'walk-forward-optimizer'): Promise<string> {
+    const run = await this.getRun(runId);
+    if (!run) {
+      throw new OptimizationConfigError('Optimization not found', 404);
+    }
+    if (run.status !== 'completed') {
+      throw new OptimizationConfigError(`Optimization is ${run.status}`, 409);
+    }
+
+    const candidates = (run.candidates || []) as OptimizationCandidateResult[];
+    const candidate = candidateId === undefined
+      ? run.winner as OptimizationCandidateResult | null
+      : candidates.find(c => c.id === candidateId);
+    if (!candidate) {
+      throw candidateId === undefined
+        ? new OptimizationConfigError('Optimization has no eligible winner', 409)
+        : new OptimizationConfigError(`Candidate ${candidateId} not found`);
+    }
+
+    const current = EliteStrategyEngine.getInstance().getConfig();
+    const { params, inSample, outOfSample } = candidate;
+    const objective = (run.config as ResolvedConfig).objective;
+
+    const { version } = await strategyVersionService.propose(
+      {
+        rsiOversold: params.rsiOversold,
+        rsiOverbought: params.rsiOverbought,
+        vixMinCall: params.vixMinCall,
+        vixMinPut: params.vixMinPut,
+        stopLoss: params.stopLoss,
+        profitTarget: params.profitTarget,
+        partialProfitLevel: current.partialProfitLevel,
+        partialProfitPercent: current.partialProfitPercent,
+        emaLength: current.emaLength,
+        atrMultiplier: params.atrMultiplier,
+        deltaMin: params.deltaMin,
+        deltaMax: params.deltaMax,
+      },
+      actor,
+      `Walk-forward optimization ${runId} (candidate ${candidate.id}, selected on in-sample ${objective} ${this.score(inSample, objective).toFixed(2)}): held-out ${outOfSample.winRate.toFixed(1)}% win rate, ${outOfSample.avgROI.toFixed(1)}% avg ROI over ${outOfSample.totalTrades} trades`,
+      `wf${Date.now()}`
+    );
+
+    await db.update(strategyOptimizationRuns)
+      .set({ proposedVersion: version })
+      .where(eq(strategyOptimizationRuns.id, runId));
+
+    return version;
+  }
+
+  private async execute(
+    runId: string,
+    config: ResolvedConfig,
+    windows: WalkForwardWindow[],
+    candidates: ParameterSet[]
+  ): Promise<void> {
+    const strategy = getBacktestStrategy('elite_rules')!;
+    const warmupStart = shiftDate(windows[0].trainStart, -Math.ceil(strategy.warmupBars * 1.6 + 10));
+    const source = new CachedBarSource(warmupStart, windows[windows.length - 1].testEnd);
+
+    const total = candidates.length * windows.length;
+    let completed = 0;
+    let lastPersisted = 0;
+
+    try {
+      const results: OptimizationCandidateResult[] = [];
+
+      for (let candidateIndex = 0; candidateIndex < candidates.length; candidateIndex++) {
+        const params = candidates[candidateIndex];
+        const perWindow: OptimizationCandidateResult['windows'] = [];
+
+        for (const window of windows) {
+          const inSample = await this.simulate(config, params, window.trainStart, window.trainEnd, source);
+          const outOfSample = await this.simulate(config, params, window.testStart, window.testEnd, source);
+          perWindow.push({ window: window.index, inSample, outOfSample });
+
+          completed++;
+          if (Date.now() - lastPersisted > 2_000) {
+            lastPersisted = Date.now();
+            await db.update(strategyOptimizationRuns)
+              .set({ progress: (completed / total) * 100 })
+              .where(eq(strategyOptimizationRuns.id, runId));
+          }
+        }
+
+        const inSample = this.aggregate(perWindow.map(w => w.inSample));
+        const outOfSample = this.aggregate(perWindow.map(w => w.outOfSample));
+        const isScore = this.score(inSample, config.objective);
+        results.push({
+          id: candidateIndex,
+          params,
+          inSample,
+          outOfSample,
+          windows: perWindow,
+          efficiency: isScore !== 0 ? this.score(outOfSample, config.objective) / isScore : null,
+          eligible: inSample.totalTrades >= config.minTrades,
+        });
+      }
+
+      // Select on train windows only; the test windows stay held out for reporting
+      const ranked = results
+        .filter(r => r.eligible)
+        .sort((a, b) => this.score(b.inSample, config.objective) - this.score(a.inSample, config.objective));
+      const winner = ranked[0] || null;
+
+      await db.update(strategyOptimizationRuns)
+        .set({
+          status: 'completed',
+          progress: 100,
+          candidates: results,
+          winner,
+          baseline: results[0],
+          completedAt: new Date(),
+        })
+        .where(eq(strategyOptimizationRuns.id, runId));
+
+      console.log(`✅ Optimization ${runId} completed (${source.getApiFetchCount()} API fetches)`);
+      if (winner) {
+        console.log(`🏆 Winner: candidate ${winner.id}, in-sample ${config.objective} ${this.score(winner.inSample, config.objective).toFixed(2)}; held-out ${this.score(winner.outOfSample, config.objective).toFixed(2)} vs baseline ${this.score(results[0].outOfSample, config.objective).toFixed(2)}`);
+        if (config.proposeWinner && winner.id !== 0) {
+          await this.proposeVersion(runId);
+        }
+      } else {
+        console.log(`⚠️ Optimization ${runId}: no candidate reached ${config.minTrades} in-sample trades`);
+      }
+    } catch (error: any) {
+      await db.update(strategyOptimizationRuns)
+        .set({ status: 'failed', errorMessage: error.message || 'Unknown error', completedAt: new Date() })
+        .where(eq(strategyOptimizationRuns.id, runId));
+      console.error(`❌ Optimization ${runId} failed:`, error.message);
+    }
+  }
+
+  private async simulate(
+    config: ResolvedConfig,
+    params: ParameterSet,
+    startDate: string,
+    endDate: string,
+    source: BacktestBarSource
+  ): Promise<OptimizationMetrics> {
+    const { stopLoss, profitTarget, ...strategyParams } = params;
+    const engine = new BacktestEngine({
+      strategy: 'elite_rules',
+      startDate,
+      endDate,
+      symbols: config.symbols,
+      budget: config.budget,
+      stopLoss,
+      profitTarget,
+      maxHoldDays: config.maxHoldDays,
+      strategyParams,
+      startingCapital: config.startingCapital,
+    }, undefined, source);
+
+    return this.toMetrics(await engine.evaluate());
+  }
+
+  private toMetrics(evaluation: BacktestEvaluation): OptimizationMetrics {
+    return {
+      totalTrades: evaluation.totalTrades,
+      winRate: evaluation.winRate,
+      avgROI: evaluation.avgROI,
+      profitFactor: Math.min(PROFIT_FACTOR_CAP, evaluation.profitFactor),
+      sharpeRatio: evaluation.sharpeRatio,
+      maxDrawdown: evaluation.maxDrawdown,
+      totalReturn: evaluation.totalReturn,
+    };
+  }
+
+  /**
+   * Combine per-window metrics: trade-weighted rates, compounded return, worst drawdown
+   */
+  private aggregate(windows: OptimizationMetrics[]): OptimizationMetrics {
+    const totalTrades = windows.reduce((sum, w) => sum + w.totalTrades, 0);
+    const weighted = (key: 'winRate' | 'avgROI' | 'profitFactor') => totalTrades > 0
+      ? windows.reduce((sum, w) => sum + w[key] * w.totalTrades, 0) / totalTrades
+      : 0;
+
+    return {
+      totalTrades,
+      winRate: weighted('winRate'),
+      avgROI: weighted('avgROI'),
+      profitFactor: weighted('profitFactor'),
+      sharpeRatio: windows.length > 0 ? windows.reduce((sum, w) => sum + w.sharpeRatio, 0) / windows.length : 0,
+      maxDrawdown: windows.length > 0 ? Math.max(...windows.map(w => w.maxDrawdown)) : 0,
+      totalReturn: (windows.reduce((growth, w) => growth * (1 + w.totalReturn / 100), 1) - 1) * 100,
+    };
+  }
+
+  private score(metrics: OptimizationMetrics, objective: OptimizationObjective): number {
+    return metrics[objective];
+  }
+
+  private resolveConfig(input: WalkForwardConfig): ResolvedConfig {
+    const isDate = (value: unknown) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+    if (!isDate(input.startDate) || !isDate(input.endDate) || input.startDate >= input.endDate) {
+      throw new OptimizationConfigError('startDate and endDate must be YYYY-MM-DD with startDate before endDate');
+    }
+
+    const space = { ...DEFAULT_SPACE };
+    for (const [key, values] of Object.entries(input.space || {})) {
+      if (!PARAMETERS.includes(key as OptimizableParameter)) {
+        throw new OptimizationConfigError(`Unknown parameter: ${key}`);
+      }
+      if (!Array.isArray(values) || values.length === 0 || !values.every(v => typeof v === 'number' && isFinite(v))) {
+        throw new OptimizationConfigError(`Search values for ${key} must be a non-empty array of numbers`);
+      }
+      space[key as OptimizableParameter] = values;
+    }
+
+    const objective = input.objective || 'sharpeRatio';
+    if (!['sharpeRatio', 'avgROI', 'profitFactor', 'totalReturn'].includes(objective)) {
+      throw new OptimizationConfigError(`Unknown objective: ${objective}`);
+    }
+
+    if (input.symbols != null && (!Array.isArray(input.symbols) || !input.symbols.every(s => typeof s === 'string' && s.trim().length > 0))) {
+      throw new OptimizationConfigError('symbols must be an array of ticker strings');
+    }
+
+    // Simulation sizing: positive finite numbers, hold period in whole days
+    const positive = (key: 'startingCapital' | 'budget' | 'maxHoldDays', fallback: number) => {
+      const value = input[key] ?? fallback;
+      if (typeof value !== 'number' || !isFinite(value) || value <= 0) {
+        throw new OptimizationConfigError(`${key} must be a positive number`);
+      }
+      return value;
+    };
+    const startingCapital = positive('startingCapital', 10000);
+    const budget = positive('budget', 1000);
+    const maxHoldDays = positive('maxHoldDays', 5);
+    if (!Number.isInteger(maxHoldDays)) {
+      throw new OptimizationConfigError('maxHoldDays must be a whole number of days');
+    }
+    if (budget > startingCapital) {
+      throw new OptimizationConfigError('budget cannot exceed startingCapital');
+    }
+
+    const testDays = Math.max(5, Math.floor(input.testDays ?? 40));
+    return {
+      startDate: input.startDate,
+      endDate: input.endDate,
+      symbols: input.symbols && input.symbols.length > 0 ? input.symbols.map(s => s.trim().toUpperCase()) : getBacktestStrategy('elite_rules')!.defaultSymbols,
+      trainDays: Math.max(20, Math.floor(input.trainDays ?? 120)),
+      testDays,
+      stepDays: Math.max(1, Math.floor(input.stepDays ?? testDays)),
+      search: input.search === 'grid' ? 'grid' : 'random',
+      maxCandidates: Math.min(500, Math.max(1, Math.floor(input.maxCandidates ?? 40))),
+      seed: Math.floor(input.seed ?? Date.now()) >>> 0,
+      space,
+      objective,
+      minTrades: Math.max(1, Math.floor(input.minTrades ?? 10)),
+      startingCapital,
+      budget,
+      maxHoldDays,
+      proposeWinner: input.proposeWinner === true,
+    };
+  }
+
+  /**
+   * Rolling train/test windows over the trading calendar
+   */
+  private buildWindows(config: ResolvedConfig): WalkForwardWindow[] {
+    const days = marketCalendar.getTradingDays(config.startDate, config.endDate);
+    const windows: WalkForwardWindow[] = [];
+
+    for (let start = 0; start + config.trainDays + config.testDays <= days.length; start += config.stepDays) {
+      const testStart = start + config.trainDays;
+      windows.push({
+        index: windows.length,
+        trainStart: days[start],
+        trainEnd: days[testStart - 1],
+        testStart: days[testStart],
+        testEnd: days[testStart + config.testDays - 1],
+      });
+    }
+
+    if (windows.length === 0) {
+      throw new OptimizationConfigError(`Range has ${days.length} trading days; need at least trainDays + testDays (${config.trainDays + config.testDays})`);
+    }
+    return windows;
+  }
+
+  /**
+   * Baseline (active config) first, then grid or random samples from the search space.
+   * Combinations with an inverted RSI or delta band are skipped.
+   */
+  private buildCandidates(config: ResolvedConfig): ParameterSet[] {
+    const current = EliteStrategyEngine.getInstance().getConfig();
+    const baseline = Object.fromEntries(PARAMETERS.map(key => [key, current[key]])) as ParameterSet;
+    const isValid = (p: ParameterSet) => p.rsiOversold < p.rsiOverbought && p.deltaMin < p.deltaMax;
+    const keyOf = (p: ParameterSet) => PARAMETERS.map(key => p[key]).join('|');
+
+    const seen = new Set([keyOf(baseline)]);
+    const candidates: ParameterSet[] = [baseline];
+
+    if (config.search === 'grid') {
+      const gridSize = PARAMETERS.reduce((size, key) => size * config.space[key].length, 1);
+      if (gridSize > config.maxCandidates) {
+        throw new OptimizationConfigError(`Grid has ${gridSize} combinations (max ${config.maxCandidates}); narrow the space or use random search`);
+      }
+
+      let combos: ParameterSet[] = [{} as ParameterSet];
+      for (const key of PARAMETERS) {
+        combos = combos.flatMap(combo => config.space[key].map(value => ({ ...combo, [key]: value })));
+      }
+      for (const combo of combos) {
+        if (isValid(combo) && !seen.has(keyOf(combo))) {
+          seen.add(keyOf(combo));
+          candidates.push(combo);
+        }
+      }
+      return candidates;
+    }
+
+    const random = mulberry32(config.seed);
+    const maxAttempts = config.maxCandidates * 20;
+    for (let attempt = 0; attempt < maxAttempts && candidates.length <= config.maxCandidates; attempt++) {
+      const sample = Object.fromEntries(PARAMETERS.map(key => {
+        const values = config.space[key];
+        return [key, values[Math.floor(random() * values.length)]];
+      })) as ParameterSet;
+      if (isValid(sample) && !seen.has(keyOf(sample))) {
+        seen.add(keyOf(sample));
+        candidates.push(sample);
+      }
+    }
+    return candidates;
+  }
+}
+
+/**
+ * Small seeded PRNG so random searches can be reproduced from their stored seed
+ */
+function mulberry32(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function toDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().split('T')[0];
+}
+
+function shiftDate(date: string, days: number): string {
+  const shifted = new Date(`${date}T12:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().split('T')[0];
+}
+
+export const walkForwardOptimizer = WalkForwardOptimizer.getInstance();
@@ -9,13 +9,14 @@ import {
   watchlists, 
   watchlistItems, 
   priceAlerts,
+  priceAlertTriggers,
   marketInsights,
   performanceMetrics,
   learningSessions,
   recommendationTracking,
   recommendationPerformance
 } from "@shared/schema";
-import { eq, desc, and, sum, count } from "drizzle-orm";
+import { eq, desc, and, or, gte, lte, isNull, sum, count } from "drizzle-orm";
 import type { 
   User, 
   InsertUser, 
@@ -35,6 +36,8 @@ import type {
   InsertWatchlistItem,
   PriceAlert,
   InsertPriceAlert,
+  PriceAlertTrigger,
+  InsertPriceAlertTrigger,
   PositionPerformance,
   PerformanceMetrics,
   MarketInsight,
@@ -87,7 +90,9 @@ export interface IStorage {
   createPriceAlert(alert: InsertPriceAlert): Promise<PriceAlert>;
   getPriceAlerts(userId?: string): Promise<PriceAlert[]>;
   updatePriceAlert(alertId: string, updates: Partial<PriceAlert>): Promise<PriceAlert | undefined>;
-  checkAndTriggerAlerts(): Promise<PriceAlert[]>;
+  getActivePriceAlerts(): Promise<PriceAlert[]>;
+  recordAlertTrigger(alertId: string, trigger: InsertPriceAlertTrigger): Promise<PriceAlertTrigger | undefined>;
+  getAlertTriggers(alertId?: string, limit?: number): Promise<PriceAlertTrigger[]>;
 }
 
 // AI Learning Storage Interface
@@ -103,6 +108,7 @@ export interface ILearningStorage {
   getActiveInsights(filters?: { marketRegime?: string; sector?: string }): Promise<MarketInsight[]>;
   deactivateInsight(insightId: string, reason: string): Promise<MarketInsight | undefined>;
   validateInsight(insightId: string): Promise<MarketInsight | undefined>;
+  updateInsightStats(insightId: string, stats: Pick<InsertMarketInsight, 'pattern' | 'winRate' | 'sampleSize' | 'avgROI' | 'confidence'>): Promise<MarketInsight | undefined>;
   getAllInsights(): Promise<MarketInsight[]>;
   
   // Performance Metrics
@@ -116,6 +122,7 @@ export interface ILearningStorage {
     startDate?: Date;
     endDate?: Date;
     closedOnly?: boolean;
+    marketRegime?: string;
   }): Promise<Array<RecommendationTracking & { performance?: RecommendationPerformance }>>;
 }
 
@@ -405,16 +412,6 @@ export class DatabaseStorage implements IStorage {
     
     const profitFactor = avgLoss > 0 ? avgWin / avgLoss : 0;
     
-    // Generate mock monthly returns for the last 12 months
-    const monthlyReturns = Array.from({ length: 12 }, (_, i) => {
-      const date = new Date();
-      date.setMonth(date.getMonth() - i);
-      return {
-        month: date.toLocaleString('default', { month: 'short', year: 'numeric' }),
-        return: (Math.random() - 0.4) * 20 // Random return between -8% and 12%
-      };
-    }).reverse();
-    
     // Generate trade distribution
     const tradeDistribution = [
       { range: '+20% or more', count: winningTrades.filter(t => ((t.totalValue - t.price * t.quantity) / (t.price * t.quantity)) > 0.2).length },
@@ -434,9 +431,12 @@ export class DatabaseStorage implements IStorage {
       largestWin,
       largestLoss,
       profitFactor,
-      sharpeRatio: 1.2, // Mock value
-      maxDrawdown: -15.5, // Mock value
-      monthlyReturns,
+      // Return metrics come from account equity snapshots (accountPerformanceService)
+      sharpeRatio: null,
+      maxDrawdown: 0,
+      monthlyReturns: [],
+      benchmarkReturn: null,
+      performanceSince: null,
       tradeDistribution
     };
   }
@@ -514,8 +514,8 @@ export class DatabaseStorage implements IStorage {
     return updated || undefined;
   }
   
-  async checkAndTriggerAlerts(): Promise<PriceAlert[]> {
-    const activeAlerts = await db
+  async getActivePriceAlerts(): Promise<PriceAlert[]> {
+    return await db
       .select()
       .from(priceAlerts)
       .where(
@@ -524,33 +524,46 @@ export class DatabaseStorage implements IStorage {
           eq(priceAlerts.isTriggered, false)
         )
       );
-    
-    const triggeredAlerts: PriceAlert[] = [];
-    
-    for (const alert of activeAlerts) {
-      // In a real implementation, you'd fetch current price from market data
-      // For now, we'll simulate by checking if mock current price meets criteria
-      const shouldTrigger = alert.alertType === 'above' 
-        ? (alert.currentPrice || 0) >= alert.targetPrice
-        : (alert.currentPrice || 0) <= alert.targetPrice;
+  }
+  
+  async recordAlertTrigger(alertId: string, trigger: InsertPriceAlertTrigger): Promise<PriceAlertTrigger | undefined> {
+    return await db.transaction(async (tx) => {
+      // Only fire once: the isTriggered guard makes concurrent evaluations idempotent
+      const [triggered] = await tx
+        .update(priceAlerts)
+        .set({ 
+          isTriggered: true, 
+          triggeredAt: new Date(),
+          currentPrice: trigger.triggerValue,
+          lastEvaluatedAt: new Date()
+        })
+        .where(and(eq(priceAlerts.id, alertId), eq(priceAlerts.isTriggered, false)))
+        .returning();
       
-      if (shouldTrigger) {
-        const [triggered] = await db
-          .update(priceAlerts)
-          .set({ 
-            isTriggered: true, 
-            triggeredAt: new Date() 
-          })
-          .where(eq(priceAlerts.id, alert.id))
-          .returning();
-        
-        if (triggered) {
-          triggeredAlerts.push(triggered);
-        }
+      if (!triggered) {
+        return undefined;
       }
-    }
+      
+      const [record] = await tx
+        .insert(priceAlertTriggers)
+        .values(trigger)
+        .returning();
+      return record;
+    });
+  }
+  
+  async getAlertTriggers(alertId?: string, limit: number = 50): Promise<PriceAlertTrigger[]> {
+    const query = db.select().from(priceAlertTriggers);
     
-    return triggeredAlerts;
+    if (alertId) {
+      return await query
+        .where(eq(priceAlertTriggers.alertId, alertId))
+        .orderBy(desc(priceAlertTriggers.triggeredAt))
+        .limit(limit);
+    }
+    return await query
+      .orderBy(desc(priceAlertTriggers.triggeredAt))
+      .limit(limit);
   }
 }
 
@@ -607,14 +620,20 @@ export class DatabaseLearningStorage implements ILearningStorage {
   }
   
   async getActiveInsights(filters?: { marketRegime?: string; sector?: string }): Promise<MarketInsight[]> {
-    let query = db
+    // Insights without a regime/sector apply to all of them
+    const conditions = [eq(marketInsights.isActive, true)];
+    if (filters?.marketRegime) {
+      conditions.push(or(isNull(marketInsights.marketRegime), eq(marketInsights.marketRegime, filters.marketRegime))!);
+    }
+    if (filters?.sector) {
+      conditions.push(or(isNull(marketInsights.sector), eq(marketInsights.sector, filters.sector))!);
+    }
+    
+    return await db
       .select()
       .from(marketInsights)
-      .where(eq(marketInsights.isActive, true));
-    
-    // Note: Additional filtering by marketRegime/sector would be added here
-    // For now, return all active insights
-    return await query.orderBy(desc(marketInsights.confidence));
+      .where(and(...conditions))
+      .orderBy(desc(marketInsights.confidence));
   }
   
   async deactivateInsight(insightId: string, reason: string): Promise<MarketInsight | undefined> {
@@ -640,6 +659,21 @@ export class DatabaseLearningStorage implements ILearningStorage {
     return updated || undefined;
   }
   
+  async updateInsightStats(
+    insightId: string,
+    stats: Pick<InsertMarketInsight, 'pattern' | 'winRate' | 'sampleSize' | 'avgROI' | 'confidence'>
+  ): Promise<MarketInsight | undefined> {
+    const [updated] = await db
+      .update(marketInsights)
+      .set({
+        ...stats,
+        lastValidatedAt: new Date()
+      })
+      .where(eq(marketInsights.id, insightId))
+      .returning();
+    return updated || undefined;
+  }
+  
   async getAllInsights(): Promise<MarketInsight[]> {
     return await db
       .select()
@@ -705,6 +739,7 @@ export class DatabaseLearningStorage implements ILearningStorage {
     startDate?: Date;
     endDate?: Date;
     closedOnly?: boolean;
+    marketRegime?: string;
   }): Promise<Array<RecommendationTracking & { performance?: RecommendationPerformance }>> {
     // Build base query with left join to performance
     let query = db
@@ -734,6 +769,8 @@ export class DatabaseLearningStorage implements ILearningStorage {
         strategyVersion: recommendationTracking.strategyVersion,
         parameters: recommendationTracking.parameters,
         status: recommendationTracking.status,
+        isWatchlist: recommendationTracking.isWatchlist,
+        marketRegime: recommendationTracking.marketRegime,
         recommendedAt: recommendationTracking.recommendedAt,
         // Performance fields (nullable)
         performance: {
@@ -766,8 +803,13 @@ export class DatabaseLearningStorage implements ILearningStorage {
       conditions.push(eq(recommendationTracking.strategyVersion, filters.strategyVersion));
     }
     if (filters.startDate) {
-      // Add date range filter (would need proper date comparison)
-      // conditions.push(gte(recommendationTracking.recommendedAt, filters.startDate));
+      conditions.push(gte(recommendationTracking.recommendedAt, filters.startDate));
+    }
+    if (filters.endDate) {
+      conditions.push(lte(recommendationTracking.recommendedAt, filters.endDate));
+    }
+    if (filters.marketRegime) {
+      conditions.push(eq(recommendationTracking.marketRegime, filters.marketRegime));
     }
     if (filters.closedOnly) {
       // Filter to only closed trades
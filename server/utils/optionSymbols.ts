@@ -115,6 +115,21 @@ export function toTastytradeOptionSymbol(canonicalSymbol: string): string {
   return canonicalSymbol.startsWith('.') ? canonicalSymbol : `.${canonicalSymbol}`;
 }
 
+/**
+ * Convert canonical OCC symbol to the symbol Tastytrade expects on orders
+ * (OCC with the root padded to 6 characters)
+ * Canonical:  `.SPY251113C00680000`
+ * Order:      `SPY   251113C00680000`
+ * @param canonicalSymbol Canonical OCC format with leading dot
+ * @returns Padded OCC order symbol, or null if the symbol can't be parsed
+ */
+export function toTastytradeOrderSymbol(canonicalSymbol: string): string | null {
+  const symbol = canonicalSymbol.startsWith('.') ? canonicalSymbol.slice(1) : canonicalSymbol;
+  const match = symbol.match(/^([A-Z]+)(\d{6}[CP]\d{8})$/);
+  if (!match) return null;
+  return `${match[1].padEnd(6, ' ')}${match[2]}`;
+}
+
 /**
  * Normalize any option symbol format to canonical OCC format
  * Accepts:
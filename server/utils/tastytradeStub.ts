@@ -0,0 +1,236 @@
+/**
+ * Local stub of the Tastytrade REST API for exercising order placement without a
+ * brokerage account.
+ *
+ *   npx tsx server/utils/tastytradeStub.ts          # listens on TASTYTRADE_STUB_PORT (4010)
+ *   TASTYTRADE_API_URL=http://localhost:4010 npm run dev
+ *
+ * Covers the endpoints the app calls: sessions, accounts, order dry-run/place/get/cancel,
+ * positions and balances. Orders advance one step each time they are fetched:
+ * Received → Live → (half filled, for multi-contract orders) → Filled at the limit price.
+ * Dry runs fail with 422 when the limit price isn't positive or the order costs more
+ * than the stub account's buying power.
+ */
+
+import express, { type Request, type Response } from 'express';
+import type { Server } from 'http';
+
+const ACCOUNT_NUMBER = '5WT00001';
+const STARTING_CASH = 100000;
+const FEE_PER_CONTRACT = 1.14; // Commission + clearing + regulatory, roughly Tastytrade's opening cost
+
+interface StubFill {
+  quantity: string;
+  'fill-price': string;
+  'filled-at': string;
+}
+
+interface StubOrder {
+  id: number;
+  'account-number': string;
+  status: string;
+  'time-in-force': string;
+  'order-type': string;
+  price: string;
+  'price-effect': string;
+  'received-at': string;
+  legs: {
+    'instrument-type': string;
+    symbol: string;
+    quantity: number;
+    action: string;
+    'remaining-quantity': number;
+    fills: StubFill[];
+  }[];
+  step: number;
+}
+
+const validationError = (res: Response, message: string) =>
+  res.status(422).json({ error: { code: 'validation_error', message, errors: [{ code: 'invalid_order', message }] } });
+
+export function createTastytradeStub() {
+  const app = express();
+  app.use(express.json());
+
+  const orders = new Map<number, StubOrder>();
+  let nextOrderId = 1000;
+  let cash = STARTING_CASH;
+
+  const orderCost = (order: any) => {
+    const contracts = (order.legs || []).reduce((sum: number, leg: any) => sum + Math.abs(Number(leg.quantity) || 0), 0);
+    return { contracts, notional: Number(order.price) * contracts * 100, fees: contracts * FEE_PER_CONTRACT };
+  };
+
+  const validate = (order: any): string | null => {
+    if (!Array.isArray(order?.legs) || order.legs.length === 0) return 'Order must have at least one leg';
+    if (!(Number(order.price) > 0)) return 'Limit price must be greater than zero';
+    const { notional, fees } = orderCost(order);
+    if (order['price-effect'] === 'Debit' && notional + fees > cash) return 'Insufficient buying power';
+    return null;
+  };
+
+  // Fill the remaining quantity (or half of it on the first fill step) at the limit price
+  const fill = (order: StubOrder, partial: boolean) => {
+    for (const leg of order.legs) {
+      const quantity = partial ? Math.floor(leg.quantity / 2) : leg['remaining-quantity'];
+      if (quantity <= 0) continue;
+      leg.fills.push({ quantity: String(quantity), 'fill-price': order.price, 'filled-at': new Date().toISOString() });
+      leg['remaining-quantity'] -= quantity;
+      const cost = quantity * Number(order.price) * 100;
+      cash += order['price-effect'] === 'Debit' ? -cost : cost;
+    }
+  };
+
+  const advance = (order: StubOrder) => {
+    if (!['Received', 'Live'].includes(order.status)) return;
+    order.step += 1;
+    if (order.step === 1) {
+      order.status = 'Live';
+    } else if (order.step === 2 && order.legs.some(leg => leg.quantity > 1)) {
+      fill(order, true);
+    } else {
+      fill(order, false);
+      order.status = 'Filled';
+    }
+  };
+
+  const present = ({ step, ...order }: StubOrder) => order;
+
+  app.post('/sessions', (req: Request, res: Response) => {
+    res.status(201).json({
+      data: {
+        'session-token': 'stub-session-token',
+        'remember-token': 'stub-remember-token',
+        user: { username: req.body?.login || 'stub-user', email: 'stub@example.com' },
+      },
+    });
+  });
+
+  app.get('/customers/me/accounts', (_req: Request, res: Response) => {
+    res.json({ data: { items: [{ account: { 'account-number': ACCOUNT_NUMBER, nickname: 'Stub' }, 'authority-level': 'owner' }] } });
+  });
+
+  app.post('/accounts/:account/orders/dry-run', (req: Request, res: Response) => {
+    const error = validate(req.body);
+    if (error) return validationError(res, error);
+
+    const { notional, fees } = orderCost(req.body);
+    const debit = req.body['price-effect'] === 'Debit';
+    res.status(201).json({
+      data: {
+        order: { ...req.body, status: 'Received', 'account-number': req.params.account },
+        warnings: notional > cash * 0.25 ? [{ code: 'large_order', message: 'Order uses more than 25% of buying power' }] : [],
+        'buying-power-effect': {
+          'change-in-buying-power': (notional + fees).toFixed(2),
+          'change-in-buying-power-effect': debit ? 'Debit' : 'Credit',
+          'new-buying-power': (debit ? cash - notional - fees : cash + notional - fees).toFixed(2),
+        },
+        'fee-calculation': { 'total-fees': fees.toFixed(2), 'total-fees-effect': 'Debit' },
+      },
+    });
+  });
+
+  app.post('/accounts/:account/orders', (req: Request, res: Response) => {
+    const error = validate(req.body);
+    if (error) return validationError(res, error);
+
+    const order: StubOrder = {
+      id: nextOrderId++,
+      'account-number': req.params.account,
+      status: 'Received',
+      'time-in-force': req.body['time-in-force'],
+      'order-type': req.body['order-type'],
+      price: Number(req.body.price).toFixed(2),
+      'price-effect': req.body['price-effect'],
+      'received-at': new Date().toISOString(),
+      legs: req.body.legs.map((leg: any) => ({
+        'instrument-type': leg['instrument-type'],
+        symbol: leg.symbol,
+        quantity: Number(leg.quantity),
+        action: leg.action,
+        'remaining-quantity': Number(leg.quantity),
+        fills: [],
+      })),
+      step: 0,
+    };
+    orders.set(order.id, order);
+    cash -= orderCost(req.body).fees;
+
+    res.status(201).json({ data: { order: present(order), warnings: [] } });
+  });
+
+  app.get('/accounts/:account/orders/:id', (req: Request, res: Response) => {
+    const order = orders.get(Number(req.params.id));
+    if (!order) return res.status(404).json({ error: { code: 'not_found', message: 'Order not found' } });
+    advance(order);
+    res.json({ data: present(order) });
+  });
+
+  app.delete('/accounts/:account/orders/:id', (req: Request, res: Response) => {
+    const order = orders.get(Number(req.params.id));
+    if (!order) return res.status(404).json({ error: { code: 'not_found', message: 'Order not found' } });
+    if (!['Received', 'Live'].includes(order.status)) {
+      return validationError(res, `Order is ${order.status} and cannot be cancelled`);
+    }
+    order.status = 'Cancelled';
+    res.json({ data: present(order) });
+  });
+
+  // Net filled quantity per symbol across all orders
+  app.get('/accounts/:account/positions', (_req: Request, res: Response) => {
+    const bySymbol = new Map<string, { quantity: number; cost: number }>();
+    for (const order of Array.from(orders.values())) {
+      for (const leg of order.legs) {
+        const sign = leg.action.startsWith('Buy') ? 1 : -1;
+        for (const f of leg.fills) {
+          const entry = bySymbol.get(leg.symbol) || { quantity: 0, cost: 0 };
+          entry.quantity += sign * Number(f.quantity);
+          entry.cost += sign * Number(f.quantity) * Number(f['fill-price']);
+          bySymbol.set(leg.symbol, entry);
+        }
+      }
+    }
+
+    const items = Array.from(bySymbol.entries())
+      .filter(([, p]) => p.quantity !== 0)
+      .map(([symbol, p]) => {
+        const avg = (p.cost / p.quantity).toFixed(2);
+        return {
+          'account-number': ACCOUNT_NUMBER,
+          symbol,
+          'instrument-type': 'Equity Option',
+          'underlying-symbol': symbol.slice(0, 6).trim(),
+          quantity: String(Math.abs(p.quantity)),
+          'quantity-direction': p.quantity > 0 ? 'Long' : 'Short',
+          'average-open-price': avg,
+          'close-price': avg,
+          'average-daily-market-close-price': avg,
+          multiplier: 100,
+        };
+      });
+    res.json({ data: { items } });
+  });
+
+  app.get('/accounts/:account/balances', (_req: Request, res: Response) => {
+    res.json({
+      data: {
+        'account-number': ACCOUNT_NUMBER,
+        'cash-balance': cash.toFixed(2),
+        'net-liquidating-value': STARTING_CASH.toFixed(2),
+        'derivative-buying-power': cash.toFixed(2),
+      },
+    });
+  });
+
+  return app;
+}
+
+export function startTastytradeStub(port: number = Number(process.env.TASTYTRADE_STUB_PORT) || 4010): Server {
+  return createTastytradeStub().listen(port, () => {
+    console.log(`🧪 Tastytrade stub listening on http://localhost:${port} (account ${ACCOUNT_NUMBER})`);
+  });
+}
+
+if (process.argv[1]?.endsWith('tastytradeStub.ts')) {
+  startTastytradeStub();
+}
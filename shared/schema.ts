@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, real, integer, bigint, timestamp, jsonb, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, real, integer, bigint, timestamp, jsonb, boolean, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -19,9 +19,11 @@ export const marketData = pgTable("market_data", {
   timestamp: timestamp("timestamp").defaultNow(),
 });
 
+// Unadjusted bars; split/dividend adjustment is applied on read from corporate_actions
 export const historicalBars = pgTable("historical_bars", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   symbol: text("symbol").notNull(),
+  timeframe: text("timeframe").notNull().default('1d'), // '1d' | intraday e.g. '5m'
   barTimestamp: timestamp("bar_timestamp").notNull(),
   open: real("open").notNull(),
   high: real("high").notNull(),
@@ -30,13 +32,98 @@ export const historicalBars = pgTable("historical_bars", {
   volume: bigint("volume", { mode: "number" }).notNull(),
   lastUpdated: timestamp("last_updated").defaultNow(),
 }, (table) => ({
-  // Index for efficient querying by symbol and date range
-  symbolTimestampIdx: {
-    columns: [table.symbol, table.barTimestamp],
-    name: "idx_historical_bars_symbol_timestamp",
-  },
+  // One bar per symbol/timeframe/timestamp; also serves symbol + date range queries
+  symbolTimeframeTimestampIdx: uniqueIndex("uq_historical_bars_symbol_timeframe_ts").on(table.symbol, table.timeframe, table.barTimestamp),
+}));
+
+// Trading days already fetched into historical_bars (gap detection); symbol '*' = grouped daily bars for all stocks
+export const historicalBarSync = pgTable("historical_bar_sync", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  symbol: text("symbol").notNull(),
+  timeframe: text("timeframe").notNull(),
+  date: text("date").notNull(), // YYYY-MM-DD (exchange date)
+  barCount: integer("bar_count").notNull().default(0),
+  fetchedAt: timestamp("fetched_at").defaultNow(),
+}, (table) => ({
+  symbolTimeframeDateIdx: uniqueIndex("uq_historical_bar_sync_symbol_timeframe_date").on(table.symbol, table.timeframe, table.date),
+}));
+
+// Splits and cash dividends used to back-adjust historical_bars
+export const corporateActions = pgTable("corporate_actions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  symbol: text("symbol").notNull(),
+  type: text("type").notNull(), // 'split' | 'dividend'
+  exDate: text("ex_date").notNull(), // YYYY-MM-DD; bars before this date are adjusted
+  ratio: real("ratio"), // Split: new shares per old share (2 = 2-for-1)
+  amount: real("amount"), // Dividend: cash per share
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  symbolTypeExDateIdx: uniqueIndex("uq_corporate_actions_symbol_type_ex_date").on(table.symbol, table.type, table.exDate),
+}));
+
+// Session-close market snapshot per stock (EODCacheService), rolling history of trading days
+export const eodSnapshots = pgTable("eod_snapshots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  date: text("date").notNull(), // YYYY-MM-DD (exchange date)
+  symbol: text("symbol").notNull(),
+  close: real("close").notNull(),
+  high: real("high").notNull(),
+  low: real("low").notNull(),
+  volume: bigint("volume", { mode: "number" }).notNull(),
+  capturedAt: timestamp("captured_at").notNull(),
+}, (table) => ({
+  dateSymbolIdx: uniqueIndex("uq_eod_snapshots_date_symbol").on(table.date, table.symbol),
 }));
 
+// Index prices sampled through each session (market overview sparklines; the last sample doubles as the session close)
+export const indexIntradaySamples = pgTable("index_intraday_samples", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  symbol: text("symbol").notNull(), // 'SPX' | 'COMP' | 'VIX'
+  date: text("date").notNull(), // YYYY-MM-DD (exchange date of the session)
+  price: real("price").notNull(),
+  sampledAt: timestamp("sampled_at").notNull(),
+}, (table) => ({
+  symbolDateIdx: index("idx_index_intraday_samples_symbol_date").on(table.symbol, table.date),
+}));
+
+// VIX squeeze triggers (one per session) with the SPY put that would have been bought and its next-day exit
+export const vixSqueezeSignals = pgTable("vix_squeeze_signals", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  signalDate: text("signal_date").notNull().unique(), // YYYY-MM-DD (exchange date)
+  triggeredAt: timestamp("triggered_at").notNull(),
+  vix: real("vix").notNull(),
+  vixChangePercent: real("vix_change_percent").notNull(), // vs prior close
+  spyPrice: real("spy_price").notNull(),
+  optionSymbol: text("option_symbol").notNull(), // OCC format (e.g., ".SPY251114P00680000")
+  strike: real("strike").notNull(),
+  expiry: text("expiry").notNull(),
+  entryPremium: real("entry_premium").notNull(),
+  entryPremiumSource: text("entry_premium_source").notNull(), // 'quote' | 'model'
+  exitAt: timestamp("exit_at").notNull(), // 9:30 AM CST on the next trading day
+  status: text("status").notNull().default("pending"), // 'pending' | 'resolved' | 'unpriced'
+  exitPremium: real("exit_premium"),
+  exitPremiumSource: text("exit_premium_source"), // 'quote' | 'model'
+  spyExitPrice: real("spy_exit_price"),
+  returnPct: real("return_pct"), // Mid-to-mid, before spread and fees
+  outcome: text("outcome"), // 'win' | 'loss'
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Polygon ticker reference classification (SIC code mapped to a sector), refreshed periodically
+export const tickerClassifications = pgTable("ticker_classifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  symbol: text("symbol").notNull().unique(),
+  name: text("name"),
+  tickerType: text("ticker_type"), // Polygon type: 'CS', 'ETF', 'ADRC', ...
+  sicCode: text("sic_code"),
+  sicDescription: text("sic_description"),
+  sector: text("sector"), // Null when the SIC code is missing or unmapped (ETFs, funds)
+  industry: text("industry"),
+  marketCap: real("market_cap"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 export const optionsTrade = pgTable("options_trades", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   ticker: text("ticker").notNull(),
@@ -55,6 +142,8 @@ export const optionsTrade = pgTable("options_trades", {
   contracts: integer("contracts").notNull(),
   projectedROI: real("projected_roi").notNull(),
   projectedROIAmount: real("projected_roi_amount"), // Estimated total exit value in dollars
+  netProjectedROI: real("net_projected_roi"), // Projected ROI after spread, tick rounding and fees
+  executionCost: real("execution_cost"), // Estimated round-trip spread + fees in dollars
   aiConfidence: real("ai_confidence").notNull(),
   greeks: jsonb("greeks").notNull(),
   sentiment: real("sentiment"),
@@ -90,9 +179,15 @@ export const portfolioPositions = pgTable("portfolio_positions", {
   openDate: timestamp("open_date").defaultNow(),
   closeDate: timestamp("close_date"),
   status: text("status").default("open"), // 'open' | 'closed'
-  broker: text("broker").default("tastytrade"), // 'tastytrade' | 'robinhood'
-  metadata: jsonb("metadata"), // For options: strike, expiry, type, etc. + Robinhood specific fields
-});
+  broker: text("broker").default("manual"), // 'manual' | 'tastytrade' (order fills); live broker positions are fetched, not stored
+  source: text("source").default("manual"), // 'manual' (hand-entered) | 'order' (fills of orders placed from the app) | 'paper' (paper account); live broker feeds report 'broker'
+  metadata: jsonb("metadata"), // For options: strike, expiry, type, etc. + brokerName for manual entries
+}, (table) => ({
+  // One open paper position per contract; concurrent paper buys add to it instead of opening another
+  paperOpenContractUnique: uniqueIndex("portfolio_positions_paper_open_contract_unique")
+    .on(table.source, sql`(${table.metadata}->>'optionSymbol')`)
+    .where(sql`${table.source} = 'paper' AND ${table.status} = 'open'`),
+}));
 
 export const tradeHistory = pgTable("trade_history", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -108,6 +203,145 @@ export const tradeHistory = pgTable("trade_history", {
   notes: text("notes"),
 });
 
+// Orders placed at the broker from a trade recommendation (preview -> submit -> fills)
+export const brokerOrders = pgTable("broker_orders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tradeId: varchar("trade_id"), // options_trades row the order was built from (rows are cleared on rescan, so no FK)
+  broker: text("broker").notNull().default('tastytrade'),
+  accountNumber: text("account_number"),
+  brokerOrderId: text("broker_order_id"),
+  status: text("status").notNull().default('previewed'), // BrokerOrderStatus
+  ticker: text("ticker").notNull(),
+  optionSymbol: text("option_symbol").notNull(), // Broker order symbol (padded OCC, e.g. "SPY   251113C00680000")
+  optionType: text("option_type").notNull(), // 'call' | 'put'
+  strikePrice: real("strike_price").notNull(),
+  expiry: text("expiry").notNull(),
+  action: text("action").notNull(), // 'Buy to Open' | 'Sell to Close' | ...
+  quantity: integer("quantity").notNull(), // Contracts
+  limitPrice: real("limit_price").notNull(), // Per share
+  timeInForce: text("time_in_force").notNull().default('Day'),
+  estimatedFees: real("estimated_fees"), // From the dry run
+  buyingPowerEffect: real("buying_power_effect"), // From the dry run; negative = buying power used
+  warnings: jsonb("warnings"), // Dry-run warnings (string[])
+  filledQuantity: integer("filled_quantity").notNull().default(0),
+  avgFillPrice: real("avg_fill_price"),
+  positionId: varchar("position_id").references(() => portfolioPositions.id), // Ledger row the fills were recorded into
+  rejectReason: text("reject_reason"),
+  brokerResponse: jsonb("broker_response"), // Last raw order payload from the broker
+  previewedAt: timestamp("previewed_at").defaultNow(),
+  submittedAt: timestamp("submitted_at"),
+  completedAt: timestamp("completed_at"),
+});
+
+// Simulated brokerage account for forward-testing recommendations. Its positions are
+// portfolio_positions rows with source/broker 'paper'.
+export const paperAccounts = pgTable("paper_accounts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().default('Paper'),
+  startingCash: real("starting_cash").notNull(),
+  cash: real("cash").notNull(),
+  realizedPnL: real("realized_pnl").notNull().default(0), // Net of fees
+  feesPaid: real("fees_paid").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  resetAt: timestamp("reset_at"),
+});
+
+// End-of-day equity of the paper account (one row per trading day)
+export const paperEquitySnapshots = pgTable("paper_equity_snapshots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  accountId: varchar("account_id").notNull().references(() => paperAccounts.id),
+  date: text("date").notNull(), // YYYY-MM-DD (exchange date)
+  cash: real("cash").notNull(),
+  positionsValue: real("positions_value").notNull(), // Open positions marked at mid
+  equity: real("equity").notNull(),
+  realizedPnL: real("realized_pnl").notNull(),
+  unrealizedPnL: real("unrealized_pnl").notNull(),
+  openPositions: integer("open_positions").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  accountDateUnique: uniqueIndex("paper_equity_snapshots_account_date_unique").on(table.accountId, table.date),
+}));
+
+// Daily closing snapshot per broker account; performance analytics (TWR, drawdown, monthly returns) read these
+export const accountEquitySnapshots = pgTable("account_equity_snapshots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  account: text("account").notNull(), // 'tastytrade' | 'paper'
+  date: text("date").notNull(), // YYYY-MM-DD (exchange date)
+  netLiquidatingValue: real("net_liquidating_value").notNull(),
+  cashBalance: real("cash_balance"), // Null on backfilled rows
+  realizedPnL: real("realized_pnl"), // Realized since the previous snapshot (normally that day); null on backfilled rows
+  unrealizedPnL: real("unrealized_pnl"), // Open positions at the close; null on backfilled rows
+  netDeposits: real("net_deposits").notNull().default(0), // External deposits minus withdrawals that day
+  source: text("source").notNull().default('snapshot'), // 'snapshot' | 'backfill'
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  accountDateUnique: uniqueIndex("account_equity_snapshots_account_date_unique").on(table.account, table.date),
+}));
+
+// Account growth goals; several can run at once per account, progress is measured on net liquidating value history
+export const accountGoals = pgTable("account_goals", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  account: text("account").notNull(), // 'tastytrade' | 'paper'
+  name: text("name").notNull(),
+  startDate: text("start_date").notNull(), // YYYY-MM-DD
+  startValue: real("start_value").notNull(),
+  targetValue: real("target_value").notNull(),
+  targetDate: text("target_date").notNull(), // YYYY-MM-DD
+  milestones: jsonb("milestones").$type<number[]>().notNull(), // Account values between start and target, ascending
+  status: text("status").notNull().default('active'), // 'active' | 'archived'
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Positions opted in to automated bracket exits (partial target, full target, stop)
+export const exitAutomations = pgTable("exit_automations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  positionKey: text("position_key").notNull(), // Unified portfolio position id (broker symbol or portfolio_positions id)
+  broker: text("broker").notNull(),
+  ticker: text("ticker").notNull(),
+  optionSymbol: text("option_symbol").notNull(), // Canonical OCC (e.g. ".SPY251113C00680000")
+  optionType: text("option_type").notNull(), // 'call' | 'put'
+  strikePrice: real("strike_price").notNull(),
+  expiry: text("expiry").notNull(),
+  entryPrice: real("entry_price").notNull(), // Per-share cost basis P/L is measured from
+  quantity: integer("quantity").notNull(), // Contracts when enrolled
+  remainingQuantity: integer("remaining_quantity").notNull(),
+  mode: text("mode").notNull().default('paper'), // 'paper' (simulated fills) | 'live' (Sell to Close orders at the broker)
+  status: text("status").notNull().default('active'), // ExitAutomationStatus
+  partialTaken: boolean("partial_taken").notNull().default(false),
+  // Per-position overrides (fractions of entry premium); null falls back to the Elite strategy config
+  stopLoss: real("stop_loss"),
+  profitTarget: real("profit_target"),
+  partialProfitLevel: real("partial_profit_level"),
+  partialProfitPercent: real("partial_profit_percent"),
+  realizedPnL: real("realized_pnl").notNull().default(0), // Net of fees, across exits taken
+  lastPremium: real("last_premium"),
+  // Live exit order at the broker; levels aren't re-checked until it fills, expires or is cancelled
+  pendingOrderId: varchar("pending_order_id").references(() => brokerOrders.id),
+  pendingExitKind: text("pending_exit_kind"), // 'partial_exit' | 'full_exit' | 'stop_loss'
+  pendingFilledQuantity: integer("pending_filled_quantity").notNull().default(0), // Fills of the pending order already booked
+  pendingRealizedPnL: real("pending_realized_pnl").notNull().default(0), // Realized P/L of those fills
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Every action the exit automation took or was told to take
+export const exitAutomationActions = pgTable("exit_automation_actions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  automationId: varchar("automation_id").references(() => exitAutomations.id), // null for global actions (kill switch)
+  action: text("action").notNull(), // ExitAutomationActionType
+  mode: text("mode"), // 'paper' | 'live' for exits
+  quantity: integer("quantity"),
+  premium: real("premium"), // Observed mid that triggered the exit
+  fillPrice: real("fill_price"), // Simulated fill (paper) or limit price sent (live)
+  pnlPercent: real("pnl_percent"),
+  realizedPnL: real("realized_pnl"),
+  brokerOrderId: varchar("broker_order_id").references(() => brokerOrders.id),
+  actor: text("actor"), // Who changed settings; null for automated exits
+  message: text("message").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const watchlists = pgTable("watchlists", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").references(() => users.id),
@@ -129,15 +363,30 @@ export const priceAlerts = pgTable("price_alerts", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").references(() => users.id),
   ticker: text("ticker").notNull(),
-  alertType: text("alert_type").notNull(), // 'above' | 'below'
-  targetPrice: real("target_price").notNull(),
-  currentPrice: real("current_price"),
+  alertType: text("alert_type").notNull(), // 'above' | 'below' | 'percent_move' | 'crosses_vwap' | 'premium_above' | 'premium_below' | 'iv_above'
+  targetPrice: real("target_price").notNull(), // Threshold: price, % move, premium, or IV % depending on alertType
+  optionSymbol: text("option_symbol"), // OCC format for premium/IV alerts (e.g., ".SPY251113C00680000")
+  referencePrice: real("reference_price"), // Baseline price for 'percent_move' alerts
+  currentPrice: real("current_price"), // Last evaluated value (price, premium, or IV %)
+  lastEvaluatedAt: timestamp("last_evaluated_at"),
   isActive: boolean("is_active").default(true),
   isTriggered: boolean("is_triggered").default(false),
   createdAt: timestamp("created_at").defaultNow(),
   triggeredAt: timestamp("triggered_at"),
 });
 
+export const priceAlertTriggers = pgTable("price_alert_triggers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  alertId: varchar("alert_id").references(() => priceAlerts.id, { onDelete: 'cascade' }).notNull(),
+  ticker: text("ticker").notNull(),
+  alertType: text("alert_type").notNull(),
+  targetPrice: real("target_price").notNull(),
+  triggerValue: real("trigger_value").notNull(), // Observed value that fired the alert
+  source: text("source").notNull(), // 'polygon' | 'tastytrade'
+  message: text("message").notNull(),
+  triggeredAt: timestamp("triggered_at").defaultNow(),
+});
+
 export const appConfig = pgTable("app_config", {
   key: text("key").primaryKey(),
   value: text("value").notNull(),
@@ -153,15 +402,25 @@ export const backtestRuns = pgTable("backtest_runs", {
   timeframe: text("timeframe").notNull().default('1d'), // '1d' | '4h'
   warmupLookback: integer("warmup_lookback").notNull().default(14), // Days for RSI calculation
   config: jsonb("config"), // Strategy parameters used
+  strategy: text("strategy").notNull().default('legacy_rsi'), // Entry strategy: 'legacy_rsi' | 'elite_scanner' | 'elite_rules' | 'spx_day_trade'
+  progress: real("progress").default(0), // Percent complete (0-100)
+  progressDate: text("progress_date"), // Simulation date currently being processed (YYYY-MM-DD)
+  results: jsonb("results"), // Run summary (P&L, exit reasons, signal counts)
   totalTrades: integer("total_trades").default(0),
   wins: integer("wins").default(0),
   losses: integer("losses").default(0),
   winRate: real("win_rate"), // Percentage
-  avgROI: real("avg_roi"), // Average return on investment
+  avgROI: real("avg_roi"), // Average return on investment, net of execution costs
+  grossAvgROI: real("gross_avg_roi"), // Average ROI at mid prices (before spread and fees)
   profitFactor: real("profit_factor"), // Gross profit / gross loss
-  maxDrawdown: real("max_drawdown"), // Maximum peak-to-trough decline
-  sharpeRatio: real("sharpe_ratio"), // Risk-adjusted return metric
-  status: text("status").notNull().default('pending'), // 'pending' | 'running' | 'completed' | 'failed'
+  maxDrawdown: real("max_drawdown"), // Maximum peak-to-trough decline of account equity (%)
+  sharpeRatio: real("sharpe_ratio"), // Annualized, from daily equity returns
+  sortinoRatio: real("sortino_ratio"), // Annualized, downside deviation only
+  cagr: real("cagr"), // Compound annual growth rate (%)
+  exposure: real("exposure"), // Average % of equity held in open positions
+  startingCapital: real("starting_capital"),
+  endingEquity: real("ending_equity"),
+  status: text("status").notNull().default('pending'), // 'pending' | 'running' | 'completed' | 'failed' | 'cancelled'
   startedAt: timestamp("started_at").defaultNow(),
   completedAt: timestamp("completed_at"),
   errorMessage: text("error_message"),
@@ -176,19 +435,37 @@ export const backtestTrades = pgTable("backtest_trades", {
   expiry: timestamp("expiry").notNull(),
   entryDate: timestamp("entry_date").notNull(),
   exitDate: timestamp("exit_date"),
-  entryPremium: real("entry_premium").notNull(),
-  exitPremium: real("exit_premium"),
-  exitReason: text("exit_reason"), // 'target' | 'stop' | 'expiry' | 'signal'
+  entryPremium: real("entry_premium").notNull(), // Model (mid) premium
+  exitPremium: real("exit_premium"), // Model (mid) premium
+  exitReason: text("exit_reason"), // 'target' | 'stop' | 'expiry' | 'time' | 'signal'
   contracts: integer("contracts").notNull(),
-  pnl: real("pnl"), // Profit/loss in dollars
-  roi: real("roi"), // Return on investment percentage
+  entryFill: real("entry_fill"), // Premium paid after spread/tick rounding
+  exitFill: real("exit_fill"), // Premium received after spread/tick rounding
+  fees: real("fees"), // Commissions + regulatory fees in dollars
+  grossPnl: real("gross_pnl"), // Profit/loss at mid prices
+  grossRoi: real("gross_roi"), // ROI percentage at mid prices
+  pnl: real("pnl"), // Profit/loss in dollars, net of execution costs
+  roi: real("roi"), // Return on investment percentage, net of execution costs
   maxDrawdown: real("max_drawdown"), // Max decline during hold
-  signals: jsonb("signals"), // RSI, VIX, Fibonacci data at entry
+  signals: jsonb("signals"), // Strategy id, entry reason and indicator values at entry
   marketContext: jsonb("market_context"), // Market conditions at entry
   notes: text("notes"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Daily mark-to-market account equity for a backtest run
+export const backtestEquity = pgTable("backtest_equity", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  runId: varchar("run_id").references(() => backtestRuns.id, { onDelete: 'cascade' }).notNull(),
+  date: text("date").notNull(), // YYYY-MM-DD
+  equity: real("equity").notNull(), // Cash + unsettled proceeds + open positions at model value
+  cash: real("cash").notNull(), // Settled cash available for new entries
+  unsettledCash: real("unsettled_cash").notNull().default(0), // Sale proceeds waiting on settlement
+  positionsValue: real("positions_value").notNull(),
+  openPositions: integer("open_positions").notNull(),
+  drawdown: real("drawdown").notNull(), // % below running equity peak
+});
+
 // Elite Strategy: Recommendation Tracking
 export const recommendationTracking = pgTable("recommendation_tracking", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -224,6 +501,7 @@ export const recommendationTracking = pgTable("recommendation_tracking", {
   // Status tracking
   status: text("status").notNull().default('pending'), // 'pending' | 'monitoring' | 'closed' | 'expired'
   isWatchlist: boolean("is_watchlist").default(false), // True for overnight plays with relaxed criteria
+  marketRegime: text("market_regime"), // MarketRegime at entry (marketRegimeService); null = not classified
   recommendedAt: timestamp("recommended_at").defaultNow(),
 }, (table) => ({
   // Fast lookup by strategy version and date for learning analysis
@@ -244,17 +522,20 @@ export const recommendationPerformance = pgTable("recommendation_performance", {
   recommendationId: varchar("recommendation_id").references(() => recommendationTracking.id, { onDelete: 'cascade' }).notNull(),
   
   // Actual outcome
-  exitDate: timestamp("exit_date"),
+  exitDate: timestamp("exit_date"), // Time of the quote that triggered the exit
   exitPrice: real("exit_price"), // Actual stock price at exit
   exitPremium: real("exit_premium"), // Actual option premium at exit
-  actualROI: real("actual_roi"), // Actual return on investment
-  actualProfit: real("actual_profit"), // Dollar profit/loss
+  actualROI: real("actual_roi"), // Actual return on investment, net of execution costs
+  actualProfit: real("actual_profit"), // Dollar profit/loss, net of execution costs
+  grossROI: real("gross_roi"), // ROI at quoted premiums, before spread and fees
+  grossProfit: real("gross_profit"), // Dollar profit/loss before spread and fees
+  executionCosts: real("execution_costs"), // Spread, tick rounding and fees in dollars
   
   // Exit analysis
   exitReason: text("exit_reason"), // 'profit_target' | 'stop_loss' | 'time_based' | 'manual' | 'expiry'
   holdDays: integer("hold_days"), // Actual days held
-  maxDrawdown: real("max_drawdown"), // Worst drawdown during hold
-  maxProfit: real("max_profit"), // Best profit during hold
+  maxDrawdown: real("max_drawdown"), // Worst gross ROI % during hold (<= 0), tracked intraday
+  maxProfit: real("max_profit"), // Best gross ROI % during hold (>= 0), tracked intraday
   
   // Win/loss classification
   isWin: boolean("is_win"), // Did it meet profit target?
@@ -306,14 +587,54 @@ export const strategyParameters = pgTable("strategy_parameters", {
   adjustmentReason: text("adjustment_reason"),
   previousVersion: text("previous_version"),
   
+  // Regime scope: null = base set for every regime, otherwise only loaded while that MarketRegime is current
+  marketRegime: text("market_regime"),
+  
   // Status
-  isActive: boolean("is_active").default(false), // Only one active at a time
+  isActive: boolean("is_active").default(false), // Only one active at a time per regime scope
+  status: text("status").notNull().default('proposed'), // 'proposed' | 'active' | 'retired' | 'rejected'
   activatedAt: timestamp("activated_at").defaultNow(),
   deactivatedAt: timestamp("deactivated_at"),
   
+  // Review
+  proposedBy: text("proposed_by"), // Person or process that proposed the version
+  reviewedBy: text("reviewed_by"), // Who approved/rejected it
+  reviewedAt: timestamp("reviewed_at"),
+  reviewNotes: text("review_notes"),
+  
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Every status transition of a strategy parameter version (who/why/when)
+export const strategyParameterAudit = pgTable("strategy_parameter_audit", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  parameterId: varchar("parameter_id").references(() => strategyParameters.id, { onDelete: 'cascade' }).notNull(),
+  version: text("version").notNull(),
+  action: text("action").notNull(), // 'proposed' | 'approved' | 'rejected' | 'rolled_back' | 'retired'
+  fromStatus: text("from_status"),
+  toStatus: text("to_status").notNull(),
+  actor: text("actor").notNull(),
+  reason: text("reason"),
+  details: jsonb("details"), // e.g. version replaced, live metrics at the time
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Walk-forward optimizations of the EliteStrategyEngine config
+export const strategyOptimizationRuns = pgTable("strategy_optimization_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  status: text("status").notNull().default('running'), // 'running' | 'completed' | 'failed'
+  config: jsonb("config").notNull(), // Date range, windows, search space, objective
+  progress: real("progress").default(0), // Percent complete (0-100)
+  windows: jsonb("windows"), // Train/test date ranges (WalkForwardWindow[])
+  candidates: jsonb("candidates"), // In-sample and out-of-sample metrics per candidate (OptimizationCandidateResult[])
+  winner: jsonb("winner"), // Best eligible candidate by in-sample objective (out-of-sample is held out)
+  baseline: jsonb("baseline"), // Active parameters measured on the same windows
+  proposedVersion: text("proposed_version"), // Inactive strategy_parameters version written for approval
+  errorMessage: text("error_message"),
+  startedAt: timestamp("started_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
@@ -344,6 +665,37 @@ export const insertTradeHistorySchema = createInsertSchema(tradeHistory).omit({
   tradeDate: true,
 });
 
+export const insertBrokerOrderSchema = createInsertSchema(brokerOrders).omit({
+  id: true,
+  previewedAt: true,
+});
+
+export const insertPaperAccountSchema = createInsertSchema(paperAccounts).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertPaperEquitySnapshotSchema = createInsertSchema(paperEquitySnapshots).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAccountEquitySnapshotSchema = createInsertSchema(accountEquitySnapshots).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertExitAutomationSchema = createInsertSchema(exitAutomations).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertExitAutomationActionSchema = createInsertSchema(exitAutomationActions).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertWatchlistSchema = createInsertSchema(watchlists).omit({
   id: true,
   createdAt: true,
@@ -358,6 +710,21 @@ export const insertWatchlistItemSchema = createInsertSchema(watchlistItems).omit
 export const insertPriceAlertSchema = createInsertSchema(priceAlerts).omit({
   id: true,
   createdAt: true,
+  lastEvaluatedAt: true,
+});
+
+export const insertAccountGoalSchema = createInsertSchema(accountGoals, {
+  milestones: z.array(z.number().positive()).optional(),
+}).omit({
+  id: true,
+  status: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertPriceAlertTriggerSchema = createInsertSchema(priceAlertTriggers).omit({
+  id: true,
+  triggeredAt: true,
 });
 
 export const insertBacktestRunSchema = createInsertSchema(backtestRuns).omit({
@@ -370,6 +737,10 @@ export const insertBacktestTradeSchema = createInsertSchema(backtestTrades).omit
   createdAt: true,
 });
 
+export const insertBacktestEquitySchema = createInsertSchema(backtestEquity).omit({
+  id: true,
+});
+
 export const insertRecommendationTrackingSchema = createInsertSchema(recommendationTracking).omit({
   id: true,
   recommendedAt: true,
@@ -385,6 +756,16 @@ export const insertStrategyParametersSchema = createInsertSchema(strategyParamet
   createdAt: true,
 });
 
+export const insertStrategyParameterAuditSchema = createInsertSchema(strategyParameterAudit).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertStrategyOptimizationRunSchema = createInsertSchema(strategyOptimizationRuns).omit({
+  id: true,
+  startedAt: true,
+});
+
 // AI Learning: Market Insights (AI-discovered patterns)
 export const marketInsights = pgTable("market_insights", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -395,7 +776,7 @@ export const marketInsights = pgTable("market_insights", {
   sampleSize: integer("sample_size").notNull(), // Number of trades matching this pattern
   avgROI: real("avg_roi"), // Average ROI when pattern occurs
   confidence: real("confidence").notNull(), // Statistical confidence (0-1)
-  discoveredBy: text("discovered_by").notNull(), // 'grok_analysis' | 'backtest' | 'manual'
+  discoveredBy: text("discovered_by").notNull(), // 'grok_analysis' | 'backtest' | 'manual' | 'regime_classifier'
   marketRegime: text("market_regime"), // 'bull' | 'bear' | 'volatile' | 'choppy' | null (applies to all)
   sector: text("sector"), // Specific sector or null (applies to all)
   discoveredAt: timestamp("discovered_at").defaultNow(),
@@ -502,6 +883,10 @@ export const insertLearningSessionSchema = createInsertSchema(learningSessions).
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type CorporateAction = typeof corporateActions.$inferSelect;
+export type TickerClassification = typeof tickerClassifications.$inferSelect;
+export type IndexIntradaySample = typeof indexIntradaySamples.$inferSelect;
+export type VixSqueezeSignal = typeof vixSqueezeSignals.$inferSelect;
 export type User = typeof users.$inferSelect;
 export type MarketData = typeof marketData.$inferSelect;
 export type InsertMarketData = z.infer<typeof insertMarketDataSchema>;
@@ -513,22 +898,44 @@ export type PortfolioPosition = typeof portfolioPositions.$inferSelect;
 export type InsertPortfolioPosition = z.infer<typeof insertPortfolioPositionSchema>;
 export type TradeHistory = typeof tradeHistory.$inferSelect;
 export type InsertTradeHistory = z.infer<typeof insertTradeHistorySchema>;
+export type BrokerOrder = typeof brokerOrders.$inferSelect;
+export type InsertBrokerOrder = z.infer<typeof insertBrokerOrderSchema>;
+export type PaperAccount = typeof paperAccounts.$inferSelect;
+export type InsertPaperAccount = z.infer<typeof insertPaperAccountSchema>;
+export type PaperEquitySnapshot = typeof paperEquitySnapshots.$inferSelect;
+export type AccountEquitySnapshot = typeof accountEquitySnapshots.$inferSelect;
+export type InsertAccountEquitySnapshot = z.infer<typeof insertAccountEquitySnapshotSchema>;
+export type AccountGoal = typeof accountGoals.$inferSelect;
+export type InsertAccountGoal = z.infer<typeof insertAccountGoalSchema>;
+export type InsertPaperEquitySnapshot = z.infer<typeof insertPaperEquitySnapshotSchema>;
+export type ExitAutomation = typeof exitAutomations.$inferSelect;
+export type InsertExitAutomation = z.infer<typeof insertExitAutomationSchema>;
+export type ExitAutomationAction = typeof exitAutomationActions.$inferSelect;
+export type InsertExitAutomationAction = z.infer<typeof insertExitAutomationActionSchema>;
 export type Watchlist = typeof watchlists.$inferSelect;
 export type InsertWatchlist = z.infer<typeof insertWatchlistSchema>;
 export type WatchlistItem = typeof watchlistItems.$inferSelect;
 export type InsertWatchlistItem = z.infer<typeof insertWatchlistItemSchema>;
 export type PriceAlert = typeof priceAlerts.$inferSelect;
 export type InsertPriceAlert = z.infer<typeof insertPriceAlertSchema>;
+export type PriceAlertTrigger = typeof priceAlertTriggers.$inferSelect;
+export type InsertPriceAlertTrigger = z.infer<typeof insertPriceAlertTriggerSchema>;
 export type BacktestRun = typeof backtestRuns.$inferSelect;
 export type InsertBacktestRun = z.infer<typeof insertBacktestRunSchema>;
 export type BacktestTrade = typeof backtestTrades.$inferSelect;
 export type InsertBacktestTrade = z.infer<typeof insertBacktestTradeSchema>;
+export type BacktestEquityPoint = typeof backtestEquity.$inferSelect;
+export type InsertBacktestEquityPoint = z.infer<typeof insertBacktestEquitySchema>;
 export type RecommendationTracking = typeof recommendationTracking.$inferSelect;
 export type InsertRecommendationTracking = z.infer<typeof insertRecommendationTrackingSchema>;
 export type RecommendationPerformance = typeof recommendationPerformance.$inferSelect;
 export type InsertRecommendationPerformance = z.infer<typeof insertRecommendationPerformanceSchema>;
 export type StrategyParameters = typeof strategyParameters.$inferSelect;
 export type InsertStrategyParameters = z.infer<typeof insertStrategyParametersSchema>;
+export type StrategyParameterAuditEntry = typeof strategyParameterAudit.$inferSelect;
+export type InsertStrategyParameterAuditEntry = z.infer<typeof insertStrategyParameterAuditSchema>;
+export type StrategyOptimizationRun = typeof strategyOptimizationRuns.$inferSelect;
+export type InsertStrategyOptimizationRun = z.infer<typeof insertStrategyOptimizationRunSchema>;
 export type MarketInsight = typeof marketInsights.$inferSelect;
 export type InsertMarketInsight = z.infer<typeof insertMarketInsightSchema>;
 export type PerformanceMetricsRow = typeof performanceMetrics.$inferSelect;
@@ -560,6 +967,8 @@ export interface TradeRecommendation {
   contracts: number;
   projectedROI: number;
   projectedROIAmount?: number; // Estimated total exit value in dollars
+  netProjectedROI?: number; // Projected ROI after spread, tick rounding and fees
+  executionCost?: number; // Estimated round-trip spread + fees in dollars
   aiConfidence: number;
   greeks: Greeks;
   sentiment: number;
@@ -600,9 +1009,11 @@ export interface PerformanceMetrics {
   largestWin: number;
   largestLoss: number;
   profitFactor: number;
-  sharpeRatio: number;
+  sharpeRatio: number | null; // From daily account returns; null until there is enough equity history
   maxDrawdown: number;
-  monthlyReturns: { month: string; return: number }[];
+  monthlyReturns: { month: string; return: number; benchmark: number | null }[];
+  benchmarkReturn: number | null; // SPY % over the equity history
+  performanceSince: string | null; // First equity snapshot behind the return metrics
   tradeDistribution: { range: string; count: number }[];
 }
 
@@ -611,13 +1022,176 @@ export interface SectorData {
   change: number;
 }
 
+export type SectorWindow = '1D' | '5D' | '1M';
+export type SectorWindowReturns = Record<SectorWindow, number | null>;
+
+export interface IndustryPerformance {
+  name: string;
+  constituents: number;
+  capWeighted: SectorWindowReturns;
+  equalWeighted: SectorWindowReturns;
+  advancers: number;
+  decliners: number;
+}
+
+// `change` mirrors capWeighted['1D'] so SectorData consumers keep working
+export interface SectorPerformance extends SectorData {
+  constituents: number;
+  capWeighted: SectorWindowReturns;
+  equalWeighted: SectorWindowReturns;
+  relativeStrength: SectorWindowReturns; // Cap-weighted return minus the classified market's, in percentage points
+  advancers: number;
+  decliners: number;
+  unchanged: number;
+  breadth: number; // Advancers as % of advancers + decliners
+  industries: IndustryPerformance[];
+}
+
+export interface SectorPerformanceSnapshot {
+  sectors: SectorPerformance[];
+  market: { constituents: number; capWeighted: SectorWindowReturns; equalWeighted: SectorWindowReturns };
+  classifiedSymbols: number;
+  universeSize: number;
+  computedAt: string;
+}
+
+// How the Elite scanner uses sector strength: ignore it, adjust signal quality, or reject counter-sector setups
+export interface SectorRotationSettings {
+  scannerMode: 'off' | 'score' | 'filter';
+  window: SectorWindow;
+  minRelativeStrength: number; // Percentage points; filter mode rejects calls below +x and puts above -x
+}
+
+// change/changePercent are measured against the official prior session close
+export interface IndexQuote {
+  value: number;
+  change: number;
+  changePercent: number;
+  priorClose?: number | null;
+}
+
 export interface MarketOverviewData {
-  sp500: { value: number; change: number; changePercent: number };
-  nasdaq: { value: number; change: number; changePercent: number };
-  vix: { value: number; change: number; changePercent: number };
-  sentiment: { score: number; label: string };
+  sp500: IndexQuote;
+  nasdaq: IndexQuote;
+  vix: IndexQuote;
+  sentiment: MarketSentiment;
+}
+
+// Hit rate behind the squeeze alert: resolved live signals once there are enough, else the last backtest
+export interface VixSqueezeConfidence {
+  hitRate: number | null; // 0-100
+  basis: 'live' | 'backtest' | null;
+  sampleSize: number;
+}
+
+export interface VixSqueezeAlert {
+  detected: boolean;
+  action?: string;
+  vix?: number;
+  change?: number;
+  optionSymbol?: string;
+  strike?: number;
+  expiry?: string;
+  entryPremium?: number;
+  entryWindow?: string;
+  exitTime?: string;
+  confidence?: string; // Display form of confidence.hitRate ("57.1%", or "Unproven")
+  confidenceDetail?: VixSqueezeConfidence;
+  timestamp?: string;
+}
+
+export interface VixSqueezeBacktestTrade {
+  signalDate: string;
+  exitDate: string;
+  vix: number;
+  vixChangePercent: number;
+  spyEntry: number;
+  spyExit: number;
+  spyExitSource: 'intraday' | 'open'; // 9:30 AM CST bar, or the exit day's open when no intraday bars exist
+  strike: number;
+  entryPremium: number;
+  exitPremium: number;
+  returnPct: number;
+  win: boolean;
 }
 
+export interface VixSqueezeBacktestResult {
+  startDate: string;
+  endDate: string;
+  trades: VixSqueezeBacktestTrade[];
+  hitRate: number | null;
+  avgReturnPct: number | null;
+  ranAt: string;
+}
+
+export interface VixSqueezeStats {
+  live: { total: number; pending: number; resolved: number; wins: number; hitRate: number | null; avgReturnPct: number | null };
+  backtest: Omit<VixSqueezeBacktestResult, 'trades'> & { tradeCount: number } | null;
+  confidence: VixSqueezeConfidence;
+}
+
+export type IndexKey = 'SPX' | 'COMP' | 'VIX';
+
+export interface IndexIntradaySeries {
+  symbol: IndexKey;
+  label: string;
+  priorClose: number | null;
+  points: { time: string; price: number }[]; // ISO timestamps, oldest first
+}
+
+export interface IndexIntradayHistory {
+  date: string; // Exchange date of the session
+  series: IndexIntradaySeries[];
+}
+
+export type SentimentComponentKey = 'advance_decline' | 'above_sma20' | 'above_sma50' | 'highs_lows' | 'vix' | 'put_call';
+
+export interface SentimentComponent {
+  key: SentimentComponentKey;
+  label: string;
+  value: number | null; // Raw reading (A/D ratio, % of stocks, VIX level, put/call ratio)
+  score: number | null; // 0 = bearish, 1 = bullish; null when the input is unavailable
+  weight: number; // Share of the composite after re-normalising over available components
+  detail: string;
+}
+
+export interface MarketSentiment {
+  score: number; // 0-1 weighted composite
+  label: string;
+  components: SentimentComponent[];
+  computedAt?: string;
+}
+
+export interface MarketHolidayInfo {
+  date: string; // YYYY-MM-DD (exchange date)
+  name: string;
+  type: 'closed' | 'early_close';
+  closeTime?: string; // "13:00" ET for early closes
+}
+
+export interface MarketSessionInfo {
+  date: string; // YYYY-MM-DD
+  open: string; // ISO timestamp
+  close: string; // ISO timestamp
+  isEarlyClose: boolean;
+  holidayName?: string;
+}
+
+export interface MarketCalendarData {
+  date: string; // Today's exchange date
+  isOpen: boolean;
+  isTradingDay: boolean;
+  isHoliday: boolean;
+  isEarlyClose: boolean;
+  holidayName?: string;
+  currentSession: MarketSessionInfo | null;
+  nextSession: MarketSessionInfo;
+  upcomingHolidays: MarketHolidayInfo[];
+  holidays?: MarketHolidayInfo[]; // Full year when ?year= is requested
+}
+
+export type PriceAlertType = 'above' | 'below' | 'percent_move' | 'crosses_vwap' | 'premium_above' | 'premium_below' | 'iv_above';
+
 export interface AlertNotification {
   id: string;
   type: 'price_alert' | 'trade_execution' | 'market_news';
@@ -625,10 +1199,119 @@ export interface AlertNotification {
   message: string;
   ticker?: string;
   price?: number;
+  alertId?: string;
+  optionSymbol?: string;
   timestamp: Date;
   isRead: boolean;
 }
 
+export type BacktestStrategyId = 'legacy_rsi' | 'elite_scanner' | 'elite_rules' | 'spx_day_trade';
+
+export type BacktestRunStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface BacktestJobProgress {
+  runId: string;
+  strategy: BacktestStrategyId;
+  status: BacktestRunStatus;
+  progress: number; // Percent complete (0-100)
+  currentDate: string | null; // Simulation date being processed (YYYY-MM-DD)
+  message?: string;
+  error?: string;
+  queuePosition?: number; // 1-based position while pending
+  timestamp: string;
+}
+
+export type StrategyParameterStatus = 'proposed' | 'active' | 'retired' | 'rejected';
+
+export type MarketRegime = 'bull' | 'bear' | 'volatile' | 'choppy';
+
+// Inputs of the regime classifier as of one session close
+export interface MarketRegimeSignals {
+  spxClose: number;
+  spxSma50: number | null;
+  spxReturn20: number | null; // % change over 20 sessions
+  vix: number | null;
+  vixSma10: number | null;
+  vixTermRatio: number | null; // VIX / VIX3M; > 1 = backwardation
+  breadthAbove20: number | null; // % of liquid stocks closing above their 20-day SMA
+}
+
+export interface MarketRegimeSnapshot {
+  regime: MarketRegime;
+  asOf: string; // YYYY-MM-DD session the signals close on
+  signals: MarketRegimeSignals;
+  reasons: string[];
+  computedAt: string;
+}
+
+export type StrategyParameterAuditAction = 'proposed' | 'approved' | 'rejected' | 'rolled_back' | 'retired';
+
+export interface StrategyParameterFieldDiff {
+  field: string;
+  active: number | null;
+  proposed: number | null;
+  change: number | null; // proposed - active
+}
+
+export interface StrategyVersionPerformance {
+  version: string;
+  totalTrades: number;
+  closedTrades: number;
+  winRate: number;
+  avgROI: number;
+  profitFactor: number;
+}
+
+export interface StrategyVersionDiff {
+  proposal: { id: string; version: string; status: StrategyParameterStatus };
+  active: { id: string; version: string } | null;
+  fields: StrategyParameterFieldDiff[];
+  changedFields: number;
+  performance: { active: StrategyVersionPerformance | null; proposal: StrategyVersionPerformance }; // Live tracked results per version
+}
+
+// EliteStrategyConfig fields the walk-forward optimizer can search
+export type OptimizableParameter =
+  | 'rsiOversold'
+  | 'rsiOverbought'
+  | 'vixMinCall'
+  | 'vixMinPut'
+  | 'stopLoss'
+  | 'profitTarget'
+  | 'atrMultiplier'
+  | 'deltaMin'
+  | 'deltaMax';
+
+export type OptimizationObjective = 'sharpeRatio' | 'avgROI' | 'profitFactor' | 'totalReturn';
+
+export interface WalkForwardWindow {
+  index: number;
+  trainStart: string; // YYYY-MM-DD
+  trainEnd: string;
+  testStart: string;
+  testEnd: string;
+}
+
+export interface OptimizationMetrics {
+  totalTrades: number;
+  winRate: number; // Percentage
+  avgROI: number; // Net percentage per trade
+  profitFactor: number; // Capped so runs without losses stay comparable
+  sharpeRatio: number;
+  maxDrawdown: number; // Percentage of equity
+  totalReturn: number; // Percentage, compounded across windows
+}
+
+export interface OptimizationCandidateResult {
+  id: number; // 0 = baseline (active parameters)
+  params: Record<OptimizableParameter, number>;
+  inSample: OptimizationMetrics; // Across all train windows
+  outOfSample: OptimizationMetrics; // Across all test windows
+  windows: { window: number; inSample: OptimizationMetrics; outOfSample: OptimizationMetrics }[];
+  efficiency: number | null; // Out-of-sample objective / in-sample objective
+  eligible: boolean; // Enough in-sample trades to be trusted
+}
+
 export interface OptionsMetadata {
   strike: number;
   expiry: string;
@@ -637,6 +1320,255 @@ export interface OptionsMetadata {
   contracts: number;
 }
 
+export type BrokerOrderStatus =
+  | 'previewed' // Dry run done, awaiting confirmation
+  | 'submitting' // Claimed by a submit, being sent to the broker
+  | 'failed' // Placement failed; preview again to retry
+  | 'submitted' // Accepted by the broker, not yet working
+  | 'working'
+  | 'partially_filled'
+  | 'filled'
+  | 'cancelled'
+  | 'rejected'
+  | 'expired';
+
+export interface BrokerOrderPreview {
+  order: BrokerOrder;
+  estimatedCost: number; // limitPrice × contracts × 100
+  expiresAt: string; // Submit must happen before this, otherwise preview again
+}
+
+export interface PaperAccountBalance {
+  netLiquidatingValue: number; // cash + open positions at mid
+  cashBalance: number;
+  totalValue: number;
+  startingCash: number;
+  realizedPnL: number;
+  unrealizedPnL: number;
+  returnPercent: number; // Since the account was (re)started
+}
+
+export type EquityAccount = 'tastytrade' | 'paper';
+
+export interface AccountMonthlyReturn {
+  month: string; // YYYY-MM
+  return: number; // Time-weighted %, chained from daily returns
+  benchmark: number | null; // SPY % over the same days
+}
+
+export interface AccountPerformancePoint {
+  date: string;
+  value: number; // Net liquidating value at the close
+  netDeposits: number;
+  twr: number; // Cumulative time-weighted return % since the first point
+  drawdown: number; // % below the running peak of the TWR index (<= 0)
+  benchmark: number | null; // Cumulative SPY return % since the first point
+}
+
+export interface AccountPerformance {
+  account: EquityAccount;
+  startDate: string | null;
+  endDate: string | null;
+  days: number; // Calendar days covered
+  startValue: number;
+  endValue: number;
+  netDeposits: number; // Deposits minus withdrawals after the start date
+  totalPnL: number; // End value - start value - net deposits
+  twr: number; // Time-weighted return %
+  annualizedReturn: number | null; // % per year (null under 30 days)
+  volatility: number | null; // Annualized % from daily returns (null under 20 returns)
+  sharpeRatio: number | null; // Annualized, zero risk-free rate (null under 20 returns)
+  maxDrawdown: number; // % (<= 0)
+  maxDrawdownPeak: string | null;
+  maxDrawdownTrough: string | null;
+  currentDrawdown: number; // % (<= 0)
+  benchmark: {
+    symbol: string;
+    return: number | null; // % over the same days
+    excessReturn: number | null; // TWR minus benchmark, percentage points
+    beta: number | null;
+    correlation: number | null;
+  };
+  monthlyReturns: AccountMonthlyReturn[];
+  series: AccountPerformancePoint[];
+}
+
+export interface AccountLifetimePnL {
+  lifetimeRealized: number;
+  totalPnL: number | null; // Net liquidating value minus net deposits
+  unrealizedPnL: number | null;
+  netContributions: number | null; // All-time deposits minus withdrawals
+  source: 'transactions' | 'baseline'; // Broker money movements, or the manual baseline when they are unavailable
+  baselineAdjustment: number; // Applied only when source is 'baseline'
+}
+
+export type GoalAccount = 'tastytrade' | 'paper';
+
+export interface GoalMilestoneProgress {
+  value: number;
+  reachedOn: string | null; // First history date at or above the milestone
+  plannedBy: string; // Date the required-CAGR path reaches it
+}
+
+export interface AccountGoalProgress {
+  goal: AccountGoal;
+  dataAvailable: boolean; // False when the broker returned no history or balance; current-based fields are null
+  current: number | null; // Latest net liquidating value
+  target: number;
+  progressPercent: number | null; // Share of the start → target distance covered (0-100)
+  growthPercent: number | null; // Since the start value
+  remaining: number | null;
+  requiredMultiplier: string | null; // Target / current, e.g. "3.20x"
+  requiredCAGR: number | null; // % per year the plan needs from start to target
+  requiredCAGRFromNow: number | null; // % per year still needed from the current value
+  achievedCAGR: number | null; // % per year since the start date (null in the first 30 days)
+  plannedValue: number; // Where the required-CAGR path says the account should be today
+  onTrack: boolean | null; // Current value at or above the planned value
+  milestones: GoalMilestoneProgress[];
+  history: { date: string; value: number }[]; // Daily net liquidating value since the start date
+}
+
+export interface PaperFill {
+  side: 'buy' | 'sell';
+  quantity: number;
+  price: number; // Ask for buys, bid for sells
+  fees: number;
+  realizedPnL?: number; // Sells only
+  source: 'polygon' | 'tastytrade';
+}
+
+export type ExitAutomationStatus =
+  | 'active'
+  | 'completed' // Fully exited by target or stop
+  | 'disabled' // Turned off by the user
+  | 'expired' // Contract expired while enrolled
+  | 'failed'; // A live exit could not be placed; re-enable after checking the broker
+
+export type ExitAutomationActionType =
+  | 'enabled'
+  | 'disabled'
+  | 'overrides_updated'
+  | 'partial_exit'
+  | 'full_exit'
+  | 'stop_loss'
+  | 'exit_filled' // Live exit order finished with fills
+  | 'exit_unfilled' // Live exit order ended without (all) fills; monitoring resumed
+  | 'expired'
+  | 'error'
+  | 'kill_switch_on'
+  | 'kill_switch_off';
+
+export interface ExitAutomationOverrides {
+  stopLoss?: number | null;
+  profitTarget?: number | null;
+  partialProfitLevel?: number | null;
+  partialProfitPercent?: number | null;
+}
+
+export interface ExitAutomationState {
+  killSwitch: boolean;
+  defaults: Required<{ [K in keyof ExitAutomationOverrides]: number }>; // From the Elite strategy config
+  automations: ExitAutomation[];
+}
+
+export interface HistoricalBarStoreConfig {
+  dailyDepthDays: number; // Calendar days of daily bars kept for all stocks (e.g. 730 = 2 years)
+  memoryDays: number; // Calendar days of daily bars held in memory for the scanners
+  intradaySymbols: string[]; // Symbols that also keep intraday bars
+  intradayMinutes: number; // Intraday bar size in minutes (stored as timeframe `${n}m`)
+  intradayDepthDays: number; // Calendar days of intraday bars kept
+}
+
+export interface OptionChainArchiveConfig {
+  enabled: boolean;
+  times: string[]; // HH:mm America/New_York on trading days (e.g. ["10:00", "15:45"])
+  symbols: string[]; // Underlyings always archived
+  includeScannerUniverse: boolean; // Also archive current top trades, open tracked recommendations and watchlists
+  maxDte: number; // Only contracts expiring within this many calendar days
+}
+
+// One contract in an archived chain snapshot
+export interface ArchivedOptionContract {
+  symbol: string; // Canonical OCC (e.g. ".SPY251113C00680000")
+  optionType: 'call' | 'put';
+  strike: number;
+  expiry: string; // YYYY-MM-DD
+  bid: number | null;
+  ask: number | null;
+  last: number | null;
+  volume: number | null;
+  openInterest: number | null;
+  iv: number | null; // Decimal (0.25 = 25%)
+  delta: number | null;
+  gamma: number | null;
+  theta: number | null;
+  vega: number | null;
+}
+
+export interface OptionChainSnapshotInfo {
+  underlying: string;
+  date: string; // YYYY-MM-DD (exchange date)
+  time: string; // HH:mm America/New_York
+}
+
+export interface OptionChainSnapshot extends OptionChainSnapshotInfo {
+  capturedAt: string; // ISO timestamp
+  underlyingPrice: number | null;
+  chain: ArchivedOptionContract[];
+}
+
+export type MultiLegStrategyType =
+  | 'single'
+  | 'vertical'
+  | 'calendar'
+  | 'straddle'
+  | 'strangle'
+  | 'iron_condor'
+  | 'covered_call'
+  | 'custom';
+
+/**
+ * One leg of a grouped position. Quantity is signed: positive = long, negative = short.
+ */
+export interface PositionLeg {
+  positionId: string;
+  symbol: string | null;
+  instrument: 'option' | 'stock';
+  optionType: 'call' | 'put' | null;
+  strike: number | null;
+  expiry: string | null; // YYYY-MM-DD
+  quantity: number;
+  multiplier: number;
+  avgCost: number; // Per share/contract unit
+  currentPrice: number;
+  impliedVolatility: number | null;
+  greeks: Greeks; // Position-level (already scaled by quantity × multiplier)
+}
+
+/**
+ * Legs on the same underlying and broker grouped into one strategy.
+ * Dollar values are signed: netCost > 0 is a net debit, < 0 a net credit.
+ */
+export interface MultiLegPosition {
+  id: string;
+  ticker: string;
+  broker: string;
+  strategy: MultiLegStrategyType;
+  label: string; // e.g. "Iron Condor 180/185/210/215 Dec 19"
+  legs: PositionLeg[];
+  underlyingPrice: number | null;
+  netCost: number;
+  currentValue: number;
+  unrealizedPnL: number;
+  unrealizedPnLPercent: number;
+  greeks: Greeks; // Sum of leg Greeks (delta in share equivalents)
+  maxProfit: number | null; // null = unlimited
+  maxLoss: number | null; // Positive dollar amount; null = unlimited
+  breakevens: number[]; // Underlying prices at the front-month expiry
+  expiry: string | null; // Front-month expiry
+  daysToExpiry: number | null;
+}
+
 export interface PositionAnalysis {
   id: string;
   ticker: string;